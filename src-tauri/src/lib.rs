@@ -1,10 +1,16 @@
-#[cfg(target_os = "windows")]
 use std::{
+  collections::HashMap,
   fs,
-  path::PathBuf,
-  process::Command,
-  time::{SystemTime, UNIX_EPOCH},
+  io::{ErrorKind, Write},
+  path::{Path, PathBuf},
+  process::{Command, Output, Stdio},
+  sync::{
+    atomic::{AtomicBool, Ordering},
+    Arc, Mutex,
+  },
+  time::{Duration, SystemTime, UNIX_EPOCH},
 };
+use tokio::sync::Notify;
 
 #[derive(serde::Deserialize)]
 #[serde(rename_all = "camelCase")]
@@ -15,6 +21,36 @@ struct ExportAudiobookInput {
   voice_name: Option<String>,
   rate: f32,
   volume: f32,
+  engine: Option<String>,
+  engine_path: Option<String>,
+  voice_model: Option<String>,
+  ssml: Option<String>,
+}
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+struct ExportAudiobookOutput {
+  output_path: String,
+  engine: String,
+  duration_seconds: f64,
+}
+
+// Motores de voz: SAPI solo existe en Windows; Piper (modelo .onnx) y eSpeak NG son binarios locales multiplataforma.
+#[derive(Clone, Copy, Debug, PartialEq)]
+enum AudioEngine {
+  SystemSpeech,
+  Piper,
+  Espeak,
+}
+
+impl AudioEngine {
+  fn id(self) -> &'static str {
+    match self {
+      AudioEngine::SystemSpeech => "system",
+      AudioEngine::Piper => "piper",
+      AudioEngine::Espeak => "espeak",
+    }
+  }
 }
 
 #[cfg(target_os = "windows")]
@@ -28,6 +64,7 @@ $language = ([string]$env:WRITEWME_AUDIO_LANGUAGE).Trim()
 $voiceName = ([string]$env:WRITEWME_AUDIO_VOICE).Trim()
 $rate = [int]([string]$env:WRITEWME_AUDIO_RATE_SAPI)
 $volume = [int]([string]$env:WRITEWME_AUDIO_VOLUME_SAPI)
+$useSsml = ([string]$env:WRITEWME_AUDIO_SSML).Trim() -eq '1'
 
 $text = Get-Content -Raw -LiteralPath $textPath -Encoding UTF8
 if ([string]::IsNullOrWhiteSpace($text)) {
@@ -82,7 +119,11 @@ try {
   $synth.Volume = $volume
   $synth.SetOutputToWaveFile($outPath)
   try {
-    $synth.Speak($text)
+    if ($useSsml) {
+      $synth.SpeakSsml($text)
+    } else {
+      $synth.Speak($text)
+    }
   } finally {
     $synth.SetOutputToNull()
   }
@@ -93,7 +134,6 @@ try {
 }
 "#;
 
-#[cfg(target_os = "windows")]
 fn build_temp_audio_text_path() -> PathBuf {
   let mut path = std::env::temp_dir();
   let stamp = SystemTime::now()
@@ -119,24 +159,95 @@ fn map_audio_volume_to_sapi(volume: f32) -> i32 {
   (volume.clamp(0.0, 1.0) * 100.0).round() as i32
 }
 
-#[cfg(target_os = "windows")]
-#[tauri::command]
-fn export_audiobook_wav(input: ExportAudiobookInput) -> Result<String, String> {
-  let normalized_text = input.text.trim();
-  if normalized_text.is_empty() {
-    return Err("No hay texto para exportar.".into());
+// eSpeak NG habla a 175 palabras por minuto por defecto y acepta amplitud 0-200 (100 = normal).
+fn map_audio_rate_to_espeak(rate: f32) -> i32 {
+  (175.0 * rate.clamp(0.5, 2.0)).round() as i32
+}
+
+fn map_audio_volume_to_espeak(volume: f32) -> i32 {
+  (volume.clamp(0.0, 1.0) * 100.0).round() as i32
+}
+
+// Piper expresa la velocidad como duracion relativa de fonemas: mas rapido = escala menor.
+fn map_audio_rate_to_piper(rate: f32) -> f32 {
+  1.0 / rate.clamp(0.5, 2.0)
+}
+
+// eSpeak NG solo trae algunas variantes regionales; el resto se lee con la voz base del idioma.
+fn resolve_espeak_voice(language: &str, voice_name: &str) -> String {
+  if !voice_name.is_empty() {
+    return voice_name.to_string();
   }
 
-  let output_path = input.output_path.trim();
-  if output_path.is_empty() {
-    return Err("No se encontro la ruta de salida para el audiolibro.".into());
+  let normalized = language.trim().to_lowercase();
+  const REGIONAL_VOICES: [&str; 6] = ["en-us", "en-gb", "pt-br", "es-419", "fr-be", "vi-vn-x-central"];
+  if REGIONAL_VOICES.contains(&normalized.as_str()) {
+    return normalized;
+  }
+  if normalized.starts_with("es-") && normalized != "es-es" {
+    return "es-419".into();
+  }
+
+  let base = normalized.split('-').next().unwrap_or("").to_string();
+  if base.is_empty() {
+    "es".into()
+  } else {
+    base
+  }
+}
+
+fn resolve_audio_engine(requested: &str, voice_model: &str) -> Result<AudioEngine, String> {
+  match requested {
+    "system" => {
+      if cfg!(target_os = "windows") {
+        Ok(AudioEngine::SystemSpeech)
+      } else {
+        Err("La voz del sistema (SAPI) solo existe en Windows. Elige Piper o eSpeak NG en Configuracion.".into())
+      }
+    }
+    "piper" => Ok(AudioEngine::Piper),
+    "espeak" => Ok(AudioEngine::Espeak),
+    _ => {
+      if cfg!(target_os = "windows") && voice_model.is_empty() {
+        Ok(AudioEngine::SystemSpeech)
+      } else if !voice_model.is_empty() {
+        Ok(AudioEngine::Piper)
+      } else {
+        Ok(AudioEngine::Espeak)
+      }
+    }
   }
+}
+
+fn describe_command_failure(output: &Output, program: &str) -> String {
+  let stderr = String::from_utf8_lossy(&output.stderr).trim().to_string();
+  let stdout = String::from_utf8_lossy(&output.stdout).trim().to_string();
+  if !stderr.is_empty() {
+    stderr
+  } else if !stdout.is_empty() {
+    stdout
+  } else {
+    format!("{program} finalizo con codigo {:?}", output.status.code())
+  }
+}
 
+fn describe_spawn_error(error: std::io::Error, program: &str) -> String {
+  if error.kind() == ErrorKind::NotFound {
+    format!("No se encontro el motor de voz \"{program}\". Instalalo o indica su ruta en Configuracion.")
+  } else {
+    format!("No se pudo iniciar {program}: {error}")
+  }
+}
+
+#[cfg(target_os = "windows")]
+fn synthesize_with_system_speech(input: &ExportAudiobookInput, text: &str, output_path: &str) -> Result<(), String> {
+  // El diccionario de pronunciacion llega como SSML (<phoneme>/<sub>), que solo SAPI interpreta.
+  let ssml = input.ssml.clone().unwrap_or_default().trim().to_string();
   let text_path = build_temp_audio_text_path();
-  fs::write(&text_path, normalized_text.as_bytes())
-    .map_err(|error| format!("No se pudo preparar el texto para audio: {error}"))?;
+  let payload = if ssml.is_empty() { text } else { ssml.as_str() };
+  fs::write(&text_path, payload.as_bytes()).map_err(|error| format!("No se pudo preparar el texto para audio: {error}"))?;
 
-  let requested_voice = input.voice_name.unwrap_or_default().trim().to_string();
+  let requested_voice = input.voice_name.clone().unwrap_or_default().trim().to_string();
   let command_result = Command::new("powershell")
     .args(["-NoProfile", "-NonInteractive", "-Command", AUDIO_EXPORT_SCRIPT])
     .env("WRITEWME_AUDIO_TEXT_PATH", &text_path)
@@ -145,36 +256,201 @@ fn export_audiobook_wav(input: ExportAudiobookInput) -> Result<String, String> {
     .env("WRITEWME_AUDIO_VOICE", requested_voice)
     .env("WRITEWME_AUDIO_RATE_SAPI", map_audio_rate_to_sapi(input.rate).to_string())
     .env("WRITEWME_AUDIO_VOLUME_SAPI", map_audio_volume_to_sapi(input.volume).to_string())
+    .env("WRITEWME_AUDIO_SSML", if ssml.is_empty() { "0" } else { "1" })
     .output();
 
   let _ = fs::remove_file(&text_path);
 
   let output = command_result.map_err(|error| format!("No se pudo iniciar la exportacion de audio: {error}"))?;
   if !output.status.success() {
-    let stderr = String::from_utf8_lossy(&output.stderr).trim().to_string();
-    let stdout = String::from_utf8_lossy(&output.stdout).trim().to_string();
-    let detail = if !stderr.is_empty() {
-      stderr
-    } else if !stdout.is_empty() {
-      stdout
-    } else {
-      format!("PowerShell finalizo con codigo {:?}", output.status.code())
-    };
-    return Err(format!("Fallo al generar WAV: {detail}"));
+    return Err(format!("Fallo al generar WAV: {}", describe_command_failure(&output, "PowerShell")));
+  }
+  Ok(())
+}
+
+#[cfg(not(target_os = "windows"))]
+fn synthesize_with_system_speech(_input: &ExportAudiobookInput, _text: &str, _output_path: &str) -> Result<(), String> {
+  Err("La voz del sistema (SAPI) solo existe en Windows.".into())
+}
+
+// La ruta del motor llega desde el webview: solo se acepta un archivo existente cuyo nombre
+// (sin extension) sea el del motor, para que IPC no pueda lanzar un ejecutable cualquiera.
+fn validate_engine_path(configured: &str, allowed_names: &[&str]) -> Result<String, String> {
+  let path = Path::new(configured);
+  let stem = path.file_stem().and_then(|stem| stem.to_str()).unwrap_or("");
+  if !allowed_names.iter().any(|name| stem.eq_ignore_ascii_case(name)) {
+    return Err(format!("La ruta del motor de voz debe apuntar a {}: {configured}", allowed_names.join(" o ")));
+  }
+  if !path.is_file() {
+    return Err(format!("No se encontro el motor de voz: {configured}"));
+  }
+  Ok(configured.to_string())
+}
+
+fn synthesize_with_piper(input: &ExportAudiobookInput, text: &str, output_path: &str) -> Result<(), String> {
+  let model = input.voice_model.clone().unwrap_or_default().trim().to_string();
+  if model.is_empty() {
+    return Err("Piper necesita un modelo de voz (.onnx). Indicalo en Configuracion.".into());
+  }
+  if !Path::new(&model).is_file() {
+    return Err(format!("No se encontro el modelo de voz de Piper: {model}"));
   }
 
-  let exported_path = String::from_utf8_lossy(&output.stdout).trim().to_string();
-  if exported_path.is_empty() {
-    Ok(output_path.to_string())
+  let program = input.engine_path.clone().unwrap_or_default().trim().to_string();
+  let program = if program.is_empty() {
+    "piper".to_string()
   } else {
-    Ok(exported_path)
+    validate_engine_path(&program, &["piper"])?
+  };
+  let mut child = Command::new(&program)
+    .args(["--model", &model, "--output_file", output_path, "--sentence_silence", "0.35"])
+    .args(["--length_scale", &format!("{:.3}", map_audio_rate_to_piper(input.rate))])
+    .stdin(Stdio::piped())
+    .stdout(Stdio::piped())
+    .stderr(Stdio::piped())
+    .spawn()
+    .map_err(|error| describe_spawn_error(error, &program))?;
+
+  // Piper sintetiza cada linea de stdin por separado y con --output_file se quedaria con la ultima.
+  let single_line = text.split_whitespace().collect::<Vec<_>>().join(" ");
+  if let Some(mut stdin) = child.stdin.take() {
+    stdin
+      .write_all(single_line.as_bytes())
+      .map_err(|error| format!("No se pudo enviar el texto a Piper: {error}"))?;
+  }
+
+  let output = child
+    .wait_with_output()
+    .map_err(|error| format!("Piper no termino correctamente: {error}"))?;
+  if !output.status.success() {
+    return Err(format!("Fallo al generar WAV con Piper: {}", describe_command_failure(&output, &program)));
+  }
+
+  let volume = input.volume.clamp(0.0, 1.0);
+  if volume < 0.999 {
+    let mut wav = fs::read(output_path).map_err(|error| format!("No se pudo leer el WAV generado: {error}"))?;
+    scale_wav_pcm16_volume(&mut wav, volume);
+    fs::write(output_path, wav).map_err(|error| format!("No se pudo ajustar el volumen del WAV: {error}"))?;
+  }
+  Ok(())
+}
+
+fn synthesize_with_espeak(input: &ExportAudiobookInput, text: &str, output_path: &str) -> Result<(), String> {
+  let configured = input.engine_path.clone().unwrap_or_default().trim().to_string();
+  let candidates = if configured.is_empty() {
+    vec!["espeak-ng".to_string(), "espeak".to_string()]
+  } else {
+    vec![validate_engine_path(&configured, &["espeak-ng", "espeak"])?]
+  };
+
+  let text_path = build_temp_audio_text_path();
+  fs::write(&text_path, text.as_bytes()).map_err(|error| format!("No se pudo preparar el texto para audio: {error}"))?;
+  let voice = resolve_espeak_voice(&input.language, input.voice_name.as_deref().unwrap_or("").trim());
+
+  // Sin ruta configurada se prueba espeak-ng y despues el espeak clasico.
+  let mut result = Err(String::new());
+  for program in &candidates {
+    let attempt = Command::new(program)
+      .args(["-v", &voice, "-w", output_path])
+      .args(["-s", &map_audio_rate_to_espeak(input.rate).to_string()])
+      .args(["-a", &map_audio_volume_to_espeak(input.volume).to_string()])
+      .arg("-f")
+      .arg(&text_path)
+      .output();
+    match attempt {
+      Err(error) if error.kind() == ErrorKind::NotFound => {
+        result = Err(describe_spawn_error(error, program));
+        continue;
+      }
+      Err(error) => result = Err(describe_spawn_error(error, program)),
+      Ok(output) if output.status.success() => result = Ok(()),
+      Ok(output) => {
+        result = Err(format!("Fallo al generar WAV con eSpeak NG: {}", describe_command_failure(&output, program)))
+      }
+    }
+    break;
+  }
+
+  let _ = fs::remove_file(&text_path);
+  result
+}
+
+// Recorre los chunks RIFF: fmt aporta los bytes por segundo y data el tamano del audio.
+fn find_wav_chunk(wav: &[u8], id: &[u8; 4]) -> Option<(usize, usize)> {
+  if wav.len() < 12 || &wav[0..4] != b"RIFF" || &wav[8..12] != b"WAVE" {
+    return None;
+  }
+
+  let mut offset = 12;
+  while offset + 8 <= wav.len() {
+    let size = u32::from_le_bytes([wav[offset + 4], wav[offset + 5], wav[offset + 6], wav[offset + 7]]) as usize;
+    let body = offset + 8;
+    if &wav[offset..offset + 4] == id {
+      return Some((body, size.min(wav.len().saturating_sub(body))));
+    }
+    offset = body + size + (size % 2);
+  }
+  None
+}
+
+fn wav_duration_seconds(wav: &[u8]) -> f64 {
+  let byte_rate = match find_wav_chunk(wav, b"fmt ") {
+    Some((body, size)) if size >= 12 => u32::from_le_bytes([wav[body + 8], wav[body + 9], wav[body + 10], wav[body + 11]]),
+    _ => return 0.0,
+  };
+  match find_wav_chunk(wav, b"data") {
+    Some((_, size)) if byte_rate > 0 => size as f64 / byte_rate as f64,
+    _ => 0.0,
+  }
+}
+
+fn scale_wav_pcm16_volume(wav: &mut [u8], volume: f32) {
+  let bits_per_sample = match find_wav_chunk(wav, b"fmt ") {
+    Some((body, size)) if size >= 16 => u16::from_le_bytes([wav[body + 14], wav[body + 15]]),
+    _ => return,
+  };
+  if bits_per_sample != 16 {
+    return;
+  }
+
+  if let Some((body, size)) = find_wav_chunk(wav, b"data") {
+    for sample in wav[body..body + size].chunks_exact_mut(2) {
+      let value = i16::from_le_bytes([sample[0], sample[1]]) as f32 * volume;
+      sample.copy_from_slice(&(value.round() as i16).to_le_bytes());
+    }
   }
 }
 
-#[cfg(not(target_os = "windows"))]
 #[tauri::command]
-fn export_audiobook_wav(_input: ExportAudiobookInput) -> Result<String, String> {
-  Err("La exportacion de audiolibro WAV con voces del sistema esta disponible solo en Windows por ahora.".into())
+fn export_audiobook_wav(input: ExportAudiobookInput) -> Result<ExportAudiobookOutput, String> {
+  let normalized_text = input.text.trim();
+  if normalized_text.is_empty() {
+    return Err("No hay texto para exportar.".into());
+  }
+
+  let output_path = input.output_path.trim();
+  if output_path.is_empty() {
+    return Err("No se encontro la ruta de salida para el audiolibro.".into());
+  }
+  if let Some(parent) = Path::new(output_path).parent() {
+    fs::create_dir_all(parent).map_err(|error| format!("No se pudo crear la carpeta de audio: {error}"))?;
+  }
+
+  let requested_engine = input.engine.clone().unwrap_or_default().trim().to_lowercase();
+  let voice_model = input.voice_model.clone().unwrap_or_default().trim().to_string();
+  let engine = resolve_audio_engine(&requested_engine, &voice_model)?;
+  match engine {
+    AudioEngine::SystemSpeech => synthesize_with_system_speech(&input, normalized_text, output_path)?,
+    AudioEngine::Piper => synthesize_with_piper(&input, normalized_text, output_path)?,
+    AudioEngine::Espeak => synthesize_with_espeak(&input, normalized_text, output_path)?,
+  }
+
+  let wav = fs::read(output_path).map_err(|error| format!("El motor de voz no genero el WAV esperado: {error}"))?;
+  Ok(ExportAudiobookOutput {
+    output_path: output_path.to_string(),
+    engine: engine.id().to_string(),
+    duration_seconds: wav_duration_seconds(&wav),
+  })
 }
 
 #[tauri::command]
@@ -182,10 +458,184 @@ fn quit_app(app: tauri::AppHandle) {
   app.exit(0);
 }
 
+// Proxy HTTP de los proveedores IA: el webview mantiene connect-src cerrado y las
+// peticiones a servidores locales o de la red local salen desde aqui.
+const AI_HTTP_ALLOWED_PATHS: [&str; 4] = ["/api/tags", "/api/generate", "/models", "/chat/completions"];
+
+#[derive(serde::Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct AiHttpRequestInput {
+  request_id: String,
+  url: String,
+  method: String,
+  headers: HashMap<String, String>,
+  body: Option<String>,
+}
+
+#[derive(Clone, serde::Serialize)]
+#[serde(tag = "kind", rename_all = "camelCase")]
+enum AiHttpEvent {
+  Head { status: u16 },
+  Chunk { text: String },
+  End,
+}
+
+const AI_HTTP_CONNECT_TIMEOUT: Duration = Duration::from_secs(10);
+// Entre bytes de la respuesta: cargar un modelo grande en Ollama puede tardar varios minutos.
+const AI_HTTP_READ_TIMEOUT: Duration = Duration::from_secs(300);
+
+// Cancelacion de una peticion en curso: Notify despierta el select! aunque el servidor no mande nada.
+#[derive(Default)]
+struct AiHttpCancel {
+  cancelled: AtomicBool,
+  notify: Notify,
+}
+
+impl AiHttpCancel {
+  fn cancel(&self) {
+    self.cancelled.store(true, Ordering::SeqCst);
+    // notify_one guarda el permiso si nadie espera todavia, asi no se pierde entre dos awaits.
+    self.notify.notify_one();
+  }
+
+  async fn wait(&self) {
+    if self.cancelled.load(Ordering::SeqCst) {
+      return;
+    }
+    self.notify.notified().await;
+  }
+}
+
+#[derive(Default)]
+struct AiHttpRequests(Mutex<HashMap<String, Arc<AiHttpCancel>>>);
+
+fn validate_ai_http_url(raw: &str) -> Result<reqwest::Url, String> {
+  let url = reqwest::Url::parse(raw.trim()).map_err(|error| format!("URL del servidor IA invalida: {error}"))?;
+  if url.scheme() != "http" {
+    return Err("El servidor IA debe usar http (equipo local o red local).".into());
+  }
+  let path = url.path().trim_end_matches('/');
+  if !AI_HTTP_ALLOWED_PATHS.iter().any(|allowed| path.ends_with(allowed)) {
+    return Err(format!("Ruta no permitida para el servidor IA: {path}"));
+  }
+  Ok(url)
+}
+
+// Devuelve el prefijo UTF-8 completo y deja en `pending` los bytes de un caracter cortado entre chunks.
+fn take_utf8_prefix(pending: &mut Vec<u8>) -> String {
+  match std::str::from_utf8(pending) {
+    Ok(text) => {
+      let text = text.to_string();
+      pending.clear();
+      text
+    }
+    Err(error) if error.error_len().is_none() => {
+      let valid = error.valid_up_to();
+      let text = String::from_utf8_lossy(&pending[..valid]).into_owned();
+      pending.drain(..valid);
+      text
+    }
+    Err(_) => {
+      let text = String::from_utf8_lossy(pending).into_owned();
+      pending.clear();
+      text
+    }
+  }
+}
+
+async fn run_ai_http_request(
+  input: AiHttpRequestInput,
+  url: reqwest::Url,
+  on_event: &tauri::ipc::Channel<AiHttpEvent>,
+  cancel: &AiHttpCancel,
+) -> Result<(), String> {
+  let method = reqwest::Method::from_bytes(input.method.trim().to_uppercase().as_bytes())
+    .map_err(|_| format!("Metodo HTTP invalido: {}", input.method))?;
+  let client = reqwest::Client::builder()
+    .connect_timeout(AI_HTTP_CONNECT_TIMEOUT)
+    .read_timeout(AI_HTTP_READ_TIMEOUT)
+    .build()
+    .map_err(|error| format!("No se pudo preparar el cliente HTTP: {error}"))?;
+  let mut request = client.request(method, url);
+  for (name, value) in input.headers {
+    request = request.header(name, value);
+  }
+  if let Some(body) = input.body {
+    request = request.body(body);
+  }
+
+  // Cada await compite con la cancelacion: un servidor que acepta y luego no responde no retiene la tarea.
+  let mut response = tokio::select! {
+    result = request.send() => result.map_err(|error| format!("No se pudo conectar con el servidor IA: {error}"))?,
+    _ = cancel.wait() => return Ok(()),
+  };
+  let send_event = |event: AiHttpEvent| on_event.send(event).map_err(|error| error.to_string());
+  send_event(AiHttpEvent::Head {
+    status: response.status().as_u16(),
+  })?;
+
+  let mut pending = Vec::new();
+  loop {
+    let next = tokio::select! {
+      chunk = response.chunk() => chunk.map_err(|error| format!("Se corto la respuesta del servidor IA: {error}"))?,
+      _ = cancel.wait() => return Ok(()),
+    };
+    let Some(bytes) = next else {
+      break;
+    };
+    pending.extend_from_slice(&bytes);
+    let text = take_utf8_prefix(&mut pending);
+    if !text.is_empty() {
+      send_event(AiHttpEvent::Chunk { text })?;
+    }
+  }
+  if !pending.is_empty() {
+    send_event(AiHttpEvent::Chunk {
+      text: String::from_utf8_lossy(&pending).into_owned(),
+    })?;
+  }
+  send_event(AiHttpEvent::End)
+}
+
+#[tauri::command]
+async fn ai_http_request(
+  input: AiHttpRequestInput,
+  on_event: tauri::ipc::Channel<AiHttpEvent>,
+  requests: tauri::State<'_, AiHttpRequests>,
+) -> Result<(), String> {
+  let url = validate_ai_http_url(&input.url)?;
+  let request_id = input.request_id.clone();
+  let cancel = Arc::new(AiHttpCancel::default());
+  if let Ok(mut active) = requests.0.lock() {
+    active.insert(request_id.clone(), cancel.clone());
+  }
+
+  let result = run_ai_http_request(input, url, &on_event, &cancel).await;
+  if let Ok(mut active) = requests.0.lock() {
+    active.remove(&request_id);
+  }
+  result
+}
+
+#[tauri::command]
+fn cancel_ai_http_request(request_id: String, requests: tauri::State<'_, AiHttpRequests>) {
+  if let Ok(active) = requests.0.lock() {
+    if let Some(cancel) = active.get(&request_id) {
+      cancel.cancel();
+    }
+  }
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
-    .invoke_handler(tauri::generate_handler![export_audiobook_wav, quit_app])
+    .manage(AiHttpRequests::default())
+    .invoke_handler(tauri::generate_handler![
+      export_audiobook_wav,
+      quit_app,
+      ai_http_request,
+      cancel_ai_http_request
+    ])
     .plugin(tauri_plugin_dialog::init())
     .plugin(tauri_plugin_fs::init())
     .setup(|app| {
@@ -23,15 +23,19 @@ import { formatChapterLengthLabel, getChapterLengthProfile, resolveChapterLength
 import { DEFAULT_APP_CONFIG } from './lib/config';
 import { countWordsFromHtml, countWordsFromPlainText, estimatePagesFromWords, formatNumber } from './lib/metrics';
 import {
-  buildBookAudioExportPath,
-  buildBookAudioText,
+  buildAudiobookM3u,
+  buildAudiobookTrackPath,
+  buildAudiobookTracks,
+  buildBookAudioExportDir,
+  buildBookAudioExportFolderName,
   buildChapterAudioExportPath,
   buildChapterAudioText,
+  buildSpeechExportPayload,
   exportAudiobookToWav,
   pickSpeechVoice,
   type AudioPlaybackState,
 } from './lib/audio';
-import { generateWithOllama, inspectOllamaService, type OllamaServiceStatus } from './lib/ollamaClient';
+import { getAiProviderOption, resolveAiProvider, type AiServiceStatus } from './lib/aiProviders';
 import {
   AI_ACTIONS,
   buildActionPrompt,
@@ -52,7 +56,10 @@ import {
   createBookProject,
   createSagaProject,
   createChapter,
+  createDraftBranch,
+  importBookProject,
   deleteChapter,
+  deleteDraftBranch,
   detachBookFromSaga,
   duplicateChapter,
   getBackCoverAbsolutePath,
@@ -62,10 +69,12 @@ import {
   loadLibraryIndex,
   loadBookProject,
   loadBookChatMessages,
+  loadDraftBranchIndex,
   loadChapterChatMessages,
   loadPromptTemplates,
   recoverPendingAiTransactions,
   recordAiTrustIncident,
+  recordDraftChapterMerge,
   loadSagaProject,
   savePromptTemplates,
   readCollaborationPatchFile,
@@ -73,11 +82,20 @@ import {
   startAiTransaction,
   saveSagaMetadata,
   writeAiSessionAudit,
+  loadAiAuditRecords,
+  verifyAiAuditChain,
   commitAiTransaction,
   writeCollaborationPatchExport,
   syncBookToBackupDirectory,
+  listBackupSnapshots,
+  loadBackupSnapshotChapters,
+  materializeBackupSnapshot,
+  pruneBackupSnapshots,
+  restoreChaptersFromBackup,
+  type BackupSnapshotSummary,
   syncBookReferenceInLinkedSaga,
   resolveBookDirectory,
+  mergeChapters,
   moveChapter,
   moveSagaBook,
   renameChapter,
@@ -91,19 +109,31 @@ import {
   saveChapterSnapshot,
   setBackCoverImage,
   setCoverImage,
+  splitChapter,
+  switchDraftBranch,
   updateSagaBookVolume,
   upsertBookInLibrary,
   upsertSagaInLibrary,
+  loadWritingSessionLog,
+  saveWritingSessionLog,
+  writeTextExport,
 } from './lib/storage';
 import {
   buildBookSearchMatches,
   buildBookSearchMatchesAsync,
   buildBookReplacePreviewAsync,
   buildSagaSearchMatchesAsync,
+  buildSearchRegex,
+  EMPTY_SEARCH_CHAPTER_FILTER,
+  filterChaptersForSearch,
+  findMatchesInHtml,
   getSearchPatternError,
+  isSearchChapterFilterActive,
+  replaceMatchAtInHtml,
   replaceMatchesInHtml,
   type ChapterSearchMatch,
   type ReplacePreviewReport,
+  type SearchChapterFilter,
   type SearchReplaceOptions,
 } from './lib/searchReplace';
 import { buildCharacterTrackingReport, formatCharacterTrackingReport } from './lib/characterTracking';
@@ -114,6 +144,14 @@ import {
 } from './lib/collaborationPatchPreview';
 import { buildStoryBibleAutoSyncFromChapter } from './lib/storyBibleSync';
 import { buildContinuityGuardReport, buildContinuityHighlights } from './lib/continuityGuard';
+import { buildManuscriptAuditReport, type ManuscriptAuditReport } from './lib/manuscriptAudit';
+import type { DraftBranchIndex, DraftChapterMerge } from './lib/draftBranches';
+import {
+  MANUSCRIPT_IMPORT_EXTENSIONS,
+  readManuscriptImportSource,
+  type ManuscriptImportChapter,
+  type ManuscriptImportSource,
+} from './lib/manuscriptImport';
 import { buildChapterContinuityBriefing } from './lib/chapterContinuityBriefing';
 import { applyBookCreationTemplate, type BookCreationTemplateId } from './lib/projectTemplates';
 import { buildSagaCanonicalView, buildUnifiedStoryBibleIndex, filterStoryBibleByCanon } from './lib/canon';
@@ -128,9 +166,44 @@ import {
   formatStoryProgressFallback,
 } from './lib/storyProgressSummary';
 import { buildSagaConsistencyReport } from './lib/sagaConsistency';
+import { buildPronunciationSeedEntries, mergePronunciationLexicons } from './lib/pronunciation';
+import { resolveProseLintLanguage } from './lib/proseLint';
+import { parseStyleRules } from './lib/styleRules';
+import { buildPlotChapterCoverage, buildPlotChapterDraft, linkPlotEventToChapter } from './lib/plotBoard';
+import { moveSceneToChapter, updateChapterSceneMeta, type SceneMetaUpdate } from './lib/scenes';
+import {
+  buildWritingSessionsCsv,
+  computeSprintWordsPerMinute,
+  countWordDelta,
+  getSprintRoundOffsetSeconds,
+  recordWritingActivity,
+  recordWritingSprint,
+  resolveSprintPhase,
+  summarizeSprintsByChapter,
+  toLocalDateKey,
+  type WritingGoals,
+  type WritingSessionLog,
+  type WritingSprintPlan,
+  type WritingSprintResult,
+} from './lib/writingSessions';
 import { buildEditorialChecklist, type EditorialChecklistReport } from './lib/editorialChecklist';
 import { applyBookAutoRewrite } from './lib/bookAutoApply';
+import { buildAiMarkedHtml } from './lib/aiProvenanceMarks';
+import {
+  applyEntityRenameToHtml,
+  buildEntityRenamePreview,
+  renameSagaWorldEntity,
+  renameStoryBibleEntity,
+  splitEntityAliases,
+  type EntityRenameBookInput,
+  type EntityRenameOccurrence,
+  type EntityRenamePlan,
+  type EntityRenameTarget,
+} from './lib/entityRename';
+import type { EntityRenameScope } from './components/EntityRenameModal';
 import { getNowIso, normalizeAiOutput, plainTextToHtml, randomId, splitAiOutputAndSummary, stripHtml } from './lib/text';
+import type { TrackedChangeDecision } from './lib/trackChanges';
+import { anchorManuscriptNotes, removeCommentAnchors } from './lib/manuscriptComments';
 import type {
   AiAssistantMode,
   AppConfig,
@@ -147,7 +220,9 @@ import type {
   LibraryIndex,
   MainView,
   PromptTemplate,
+  PronunciationEntry,
   SagaProject,
+  SagaTimelineEvent,
 } from './types/book';
 
 
@@ -158,8 +233,13 @@ const LazyChangeReviewModal = lazy(() => import('./components/ChangeReviewModal'
 const LazyCoverView = lazy(() => import('./components/CoverView'));
 const LazyEditorPane = lazy(() => import('./components/EditorPane'));
 const LazyEditorialChecklistModal = lazy(() => import('./components/EditorialChecklistModal'));
+const LazyManuscriptImportModal = lazy(() => import('./components/ManuscriptImportModal'));
+const LazyBackupRestoreModal = lazy(() => import('./components/BackupRestoreModal'));
+const LazyEntityRenameModal = lazy(() => import('./components/EntityRenameModal'));
 const LazyHelpPanel = lazy(() => import('./components/HelpPanel'));
 const LazyLanguagePanel = lazy(() => import('./components/LanguagePanel'));
+const LazyPronunciationView = lazy(() => import('./components/PronunciationView'));
+const LazyWritingSessionsView = lazy(() => import('./components/WritingSessionsView'));
 const LazyOnboardingPanel = lazy(() => import('./components/OnboardingPanel'));
 const LazyOutlineView = lazy(() => import('./components/OutlineView'));
 const LazyPreviewView = lazy(() => import('./components/PreviewView'));
@@ -177,6 +257,8 @@ const LazyVersionDiffView = lazy(() => import('./components/VersionDiffView'));
 const LazyWorldMapView = lazy(() => import('./components/WorldMapView'));
 const LazyScratchpadView = lazy(() => import('./components/ScratchpadView'));
 const LazyLooseThreadsView = lazy(() => import('./components/LooseThreadsView'));
+const LazyManuscriptAuditView = lazy(() => import('./components/ManuscriptAuditView'));
+const LazyDraftBranchesView = lazy(() => import('./components/DraftBranchesView'));
 const LazyCharacterMatrixView = lazy(() => import('./components/CharacterMatrixView'));
 
 let exportModulePromise: Promise<typeof import('./lib/export')> | null = null;
@@ -216,12 +298,12 @@ function buildSummaryMessage(summaryText: string, title?: string): string {
   return `${title}\n${trimmed}`;
 }
 
-function buildIdleOllamaStatus(configuredModel: string): OllamaServiceStatus {
+function buildIdleOllamaStatus(configuredModel: string): AiServiceStatus {
   return {
     state: 'idle',
     configuredModel: configuredModel.trim(),
     availableModels: [],
-    message: 'Chequea IA local para validar Ollama y el modelo configurado.',
+    message: 'Chequea IA local para validar el servidor y el modelo configurado.',
   };
 }
 
@@ -646,6 +728,9 @@ const FALLBACK_INTERIOR_FORMAT = {
   chapterOpeningStyle: 'standard' as const,
 };
 const AUTOSAVE_TIMEOUT_MS = 15_000;
+const WRITING_SESSION_TICK_MS = 30_000;
+const WRITING_SESSION_IDLE_MS = 90_000;
+const WRITING_SPRINT_TICK_MS = 1000;
 const MIN_EDITOR_DRAFT_SYNC_DELAY_MS = 900;
 const REPLACE_BOOK_YIELD_EVERY = 3;
 const ONBOARDING_DISMISSED_LEGACY_KEY = 'writewme:onboarding-dismissed-v1';
@@ -653,6 +738,7 @@ const ONBOARDING_STATE_KEY = 'writewme:onboarding-state-v2';
 const SESSION_STATE_KEY = 'writewme:last-session-v1';
 const AI_SAFE_MIN_DIFF_WORDS = 120;
 const AI_SAFE_MIN_CHANGE_RATIO = 0.28;
+const AI_LIVE_OUTPUT_THROTTLE_MS = 90;
 const RELEASE_BOOK_AUTO_APPLY_ENABLED =
   String((import.meta as ImportMeta & { env?: Record<string, unknown> }).env?.VITE_ALLOW_BOOK_AUTO_APPLY ?? 'false')
     .toLowerCase()
@@ -821,7 +907,14 @@ interface AiSafeReviewState {
   subtitle: string;
   beforeText: string;
   afterText: string;
-  resolve: (approved: boolean) => void;
+  // Texto aprobado (completo o con solo los hunks aceptados); null si se cancela.
+  resolve: (approvedText: string | null) => void;
+}
+
+interface AiLiveOutputState {
+  label: string;
+  text: string;
+  reviewBeforeText: string | null;
 }
 
 interface EditorialIntentState {
@@ -842,6 +935,26 @@ interface AiRollbackSessionState {
   chaptersBefore: Record<string, ChapterDocument>;
 }
 
+// Estado previo de un renombrado aplicado: sirve para el rollback y para "Deshacer ultimo renombrado".
+interface EntityRenameRestorePoint {
+  label: string;
+  bookPath: string;
+  chapters: Array<{ bookPath: string; chapter: ChapterDocument }>;
+  storyBible: BookProject['metadata']['storyBible'] | null;
+  sagaWorldBible: { sagaPath: string; worldBible: SagaProject['metadata']['worldBible'] } | null;
+}
+
+interface ActiveWritingSprint {
+  bookPath: string;
+  chapterId: string;
+  plan: WritingSprintPlan;
+  startedAtMs: number;
+  // Ronda en curso y palabras del capitulo al empezarla.
+  round: number;
+  roundStartWords: number;
+  recordedRounds: number;
+}
+
 interface EditorLorePeekMatch {
   id: string;
   kind: 'character' | 'location' | 'timeline';
@@ -1090,6 +1203,7 @@ function App() {
   const ollamaStatusRequestRef = useRef(0);
   const onboardingAutoHandledRef = useRef(false);
   const audioUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const aiStreamControllerRef = useRef<AbortController | null>(null);
   const chatMessagesRef = useRef<BookChats>({
     book: [],
     chapters: {},
@@ -1111,7 +1225,7 @@ function App() {
     }
     return window.matchMedia('(prefers-color-scheme: dark)').matches;
   });
-  const [ollamaStatus, setOllamaStatus] = useState<OllamaServiceStatus>(() => buildIdleOllamaStatus(DEFAULT_APP_CONFIG.model));
+  const [ollamaStatus, setOllamaStatus] = useState<AiServiceStatus>(() => buildIdleOllamaStatus(DEFAULT_APP_CONFIG.model));
   const [book, setBook] = useState<BookProject | null>(null);
   const [activeSaga, setActiveSaga] = useState<SagaProject | null>(null);
   const [sagaChapterOptionsByBook, setSagaChapterOptionsByBook] = useState<
@@ -1119,6 +1233,34 @@ function App() {
   >({});
   const [activeChapterId, setActiveChapterId] = useState<string | null>(null);
   const [mainView, setMainView] = useState<MainView>('editor');
+  const [manuscriptAudit, setManuscriptAudit] = useState<{
+    bookPath: string;
+    checkedAt: string;
+    report: ManuscriptAuditReport;
+  } | null>(null);
+  const [draftBranches, setDraftBranches] = useState<{ bookPath: string; index: DraftBranchIndex } | null>(null);
+  const [writingSessions, setWritingSessions] = useState<{ bookPath: string; log: WritingSessionLog } | null>(null);
+  const writingSessionsRef = useRef<{ bookPath: string; log: WritingSessionLog } | null>(null);
+  const lastEditorActivityAtRef = useRef(0);
+  const [activeSprint, setActiveSprint] = useState<ActiveWritingSprint | null>(null);
+  const activeSprintRef = useRef<ActiveWritingSprint | null>(null);
+  const [sprintClockMs, setSprintClockMs] = useState(0);
+  const sprintBlocksAi = Boolean(activeSprint?.plan.blockAi);
+  const [draftBranchBusy, setDraftBranchBusy] = useState(false);
+  const [pendingEditorReveal, setPendingEditorReveal] = useState<{
+    chapterId: string;
+    text: string;
+    // Si viene, se selecciona esa coincidencia exacta; text queda como respaldo.
+    searchMatch?: { pattern: RegExp; occurrenceIndex: number };
+  } | null>(null);
+  const [manuscriptImportSource, setManuscriptImportSource] = useState<ManuscriptImportSource | null>(null);
+  const [manuscriptImportBusy, setManuscriptImportBusy] = useState(false);
+  const [backupBrowser, setBackupBrowser] = useState<{
+    snapshots: BackupSnapshotSummary[];
+    selectedFolder: string | null;
+    snapshotChapters: ChapterDocument[] | null;
+    busy: boolean;
+  } | null>(null);
   const [status, setStatus] = useState('Listo.');
   const [exportBusy, setExportBusy] = useState(false);
   const [errorBoundaryNonce, setErrorBoundaryNonce] = useState(0);
@@ -1156,13 +1298,27 @@ function App() {
   const [searchUseRegex, setSearchUseRegex] = useState(false);
   const [searchBusy, setSearchBusy] = useState(false);
   const [searchMatches, setSearchMatches] = useState<ChapterSearchMatch[]>([]);
+  const [searchFilter, setSearchFilter] = useState<SearchChapterFilter>(EMPTY_SEARCH_CHAPTER_FILTER);
+  // Posicion en la lista plana de apariciones (todas las de searchMatches en orden de capitulo).
+  const [searchCursor, setSearchCursor] = useState<number | null>(null);
   const [searchTotalMatches, setSearchTotalMatches] = useState(0);
   const [searchPreviewReport, setSearchPreviewReport] = useState<ReplacePreviewReport | null>(null);
   const [sagaSearchResults, setSagaSearchResults] = useState<import('./lib/searchReplace').SagaBookSearchMatch[]>([]);
   const [sagaSearchTotalMatches, setSagaSearchTotalMatches] = useState(0);
+  const [entityRenameOpen, setEntityRenameOpen] = useState(false);
+  const [entityRenameBusy, setEntityRenameBusy] = useState(false);
+  const [entityRenamePreview, setEntityRenamePreview] = useState<{
+    plan: EntityRenamePlan;
+    books: EntityRenameBookInput[];
+    occurrences: EntityRenameOccurrence[];
+  } | null>(null);
+  const [lastEntityRename, setLastEntityRename] = useState<EntityRenameRestorePoint | null>(null);
   const [canUndoEdit, setCanUndoEdit] = useState(false);
   const [canRedoEdit, setCanRedoEdit] = useState(false);
   const [continuityHighlightEnabled, setContinuityHighlightEnabled] = useState(false);
+  const [proseLintHighlightEnabled, setProseLintHighlightEnabled] = useState(false);
+  const [aiOriginHighlightEnabled, setAiOriginHighlightEnabled] = useState(false);
+  const [trackChangesEnabled, setTrackChangesEnabled] = useState(false);
   const [continuityBriefingRefreshNonce, setContinuityBriefingRefreshNonce] = useState(0);
   const [snapshotRedoNonce, setSnapshotRedoNonce] = useState(0);
   const [coverLoadDiagnostics, setCoverLoadDiagnostics] = useState<{ cover: string | null; backCover: string | null }>({
@@ -1180,6 +1336,7 @@ function App() {
   } | null>(null);
   const [languageSaveState, setLanguageSaveState] = useState<'idle' | 'saving' | 'saved'>('idle');
   const [aiSafeReview, setAiSafeReview] = useState<AiSafeReviewState | null>(null);
+  const [aiLiveOutput, setAiLiveOutput] = useState<AiLiveOutputState | null>(null);
   const [lastAiRollbackSession, setLastAiRollbackSession] = useState<AiRollbackSessionState | null>(null);
   const [editorialIntent, setEditorialIntent] = useState<EditorialIntentState>({
     isOpen: false,
@@ -1306,16 +1463,22 @@ function App() {
       ...previous,
       state: 'checking',
       configuredModel: config.model.trim(),
-      message: 'Comprobando Ollama local...',
+      message: `Comprobando ${getAiProviderOption(config.aiProvider).label}...`,
     }));
 
-    const statusReport = await inspectOllamaService(config.model);
+    const endpoint = {
+      aiProvider: config.aiProvider,
+      aiBaseUrl: config.aiBaseUrl,
+      aiApiKey: config.aiApiKey,
+      model: config.model,
+    };
+    const statusReport = await resolveAiProvider(endpoint).inspect(endpoint);
     if (ollamaStatusRequestRef.current !== requestId) {
       return;
     }
 
     setOllamaStatus(statusReport);
-  }, [config.model]);
+  }, [config.aiProvider, config.aiBaseUrl, config.aiApiKey, config.model]);
 
   useEffect(() => {
     if (!book?.path) {
@@ -1445,6 +1608,12 @@ function App() {
     return buildUnifiedStoryBibleIndex(canonicalStoryBible, canonicalLinkedSagaWorld);
   }, [canonicalLinkedSagaWorld, canonicalStoryBible]);
 
+  const bookFoundation = book?.metadata.foundation ?? null;
+  const styleRuleSet = useMemo(
+    () => (bookFoundation ? parseStyleRules(bookFoundation) : { rules: [], errors: [] }),
+    [bookFoundation],
+  );
+
   const continuityHighlights = useMemo(() => {
     if (!storyBibleChronicleIndex) {
       return [];
@@ -1620,14 +1789,25 @@ function App() {
   }, [activeSaga, book?.metadata.sagaPath, libraryIndex.sagas]);
 
   const activeSagaChronicleView = useMemo(() => buildSagaCanonicalView(activeSaga), [activeSaga]);
+  const plotChapterCoverage = useMemo(
+    () =>
+      buildPlotChapterCoverage(
+        activeSagaChronicleView?.metadata.worldBible.timeline ?? [],
+        book?.path ?? null,
+        orderedChapters,
+      ),
+    [activeSagaChronicleView, book?.path, orderedChapters],
+  );
 
+  const bookMetadataForChecklist = book?.metadata ?? null;
+  // Usa los capitulos con debounce: el glosario recorre todo el manuscrito.
   const editorialChecklistReport = useMemo(() => {
-    if (!book) {
+    if (!bookMetadataForChecklist) {
       return null;
     }
 
-    return buildEditorialChecklist(book.metadata, config);
-  }, [book, config]);
+    return buildEditorialChecklist(bookMetadataForChecklist, config, metricsChapters);
+  }, [bookMetadataForChecklist, config, metricsChapters]);
 
   const buildSagaPromptContext = useCallback(
     (
@@ -1903,8 +2083,38 @@ function App() {
     () => getSearchPatternError(searchQuery, currentSearchOptions),
     [searchQuery, currentSearchOptions],
   );
+  const searchableChapters = useMemo(
+    () => filterChaptersForSearch(orderedChapters, searchFilter),
+    [orderedChapters, searchFilter],
+  );
+  const searchPointOfViewOptions = useMemo(
+    () =>
+      Array.from(
+        new Set(orderedChapters.map((chapter) => (chapter.pointOfView ?? '').trim()).filter(Boolean)),
+      ).sort((left, right) => left.localeCompare(right)),
+    [orderedChapters],
+  );
+  const searchOccurrenceList = useMemo(
+    () =>
+      searchMatches.flatMap((result) =>
+        result.occurrences.map((occurrence) => ({
+          chapterId: result.chapterId,
+          chapterTitle: result.chapterTitle,
+          occurrence,
+        })),
+      ),
+    [searchMatches],
+  );
 
   const activeLanguage = useMemo(() => normalizeLanguageCode(config.language), [config.language]);
+  const pronunciationLexicon = useMemo(
+    () =>
+      mergePronunciationLexicons(
+        book?.metadata.pronunciationLexicon ?? [],
+        linkedSagaForBook?.metadata.pronunciationLexicon ?? [],
+      ),
+    [book?.metadata.pronunciationLexicon, linkedSagaForBook?.metadata.pronunciationLexicon],
+  );
   const resolvedTheme = useMemo<'light' | 'dark' | 'sepia'>(() => {
     if (config.theme === 'system') {
       return systemPrefersDark ? 'dark' : 'light';
@@ -1999,8 +2209,11 @@ function App() {
       return;
     }
 
-    readTextAloud(buildChapterAudioText(activeEditorChapter));
-  }, [activeEditorChapter, readTextAloud]);
+    const chapterIndex = orderedChapters.findIndex((chapter) => chapter.id === activeEditorChapter.id);
+    readTextAloud(
+      buildChapterAudioText(activeEditorChapter, chapterIndex >= 0 ? chapterIndex + 1 : undefined, pronunciationLexicon),
+    );
+  }, [activeEditorChapter, orderedChapters, pronunciationLexicon, readTextAloud]);
 
   const handleTogglePauseReadAloud = useCallback(() => {
     if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
@@ -2022,6 +2235,27 @@ function App() {
     }
   }, [audioPlaybackState]);
 
+  const audioExportOptions = useMemo(
+    () => ({
+      language: activeLanguage,
+      voiceName: config.audioVoiceName,
+      rate: config.audioRate,
+      volume: config.audioVolume,
+      engine: config.audioEngine,
+      enginePath: config.audioEnginePath,
+      voiceModel: config.audioVoiceModel,
+    }),
+    [
+      activeLanguage,
+      config.audioEngine,
+      config.audioEnginePath,
+      config.audioRate,
+      config.audioVoiceModel,
+      config.audioVoiceName,
+      config.audioVolume,
+    ],
+  );
+
   const exportAudioToWav = useCallback(
     async (text: string, outputPath: string, successLabel: string) => {
       const normalizedText = text.trim();
@@ -2031,20 +2265,17 @@ function App() {
       }
 
       try {
-        const exportedPath = await exportAudiobookToWav({
-          text: normalizedText,
+        const exported = await exportAudiobookToWav({
+          ...audioExportOptions,
+          ...buildSpeechExportPayload(normalizedText, pronunciationLexicon, activeLanguage),
           outputPath,
-          language: activeLanguage,
-          voiceName: config.audioVoiceName,
-          rate: config.audioRate,
-          volume: config.audioVolume,
         });
-        setStatus(`${successLabel}: ${exportedPath}`);
+        setStatus(`${successLabel}: ${exported.outputPath}`);
       } catch (error) {
         setStatus(`No se pudo exportar audio: ${formatUnknownError(error)}`);
       }
     },
-    [activeLanguage, config.audioRate, config.audioVoiceName, config.audioVolume],
+    [activeLanguage, audioExportOptions, pronunciationLexicon],
   );
 
   const checkStrictSagaValidationBlockForBook = useCallback(async () => {
@@ -2091,12 +2322,13 @@ function App() {
       return;
     }
 
+    const chapterIndex = orderedChapters.findIndex((chapter) => chapter.id === activeEditorChapter.id);
     await exportAudioToWav(
-      buildChapterAudioText(activeEditorChapter),
+      buildChapterAudioText(activeEditorChapter, chapterIndex >= 0 ? chapterIndex + 1 : undefined),
       buildChapterAudioExportPath(book.path, book.metadata, activeEditorChapter),
       'Audio de capitulo exportado',
     );
-  }, [book, activeEditorChapter, checkStrictSagaValidationBlockForBook, exportAudioToWav]);
+  }, [book, activeEditorChapter, orderedChapters, checkStrictSagaValidationBlockForBook, exportAudioToWav]);
 
   const interiorFormat = useMemo(
     () => book?.metadata.interiorFormat ?? FALLBACK_INTERIOR_FORMAT,
@@ -2299,6 +2531,54 @@ function App() {
     return stack.length > 0;
   }, [activeChapterId, snapshotRedoNonce]);
 
+  const generateAiText = useCallback(
+    async (input: {
+      config: AppConfig;
+      prompt: string;
+      label: string;
+      reviewBeforeText?: string;
+    }): Promise<string> => {
+      const controller = new AbortController();
+      aiStreamControllerRef.current = controller;
+      const reviewBeforeText = input.reviewBeforeText ?? null;
+      setAiLiveOutput({ label: input.label, text: '', reviewBeforeText });
+      let lastPaintAt = 0;
+
+      try {
+        const output = await resolveAiProvider(input.config).stream({
+          config: input.config,
+          prompt: input.prompt,
+          signal: controller.signal,
+          onToken: (partialText) => {
+            // Limita los renders del shell: el stream puede traer decenas de tokens por segundo.
+            const now = Date.now();
+            if (now - lastPaintAt < AI_LIVE_OUTPUT_THROTTLE_MS) {
+              return;
+            }
+            lastPaintAt = now;
+            setAiLiveOutput({ label: input.label, text: partialText, reviewBeforeText });
+          },
+        });
+        return output;
+      } finally {
+        if (aiStreamControllerRef.current === controller) {
+          aiStreamControllerRef.current = null;
+        }
+        setAiLiveOutput(null);
+      }
+    },
+    [],
+  );
+
+  const handleCancelAiGeneration = useCallback(() => {
+    const controller = aiStreamControllerRef.current;
+    if (!controller) {
+      return;
+    }
+    controller.abort();
+    setStatus('Cancelando generacion IA...');
+  }, []);
+
   const enforceExpansionResult = useCallback(
     async (input: {
       actionId: (typeof AI_ACTIONS)[number]['id'] | null;
@@ -2357,8 +2637,9 @@ function App() {
         candidateText: cleanedCandidate,
       });
       const recoveredRaw = normalizeAiOutput(
-        await generateWithOllama({
+        await generateAiText({
           config,
+          label: 'Recuperando extension pedida',
           prompt: recoveryPrompt,
         }),
       );
@@ -2393,7 +2674,7 @@ function App() {
         riskReason: `${shortfallReason} Recuperacion no alcanzo el minimo requerido.`,
       };
     },
-    [config, activeLanguage],
+    [config, activeLanguage, generateAiText],
   );
 
   const enforceContinuityResult = useCallback(
@@ -2446,8 +2727,9 @@ function App() {
       });
 
       const guardRaw = normalizeAiOutput(
-        await generateWithOllama({
+        await generateAiText({
           config,
+          label: 'Guardia de continuidad',
           prompt: guardPrompt,
         }),
       );
@@ -2477,7 +2759,7 @@ function App() {
         riskReason,
       };
     },
-    [book, config, activeLanguage, buildSagaPromptContext, canonicalStoryBible, storyBibleChronicleIndex],
+    [book, config, activeLanguage, buildSagaPromptContext, canonicalStoryBible, storyBibleChronicleIndex, generateAiText],
   );
 
   const refreshCovers = useCallback((project: CoverProject | null) => {
@@ -2671,6 +2953,15 @@ function App() {
     [],
   );
 
+  const backupRetention = useMemo(
+    () => ({
+      hourly: config.backupRetentionHourly,
+      daily: config.backupRetentionDaily,
+      weekly: config.backupRetentionWeekly,
+    }),
+    [config.backupRetentionDaily, config.backupRetentionHourly, config.backupRetentionWeekly],
+  );
+
   const runBackup = useCallback(
     async (mode: 'auto' | 'manual') => {
       if (!book) {
@@ -2700,14 +2991,16 @@ function App() {
       try {
         const backupResult = await syncBookToBackupDirectory(book.path, backupDirectory, {
           linkedSagaPath: book.metadata.sagaPath,
+          retention: backupRetention,
         });
         lastBackupAtRef.current = Date.now();
         if (mode === 'manual') {
-          setStatus(
-            backupResult.copiedSaga
-              ? `Resguardo versionado creado en: ${backupResult.targetPath} (incluye saga vinculada).`
-              : `Resguardo versionado creado en: ${backupResult.targetPath}.`,
-          );
+          const details = [
+            `${backupResult.storedFiles} archivo/s nuevos, ${backupResult.reusedFiles} reutilizados`,
+            backupResult.copiedSaga ? 'incluye saga vinculada' : '',
+            backupResult.prunedSnapshots > 0 ? `${backupResult.prunedSnapshots} snapshot/s antiguos depurados` : '',
+          ].filter(Boolean);
+          setStatus(`Resguardo versionado creado en: ${backupResult.targetPath} (${details.join(', ')}).`);
         }
         return true;
       } catch (error) {
@@ -2717,7 +3010,7 @@ function App() {
         backupInFlightRef.current = false;
       }
     },
-    [book, config.backupEnabled, config.backupDirectory, config.backupIntervalMs],
+    [backupRetention, book, config.backupEnabled, config.backupDirectory, config.backupIntervalMs],
   );
 
   useEffect(() => {
@@ -2765,11 +3058,11 @@ function App() {
       const ordered = nextBook.metadata.chapterOrder
         .map((chapterId) => nextBook.chapters[chapterId])
         .filter((chapter): chapter is NonNullable<typeof chapter> => Boolean(chapter));
-      const report = buildBookSearchMatches(ordered, query, options);
+      const report = buildBookSearchMatches(filterChaptersForSearch(ordered, searchFilter), query, options);
       setSearchMatches(report.matches);
       setSearchTotalMatches(report.totalMatches);
     },
-    [],
+    [searchFilter],
   );
 
   const dismissOnboardingForever = useCallback(() => {
@@ -2825,8 +3118,8 @@ function App() {
   );
 
   const requestAiSafeReview = useCallback(
-    (input: { title: string; subtitle: string; beforeText: string; afterText: string }): Promise<boolean> => {
-      return new Promise<boolean>((resolve) => {
+    (input: { title: string; subtitle: string; beforeText: string; afterText: string }): Promise<string | null> => {
+      return new Promise<string | null>((resolve) => {
         setAiSafeReview({
           title: input.title,
           subtitle: input.subtitle,
@@ -2996,6 +3289,29 @@ function App() {
     };
   }, [activeChapterId, activeChapter?.updatedAt, updateEditorHistoryState]);
 
+  // Solo cuentan las ediciones del editor (autoguardado); los cambios aplicados por IA no suman a la sesion.
+  const recordWritingSession = useCallback(
+    (bookPath: string, chapterId: string, activity: { added?: number; removed?: number; activeSeconds?: number }) => {
+      const current = writingSessionsRef.current;
+      if (!current || current.bookPath !== bookPath) {
+        return;
+      }
+
+      const nextLog = recordWritingActivity(current.log, { ...activity, chapterId, date: toLocalDateKey(new Date()) });
+      if (nextLog === current.log) {
+        return;
+      }
+
+      const next = { bookPath, log: nextLog };
+      writingSessionsRef.current = next;
+      setWritingSessions(next);
+      void saveWritingSessionLog(bookPath, nextLog).catch((error) => {
+        setStatus(`No se pudo guardar el registro de sesiones: ${formatUnknownError(error)}`);
+      });
+    },
+    [],
+  );
+
   const flushChapterSave = useCallback(async (): Promise<boolean> => {
     const currentBook = bookRef.current;
     if (!currentBook || !activeChapterId || !dirtyRef.current || saveInFlightRef.current) {
@@ -3017,6 +3333,7 @@ function App() {
         AUTOSAVE_TIMEOUT_MS,
         'Auto-guardado de capitulo',
       );
+      recordWritingSession(currentBook.path, saved.id, countWordDelta(chapter.content, saved.content));
       let savedProjectForLibrary: BookProject | null = null;
       setBook((previous) => {
         if (!previous || previous.path !== currentBook.path) {
@@ -3068,7 +3385,7 @@ function App() {
     } finally {
       saveInFlightRef.current = false;
     }
-  }, [activeChapterId, clearEditorAutosaveTimer, flushEditorDraftState, syncBookToLibrary]);
+  }, [activeChapterId, clearEditorAutosaveTimer, flushEditorDraftState, recordWritingSession, syncBookToLibrary]);
 
   const persistBookBeforeClose = useCallback(async (): Promise<boolean> => {
     const currentBook = bookRef.current;
@@ -3410,6 +3727,93 @@ function App() {
     openTitleStep();
   }, [applyOpenedProjectState, syncBookToLibrary]);
 
+  const handleImportManuscript = useCallback(async () => {
+    try {
+      const selectedResult = await open({
+        multiple: false,
+        title: 'Selecciona manuscrito o EPUB a importar',
+        filters: [{ name: 'Manuscritos', extensions: MANUSCRIPT_IMPORT_EXTENSIONS }],
+      });
+      const selectedPath = extractDialogPath(selectedResult);
+      if (!selectedPath) {
+        setStatus('Importar manuscrito: operacion cancelada.');
+        return;
+      }
+
+      setStatus('Importar manuscrito: analizando archivo...');
+      const bytes = await readFile(selectedPath);
+      const source = await readManuscriptImportSource(selectedPath, bytes);
+      if (source.blocks.length === 0) {
+        setStatus('Importar manuscrito: el archivo no contiene texto.');
+        return;
+      }
+      setManuscriptImportSource(source);
+      setStatus(`Importar manuscrito: revisa los capitulos detectados en ${source.suggestedTitle}.`);
+    } catch (error) {
+      setStatus(`Importar manuscrito: ${formatUnknownError(error)}`);
+    }
+  }, []);
+
+  const handleConfirmManuscriptImport = useCallback(
+    async (input: { title: string; author: string; chapters: ManuscriptImportChapter[] }) => {
+      try {
+        const selectedDirectoryResult = await open({
+          directory: true,
+          multiple: false,
+          recursive: true,
+          title: 'Selecciona carpeta padre del libro',
+        });
+        const selectedDirectory = extractDialogPath(selectedDirectoryResult);
+        if (!selectedDirectory) {
+          setStatus('Importar manuscrito: operacion cancelada.');
+          return;
+        }
+
+        setManuscriptImportBusy(true);
+        setStatus(`Importar manuscrito: creando ${input.chapters.length} capitulo/s...`);
+        const source = manuscriptImportSource;
+        let imported = await importBookProject(selectedDirectory, input.title, input.author, input.chapters, {
+          language: source?.language,
+          isbn: source?.isbn,
+        });
+        if (source?.cover) {
+          try {
+            const metadata = await setCoverImage(imported.path, imported.metadata, source.cover);
+            imported = { ...imported, metadata };
+          } catch (error) {
+            setStatus(`Importar manuscrito: portada no copiada (${formatUnknownError(error)}).`);
+          }
+        }
+        let loadedConfig: AppConfig = DEFAULT_APP_CONFIG;
+        try {
+          loadedConfig = await loadAppConfig(imported.path);
+        } catch {
+          try {
+            await saveAppConfig(imported.path, DEFAULT_APP_CONFIG);
+          } catch {
+            // Continua con defaults aunque falle la escritura.
+          }
+        }
+
+        applyOpenedProjectState(imported, loadedConfig);
+        setManuscriptImportSource(null);
+        try {
+          await syncBookToLibrary(imported, { markOpened: true });
+        } catch (error) {
+          setStatus(`Libro importado: ${imported.metadata.title} (sin actualizar biblioteca: ${formatUnknownError(error)})`);
+          return;
+        }
+
+        setStatus(`Libro importado y abierto: ${imported.metadata.title} (${input.chapters.length} capitulo/s).`);
+      } catch (error) {
+        setStatus(`Importar manuscrito: ${formatUnknownError(error)}`);
+      } finally {
+        setManuscriptImportBusy(false);
+      }
+    },
+    [applyOpenedProjectState, manuscriptImportSource, syncBookToLibrary],
+  );
+
   const handleCreateSaga = useCallback(() => {
     setPromptModal({
       title: 'Crear nueva saga',
@@ -3492,6 +3896,67 @@ function App() {
     }
   }, [activeSaga, syncSagaToLibrary]);
 
+  const handleSavePronunciationLexicon = useCallback(
+    async (scope: 'book' | 'saga', entries: PronunciationEntry[]) => {
+      if (scope === 'saga') {
+        if (!linkedSagaForBook) {
+          return;
+        }
+        const nextSaga: SagaProject = {
+          ...linkedSagaForBook,
+          metadata: { ...linkedSagaForBook.metadata, pronunciationLexicon: entries },
+        };
+        setActiveSaga(nextSaga);
+        try {
+          const saved = await saveSagaMetadata(nextSaga.path, nextSaga.metadata);
+          setActiveSaga({ ...nextSaga, metadata: saved });
+          setStatus(`Diccionario de pronunciacion de la saga guardado: ${entries.length} termino/s.`);
+        } catch (error) {
+          setStatus(`No se pudo guardar el diccionario de la saga: ${formatUnknownError(error)}`);
+        }
+        return;
+      }
+
+      if (!book) {
+        return;
+      }
+      const nextMetadata = { ...book.metadata, pronunciationLexicon: entries, updatedAt: getNowIso() };
+      setBook((previous) => (previous && previous.path === book.path ? { ...previous, metadata: nextMetadata } : previous));
+      try {
+        await saveBookMetadata(book.path, nextMetadata);
+        setStatus(`Diccionario de pronunciacion guardado: ${entries.length} termino/s.`);
+      } catch (error) {
+        setStatus(`No se pudo guardar el diccionario de pronunciacion: ${formatUnknownError(error)}`);
+      }
+    },
+    [book, linkedSagaForBook],
+  );
+
+  // Personajes y alias van al diccionario del libro; el lexico de conlang, al de la saga si hay una vinculada.
+  const handleSeedPronunciationLexicon = useCallback(async () => {
+    if (!book) {
+      return;
+    }
+
+    const bookEntries = book.metadata.pronunciationLexicon ?? [];
+    const sagaEntries = linkedSagaForBook?.metadata.pronunciationLexicon ?? [];
+    const seeds = buildPronunciationSeedEntries(book.metadata.storyBible, linkedSagaForBook, [...bookEntries, ...sagaEntries]);
+    if (seeds.length === 0) {
+      setStatus('No hay nombres ni terminos nuevos que sugerir.');
+      return;
+    }
+
+    const conlangSeeds = linkedSagaForBook ? seeds.filter((entry) => entry.source === 'conlang') : [];
+    const bookSeeds = seeds.filter((entry) => !conlangSeeds.includes(entry));
+    if (bookSeeds.length > 0) {
+      await handleSavePronunciationLexicon('book', [...bookEntries, ...bookSeeds]);
+    }
+    if (conlangSeeds.length > 0) {
+      await handleSavePronunciationLexicon('saga', [...sagaEntries, ...conlangSeeds]);
+    }
+    setStatus(`Sugeridos ${seeds.length} termino/s: completa como se leen y guarda.`);
+  }, [book, linkedSagaForBook, handleSavePronunciationLexicon]);
+
   const handleUpsertTimelineEvent = useCallback(
     async (event: import('./types/book').SagaTimelineEvent) => {
       if (!activeSaga) return;
@@ -3988,6 +4453,7 @@ function App() {
       }
 
       dirtyRef.current = true;
+      lastEditorActivityAtRef.current = Date.now();
       resetSnapshotNavigation(activeChapterId);
       const nextDraft: ChapterEditorDraft = {
         chapterId: activeChapterId,
@@ -4087,6 +4553,18 @@ function App() {
     [activeChapterId, book, semanticReferencesCatalog],
   );
 
+  const reviewerDisplayName = config.reviewerName.trim() || book?.metadata.author.trim() || 'Autor';
+
+  const handleResolveTrackedChange = useCallback((changeId: string | 'all', decision: TrackedChangeDecision) => {
+    if (!editorRef.current?.resolveTrackedChange(changeId, decision)) {
+      setStatus('No hay cambios pendientes para resolver en el editor.');
+      return;
+    }
+
+    const verb = decision === 'accept' ? 'aceptado' : 'rechazado';
+    setStatus(changeId === 'all' ? `Todos los cambios pendientes ${verb}s.` : `Cambio ${verb}.`);
+  }, []);
+
   const handleAddManuscriptNote = useCallback(() => {
     if (!book || !activeChapterId) {
       setStatus('Abre un capitulo antes de crear notas de manuscrito.');
@@ -4106,16 +4584,25 @@ function App() {
           return;
         }
 
+        const noteId = randomId('note');
+        const anchored = excerpt ? editorRef.current?.anchorCommentOnSelection(noteId) ?? false : false;
         const nextNote: ChapterManuscriptNote = {
-          id: randomId('note'),
+          id: noteId,
           excerpt,
           note: value.trim(),
+          author: reviewerDisplayName,
           status: 'open',
+          replies: [],
           createdAt: getNowIso(),
           updatedAt: getNowIso(),
         };
+        // El ancla ya esta en el borrador del editor: se guarda ese HTML para no reanclar sobre texto viejo.
+        // Si la seleccion no se pudo marcar (cruza bloques), se busca el fragmento en el HTML.
+        const payload = buildChapterSavePayload(chapter, editorDraftRef.current);
+        const fallback = !anchored && excerpt ? anchorManuscriptNotes(payload.content, [nextNote]) : null;
+        const anchoredByExcerpt = Boolean(fallback && fallback.content !== payload.content);
         const chapterDraft: ChapterDocument = {
-          ...chapter,
+          ...(anchored ? payload : anchoredByExcerpt && fallback ? { ...payload, content: fallback.content, contentJson: null } : chapter),
           manuscriptNotes: [...(chapter.manuscriptNotes ?? []), nextNote],
           updatedAt: getNowIso(),
         };
@@ -4150,16 +4637,18 @@ function App() {
               },
             };
           });
-          setStatus('Nota privada guardada en el manuscrito.');
+          setStatus(
+            anchored || anchoredByExcerpt ? 'Nota privada anclada al fragmento seleccionado.' : 'Nota privada guardada en el manuscrito.',
+          );
         } catch (error) {
           setStatus(`No se pudo guardar la nota de manuscrito: ${formatUnknownError(error)}`);
         }
       },
     });
-  }, [activeChapterId, book]);
+  }, [activeChapterId, book, reviewerDisplayName]);
 
   const handlePatchActiveChapterManuscriptNote = useCallback(
-    async (noteId: string, mode: 'toggle' | 'delete') => {
+    async (noteId: string, mode: 'toggle' | 'delete' | 'reply' | 'reanchor', replyText = '') => {
       if (!book || !activeChapterId) {
         return;
       }
@@ -4173,17 +4662,48 @@ function App() {
       const nextNotes: ChapterManuscriptNote[] =
         mode === 'delete'
           ? currentNotes.filter((entry) => entry.id !== noteId)
-          : currentNotes.map((entry) =>
-              entry.id === noteId
-                ? {
-                    ...entry,
-                    status: entry.status === 'resolved' ? 'open' : 'resolved',
-                    updatedAt: getNowIso(),
-                  }
-                : entry,
-            );
+          : mode === 'reanchor'
+            ? currentNotes
+            : currentNotes.map((entry) => {
+              if (entry.id !== noteId) {
+                return entry;
+              }
+              if (mode === 'reply') {
+                return {
+                  ...entry,
+                  replies: [
+                    ...(entry.replies ?? []),
+                    { id: randomId('reply'), author: reviewerDisplayName, note: replyText.trim(), createdAt: getNowIso() },
+                  ],
+                  updatedAt: getNowIso(),
+                };
+              }
+              return {
+                ...entry,
+                status: entry.status === 'resolved' ? 'open' : 'resolved',
+                updatedAt: getNowIso(),
+              };
+            });
+      // Al borrar la nota se quita su ancla tanto del editor como del HTML que se guarda.
+      let chapterBase = chapter;
+      if (mode === 'delete') {
+        editorRef.current?.removeCommentAnchor(noteId);
+        const payload = buildChapterSavePayload(chapter, editorDraftRef.current);
+        chapterBase = { ...payload, content: removeCommentAnchors(payload.content, noteId) };
+      }
+      // Reanclar es explicito: guardar el capitulo nunca reescribe el HTML para buscar fragmentos.
+      if (mode === 'reanchor') {
+        const note = currentNotes.find((entry) => entry.id === noteId);
+        const payload = buildChapterSavePayload(chapter, editorDraftRef.current);
+        const reanchored = note ? anchorManuscriptNotes(payload.content, [note]) : null;
+        if (!reanchored || reanchored.content === payload.content) {
+          setStatus('No se encontro el fragmento de la nota en el texto actual.');
+          return;
+        }
+        chapterBase = { ...payload, content: reanchored.content, contentJson: null };
+      }
       const chapterDraft: ChapterDocument = {
-        ...chapter,
+        ...chapterBase,
         manuscriptNotes: nextNotes,
         updatedAt: getNowIso(),
       };
@@ -4217,14 +4737,47 @@ function App() {
             },
           };
         });
-        setStatus(mode === 'delete' ? 'Nota privada eliminada.' : 'Estado de nota privada actualizado.');
+        setStatus(
+          mode === 'delete'
+            ? 'Nota privada eliminada.'
+            : mode === 'reply'
+              ? 'Respuesta agregada al hilo de la nota.'
+              : mode === 'reanchor'
+                ? 'Nota reanclada a su fragmento.'
+                : 'Estado de nota privada actualizado.',
+        );
       } catch (error) {
         setStatus(`No se pudo actualizar la nota de manuscrito: ${formatUnknownError(error)}`);
       }
     },
-    [activeChapterId, book],
+    [activeChapterId, book, reviewerDisplayName],
+  );
+
+  const handleReplyManuscriptNote = useCallback(
+    (noteId: string) => {
+      setPromptModal({
+        title: 'Responder nota',
+        label: `Respuesta como ${reviewerDisplayName}`,
+        placeholder: 'Ej: hecho en la segunda pasada, o propongo otra solucion...',
+        multiline: true,
+        confirmLabel: 'Responder',
+        onConfirm: async (value) => {
+          setPromptModal(null);
+          if (value.trim()) {
+            await handlePatchActiveChapterManuscriptNote(noteId, 'reply', value);
+          }
+        },
+      });
+    },
+    [handlePatchActiveChapterManuscriptNote, reviewerDisplayName],
   );
 
+  const handleRevealManuscriptNote = useCallback((noteId: string) => {
+    if (!editorRef.current?.revealComment(noteId)) {
+      setStatus('La nota no tiene ancla en el texto actual (el fragmento cambio o se borro).');
+    }
+  }, []);
+
   const handleRefreshContinuityBriefing = useCallback(() => {
     setContinuityBriefingRefreshNonce((previous) => previous + 1);
     setStatus('Briefing de continuidad actualizado.');
@@ -4417,41 +4970,199 @@ function App() {
     void runBackup('manual');
   }, [runBackup]);
 
-  const handleLanguageChange = useCallback(
-    (language: string) => {
-      setLanguageSaveState('idle');
-      setConfig((previous) => ({
-        ...previous,
-        language,
-      }));
+  const handleOpenBackupBrowser = useCallback(async () => {
+    const backupDirectory = config.backupDirectory.trim();
+    if (!book || !backupDirectory) {
+      setStatus('Backup: abre un libro y define una carpeta destino.');
+      return;
+    }
+    try {
+      const snapshots = await listBackupSnapshots(backupDirectory, book.path);
+      setBackupBrowser({ snapshots, selectedFolder: null, snapshotChapters: null, busy: false });
+    } catch (error) {
+      setStatus(`No se pudieron listar los backups: ${formatUnknownError(error)}`);
+    }
+  }, [book, config.backupDirectory]);
 
-      if (!book) {
-        return;
+  const handleSelectBackupSnapshot = useCallback(
+    async (folderName: string) => {
+      setBackupBrowser((previous) => (previous ? { ...previous, selectedFolder: folderName, snapshotChapters: null } : previous));
+      try {
+        const loaded = await loadBackupSnapshotChapters(config.backupDirectory.trim(), folderName);
+        setBackupBrowser((previous) =>
+          previous && previous.selectedFolder === folderName ? { ...previous, snapshotChapters: loaded.chapters } : previous,
+        );
+      } catch (error) {
+        setBackupBrowser((previous) => (previous ? { ...previous, selectedFolder: null } : previous));
+        setStatus(`No se pudo leer el snapshot: ${formatUnknownError(error)}`);
       }
+    },
+    [config.backupDirectory],
+  );
 
-      setBook((previous) => {
-        if (!previous || previous.path !== book.path) {
-          return previous;
-        }
+  const handlePruneBackups = useCallback(async () => {
+    const currentBook = bookRef.current;
+    const backupDirectory = config.backupDirectory.trim();
+    if (!currentBook || !backupDirectory) {
+      return;
+    }
+    setBackupBrowser((previous) => (previous ? { ...previous, busy: true } : previous));
+    try {
+      const result = await pruneBackupSnapshots(backupDirectory, currentBook.path, backupRetention);
+      const snapshots = await listBackupSnapshots(backupDirectory, currentBook.path);
+      setBackupBrowser((previous) =>
+        previous
+          ? {
+              ...previous,
+              snapshots,
+              busy: false,
+              ...(snapshots.some((entry) => entry.folderName === previous.selectedFolder)
+                ? {}
+                : { selectedFolder: null, snapshotChapters: null }),
+            }
+          : previous,
+      );
+      setStatus(`Retencion aplicada: ${result.removedSnapshots} snapshot/s y ${result.removedObjects} objeto/s eliminados.`);
+    } catch (error) {
+      setBackupBrowser((previous) => (previous ? { ...previous, busy: false } : previous));
+      setStatus(`No se pudo aplicar la retencion: ${formatUnknownError(error)}`);
+    }
+  }, [backupRetention, config.backupDirectory]);
 
-        return {
-          ...previous,
-          metadata: {
-            ...previous.metadata,
-            amazon: {
-              ...previous.metadata.amazon,
-              language,
-            },
-          },
-        };
+  const handleMaterializeBackupSnapshot = useCallback(
+    async (folderName: string) => {
+      const backupDirectory = config.backupDirectory.trim();
+      if (!backupDirectory) {
+        return;
+      }
+      const selectedDirectoryResult = await open({
+        directory: true,
+        multiple: false,
+        recursive: true,
+        title: 'Selecciona carpeta donde reconstruir el snapshot completo',
       });
+      const selectedDirectory = extractDialogPath(selectedDirectoryResult);
+      if (!selectedDirectory) {
+        return;
+      }
+
+      setBackupBrowser((previous) => (previous ? { ...previous, busy: true } : previous));
+      try {
+        const result = await materializeBackupSnapshot(backupDirectory, folderName, selectedDirectory);
+        setBackupBrowser((previous) => (previous ? { ...previous, busy: false } : previous));
+        setStatus(`Snapshot reconstruido en ${result.targetPath} (${result.fileCount} archivo/s).`);
+        const openNow = await confirm(
+          `Snapshot completo reconstruido en:\n${result.targetPath}\n\nAbrir ahora la copia restaurada del libro?`,
+          {
+            title: 'Restaurar snapshot completo',
+            kind: 'info',
+            okLabel: 'Abrir copia',
+            cancelLabel: 'Seguir aqui',
+          },
+        );
+        if (openNow) {
+          setBackupBrowser(null);
+          await loadProject(result.bookPath);
+        }
+      } catch (error) {
+        setBackupBrowser((previous) => (previous ? { ...previous, busy: false } : previous));
+        setStatus(`No se pudo reconstruir el snapshot: ${formatUnknownError(error)}`);
+      }
     },
-    [book],
+    [config.backupDirectory, loadProject],
   );
 
-  const handleFoundationChange = useCallback(
-    (foundation: BookProject['metadata']['foundation']) => {
-      if (!book) {
+  const handleRestoreBackupChapters = useCallback(
+    async (chapterIds: string[]) => {
+      const chapters = backupBrowser?.snapshotChapters?.filter((chapter) => chapterIds.includes(chapter.id)) ?? [];
+      if (chapters.length === 0) {
+        return;
+      }
+      await flushChapterSave();
+      const currentBook = bookRef.current;
+      if (!currentBook) {
+        return;
+      }
+
+      const accepted = await confirm(
+        `Se reemplazaran ${chapters.length} capitulo/s por la version del backup.${config.autoVersioning ? '\nLa version actual queda en el historial de cada capitulo.' : ''}`,
+        {
+          title: 'Restaurar desde backup',
+          kind: 'warning',
+          okLabel: 'Restaurar',
+          cancelLabel: 'Cancelar',
+        },
+      );
+      if (!accepted) {
+        return;
+      }
+
+      setBackupBrowser((previous) => (previous ? { ...previous, busy: true } : previous));
+      try {
+        if (config.autoVersioning) {
+          for (const chapter of chapters) {
+            const current = currentBook.chapters[chapter.id];
+            if (current) {
+              await saveChapterSnapshot(currentBook.path, current, 'Antes de restaurar backup');
+            }
+          }
+        }
+        const result = await restoreChaptersFromBackup(currentBook.path, currentBook.metadata, chapters);
+        const nextProject: BookProject = {
+          ...currentBook,
+          metadata: result.metadata,
+          chapters: {
+            ...currentBook.chapters,
+            ...Object.fromEntries(result.chapters.map((chapter) => [chapter.id, chapter])),
+          },
+        };
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        setStatus(`Restaurados ${result.chapters.length} capitulo/s desde backup.`);
+      } catch (error) {
+        setStatus(`No se pudo restaurar el backup: ${formatUnknownError(error)}`);
+      } finally {
+        setBackupBrowser((previous) => (previous ? { ...previous, busy: false } : previous));
+      }
+    },
+    [backupBrowser, config.autoVersioning, flushChapterSave, syncBookToLibrary],
+  );
+
+  const handleLanguageChange = useCallback(
+    (language: string) => {
+      setLanguageSaveState('idle');
+      setConfig((previous) => ({
+        ...previous,
+        language,
+      }));
+
+      if (!book) {
+        return;
+      }
+
+      setBook((previous) => {
+        if (!previous || previous.path !== book.path) {
+          return previous;
+        }
+
+        return {
+          ...previous,
+          metadata: {
+            ...previous.metadata,
+            amazon: {
+              ...previous.metadata.amazon,
+              language,
+            },
+          },
+        };
+      });
+    },
+    [book],
+  );
+
+  const handleFoundationChange = useCallback(
+    (foundation: BookProject['metadata']['foundation']) => {
+      if (!book) {
         return;
       }
 
@@ -4718,53 +5429,106 @@ function App() {
     });
   }, [book, syncBookToLibrary]);
 
-  const handlePromotePlotEventToChapter = useCallback(
-    async (eventId: string) => {
+  // Crea un capitulo por paso del arco y deja cada evento enlazado a su capitulo en la timeline.
+  const handleGenerateChaptersFromPlotEvents = useCallback(
+    async (eventIds: string[], povCharacterId = '') => {
       if (!book) {
         setStatus('Abre un libro para promover pasos del plot a capitulos.');
         return;
       }
 
       const timelineSource = activeSagaChronicleView?.metadata.worldBible.timeline ?? activeSaga?.metadata.worldBible.timeline ?? [];
-      const plotEvent = timelineSource.find((entry) => entry.id === eventId);
-      if (!plotEvent) {
+      const plotEvents = eventIds
+        .map((eventId) => timelineSource.find((entry) => entry.id === eventId))
+        .filter((entry): entry is SagaTimelineEvent => Boolean(entry))
+        .sort((left, right) => left.startOrder - right.startOrder || left.title.localeCompare(right.title));
+      if (plotEvents.length === 0) {
         setStatus('No se encontro el paso seleccionado en la timeline activa.');
         return;
       }
 
-      const chapterTitle = plotEvent.title.trim() || plotEvent.displayLabel.trim() || `Escena ${plotEvent.startOrder}`;
-      const seedTextParts = [
-        'Escena creada desde PlotBoard.',
-        plotEvent.summary.trim() ? `Resumen del paso:\n${plotEvent.summary.trim()}` : '',
-        plotEvent.notes.trim() ? `Notas de continuidad:\n${plotEvent.notes.trim()}` : '',
-      ].filter(Boolean);
-
+      const characters = activeSagaChronicleView?.metadata.worldBible.characters ?? activeSaga?.metadata.worldBible.characters ?? [];
+      let metadata = book.metadata;
+      const created: ChapterDocument[] = [];
+      const links = new Map<string, string>();
+      let failureWarning = '';
       try {
-        const result = await createChapter(book.path, book.metadata, chapterTitle);
-        const chapterDraft: ChapterDocument = {
-          ...result.chapter,
-          synopsis: plotEvent.summary.trim() || result.chapter.synopsis || '',
-          content: plainTextToHtml(seedTextParts.join('\n\n')),
-          contentJson: null,
-          updatedAt: getNowIso(),
-        };
-        const persistedChapter = await saveChapter(book.path, chapterDraft);
+        for (const plotEvent of plotEvents) {
+          const draft = buildPlotChapterDraft(plotEvent, characters, povCharacterId);
+          const result = await createChapter(book.path, metadata, draft.title);
+          metadata = result.metadata;
+          // createChapter ya lo agrego a book.json: entra al proyecto aunque falle el guardado del texto.
+          created.push(result.chapter);
+          const persistedChapter = await saveChapter(book.path, {
+            ...result.chapter,
+            synopsis: draft.synopsis || result.chapter.synopsis || '',
+            pointOfView: draft.pointOfView,
+            content: plainTextToHtml(draft.seedText),
+            contentJson: null,
+            updatedAt: getNowIso(),
+          });
+          created[created.length - 1] = persistedChapter;
+          links.set(plotEvent.id, persistedChapter.id);
+        }
+      } catch (error) {
+        if (created.length === 0) {
+          setStatus(`No se pudo promover el paso a capitulo: ${formatUnknownError(error)}`);
+          return;
+        }
+        // Los capitulos ya creados siguen en disco: se registran y el error va en el estado final.
+        const blankChapter = created.length > links.size ? created[created.length - 1] : null;
+        failureWarning = ` Fallaron ${plotEvents.length - links.size} paso/s: ${formatUnknownError(error)}${
+          blankChapter ? ` "${blankChapter.title}" quedo creado sin el texto del paso.` : ''
+        }`;
+      }
 
-        const nextProject: BookProject = {
-          ...book,
-          metadata: result.metadata,
-          chapters: {
-            ...book.chapters,
-            [persistedChapter.id]: persistedChapter,
+      const nextProject: BookProject = {
+        ...book,
+        metadata,
+        chapters: {
+          ...book.chapters,
+          ...Object.fromEntries(created.map((chapter) => [chapter.id, chapter])),
+        },
+      };
+      setBook(nextProject);
+      await syncBookToLibrary(nextProject);
+
+      let linkWarning = '';
+      if (activeSaga) {
+        const nextSaga: SagaProject = {
+          ...activeSaga,
+          metadata: {
+            ...activeSaga.metadata,
+            worldBible: {
+              ...activeSaga.metadata.worldBible,
+              timeline: activeSaga.metadata.worldBible.timeline.map((event) => {
+                const chapterId = links.get(event.id);
+                return chapterId ? linkPlotEventToChapter(event, book.path, chapterId) : event;
+              }),
+            },
           },
         };
-        setBook(nextProject);
-        await syncBookToLibrary(nextProject);
-        setActiveChapterId(persistedChapter.id);
+        try {
+          const saved = await saveSagaMetadata(nextSaga.path, nextSaga.metadata);
+          setActiveSaga({ ...nextSaga, metadata: saved });
+        } catch (error) {
+          linkWarning = ` No se pudo enlazar la timeline: ${formatUnknownError(error)}`;
+        }
+      } else {
+        linkWarning = ' Sin saga activa: los eventos no quedaron enlazados.';
+      }
+
+      if (created.length === 1) {
+        setActiveChapterId(created[0].id);
         setMainView('editor');
-        setStatus(`Paso promovido a capitulo: ${persistedChapter.title}.`);
-      } catch (error) {
-        setStatus(`No se pudo promover el paso a capitulo: ${formatUnknownError(error)}`);
+        setStatus(
+          links.size === 1
+            ? `Paso promovido a capitulo: ${created[0].title}.${failureWarning}${linkWarning}`
+            : `Capitulo creado desde PlotBoard: ${created[0].title}.${failureWarning}${linkWarning}`,
+        );
+      } else {
+        setMainView('outline');
+        setStatus(`${created.length} capitulos creados desde PlotBoard.${failureWarning}${linkWarning}`);
       }
     },
     [activeSaga, activeSagaChronicleView, book, syncBookToLibrary],
@@ -5057,7 +5821,10 @@ function App() {
   );
 
   const handleUpdateChapterMeta = useCallback(
-    async (chapterId: string, patch: { synopsis?: string; status?: import('./types/book').ChapterStatus; wordTarget?: number | null }) => {
+    async (
+      chapterId: string,
+      patch: { synopsis?: string; status?: import('./types/book').ChapterStatus; wordTarget?: number | null; pointOfView?: string },
+    ) => {
       if (!book) return;
       const chapter = book.chapters[chapterId];
       if (!chapter) return;
@@ -5081,6 +5848,191 @@ function App() {
     [book],
   );
 
+  // Varias escenas del mismo capitulo se aplican juntas para no pisar un cambio con otro.
+  // Los ids de escena se escriben en el texto, asi que antes se guarda lo pendiente del editor.
+  const handleUpdateScenesMeta = useCallback(
+    async (updates: SceneMetaUpdate[]) => {
+      await flushChapterSave();
+      const currentBook = bookRef.current;
+      if (!currentBook) return;
+      const drafts = new Map<string, ChapterDocument>();
+      try {
+        for (const update of updates) {
+          const chapter = drafts.get(update.chapterId) ?? currentBook.chapters[update.chapterId];
+          if (!chapter) continue;
+          drafts.set(update.chapterId, {
+            ...updateChapterSceneMeta(chapter, update.sceneIndex, update.patch, interiorFormat.sceneBreakGlyph),
+            updatedAt: getNowIso(),
+          });
+        }
+      } catch (error) {
+        setStatus(formatUnknownError(error));
+        return;
+      }
+      const applyChapters = (chapters: ChapterDocument[]) =>
+        setBook((previous) => {
+          if (!previous || previous.path !== currentBook.path) return previous;
+          const nextChapters = { ...previous.chapters };
+          for (const chapter of chapters) {
+            nextChapters[chapter.id] = chapter;
+          }
+          return { ...previous, chapters: nextChapters };
+        });
+      applyChapters(Array.from(drafts.values()));
+
+      try {
+        applyChapters(await Promise.all(Array.from(drafts.values()).map((draft) => saveChapter(currentBook.path, draft))));
+      } catch (error) {
+        setStatus(`No se pudo guardar la escena: ${formatUnknownError(error)}`);
+      }
+    },
+    [flushChapterSave, interiorFormat.sceneBreakGlyph],
+  );
+
+  const handleSplitChapter = useCallback(
+    async (chapterId: string, sceneIndex: number) => {
+      await flushChapterSave();
+      const currentBook = bookRef.current;
+      const chapter = currentBook?.chapters[chapterId];
+      if (!currentBook || !chapter) {
+        return;
+      }
+
+      try {
+        if (config.autoVersioning) {
+          await saveChapterSnapshot(currentBook.path, chapter, 'Dividir capitulo');
+        }
+        const result = await splitChapter(currentBook.path, currentBook.metadata, chapter, sceneIndex, interiorFormat.sceneBreakGlyph);
+        const nextProject: BookProject = {
+          ...currentBook,
+          metadata: result.metadata,
+          chapters: { ...currentBook.chapters, [result.chapter.id]: result.chapter, [result.created.id]: result.created },
+        };
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        setStatus(`"${chapter.title}" dividido: la escena ${sceneIndex + 1} abre "${result.created.title}".`);
+      } catch (error) {
+        setStatus(`No se pudo dividir el capitulo: ${formatUnknownError(error)}`);
+      }
+    },
+    [config.autoVersioning, flushChapterSave, interiorFormat.sceneBreakGlyph, syncBookToLibrary],
+  );
+
+  const handleMergeChapterWithNext = useCallback(
+    async (chapterId: string) => {
+      await flushChapterSave();
+      const currentBook = bookRef.current;
+      if (!currentBook) {
+        return;
+      }
+      const order = currentBook.metadata.chapterOrder;
+      const first = currentBook.chapters[chapterId];
+      const second = currentBook.chapters[order[order.indexOf(chapterId) + 1] ?? ''];
+      if (!first || !second) {
+        setStatus('No hay un capitulo siguiente para unir.');
+        return;
+      }
+
+      const accepted = await confirm(
+        `"${second.title}" se agregara al final de "${first.title}" como nueva escena y su archivo se eliminara.\nEl chat de ese capitulo tambien se borra.`,
+        {
+          title: 'Unir capitulos',
+          kind: 'warning',
+          okLabel: 'Unir',
+          cancelLabel: 'Cancelar',
+        },
+      );
+      if (!accepted) {
+        return;
+      }
+
+      try {
+        if (config.autoVersioning) {
+          await saveChapterSnapshot(currentBook.path, first, 'Unir capitulos');
+          await saveChapterSnapshot(currentBook.path, second, 'Unir capitulos');
+        }
+        const result = await mergeChapters(currentBook.path, currentBook.metadata, first, second, interiorFormat.sceneBreakGlyph);
+        const nextChapters = { ...currentBook.chapters, [result.chapter.id]: result.chapter };
+        delete nextChapters[second.id];
+        const nextProject: BookProject = { ...currentBook, metadata: result.metadata, chapters: nextChapters };
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        setChatMessages((previous) => {
+          const nextChatChapters = { ...previous.chapters };
+          delete nextChatChapters[second.id];
+          return { ...previous, chapters: nextChatChapters };
+        });
+        delete loadedChatScopesRef.current.chapters[second.id];
+        if (activeChapterId === second.id) {
+          setActiveChapterId(first.id);
+        }
+        setStatus(`"${second.title}" unido a "${first.title}".`);
+      } catch (error) {
+        setStatus(`No se pudieron unir los capitulos: ${formatUnknownError(error)}`);
+      }
+    },
+    [activeChapterId, config.autoVersioning, flushChapterSave, interiorFormat.sceneBreakGlyph, syncBookToLibrary],
+  );
+
+  const handleMoveScene = useCallback(
+    async (chapterId: string, sceneIndex: number, targetChapterId: string, targetIndex: number) => {
+      // El texto de la escena vive en el capitulo: primero se guarda lo que haya pendiente en el editor.
+      await flushChapterSave();
+      const currentBook = bookRef.current;
+      const source = currentBook?.chapters[chapterId];
+      const target = currentBook?.chapters[targetChapterId];
+      if (!currentBook || !source || !target) {
+        return;
+      }
+
+      try {
+        const moved = moveSceneToChapter(source, sceneIndex, target, targetIndex, interiorFormat.sceneBreakGlyph);
+        const now = getNowIso();
+        if (config.autoVersioning) {
+          for (const original of source.id === target.id ? [source] : [source, target]) {
+            await saveChapterSnapshot(currentBook.path, original, 'Mover escena');
+          }
+        }
+        // Primero el destino y despues el origen: si falla el origen se restaura el destino,
+        // asi la escena nunca queda duplicada en los dos capitulos.
+        const persisted = [await saveChapter(currentBook.path, { ...moved.target, updatedAt: now })];
+        if (source.id !== target.id) {
+          try {
+            persisted.push(await saveChapter(currentBook.path, { ...moved.source, updatedAt: now }));
+          } catch (error) {
+            let restored = true;
+            try {
+              await saveChapter(currentBook.path, target);
+            } catch {
+              restored = false;
+            }
+            setStatus(
+              restored
+                ? `No se pudo mover la escena (${formatUnknownError(error)}). "${target.title}" quedo como estaba.`
+                : `No se pudo mover la escena (${formatUnknownError(error)}) ni restaurar "${target.title}": la escena quedo en los dos capitulos.`,
+            );
+            return;
+          }
+        }
+        const nextChapters = { ...currentBook.chapters };
+        for (const chapter of persisted) {
+          nextChapters[chapter.id] = chapter;
+        }
+        const nextProject: BookProject = { ...currentBook, chapters: nextChapters };
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        setStatus(
+          source.id === target.id
+            ? `Escena ${sceneIndex + 1} movida a la posicion ${targetIndex + 1} en "${source.title}".`
+            : `Escena ${sceneIndex + 1} de "${source.title}" movida a "${target.title}".`,
+        );
+      } catch (error) {
+        setStatus(`No se pudo mover la escena: ${formatUnknownError(error)}`);
+      }
+    },
+    [config.autoVersioning, flushChapterSave, interiorFormat.sceneBreakGlyph, syncBookToLibrary],
+  );
+
   const handleSaveScratchpad = useCallback(
     async (text: string) => {
       if (!book) return;
@@ -5144,6 +6096,75 @@ function App() {
     [book],
   );
 
+  const handleRunManuscriptAudit = useCallback(() => {
+    if (!book) {
+      return;
+    }
+
+    const linkedSaga = activeSaga && activeSaga.path === book.metadata.sagaPath ? activeSagaChronicleView : null;
+    const report = buildManuscriptAuditReport({
+      chapters: orderedChapters,
+      storyBible: storyBibleChronicleIndex ?? canonicalStoryBible ?? book.metadata.storyBible,
+      bookPath: book.path,
+      saga: linkedSaga,
+      language: config.language,
+    });
+    setManuscriptAudit({ bookPath: book.path, checkedAt: getNowIso(), report });
+    setStatus(
+      report.errorCount + report.warningCount === 0
+        ? `Consistencia verificada en ${report.checkedChapters} capitulo/s: sin hallazgos.`
+        : `Consistencia verificada: ${report.errorCount} error/es y ${report.warningCount} aviso/s.`,
+    );
+  }, [
+    activeSaga,
+    activeSagaChronicleView,
+    book,
+    canonicalStoryBible,
+    config.language,
+    orderedChapters,
+    storyBibleChronicleIndex,
+  ]);
+
+  const handleOpenManuscriptAuditFinding = useCallback((chapterId: string, focusText: string) => {
+    setActiveChapterId(chapterId);
+    setMainView('editor');
+    setPendingEditorReveal(focusText.trim() ? { chapterId, text: focusText } : null);
+  }, []);
+
+  useEffect(() => {
+    if (!pendingEditorReveal || mainView !== 'editor' || activeChapterId !== pendingEditorReveal.chapterId) {
+      return;
+    }
+
+    // El editor es perezoso: se reintenta hasta que TipTap monte el contenido del capitulo.
+    let attempts = 0;
+    let timer: number | null = null;
+    const tryReveal = () => {
+      attempts += 1;
+      const { searchMatch } = pendingEditorReveal;
+      if (
+        (searchMatch && editorRef.current?.revealSearchMatch(searchMatch.pattern, searchMatch.occurrenceIndex)) ||
+        editorRef.current?.revealText(pendingEditorReveal.text)
+      ) {
+        setPendingEditorReveal(null);
+        return;
+      }
+      if (attempts >= 20) {
+        setPendingEditorReveal(null);
+        setStatus('No se encontro el pasaje exacto en el capitulo; revisa la evidencia del informe.');
+        return;
+      }
+      timer = window.setTimeout(tryReveal, 150);
+    };
+    timer = window.setTimeout(tryReveal, 60);
+
+    return () => {
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+    };
+  }, [activeChapterId, mainView, pendingEditorReveal]);
+
   const handleAddSelectionToLooseThreads = useCallback(() => {
     if (!book || !activeChapter) {
       setStatus('Abre un capitulo para convertir una seleccion en hilo suelto.');
@@ -5379,14 +6400,19 @@ function App() {
 
     setSearchBusy(true);
     try {
-      const report = await buildBookSearchMatchesAsync(orderedChapters, query, currentSearchOptions, 4);
+      const report = await buildBookSearchMatchesAsync(searchableChapters, query, currentSearchOptions, 4);
       setSearchMatches(report.matches);
       setSearchTotalMatches(report.totalMatches);
-      setStatus(`Busqueda completada: ${report.totalMatches} coincidencia/s en ${report.matches.length} capitulo/s.`);
+      setSearchCursor(null);
+      setStatus(
+        `Busqueda completada: ${report.totalMatches} coincidencia/s en ${report.matches.length} capitulo/s${
+          isSearchChapterFilterActive(searchFilter) ? ` (filtro: ${searchableChapters.length} de ${orderedChapters.length} capitulo/s)` : ''
+        }.`,
+      );
     } finally {
       setSearchBusy(false);
     }
-  }, [book, searchQuery, orderedChapters, currentSearchOptions, searchPatternError]);
+  }, [book, searchQuery, orderedChapters, searchableChapters, searchFilter, currentSearchOptions, searchPatternError]);
 
   const handlePreviewReplaceInBook = useCallback(async () => {
     if (!book) {
@@ -5408,7 +6434,7 @@ function App() {
     setSearchBusy(true);
     try {
       const report = await buildBookReplacePreviewAsync(
-        orderedChapters,
+        searchableChapters,
         query,
         replaceQuery,
         currentSearchOptions,
@@ -5422,7 +6448,7 @@ function App() {
     } finally {
       setSearchBusy(false);
     }
-  }, [book, searchQuery, replaceQuery, orderedChapters, currentSearchOptions, searchPatternError]);
+  }, [book, searchQuery, replaceQuery, searchableChapters, currentSearchOptions, searchPatternError]);
 
   const handleRunSagaSearch = useCallback(async () => {
     if (!activeSaga) return;
@@ -5534,6 +6560,119 @@ function App() {
     refreshSearchResults,
   ]);
 
+  const handleOpenSearchOccurrence = useCallback(
+    (position: number) => {
+      const entry = searchOccurrenceList[position];
+      const pattern = buildSearchRegex(searchQuery, currentSearchOptions);
+      if (!entry || !pattern) {
+        return;
+      }
+
+      setSearchCursor(position);
+      setActiveChapterId(entry.chapterId);
+      setMainView('editor');
+      setPendingEditorReveal({
+        chapterId: entry.chapterId,
+        text: `${entry.occurrence.match}${entry.occurrence.contextAfter}`,
+        searchMatch: { pattern, occurrenceIndex: entry.occurrence.index },
+      });
+      setStatus(`Coincidencia ${position + 1} de ${searchOccurrenceList.length}: ${entry.chapterTitle}.`);
+    },
+    [searchOccurrenceList, searchQuery, currentSearchOptions],
+  );
+
+  const handleStepSearchOccurrence = useCallback(
+    (delta: 1 | -1) => {
+      const total = searchOccurrenceList.length;
+      if (total === 0) {
+        setStatus('Navegar coincidencias: ejecuta primero una busqueda con resultados.');
+        return;
+      }
+
+      const next = searchCursor === null ? (delta > 0 ? 0 : total - 1) : (searchCursor + delta + total) % total;
+      handleOpenSearchOccurrence(next);
+    },
+    [searchOccurrenceList.length, searchCursor, handleOpenSearchOccurrence],
+  );
+
+  const handleReplaceSearchOccurrence = useCallback(
+    async (position: number) => {
+      const entry = searchOccurrenceList[position];
+      const chapter = book && entry ? book.chapters[entry.chapterId] : null;
+      if (!book || !entry || !chapter) {
+        return;
+      }
+
+      const query = searchQuery.trim();
+      if (searchPatternError) {
+        setStatus(`Regex invalido: ${searchPatternError}`);
+        return;
+      }
+      // El indice solo vale si el capitulo no cambio desde la busqueda.
+      if (findMatchesInHtml(chapter.content, query, currentSearchOptions)[entry.occurrence.index]?.match !== entry.occurrence.match) {
+        refreshSearchResults(book, query, currentSearchOptions);
+        setStatus('La coincidencia cambio desde la busqueda; resultados actualizados.');
+        return;
+      }
+
+      setSearchBusy(true);
+      try {
+        const updated = replaceMatchAtInHtml(chapter.content, query, replaceQuery, currentSearchOptions, entry.occurrence.index);
+        if (!updated.replaced) {
+          setStatus('No se encontro la coincidencia en el capitulo.');
+          return;
+        }
+
+        if (config.autoVersioning) {
+          await saveChapterSnapshot(book.path, chapter, 'Buscar/Reemplazar una coincidencia');
+        }
+        const persisted = await saveChapter(book.path, {
+          ...chapter,
+          content: updated.html,
+          contentJson: null,
+          updatedAt: getNowIso(),
+        });
+        const nextProject: BookProject = {
+          ...book,
+          chapters: {
+            ...book.chapters,
+            [chapter.id]: persisted,
+          },
+        };
+
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        dirtyRef.current = false;
+        resetSnapshotNavigation(chapter.id);
+        refreshSearchResults(nextProject, query, currentSearchOptions);
+        setSearchPreviewReport(null);
+        setStatus(`Coincidencia reemplazada en "${chapter.title}".`);
+      } catch (error) {
+        setStatus(`Reemplazar coincidencia: ${formatUnknownError(error)}`);
+      } finally {
+        setSearchBusy(false);
+      }
+    },
+    [
+      book,
+      searchOccurrenceList,
+      searchQuery,
+      replaceQuery,
+      searchPatternError,
+      currentSearchOptions,
+      config.autoVersioning,
+      resetSnapshotNavigation,
+      syncBookToLibrary,
+      refreshSearchResults,
+    ],
+  );
+
+  const handleSearchFilterChange = useCallback((filter: SearchChapterFilter) => {
+    setSearchFilter(filter);
+    // La simulacion previa ya no corresponde al nuevo conjunto de capitulos.
+    setSearchPreviewReport(null);
+  }, []);
+
   const handleReplaceInBook = useCallback(async () => {
     if (!book) {
       return;
@@ -5565,10 +6704,11 @@ function App() {
       let totalReplacements = 0;
       let changedChapters = 0;
       let workingChapters: BookProject['chapters'] = { ...book.chapters };
+      const searchableChapterIds = new Set(searchableChapters.map((chapter) => chapter.id));
 
       for (const [index, chapterId] of book.metadata.chapterOrder.entries()) {
         const chapter = workingChapters[chapterId];
-        if (!chapter) {
+        if (!chapter || !searchableChapterIds.has(chapterId)) {
           continue;
         }
 
@@ -5692,6 +6832,7 @@ function App() {
     replaceQuery,
     searchPatternError,
     searchPreviewReport,
+    searchableChapters,
     currentSearchOptions,
     config.autoVersioning,
     refreshSearchResults,
@@ -5699,6 +6840,306 @@ function App() {
     syncBookToLibrary,
   ]);
 
+  const entityRenameTargets = useMemo<EntityRenameTarget[]>(() => {
+    if (!entityRenameOpen) {
+      return [];
+    }
+
+    const targets: EntityRenameTarget[] = [];
+    for (const character of book?.metadata.storyBible.characters ?? []) {
+      targets.push({ kind: 'character', source: 'book', id: character.id, name: character.name, aliases: splitEntityAliases(character.aliases) });
+    }
+    for (const location of book?.metadata.storyBible.locations ?? []) {
+      targets.push({ kind: 'location', source: 'book', id: location.id, name: location.name, aliases: splitEntityAliases(location.aliases) });
+    }
+    for (const character of activeSaga?.metadata.worldBible.characters ?? []) {
+      const timelineAliases = character.aliasTimeline.map((alias) => alias.value.trim()).filter(Boolean);
+      targets.push({
+        kind: 'character',
+        source: 'saga',
+        id: character.id,
+        name: character.name,
+        aliases: Array.from(new Set([...splitEntityAliases(character.aliases), ...timelineAliases])),
+      });
+    }
+    for (const location of activeSaga?.metadata.worldBible.locations ?? []) {
+      targets.push({ kind: 'location', source: 'saga', id: location.id, name: location.name, aliases: splitEntityAliases(location.aliases) });
+    }
+    return targets.filter((target) => target.name.trim().length > 0);
+  }, [entityRenameOpen, book?.metadata.storyBible, activeSaga?.metadata.worldBible]);
+
+  const handlePreviewEntityRename = useCallback(
+    async (plan: EntityRenamePlan, scope: EntityRenameScope) => {
+      if (!book) {
+        return;
+      }
+
+      const toRenameInput = (project: BookProject): EntityRenameBookInput => ({
+        path: project.path,
+        title: project.metadata.title,
+        chapters: project.metadata.chapterOrder
+          .map((chapterId) => project.chapters[chapterId])
+          .filter((chapter): chapter is ChapterDocument => Boolean(chapter)),
+      });
+
+      setEntityRenameBusy(true);
+      try {
+        const books: EntityRenameBookInput[] = [toRenameInput(book)];
+        if (scope === 'saga' && activeSaga) {
+          for (const link of activeSaga.metadata.books) {
+            if (link.bookPath === book.path) {
+              continue;
+            }
+            try {
+              books.push(toRenameInput(await loadBookProject(link.bookPath)));
+            } catch {
+              // Book may not be accessible — skip
+            }
+          }
+        }
+
+        const occurrences = buildEntityRenamePreview(books, plan);
+        setEntityRenamePreview({ plan, books, occurrences });
+        setStatus(
+          `Renombrar "${plan.target.name}": ${occurrences.length} aparicion/es en ${new Set(occurrences.map((entry) => entry.bookPath)).size} libro/s.`,
+        );
+      } catch (error) {
+        setStatus(`Renombrar: ${formatUnknownError(error)}`);
+      } finally {
+        setEntityRenameBusy(false);
+      }
+    },
+    [book, activeSaga],
+  );
+
+  // Devuelve cuantos elementos no se pudieron restaurar.
+  const restoreEntityRenamePoint = useCallback(
+    async (point: EntityRenameRestorePoint): Promise<number> => {
+      let failed = 0;
+      const restoredChapters: ChapterDocument[] = [];
+      for (const entry of point.chapters) {
+        try {
+          const restored = await saveChapter(entry.bookPath, {
+            ...entry.chapter,
+            updatedAt: getNowIso(),
+          });
+          if (entry.bookPath === book?.path) {
+            restoredChapters.push(restored);
+          }
+        } catch {
+          failed += 1;
+        }
+      }
+
+      let restoredMetadata: BookProject['metadata'] | null = null;
+      if (point.storyBible && book && book.path === point.bookPath) {
+        try {
+          restoredMetadata = await saveBookMetadata(book.path, {
+            ...book.metadata,
+            storyBible: point.storyBible,
+          });
+        } catch {
+          failed += 1;
+        }
+      }
+
+      if (point.sagaWorldBible && activeSaga && activeSaga.path === point.sagaWorldBible.sagaPath) {
+        try {
+          const saved = await saveSagaMetadata(activeSaga.path, {
+            ...activeSaga.metadata,
+            worldBible: point.sagaWorldBible.worldBible,
+          });
+          setActiveSaga({ ...activeSaga, metadata: saved });
+        } catch {
+          failed += 1;
+        }
+      }
+
+      if (book && (restoredChapters.length > 0 || restoredMetadata)) {
+        const restoredProject: BookProject = {
+          ...book,
+          metadata: restoredMetadata ?? book.metadata,
+          chapters: {
+            ...book.chapters,
+            ...Object.fromEntries(restoredChapters.map((chapter) => [chapter.id, chapter])),
+          },
+        };
+        setBook(restoredProject);
+        try {
+          await syncBookToLibrary(restoredProject);
+        } catch {
+          // El mensaje principal ya informa estado de recuperacion.
+        }
+        for (const chapter of restoredChapters) {
+          resetSnapshotNavigation(chapter.id);
+        }
+      }
+
+      return failed;
+    },
+    [book, activeSaga, resetSnapshotNavigation, syncBookToLibrary],
+  );
+
+  const handleApplyEntityRename = useCallback(
+    async (acceptedKeys: string[]) => {
+      if (!book || !entityRenamePreview) {
+        return;
+      }
+
+      const { plan, books, occurrences } = entityRenamePreview;
+      if (plan.target.source === 'saga' && !activeSaga) {
+        setStatus('Renombrar: la saga de este personaje/lugar ya no esta abierta.');
+        return;
+      }
+
+      const accepted = new Set(acceptedKeys);
+      const restorePoint: EntityRenameRestorePoint = {
+        label: `${plan.target.name} -> ${plan.newName}`,
+        bookPath: book.path,
+        chapters: [],
+        storyBible: null,
+        sagaWorldBible: null,
+      };
+      setEntityRenameBusy(true);
+      try {
+        let totalReplacements = 0;
+        const activeBookChapters: ChapterDocument[] = [];
+        for (const entry of books) {
+          for (const [index, chapter] of entry.chapters.entries()) {
+            const indexes = new Set(
+              occurrences
+                .filter((occurrence) => occurrence.bookPath === entry.path && occurrence.chapterId === chapter.id && accepted.has(occurrence.key))
+                .map((occurrence) => occurrence.index),
+            );
+            if (indexes.size === 0) {
+              continue;
+            }
+            // Los indices de la vista previa solo valen para el mismo contenido.
+            if (entry.path === book.path && book.chapters[chapter.id]?.content !== chapter.content) {
+              throw new Error(`El capitulo "${chapter.title}" cambio despues de la busqueda. Vuelve a buscar apariciones.`);
+            }
+
+            const updated = applyEntityRenameToHtml(chapter.content, plan, indexes);
+            if (config.autoVersioning) {
+              await saveChapterSnapshot(entry.path, chapter, `Renombrar ${plan.target.name}`);
+            }
+            restorePoint.chapters.push({ bookPath: entry.path, chapter });
+            const persisted = await saveChapter(entry.path, {
+              ...chapter,
+              content: updated.html,
+              contentJson: null,
+              updatedAt: getNowIso(),
+            });
+            if (entry.path === book.path) {
+              activeBookChapters.push(persisted);
+            }
+            totalReplacements += updated.replacements;
+            if ((index + 1) % REPLACE_BOOK_YIELD_EVERY === 0) {
+              await yieldToBrowser();
+            }
+          }
+        }
+
+        let nextMetadata = book.metadata;
+        if (plan.target.source === 'book') {
+          restorePoint.storyBible = book.metadata.storyBible;
+          nextMetadata = await saveBookMetadata(book.path, {
+            ...book.metadata,
+            storyBible: renameStoryBibleEntity(book.metadata.storyBible, plan),
+          });
+        } else if (activeSaga) {
+          restorePoint.sagaWorldBible = { sagaPath: activeSaga.path, worldBible: activeSaga.metadata.worldBible };
+          const savedSaga = await saveSagaMetadata(activeSaga.path, {
+            ...activeSaga.metadata,
+            worldBible: renameSagaWorldEntity(activeSaga.metadata.worldBible, plan),
+          });
+          setActiveSaga({ ...activeSaga, metadata: savedSaga });
+        }
+
+        const nextProject: BookProject = {
+          ...book,
+          metadata: nextMetadata,
+          chapters: {
+            ...book.chapters,
+            ...Object.fromEntries(activeBookChapters.map((chapter) => [chapter.id, chapter])),
+          },
+        };
+        setBook(nextProject);
+        await syncBookToLibrary(nextProject);
+        dirtyRef.current = false;
+        for (const chapter of activeBookChapters) {
+          resetSnapshotNavigation(chapter.id);
+        }
+
+        setLastEntityRename(restorePoint);
+        setEntityRenamePreview(null);
+        setStatus(
+          `Renombrado aplicado (${restorePoint.label}): ${totalReplacements} cambio/s en ${restorePoint.chapters.length} capitulo/s y biblia actualizada.`,
+        );
+      } catch (error) {
+        if (restorePoint.chapters.length === 0 && !restorePoint.storyBible && !restorePoint.sagaWorldBible) {
+          setStatus(`Renombrar: ${formatUnknownError(error)}`);
+          return;
+        }
+
+        const failed = await restoreEntityRenamePoint(restorePoint);
+        setStatus(
+          failed === 0
+            ? `Renombrado cancelado por error (${formatUnknownError(error)}) y rollback completo aplicado (${restorePoint.chapters.length} capitulo/s).`
+            : `Renombrado parcial por error (${formatUnknownError(error)}). Rollback fallido en ${failed} elemento/s.`,
+        );
+      } finally {
+        setEntityRenameBusy(false);
+      }
+    },
+    [
+      book,
+      activeSaga,
+      entityRenamePreview,
+      config.autoVersioning,
+      restoreEntityRenamePoint,
+      resetSnapshotNavigation,
+      syncBookToLibrary,
+    ],
+  );
+
+  const handleUndoEntityRename = useCallback(async () => {
+    if (!lastEntityRename) {
+      return;
+    }
+    if (!book || book.path !== lastEntityRename.bookPath) {
+      setStatus('Deshacer renombrado: abre el libro desde el que se aplico.');
+      return;
+    }
+
+    const accepted = await confirm(
+      `Se restauraran ${lastEntityRename.chapters.length} capitulo/s y la biblia tal como estaban antes de "${lastEntityRename.label}".\nLos cambios posteriores en esos capitulos se perderan.`,
+      {
+        title: 'Deshacer renombrado',
+        kind: 'warning',
+        okLabel: 'Deshacer',
+        cancelLabel: 'Cancelar',
+      },
+    );
+    if (!accepted) {
+      return;
+    }
+
+    setEntityRenameBusy(true);
+    try {
+      const failed = await restoreEntityRenamePoint(lastEntityRename);
+      setEntityRenamePreview(null);
+      if (failed > 0) {
+        setStatus(`Deshacer renombrado incompleto: ${failed} elemento/s no se pudieron restaurar.`);
+        return;
+      }
+      setLastEntityRename(null);
+      setStatus(`Renombrado deshecho: ${lastEntityRename.label}.`);
+    } finally {
+      setEntityRenameBusy(false);
+    }
+  }, [book, lastEntityRename, restoreEntityRenamePoint]);
+
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       if (event.defaultPrevented || event.isComposing) {
@@ -5711,7 +7152,7 @@ function App() {
       const editableTarget = isEditableTarget(event.target);
       const isPrintableKey = key.length === 1;
 
-      if (editableTarget && !(ctrlOrMeta && key === 's')) {
+      if (editableTarget && !(ctrlOrMeta && key === 's') && key !== 'f3') {
         return;
       }
 
@@ -5739,6 +7180,12 @@ function App() {
         return;
       }
 
+      if (key === 'f3' && !ctrlOrMeta) {
+        event.preventDefault();
+        handleStepSearchOccurrence(shift ? -1 : 1);
+        return;
+      }
+
       if (ctrlOrMeta && key === 's') {
         event.preventDefault();
         void flushChapterSave();
@@ -5776,7 +7223,16 @@ function App() {
     return () => {
       window.removeEventListener('keydown', onKeyDown);
     };
-  }, [activeChapterId, book, flushChapterSave, handleCreateChapter, handleMoveChapter, promptModal, toggleFocusMode]);
+  }, [
+    activeChapterId,
+    book,
+    flushChapterSave,
+    handleCreateChapter,
+    handleMoveChapter,
+    handleStepSearchOccurrence,
+    promptModal,
+    toggleFocusMode,
+  ]);
 
   const persistScopeMessages = useCallback(
     async (scope: ChatScope, messages: ChatMessage[], chapterIdOverride?: string) => {
@@ -5938,8 +7394,9 @@ function App() {
         });
 
         const aiSummary = normalizeAiOutput(
-          await generateWithOllama({
+          await generateAiText({
             config,
+            label: 'Resumen de historia',
             prompt,
           }),
         );
@@ -5985,6 +7442,7 @@ function App() {
       buildSagaPromptContext,
       canonicalStoryBible,
       storyBibleChronicleIndex,
+      generateAiText,
     ],
   );
 
@@ -6197,6 +7655,11 @@ function App() {
         return;
       }
 
+      if (sprintBlocksAi) {
+        setStatus('La IA esta bloqueada hasta que termine el sprint.');
+        return;
+      }
+
       if (scope === 'chapter' && !activeChapterId) {
         setStatus('No hay capitulo activo para enviar mensaje en modo capitulo.');
         return;
@@ -6268,8 +7731,9 @@ function App() {
           });
 
           const answer = normalizeAiOutput(
-            await generateWithOllama({
+            await generateAiText({
               config,
+              label: 'Respuesta del chat',
               prompt,
             }),
           );
@@ -6422,8 +7886,9 @@ function App() {
               });
 
               const rawResponse = normalizeAiOutput(
-                await generateWithOllama({
+                await generateAiText({
                   config,
+                  label: `Agente continuo: ronda ${round}/${maxRounds}`,
                   prompt,
                 }),
               );
@@ -6443,7 +7908,7 @@ function App() {
                 chapterTitle: chapter.title,
                 recentText: compactHistory,
               });
-              const nextChapterText = continuityResult.text;
+              let nextChapterText = continuityResult.text;
               previousSummary = parsed.summary;
               lastSummaryMessage =
                 continuityResult.summaryText ||
@@ -6463,7 +7928,7 @@ function App() {
                 .filter(Boolean)
                 .join(' | ');
               if (requiresHighRiskReview || requiresSafeModeReview) {
-                const approved = await requestAiSafeReview({
+                const approvedText = await requestAiSafeReview({
                   title: requiresHighRiskReview ? `Riesgo alto IA - ${chapter.title}` : `Modo seguro IA - ${chapter.title}`,
                   subtitle: requiresHighRiskReview
                     ? `Riesgo alto detectado en ronda ${round}/${maxRounds}. ${riskReason || 'Requiere aprobacion manual antes de aplicar.'}`
@@ -6471,7 +7936,7 @@ function App() {
                   beforeText: currentChapterText,
                   afterText: nextChapterText,
                 });
-                if (!approved) {
+                if (approvedText === null) {
                   cancelledBySafeMode = true;
                   cancelledByRiskReview = requiresHighRiskReview;
                   setStatus(
@@ -6481,11 +7946,17 @@ function App() {
                   );
                   break;
                 }
+                nextChapterText = approvedText;
               }
 
               const chapterDraft = {
                 ...chapter,
-                content: plainTextToHtml(nextChapterText),
+                content: buildAiMarkedHtml(
+                  currentChapterText,
+                  nextChapterText,
+                  { operation: 'chat-auto-apply-continuous' },
+                  { beforeHtml: chapter.content },
+                ),
                 contentJson: null,
                 updatedAt: getNowIso(),
               };
@@ -6543,8 +8014,9 @@ function App() {
               });
 
               const response = normalizeAiOutput(
-                await generateWithOllama({
+                await generateAiText({
                   config,
+                  label: `Auto-aplicado: iteracion ${iteration}/${iterations}`,
                   prompt,
                 }),
               );
@@ -6563,7 +8035,7 @@ function App() {
                 chapterTitle: chapter.title,
                 recentText: compactHistory,
               });
-              const nextChapterText = continuityResult.text;
+              let nextChapterText = continuityResult.text;
               lastSummaryMessage = continuityResult.summaryText || guardedResult.summaryText || lastSummaryMessage;
               if (continuityResult.corrected) {
                 continuityCorrections += 1;
@@ -6578,7 +8050,7 @@ function App() {
                 .filter(Boolean)
                 .join(' | ');
               if (requiresHighRiskReview || requiresSafeModeReview) {
-                const approved = await requestAiSafeReview({
+                const approvedText = await requestAiSafeReview({
                   title: requiresHighRiskReview ? `Riesgo alto IA - ${chapter.title}` : `Modo seguro IA - ${chapter.title}`,
                   subtitle: requiresHighRiskReview
                     ? `Riesgo alto detectado en iteracion ${iteration}/${iterations}. ${riskReason || 'Requiere aprobacion manual antes de aplicar.'}`
@@ -6586,7 +8058,7 @@ function App() {
                   beforeText: currentChapterText,
                   afterText: nextChapterText,
                 });
-                if (!approved) {
+                if (approvedText === null) {
                   cancelledBySafeMode = true;
                   cancelledByRiskReview = requiresHighRiskReview;
                   setStatus(
@@ -6596,11 +8068,17 @@ function App() {
                   );
                   break;
                 }
+                nextChapterText = approvedText;
               }
 
               const chapterDraft = {
                 ...chapter,
-                content: plainTextToHtml(nextChapterText),
+                content: buildAiMarkedHtml(
+                  currentChapterText,
+                  nextChapterText,
+                  { operation: 'chat-auto-apply-chapter' },
+                  { beforeHtml: chapter.content },
+                ),
                 contentJson: null,
                 updatedAt: getNowIso(),
               };
@@ -6804,8 +8282,9 @@ function App() {
           buildSagaPromptContext,
           generateText: async (prompt: string) =>
             normalizeAiOutput(
-              await generateWithOllama({
+              await generateAiText({
                 config,
+                label: 'Reescritura de libro',
                 prompt,
               }),
             ),
@@ -7014,6 +8493,8 @@ function App() {
       buildSagaPromptContext,
       canonicalStoryBible,
       storyBibleChronicleIndex,
+      generateAiText,
+      sprintBlocksAi,
     ],
   );
 
@@ -7037,7 +8518,9 @@ function App() {
           sagaWorld: activeSaga?.metadata.worldBible ?? null,
           fullBookContext: buildBookContext(book),
         });
-        const response = normalizeAiOutput(await generateWithOllama({ config, prompt }));
+        const response = normalizeAiOutput(
+          await generateAiText({ config, prompt, label: action?.label ?? 'Analisis de libro' }),
+        );
         const history = await ensureScopeMessagesLoaded('book');
         const feedbackMessage: ChatMessage = {
           id: randomId('msg'),
@@ -7055,7 +8538,7 @@ function App() {
         setAiBusy(false);
       }
     },
-    [book, activeLanguage, config, canonicalStoryBible, activeSaga, ensureScopeMessagesLoaded, persistScopeMessages],
+    [book, activeLanguage, config, canonicalStoryBible, activeSaga, ensureScopeMessagesLoaded, persistScopeMessages, generateAiText],
   );
 
   const executeAction = useCallback(
@@ -7152,9 +8635,11 @@ function App() {
         }
 
         const response = normalizeAiOutput(
-          await generateWithOllama({
+          await generateAiText({
             config,
+            label: action?.label ?? actionId,
             prompt,
+            reviewBeforeText: action?.modifiesText && config.aiSafeMode ? promptTargetText : undefined,
           }),
         );
         const parsedOutput = splitAiOutputAndSummary(response);
@@ -7201,8 +8686,10 @@ function App() {
             .map((entry) => entry.trim())
             .filter(Boolean)
             .join(' | ');
+          // Texto revisado con hunks rechazados; null si se aplica la propuesta completa.
+          let partiallyReviewedText: string | null = null;
           if (requiresHighRiskReview || requiresSafeModeReview) {
-            const approved = await requestAiSafeReview({
+            const approvedText = await requestAiSafeReview({
               title: requiresHighRiskReview
                 ? `Riesgo alto IA - ${action?.label ?? actionId}`
                 : `Modo seguro IA - ${action?.label ?? actionId}`,
@@ -7212,7 +8699,7 @@ function App() {
               beforeText: chapterText,
               afterText: continuityResult.text,
             });
-            if (!approved) {
+            if (approvedText === null) {
               void recordTrustIncident(
                 book.path,
                 requiresHighRiskReview ? 'session_cancelled_risk' : 'session_cancelled_safe_mode',
@@ -7237,14 +8724,27 @@ function App() {
               );
               return;
             }
+            if (approvedText !== continuityResult.text) {
+              partiallyReviewedText = approvedText;
+            }
           }
 
-          if (actionId === 'draft-from-idea' || !hasSelection) {
-            editor.replaceDocumentWithText(continuityResult.text);
+          const aiOrigin = { operation: `action-${actionId}` };
+          // Con seleccion, lo revisado se aplica solo al tramo seleccionado, como la propuesta completa.
+          const reviewedSelectionText =
+            partiallyReviewedText !== null && actionId !== 'draft-from-idea' && hasSelection && !continuityResult.corrected
+              ? editor.extractSelectionReplacement(partiallyReviewedText)
+              : null;
+          if (reviewedSelectionText !== null) {
+            editor.replaceSelectionWithText(reviewedSelectionText, aiOrigin);
+          } else if (partiallyReviewedText !== null) {
+            editor.replaceDocumentWithText(partiallyReviewedText, aiOrigin);
+          } else if (actionId === 'draft-from-idea' || !hasSelection) {
+            editor.replaceDocumentWithText(continuityResult.text, aiOrigin);
           } else if (continuityResult.corrected) {
-            editor.replaceDocumentWithText(continuityResult.text);
+            editor.replaceDocumentWithText(continuityResult.text, aiOrigin);
           } else {
-            editor.replaceSelectionWithText(outputText);
+            editor.replaceSelectionWithText(outputText, aiOrigin);
           }
 
           const nextHtml = editor.getHTML();
@@ -7393,11 +8893,17 @@ function App() {
       buildSagaPromptContext,
       canonicalStoryBible,
       storyBibleChronicleIndex,
+      generateAiText,
     ],
   );
 
   const handleRunAction = useCallback(
     (actionId: (typeof AI_ACTIONS)[number]['id']) => {
+      if (sprintBlocksAi) {
+        setStatus('La IA esta bloqueada hasta que termine el sprint.');
+        return;
+      }
+
       if (actionId === 'draft-from-idea') {
         if (!activeEditorChapter) {
           setStatus('No hay capitulo activo para generar desde idea.');
@@ -7437,7 +8943,7 @@ function App() {
 
       void executeAction(actionId);
     },
-    [activeEditorChapter, executeAction, executeBookAction],
+    [activeEditorChapter, executeAction, executeBookAction, sprintBlocksAi],
   );
 
   const persistEditorChapter = useCallback(
@@ -7491,122 +8997,543 @@ function App() {
       return;
     }
 
-    try {
-      const snapshots = await listChapterSnapshots(book.path, activeChapter.id);
-      if (snapshots.length === 0) {
-        setStatus('No hay puntos de restauracion para recuperar.');
+    try {
+      const snapshots = await listChapterSnapshots(book.path, activeChapter.id);
+      if (snapshots.length === 0) {
+        setStatus('No hay puntos de restauracion para recuperar.');
+        return;
+      }
+
+      const currentChapter = book.chapters[activeChapter.id];
+      if (!currentChapter) {
+        return;
+      }
+
+      const currentPointer = snapshotUndoCursorRef.current[activeChapter.id];
+      const targetIndex = currentPointer ?? snapshots.length - 1;
+
+      if (targetIndex < 0) {
+        setStatus('No hay versiones anteriores para recuperar.');
+        return;
+      }
+
+      const targetSnapshot = snapshots[targetIndex];
+      const redoStack = snapshotRedoStackRef.current[activeChapter.id] ?? [];
+      snapshotRedoStackRef.current[activeChapter.id] = [...redoStack, currentChapter];
+      setSnapshotRedoNonce((value) => value + 1);
+
+      const restored = await saveChapter(book.path, {
+        ...targetSnapshot.chapter,
+        updatedAt: getNowIso(),
+      });
+
+      setBook((previous) => {
+        if (!previous || previous.path !== book.path) {
+          return previous;
+        }
+
+        return {
+          ...previous,
+          chapters: {
+            ...previous.chapters,
+            [restored.id]: restored,
+          },
+        };
+      });
+
+      await syncBookToLibrary({
+        ...book,
+        chapters: {
+          ...book.chapters,
+          [restored.id]: restored,
+        },
+      });
+
+      snapshotUndoCursorRef.current[activeChapter.id] = targetIndex - 1;
+      dirtyRef.current = false;
+      setStatus(`Version restaurada (v${targetSnapshot.version}).`);
+    } catch (error) {
+      setStatus(`No se pudo restaurar la version: ${formatUnknownError(error)}`);
+    }
+  }, [book, activeChapter, syncBookToLibrary]);
+
+  const handleRestoreSnapshotVersion = useCallback(
+    async (chapterId: string, version: number) => {
+      if (!book) {
+        return;
+      }
+
+      const currentChapter = book.chapters[chapterId];
+      if (!currentChapter) {
+        setStatus(`No se encontro el capitulo ${chapterId} para restaurar.`);
+        return;
+      }
+
+      try {
+        const snapshots = await listChapterSnapshots(book.path, chapterId);
+        const targetSnapshot = snapshots.find((entry) => entry.version === version);
+        if (!targetSnapshot) {
+          setStatus(`No se encontro la version v${version} para ${chapterId}.`);
+          return;
+        }
+
+        if (config.autoVersioning) {
+          await saveChapterSnapshot(
+            book.path,
+            currentChapter,
+            `Pre-restauracion desde diff (v${version})`,
+            { milestoneLabel: `Antes de restaurar v${version}` },
+          );
+        }
+
+        const restored = await saveChapter(book.path, {
+          ...targetSnapshot.chapter,
+          id: chapterId,
+          updatedAt: getNowIso(),
+        });
+
+        snapshotUndoCursorRef.current[chapterId] = undefined;
+        snapshotRedoStackRef.current[chapterId] = [];
+        setSnapshotRedoNonce((value) => value + 1);
+
+        const nextBook: BookProject = {
+          ...book,
+          chapters: {
+            ...book.chapters,
+            [chapterId]: restored,
+          },
+        };
+
+        setBook(nextBook);
+        await syncBookToLibrary(nextBook);
+        dirtyRef.current = false;
+        setStatus(`Capitulo ${chapterId} restaurado a v${version}.`);
+      } catch (error) {
+        setStatus(`No se pudo restaurar la version seleccionada: ${formatUnknownError(error)}`);
+      }
+    },
+    [book, config.autoVersioning, syncBookToLibrary],
+  );
+
+  useEffect(() => {
+    const bookPath = book?.path;
+    if (!bookPath || writingSessionsRef.current?.bookPath === bookPath) {
+      return;
+    }
+
+    let isCancelled = false;
+    void loadWritingSessionLog(bookPath)
+      .then((log) => {
+        if (!isCancelled) {
+          writingSessionsRef.current = { bookPath, log };
+          setWritingSessions({ bookPath, log });
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setStatus(`No se pudo cargar el registro de sesiones: ${formatUnknownError(error)}`);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [book?.path]);
+
+  // Tiempo en el editor: cada tick suma si hubo escritura reciente y la ventana esta visible.
+  useEffect(() => {
+    if (mainView !== 'editor' || !book?.path || !activeChapterId) {
+      return;
+    }
+
+    const bookPath = book.path;
+    const timer = window.setInterval(() => {
+      const idleMs = Date.now() - lastEditorActivityAtRef.current;
+      if (document.visibilityState === 'visible' && idleMs < WRITING_SESSION_IDLE_MS) {
+        recordWritingSession(bookPath, activeChapterId, { activeSeconds: WRITING_SESSION_TICK_MS / 1000 });
+      }
+    }, WRITING_SESSION_TICK_MS);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [mainView, book?.path, activeChapterId, recordWritingSession]);
+
+  const handleUpdateWritingGoals = useCallback(
+    async (goals: WritingGoals) => {
+      const current = writingSessionsRef.current;
+      if (!current) {
+        return;
+      }
+
+      try {
+        const log = await saveWritingSessionLog(current.bookPath, { ...current.log, goals });
+        writingSessionsRef.current = { bookPath: current.bookPath, log };
+        setWritingSessions({ bookPath: current.bookPath, log });
+        setStatus('Metas de escritura guardadas.');
+      } catch (error) {
+        setStatus(`No se pudieron guardar las metas: ${formatUnknownError(error)}`);
+      }
+    },
+    [],
+  );
+
+  const handleExportWritingSessionsCsv = useCallback(async () => {
+    if (!book || !writingSessions || writingSessions.bookPath !== book.path) {
+      return;
+    }
+
+    try {
+      const titles = Object.fromEntries(Object.values(book.chapters).map((chapter) => [chapter.id, chapter.title]));
+      const path = await writeTextExport(
+        book.path,
+        `${book.metadata.title}-sesiones.csv`,
+        buildWritingSessionsCsv(writingSessions.log, titles),
+        'csv',
+      );
+      setStatus(`Registro de sesiones exportado: ${path}`);
+    } catch (error) {
+      setStatus(`No se pudo exportar el registro de sesiones: ${formatUnknownError(error)}`);
+    }
+  }, [book, writingSessions]);
+
+  // Palabras del capitulo del sprint: el borrador del editor si es el activo, si no lo ultimo guardado.
+  const readSprintChapterWords = useCallback((chapterId: string): number => {
+    const draft = editorDraftRef.current;
+    if (draft?.chapterId === chapterId) {
+      return countWordsFromHtml(draft.html);
+    }
+    const chapter = bookRef.current?.chapters[chapterId];
+    return chapter ? countWordsFromHtml(chapter.content) : 0;
+  }, []);
+
+  const recordSprintResult = useCallback((bookPath: string, result: WritingSprintResult) => {
+    const current = writingSessionsRef.current;
+    if (!current || current.bookPath !== bookPath) {
+      return;
+    }
+
+    const next = { bookPath, log: recordWritingSprint(current.log, result) };
+    writingSessionsRef.current = next;
+    setWritingSessions(next);
+    void saveWritingSessionLog(bookPath, next.log).catch((error) => {
+      setStatus(`No se pudo guardar el sprint: ${formatUnknownError(error)}`);
+    });
+  }, []);
+
+  const updateActiveSprint = useCallback((next: ActiveWritingSprint | null) => {
+    activeSprintRef.current = next;
+    setActiveSprint(next);
+  }, []);
+
+  const handleStartSprint = useCallback(
+    (plan: WritingSprintPlan) => {
+      if (!book || !activeChapterId) {
+        setStatus('Abri un capitulo para empezar un sprint.');
+        return;
+      }
+
+      const now = Date.now();
+      setSprintClockMs(now);
+      updateActiveSprint({
+        bookPath: book.path,
+        chapterId: activeChapterId,
+        plan,
+        startedAtMs: now,
+        round: 1,
+        roundStartWords: readSprintChapterWords(activeChapterId),
+        recordedRounds: 0,
+      });
+      setStatus(
+        plan.blockAi
+          ? `Sprint de ${plan.sprintMinutes} min iniciado. La IA queda bloqueada hasta terminar.`
+          : `Sprint de ${plan.sprintMinutes} min iniciado.`,
+      );
+    },
+    [book, activeChapterId, readSprintChapterWords, updateActiveSprint],
+  );
+
+  // Cierra las rondas vencidas; con stopNow corta la ronda en curso y la guarda como incompleta.
+  const advanceSprint = useCallback(
+    (stopNow: boolean) => {
+      const sprint = activeSprintRef.current;
+      if (!sprint) {
+        return;
+      }
+
+      const now = Date.now();
+      const elapsedSeconds = (now - sprint.startedAtMs) / 1000;
+      const phase = resolveSprintPhase(sprint.plan, elapsedSeconds);
+      const words = readSprintChapterWords(sprint.chapterId);
+      const closedRounds = phase.kind === 'sprint' ? phase.round - 1 : phase.round;
+      const buildResult = (round: number, durationSeconds: number, completed: boolean): WritingSprintResult => ({
+        id: randomId('sprint'),
+        chapterId: sprint.chapterId,
+        startedAt: new Date(sprint.startedAtMs + getSprintRoundOffsetSeconds(sprint.plan, round) * 1000).toISOString(),
+        plannedMinutes: sprint.plan.sprintMinutes,
+        durationSeconds: Math.round(durationSeconds),
+        startWords: sprint.roundStartWords,
+        endWords: words,
+        completed,
+      });
+
+      let next = sprint;
+      let lastResult: WritingSprintResult | null = null;
+      if (next.recordedRounds < closedRounds) {
+        lastResult = buildResult(closedRounds, next.plan.sprintMinutes * 60, true);
+        recordSprintResult(next.bookPath, lastResult);
+        next = { ...next, recordedRounds: closedRounds };
+      }
+      if (phase.kind === 'sprint' && phase.round > next.round) {
+        next = { ...next, round: phase.round, roundStartWords: words };
+      }
+
+      if (stopNow && phase.kind === 'sprint' && next.recordedRounds < phase.round) {
+        const roundElapsed = elapsedSeconds - getSprintRoundOffsetSeconds(next.plan, phase.round);
+        lastResult = buildResult(phase.round, roundElapsed, false);
+        recordSprintResult(next.bookPath, lastResult);
+      }
+
+      if (stopNow || phase.kind === 'done') {
+        updateActiveSprint(null);
+        if (lastResult) {
+          const delta = lastResult.endWords - lastResult.startWords;
+          const wpm = computeSprintWordsPerMinute(delta, lastResult.durationSeconds);
+          setStatus(`Sprint terminado: ${formatNumber(delta)} palabras (${formatNumber(wpm)} ppm).`);
+        } else {
+          setStatus('Sprint detenido.');
+        }
+        return;
+      }
+
+      if (next !== sprint) {
+        updateActiveSprint(next);
+        if (lastResult) {
+          const delta = lastResult.endWords - lastResult.startWords;
+          setStatus(`Ronda ${closedRounds} terminada: ${formatNumber(delta)} palabras. Descanso.`);
+        }
+      }
+      setSprintClockMs(now);
+    },
+    [readSprintChapterWords, recordSprintResult, updateActiveSprint],
+  );
+
+  useEffect(() => {
+    if (!activeSprint) {
+      return;
+    }
+
+    const timer = window.setInterval(() => advanceSprint(false), WRITING_SPRINT_TICK_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [activeSprint, advanceSprint]);
+
+  // Cambiar de libro corta el sprint sin guardarlo: el registro pertenece al libro anterior.
+  useEffect(() => {
+    if (activeSprintRef.current && activeSprintRef.current.bookPath !== book?.path) {
+      updateActiveSprint(null);
+    }
+  }, [book?.path, updateActiveSprint]);
+
+  const sprintStatus = useMemo(() => {
+    if (!activeSprint || !book || activeSprint.bookPath !== book.path) {
+      return null;
+    }
+
+    const phase = resolveSprintPhase(activeSprint.plan, Math.max(0, sprintClockMs - activeSprint.startedAtMs) / 1000);
+    const chapter = book.chapters[activeSprint.chapterId];
+    const currentWords =
+      activeSprint.chapterId === activeChapterId
+        ? chapterWordCount
+        : chapter
+          ? countWordsFromHtml(chapter.content)
+          : activeSprint.roundStartWords;
+    const wordsDelta = currentWords - activeSprint.roundStartWords;
+    const roundElapsed =
+      (sprintClockMs - activeSprint.startedAtMs) / 1000 - getSprintRoundOffsetSeconds(activeSprint.plan, phase.round);
+    return {
+      phase,
+      rounds: activeSprint.plan.rounds,
+      blockAi: activeSprint.plan.blockAi,
+      chapterTitle: chapter?.title ?? activeSprint.chapterId,
+      startWords: activeSprint.roundStartWords,
+      wordsDelta,
+      wordsPerMinute: phase.kind === 'sprint' ? computeSprintWordsPerMinute(wordsDelta, roundElapsed) : 0,
+    };
+  }, [activeSprint, book, sprintClockMs, activeChapterId, chapterWordCount]);
+
+  const sprintTotalsByChapter = useMemo(
+    () =>
+      writingSessions && book && writingSessions.bookPath === book.path
+        ? summarizeSprintsByChapter(writingSessions.log)
+        : {},
+    [writingSessions, book],
+  );
+
+  useEffect(() => {
+    const currentBook = bookRef.current;
+    if (mainView !== 'branches' || !currentBook || draftBranches?.bookPath === currentBook.path) {
+      return;
+    }
+
+    let isCancelled = false;
+    void loadDraftBranchIndex(currentBook.path, currentBook.metadata.chapterOrder)
+      .then((index) => {
+        if (!isCancelled) {
+          setDraftBranches({ bookPath: currentBook.path, index });
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setStatus(`No se pudieron cargar las ramas: ${formatUnknownError(error)}`);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [book?.path, draftBranches?.bookPath, mainView]);
+
+  const handleCreateDraftBranch = useCallback(
+    async (name: string) => {
+      if (!(await flushChapterSave()) || !bookRef.current) {
         return;
       }
 
-      const currentChapter = book.chapters[activeChapter.id];
-      if (!currentChapter) {
-        return;
+      const currentBook = bookRef.current;
+      setDraftBranchBusy(true);
+      try {
+        const index = await createDraftBranch(currentBook, name);
+        setDraftBranches({ bookPath: currentBook.path, index });
+        setStatus(`Rama "${name}" creada desde la rama activa.`);
+      } catch (error) {
+        setStatus(`No se pudo crear la rama: ${formatUnknownError(error)}`);
+      } finally {
+        setDraftBranchBusy(false);
       }
+    },
+    [flushChapterSave],
+  );
 
-      const currentPointer = snapshotUndoCursorRef.current[activeChapter.id];
-      const targetIndex = currentPointer ?? snapshots.length - 1;
-
-      if (targetIndex < 0) {
-        setStatus('No hay versiones anteriores para recuperar.');
+  const handleSwitchDraftBranch = useCallback(
+    async (branchId: string) => {
+      if (!(await flushChapterSave()) || !bookRef.current) {
         return;
       }
 
-      const targetSnapshot = snapshots[targetIndex];
-      const redoStack = snapshotRedoStackRef.current[activeChapter.id] ?? [];
-      snapshotRedoStackRef.current[activeChapter.id] = [...redoStack, currentChapter];
-      setSnapshotRedoNonce((value) => value + 1);
-
-      const restored = await saveChapter(book.path, {
-        ...targetSnapshot.chapter,
-        updatedAt: getNowIso(),
-      });
-
-      setBook((previous) => {
-        if (!previous || previous.path !== book.path) {
-          return previous;
-        }
-
-        return {
-          ...previous,
-          chapters: {
-            ...previous.chapters,
-            [restored.id]: restored,
-          },
-        };
-      });
-
-      await syncBookToLibrary({
-        ...book,
-        chapters: {
-          ...book.chapters,
-          [restored.id]: restored,
-        },
-      });
-
-      snapshotUndoCursorRef.current[activeChapter.id] = targetIndex - 1;
-      dirtyRef.current = false;
-      setStatus(`Version restaurada (v${targetSnapshot.version}).`);
-    } catch (error) {
-      setStatus(`No se pudo restaurar la version: ${formatUnknownError(error)}`);
-    }
-  }, [book, activeChapter, syncBookToLibrary]);
+      const currentBook = bookRef.current;
+      setDraftBranchBusy(true);
+      try {
+        const result = await switchDraftBranch(currentBook, branchId);
+        setBook(result.project);
+        setDraftBranches({ bookPath: currentBook.path, index: result.index });
+        setActiveChapterId((previous) =>
+          previous && result.project.chapters[previous] ? previous : result.project.metadata.chapterOrder[0] ?? null,
+        );
+        dirtyRef.current = false;
+        await syncBookToLibrary(result.project);
+        const branchName = result.index.branches.find((branch) => branch.id === branchId)?.name ?? branchId;
+        setStatus(`Rama activa: ${branchName}.`);
+      } catch (error) {
+        setStatus(`No se pudo cambiar de rama: ${formatUnknownError(error)}`);
+      } finally {
+        setDraftBranchBusy(false);
+      }
+    },
+    [flushChapterSave, syncBookToLibrary],
+  );
 
-  const handleRestoreSnapshotVersion = useCallback(
-    async (chapterId: string, version: number) => {
-      if (!book) {
+  const handleDeleteDraftBranch = useCallback(
+    async (branchId: string) => {
+      if (!book || !draftBranches || draftBranches.bookPath !== book.path) {
         return;
       }
 
-      const currentChapter = book.chapters[chapterId];
-      if (!currentChapter) {
-        setStatus(`No se encontro el capitulo ${chapterId} para restaurar.`);
+      setDraftBranchBusy(true);
+      try {
+        const index = await deleteDraftBranch(book.path, draftBranches.index, branchId);
+        setDraftBranches({ bookPath: book.path, index });
+        setStatus('Rama borrada.');
+      } catch (error) {
+        setStatus(`No se pudo borrar la rama: ${formatUnknownError(error)}`);
+      } finally {
+        setDraftBranchBusy(false);
+      }
+    },
+    [book, draftBranches],
+  );
+
+  const handleApplyDraftChapterMerge = useCallback(
+    async (branchId: string, merge: DraftChapterMerge, content: string) => {
+      if (!(await flushChapterSave()) || !bookRef.current || !draftBranches) {
         return;
       }
 
+      const currentBook = bookRef.current;
+      const branchName = draftBranches.index.branches.find((branch) => branch.id === branchId)?.name ?? branchId;
+      const currentChapter = currentBook.chapters[merge.chapterId] ?? null;
+      setDraftBranchBusy(true);
       try {
-        const snapshots = await listChapterSnapshots(book.path, chapterId);
-        const targetSnapshot = snapshots.find((entry) => entry.version === version);
-        if (!targetSnapshot) {
-          setStatus(`No se encontro la version v${version} para ${chapterId}.`);
-          return;
+        if (currentChapter) {
+          await saveChapterSnapshot(currentBook.path, currentChapter, `Antes de fusionar la rama "${branchName}"`, {
+            milestoneLabel: `Fusion ${branchName}`,
+          });
         }
 
-        if (config.autoVersioning) {
-          await saveChapterSnapshot(
-            book.path,
-            currentChapter,
-            `Pre-restauracion desde diff (v${version})`,
-            { milestoneLabel: `Antes de restaurar v${version}` },
-          );
+        let nextBook: BookProject;
+        if (merge.status === 'removed') {
+          const metadata = await deleteChapter(currentBook.path, currentBook.metadata, merge.chapterId);
+          const chapters = { ...currentBook.chapters };
+          delete chapters[merge.chapterId];
+          nextBook = { ...currentBook, metadata, chapters };
+        } else {
+          const source = currentChapter ?? merge.theirs;
+          if (!source) {
+            return;
+          }
+          const saved = await saveChapter(currentBook.path, {
+            ...source,
+            id: merge.chapterId,
+            title: merge.title,
+            content,
+            contentJson: null,
+          });
+          const metadata = currentBook.metadata.chapterOrder.includes(saved.id)
+            ? currentBook.metadata
+            : await saveBookMetadata(currentBook.path, {
+                ...currentBook.metadata,
+                chapterOrder: [...currentBook.metadata.chapterOrder, saved.id],
+              });
+          nextBook = { ...currentBook, metadata, chapters: { ...currentBook.chapters, [saved.id]: saved } };
         }
 
-        const restored = await saveChapter(book.path, {
-          ...targetSnapshot.chapter,
-          id: chapterId,
-          updatedAt: getNowIso(),
-        });
-
-        snapshotUndoCursorRef.current[chapterId] = undefined;
-        snapshotRedoStackRef.current[chapterId] = [];
-        setSnapshotRedoNonce((value) => value + 1);
-
-        const nextBook: BookProject = {
-          ...book,
-          chapters: {
-            ...book.chapters,
-            [chapterId]: restored,
+        const index = await recordDraftChapterMerge(
+          currentBook.path,
+          draftBranches.index,
+          {
+            branchId,
+            branchName,
+            targetBranchId: draftBranches.index.activeBranchId,
+            chapterId: merge.chapterId,
+            status: merge.status,
+            conflictCount: merge.conflictCount,
+            mergedAt: getNowIso(),
           },
-        };
-
+          merge.theirs,
+        );
         setBook(nextBook);
-        await syncBookToLibrary(nextBook);
+        setDraftBranches({ bookPath: currentBook.path, index });
         dirtyRef.current = false;
-        setStatus(`Capitulo ${chapterId} restaurado a v${version}.`);
+        await syncBookToLibrary(nextBook);
+        setStatus(`Capitulo ${merge.chapterId} fusionado desde "${branchName}".`);
       } catch (error) {
-        setStatus(`No se pudo restaurar la version seleccionada: ${formatUnknownError(error)}`);
+        setStatus(`No se pudo fusionar el capitulo: ${formatUnknownError(error)}`);
+      } finally {
+        setDraftBranchBusy(false);
       }
     },
-    [book, config.autoVersioning, syncBookToLibrary],
+    [draftBranches, flushChapterSave, syncBookToLibrary],
   );
 
   const handleRedoSnapshot = useCallback(async () => {
@@ -8027,7 +9954,7 @@ function App() {
         return;
       }
 
-      const report = buildEditorialChecklist(book.metadata, config);
+      const report = buildEditorialChecklist(book.metadata, config, orderedChapters);
       setEditorialIntent({
         isOpen: true,
         report,
@@ -8044,7 +9971,7 @@ function App() {
         setStatus('Checklist editorial: hay errores bloqueantes antes de exportar/publicar.');
       }
     },
-    [book, checkStrictSagaValidationBlockForBook, config],
+    [book, checkStrictSagaValidationBlockForBook, config, orderedChapters],
   );
 
   const handleExportCollaborationPatch = useCallback(async () => {
@@ -8304,13 +10231,44 @@ function App() {
     }
 
     void queueEditorialGuardedAction('Exportar audiolibro WAV', async () => {
-      await exportAudioToWav(
-        buildBookAudioText(book.metadata, orderedChapters),
-        buildBookAudioExportPath(book.path, book.metadata),
-        'Audiolibro exportado',
-      );
+      const tracks = buildAudiobookTracks(book.metadata, orderedChapters);
+      if (tracks.length <= 1) {
+        setStatus('No hay capitulos con texto para exportar audio.');
+        return;
+      }
+
+      const folderPath = buildBookAudioExportDir(book.path, book.metadata);
+      const exportedTracks: Array<(typeof tracks)[number] & { durationSeconds: number }> = [];
+      try {
+        for (const [index, track] of tracks.entries()) {
+          setStatus(`Generando audiolibro: pista ${index + 1}/${tracks.length} (${track.title})...`);
+          const exported = await exportAudiobookToWav({
+            ...audioExportOptions,
+            ...buildSpeechExportPayload(track.text, pronunciationLexicon, activeLanguage),
+            outputPath: buildAudiobookTrackPath(book.path, book.metadata, track),
+          });
+          exportedTracks.push({ ...track, durationSeconds: exported.durationSeconds });
+        }
+      } catch (error) {
+        setStatus(
+          `No se pudo exportar audio (pista ${exportedTracks.length + 1}/${tracks.length}): ${formatUnknownError(error)}`,
+        );
+        return;
+      }
+
+      try {
+        const playlistPath = await writeTextExport(
+          book.path,
+          `${buildBookAudioExportFolderName(book.metadata)}.m3u`,
+          buildAudiobookM3u(book.metadata, buildBookAudioExportFolderName(book.metadata), exportedTracks),
+          'm3u',
+        );
+        setStatus(`Audiolibro exportado: ${exportedTracks.length} pistas WAV en ${folderPath} | Lista: ${playlistPath}`);
+      } catch (error) {
+        setStatus(`Pistas WAV exportadas en ${folderPath}, pero fallo la lista M3U: ${formatUnknownError(error)}`);
+      }
     });
-  }, [book, orderedChapters, queueEditorialGuardedAction, exportAudioToWav]);
+  }, [book, orderedChapters, queueEditorialGuardedAction, audioExportOptions, pronunciationLexicon, activeLanguage]);
 
   const handleExportCartographerPack = useCallback(async () => {
     if (!activeSaga) {
@@ -8518,12 +10476,60 @@ function App() {
 
     try {
       const { exportBookStyleReport } = await loadExportModule();
-      const path = await exportBookStyleReport(book.path, book.metadata, orderedChapters);
+      const path = await exportBookStyleReport(
+        book.path,
+        book.metadata,
+        orderedChapters,
+        resolveProseLintLanguage(activeLanguage),
+      );
       setStatus(`Reporte de estilo exportado: ${path}`);
     } catch (error) {
       setStatus(`No se pudo exportar reporte de estilo: ${formatUnknownError(error)}`);
     }
-  }, [book, checkStrictSagaValidationBlockForBook, orderedChapters]);
+  }, [book, checkStrictSagaValidationBlockForBook, orderedChapters, activeLanguage]);
+
+  const handleVerifyAiAudit = useCallback(async () => {
+    if (!book) {
+      return;
+    }
+
+    try {
+      const report = await verifyAiAuditChain(book.path);
+      if (report.totalRecords === 0) {
+        setStatus('Auditoria IA: todavia no hay registros en este libro.');
+        return;
+      }
+      if (report.isIntact) {
+        setStatus(
+          `Auditoria IA integra: ${report.chainedRecords} registro/s encadenado/s${report.legacyRecords > 0 ? ` y ${report.legacyRecords} previo/s a la cadena` : ''}.`,
+        );
+        return;
+      }
+      const [firstIssue] = report.issues;
+      setStatus(
+        `Auditoria IA con ${report.issues.length} problema/s. ${firstIssue.fileName}: ${firstIssue.message} Exporta el reporte de procedencia para ver el detalle.`,
+      );
+    } catch (error) {
+      setStatus(`No se pudo verificar la auditoria IA: ${formatUnknownError(error)}`);
+    }
+  }, [book]);
+
+  const handleExportAiProvenance = useCallback(async () => {
+    if (!book) {
+      return;
+    }
+
+    try {
+      const [records, verification] = await Promise.all([loadAiAuditRecords(book.path), verifyAiAuditChain(book.path)]);
+      const { exportBookAiProvenanceReport } = await loadExportModule();
+      const path = await exportBookAiProvenanceReport(book.path, book.metadata, orderedChapters, records, verification);
+      setStatus(
+        `Reporte de procedencia IA exportado: ${path}${verification.isIntact ? '' : ` (cadena con ${verification.issues.length} problema/s)`}`,
+      );
+    } catch (error) {
+      setStatus(`No se pudo exportar la procedencia IA: ${formatUnknownError(error)}`);
+    }
+  }, [book, orderedChapters]);
 
   const handleOpenLibraryBook = useCallback(
     async (bookPath: string) => {
@@ -8642,7 +10648,11 @@ function App() {
       try {
         const project = book && book.path === bookPath ? book : await loadBookProject(bookPath);
         if (published) {
-          const report = buildEditorialChecklist(project.metadata, config);
+          const report = buildEditorialChecklist(
+            project.metadata,
+            config,
+            project.metadata.chapterOrder.flatMap((chapterId) => project.chapters[chapterId] ?? []),
+          );
           if (!report.isReady) {
             if (book && book.path === project.path) {
               setEditorialIntent({
@@ -8741,8 +10751,16 @@ function App() {
           }}
           onUpsertEvent={(event) => { void handleUpsertTimelineEvent(event); }}
           onDeleteEvent={(eventId) => { void handleDeleteTimelineEvent(eventId); }}
+          chapterCoverage={plotChapterCoverage}
           onPromoteEventToChapter={(eventId) => {
-            void handlePromotePlotEventToChapter(eventId);
+            void handleGenerateChaptersFromPlotEvents([eventId]);
+          }}
+          onGenerateChapters={(eventIds, povCharacterId) => {
+            void handleGenerateChaptersFromPlotEvents(eventIds, povCharacterId);
+          }}
+          onOpenChapter={(chapterId) => {
+            setActiveChapterId(chapterId);
+            setMainView('editor');
           }}
         />
       );
@@ -8792,6 +10810,22 @@ function App() {
           onUpdateChapterMeta={(chapterId, patch) => {
             void handleUpdateChapterMeta(chapterId, patch);
           }}
+          sceneBreakGlyph={interiorFormat.sceneBreakGlyph}
+          storyBibleLocations={book?.metadata.storyBible?.locations ?? []}
+          timelineEvents={activeSagaChronicleView?.metadata.worldBible.timeline ?? activeSaga?.metadata.worldBible.timeline ?? []}
+          onUpdateScenesMeta={(updates) => {
+            void handleUpdateScenesMeta(updates);
+          }}
+          onSplitChapter={(chapterId, sceneIndex) => {
+            void handleSplitChapter(chapterId, sceneIndex);
+          }}
+          onMergeChapterWithNext={(chapterId) => {
+            void handleMergeChapterWithNext(chapterId);
+          }}
+          onMoveScene={(chapterId, sceneIndex, targetChapterId, targetIndex) => {
+            void handleMoveScene(chapterId, sceneIndex, targetChapterId, targetIndex);
+          }}
+          sprintTotals={sprintTotalsByChapter}
         />
       );
     }
@@ -8823,6 +10857,30 @@ function App() {
       );
     }
 
+    if (mainView === 'branches') {
+      const currentBranches = book && draftBranches?.bookPath === book.path ? draftBranches.index : null;
+      return (
+        <LazyDraftBranchesView
+          bookPath={book?.path ?? null}
+          chapters={orderedChapters}
+          index={currentBranches}
+          busy={draftBranchBusy}
+          onCreateBranch={(name) => {
+            void handleCreateDraftBranch(name);
+          }}
+          onSwitchBranch={(branchId) => {
+            void handleSwitchDraftBranch(branchId);
+          }}
+          onDeleteBranch={(branchId) => {
+            void handleDeleteDraftBranch(branchId);
+          }}
+          onApplyChapterMerge={(branchId, merge, content) => {
+            void handleApplyDraftChapterMerge(branchId, merge, content);
+          }}
+        />
+      );
+    }
+
     if (mainView === 'style') {
       return (
         <LazyStylePanel
@@ -8830,6 +10888,7 @@ function App() {
           bookTitle={book?.metadata.title ?? ''}
           chapters={orderedChapters}
           activeChapterId={activeChapterId}
+          language={resolveProseLintLanguage(activeLanguage)}
           onExportReport={handleExportStyleReport}
         />
       );
@@ -8937,6 +10996,17 @@ function App() {
             setActiveChapterId(chapterId);
             setMainView('editor');
           }}
+          filter={searchFilter}
+          pointOfViewOptions={searchPointOfViewOptions}
+          searchableChapterCount={searchableChapters.length}
+          totalChapterCount={orderedChapters.length}
+          onFilterChange={handleSearchFilterChange}
+          activeOccurrencePosition={searchCursor}
+          onOpenOccurrence={handleOpenSearchOccurrence}
+          onStepOccurrence={handleStepSearchOccurrence}
+          onReplaceOccurrence={(position) => {
+            void handleReplaceSearchOccurrence(position);
+          }}
           previewReport={searchPreviewReport}
           hasSaga={Boolean(activeSaga)}
           sagaTitle={activeSaga?.metadata.title ?? ''}
@@ -8944,6 +11014,7 @@ function App() {
           sagaSearchTotalMatches={sagaSearchTotalMatches}
           onRunSagaSearch={activeSaga ? handleRunSagaSearch : undefined}
           onOpenSagaBook={(bookPath) => { void handleOpenLibraryBook(bookPath); }}
+          onOpenEntityRename={() => setEntityRenameOpen(true)}
         />
       );
     }
@@ -8963,6 +11034,9 @@ function App() {
           }}
           onPickBackupDirectory={handlePickBackupDirectory}
           onRunBackupNow={handleBackupNow}
+          onOpenBackupBrowser={() => {
+            void handleOpenBackupBrowser();
+          }}
         />
       );
     }
@@ -8984,6 +11058,61 @@ function App() {
       );
     }
 
+    if (mainView === 'sessions') {
+      if (!book) {
+        return (
+          <section className="editor-pane empty-state">
+            <h2>Sesiones y metas</h2>
+            <p>Abri un libro para ver tus sesiones de escritura.</p>
+          </section>
+        );
+      }
+      const sessionLog = writingSessions?.bookPath === book.path ? writingSessions.log : null;
+      return (
+        <LazyWritingSessionsView
+          key={sessionLog ? book.path : 'cargando'}
+          log={sessionLog}
+          chapters={orderedChapters}
+          currentWords={bookWordCount}
+          onUpdateGoals={(goals) => {
+            void handleUpdateWritingGoals(goals);
+          }}
+          onExportCsv={() => {
+            void handleExportWritingSessionsCsv();
+          }}
+        />
+      );
+    }
+
+    if (mainView === 'pronunciation') {
+      if (!book) {
+        return (
+          <section className="editor-pane empty-state">
+            <h2>Diccionario de pronunciacion</h2>
+            <p>Abri un libro para ajustar como se leen sus nombres.</p>
+          </section>
+        );
+      }
+      const bookEntries = book.metadata.pronunciationLexicon ?? [];
+      const sagaEntries = linkedSagaForBook ? linkedSagaForBook.metadata.pronunciationLexicon ?? [] : null;
+      return (
+        <LazyPronunciationView
+          key={`${book.path}:${bookEntries.length}:${sagaEntries?.length ?? -1}`}
+          bookEntries={bookEntries}
+          sagaEntries={sagaEntries}
+          sagaTitle={linkedSagaForBook?.metadata.title ?? null}
+          busy={exportBusy}
+          onSave={(scope, entries) => {
+            void handleSavePronunciationLexicon(scope, entries);
+          }}
+          onSeed={() => {
+            void handleSeedPronunciationLexicon();
+          }}
+          onPreview={(text) => readTextAloud(text)}
+        />
+      );
+    }
+
     if (mainView === 'scratchpad') {
       if (!book) {
         return (
@@ -9022,6 +11151,27 @@ function App() {
       );
     }
 
+    if (mainView === 'consistency') {
+      if (!book) {
+        return (
+          <section className="editor-pane empty-state">
+            <h2>Consistencia del manuscrito</h2>
+            <p>Abri un libro para verificar su consistencia.</p>
+          </section>
+        );
+      }
+      const currentAudit = manuscriptAudit && manuscriptAudit.bookPath === book.path ? manuscriptAudit : null;
+      return (
+        <LazyManuscriptAuditView
+          report={currentAudit?.report ?? null}
+          checkedAt={currentAudit?.checkedAt ?? null}
+          hasSaga={Boolean(activeSaga && activeSaga.path === book.metadata.sagaPath)}
+          onRunAudit={handleRunManuscriptAudit}
+          onOpenFinding={handleOpenManuscriptAuditFinding}
+        />
+      );
+    }
+
     if (mainView === 'char-matrix') {
       if (!book) {
         return (
@@ -9035,6 +11185,7 @@ function App() {
         <LazyCharacterMatrixView
           chapters={orderedChapters}
           characters={book.metadata.storyBible?.characters ?? []}
+          sceneBreakGlyph={interiorFormat.sceneBreakGlyph}
         />
       );
     }
@@ -9052,6 +11203,7 @@ function App() {
       <LazyEditorPane
         ref={editorRef}
         chapter={activeEditorChapter}
+        autoActivateEditor={pendingEditorReveal !== null}
         scrollPersistenceKey={`${book!.path}::${activeEditorChapter.id}`}
         interiorFormat={interiorFormat}
         autosaveIntervalMs={config.autosaveIntervalMs}
@@ -9065,6 +11217,9 @@ function App() {
         bookEstimatedPages={bookEstimatedPages}
         editorBackgroundTone={config.editorBackgroundTone}
         continuityHighlightEnabled={continuityHighlightEnabled}
+        proseLintEnabled={proseLintHighlightEnabled}
+        proseLintLanguage={resolveProseLintLanguage(activeLanguage)}
+        styleRules={styleRuleSet.rules}
         continuityHighlights={continuityHighlights}
         continuityReport={activeChapterContinuityReport}
         continuityBriefing={activeChapterContinuityBriefing}
@@ -9073,6 +11228,9 @@ function App() {
         semanticReferencesCatalog={semanticReferencesCatalog}
         audioPlaybackState={audioPlaybackState}
         manuscriptNotes={activeEditorChapter.manuscriptNotes ?? []}
+        trackChangesEnabled={trackChangesEnabled}
+        trackChangesAuthor={reviewerDisplayName}
+        aiOriginHighlightEnabled={aiOriginHighlightEnabled}
         onUndoEdit={() => {
           void handleUndoEdit();
         }}
@@ -9088,6 +11246,8 @@ function App() {
         onEditorBackgroundToneChange={handleEditorBackgroundToneChange}
         onLengthPresetChange={handleChapterLengthPresetChange}
         onContinuityHighlightToggle={setContinuityHighlightEnabled}
+        onProseLintToggle={setProseLintHighlightEnabled}
+        onAiOriginHighlightToggle={setAiOriginHighlightEnabled}
         onRefreshContinuityBriefing={handleRefreshContinuityBriefing}
         onContentChange={handleEditorChange}
         onInsertCharacterReference={() => {
@@ -9108,6 +11268,16 @@ function App() {
         onDeleteManuscriptNote={(noteId) => {
           void handlePatchActiveChapterManuscriptNote(noteId, 'delete');
         }}
+        onReplyManuscriptNote={handleReplyManuscriptNote}
+        onRevealManuscriptNote={handleRevealManuscriptNote}
+        onReanchorManuscriptNote={(noteId) => {
+          void handlePatchActiveChapterManuscriptNote(noteId, 'reanchor');
+        }}
+        onTrackChangesToggle={setTrackChangesEnabled}
+        onResolveTrackedChange={handleResolveTrackedChange}
+        sprint={sprintStatus}
+        onStartSprint={handleStartSprint}
+        onStopSprint={() => advanceSprint(true)}
         onBlur={handleEditorBlur}
       />
     );
@@ -9128,19 +11298,37 @@ function App() {
     handleChapterLengthPresetChange,
     handleEditorChange,
     handleEditorBlur,
+    sprintStatus,
+    handleStartSprint,
+    advanceSprint,
+    sprintTotalsByChapter,
     handleAmazonMetadataChange,
     handleExportAmazonBundle,
     handleExportStyleReport,
     handleSaveAmazon,
     handleLanguageChange,
+    handleSavePronunciationLexicon,
+    handleUpdateWritingGoals,
+    handleExportWritingSessionsCsv,
+    writingSessions,
+    handleSeedPronunciationLexicon,
+    linkedSagaForBook,
+    exportBusy,
+    readTextAloud,
     languageDirty,
     languageSaveState,
     handleReplaceInBook,
     handleReplaceInActiveChapter,
     handlePreviewReplaceInBook,
     handleRunBookSearch,
+    handleOpenSearchOccurrence,
+    handleStepSearchOccurrence,
+    handleReplaceSearchOccurrence,
+    handleSearchFilterChange,
     handleOpenLibraryBook,
-    handlePromotePlotEventToChapter,
+    handleGenerateChaptersFromPlotEvents,
+    handleOpenBackupBrowser,
+    plotChapterCoverage,
     handlePickBackCover,
     handleFoundationChange,
     handleSagaChange,
@@ -9172,6 +11360,11 @@ function App() {
     handleAddSelectionToLooseThreads,
     handleAddManuscriptNote,
     handlePatchActiveChapterManuscriptNote,
+    handleResolveTrackedChange,
+    trackChangesEnabled,
+    reviewerDisplayName,
+    handleReplyManuscriptNote,
+    handleRevealManuscriptNote,
     handleRefreshContinuityBriefing,
     handleRestoreSnapshotVersion,
     stopReadAloud,
@@ -9186,6 +11379,10 @@ function App() {
     bookWordCount,
     bookEstimatedPages,
     continuityHighlightEnabled,
+    proseLintHighlightEnabled,
+    aiOriginHighlightEnabled,
+    activeLanguage,
+    styleRuleSet,
     continuityHighlights,
     activeChapterContinuityReport,
     activeChapterContinuityBriefing,
@@ -9199,6 +11396,10 @@ function App() {
     searchBusy,
     searchCaseSensitive,
     searchMatches,
+    searchCursor,
+    searchFilter,
+    searchPointOfViewOptions,
+    searchableChapters.length,
     searchPatternError,
     searchQuery,
     searchTotalMatches,
@@ -9218,7 +11419,21 @@ function App() {
     handleAddLooseThread,
     handleUpdateLooseThread,
     handleDeleteLooseThread,
+    manuscriptAudit,
+    pendingEditorReveal,
+    handleRunManuscriptAudit,
+    handleOpenManuscriptAuditFinding,
+    draftBranches,
+    draftBranchBusy,
+    handleCreateDraftBranch,
+    handleSwitchDraftBranch,
+    handleDeleteDraftBranch,
+    handleApplyDraftChapterMerge,
     handleUpdateChapterMeta,
+    handleUpdateScenesMeta,
+    handleMoveScene,
+    handleSplitChapter,
+    handleMergeChapterWithNext,
     ollamaStatus,
     refreshOllamaStatus,
   ]);
@@ -9468,6 +11683,9 @@ function App() {
               focusMode={focusMode}
               onCreateBook={handleCreateBook}
               onOpenBook={handleOpenBook}
+              onImportManuscript={() => {
+                void handleImportManuscript();
+              }}
               onCloseBook={handleCloseBook}
               onToggleFocusMode={toggleFocusMode}
               onShowEditor={() => setMainView('editor')}
@@ -9488,8 +11706,12 @@ function App() {
               onShowSearch={() => setMainView('search')}
               onShowSettings={() => setMainView('settings')}
               onShowLanguage={() => setMainView('language')}
+              onShowPronunciation={() => setMainView('pronunciation')}
               onShowScratchpad={() => setMainView('scratchpad')}
               onShowLooseThreads={() => setMainView('loose-threads')}
+              onShowSessions={() => setMainView('sessions')}
+              onShowConsistency={() => setMainView('consistency')}
+              onShowBranches={() => setMainView('branches')}
               onShowCharMatrix={() => setMainView('char-matrix')}
               onQuitApp={handleQuitApp}
             />
@@ -9518,7 +11740,8 @@ function App() {
             >
               <LazyAIPanel
                 actions={AI_ACTIONS}
-                aiBusy={aiBusy}
+                aiBusy={aiBusy || sprintBlocksAi}
+                liveOutput={aiLiveOutput ? { label: aiLiveOutput.label, text: aiLiveOutput.text } : null}
                 canUndoSnapshots={Boolean(book && activeChapter)}
                 canRedoSnapshots={canRedoSnapshots}
                 canRollbackAiSession={Boolean(lastAiRollbackSession && book && lastAiRollbackSession.bookPath === book.path)}
@@ -9541,6 +11764,7 @@ function App() {
                 onRefreshOllamaStatus={() => {
                   void refreshOllamaStatus();
                 }}
+                onCancelGeneration={handleCancelAiGeneration}
                 onRunAction={handleRunAction}
                 onSendChat={handleSendChat}
                 onTrackCharacter={handleTrackCharacter}
@@ -9550,6 +11774,12 @@ function App() {
                 onRedoSnapshot={handleRedoSnapshot}
                 onRollbackAiSession={handleRollbackAiSession}
                 onSaveMilestone={handleSaveMilestone}
+                onVerifyAiAudit={() => {
+                  void handleVerifyAiAudit();
+                }}
+                onExportAiProvenance={() => {
+                  void handleExportAiProvenance();
+                }}
                 onCreatePromptTemplate={handleCreatePromptTemplate}
                 onDeletePromptTemplate={handleDeletePromptTemplate}
                 onContextJump={handleContextJump}
@@ -9650,15 +11880,90 @@ function App() {
             afterText={aiSafeReview.afterText}
             confirmLabel="Aplicar cambios"
             cancelLabel="Cancelar cambios"
-            onConfirm={() => {
+            onConfirm={(resultText) => {
               const resolver = aiSafeReview.resolve;
               setAiSafeReview(null);
-              resolver(true);
+              resolver(resultText);
             }}
             onCancel={() => {
               const resolver = aiSafeReview.resolve;
               setAiSafeReview(null);
-              resolver(false);
+              resolver(null);
+            }}
+          />
+        ) : aiLiveOutput && aiLiveOutput.reviewBeforeText !== null ? (
+          <LazyChangeReviewModal
+            isOpen
+            isStreaming
+            title={`Generando - ${aiLiveOutput.label}`}
+            subtitle="Vista previa en vivo. Al terminar se aplican los guardrails y, si hace falta, la revision final."
+            beforeText={aiLiveOutput.reviewBeforeText}
+            afterText={aiLiveOutput.text}
+            cancelLabel="Detener generacion"
+            onConfirm={() => undefined}
+            onCancel={handleCancelAiGeneration}
+          />
+        ) : null}
+        {backupBrowser ? (
+          <LazyBackupRestoreModal
+            snapshots={backupBrowser.snapshots}
+            selectedFolder={backupBrowser.selectedFolder}
+            snapshotChapters={backupBrowser.snapshotChapters}
+            currentChapters={orderedChapters}
+            busy={backupBrowser.busy}
+            retentionLabel={
+              backupRetention.hourly + backupRetention.daily + backupRetention.weekly > 0
+                ? `${backupRetention.hourly} por hora, ${backupRetention.daily} por dia, ${backupRetention.weekly} por semana`
+                : 'conservar todo'
+            }
+            onSelectSnapshot={(folderName) => {
+              void handleSelectBackupSnapshot(folderName);
+            }}
+            onRestore={(chapterIds) => {
+              void handleRestoreBackupChapters(chapterIds);
+            }}
+            onPrune={() => {
+              void handlePruneBackups();
+            }}
+            onMaterialize={(folderName) => {
+              void handleMaterializeBackupSnapshot(folderName);
+            }}
+            onClose={() => setBackupBrowser(null)}
+          />
+        ) : null}
+        {entityRenameOpen ? (
+          <LazyEntityRenameModal
+            targets={entityRenameTargets}
+            hasSaga={Boolean(activeSaga)}
+            occurrences={entityRenamePreview?.occurrences ?? null}
+            busy={entityRenameBusy}
+            undoLabel={lastEntityRename ? `Deshacer: ${lastEntityRename.label}` : null}
+            onPreview={(plan, scope) => {
+              void handlePreviewEntityRename(plan, scope);
+            }}
+            onResetPreview={() => setEntityRenamePreview(null)}
+            onApply={(acceptedKeys) => {
+              void handleApplyEntityRename(acceptedKeys);
+            }}
+            onUndo={() => {
+              void handleUndoEntityRename();
+            }}
+            onClose={() => {
+              setEntityRenameOpen(false);
+              setEntityRenamePreview(null);
+            }}
+          />
+        ) : null}
+        {manuscriptImportSource ? (
+          <LazyManuscriptImportModal
+            source={manuscriptImportSource}
+            busy={manuscriptImportBusy}
+            onCancel={() => {
+              setManuscriptImportSource(null);
+              setStatus('Importar manuscrito: operacion cancelada.');
+            }}
+            onConfirm={(input) => {
+              void handleConfirmManuscriptImport(input);
             }}
           />
         ) : null}
@@ -9,7 +9,7 @@ import type {
   ChatScope,
   PromptTemplate,
 } from '../types/book';
-import type { OllamaServiceStatus } from '../lib/ollamaClient';
+import type { AiServiceStatus } from '../lib/aiProviders';
 import ContextTip from './ContextTip';
 
 interface AiContextSummary {
@@ -29,9 +29,15 @@ interface AiContextSummary {
   historyMessageCount: number;
 }
 
+interface AiLiveOutput {
+  label: string;
+  text: string;
+}
+
 interface AIPanelProps {
   actions: AiAction[];
   aiBusy: boolean;
+  liveOutput: AiLiveOutput | null;
   canUndoSnapshots: boolean;
   canRedoSnapshots: boolean;
   canRollbackAiSession: boolean;
@@ -46,12 +52,13 @@ interface AIPanelProps {
   continuousAgentEnabled: boolean;
   continuousAgentMaxRounds: number;
   promptTemplates: PromptTemplate[];
-  ollamaStatus: OllamaServiceStatus;
+  ollamaStatus: AiServiceStatus;
   contextSummary: AiContextSummary | null;
   assistantMode: AiAssistantMode;
   onScopeChange: (scope: ChatScope) => void;
   onAssistantModeChange: (mode: AiAssistantMode) => void;
   onRefreshOllamaStatus: () => void;
+  onCancelGeneration: () => void;
   onRunAction: (actionId: AiActionId) => void;
   onSendChat: (message: string, scope: ChatScope, mode: AiAssistantMode) => void;
   onTrackCharacter: (characterName: string, scope: ChatScope, range: ChapterRangeFilter) => void;
@@ -61,6 +68,8 @@ interface AIPanelProps {
   onRedoSnapshot: () => void;
   onRollbackAiSession: () => void;
   onSaveMilestone: () => void;
+  onVerifyAiAudit: () => void;
+  onExportAiProvenance: () => void;
   onCreatePromptTemplate: (title: string, content: string) => void;
   onDeletePromptTemplate: (templateId: string) => void;
   onContextJump: (jump: { kind: 'chapter' | 'timeline' | 'saga-rule'; id: string; label: string }) => void;
@@ -368,6 +377,23 @@ function AIPanel(props: AIPanelProps) {
         <p className="ai-mode-description">{modeCopy.summary}</p>
       </header>
 
+      {props.liveOutput ? (
+        <section className="ai-surface-card ai-live-output" aria-live="polite">
+          <div className="section-title-row">
+            <h3>Generando: {props.liveOutput.label}</h3>
+            <button type="button" onClick={props.onCancelGeneration}>
+              Detener
+            </button>
+          </div>
+          <p className="muted">
+            {props.liveOutput.text
+              ? `${props.liveOutput.text.length} caracteres recibidos.`
+              : 'Esperando los primeros tokens del modelo...'}
+          </p>
+          {props.liveOutput.text ? <pre className="ai-live-output-text">{props.liveOutput.text}</pre> : null}
+        </section>
+      ) : null}
+
       <section className="quick-actions ai-surface-card">
         <div className="section-title-row">
           <h3>Flujos recomendados</h3>
@@ -411,6 +437,14 @@ function AIPanel(props: AIPanelProps) {
             <strong>Guardar hito</strong>
             <small>Crea una version segura antes de tocar algo delicado.</small>
           </button>
+          <button type="button" className="ai-control-card" onClick={props.onVerifyAiAudit} disabled={props.aiBusy}>
+            <strong>Verificar auditoria</strong>
+            <small>Comprueba que ningun registro de IA fue borrado o editado.</small>
+          </button>
+          <button type="button" className="ai-control-card" onClick={props.onExportAiProvenance} disabled={props.aiBusy}>
+            <strong>Procedencia IA</strong>
+            <small>Exporta cuantas palabras toco la IA en cada capitulo.</small>
+          </button>
         </div>
       </section>
 
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import {
+  BACKUP_CHAPTER_STATUS_LABELS,
+  compareBackupChapters,
+  type BackupChapterComparison,
+} from '../lib/backupSnapshots';
+import { formatNumber } from '../lib/metrics';
+import type { BackupSnapshotSummary } from '../lib/storage';
+import type { ChapterDocument } from '../types/book';
+import './BackupRestoreModal.css';
+
+interface BackupRestoreModalProps {
+  snapshots: BackupSnapshotSummary[];
+  selectedFolder: string | null;
+  snapshotChapters: ChapterDocument[] | null;
+  currentChapters: ChapterDocument[];
+  busy: boolean;
+  retentionLabel: string;
+  onSelectSnapshot: (folderName: string) => void;
+  onRestore: (chapterIds: string[]) => void;
+  onPrune: () => void;
+  onMaterialize: (folderName: string) => void;
+  onClose: () => void;
+}
+
+function formatSnapshotDate(createdAt: string): string {
+  const date = new Date(createdAt);
+  return Number.isNaN(date.getTime()) ? createdAt : date.toLocaleString();
+}
+
+function describeWordDelta(row: BackupChapterComparison): string {
+  if (row.status === 'only-backup') {
+    return `${formatNumber(row.backupWords)} palabras`;
+  }
+  if (row.status === 'only-current') {
+    return `${formatNumber(row.currentWords)} palabras actuales`;
+  }
+  const delta = row.backupWords - row.currentWords;
+  return `${formatNumber(row.backupWords)} en backup / ${formatNumber(row.currentWords)} actuales (${delta >= 0 ? '+' : ''}${formatNumber(delta)})`;
+}
+
+function BackupRestoreModal(props: BackupRestoreModalProps) {
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const comparison = useMemo(
+    () => (props.snapshotChapters ? compareBackupChapters(props.snapshotChapters, props.currentChapters) : []),
+    [props.currentChapters, props.snapshotChapters],
+  );
+  const restorableIds = comparison
+    .filter((row) => row.status === 'modified' || row.status === 'only-backup')
+    .map((row) => row.chapterId);
+  const selectedIds = checkedIds.filter((id) => restorableIds.includes(id));
+
+  const toggleChecked = (chapterId: string) => {
+    setCheckedIds((previous) =>
+      previous.includes(chapterId) ? previous.filter((id) => id !== chapterId) : [...previous, chapterId],
+    );
+  };
+
+  return (
+    <div className="backup-restore-overlay">
+      <section className="backup-restore-panel" role="dialog" aria-modal="true" aria-label="Restaurar desde backup">
+        <header className="backup-restore-header">
+          <h2>Restaurar desde backup</h2>
+          <p>
+            {props.snapshots.length} snapshot/s de este libro | Retencion: {props.retentionLabel}
+          </p>
+        </header>
+
+        <div className="backup-restore-layout">
+          <ol className="backup-restore-snapshots">
+            {props.snapshots.length === 0 ? (
+              <li className="muted">Todavia no hay snapshots en la carpeta de backup.</li>
+            ) : (
+              props.snapshots.map((snapshot) => (
+                <li key={snapshot.folderName}>
+                  <button
+                    type="button"
+                    className={snapshot.folderName === props.selectedFolder ? 'is-active' : ''}
+                    onClick={() => {
+                      setCheckedIds([]);
+                      props.onSelectSnapshot(snapshot.folderName);
+                    }}
+                    disabled={props.busy}
+                  >
+                    <strong>{formatSnapshotDate(snapshot.createdAt)}</strong>
+                    <small>
+                      {snapshot.version === 2 ? `incremental | ${snapshot.fileCount} archivo/s` : 'copia completa (sin retencion)'}
+                      {snapshot.copiedSaga ? ' | incluye saga' : ''}
+                    </small>
+                  </button>
+                </li>
+              ))
+            )}
+          </ol>
+
+          <div className="backup-restore-preview">
+            {!props.selectedFolder ? (
+              <p className="muted">Elige un snapshot para compararlo con el libro actual.</p>
+            ) : !props.snapshotChapters ? (
+              <p className="muted">Leyendo snapshot...</p>
+            ) : (
+              <ul className="backup-restore-chapters">
+                {comparison.map((row) => (
+                  <li key={row.chapterId} className={`is-${row.status}`}>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(row.chapterId)}
+                        disabled={!restorableIds.includes(row.chapterId) || props.busy}
+                        onChange={() => toggleChecked(row.chapterId)}
+                      />
+                      <strong>{row.title}</strong>
+                    </label>
+                    <small>
+                      {BACKUP_CHAPTER_STATUS_LABELS[row.status]} | {describeWordDelta(row)}
+                    </small>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <footer className="backup-restore-actions">
+          <button type="button" onClick={props.onPrune} disabled={props.busy} title="Borra snapshots fuera de la politica y objetos sin uso.">
+            Aplicar retencion ahora
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (props.selectedFolder) {
+                props.onMaterialize(props.selectedFolder);
+              }
+            }}
+            disabled={props.busy || !props.selectedFolder}
+            title="Reconstruye libro, assets y saga del snapshot en una carpeta nueva."
+          >
+            Restaurar snapshot completo...
+          </button>
+          <button type="button" onClick={props.onClose} disabled={props.busy}>
+            Cerrar
+          </button>
+          <button type="button" onClick={() => props.onRestore(selectedIds)} disabled={props.busy || selectedIds.length === 0}>
+            Restaurar {selectedIds.length} seleccionado/s
+          </button>
+          <button type="button" onClick={() => props.onRestore(restorableIds)} disabled={props.busy || restorableIds.length === 0}>
+            {props.busy ? 'Restaurando...' : `Restaurar todo (${restorableIds.length})`}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
+
+export default BackupRestoreModal;
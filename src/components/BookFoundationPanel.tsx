@@ -1,3 +1,4 @@
+import { parseStyleRules } from '../lib/styleRules';
 import type { BookFoundation } from '../types/book';
 
 interface BookFoundationPanelProps {
@@ -8,6 +9,7 @@ interface BookFoundationPanelProps {
 
 function BookFoundationPanel(props: BookFoundationPanelProps) {
   const { foundation } = props;
+  const ruleSet = parseStyleRules(foundation);
 
   return (
     <section className="settings-view">
@@ -60,7 +62,7 @@ function BookFoundationPanel(props: BookFoundationPanelProps) {
           rows={4}
           value={foundation.styleRules}
           onChange={(event) => props.onChange({ ...foundation, styleRules: event.target.value })}
-          placeholder="Reglas fijas de escritura"
+          placeholder="Reglas fijas de escritura. Ej: /\bmuy muy\b/i -> muy # Repeticion"
         />
       </label>
 
@@ -80,7 +82,7 @@ function BookFoundationPanel(props: BookFoundationPanelProps) {
           rows={3}
           value={foundation.glossaryPreferred}
           onChange={(event) => props.onChange({ ...foundation, glossaryPreferred: event.target.value })}
-          placeholder="Terminos recomendados"
+          placeholder="Terminos recomendados. Ej: movil <- celular / telefono"
         />
       </label>
 
@@ -90,10 +92,20 @@ function BookFoundationPanel(props: BookFoundationPanelProps) {
           rows={3}
           value={foundation.glossaryAvoid}
           onChange={(event) => props.onChange({ ...foundation, glossaryAvoid: event.target.value })}
-          placeholder="Terminos o estilos a no usar"
+          placeholder="Terminos o estilos a no usar. Ej: ojos esmeralda -> ojos verdes"
         />
       </label>
 
+      <p className="muted">
+        Las lineas {'"/patron/ -> reemplazo # mensaje"'} de las reglas y los pares del glosario se marcan en el editor con
+        correccion rapida y se revisan en el checklist editorial. Reglas activas: {ruleSet.rules.length}.
+      </p>
+      {ruleSet.errors.map((error) => (
+        <p key={error} className="warning-text">
+          {error}
+        </p>
+      ))}
+
       <button type="button" onClick={props.onSave}>Guardar base del libro</button>
     </section>
   );
@@ -1,5 +1,6 @@
-import { useEffect, useMemo, useRef } from 'react';
-import { diffTextBlocks, summarizeDiffOperations } from '../lib/diff';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { applyParagraphDiffHunks, diffParagraphs, summarizeParagraphDiff } from '../lib/diff';
+import ParagraphDiffList from './ParagraphDiffList';
 import './ChangeReviewModal.css';
 
 interface ChangeReviewModalProps {
@@ -10,16 +11,28 @@ interface ChangeReviewModalProps {
   afterText: string;
   confirmLabel?: string;
   cancelLabel?: string;
-  onConfirm: () => void;
+  isStreaming?: boolean;
+  // Recibe el texto final: la version nueva completa o la anterior con solo los hunks aceptados.
+  onConfirm: (resultText: string) => void;
   onCancel: () => void;
 }
 
 function ChangeReviewModal(props: ChangeReviewModalProps) {
-  const { isOpen, title, subtitle, beforeText, afterText, confirmLabel, cancelLabel, onConfirm, onCancel } = props;
+  const { isOpen, title, subtitle, beforeText, afterText, confirmLabel, cancelLabel, isStreaming, onConfirm, onCancel } = props;
   const dialogRef = useRef<HTMLElement | null>(null);
   const confirmButtonRef = useRef<HTMLButtonElement | null>(null);
-  const operations = useMemo(() => diffTextBlocks(beforeText, afterText), [beforeText, afterText]);
-  const summary = useMemo(() => summarizeDiffOperations(operations), [operations]);
+  const entries = useMemo(() => diffParagraphs(beforeText, afterText), [beforeText, afterText]);
+  const summary = useMemo(() => summarizeParagraphDiff(entries), [entries]);
+  const [rejectedHunkIds, setRejectedHunkIds] = useState<ReadonlySet<number>>(() => new Set());
+  const hunkIds = useMemo(
+    () => Array.from(new Set(entries.flatMap((entry) => (entry.hunkId === null ? [] : [entry.hunkId])))),
+    [entries],
+  );
+  const acceptedHunkIds = useMemo(
+    () => new Set(isStreaming ? hunkIds : hunkIds.filter((hunkId) => !rejectedHunkIds.has(hunkId))),
+    [hunkIds, isStreaming, rejectedHunkIds],
+  );
+  const acceptedCount = acceptedHunkIds.size;
 
   useEffect(() => {
     if (!isOpen) {
@@ -49,6 +62,22 @@ function ChangeReviewModal(props: ChangeReviewModalProps) {
     return null;
   }
 
+  const handleConfirm = () => {
+    onConfirm(acceptedCount === hunkIds.length ? afterText : applyParagraphDiffHunks(entries, acceptedHunkIds));
+  };
+
+  const toggleHunk = (hunkId: number) => {
+    setRejectedHunkIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(hunkId)) {
+        next.delete(hunkId);
+      } else {
+        next.add(hunkId);
+      }
+      return next;
+    });
+  };
+
   const handleDialogKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
     if (event.key !== 'Tab') {
       return;
@@ -103,21 +132,35 @@ function ChangeReviewModal(props: ChangeReviewModalProps) {
         </header>
 
         <p className="change-review-summary">
-          Bloques sin cambios: {summary.equalCount} | agregados: {summary.insertCount} | eliminados: {summary.deleteCount}
+          {isStreaming ? `Generando en vivo (${afterText.length} caracteres) | ` : ''}
+          Parrafos sin cambios: {summary.equalCount} | reescritos: {summary.modifyCount} | agregados: {summary.insertCount} |
+          eliminados: {summary.deleteCount} | movidos: {summary.moveCount}
         </p>
 
+        {!isStreaming && hunkIds.length > 1 ? (
+          <div className="change-review-hunk-actions">
+            <span>
+              Cambios aceptados: {acceptedCount} de {hunkIds.length}
+            </span>
+            <button type="button" onClick={() => setRejectedHunkIds(new Set())}>
+              Aceptar todo
+            </button>
+            <button type="button" onClick={() => setRejectedHunkIds(new Set(hunkIds))}>
+              Rechazar todo
+            </button>
+          </div>
+        ) : null}
+
         <div className="change-review-diff">
-          {operations.length === 0 ? (
+          {entries.length === 0 ? (
             <p className="muted">No se detectaron diferencias sustanciales.</p>
           ) : (
-            operations.map((operation, index) => (
-              <article key={`${operation.type}-${index}`} className={`change-review-block diff-${operation.type}`}>
-                <header>
-                  {operation.type === 'insert' ? '+' : operation.type === 'delete' ? '-' : '='}
-                </header>
-                <p>{operation.value || ' '}</p>
-              </article>
-            ))
+            <ParagraphDiffList
+              entries={entries}
+              blockClassName="change-review-block"
+              acceptedHunkIds={acceptedHunkIds}
+              onToggleHunk={isStreaming || hunkIds.length < 2 ? undefined : toggleHunk}
+            />
           )}
         </div>
 
@@ -125,8 +168,17 @@ function ChangeReviewModal(props: ChangeReviewModalProps) {
           <button type="button" onClick={onCancel}>
             {cancelLabel ?? 'Cancelar'}
           </button>
-          <button ref={confirmButtonRef} type="button" onClick={onConfirm}>
-            {confirmLabel ?? 'Aplicar cambios'}
+          <button
+            ref={confirmButtonRef}
+            type="button"
+            onClick={handleConfirm}
+            disabled={isStreaming || (hunkIds.length > 0 && acceptedCount === 0)}
+          >
+            {isStreaming
+              ? 'Generando...'
+              : acceptedCount < hunkIds.length
+                ? `Aplicar ${acceptedCount} de ${hunkIds.length} cambios`
+                : confirmLabel ?? 'Aplicar cambios'}
           </button>
         </footer>
       </section>
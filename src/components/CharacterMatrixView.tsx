@@ -1,10 +1,16 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import type { ChapterDocument, StoryCharacter } from '../types/book';
+import { analyzeBookDialogue } from '../lib/dialogueAttribution';
+import { expandChaptersIntoScenes } from '../lib/scenes';
 import { stripHtml } from '../lib/text';
 
+type MatrixDimension = 'mentions' | 'speaks';
+type MatrixGranularity = 'chapter' | 'scene';
+
 interface CharacterMatrixViewProps {
   chapters: ChapterDocument[];
   characters: StoryCharacter[];
+  sceneBreakGlyph?: string;
 }
 
 function normalizeForSearch(text: string): string {
@@ -61,9 +67,36 @@ function MentionCell({ count, isPov }: { count: number; isPov: boolean }) {
   );
 }
 
+function SpeaksCell({ lines, words, isPov }: { lines: number; words: number; isPov: boolean }) {
+  const title = lines > 0 ? `${lines} lineas de dialogo, ${words} palabras` : 'No habla';
+  if (lines === 0) {
+    return (
+      <td className={`char-matrix-cell no-mentions${isPov ? ' is-pov' : ''}`} title={title}>
+        {isPov && <span className="char-matrix-pov-marker">POV</span>}
+      </td>
+    );
+  }
+  const intensity = lines >= 20 ? 'high' : lines >= 6 ? 'mid' : 'low';
+  return (
+    <td className={`char-matrix-cell has-mentions is-speaks intensity-${intensity}${isPov ? ' is-pov' : ''}`} title={title}>
+      {isPov && <span className="char-matrix-pov-marker">POV</span>}
+      <span className="char-matrix-count">{lines}</span>
+    </td>
+  );
+}
+
 function CharacterMatrixView(props: CharacterMatrixViewProps) {
+  const [dimension, setDimension] = useState<MatrixDimension>('mentions');
+  const [granularity, setGranularity] = useState<MatrixGranularity>('chapter');
+
+  // Por escena cada fila es un tramo entre saltos de escena, con el POV propio de la escena.
+  const rows = useMemo(
+    () => (granularity === 'scene' ? expandChaptersIntoScenes(props.chapters, props.sceneBreakGlyph) : props.chapters),
+    [granularity, props.chapters, props.sceneBreakGlyph],
+  );
+
   const matrix = useMemo(() => {
-    return props.chapters.map((chapter) => {
+    return rows.map((chapter) => {
       const row = props.characters.map((char) => {
         const isPov = !!chapter.pointOfView && chapter.pointOfView.trim().toLowerCase() === char.name.trim().toLowerCase();
         const count = countMentions(chapter.content, char);
@@ -71,7 +104,7 @@ function CharacterMatrixView(props: CharacterMatrixViewProps) {
       });
       return { chapter, row };
     });
-  }, [props.chapters, props.characters]);
+  }, [rows, props.characters]);
 
   const charTotals = useMemo(() => {
     const totals: Record<string, number> = {};
@@ -83,6 +116,15 @@ function CharacterMatrixView(props: CharacterMatrixViewProps) {
     return totals;
   }, [matrix]);
 
+  const dialogue = useMemo(
+    () => (dimension === 'speaks' ? analyzeBookDialogue(rows, props.characters) : null),
+    [dimension, rows, props.characters],
+  );
+  const speakerById = useMemo(
+    () => new Map((dialogue?.characters ?? []).map((stats) => [stats.characterId, stats])),
+    [dialogue],
+  );
+
   if (props.characters.length === 0) {
     return (
       <section className="char-matrix-view">
@@ -99,20 +141,52 @@ function CharacterMatrixView(props: CharacterMatrixViewProps) {
       <header>
         <h2>Matriz Personaje x Capitulo</h2>
         <p>Presencia de cada personaje por capitulo - basado en menciones de nombre y aliases.</p>
-        <p className="muted">POV = capitulo narrado desde ese personaje. El numero indica cantidad de menciones.</p>
+        <p className="muted">
+          {dimension === 'mentions'
+            ? 'POV = capitulo narrado desde ese personaje. El numero indica cantidad de menciones.'
+            : 'El numero indica lineas de dialogo atribuidas por acotacion, accion del parrafo o alternancia de turnos.'}
+        </p>
       </header>
 
+      <div className="loose-thread-actions">
+        <button type="button" className={dimension === 'mentions' ? 'is-active' : ''} onClick={() => setDimension('mentions')}>
+          Menciones
+        </button>
+        <button type="button" className={dimension === 'speaks' ? 'is-active' : ''} onClick={() => setDimension('speaks')}>
+          Habla
+        </button>
+        <button type="button" className={granularity === 'chapter' ? 'is-active' : ''} onClick={() => setGranularity('chapter')}>
+          Por capitulo
+        </button>
+        <button type="button" className={granularity === 'scene' ? 'is-active' : ''} onClick={() => setGranularity('scene')}>
+          Por escena
+        </button>
+        {dialogue && (
+          <span className="muted">
+            {dialogue.totalLines} lineas de dialogo, {dialogue.unattributedLines} sin atribuir
+          </span>
+        )}
+      </div>
+
       <div className="char-matrix-table-wrapper">
         <table className="char-matrix-table">
           <thead>
             <tr>
-              <th className="char-matrix-chapter-col">Capitulo</th>
+              <th className="char-matrix-chapter-col">{granularity === 'scene' ? 'Escena' : 'Capitulo'}</th>
               {props.characters.map((char) => (
                 <th key={char.id} className="char-matrix-char-col" title={char.aliases ? `Aliases: ${char.aliases}` : char.name}>
                   <span className="char-matrix-char-name">{char.name}</span>
-                  <span className="char-matrix-char-total muted">{charTotals[char.id] ?? 0}</span>
+                  <span className="char-matrix-char-total muted">
+                    {dialogue ? speakerById.get(char.id)?.lines ?? 0 : charTotals[char.id] ?? 0}
+                  </span>
                 </th>
               ))}
+              {dialogue && (
+                <th className="char-matrix-char-col" title="Lineas de dialogo sin hablante reconocido">
+                  <span className="char-matrix-char-name">Sin atribuir</span>
+                  <span className="char-matrix-char-total muted">{dialogue.unattributedLines}</span>
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
@@ -121,14 +195,64 @@ function CharacterMatrixView(props: CharacterMatrixViewProps) {
                 <td className="char-matrix-chapter-title" title={chapter.title}>
                   <span className="char-matrix-chapter-num">{rowIdx + 1}.</span> {chapter.title}
                 </td>
-                {matrix[rowIdx].row.map(({ charId, count, isPov }) => (
-                  <MentionCell key={charId} count={count} isPov={isPov} />
-                ))}
+                {matrix[rowIdx].row.map(({ charId, count, isPov }) => {
+                  if (!dialogue) {
+                    return <MentionCell key={charId} count={count} isPov={isPov} />;
+                  }
+                  const spoken = dialogue.chapters[rowIdx].bySpeaker[charId];
+                  return <SpeaksCell key={charId} lines={spoken?.lines ?? 0} words={spoken?.words ?? 0} isPov={isPov} />;
+                })}
+                {dialogue && (
+                  <td className="char-matrix-cell no-mentions" title="Lineas sin hablante reconocido">
+                    {dialogue.chapters[rowIdx].unattributedLines || ''}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      {dialogue && (
+        <div className="char-matrix-voices">
+          <h3>Voces</h3>
+          <table className="char-matrix-voice-table">
+            <thead>
+              <tr>
+                <th>Personaje</th>
+                <th>Lineas</th>
+                <th>Palabras</th>
+                <th>Promedio por linea</th>
+                <th>Vocabulario distintivo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {props.characters.map((char) => {
+                const stats = speakerById.get(char.id);
+                return (
+                  <tr key={char.id}>
+                    <td>{char.name}</td>
+                    <td>{stats?.lines ?? 0}</td>
+                    <td>{stats?.words ?? 0}</td>
+                    <td>{stats && stats.lines > 0 ? stats.avgWordsPerLine.toLocaleString() : '-'}</td>
+                    <td>
+                      {stats && stats.distinctiveTerms.length > 0 ? (
+                        stats.distinctiveTerms.map((term) => (
+                          <span key={term} className="manuscript-audit-chip">
+                            {term}
+                          </span>
+                        ))
+                      ) : (
+                        <span className="muted">-</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  buildDraftMergePlan,
+  resolveDraftChapterMerge,
+  type DraftBranchIndex,
+  type DraftChapterMerge,
+  type DraftChapterMergeStatus,
+  type DraftConflictChoice,
+} from '../lib/draftBranches';
+import { loadDraftBranchContents, type DraftBranchContents } from '../lib/storage';
+import { stripHtml } from '../lib/text';
+import type { ChapterDocument } from '../types/book';
+
+interface DraftBranchesViewProps {
+  bookPath: string | null;
+  chapters: ChapterDocument[];
+  index: DraftBranchIndex | null;
+  busy: boolean;
+  onCreateBranch: (name: string) => void;
+  onSwitchBranch: (branchId: string) => void;
+  onDeleteBranch: (branchId: string) => void;
+  onApplyChapterMerge: (branchId: string, merge: DraftChapterMerge, content: string) => void;
+}
+
+const STATUS_LABELS: Record<DraftChapterMergeStatus, string> = {
+  unchanged: 'Sin cambios en la rama',
+  'theirs-only': 'Solo cambio en la rama',
+  clean: 'Fusion automatica',
+  conflict: 'Con conflictos',
+  added: 'Capitulo nuevo en la rama',
+  removed: 'Borrado en la rama',
+};
+
+const CHOICE_LABELS: Record<DraftConflictChoice, string> = {
+  ours: 'Mantener actual',
+  theirs: 'Usar rama',
+  both: 'Ambas (actual + rama)',
+};
+
+function formatUnknownError(error: unknown): string {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message;
+  }
+
+  return typeof error === 'string' && error.trim() ? error : 'Error desconocido';
+}
+
+function blocksToText(blocks: string[]): string {
+  return blocks.map((block) => stripHtml(block)).filter(Boolean).join('\n\n');
+}
+
+function DraftBranchesView(props: DraftBranchesViewProps) {
+  const [newBranchName, setNewBranchName] = useState('');
+  const [sourceBranchId, setSourceBranchId] = useState<string | null>(null);
+  const [sourceContents, setSourceContents] = useState<DraftBranchContents | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedChapterId, setSelectedChapterId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, Record<string, DraftConflictChoice>>>({});
+
+  const index = props.index;
+  const activeBranch = index?.branches.find((branch) => branch.id === index.activeBranchId) ?? null;
+  const mergeSourceId = sourceBranchId && sourceBranchId !== index?.activeBranchId ? sourceBranchId : null;
+
+  useEffect(() => {
+    if (!props.bookPath || !index || !mergeSourceId) {
+      return;
+    }
+
+    let isCancelled = false;
+    void loadDraftBranchContents(props.bookPath, index, mergeSourceId)
+      .then((loaded) => {
+        if (!isCancelled) {
+          setSourceContents(loaded);
+          setLoadError(null);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setSourceContents(null);
+          setLoadError(formatUnknownError(error));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [props.bookPath, index, mergeSourceId]);
+
+  const visibleContents = sourceContents && sourceContents.branch.id === mergeSourceId ? sourceContents : null;
+
+  const plan = useMemo(() => {
+    if (!visibleContents) {
+      return [];
+    }
+
+    const ours: Record<string, ChapterDocument> = {};
+    for (const chapter of props.chapters) {
+      ours[chapter.id] = chapter;
+    }
+    return buildDraftMergePlan({
+      base: visibleContents.base,
+      baseOrder: visibleContents.branch.baseChapterOrder,
+      ours,
+      oursOrder: props.chapters.map((chapter) => chapter.id),
+      theirs: visibleContents.chapters,
+      theirsOrder: visibleContents.chapterOrder,
+    });
+  }, [props.chapters, visibleContents]);
+
+  const pendingMerges = plan.filter((merge) => merge.status !== 'unchanged');
+  const selectedMerge = pendingMerges.find((merge) => merge.chapterId === selectedChapterId) ?? pendingMerges[0] ?? null;
+  const selectedChoices = selectedMerge ? choices[selectedMerge.chapterId] ?? {} : {};
+  const resolvedContent = selectedMerge ? resolveDraftChapterMerge(selectedMerge, selectedChoices) : null;
+  const branchNameById = new Map((index?.branches ?? []).map((branch) => [branch.id, branch.name]));
+
+  const setChoice = (chapterId: string, conflictId: string, choice: DraftConflictChoice) => {
+    setChoices((previous) => ({
+      ...previous,
+      [chapterId]: { ...(previous[chapterId] ?? {}), [conflictId]: choice },
+    }));
+  };
+
+  if (!props.bookPath || !index) {
+    return (
+      <section className="draft-branches-view">
+        <p className="muted">Abre un libro para trabajar con ramas de borrador.</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="draft-branches-view">
+      <header>
+        <h2>Ramas de borrador</h2>
+        <p>
+          Bifurca todo el manuscrito en una rama con nombre ("final alternativo", "pasada del editor"), escribe en ella
+          por separado y fusiona despues capitulo a capitulo con diff a tres vias. Rama activa:{' '}
+          <strong>{activeBranch?.name ?? 'Principal'}</strong>.
+        </p>
+      </header>
+
+      <div className="loose-threads-toolbar">
+        <label>
+          Nueva rama desde la activa
+          <input
+            value={newBranchName}
+            onChange={(event) => setNewBranchName(event.target.value)}
+            placeholder="Ej: Final alternativo"
+          />
+        </label>
+        <button
+          type="button"
+          disabled={props.busy || !newBranchName.trim()}
+          onClick={() => {
+            props.onCreateBranch(newBranchName.trim());
+            setNewBranchName('');
+          }}
+        >
+          Crear rama
+        </button>
+      </div>
+
+      <ul className="draft-branch-list">
+        {index.branches.map((branch) => {
+          const isActive = branch.id === index.activeBranchId;
+          return (
+            <li key={branch.id} className={isActive ? 'is-active' : ''}>
+              <div>
+                <strong>{branch.name}</strong>
+                {isActive && <span className="manuscript-audit-chip is-warning">Activa</span>}
+                <small className="muted">
+                  {branch.forkedFrom ? ` Bifurcada de ${branchNameById.get(branch.forkedFrom) ?? branch.forkedFrom} | ` : ' '}
+                  {new Date(branch.createdAt).toLocaleString()}
+                </small>
+              </div>
+              <div className="loose-thread-actions">
+                <button type="button" disabled={props.busy || isActive} onClick={() => props.onSwitchBranch(branch.id)}>
+                  Cambiar a esta rama
+                </button>
+                <button
+                  type="button"
+                  disabled={props.busy || isActive}
+                  onClick={() => {
+                    setSourceBranchId(branch.id);
+                    setSelectedChapterId(null);
+                    setChoices({});
+                  }}
+                >
+                  Fusionar en {activeBranch?.name ?? 'la activa'}
+                </button>
+                <button
+                  type="button"
+                  disabled={props.busy || isActive || branch.forkedFrom === null}
+                  onClick={() => {
+                    if (globalThis.confirm(`Borrar la rama "${branch.name}" y sus copias de capitulos?`)) {
+                      props.onDeleteBranch(branch.id);
+                    }
+                  }}
+                >
+                  Borrar
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {loadError && mergeSourceId ? <p className="warning-text">No se pudo cargar la rama: {loadError}</p> : null}
+
+      {visibleContents && (
+        <div className="draft-merge-panel">
+          <h3>
+            Fusionar "{visibleContents.branch.name}" en "{activeBranch?.name ?? 'Principal'}"
+          </h3>
+          {pendingMerges.length === 0 ? (
+            <p className="muted">La rama no tiene cambios pendientes de fusionar.</p>
+          ) : (
+            <div className="draft-merge-layout">
+              <ol className="draft-merge-chapters">
+                {pendingMerges.map((merge) => (
+                  <li key={merge.chapterId}>
+                    <button
+                      type="button"
+                      className={merge.chapterId === selectedMerge?.chapterId ? 'is-active' : ''}
+                      onClick={() => setSelectedChapterId(merge.chapterId)}
+                    >
+                      <strong>
+                        {merge.chapterId} - {merge.title}
+                      </strong>
+                      <small className={merge.status === 'conflict' ? 'warning-text' : 'muted'}>
+                        {STATUS_LABELS[merge.status]}
+                        {merge.conflictCount > 0 ? ` (${merge.conflictCount})` : ''}
+                      </small>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {selectedMerge && (
+                <div className="diff-output-list">
+                  {selectedMerge.status === 'removed' ? (
+                    <p className="muted">La rama borro este capitulo y aqui no se modifico desde la bifurcacion.</p>
+                  ) : (
+                    selectedMerge.segments.map((segment, segmentIndex) => {
+                      if (segment.kind === 'stable') {
+                        return (
+                          <article key={`stable-${segmentIndex}`} className="diff-block diff-equal">
+                            <header>= {segment.blocks.length} bloque/s sin cambios</header>
+                          </article>
+                        );
+                      }
+
+                      if (segment.kind === 'merged') {
+                        return (
+                          <article
+                            key={`merged-${segmentIndex}`}
+                            className={`diff-block ${segment.source === 'ours' ? 'diff-equal' : 'diff-insert'}`}
+                          >
+                            <header>
+                              {segment.source === 'ours' ? 'Actual' : segment.source === 'theirs' ? 'Rama' : 'Igual en ambas'}
+                            </header>
+                            <p>{blocksToText(segment.blocks) || ' '}</p>
+                          </article>
+                        );
+                      }
+
+                      const choice = selectedChoices[segment.id];
+                      return (
+                        <article key={segment.id} className="draft-merge-conflict">
+                          <div className="draft-merge-columns">
+                            <div>
+                              <h4>Base</h4>
+                              <p>{blocksToText(segment.base) || '(vacio)'}</p>
+                            </div>
+                            <div>
+                              <h4>Actual</h4>
+                              <p>{blocksToText(segment.ours) || '(vacio)'}</p>
+                            </div>
+                            <div>
+                              <h4>Rama</h4>
+                              <p>{blocksToText(segment.theirs) || '(vacio)'}</p>
+                            </div>
+                          </div>
+                          <div className="loose-thread-actions">
+                            {(Object.keys(CHOICE_LABELS) as DraftConflictChoice[]).map((option) => (
+                              <button
+                                key={option}
+                                type="button"
+                                className={choice === option ? 'is-active' : ''}
+                                onClick={() => setChoice(selectedMerge.chapterId, segment.id, option)}
+                              >
+                                {CHOICE_LABELS[option]}
+                              </button>
+                            ))}
+                          </div>
+                        </article>
+                      );
+                    })
+                  )}
+                  <div className="loose-thread-actions">
+                    <button
+                      type="button"
+                      disabled={props.busy || (selectedMerge.status !== 'removed' && resolvedContent === null)}
+                      onClick={() => props.onApplyChapterMerge(visibleContents.branch.id, selectedMerge, resolvedContent ?? '')}
+                      title={resolvedContent === null ? 'Decide cada conflicto antes de aplicar.' : 'Guarda el capitulo fusionado.'}
+                    >
+                      {selectedMerge.status === 'removed' ? 'Borrar capitulo' : 'Aplicar fusion de este capitulo'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {index.merges.length > 0 && (
+        <div className="draft-merge-history">
+          <h3>Fusiones registradas</h3>
+          <ul>
+            {index.merges
+              .slice(-8)
+              .reverse()
+              .map((record) => (
+                <li key={`${record.mergedAt}-${record.chapterId}`}>
+                  {new Date(record.mergedAt).toLocaleString()} | {record.branchName} -&gt;{' '}
+                  {branchNameById.get(record.targetBranchId) ?? record.targetBranchId} | Cap. {record.chapterId} |{' '}
+                  {STATUS_LABELS[record.status]}
+                  {record.conflictCount > 0 ? ` | ${record.conflictCount} conflicto/s resuelto/s` : ''}
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default DraftBranchesView;
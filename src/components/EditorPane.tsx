@@ -1,4 +1,4 @@
-import { Suspense, forwardRef, lazy, useState } from 'react';
+import { Suspense, forwardRef, lazy, useMemo, useState } from 'react';
 import type { JSONContent } from '@tiptap/core';
 
 import { CHAPTER_LENGTH_OPTIONS, formatChapterLengthLabel, resolveChapterLengthPreset } from '../lib/chapterLength';
@@ -7,6 +7,11 @@ import { formatNumber } from '../lib/metrics';
 import type { ContinuityGuardReport, ContinuityHighlightTerm } from '../lib/continuityGuard';
 import type { SemanticReferenceCatalogEntry } from '../lib/semanticReferences';
 import type { AudioPlaybackState } from '../lib/audio';
+import type { ProseLintLanguage } from '../lib/proseLint';
+import type { StyleRule } from '../lib/styleRules';
+import { listCommentAnchorIds } from '../lib/manuscriptComments';
+import { listTrackedChanges, type TrackedChangeDecision } from '../lib/trackChanges';
+import type { WritingSprintPhase, WritingSprintPlan } from '../lib/writingSessions';
 import type {
   ChapterDocument,
   ChapterLengthPreset,
@@ -28,6 +33,7 @@ const EDITOR_BACKGROUND_OPTIONS: Array<{ value: EditorBackgroundTone; label: str
 
 interface EditorPaneProps {
   chapter: ChapterDocument | null;
+  autoActivateEditor?: boolean;
   scrollPersistenceKey: string;
   interiorFormat: InteriorFormat;
   autosaveIntervalMs: number;
@@ -42,6 +48,9 @@ interface EditorPaneProps {
   editorBackgroundTone: EditorBackgroundTone;
   continuityHighlightEnabled: boolean;
   continuityHighlights: ContinuityHighlightTerm[];
+  proseLintEnabled: boolean;
+  proseLintLanguage: ProseLintLanguage;
+  styleRules: StyleRule[];
   continuityReport: ContinuityGuardReport | null;
   continuityBriefing: ChapterContinuityBriefing | null;
   semanticReferenceCharacterCount: number;
@@ -49,6 +58,9 @@ interface EditorPaneProps {
   semanticReferencesCatalog: SemanticReferenceCatalogEntry[];
   audioPlaybackState: AudioPlaybackState;
   manuscriptNotes: ChapterManuscriptNote[];
+  trackChangesEnabled: boolean;
+  trackChangesAuthor: string;
+  aiOriginHighlightEnabled: boolean;
   onUndoEdit: () => void;
   onRedoEdit: () => void;
   onReadAloud: () => void;
@@ -58,6 +70,8 @@ interface EditorPaneProps {
   onEditorBackgroundToneChange: (tone: EditorBackgroundTone) => void;
   onLengthPresetChange: (preset: ChapterLengthPreset) => void;
   onContinuityHighlightToggle: (enabled: boolean) => void;
+  onProseLintToggle: (enabled: boolean) => void;
+  onAiOriginHighlightToggle: (enabled: boolean) => void;
   onRefreshContinuityBriefing: () => void;
   onContentChange: (payload: { html: string; json: JSONContent }) => void;
   onInsertCharacterReference: () => void;
@@ -84,12 +98,45 @@ interface EditorPaneProps {
   onAddManuscriptNote: () => void;
   onToggleManuscriptNote: (noteId: string) => void;
   onDeleteManuscriptNote: (noteId: string) => void;
+  onReplyManuscriptNote: (noteId: string) => void;
+  onRevealManuscriptNote: (noteId: string) => void;
+  onReanchorManuscriptNote: (noteId: string) => void;
+  onTrackChangesToggle: (enabled: boolean) => void;
+  onResolveTrackedChange: (changeId: string | 'all', decision: TrackedChangeDecision) => void;
+  sprint: {
+    phase: WritingSprintPhase;
+    rounds: number;
+    blockAi: boolean;
+    chapterTitle: string;
+    startWords: number;
+    wordsDelta: number;
+    wordsPerMinute: number;
+  } | null;
+  onStartSprint: (plan: WritingSprintPlan) => void;
+  onStopSprint: () => void;
   onBlur: () => void;
 }
 
+function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function parseSprintInput(value: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+}
+
 const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref) => {
-  const [editorEnabled, setEditorEnabled] = useState(false);
+  const [editorEnabled, setEditorEnabled] = useState(() => Boolean(props.autoActivateEditor));
   const [advancedToolsVisible, setAdvancedToolsVisible] = useState(false);
+  const [sprintMinutesInput, setSprintMinutesInput] = useState('25');
+  const [sprintBreakInput, setSprintBreakInput] = useState('5');
+  const [sprintRoundsInput, setSprintRoundsInput] = useState('1');
+  const [sprintBlockAi, setSprintBlockAi] = useState(false);
+  const chapterContent = props.chapter?.content ?? '';
+  const trackedChanges = useMemo(() => listTrackedChanges(chapterContent), [chapterContent]);
+  const anchoredNoteIds = useMemo(() => listCommentAnchorIds(chapterContent), [chapterContent]);
   const renderEditorBackgroundControl = () => (
     <label className="editor-background-control" title="Cambia el fondo del papel del manuscrito.">
       <span>Fondo</span>
@@ -421,7 +468,9 @@ const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref)
           <div className="continuity-guard-header">
             <div>
               <h3>Notas al margen</h3>
-              <p className="muted">Comentarios privados del proceso. No forman parte del texto exportado.</p>
+              <p className="muted">
+                Comentarios privados anclados al texto. No forman parte del libro; el DOCX los exporta como comentarios.
+              </p>
             </div>
             <span className="muted">{props.manuscriptNotes.length} nota/s</span>
           </div>
@@ -435,8 +484,33 @@ const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref)
                   className={`manuscript-note-card ${note.status === 'resolved' ? 'is-resolved' : ''}`}
                 >
                   <div className="manuscript-note-head">
-                    <strong>{note.status === 'resolved' ? 'Resuelta' : 'Pendiente'}</strong>
+                    <strong>
+                      {note.status === 'resolved' ? 'Resuelta' : 'Pendiente'}
+                      {note.author ? <small className="muted"> | {note.author}</small> : null}
+                    </strong>
                     <div className="top-toolbar-actions">
+                      {anchoredNoteIds.has(note.id) || !note.excerpt ? (
+                        <button
+                          type="button"
+                          disabled={!editorEnabled || !anchoredNoteIds.has(note.id)}
+                          onClick={() => props.onRevealManuscriptNote(note.id)}
+                          title={anchoredNoteIds.has(note.id) ? 'Selecciona el fragmento anclado.' : 'La nota no tiene fragmento.'}
+                        >
+                          Ir al texto
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={!editorEnabled}
+                          onClick={() => props.onReanchorManuscriptNote(note.id)}
+                          title="Busca el fragmento de la nota en el texto actual y vuelve a anclarla."
+                        >
+                          Reanclar
+                        </button>
+                      )}
+                      <button type="button" onClick={() => props.onReplyManuscriptNote(note.id)}>
+                        Responder
+                      </button>
                       <button type="button" onClick={() => props.onToggleManuscriptNote(note.id)}>
                         {note.status === 'resolved' ? 'Reabrir' : 'Resolver'}
                       </button>
@@ -445,8 +519,25 @@ const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref)
                       </button>
                     </div>
                   </div>
-                  {note.excerpt ? <blockquote>{note.excerpt}</blockquote> : null}
+                  {note.excerpt ? (
+                    <blockquote className={anchoredNoteIds.has(note.id) ? '' : 'is-detached'}>
+                      {note.excerpt}
+                      {anchoredNoteIds.has(note.id) ? null : <small className="muted"> (sin ancla)</small>}
+                    </blockquote>
+                  ) : null}
                   <p>{note.note}</p>
+                  {(note.replies ?? []).length > 0 ? (
+                    <ul className="manuscript-note-replies">
+                      {(note.replies ?? []).map((reply) => (
+                        <li key={reply.id}>
+                          <small className="muted">
+                            {reply.author || 'Sin autor'} | {new Date(reply.createdAt).toLocaleString()}
+                          </small>
+                          <p>{reply.note}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
                 </article>
               ))}
             </div>
@@ -460,9 +551,181 @@ const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref)
             <span className="section-kicker">Mesa de escritura</span>
             <div className="editor-stage-note-actions">
               {renderEditorBackgroundControl()}
+              <label className="track-changes-toggle" title="Registra inserciones y borrados con autor y fecha.">
+                <input
+                  type="checkbox"
+                  checked={props.trackChangesEnabled}
+                  onChange={(event) => props.onTrackChangesToggle(event.target.checked)}
+                />
+                Control de cambios
+              </label>
+              <label
+                className="track-changes-toggle"
+                title="Marca adverbios, voz pasiva, verbos filtro, comienzos repetidos y cliches (ver Analisis de estilo)."
+              >
+                <input
+                  type="checkbox"
+                  checked={props.proseLintEnabled}
+                  onChange={(event) => props.onProseLintToggle(event.target.checked)}
+                />
+                Resaltar estilo
+              </label>
+              <label
+                className="track-changes-toggle"
+                title="Muestra el texto que agrego la IA y que nadie reescribio todavia."
+              >
+                <input
+                  type="checkbox"
+                  checked={props.aiOriginHighlightEnabled}
+                  onChange={(event) => props.onAiOriginHighlightToggle(event.target.checked)}
+                />
+                Texto IA
+              </label>
+              {props.styleRules.length > 0 ? (
+                <span
+                  className="muted"
+                  title={`${props.styleRules.map((rule) => rule.label).join(', ')}. Clic en una marca para corregir.`}
+                >
+                  Glosario: {props.styleRules.length} regla/s
+                </span>
+              ) : null}
               <strong>Modo manuscrito</strong>
             </div>
           </div>
+          <section className={`writing-sprint-panel ${props.sprint ? `is-${props.sprint.phase.kind}` : ''}`} aria-live="polite">
+            {props.sprint ? (
+              <>
+                <div className="writing-sprint-clock">
+                  <span className="section-kicker">
+                    {props.sprint.phase.kind === 'break' ? 'Descanso' : 'Sprint'} {props.sprint.phase.round}/{props.sprint.rounds}
+                  </span>
+                  <strong>{formatCountdown(props.sprint.phase.remainingSeconds)}</strong>
+                </div>
+                <div className="writing-sprint-stats">
+                  <span>
+                    {props.sprint.wordsDelta >= 0 ? '+' : ''}
+                    {formatNumber(props.sprint.wordsDelta)} palabras
+                  </span>
+                  <span>{formatNumber(props.sprint.wordsPerMinute)} ppm</span>
+                  <small className="muted">
+                    {props.sprint.chapterTitle} | inicio {formatNumber(props.sprint.startWords)} palabras
+                    {props.sprint.blockAi ? ' | IA bloqueada' : ''}
+                  </small>
+                </div>
+                <button type="button" onClick={props.onStopSprint}>
+                  Detener sprint
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="section-kicker">Sprint</span>
+                <label>
+                  Minutos
+                  <input
+                    type="number"
+                    min={1}
+                    max={180}
+                    value={sprintMinutesInput}
+                    onChange={(event) => setSprintMinutesInput(event.target.value)}
+                  />
+                </label>
+                <label>
+                  Descanso
+                  <input
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={sprintBreakInput}
+                    onChange={(event) => setSprintBreakInput(event.target.value)}
+                  />
+                </label>
+                <label>
+                  Rondas
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={sprintRoundsInput}
+                    onChange={(event) => setSprintRoundsInput(event.target.value)}
+                  />
+                </label>
+                <label className="track-changes-toggle" title="Desactiva acciones y chat de IA hasta terminar el sprint.">
+                  <input type="checkbox" checked={sprintBlockAi} onChange={(event) => setSprintBlockAi(event.target.checked)} />
+                  Bloquear IA
+                </label>
+                <button
+                  type="button"
+                  onClick={() =>
+                    props.onStartSprint({
+                      sprintMinutes: parseSprintInput(sprintMinutesInput, 25, 1, 180),
+                      breakMinutes: parseSprintInput(sprintBreakInput, 0, 0, 60),
+                      rounds: parseSprintInput(sprintRoundsInput, 1, 1, 12),
+                      blockAi: sprintBlockAi,
+                    })
+                  }
+                  title="Cronometra una tanda de escritura y registra las palabras del capitulo."
+                >
+                  Iniciar sprint
+                </button>
+              </>
+            )}
+          </section>
+          {props.trackChangesEnabled || trackedChanges.length > 0 ? (
+            <aside className="track-changes-panel" aria-label="Cambios pendientes">
+              <div className="track-changes-head">
+                <div>
+                  <h3>Cambios pendientes</h3>
+                  <p className="muted">
+                    {props.trackChangesEnabled
+                      ? `Registrando como ${props.trackChangesAuthor}.`
+                      : 'Control de cambios pausado: lo que escribas no se marca.'}
+                  </p>
+                </div>
+                <div className="top-toolbar-actions">
+                  <button
+                    type="button"
+                    disabled={trackedChanges.length === 0}
+                    onClick={() => props.onResolveTrackedChange('all', 'accept')}
+                  >
+                    Aceptar todos
+                  </button>
+                  <button
+                    type="button"
+                    disabled={trackedChanges.length === 0}
+                    onClick={() => props.onResolveTrackedChange('all', 'reject')}
+                  >
+                    Rechazar todos
+                  </button>
+                </div>
+              </div>
+              {trackedChanges.length === 0 ? (
+                <p className="muted">No hay cambios pendientes en este capitulo.</p>
+              ) : (
+                <ol className="track-changes-list">
+                  {trackedChanges.map((change) => (
+                    <li key={change.id}>
+                      <small className="muted">
+                        {change.author || 'Sin autor'}
+                        {change.date ? ` | ${new Date(change.date).toLocaleString()}` : ''}
+                      </small>
+                      <p>
+                        {change.deletedText ? <del className="diff-inline-delete">{change.deletedText}</del> : null}
+                        {change.insertedText ? <ins className="diff-inline-insert">{change.insertedText}</ins> : null}
+                      </p>
+                      <div className="top-toolbar-actions">
+                        <button type="button" onClick={() => props.onResolveTrackedChange(change.id, 'accept')}>
+                          Aceptar
+                        </button>
+                        <button type="button" onClick={() => props.onResolveTrackedChange(change.id, 'reject')}>
+                          Rechazar
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </aside>
+          ) : null}
           <div className="editor-paper-frame">
             <Suspense
               fallback={
@@ -478,7 +741,13 @@ const EditorPane = forwardRef<TiptapEditorHandle, EditorPaneProps>((props, ref)
                 scrollPersistenceKey={props.scrollPersistenceKey}
                 continuityHighlightEnabled={props.continuityHighlightEnabled}
                 continuityHighlights={props.continuityHighlights}
+                proseLintEnabled={props.proseLintEnabled}
+                proseLintLanguage={props.proseLintLanguage}
+                styleRules={props.styleRules}
                 semanticReferencesCatalog={props.semanticReferencesCatalog}
+                trackChangesEnabled={props.trackChangesEnabled}
+                trackChangesAuthor={props.trackChangesAuthor}
+                aiOriginHighlightEnabled={props.aiOriginHighlightEnabled}
                 onChange={props.onContentChange}
                 onSemanticReferenceOpen={props.onOpenSemanticReference}
                 onBlur={props.onBlur}
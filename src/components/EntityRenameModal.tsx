@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import {
+  suggestAliasReplacement,
+  type EntityRenameOccurrence,
+  type EntityRenameOccurrenceKind,
+  type EntityRenamePlan,
+  type EntityRenameTarget,
+} from '../lib/entityRename';
+import './EntityRenameModal.css';
+
+export type EntityRenameScope = 'book' | 'saga';
+
+interface EntityRenameModalProps {
+  targets: EntityRenameTarget[];
+  hasSaga: boolean;
+  occurrences: EntityRenameOccurrence[] | null;
+  busy: boolean;
+  undoLabel: string | null;
+  onPreview: (plan: EntityRenamePlan, scope: EntityRenameScope) => void;
+  onResetPreview: () => void;
+  onApply: (acceptedKeys: string[]) => void;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+const OCCURRENCE_KIND_LABELS: Record<EntityRenameOccurrenceKind, string> = {
+  text: 'texto',
+  reference: 'referencia',
+  shortcode: 'shortcode',
+};
+
+function buildTargetKey(target: EntityRenameTarget): string {
+  return `${target.source}:${target.kind}:${target.id}`;
+}
+
+function describeTarget(target: EntityRenameTarget): string {
+  const kindLabel = target.kind === 'character' ? 'Personaje' : 'Lugar';
+  const sourceLabel = target.source === 'saga' ? 'saga' : 'libro';
+  return `${kindLabel} (${sourceLabel}): ${target.name}`;
+}
+
+function EntityRenameModal(props: EntityRenameModalProps) {
+  const [targetKey, setTargetKey] = useState('');
+  const [newName, setNewName] = useState('');
+  const [aliasOverrides, setAliasOverrides] = useState<Record<string, string>>({});
+  const [keepOldNameAsAlias, setKeepOldNameAsAlias] = useState(true);
+  const [scope, setScope] = useState<EntityRenameScope>('book');
+  const [skippedKeys, setSkippedKeys] = useState<string[]>([]);
+
+  const target = props.targets.find((entry) => buildTargetKey(entry) === targetKey) ?? null;
+  const aliasReplacements = useMemo(() => {
+    if (!target) {
+      return {};
+    }
+    return Object.fromEntries(
+      target.aliases.map((alias) => [alias, aliasOverrides[alias] ?? suggestAliasReplacement(alias, target.name, newName)]),
+    );
+  }, [aliasOverrides, newName, target]);
+  const acceptedKeys = (props.occurrences ?? [])
+    .filter((occurrence) => !skippedKeys.includes(occurrence.key))
+    .map((occurrence) => occurrence.key);
+  const spansSeveralBooks = new Set((props.occurrences ?? []).map((occurrence) => occurrence.bookPath)).size > 1;
+  const canPreview = Boolean(target) && newName.trim().length > 0 && newName.trim() !== target?.name;
+
+  const resetPreview = () => {
+    setSkippedKeys([]);
+    props.onResetPreview();
+  };
+
+  const toggleSkipped = (key: string) => {
+    setSkippedKeys((previous) => (previous.includes(key) ? previous.filter((entry) => entry !== key) : [...previous, key]));
+  };
+
+  return (
+    <div className="entity-rename-overlay">
+      <section className="entity-rename-panel" role="dialog" aria-modal="true" aria-label="Renombrar personaje o lugar">
+        <header className="entity-rename-header">
+          <h2>Renombrar personaje o lugar</h2>
+          <p>Busca nombre y alias en el manuscrito, revisa cada aparicion y actualiza la biblia en un solo paso.</p>
+        </header>
+
+        <div className="entity-rename-form">
+          <label>
+            Entidad
+            <select
+              value={targetKey}
+              onChange={(event) => {
+                setTargetKey(event.target.value);
+                setAliasOverrides({});
+                const next = props.targets.find((entry) => buildTargetKey(entry) === event.target.value);
+                if (next?.source === 'saga' && props.hasSaga) {
+                  setScope('saga');
+                }
+                resetPreview();
+              }}
+              disabled={props.busy}
+            >
+              <option value="">Elegir...</option>
+              {props.targets.map((entry) => (
+                <option key={buildTargetKey(entry)} value={buildTargetKey(entry)}>
+                  {describeTarget(entry)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Nombre nuevo
+            <input
+              type="text"
+              value={newName}
+              onChange={(event) => {
+                setNewName(event.target.value);
+                resetPreview();
+              }}
+              placeholder={target?.name ?? 'Nombre nuevo'}
+              disabled={props.busy}
+            />
+          </label>
+          <label>
+            Alcance
+            <select
+              value={scope}
+              onChange={(event) => {
+                setScope(event.target.value as EntityRenameScope);
+                resetPreview();
+              }}
+              disabled={props.busy}
+            >
+              <option value="book">Libro activo</option>
+              {props.hasSaga ? <option value="saga">Todos los libros de la saga</option> : null}
+            </select>
+          </label>
+        </div>
+
+        {target && target.aliases.length > 0 ? (
+          <fieldset className="entity-rename-aliases">
+            <legend>Alias (deja el mismo texto para no tocarlo)</legend>
+            {target.aliases.map((alias) => (
+              <label key={alias}>
+                <span>{alias}</span>
+                <input
+                  type="text"
+                  value={aliasReplacements[alias] ?? alias}
+                  onChange={(event) => {
+                    setAliasOverrides((previous) => ({ ...previous, [alias]: event.target.value }));
+                    resetPreview();
+                  }}
+                  disabled={props.busy}
+                />
+              </label>
+            ))}
+          </fieldset>
+        ) : null}
+
+        <label className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={keepOldNameAsAlias}
+            onChange={(event) => {
+              setKeepOldNameAsAlias(event.target.checked);
+              resetPreview();
+            }}
+            disabled={props.busy}
+          />
+          Conservar el nombre anterior como alias en la biblia
+        </label>
+
+        <div className="entity-rename-actions">
+          <button
+            type="button"
+            onClick={() => {
+              if (!target) {
+                return;
+              }
+              setSkippedKeys([]);
+              props.onPreview({ target, newName: newName.trim(), aliasReplacements, keepOldNameAsAlias }, scope);
+            }}
+            disabled={props.busy || !canPreview}
+          >
+            {props.busy && !props.occurrences ? 'Buscando...' : 'Buscar apariciones'}
+          </button>
+          {props.undoLabel ? (
+            <button type="button" onClick={props.onUndo} disabled={props.busy} title={props.undoLabel}>
+              Deshacer ultimo renombrado
+            </button>
+          ) : null}
+        </div>
+
+        {props.occurrences ? (
+          <div className="entity-rename-preview">
+            <p className="muted">
+              {props.occurrences.length} aparicion/es | {acceptedKeys.length} aceptada/s
+            </p>
+            {props.occurrences.length > 0 ? (
+              <div className="entity-rename-bulk">
+                <button type="button" onClick={() => setSkippedKeys([])} disabled={props.busy}>
+                  Aceptar todas
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSkippedKeys((props.occurrences ?? []).map((occurrence) => occurrence.key))}
+                  disabled={props.busy}
+                >
+                  Omitir todas
+                </button>
+              </div>
+            ) : null}
+            <ul className="entity-rename-occurrences">
+              {props.occurrences.map((occurrence) => {
+                const accepted = !skippedKeys.includes(occurrence.key);
+                return (
+                  <li key={occurrence.key} className={accepted ? 'is-accepted' : 'is-skipped'}>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={accepted}
+                        onChange={() => toggleSkipped(occurrence.key)}
+                        disabled={props.busy}
+                      />
+                      <small>
+                        {spansSeveralBooks ? `${occurrence.bookTitle} | ` : ''}
+                        {occurrence.chapterTitle} | {OCCURRENCE_KIND_LABELS[occurrence.kind]}
+                      </small>
+                    </label>
+                    <p>
+                      ...{occurrence.contextBefore}
+                      <del>{occurrence.matchedText}</del>
+                      <ins>{occurrence.replacementText}</ins>
+                      {occurrence.contextAfter}...
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : null}
+
+        <footer className="entity-rename-footer">
+          <button type="button" onClick={props.onClose} disabled={props.busy}>
+            Cerrar
+          </button>
+          <button type="button" onClick={() => props.onApply(acceptedKeys)} disabled={props.busy || !props.occurrences}>
+            {props.busy && props.occurrences ? 'Aplicando...' : `Aplicar (${acceptedKeys.length}) y actualizar biblia`}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
+
+export default EntityRenameModal;
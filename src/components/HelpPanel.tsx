@@ -305,6 +305,7 @@ const COMMON_ISSUES: GuideStep[] = [
 
 const SHORTCUTS = [
   '`Ctrl + F`: abrir busqueda global',
+  '`F3` / `Shift + F3`: ir a la coincidencia siguiente/anterior de la ultima busqueda',
   '`Ctrl + Shift + H`: abrir o cerrar esta ayuda',
   '`Ctrl + Shift + F`: activar o salir de modo foco',
   '`Ctrl + S`: guardar ahora',
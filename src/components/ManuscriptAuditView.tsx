@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import {
+  MANUSCRIPT_AUDIT_CATEGORY_LABELS,
+  type ManuscriptAuditCategory,
+  type ManuscriptAuditReport,
+  type ManuscriptAuditSeverity,
+} from '../lib/manuscriptAudit';
+
+interface ManuscriptAuditViewProps {
+  report: ManuscriptAuditReport | null;
+  checkedAt: string | null;
+  hasSaga: boolean;
+  onRunAudit: () => void;
+  onOpenFinding: (chapterId: string, focusText: string) => void;
+}
+
+const SEVERITY_LABELS: Record<ManuscriptAuditSeverity, string> = {
+  error: 'Error',
+  warning: 'Aviso',
+};
+
+function ManuscriptAuditView(props: ManuscriptAuditViewProps) {
+  const [severityFilter, setSeverityFilter] = useState<ManuscriptAuditSeverity | ''>('');
+  const [categoryFilter, setCategoryFilter] = useState<ManuscriptAuditCategory | ''>('');
+
+  const report = props.report;
+  const groups = (report?.groups ?? [])
+    .map((group) => ({
+      ...group,
+      findings: group.findings.filter(
+        (finding) =>
+          (!severityFilter || finding.severity === severityFilter) &&
+          (!categoryFilter || finding.category === categoryFilter),
+      ),
+    }))
+    .filter((group) => group.findings.length > 0);
+
+  return (
+    <section className="manuscript-audit-view">
+      <header>
+        <h2>Consistencia del manuscrito</h2>
+        <p>
+          Revisa todos los capitulos contra la biblia de la historia
+          {props.hasSaga ? ' y la cronologia de la saga' : ''}: personajes fuera de su vida, objetos en manos
+          equivocadas, lugares incoherentes y secretos revelados antes de tiempo.
+        </p>
+        {report && (
+          <div className="manuscript-audit-summary">
+            <span className="loose-thread-chip is-dropped">Capitulos: {report.checkedChapters}</span>
+            <span className="manuscript-audit-chip is-error">Errores: {report.errorCount}</span>
+            <span className="manuscript-audit-chip is-warning">Avisos: {report.warningCount}</span>
+            {props.checkedAt && <span className="muted">Verificado: {new Date(props.checkedAt).toLocaleString()}</span>}
+          </div>
+        )}
+      </header>
+
+      <div className="loose-threads-toolbar">
+        <label>
+          Severidad
+          <select value={severityFilter} onChange={(e) => setSeverityFilter(e.target.value as ManuscriptAuditSeverity | '')}>
+            <option value="">Todas</option>
+            <option value="error">Errores</option>
+            <option value="warning">Avisos</option>
+          </select>
+        </label>
+        <label>
+          Categoria
+          <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value as ManuscriptAuditCategory | '')}>
+            <option value="">Todas</option>
+            {(Object.keys(MANUSCRIPT_AUDIT_CATEGORY_LABELS) as ManuscriptAuditCategory[]).map((category) => (
+              <option key={category} value={category}>
+                {MANUSCRIPT_AUDIT_CATEGORY_LABELS[category]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={props.onRunAudit}>
+          {report ? 'Volver a verificar' : 'Verificar manuscrito'}
+        </button>
+      </div>
+
+      <div className="manuscript-audit-groups">
+        {!report && <p className="muted">Todavia no se verifico el manuscrito.</p>}
+        {report && groups.length === 0 && (
+          <p className="muted">
+            {report.errorCount + report.warningCount === 0
+              ? 'Sin inconsistencias detectadas.'
+              : 'Sin hallazgos para estos filtros.'}
+          </p>
+        )}
+        {groups.map((group) => (
+          <section key={group.chapterId ?? 'book'} className="manuscript-audit-group">
+            <h3>
+              {group.chapterNumber !== null ? `Cap. ${group.chapterNumber} - ` : ''}
+              {group.chapterTitle}
+              <span className="muted"> ({group.findings.length})</span>
+            </h3>
+            {group.findings.map((finding) => (
+              <article key={finding.id} className={`manuscript-audit-item is-${finding.severity}`}>
+                <div className="loose-thread-head">
+                  <span className={`manuscript-audit-chip is-${finding.severity}`}>{SEVERITY_LABELS[finding.severity]}</span>
+                  <span className="loose-thread-badge is-dropped">{MANUSCRIPT_AUDIT_CATEGORY_LABELS[finding.category]}</span>
+                </div>
+                <p className="loose-thread-description">{finding.message}</p>
+                {finding.evidence && <blockquote className="manuscript-audit-evidence">{finding.evidence}</blockquote>}
+                {finding.chapterId && (
+                  <div className="loose-thread-actions">
+                    <button
+                      type="button"
+                      onClick={() => props.onOpenFinding(finding.chapterId as string, finding.focusText)}
+                      title="Abre el capitulo y selecciona el pasaje en el editor."
+                    >
+                      Ir al texto
+                    </button>
+                  </div>
+                )}
+              </article>
+            ))}
+          </section>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default ManuscriptAuditView;
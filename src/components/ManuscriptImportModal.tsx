@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import {
+  DEFAULT_MANUSCRIPT_IMPORT_OPTIONS,
+  buildManuscriptImportPreview,
+  type ManuscriptImportChapter,
+  type ManuscriptImportOptions,
+  type ManuscriptImportSource,
+} from '../lib/manuscriptImport';
+import { formatNumber } from '../lib/metrics';
+import './ManuscriptImportModal.css';
+
+interface ManuscriptImportModalProps {
+  source: ManuscriptImportSource;
+  busy: boolean;
+  onCancel: () => void;
+  onConfirm: (input: { title: string; author: string; chapters: ManuscriptImportChapter[] }) => void;
+}
+
+const FORMAT_LABELS: Record<ManuscriptImportSource['format'], string> = {
+  docx: 'Word (.docx)',
+  markdown: 'Markdown',
+  text: 'Texto plano',
+  epub: 'EPUB',
+};
+
+function ManuscriptImportModal(props: ManuscriptImportModalProps) {
+  const [options, setOptions] = useState<ManuscriptImportOptions>(DEFAULT_MANUSCRIPT_IMPORT_OPTIONS);
+  const preview = useMemo(() => buildManuscriptImportPreview(props.source, options), [options, props.source]);
+  const [title, setTitle] = useState(preview.suggestedTitle);
+  const [author, setAuthor] = useState(props.source.author?.trim() || 'Autor');
+  const usesSpine = Boolean(props.source.spineChapters);
+
+  return (
+    <div className="manuscript-import-overlay">
+      <section className="manuscript-import-panel" role="dialog" aria-modal="true" aria-label="Importar manuscrito">
+        <header className="manuscript-import-header">
+          <h2>Importar manuscrito</h2>
+          <p>
+            {props.source.fileName} | {FORMAT_LABELS[props.source.format]} | {preview.chapters.length} capitulo/s |{' '}
+            {formatNumber(preview.totalWords)} palabras
+          </p>
+          {usesSpine && (
+            <p>
+              Idioma: {props.source.language || 'sin dato'} | ISBN: {props.source.isbn || 'sin dato'} | Portada:{' '}
+              {props.source.cover ? 'se copiara a assets/' : 'no incluida'}
+            </p>
+          )}
+        </header>
+
+        <div className="manuscript-import-form">
+          <label>
+            Titulo del libro
+            <input value={title} onChange={(event) => setTitle(event.target.value)} />
+          </label>
+          <label>
+            Autor
+            <input value={author} onChange={(event) => setAuthor(event.target.value)} />
+          </label>
+          {usesSpine ? null : (
+            <label>
+              Dividir capitulos por
+              <select
+                value={options.splitMode}
+                onChange={(event) =>
+                  setOptions((previous) => ({ ...previous, splitMode: event.target.value as ManuscriptImportOptions['splitMode'] }))
+                }
+              >
+                <option value="headings">Encabezados</option>
+                <option value="separator">Separador</option>
+              </select>
+            </label>
+          )}
+          {usesSpine ? null : options.splitMode === 'headings' ? (
+            <label>
+              Nivel de encabezado
+              <select
+                value={options.headingLevel ?? ''}
+                onChange={(event) =>
+                  setOptions((previous) => ({
+                    ...previous,
+                    headingLevel: event.target.value ? Number(event.target.value) : null,
+                  }))
+                }
+              >
+                <option value="">Automatico{preview.resolvedHeadingLevel ? ` (H${preview.resolvedHeadingLevel})` : ''}</option>
+                {preview.headingLevels.map((level) => (
+                  <option key={level} value={level}>
+                    H{level}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <label>
+              Linea separadora
+              <input
+                value={options.separator}
+                onChange={(event) => setOptions((previous) => ({ ...previous, separator: event.target.value }))}
+                placeholder="Ej: * * * o Capitulo"
+              />
+            </label>
+          )}
+        </div>
+
+        {preview.warnings.length > 0 && (
+          <ul className="manuscript-import-warnings">
+            {preview.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <ol className="manuscript-import-chapters">
+          {preview.chapters.map((chapter, index) => (
+            <li key={`${index}-${chapter.title}`}>
+              <strong>{chapter.title}</strong>
+              <small>{formatNumber(chapter.wordCount)} palabras</small>
+              <p className="muted">{chapter.excerpt}</p>
+            </li>
+          ))}
+        </ol>
+
+        <footer className="manuscript-import-actions">
+          <button type="button" onClick={props.onCancel} disabled={props.busy}>
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => props.onConfirm({ title: title.trim() || preview.suggestedTitle, author: author.trim() || 'Autor', chapters: preview.chapters })}
+            disabled={props.busy || preview.chapters.length === 0}
+          >
+            {props.busy ? 'Importando...' : `Crear libro con ${preview.chapters.length} capitulo/s`}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
+
+export default ManuscriptImportModal;
@@ -0,0 +1,317 @@
+import { useState, type CSSProperties, type DragEvent } from 'react';
+
+import type { ChapterDocument, ChapterStatus } from '../types/book';
+import { getChapterWordCount } from '../lib/export';
+import { getScenePreview, resolveChapterScenes, type SceneMetaUpdate } from '../lib/scenes';
+import { stripHtml } from '../lib/text';
+
+export type CorkboardGranularity = 'chapter' | 'scene';
+
+interface OutlineCorkboardProps {
+  chapters: ChapterDocument[];
+  visibleChapterIds: Set<string>;
+  granularity: CorkboardGranularity;
+  povOptions: string[];
+  sceneBreakGlyph?: string;
+  onSelectChapter: (chapterId: string) => void;
+  onMoveToPosition: (chapterId: string, position: number) => void;
+  onUpdateChapterMeta: (chapterId: string, patch: { status?: ChapterStatus; pointOfView?: string }) => void;
+  onUpdateScenesMeta: (updates: SceneMetaUpdate[]) => void;
+  onMoveScene: (chapterId: string, sceneIndex: number, targetChapterId: string, targetIndex: number) => void;
+  onSplitChapter: (chapterId: string, sceneIndex: number) => void;
+  onMergeChapterWithNext: (chapterId: string) => void;
+}
+
+const STATUS_LABELS: Record<ChapterStatus, string> = {
+  borrador: 'Borrador',
+  en_revision: 'En revision',
+  final: 'Final',
+};
+
+const KEEP_VALUE = '__keep__';
+
+// Color estable por POV para reconocer de un vistazo de quien es cada tarjeta.
+function povColor(pov: string): string {
+  if (!pov.trim()) {
+    return 'var(--surface-border-strong)';
+  }
+  let hash = 0;
+  for (const char of pov.trim().toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  }
+  return `hsl(${hash}, 58%, 52%)`;
+}
+
+function sceneKey(chapterId: string, sceneIndex: number): string {
+  return `${chapterId}#${sceneIndex}`;
+}
+
+function parseSceneKey(key: string): { chapterId: string; sceneIndex: number } | null {
+  const separator = key.lastIndexOf('#');
+  if (separator < 0) {
+    return null;
+  }
+  const sceneIndex = Number.parseInt(key.slice(separator + 1), 10);
+  return Number.isFinite(sceneIndex) ? { chapterId: key.slice(0, separator), sceneIndex } : null;
+}
+
+function ProgressLine({ current, target }: { current: number; target: number | null | undefined }) {
+  if (!target) {
+    return <small className="muted">{current} palabras</small>;
+  }
+  const pct = Math.round((current / target) * 100);
+  return (
+    <div className="corkboard-progress" title={`${current} / ${target} palabras (${pct}%)`}>
+      <div className={`corkboard-progress-fill ${pct > 100 ? 'is-over' : ''}`} style={{ width: `${Math.min(pct, 100)}%` }} />
+      <small>
+        {current} / {target}
+      </small>
+    </div>
+  );
+}
+
+function OutlineCorkboard(props: OutlineCorkboardProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [bulkStatus, setBulkStatus] = useState<string>(KEEP_VALUE);
+  const [bulkPov, setBulkPov] = useState<string>(KEEP_VALUE);
+
+  const isSceneMode = props.granularity === 'scene';
+  const visibleChapters = props.chapters.filter((chapter) => props.visibleChapterIds.has(chapter.id));
+  // La seleccion se conserva por modo: claves de capitulo o de escena.
+  const activeSelection = Array.from(selected).filter((key) => (parseSceneKey(key) !== null) === isSceneMode);
+
+  const toggleSelected = (key: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const resetDrag = () => {
+    setDragKey(null);
+    setDropKey(null);
+  };
+
+  const startDrag = (event: DragEvent<HTMLElement>, key: string) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', key);
+    setDragKey(key);
+  };
+
+  const allowDrop = (event: DragEvent<HTMLElement>, key: string) => {
+    if (!dragKey) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    if (dropKey !== key) {
+      setDropKey(key);
+    }
+  };
+
+  const dropOnChapter = (event: DragEvent<HTMLElement>, chapterId: string) => {
+    event.preventDefault();
+    const absoluteIndex = props.chapters.findIndex((chapter) => chapter.id === chapterId);
+    if (dragKey && dragKey !== chapterId && absoluteIndex >= 0) {
+      props.onMoveToPosition(dragKey, absoluteIndex + 1);
+    }
+    resetDrag();
+  };
+
+  const dropOnScene = (event: DragEvent<HTMLElement>, chapterId: string, sceneIndex: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const source = dragKey ? parseSceneKey(dragKey) : null;
+    if (source && !(source.chapterId === chapterId && source.sceneIndex === sceneIndex)) {
+      props.onMoveScene(source.chapterId, source.sceneIndex, chapterId, sceneIndex);
+    }
+    resetDrag();
+  };
+
+  const applyBulk = () => {
+    const patch: { status?: ChapterStatus; pointOfView?: string } = {};
+    if (bulkStatus !== KEEP_VALUE) {
+      patch.status = bulkStatus as ChapterStatus;
+    }
+    if (bulkPov !== KEEP_VALUE) {
+      patch.pointOfView = bulkPov;
+    }
+    if (Object.keys(patch).length === 0) {
+      return;
+    }
+
+    if (isSceneMode) {
+      props.onUpdateScenesMeta(
+        activeSelection.flatMap((key) => {
+          const parsed = parseSceneKey(key);
+          return parsed ? [{ ...parsed, patch }] : [];
+        }),
+      );
+    } else {
+      for (const chapterId of activeSelection) {
+        props.onUpdateChapterMeta(chapterId, patch);
+      }
+    }
+    setSelected(new Set());
+    setBulkStatus(KEEP_VALUE);
+    setBulkPov(KEEP_VALUE);
+  };
+
+  return (
+    <div className="corkboard">
+      <div className={`corkboard-bulk ${activeSelection.length > 0 ? 'is-active' : ''}`}>
+        <span>
+          {activeSelection.length > 0
+            ? `${activeSelection.length} ${isSceneMode ? 'escena/s' : 'capitulo/s'} seleccionada/s`
+            : 'Marca tarjetas para cambiar estado o POV en bloque. Arrastra para reordenar.'}
+        </span>
+        {activeSelection.length > 0 && (
+          <>
+            <label>
+              Estado
+              <select value={bulkStatus} onChange={(event) => setBulkStatus(event.target.value)}>
+                <option value={KEEP_VALUE}>Sin cambios</option>
+                <option value="borrador">Borrador</option>
+                <option value="en_revision">En revision</option>
+                <option value="final">Final</option>
+              </select>
+            </label>
+            <label>
+              POV
+              <select value={bulkPov} onChange={(event) => setBulkPov(event.target.value)}>
+                <option value={KEEP_VALUE}>Sin cambios</option>
+                <option value="">{isSceneMode ? 'Igual que el capitulo' : '— Sin POV —'}</option>
+                {props.povOptions.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+            <button type="button" onClick={applyBulk} disabled={bulkStatus === KEEP_VALUE && bulkPov === KEEP_VALUE}>
+              Aplicar
+            </button>
+            <button type="button" onClick={() => setSelected(new Set())}>
+              Limpiar seleccion
+            </button>
+          </>
+        )}
+      </div>
+
+      {!isSceneMode ? (
+        <div className="corkboard-grid">
+          {visibleChapters.map((chapter) => {
+            const absoluteIndex = props.chapters.findIndex((entry) => entry.id === chapter.id);
+            const status: ChapterStatus = chapter.status ?? 'borrador';
+            const pov = chapter.pointOfView?.trim() ?? '';
+            const summary = chapter.synopsis?.trim() || stripHtml(chapter.content).slice(0, 180) || 'Sin contenido aun';
+            return (
+              <article
+                key={chapter.id}
+                className={`corkboard-card status-${status}${selected.has(chapter.id) ? ' is-selected' : ''}${dropKey === chapter.id ? ' is-drop-target' : ''}${dragKey === chapter.id ? ' is-dragging' : ''}`}
+                style={{ '--corkboard-pov-color': povColor(pov) } as CSSProperties}
+                draggable
+                onDragStart={(event) => startDrag(event, chapter.id)}
+                onDragOver={(event) => allowDrop(event, chapter.id)}
+                onDrop={(event) => dropOnChapter(event, chapter.id)}
+                onDragEnd={resetDrag}
+              >
+                <header>
+                  <label>
+                    <input type="checkbox" checked={selected.has(chapter.id)} onChange={() => toggleSelected(chapter.id)} />
+                    {absoluteIndex + 1}.
+                  </label>
+                  <span className={`outline-status-badge is-${status}`}>{STATUS_LABELS[status]}</span>
+                </header>
+                <h3>{chapter.title}</h3>
+                <p className="corkboard-synopsis">{summary}</p>
+                <span className="corkboard-pov">{pov || 'Sin POV'}</span>
+                <ProgressLine current={getChapterWordCount(chapter)} target={chapter.wordTarget} />
+                <div className="corkboard-actions">
+                  <button type="button" onClick={() => props.onSelectChapter(chapter.id)}>
+                    Abrir
+                  </button>
+                  <button
+                    type="button"
+                    disabled={absoluteIndex >= props.chapters.length - 1}
+                    onClick={() => props.onMergeChapterWithNext(chapter.id)}
+                    title="Agrega el capitulo siguiente al final de este como nueva escena."
+                  >
+                    Unir con siguiente
+                  </button>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="corkboard-columns">
+          {visibleChapters.map((chapter) => {
+            const scenes = resolveChapterScenes(chapter, props.sceneBreakGlyph);
+            const columnKey = `column:${chapter.id}`;
+            return (
+              <section
+                key={chapter.id}
+                className={`corkboard-column${dropKey === columnKey ? ' is-drop-target' : ''}`}
+                onDragOver={(event) => allowDrop(event, columnKey)}
+                onDrop={(event) => {
+                  // Dentro del mismo capitulo la ultima posicion valida es la de la ultima escena.
+                  const source = dragKey ? parseSceneKey(dragKey) : null;
+                  dropOnScene(event, chapter.id, source?.chapterId === chapter.id ? scenes.length - 1 : scenes.length);
+                }}
+              >
+                <h3>{chapter.title}</h3>
+                {scenes.map((segment) => {
+                  const key = sceneKey(chapter.id, segment.index);
+                  return (
+                    <article
+                      key={key}
+                      className={`corkboard-card corkboard-card--scene status-${segment.status}${selected.has(key) ? ' is-selected' : ''}${dropKey === key ? ' is-drop-target' : ''}${dragKey === key ? ' is-dragging' : ''}`}
+                      style={{ '--corkboard-pov-color': povColor(segment.pointOfView) } as CSSProperties}
+                      draggable
+                      onDragStart={(event) => startDrag(event, key)}
+                      onDragOver={(event) => allowDrop(event, key)}
+                      onDrop={(event) => dropOnScene(event, chapter.id, segment.index)}
+                      onDragEnd={resetDrag}
+                    >
+                      <header>
+                        <label>
+                          <input type="checkbox" checked={selected.has(key)} onChange={() => toggleSelected(key)} />
+                          Escena {segment.index + 1}
+                        </label>
+                        <span className={`outline-status-badge is-${segment.status}`}>{STATUS_LABELS[segment.status]}</span>
+                      </header>
+                      <p className="corkboard-synopsis">{segment.scene.synopsis?.trim() || getScenePreview(segment) || 'Escena vacia'}</p>
+                      <span className="corkboard-pov">{segment.pointOfView || 'Sin POV'}</span>
+                      <small className="muted">
+                        {segment.wordCount} palabras{segment.scene.location ? ` · ${segment.scene.location}` : ''}
+                      </small>
+                      {segment.index > 0 && (
+                        <div className="corkboard-actions">
+                          <button
+                            type="button"
+                            onClick={() => props.onSplitChapter(chapter.id, segment.index)}
+                            title="Crea un capitulo nuevo, justo despues, desde esta escena hasta el final."
+                          >
+                            Dividir aqui
+                          </button>
+                        </div>
+                      )}
+                    </article>
+                  );
+                })}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OutlineCorkboard;
@@ -1,8 +1,12 @@
 import { useMemo, useState } from 'react';
 
-import type { ChapterDocument, ChapterStatus, StoryCharacter } from '../types/book';
+import type { ChapterDocument, ChapterStatus, SagaTimelineEvent, StoryCharacter, StoryLocation } from '../types/book';
+import { hasAiOriginMarks, measureAiOriginShare } from '../lib/aiProvenanceMarks';
 import { getChapterWordCount } from '../lib/export';
+import { getScenePreview, resolveChapterScenes, type SceneMetaUpdate } from '../lib/scenes';
 import { stripHtml } from '../lib/text';
+import type { WritingSprintChapterTotals } from '../lib/writingSessions';
+import OutlineCorkboard, { type CorkboardGranularity } from './OutlineCorkboard';
 
 interface OutlineViewProps {
   chapters: ChapterDocument[];
@@ -11,7 +15,26 @@ interface OutlineViewProps {
   onMoveChapter: (chapterId: string, direction: 'up' | 'down') => void;
   onMoveToPosition: (chapterId: string, position: number) => void;
   onUpdateChapterPov: (chapterId: string, pointOfView: string) => void;
-  onUpdateChapterMeta: (chapterId: string, patch: { synopsis?: string; status?: ChapterStatus; wordTarget?: number | null }) => void;
+  onUpdateChapterMeta: (chapterId: string, patch: { synopsis?: string; status?: ChapterStatus; wordTarget?: number | null; pointOfView?: string }) => void;
+  sceneBreakGlyph?: string;
+  storyBibleLocations?: StoryLocation[];
+  timelineEvents?: SagaTimelineEvent[];
+  onUpdateScenesMeta?: (updates: SceneMetaUpdate[]) => void;
+  onMoveScene?: (chapterId: string, sceneIndex: number, targetChapterId: string, targetIndex: number) => void;
+  onSplitChapter?: (chapterId: string, sceneIndex: number) => void;
+  onMergeChapterWithNext?: (chapterId: string) => void;
+  sprintTotals?: Record<string, WritingSprintChapterTotals>;
+}
+
+interface OutlineSceneListProps {
+  chapter: ChapterDocument;
+  chapters: ChapterDocument[];
+  povOptions: string[];
+  sceneBreakGlyph?: string;
+  locations: StoryLocation[];
+  timelineEvents: SagaTimelineEvent[];
+  onUpdateScenesMeta: (updates: SceneMetaUpdate[]) => void;
+  onMoveScene: (chapterId: string, sceneIndex: number, targetChapterId: string, targetIndex: number) => void;
 }
 
 const STATUS_LABELS: Record<ChapterStatus, string> = {
@@ -46,6 +69,141 @@ function WordTargetBar({ current, target }: { current: number; target: number })
   );
 }
 
+function OutlineSceneList(props: OutlineSceneListProps) {
+  const [synopsisOverrides, setSynopsisOverrides] = useState<Record<string, string>>({});
+  const [locationOverrides, setLocationOverrides] = useState<Record<string, string>>({});
+  const scenes = resolveChapterScenes(props.chapter, props.sceneBreakGlyph);
+  const chapterId = props.chapter.id;
+  const locationListId = `outline-scene-locations-${chapterId}`;
+
+  return (
+    <details className="outline-scenes">
+      <summary>Escenas ({scenes.length})</summary>
+      <datalist id={locationListId}>
+        {props.locations.map((location) => (
+          <option key={location.id} value={location.name} />
+        ))}
+      </datalist>
+      <ol className="outline-scene-list">
+        {scenes.map((segment) => {
+          const key = segment.scene.id;
+          return (
+            <li key={key} className={`outline-scene status-${segment.status}`}>
+              <div className="outline-scene-head">
+                <strong>Escena {segment.index + 1}</strong>
+                <span className="muted">{segment.wordCount} palabras</span>
+                <span className="muted outline-scene-preview">{getScenePreview(segment) || 'Escena vacia'}</span>
+              </div>
+              <div className="outline-meta-controls">
+                <label>
+                  POV
+                  <select
+                    value={segment.scene.pointOfView ?? ''}
+                    onChange={(event) => props.onUpdateScenesMeta([{ chapterId, sceneIndex: segment.index, patch: { pointOfView: event.target.value } }])}
+                  >
+                    <option value="">Igual que el capitulo{props.chapter.pointOfView ? ` (${props.chapter.pointOfView})` : ''}</option>
+                    {props.povOptions.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Lugar
+                  <input
+                    list={locationListId}
+                    value={locationOverrides[key] ?? (segment.scene.location ?? '')}
+                    onChange={(event) => setLocationOverrides((prev) => ({ ...prev, [key]: event.currentTarget.value }))}
+                    onBlur={(event) => {
+                      props.onUpdateScenesMeta([{ chapterId, sceneIndex: segment.index, patch: { location: event.currentTarget.value.trim() } }]);
+                      setLocationOverrides((prev) => { const next = { ...prev }; delete next[key]; return next; });
+                    }}
+                  />
+                </label>
+                <label>
+                  Momento
+                  <select
+                    value={segment.scene.timelineEventId ?? ''}
+                    onChange={(event) => props.onUpdateScenesMeta([{ chapterId, sceneIndex: segment.index, patch: { timelineEventId: event.target.value || null } }])}
+                  >
+                    <option value="">— Sin evento —</option>
+                    {props.timelineEvents.map((event) => (
+                      <option key={event.id} value={event.id}>
+                        {event.displayLabel || `T${event.startOrder}`} · {event.title}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Estado
+                  <select
+                    value={segment.status}
+                    onChange={(event) => props.onUpdateScenesMeta([{ chapterId, sceneIndex: segment.index, patch: { status: event.target.value as ChapterStatus } }])}
+                  >
+                    <option value="borrador">Borrador</option>
+                    <option value="en_revision">En revision</option>
+                    <option value="final">Final</option>
+                  </select>
+                </label>
+              </div>
+              <label className="outline-synopsis-label">
+                Sinopsis de la escena
+                <textarea
+                  rows={2}
+                  className="outline-synopsis"
+                  value={synopsisOverrides[key] ?? (segment.scene.synopsis ?? '')}
+                  onChange={(event) => setSynopsisOverrides((prev) => ({ ...prev, [key]: event.currentTarget.value }))}
+                  onBlur={(event) => {
+                    props.onUpdateScenesMeta([{ chapterId, sceneIndex: segment.index, patch: { synopsis: event.currentTarget.value } }]);
+                    setSynopsisOverrides((prev) => { const next = { ...prev }; delete next[key]; return next; });
+                  }}
+                />
+              </label>
+              <div className="outline-order-controls">
+                <button
+                  type="button"
+                  disabled={segment.index === 0}
+                  onClick={() => props.onMoveScene(chapterId, segment.index, chapterId, segment.index - 1)}
+                >
+                  Subir
+                </button>
+                <button
+                  type="button"
+                  disabled={segment.index >= scenes.length - 1}
+                  onClick={() => props.onMoveScene(chapterId, segment.index, chapterId, segment.index + 1)}
+                >
+                  Bajar
+                </button>
+                <label>
+                  Mover a capitulo
+                  <select
+                    value=""
+                    disabled={scenes.length <= 1}
+                    title={scenes.length <= 1 ? 'Un capitulo con una sola escena se mueve completo.' : 'Se agrega al final del capitulo elegido.'}
+                    onChange={(event) => {
+                      const targetId = event.target.value;
+                      const target = props.chapters.find((entry) => entry.id === targetId);
+                      if (target) {
+                        props.onMoveScene(chapterId, segment.index, targetId, resolveChapterScenes(target, props.sceneBreakGlyph).length);
+                      }
+                    }}
+                  >
+                    <option value="">Elegir...</option>
+                    {props.chapters
+                      .filter((entry) => entry.id !== chapterId)
+                      .map((entry) => (
+                        <option key={entry.id} value={entry.id}>{entry.title}</option>
+                      ))}
+                  </select>
+                </label>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
+
 function OutlineView(props: OutlineViewProps) {
   const [povFilter, setPovFilter] = useState('');
   const [statusFilter, setStatusFilter] = useState<ChapterStatus | typeof STATUS_ALL>(STATUS_ALL);
@@ -53,6 +211,8 @@ function OutlineView(props: OutlineViewProps) {
   const [povOverrides, setPovOverrides] = useState<Record<string, string>>({});
   const [synopsisOverrides, setSynopsisOverrides] = useState<Record<string, string>>({});
   const [wordTargetOverrides, setWordTargetOverrides] = useState<Record<string, string>>({});
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [boardGranularity, setBoardGranularity] = useState<CorkboardGranularity>('chapter');
 
   // Opciones de POV: personajes de la StoryBible + valores libres ya usados en capítulos
   const povOptions = useMemo(() => {
@@ -64,12 +224,14 @@ function OutlineView(props: OutlineViewProps) {
       const key = normalizePovKey(name);
       if (!seen.has(key)) seen.set(key, name);
     }
-    // Luego los valores libres ya usados en capítulos (para no perder datos existentes)
+    // Luego los valores libres ya usados en capítulos y escenas (para no perder datos existentes)
     for (const chapter of props.chapters) {
-      const raw = normalizePov(chapter.pointOfView);
-      if (!raw) continue;
-      const key = normalizePovKey(raw);
-      if (!seen.has(key)) seen.set(key, raw);
+      for (const value of [chapter.pointOfView, ...(chapter.scenes ?? []).map((scene) => scene.pointOfView)]) {
+        const raw = normalizePov(value);
+        if (!raw) continue;
+        const key = normalizePovKey(raw);
+        if (!seen.has(key)) seen.set(key, raw);
+      }
     }
     return Array.from(seen.values()).sort((left, right) => left.localeCompare(right));
   }, [props.chapters, props.storyBibleCharacters]);
@@ -78,11 +240,31 @@ function OutlineView(props: OutlineViewProps) {
     return props.chapters.filter((chapter) => {
       if (statusFilter && (chapter.status ?? 'borrador') !== statusFilter) return false;
       const normalizedFilter = normalizePovKey(povFilter);
-      if (normalizedFilter && normalizePovKey(chapter.pointOfView) !== normalizedFilter) return false;
+      // Un capitulo coincide si su POV o el de alguna de sus escenas es el filtrado.
+      if (
+        normalizedFilter &&
+        normalizePovKey(chapter.pointOfView) !== normalizedFilter &&
+        !(chapter.scenes ?? []).some((scene) => normalizePovKey(scene.pointOfView) === normalizedFilter)
+      ) {
+        return false;
+      }
       return true;
     });
   }, [povFilter, statusFilter, props.chapters]);
 
+  const aiOriginPercentByChapter = useMemo(() => {
+    const percents = new Map<string, number>();
+    for (const chapter of props.chapters) {
+      if (hasAiOriginMarks(chapter.content)) {
+        percents.set(chapter.id, measureAiOriginShare(chapter.content).percent);
+      }
+    }
+    return percents;
+  }, [props.chapters]);
+
+  const visibleChapterIds = useMemo(() => new Set(filteredChapters.map((chapter) => chapter.id)), [filteredChapters]);
+  const canUseBoard = Boolean(props.onUpdateScenesMeta && props.onMoveScene && props.onSplitChapter && props.onMergeChapterWithNext);
+
   // Contadores por estado para la toolbar
   const statusCounts = useMemo(() => {
     const counts: Record<ChapterStatus, number> = { borrador: 0, en_revision: 0, final: 0 };
@@ -121,121 +303,182 @@ function OutlineView(props: OutlineViewProps) {
             <option value="final">Final</option>
           </select>
         </label>
+        {canUseBoard && (
+          <div className="outline-view-toggle">
+            <button type="button" className={viewMode === 'list' ? 'is-active' : ''} onClick={() => setViewMode('list')}>
+              Lista
+            </button>
+            <button type="button" className={viewMode === 'board' ? 'is-active' : ''} onClick={() => setViewMode('board')}>
+              Tarjetas
+            </button>
+          </div>
+        )}
+        {canUseBoard && viewMode === 'board' && (
+          <label>
+            Tarjetas por
+            <select value={boardGranularity} onChange={(event) => setBoardGranularity(event.target.value as CorkboardGranularity)}>
+              <option value="chapter">Capitulo</option>
+              <option value="scene">Escena</option>
+            </select>
+          </label>
+        )}
       </div>
 
-      <div className="outline-list">
-        {filteredChapters.map((chapter) => {
-          const absoluteIndex = props.chapters.findIndex((entry) => entry.id === chapter.id);
-          const indexLabel = absoluteIndex >= 0 ? absoluteIndex + 1 : 0;
-          const wordCount = getChapterWordCount(chapter);
-          const target = chapter.wordTarget ?? null;
-          const chapterStatus: ChapterStatus = chapter.status ?? 'borrador';
-          return (
-            <article key={chapter.id} className={`outline-item status-${chapterStatus}`}>
-              <div className="outline-head">
-                <h3>{indexLabel}. {chapter.title}</h3>
-                <div className="outline-head-meta">
-                  <span className={`outline-status-badge is-${chapterStatus}`}>{STATUS_LABELS[chapterStatus]}</span>
-                  <span>{wordCount} palabras</span>
+      {canUseBoard && viewMode === 'board' && props.onUpdateScenesMeta && props.onMoveScene && props.onSplitChapter && props.onMergeChapterWithNext ? (
+        <OutlineCorkboard
+          chapters={props.chapters}
+          visibleChapterIds={visibleChapterIds}
+          granularity={boardGranularity}
+          povOptions={povOptions}
+          sceneBreakGlyph={props.sceneBreakGlyph}
+          onSelectChapter={props.onSelectChapter}
+          onMoveToPosition={props.onMoveToPosition}
+          onUpdateChapterMeta={props.onUpdateChapterMeta}
+          onUpdateScenesMeta={props.onUpdateScenesMeta}
+          onMoveScene={props.onMoveScene}
+          onSplitChapter={props.onSplitChapter}
+          onMergeChapterWithNext={props.onMergeChapterWithNext}
+        />
+      ) : (
+        <div className="outline-list">
+          {filteredChapters.map((chapter) => {
+            const absoluteIndex = props.chapters.findIndex((entry) => entry.id === chapter.id);
+            const indexLabel = absoluteIndex >= 0 ? absoluteIndex + 1 : 0;
+            const wordCount = getChapterWordCount(chapter);
+            const target = chapter.wordTarget ?? null;
+            const chapterStatus: ChapterStatus = chapter.status ?? 'borrador';
+            const sprintTotals = props.sprintTotals?.[chapter.id];
+            const aiOriginPercent = aiOriginPercentByChapter.get(chapter.id) ?? 0;
+            return (
+              <article key={chapter.id} className={`outline-item status-${chapterStatus}`}>
+                <div className="outline-head">
+                  <h3>{indexLabel}. {chapter.title}</h3>
+                  <div className="outline-head-meta">
+                    <span className={`outline-status-badge is-${chapterStatus}`}>{STATUS_LABELS[chapterStatus]}</span>
+                    <span>{wordCount} palabras</span>
+                    {aiOriginPercent > 0 && (
+                      <span className="outline-ai-origin" title="Porcentaje del texto que agrego la IA y nadie reescribio todavia.">
+                        {aiOriginPercent}% IA
+                      </span>
+                    )}
+                    {sprintTotals && (
+                      <span title={`${Math.round(sprintTotals.seconds / 60)} min en sprints`}>
+                        Sprints: {sprintTotals.sprints} ({sprintTotals.words >= 0 ? '+' : ''}{sprintTotals.words})
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {target !== null && <WordTargetBar current={wordCount} target={target} />}
+                {target !== null && <WordTargetBar current={wordCount} target={target} />}
 
-              {/* Sinopsis */}
-              <label className="outline-synopsis-label">
-                Sinopsis / plan
-                <textarea
-                  rows={2}
-                  className="outline-synopsis"
-                  placeholder="¿Qué pasa en este capítulo? (plan separado del contenido)"
-                  value={synopsisOverrides[chapter.id] ?? (chapter.synopsis ?? '')}
-                  onChange={(event) => setSynopsisOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
-                  onBlur={(event) => {
-                    props.onUpdateChapterMeta(chapter.id, { synopsis: event.currentTarget.value });
-                    setSynopsisOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
-                  }}
-                />
-              </label>
-
-              {/* Preview de contenido real */}
-              <p className="outline-content-preview muted">{stripHtml(chapter.content).slice(0, 200) || 'Sin contenido aun'}</p>
-
-              <div className="outline-order-controls">
-                <button type="button" onClick={() => props.onMoveChapter(chapter.id, 'up')} disabled={absoluteIndex <= 0} title="Subir capitulo">Subir</button>
-                <label>
-                  Posicion
-                  <input
-                    type="number" min={1} max={props.chapters.length}
-                    value={positionOverrides[chapter.id] ?? String(indexLabel)}
-                    onChange={(event) => setPositionOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
+                {/* Sinopsis */}
+                <label className="outline-synopsis-label">
+                  Sinopsis / plan
+                  <textarea
+                    rows={2}
+                    className="outline-synopsis"
+                    placeholder="¿Qué pasa en este capítulo? (plan separado del contenido)"
+                    value={synopsisOverrides[chapter.id] ?? (chapter.synopsis ?? '')}
+                    onChange={(event) => setSynopsisOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
                     onBlur={(event) => {
-                      const nextPosition = Number.parseInt(event.currentTarget.value || '', 10);
-                      if (Number.isFinite(nextPosition)) props.onMoveToPosition(chapter.id, nextPosition);
-                      setPositionOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
+                      props.onUpdateChapterMeta(chapter.id, { synopsis: event.currentTarget.value });
+                      setSynopsisOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
                     }}
                   />
                 </label>
-                <button type="button" onClick={() => props.onMoveChapter(chapter.id, 'down')} disabled={absoluteIndex >= props.chapters.length - 1} title="Bajar capitulo">Bajar</button>
-              </div>
 
-              <div className="outline-meta-controls">
-                <label>
-                  POV
-                  <select
-                    value={povOverrides[chapter.id] ?? normalizePov(chapter.pointOfView)}
-                    onChange={(event) => {
-                      const val = event.target.value;
-                      setPovOverrides((prev) => ({ ...prev, [chapter.id]: val }));
-                      props.onUpdateChapterPov(chapter.id, val);
-                    }}
-                  >
-                    <option value="">— Sin POV —</option>
-                    {povOptions.map((opt) => (
-                      <option key={opt} value={opt}>{opt}</option>
-                    ))}
-                    {/* Si el valor actual no está en la lista, mostrarlo igual */}
-                    {(() => {
-                      const current = normalizePov(chapter.pointOfView);
-                      if (current && !povOptions.some((o) => normalizePovKey(o) === normalizePovKey(current))) {
-                        return <option value={current}>{current}</option>;
-                      }
-                      return null;
-                    })()}
-                  </select>
-                </label>
-                <label>
-                  Estado
-                  <select
-                    value={chapterStatus}
-                    onChange={(event) => props.onUpdateChapterMeta(chapter.id, { status: event.target.value as ChapterStatus })}
-                  >
-                    <option value="borrador">Borrador</option>
-                    <option value="en_revision">En revision</option>
-                    <option value="final">Final</option>
-                  </select>
-                </label>
-                <label>
-                  Objetivo (palabras)
-                  <input
-                    type="number" min={0} placeholder="Ej: 3000"
-                    value={wordTargetOverrides[chapter.id] ?? (chapter.wordTarget != null ? String(chapter.wordTarget) : '')}
-                    onChange={(event) => setWordTargetOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
-                    onBlur={(event) => {
-                      const val = event.currentTarget.value.trim();
-                      const parsed = val === '' ? null : Number.parseInt(val, 10);
-                      props.onUpdateChapterMeta(chapter.id, { wordTarget: Number.isFinite(parsed ?? NaN) ? parsed : null });
-                      setWordTargetOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
-                    }}
+                {/* Preview de contenido real */}
+                <p className="outline-content-preview muted">{stripHtml(chapter.content).slice(0, 200) || 'Sin contenido aun'}</p>
+
+                <div className="outline-order-controls">
+                  <button type="button" onClick={() => props.onMoveChapter(chapter.id, 'up')} disabled={absoluteIndex <= 0} title="Subir capitulo">Subir</button>
+                  <label>
+                    Posicion
+                    <input
+                      type="number" min={1} max={props.chapters.length}
+                      value={positionOverrides[chapter.id] ?? String(indexLabel)}
+                      onChange={(event) => setPositionOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
+                      onBlur={(event) => {
+                        const nextPosition = Number.parseInt(event.currentTarget.value || '', 10);
+                        if (Number.isFinite(nextPosition)) props.onMoveToPosition(chapter.id, nextPosition);
+                        setPositionOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
+                      }}
+                    />
+                  </label>
+                  <button type="button" onClick={() => props.onMoveChapter(chapter.id, 'down')} disabled={absoluteIndex >= props.chapters.length - 1} title="Bajar capitulo">Bajar</button>
+                </div>
+
+                <div className="outline-meta-controls">
+                  <label>
+                    POV
+                    <select
+                      value={povOverrides[chapter.id] ?? normalizePov(chapter.pointOfView)}
+                      onChange={(event) => {
+                        const val = event.target.value;
+                        setPovOverrides((prev) => ({ ...prev, [chapter.id]: val }));
+                        props.onUpdateChapterPov(chapter.id, val);
+                      }}
+                    >
+                      <option value="">— Sin POV —</option>
+                      {povOptions.map((opt) => (
+                        <option key={opt} value={opt}>{opt}</option>
+                      ))}
+                      {/* Si el valor actual no está en la lista, mostrarlo igual */}
+                      {(() => {
+                        const current = normalizePov(chapter.pointOfView);
+                        if (current && !povOptions.some((o) => normalizePovKey(o) === normalizePovKey(current))) {
+                          return <option value={current}>{current}</option>;
+                        }
+                        return null;
+                      })()}
+                    </select>
+                  </label>
+                  <label>
+                    Estado
+                    <select
+                      value={chapterStatus}
+                      onChange={(event) => props.onUpdateChapterMeta(chapter.id, { status: event.target.value as ChapterStatus })}
+                    >
+                      <option value="borrador">Borrador</option>
+                      <option value="en_revision">En revision</option>
+                      <option value="final">Final</option>
+                    </select>
+                  </label>
+                  <label>
+                    Objetivo (palabras)
+                    <input
+                      type="number" min={0} placeholder="Ej: 3000"
+                      value={wordTargetOverrides[chapter.id] ?? (chapter.wordTarget != null ? String(chapter.wordTarget) : '')}
+                      onChange={(event) => setWordTargetOverrides((prev) => ({ ...prev, [chapter.id]: event.currentTarget.value }))}
+                      onBlur={(event) => {
+                        const val = event.currentTarget.value.trim();
+                        const parsed = val === '' ? null : Number.parseInt(val, 10);
+                        props.onUpdateChapterMeta(chapter.id, { wordTarget: Number.isFinite(parsed ?? NaN) ? parsed : null });
+                        setWordTargetOverrides((prev) => { const next = { ...prev }; delete next[chapter.id]; return next; });
+                      }}
+                    />
+                  </label>
+                </div>
+
+                {props.onUpdateScenesMeta && props.onMoveScene && (
+                  <OutlineSceneList
+                    chapter={chapter}
+                    chapters={props.chapters}
+                    povOptions={povOptions}
+                    sceneBreakGlyph={props.sceneBreakGlyph}
+                    locations={props.storyBibleLocations ?? []}
+                    timelineEvents={props.timelineEvents ?? []}
+                    onUpdateScenesMeta={props.onUpdateScenesMeta}
+                    onMoveScene={props.onMoveScene}
                   />
-                </label>
-              </div>
+                )}
 
-              <button type="button" onClick={() => props.onSelectChapter(chapter.id)}>Ir al editor</button>
-            </article>
-          );
-        })}
-      </div>
+                <button type="button" onClick={() => props.onSelectChapter(chapter.id)}>Ir al editor</button>
+              </article>
+            );
+          })}
+        </div>
+      )}
     </section>
   );
 }
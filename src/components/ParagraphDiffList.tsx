@@ -0,0 +1,75 @@
+import type { ParagraphDiffEntry, ParagraphDiffKind } from '../lib/diff';
+
+interface ParagraphDiffListProps {
+  entries: ParagraphDiffEntry[];
+  blockClassName: string;
+  acceptedHunkIds?: ReadonlySet<number>;
+  onToggleHunk?: (hunkId: number) => void;
+  disabled?: boolean;
+}
+
+const KIND_HEADERS: Record<ParagraphDiffKind, string> = {
+  equal: '=',
+  insert: '+ Agregado',
+  delete: '- Eliminado',
+  modify: '~ Reescrito',
+  'move-from': '<< Movido desde aqui',
+  'move-to': '>> Movido aqui',
+};
+
+function kindClassName(kind: ParagraphDiffKind): string {
+  return kind === 'move-from' || kind === 'move-to' ? 'diff-move' : `diff-${kind}`;
+}
+
+function ParagraphDiffList(props: ParagraphDiffListProps) {
+  return (
+    <>
+      {props.entries.map((entry, index) => {
+        const isRejected =
+          entry.hunkId !== null && props.acceptedHunkIds !== undefined && !props.acceptedHunkIds.has(entry.hunkId);
+        return (
+          <article
+            key={`${entry.kind}-${index}`}
+            className={`${props.blockClassName} ${kindClassName(entry.kind)}${isRejected ? ' is-rejected' : ''}`}
+          >
+            <header>
+              {KIND_HEADERS[entry.kind]}
+              {entry.hunkId !== null && props.onToggleHunk ? (
+                <label className="diff-hunk-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!isRejected}
+                    disabled={props.disabled}
+                    onChange={() => props.onToggleHunk?.(entry.hunkId as number)}
+                  />
+                  Aceptar
+                </label>
+              ) : null}
+            </header>
+            {entry.kind === 'modify' ? (
+              <p>
+                {entry.inline.map((operation, operationIndex) =>
+                  operation.type === 'insert' ? (
+                    <ins key={operationIndex} className="diff-inline-insert">
+                      {operation.value}
+                    </ins>
+                  ) : operation.type === 'delete' ? (
+                    <del key={operationIndex} className="diff-inline-delete">
+                      {operation.value}
+                    </del>
+                  ) : (
+                    <span key={operationIndex}>{operation.value}</span>
+                  ),
+                )}
+              </p>
+            ) : (
+              <p>{entry.after || entry.before || ' '}</p>
+            )}
+          </article>
+        );
+      })}
+    </>
+  );
+}
+
+export default ParagraphDiffList;
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 
-import { buildPlotBoardModel } from '../lib/plotBoard';
+import { buildPlotBoardModel, type PlotStepChapterLink } from '../lib/plotBoard';
 import type { SagaProject, SagaTimelineEvent, SagaTimelineEventCategory, SagaTimelineEventKind } from '../types/book';
 
 interface PlotBoardViewProps {
@@ -10,6 +10,17 @@ interface PlotBoardViewProps {
   onUpsertEvent: (event: SagaTimelineEvent) => void;
   onDeleteEvent: (eventId: string) => void;
   onPromoteEventToChapter?: (eventId: string) => void;
+  chapterCoverage?: Record<string, PlotStepChapterLink[]>;
+  onGenerateChapters?: (eventIds: string[], povCharacterId: string) => void;
+  onOpenChapter?: (chapterId: string) => void;
+}
+
+function describeChapterLink(link: PlotStepChapterLink, saga: SagaProject): string {
+  if (!link.inOpenBook) {
+    const linkedBook = saga.metadata.books.find((entry) => entry.bookPath === link.bookPath);
+    return `${linkedBook?.title || 'Otro libro'} | ${link.chapterId}`;
+  }
+  return link.source === 'scene' ? `escena en ${link.title}` : link.title;
 }
 
 function makePlotEmptyEvent(): SagaTimelineEvent {
@@ -90,6 +101,7 @@ function PlotBoardView(props: PlotBoardViewProps) {
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [editingEvent, setEditingEvent] = useState<SagaTimelineEvent | null>(null);
   const [isCreatingEvent, setIsCreatingEvent] = useState(false);
+  const [checkedEventIds, setCheckedEventIds] = useState<string[]>([]);
 
   const saga = props.saga;
   const plotModel = saga
@@ -122,6 +134,15 @@ function PlotBoardView(props: PlotBoardViewProps) {
     );
   }
 
+  const coverage = props.chapterCoverage;
+  const visibleCheckedIds = checkedEventIds.filter((eventId) => plotModel.steps.some((step) => step.eventId === eventId));
+  const uncoveredCount = coverage ? plotModel.steps.filter((step) => !coverage[step.eventId]?.length).length : 0;
+  const toggleChecked = (eventIds: string[], checked: boolean) => {
+    setCheckedEventIds((previous) =>
+      checked ? Array.from(new Set([...previous, ...eventIds])) : previous.filter((eventId) => !eventIds.includes(eventId)),
+    );
+  };
+
   const selectedEvent =
     saga.metadata.worldBible.timeline.find(
       (entry) => entry.id === (plotModel.steps.some((step) => step.eventId === selectedEventId) ? selectedEventId : plotModel.steps[0]?.eventId ?? null),
@@ -132,6 +153,13 @@ function PlotBoardView(props: PlotBoardViewProps) {
       <header>
         <h2>Plot Board</h2>
         <p>Lee el canon como arco narrativo: apertura, escalada, giros, climax y consecuencias.</p>
+        {coverage && plotModel.steps.length > 0 ? (
+          <p className={uncoveredCount > 0 ? 'plot-coverage-summary is-warning' : 'plot-coverage-summary'}>
+            {uncoveredCount > 0
+              ? `${uncoveredCount} de ${plotModel.steps.length} pasos todavia sin capitulo.`
+              : 'Todos los pasos visibles tienen al menos un capitulo.'}
+          </p>
+        ) : null}
       </header>
 
       <div className="plot-toolbar">
@@ -179,6 +207,23 @@ function PlotBoardView(props: PlotBoardViewProps) {
             + Nuevo paso
           </button>
         )}
+        {props.onGenerateChapters && visibleCheckedIds.length > 0 ? (
+          <>
+            <button
+              type="button"
+              onClick={() => {
+                props.onGenerateChapters?.(visibleCheckedIds, selectedCharacterId);
+                setCheckedEventIds([]);
+              }}
+              title="Crea un capitulo por paso con sinopsis, POV y enlace al evento de la timeline."
+            >
+              Generar {visibleCheckedIds.length} capitulo/s
+            </button>
+            <button type="button" onClick={() => setCheckedEventIds([])}>
+              Limpiar seleccion
+            </button>
+          </>
+        ) : null}
       </div>
 
       {isCreatingEvent && props.activeSaga && (
@@ -204,27 +249,56 @@ function PlotBoardView(props: PlotBoardViewProps) {
                   <div className="plot-act-head">
                     <h4>{act.stageLabel}</h4>
                     <span className="muted">{act.steps.length} paso/s</span>
+                    {props.onGenerateChapters ? (
+                      <label className="plot-step-check">
+                        <input
+                          type="checkbox"
+                          checked={act.steps.every((step) => visibleCheckedIds.includes(step.eventId))}
+                          onChange={(event) => toggleChecked(act.steps.map((step) => step.eventId), event.target.checked)}
+                        />
+                        Acto completo
+                      </label>
+                    ) : null}
                   </div>
                   <div className="plot-step-list">
-                    {act.steps.map((step) => (
-                      <button
-                        key={step.eventId}
-                        type="button"
-                        className={`plot-step ${selectedEvent?.id === step.eventId ? 'is-selected' : ''}`}
-                        onClick={() => setSelectedEventId(step.eventId)}
-                      >
-                        <div className="plot-step-head">
-                          <span className="timeline-order">{step.displayLabel}</span>
-                          <strong>{step.title}</strong>
-                        </div>
-                        <div className="timeline-badges">
-                          <span className="timeline-badge">{step.stageLabel}</span>
-                          <span className="timeline-badge">{step.category}</span>
+                    {act.steps.map((step) => {
+                      const links = coverage?.[step.eventId] ?? [];
+                      return (
+                        <div key={step.eventId} className="plot-step-row">
+                          {props.onGenerateChapters ? (
+                            <input
+                              type="checkbox"
+                              aria-label={`Seleccionar ${step.title}`}
+                              checked={visibleCheckedIds.includes(step.eventId)}
+                              onChange={(event) => toggleChecked([step.eventId], event.target.checked)}
+                            />
+                          ) : null}
+                          <button
+                            type="button"
+                            className={`plot-step ${selectedEvent?.id === step.eventId ? 'is-selected' : ''} ${coverage && links.length === 0 ? 'is-uncovered' : ''}`}
+                            onClick={() => setSelectedEventId(step.eventId)}
+                          >
+                            <div className="plot-step-head">
+                              <span className="timeline-order">{step.displayLabel}</span>
+                              <strong>{step.title}</strong>
+                            </div>
+                            <div className="timeline-badges">
+                              <span className="timeline-badge">{step.stageLabel}</span>
+                              <span className="timeline-badge">{step.category}</span>
+                            </div>
+                            <p>{step.summary}</p>
+                            {step.primaryImpact ? <small>{step.primaryImpact}</small> : null}
+                            {coverage ? (
+                              <small className="plot-step-coverage">
+                                {links.length === 0
+                                  ? 'Sin capitulo'
+                                  : `Capitulos: ${links.map((link) => describeChapterLink(link, saga)).join(', ')}`}
+                              </small>
+                            ) : null}
+                          </button>
                         </div>
-                        <p>{step.summary}</p>
-                        {step.primaryImpact ? <small>{step.primaryImpact}</small> : null}
-                      </button>
-                    ))}
+                      );
+                    })}
                   </div>
                 </section>
               ))}
@@ -334,12 +408,31 @@ function PlotBoardView(props: PlotBoardViewProps) {
                       : String(selectedEvent.startOrder)}
                   </span>
                 </div>
+                {coverage?.[selectedEvent.id]?.some((link) => link.source === 'scene') ? (
+                  <div className="plot-summary-list">
+                    {coverage[selectedEvent.id]
+                      .filter((link) => link.source === 'scene')
+                      .map((link) => (
+                        <div key={`${selectedEvent.id}-plot-scene-${link.chapterId}`} className="timeline-detail-row">
+                          <span>{describeChapterLink(link, saga)}</span>
+                          {props.onOpenChapter ? (
+                            <button type="button" onClick={() => props.onOpenChapter?.(link.chapterId)}>
+                              Abrir
+                            </button>
+                          ) : null}
+                        </div>
+                      ))}
+                  </div>
+                ) : null}
                 {selectedEvent.bookRefs.length === 0 ? (
                   <p className="muted">Sin referencias narrativas.</p>
                 ) : (
                   <div className="plot-summary-list">
                     {selectedEvent.bookRefs.map((reference, index) => {
                       const linkedBook = saga.metadata.books.find((entry) => entry.bookPath === reference.bookPath);
+                      const openBookLink = coverage?.[selectedEvent.id]?.some(
+                        (link) => link.inOpenBook && link.source === 'reference' && link.chapterId === reference.chapterId && link.bookPath === reference.bookPath,
+                      );
                       return (
                         <div key={`${selectedEvent.id}-plot-book-${index}`} className="timeline-detail-row">
                           <span>
@@ -347,7 +440,11 @@ function PlotBoardView(props: PlotBoardViewProps) {
                             {reference.chapterId ? ` | ${reference.chapterId}` : ''}
                             {reference.mode ? ` | ${reference.mode}` : ''}
                           </span>
-                          {reference.bookPath ? (
+                          {openBookLink && props.onOpenChapter ? (
+                            <button type="button" onClick={() => props.onOpenChapter?.(reference.chapterId)}>
+                              Ir al capitulo
+                            </button>
+                          ) : reference.bookPath ? (
                             <button type="button" onClick={() => props.onOpenBook(reference.bookPath)}>
                               Abrir
                             </button>
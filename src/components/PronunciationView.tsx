@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { randomId } from '../lib/text';
+import type { PronunciationEntry, PronunciationEntrySource } from '../types/book';
+
+type PronunciationScope = 'book' | 'saga';
+
+interface PronunciationViewProps {
+  bookEntries: PronunciationEntry[];
+  sagaEntries: PronunciationEntry[] | null;
+  sagaTitle: string | null;
+  busy: boolean;
+  onSave: (scope: PronunciationScope, entries: PronunciationEntry[]) => void;
+  onSeed: () => void;
+  onPreview: (text: string) => void;
+}
+
+const SOURCE_LABELS: Record<PronunciationEntrySource, string> = {
+  manual: 'Manual',
+  character: 'Personaje',
+  conlang: 'Conlang',
+};
+
+function PronunciationView(props: PronunciationViewProps) {
+  const [scope, setScope] = useState<PronunciationScope>('book');
+  const [bookDraft, setBookDraft] = useState(props.bookEntries);
+  const [sagaDraft, setSagaDraft] = useState(props.sagaEntries ?? []);
+  const [filter, setFilter] = useState('');
+
+  const activeScope: PronunciationScope = scope === 'saga' && props.sagaEntries ? 'saga' : 'book';
+  const draft = activeScope === 'saga' ? sagaDraft : bookDraft;
+  const setDraft = activeScope === 'saga' ? setSagaDraft : setBookDraft;
+  const saved = activeScope === 'saga' ? props.sagaEntries ?? [] : props.bookEntries;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visible = draft.filter(
+    (entry) =>
+      !normalizedFilter ||
+      entry.term.toLowerCase().includes(normalizedFilter) ||
+      entry.respelling.toLowerCase().includes(normalizedFilter),
+  );
+  const pendingCount = draft.filter((entry) => !entry.respelling.trim() && !entry.ipa.trim()).length;
+
+  const patchEntry = (id: string, patch: Partial<Pick<PronunciationEntry, 'term' | 'respelling' | 'ipa'>>) => {
+    setDraft((previous) => previous.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  return (
+    <section className="pronunciation-view">
+      <header>
+        <h2>Diccionario de pronunciacion</h2>
+        <p>
+          Indica como debe leer la voz los nombres inventados y terminos de conlang. El respelling se usa en la lectura en
+          voz alta y en todos los motores; la transcripcion IPA solo la interpreta la voz del sistema de Windows (SSML).
+        </p>
+      </header>
+
+      <div className="loose-threads-toolbar">
+        {props.sagaEntries && (
+          <div className="loose-thread-actions">
+            <button type="button" className={activeScope === 'book' ? 'is-active' : ''} onClick={() => setScope('book')}>
+              Libro
+            </button>
+            <button type="button" className={activeScope === 'saga' ? 'is-active' : ''} onClick={() => setScope('saga')}>
+              Saga: {props.sagaTitle ?? 'vinculada'}
+            </button>
+          </div>
+        )}
+        <label>
+          Filtrar
+          <input value={filter} onChange={(event) => setFilter(event.target.value)} placeholder="Termino o respelling" />
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            setDraft((previous) => [
+              ...previous,
+              { id: randomId('pron'), term: '', respelling: '', ipa: '', source: 'manual' },
+            ])
+          }
+        >
+          Agregar termino
+        </button>
+        <button
+          type="button"
+          disabled={props.busy || isDirty}
+          onClick={props.onSeed}
+          title={isDirty ? 'Guarda los cambios antes de sugerir terminos.' : 'Agrega nombres, alias y lexico de conlang que falten.'}
+        >
+          Sugerir desde biblia y conlangs
+        </button>
+        <button
+          type="button"
+          disabled={props.busy || !isDirty}
+          onClick={() => props.onSave(activeScope, draft.filter((entry) => entry.term.trim()))}
+        >
+          Guardar diccionario
+        </button>
+      </div>
+
+      {pendingCount > 0 ? (
+        <p className="muted">{pendingCount} termino/s sin pronunciacion todavia: la voz los leera tal cual.</p>
+      ) : null}
+
+      {visible.length === 0 ? (
+        <p className="muted">Sin terminos. Usa "Sugerir" para partir de los personajes y el lexico de la saga.</p>
+      ) : (
+        <table className="pronunciation-table">
+          <thead>
+            <tr>
+              <th>Termino</th>
+              <th>Se lee como</th>
+              <th>IPA (opcional)</th>
+              <th>Origen</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((entry) => (
+              <tr key={entry.id}>
+                <td>
+                  <input value={entry.term} onChange={(event) => patchEntry(entry.id, { term: event.target.value })} />
+                </td>
+                <td>
+                  <input
+                    value={entry.respelling}
+                    onChange={(event) => patchEntry(entry.id, { respelling: event.target.value })}
+                    placeholder="Ej: Kai-el"
+                  />
+                </td>
+                <td>
+                  <input
+                    value={entry.ipa}
+                    onChange={(event) => patchEntry(entry.id, { ipa: event.target.value })}
+                    placeholder="Ej: ˈkaj.el"
+                  />
+                </td>
+                <td>
+                  <span className="manuscript-audit-chip">{SOURCE_LABELS[entry.source]}</span>
+                </td>
+                <td className="loose-thread-actions">
+                  <button
+                    type="button"
+                    disabled={!entry.term.trim()}
+                    onClick={() => props.onPreview(entry.respelling.trim() || entry.term)}
+                  >
+                    Escuchar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDraft((previous) => previous.filter((candidate) => candidate.id !== entry.id))}
+                  >
+                    Quitar
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default PronunciationView;
@@ -1,5 +1,11 @@
 import { memo } from 'react';
-import type { ChapterSearchMatch, ReplacePreviewReport, SagaBookSearchMatch } from '../lib/searchReplace';
+import type {
+  ChapterSearchMatch,
+  ReplacePreviewReport,
+  SagaBookSearchMatch,
+  SearchChapterFilter,
+} from '../lib/searchReplace';
+import type { ChapterStatus } from '../types/book';
 
 interface SearchReplacePanelProps {
   hasBook: boolean;
@@ -24,6 +30,16 @@ interface SearchReplacePanelProps {
   onReplaceInChapter: () => void;
   onReplaceInBook: () => void;
   onSelectChapter: (chapterId: string) => void;
+  filter: SearchChapterFilter;
+  pointOfViewOptions: string[];
+  searchableChapterCount: number;
+  totalChapterCount: number;
+  onFilterChange: (filter: SearchChapterFilter) => void;
+  // Posicion en la lista plana de apariciones de results.
+  activeOccurrencePosition: number | null;
+  onOpenOccurrence: (position: number) => void;
+  onStepOccurrence: (delta: 1 | -1) => void;
+  onReplaceOccurrence: (position: number) => void;
   previewReport: ReplacePreviewReport | null;
   hasSaga?: boolean;
   sagaTitle?: string;
@@ -31,6 +47,18 @@ interface SearchReplacePanelProps {
   sagaSearchTotalMatches?: number;
   onRunSagaSearch?: () => void;
   onOpenSagaBook?: (bookPath: string) => void;
+  onOpenEntityRename?: () => void;
+}
+
+// Mas alla de este limite la lista se corta: la navegacion F3 sigue recorriendo todas.
+const OCCURRENCE_RENDER_LIMIT = 400;
+
+function parseChapterNumber(value: string): number | null {
+  const parsed = Number.parseInt(value.trim(), 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null;
+  }
+  return parsed;
 }
 
 function SearchReplacePanel(props: SearchReplacePanelProps) {
@@ -96,6 +124,67 @@ function SearchReplacePanel(props: SearchReplacePanelProps) {
         </label>
       </div>
 
+      <div className="search-filter-row">
+        <label>
+          Estado
+          <select
+            value={props.filter.status}
+            onChange={(event) => props.onFilterChange({ ...props.filter, status: event.target.value as ChapterStatus | '' })}
+          >
+            <option value="">Todos</option>
+            <option value="borrador">Borrador</option>
+            <option value="en_revision">En revision</option>
+            <option value="final">Final</option>
+          </select>
+        </label>
+        <label>
+          POV
+          <input
+            type="text"
+            list="search-pov-options"
+            value={props.filter.pointOfView}
+            onChange={(event) => props.onFilterChange({ ...props.filter, pointOfView: event.target.value })}
+            placeholder="Cualquiera"
+          />
+          <datalist id="search-pov-options">
+            {props.pointOfViewOptions.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </label>
+        <label>
+          Desde cap.
+          <input
+            type="number"
+            min={1}
+            value={props.filter.range.fromChapter ?? ''}
+            onChange={(event) =>
+              props.onFilterChange({
+                ...props.filter,
+                range: { ...props.filter.range, fromChapter: parseChapterNumber(event.target.value) },
+              })
+            }
+          />
+        </label>
+        <label>
+          Hasta cap.
+          <input
+            type="number"
+            min={1}
+            value={props.filter.range.toChapter ?? ''}
+            onChange={(event) =>
+              props.onFilterChange({
+                ...props.filter,
+                range: { ...props.filter.range, toChapter: parseChapterNumber(event.target.value) },
+              })
+            }
+          />
+        </label>
+        <span className="muted">
+          {props.searchableChapterCount} de {props.totalChapterCount} capitulo/s
+        </span>
+      </div>
+
       {props.patternError ? (
         <p className="search-pattern-warning">
           Regex invalido: <strong>{props.patternError}</strong>
@@ -115,11 +204,32 @@ function SearchReplacePanel(props: SearchReplacePanelProps) {
         <button type="button" onClick={props.onReplaceInBook} disabled={props.busy}>
           Reemplazar en todo el libro
         </button>
+        {props.onOpenEntityRename ? (
+          <button
+            type="button"
+            onClick={props.onOpenEntityRename}
+            disabled={props.busy}
+            title="Renombra un personaje o lugar de la biblia: nombre, alias y referencias."
+          >
+            Renombrar personaje/lugar
+          </button>
+        ) : null}
       </div>
 
-      <p className="muted">
-        Coincidencias encontradas: <strong>{props.totalMatches}</strong> en <strong>{props.results.length}</strong> capitulo/s.
-      </p>
+      <div className="search-navigation-row">
+        <p className="muted">
+          Coincidencias encontradas: <strong>{props.totalMatches}</strong> en <strong>{props.results.length}</strong> capitulo/s.
+          {props.activeOccurrencePosition !== null && props.totalMatches > 0
+            ? ` Actual: ${Math.min(props.activeOccurrencePosition + 1, props.totalMatches)} de ${props.totalMatches}.`
+            : ''}
+        </p>
+        <button type="button" onClick={() => props.onStepOccurrence(-1)} disabled={props.totalMatches === 0} title="Shift + F3">
+          Anterior
+        </button>
+        <button type="button" onClick={() => props.onStepOccurrence(1)} disabled={props.totalMatches === 0} title="F3">
+          Siguiente
+        </button>
+      </div>
 
       {props.previewReport ? (
         <section className="search-preview">
@@ -157,20 +267,64 @@ function SearchReplacePanel(props: SearchReplacePanelProps) {
         {props.results.length === 0 ? (
           <p className="muted">Todavia no hay resultados o no se encontraron coincidencias.</p>
         ) : (
-          props.results.map((result) => (
-            <article key={result.chapterId} className="search-result-item">
-              <div>
-                <h3>{result.chapterTitle}</h3>
-                <p>ID {result.chapterId}</p>
-              </div>
-              <div className="search-result-actions">
-                <span>{result.matches} coincidencias</span>
-                <button type="button" onClick={() => props.onSelectChapter(result.chapterId)}>
-                  Abrir
-                </button>
-              </div>
-            </article>
-          ))
+          props.results.map((result, resultIndex) => {
+            const firstPosition = props.results
+              .slice(0, resultIndex)
+              .reduce((sum, previous) => sum + previous.occurrences.length, 0);
+            const visibleCount = Math.max(0, Math.min(result.occurrences.length, OCCURRENCE_RENDER_LIMIT - firstPosition));
+            return (
+              <article key={result.chapterId} className="search-result-chapter">
+                <div className="search-result-item">
+                  <div>
+                    <h3>{result.chapterTitle}</h3>
+                    <p>ID {result.chapterId}</p>
+                  </div>
+                  <div className="search-result-actions">
+                    <span>{result.matches} coincidencias</span>
+                    <button type="button" onClick={() => props.onSelectChapter(result.chapterId)}>
+                      Abrir
+                    </button>
+                  </div>
+                </div>
+                {visibleCount > 0 ? (
+                  <ol className="search-occurrence-list">
+                    {result.occurrences.slice(0, visibleCount).map((occurrence, offset) => {
+                      const position = firstPosition + offset;
+                      return (
+                        <li
+                          key={occurrence.index}
+                          className={position === props.activeOccurrencePosition ? 'is-active' : ''}
+                        >
+                          <button
+                            type="button"
+                            className="search-occurrence-context"
+                            onClick={() => props.onOpenOccurrence(position)}
+                            title="Abrir en el editor con la coincidencia seleccionada"
+                          >
+                            {occurrence.contextBefore}
+                            <mark>{occurrence.match}</mark>
+                            {occurrence.contextAfter}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => props.onReplaceOccurrence(position)}
+                            disabled={props.busy || Boolean(props.patternError)}
+                          >
+                            Reemplazar esta
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                ) : null}
+                {visibleCount < result.occurrences.length ? (
+                  <p className="muted">
+                    {result.occurrences.length - visibleCount} coincidencia/s mas sin listar; usa Siguiente o F3.
+                  </p>
+                ) : null}
+              </article>
+            );
+          })
         )}
       </div>
 
@@ -1,7 +1,7 @@
 import { useEffect, useState, type InputHTMLAttributes } from 'react';
 import type { AppConfig } from '../types/book';
 import { SYSTEM_PROMPT_PRESETS } from '../lib/prompts';
-import type { OllamaServiceStatus } from '../lib/ollamaClient';
+import { AI_PROVIDER_OPTIONS, getAiProviderOption, type AiServiceStatus } from '../lib/aiProviders';
 
 const EDITOR_BACKGROUND_OPTIONS: Array<{ value: AppConfig['editorBackgroundTone']; label: string }> = [
   { value: 'default', label: 'Predeterminado' },
@@ -15,12 +15,13 @@ interface SettingsPanelProps {
   config: AppConfig;
   bookPath: string | null;
   bookAutoApplyReleaseEnabled: boolean;
-  ollamaStatus: OllamaServiceStatus;
+  ollamaStatus: AiServiceStatus;
   onChange: (next: AppConfig) => void;
   onSave: () => void;
   onRefreshOllamaStatus: () => void;
   onPickBackupDirectory: () => void;
   onRunBackupNow: () => void;
+  onOpenBackupBrowser: () => void;
 }
 
 // Componente helper para inputs numericos que permite borrar el valor temporalmente
@@ -52,6 +53,7 @@ function NumericInput({
 
 function SettingsPanel(props: SettingsPanelProps) {
   const { config } = props;
+  const providerOption = getAiProviderOption(config.aiProvider);
 
   return (
     <section className="settings-view">
@@ -69,7 +71,7 @@ function SettingsPanel(props: SettingsPanelProps) {
         <div className="settings-status-head">
           <div>
             <strong>IA local</strong>
-            <p className="muted">Si aqui ves "listo", la app ya puede usar Ollama sin abrir consola.</p>
+            <p className="muted">Si aqui ves "listo", la app ya puede usar {providerOption.label} sin abrir consola.</p>
           </div>
           <button
             type="button"
@@ -90,6 +92,52 @@ function SettingsPanel(props: SettingsPanelProps) {
         ) : null}
       </section>
 
+      <label>
+        Proveedor IA
+        <select
+          value={config.aiProvider}
+          onChange={(event) =>
+            props.onChange({
+              ...config,
+              aiProvider: event.target.value as AppConfig['aiProvider'],
+            })
+          }
+        >
+          {AI_PROVIDER_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="muted">{providerOption.description}</p>
+
+      <label>
+        URL del servidor IA
+        <input
+          value={config.aiBaseUrl}
+          onChange={(event) => props.onChange({ ...config, aiBaseUrl: event.target.value })}
+          placeholder={providerOption.defaultBaseUrl}
+        />
+      </label>
+      <p className="muted">Vacio usa {providerOption.defaultBaseUrl}. Sirve una IP de la red local, ej: http://192.168.1.20:8080.</p>
+
+      {config.aiProvider === 'openai-compatible' ? (
+        <>
+          <label>
+            API key (opcional)
+            <input
+              type="password"
+              value={config.aiApiKey}
+              onChange={(event) => props.onChange({ ...config, aiApiKey: event.target.value })}
+              placeholder="Solo si el servidor la exige"
+              autoComplete="off"
+            />
+          </label>
+          <p className="muted">La API key se guarda en este equipo, no en la carpeta del libro.</p>
+        </>
+      ) : null}
+
       <label>
         Modelo por defecto
         <input
@@ -157,12 +205,48 @@ function SettingsPanel(props: SettingsPanelProps) {
         />
       </label>
 
+      <label>
+        Motor de voz para exportar audio
+        <select
+          value={config.audioEngine}
+          onChange={(event) =>
+            props.onChange({
+              ...config,
+              audioEngine: event.target.value as AppConfig['audioEngine'],
+            })
+          }
+        >
+          <option value="auto">Automatico (SAPI en Windows, Piper con modelo, si no eSpeak NG)</option>
+          <option value="system">Voz del sistema (solo Windows)</option>
+          <option value="piper">Piper (modelo neuronal local)</option>
+          <option value="espeak">eSpeak NG</option>
+        </select>
+      </label>
+
+      <label>
+        Ruta del ejecutable de voz (opcional)
+        <input
+          value={config.audioEnginePath}
+          onChange={(event) => props.onChange({ ...config, audioEnginePath: event.target.value })}
+          placeholder="Vacio = buscar piper / espeak-ng en el PATH"
+        />
+      </label>
+
+      <label>
+        Modelo de voz Piper (.onnx)
+        <input
+          value={config.audioVoiceModel}
+          onChange={(event) => props.onChange({ ...config, audioVoiceModel: event.target.value })}
+          placeholder="Ej: /home/ana/voces/es_ES-davefx-medium.onnx"
+        />
+      </label>
+
       <label>
         Voz preferida (opcional)
         <input
           value={config.audioVoiceName}
           onChange={(event) => props.onChange({ ...config, audioVoiceName: event.target.value })}
-          placeholder="Ej: Microsoft Sabina Desktop"
+          placeholder="Ej: Microsoft Sabina Desktop o es-419 en eSpeak"
         />
       </label>
 
@@ -300,6 +384,15 @@ function SettingsPanel(props: SettingsPanelProps) {
         Texto grande en interfaz
       </label>
 
+      <label>
+        Nombre para control de cambios
+        <input
+          value={config.reviewerName}
+          onChange={(event) => props.onChange({ ...config, reviewerName: event.target.value })}
+          placeholder="Si queda vacio se usa el autor del libro"
+        />
+      </label>
+
       <label>
         Rondas maximas del agente continuo
         <input
@@ -353,15 +446,51 @@ function SettingsPanel(props: SettingsPanelProps) {
         />
       </label>
 
-      <button
-        type="button"
-        onClick={props.onRunBackupNow}
-        disabled={!props.bookPath || !config.backupDirectory.trim()}
-      >
-        Backup ahora
-      </button>
+      <div className="settings-retention-grid">
+        <label>
+          Conservar por hora
+          <NumericInput
+            min="0"
+            value={config.backupRetentionHourly}
+            onChange={(val) => props.onChange({ ...config, backupRetentionHourly: Math.max(0, Math.round(val)) })}
+          />
+        </label>
+        <label>
+          Conservar por dia
+          <NumericInput
+            min="0"
+            value={config.backupRetentionDaily}
+            onChange={(val) => props.onChange({ ...config, backupRetentionDaily: Math.max(0, Math.round(val)) })}
+          />
+        </label>
+        <label>
+          Conservar por semana
+          <NumericInput
+            min="0"
+            value={config.backupRetentionWeekly}
+            onChange={(val) => props.onChange({ ...config, backupRetentionWeekly: Math.max(0, Math.round(val)) })}
+          />
+        </label>
+      </div>
+
+      <div className="field-inline">
+        <button
+          type="button"
+          onClick={props.onRunBackupNow}
+          disabled={!props.bookPath || !config.backupDirectory.trim()}
+        >
+          Backup ahora
+        </button>
+        <button
+          type="button"
+          onClick={props.onOpenBackupBrowser}
+          disabled={!props.bookPath || !config.backupDirectory.trim()}
+        >
+          Restaurar desde backup...
+        </button>
+      </div>
       <p className="muted">
-        Cada backup crea una copia de resguardo versionada con timestamp y `backup-manifest.json`. Si el libro pertenece a una saga, se intenta copiar tambien.
+        Cada backup crea un snapshot con timestamp y `backup-manifest.json`. Es incremental: los archivos sin cambios se referencian por hash en lugar de copiarse. Si el libro pertenece a una saga, se incluye tambien. La retencion conserva el snapshot mas reciente de cada hora, dia y semana dentro de esos cupos (todo en 0 conserva todo).
       </p>
 
       <div className="preset-row">
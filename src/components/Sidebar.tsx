@@ -467,7 +467,7 @@ function Sidebar(props: SidebarProps) {
             type="button"
             onClick={props.onExportAudiobook}
             disabled={!props.hasBook || Boolean(props.exportBusy)}
-            title="Genera audiolibro WAV con la voz del sistema en el idioma configurado."
+            title="Genera una pista WAV por capitulo y una lista M3U con el motor de voz configurado."
           >
             Audiolibro WAV
           </button>
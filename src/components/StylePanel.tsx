@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { formatNumber } from '../lib/metrics';
-import { analyzeBookStyleFromChapters, getStyleLevelLabel, type StyleLevel } from '../lib/styleMetrics';
+import { lintProse, type ProseLintLanguage, type ProseLintRuleId } from '../lib/proseLint';
+import { analyzeBookStyleFromChapters, getStyleLevelLabel, htmlToStyleText, type StyleLevel } from '../lib/styleMetrics';
 import type { ChapterDocument } from '../types/book';
 
 interface StylePanelProps {
@@ -8,6 +9,7 @@ interface StylePanelProps {
   bookTitle: string;
   chapters: ChapterDocument[];
   activeChapterId: string | null;
+  language: ProseLintLanguage;
   onExportReport: () => void;
 }
 
@@ -23,18 +25,20 @@ function formatReading(minutes: number): string {
   return `${minutes} min`;
 }
 
+const CHECK_EXAMPLES_LIMIT = 4;
+
 function StylePanel(props: StylePanelProps) {
   const [chapterSelection, setChapterSelection] = useState<string>('');
   
   // Inicializar con el estado actual, pero actualizar con debounce para evitar lag al escribir
-  const [styleReport, setStyleReport] = useState(() => analyzeBookStyleFromChapters(props.chapters));
+  const [styleReport, setStyleReport] = useState(() => analyzeBookStyleFromChapters(props.chapters, props.language));
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      setStyleReport(analyzeBookStyleFromChapters(props.chapters));
+      setStyleReport(analyzeBookStyleFromChapters(props.chapters, props.language));
     }, 600); // Esperar 600ms de inactividad antes de recalcular
     return () => clearTimeout(timer);
-  }, [props.chapters]);
+  }, [props.chapters, props.language]);
 
   const selectedChapterId = useMemo(() => {
     if (props.chapters.length === 0) {
@@ -54,13 +58,32 @@ function StylePanel(props: StylePanelProps) {
 
   const activeChapterReport = styleReport.chapters.find((entry) => entry.chapterId === selectedChapterId) ?? null;
 
+  // Ejemplos concretos por regla para el capitulo elegido.
+  const chapterExamples = useMemo(() => {
+    const examples = new Map<ProseLintRuleId, string[]>();
+    const chapter = props.chapters.find((entry) => entry.id === selectedChapterId);
+    if (!chapter) {
+      return examples;
+    }
+
+    for (const finding of lintProse(htmlToStyleText(chapter.content), props.language).findings) {
+      const list = examples.get(finding.rule) ?? [];
+      if (list.length < CHECK_EXAMPLES_LIMIT && !list.includes(finding.text)) {
+        list.push(finding.text);
+      }
+      examples.set(finding.rule, list);
+    }
+    return examples;
+  }, [props.chapters, props.language, selectedChapterId]);
+
   return (
     <section className="style-view">
       <header className="style-header">
         <div>
           <h2>Analisis de estilo</h2>
           <p>
-            Mide ritmo y repeticion para mantener una prosa clara. Semaforo: verde OK, amarillo revisar, rojo alerta.
+            Mide ritmo, repeticion, legibilidad ({props.language === 'en' ? 'Flesch' : 'Fernandez-Huerta'}), adverbios, voz
+            pasiva, verbos filtro, comienzos repetidos y cliches. Semaforo: verde OK, amarillo revisar, rojo alerta.
           </p>
         </div>
         <button type="button" onClick={props.onExportReport} disabled={!props.hasBook || props.chapters.length === 0}>
@@ -91,6 +114,17 @@ function StylePanel(props: StylePanelProps) {
               <h3>Lectura estimada</h3>
               <p>{formatReading(styleReport.book.readingMinutes)}</p>
             </article>
+            <article className="style-kpi-card">
+              <h3>Legibilidad</h3>
+              <p>
+                {styleReport.book.readability.index} | {styleReport.book.readability.label}
+              </p>
+              <StyleLevelBadge level={styleReport.book.readabilityLevel} />
+            </article>
+            <article className="style-kpi-card">
+              <h3>Dialogo</h3>
+              <p>{Math.round(styleReport.book.dialogueRatio * 100)}% de las palabras</p>
+            </article>
           </div>
 
           <section className="style-chapter-panel">
@@ -120,9 +154,29 @@ function StylePanel(props: StylePanelProps) {
                 <div className="style-badge-row">
                   <span>Ritmo: <StyleLevelBadge level={activeChapterReport.analysis.sentenceLengthLevel} /></span>
                   <span>Repeticion: <StyleLevelBadge level={activeChapterReport.analysis.repetitionLevel} /></span>
+                  <span>Legibilidad: <StyleLevelBadge level={activeChapterReport.analysis.readabilityLevel} /></span>
+                  <span>Prosa: <StyleLevelBadge level={activeChapterReport.analysis.proseLevel} /></span>
                   <span>Total: <StyleLevelBadge level={activeChapterReport.analysis.overallLevel} /></span>
                 </div>
-                <p className="muted">Tiempo estimado: {formatReading(activeChapterReport.analysis.readingMinutes)}</p>
+                <p className="muted">
+                  Tiempo estimado: {formatReading(activeChapterReport.analysis.readingMinutes)} | legibilidad{' '}
+                  {activeChapterReport.analysis.readability.index} ({activeChapterReport.analysis.readability.label},{' '}
+                  {activeChapterReport.analysis.readability.syllablesPerWord} silabas/palabra) | dialogo{' '}
+                  {Math.round(activeChapterReport.analysis.dialogueRatio * 100)}%
+                </p>
+                <h4>Chequeos de prosa</h4>
+                <ul className="style-prose-check-list">
+                  {activeChapterReport.analysis.proseChecks.map((check) => (
+                    <li key={check.rule}>
+                      <span>
+                        {check.label}: {check.count} | {check.perThousand} por 1000 palabras <StyleLevelBadge level={check.level} />
+                      </span>
+                      {(chapterExamples.get(check.rule) ?? []).length > 0 ? (
+                        <small>Ej: {(chapterExamples.get(check.rule) ?? []).map((text) => `"${text}"`).join(', ')}</small>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
                 <h4>Top repeticiones</h4>
                 {activeChapterReport.analysis.topRepetitions.length === 0 ? (
                   <p className="muted">Sin repeticiones relevantes (&gt;=2 ocurrencias, filtrando stopwords).</p>
@@ -146,6 +200,8 @@ function StylePanel(props: StylePanelProps) {
               <span>Palabras</span>
               <span>Promedio</span>
               <span>Lectura</span>
+              <span>Legibilidad</span>
+              <span>Dialogo</span>
               <span>Semaforo</span>
             </div>
             {styleReport.chapters.map((entry) => (
@@ -154,7 +210,16 @@ function StylePanel(props: StylePanelProps) {
                 <span>{formatNumber(entry.analysis.wordCount)}</span>
                 <span>{entry.analysis.avgWordsPerSentence}</span>
                 <span>{formatReading(entry.analysis.readingMinutes)}</span>
-                <span><StyleLevelBadge level={entry.analysis.overallLevel} /></span>
+                <span title={entry.analysis.readability.label}>{entry.analysis.readability.index}</span>
+                <span>{Math.round(entry.analysis.dialogueRatio * 100)}%</span>
+                <span
+                  title={entry.analysis.proseChecks
+                    .filter((check) => check.count > 0)
+                    .map((check) => `${check.label}: ${check.count}`)
+                    .join(' | ')}
+                >
+                  <StyleLevelBadge level={entry.analysis.overallLevel} />
+                </span>
               </article>
             ))}
           </section>
@@ -1,14 +1,30 @@
 import { forwardRef, memo, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
-import { Extension, Node, mergeAttributes, type JSONContent } from '@tiptap/core';
-import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
-import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Extension, Mark, Node, mergeAttributes, type JSONContent } from '@tiptap/core';
+import type { Mark as ProseMirrorMark, MarkType, Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { ReplaceStep } from '@tiptap/pm/transform';
 import { Decoration, DecorationSet } from '@tiptap/pm/view';
 import { EditorContent, useEditor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 
+import {
+  AI_ORIGIN_ATTRIBUTE,
+  AI_ORIGIN_REWRITE_KEEP_RATIO,
+  buildAiMarkedHtml,
+  countAiOriginWords,
+  type AiOriginInput,
+} from '../lib/aiProvenanceMarks';
 import type { ContinuityHighlightTerm } from '../lib/continuityGuard';
+import { COMMENT_ANCHOR_ATTRIBUTE } from '../lib/manuscriptComments';
+import { lintProse, type ProseLintLanguage } from '../lib/proseLint';
+import { findStyleRuleViolations, type StyleRule, type StyleRuleViolation } from '../lib/styleRules';
 import { plainTextToHtml } from '../lib/text';
+import {
+  createTrackedChangeId,
+  type TrackedChangeAttributes,
+  type TrackedChangeDecision,
+} from '../lib/trackChanges';
 import type { InteriorFormat } from '../types/book';
 import {
   buildSemanticReferenceHtml,
@@ -24,8 +40,12 @@ export interface TiptapEditorHandle {
   insertText: (value: string) => void;
   insertSemanticReference: (reference: SemanticReferenceInsertPayload) => void;
   previewSelectionReplacement: (value: string) => string;
-  replaceSelectionWithText: (value: string) => void;
-  replaceDocumentWithText: (value: string) => void;
+  // Inverso de previewSelectionReplacement: el tramo de la seleccion dentro de un texto completo revisado,
+  // o null si tambien cambio el texto fuera de la seleccion.
+  extractSelectionReplacement: (fullText: string) => string | null;
+  // Con aiOrigin, lo que la IA agrego queda marcado como texto de procedencia IA.
+  replaceSelectionWithText: (value: string, aiOrigin?: AiOriginInput) => void;
+  replaceDocumentWithText: (value: string, aiOrigin?: AiOriginInput) => void;
   getHTML: () => string;
   getJSON: () => JSONContent | null;
   canUndo: () => boolean;
@@ -33,6 +53,13 @@ export interface TiptapEditorHandle {
   undo: () => void;
   redo: () => void;
   focus: () => void;
+  revealText: (value: string) => boolean;
+  // Selecciona la coincidencia numero occurrenceIndex del patron, contando nodo de texto por nodo de texto.
+  revealSearchMatch: (pattern: RegExp, occurrenceIndex: number) => boolean;
+  resolveTrackedChange: (changeId: string | 'all', decision: TrackedChangeDecision) => boolean;
+  anchorCommentOnSelection: (commentId: string) => boolean;
+  removeCommentAnchor: (commentId: string) => void;
+  revealComment: (commentId: string) => boolean;
 }
 
 interface TiptapEditorProps {
@@ -41,7 +68,13 @@ interface TiptapEditorProps {
   scrollPersistenceKey?: string;
   continuityHighlightEnabled?: boolean;
   continuityHighlights?: ContinuityHighlightTerm[];
+  proseLintEnabled?: boolean;
+  proseLintLanguage?: ProseLintLanguage;
+  styleRules?: StyleRule[];
   semanticReferencesCatalog?: SemanticReferenceCatalogEntry[];
+  trackChangesEnabled?: boolean;
+  trackChangesAuthor?: string;
+  aiOriginHighlightEnabled?: boolean;
   onChange: (payload: { html: string; json: JSONContent }) => void;
   onSemanticReferenceOpen?: (reference: {
     id: string;
@@ -74,7 +107,24 @@ interface SemanticSuggestionState {
   };
 }
 
+interface StyleRuleFixState {
+  from: number;
+  to: number;
+  violation: StyleRuleViolation;
+  position: {
+    top: number;
+    left: number;
+  };
+}
+
 const CONTINUITY_PLUGIN_KEY = new PluginKey('continuity-highlights');
+const PROSE_LINT_PLUGIN_KEY = new PluginKey('prose-lint');
+const STYLE_RULES_PLUGIN_KEY = new PluginKey('style-rules');
+const EMPTY_STYLE_RULES: StyleRule[] = [];
+const TRACK_CHANGES_PLUGIN_KEY = new PluginKey('track-changes');
+const TRACK_CHANGES_SKIP_META = 'trackChangesSkip';
+const AI_ORIGIN_PLUGIN_KEY = new PluginKey('ai-origin');
+const AI_ORIGIN_SKIP_META = 'aiOriginSkip';
 const CONTINUITY_WORD_CHARS = 'A-Za-z0-9\\u00C0-\\u024F';
 const CONTINUITY_HIGHLIGHT_SOFT_WARNING_TERMS = 800;
 const SEMANTIC_SUGGEST_PATTERN = /(?:^|[\s([{"'«])([@#])([\p{L}\p{N}_\-']{0,40})$/u;
@@ -99,6 +149,78 @@ function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+// Busca un fragmento dentro de un mismo bloque, ignorando mayusculas y espacios repetidos.
+function findTextRangeInDoc(doc: ProseMirrorNode, value: string): { from: number; to: number } | null {
+  const needle = value.replace(/\s+/g, ' ').trim().toLowerCase();
+  if (!needle) {
+    return null;
+  }
+
+  let range: { from: number; to: number } | null = null;
+  doc.descendants((node, nodeStart) => {
+    if (range) {
+      return false;
+    }
+    if (!node.isTextblock) {
+      return true;
+    }
+
+    let text = '';
+    const positions: number[] = [];
+    node.descendants((child, childPos) => {
+      if (!child.isText || !child.text) {
+        return true;
+      }
+      const start = nodeStart + 1 + childPos;
+      for (let index = 0; index < child.text.length; index += 1) {
+        const char = /\s/.test(child.text[index]) ? ' ' : child.text[index].toLowerCase();
+        if (char === ' ' && text.endsWith(' ')) {
+          continue;
+        }
+        text += char;
+        positions.push(start + index);
+      }
+      return false;
+    });
+
+    const matchIndex = text.indexOf(needle);
+    if (matchIndex >= 0) {
+      range = { from: positions[matchIndex], to: positions[matchIndex + needle.length - 1] + 1 };
+    }
+    return false;
+  });
+
+  return range;
+}
+
+function findSearchMatchRangeInDoc(
+  doc: ProseMirrorNode,
+  pattern: RegExp,
+  occurrenceIndex: number,
+): { from: number; to: number } | null {
+  let remaining = occurrenceIndex;
+  let range: { from: number; to: number } | null = null;
+  doc.descendants((node, position) => {
+    if (range) {
+      return false;
+    }
+    if (!node.isText || !node.text) {
+      return true;
+    }
+
+    const matches = Array.from(node.text.matchAll(new RegExp(pattern.source, pattern.flags)));
+    if (remaining < matches.length) {
+      const start = position + (matches[remaining].index ?? 0);
+      range = { from: start, to: start + matches[remaining][0].length };
+      return false;
+    }
+    remaining -= matches.length;
+    return false;
+  });
+
+  return range;
+}
+
 function buildContinuityHighlightPatterns(highlights: ContinuityHighlightTerm[]): ContinuityHighlightPattern[] {
   const seen = new Set<string>();
   const patterns: ContinuityHighlightPattern[] = [];
@@ -211,6 +333,140 @@ function createContinuityHighlightExtension(enabled: boolean, highlights: Contin
   });
 }
 
+// Un solo texto para todo el documento (un salto por bloque) para que los comienzos repetidos
+// se detecten igual que en el panel de estilo. positions traduce cada caracter a su posicion en el doc.
+function collectDocumentText(doc: ProseMirrorNode): { text: string; positions: number[] } {
+  let text = '';
+  const positions: number[] = [];
+  doc.descendants((node, nodeStart) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+    if (text) {
+      text += '\n';
+      positions.push(-1);
+    }
+    node.descendants((child, childPos) => {
+      if (!child.isText || !child.text) {
+        return true;
+      }
+      const start = nodeStart + 1 + childPos;
+      text += child.text;
+      for (let index = 0; index < child.text.length; index += 1) {
+        positions.push(start + index);
+      }
+      return false;
+    });
+    return false;
+  });
+  return { text, positions };
+}
+
+// Rango del documento para un tramo del texto plano, o null si cruza un nodo atomico o un salto de bloque.
+function resolveDocumentRange(positions: number[], start: number, end: number): { from: number; to: number } | null {
+  const from = positions[start];
+  const to = positions[end - 1];
+  if (from === undefined || to === undefined || from < 0 || to < 0 || to - from !== end - start - 1) {
+    return null;
+  }
+  return { from, to: to + 1 };
+}
+
+function buildProseLintDecorations(doc: ProseMirrorNode, language: ProseLintLanguage): DecorationSet {
+  const { text, positions } = collectDocumentText(doc);
+  const decorations: Decoration[] = [];
+  for (const finding of lintProse(text, language).findings) {
+    const range = resolveDocumentRange(positions, finding.start, finding.end);
+    if (!range) {
+      continue;
+    }
+    decorations.push(
+      Decoration.inline(range.from, range.to, {
+        class: `prose-lint prose-lint--${finding.rule}`,
+        title: finding.message,
+      }),
+    );
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+function createProseLintExtension(enabled: boolean, language: ProseLintLanguage): Extension {
+  if (!enabled) {
+    return Extension.create({ name: 'prose-lint' });
+  }
+
+  return Extension.create({
+    name: 'prose-lint',
+    addProseMirrorPlugins() {
+      return [
+        new Plugin({
+          key: PROSE_LINT_PLUGIN_KEY,
+          state: {
+            init: (_config, state) => buildProseLintDecorations(state.doc, language),
+            apply: (transaction, previous, _oldState, newState) =>
+              transaction.docChanged ? buildProseLintDecorations(newState.doc, language) : previous,
+          },
+          props: {
+            decorations(state) {
+              return PROSE_LINT_PLUGIN_KEY.getState(state) as DecorationSet | undefined;
+            },
+          },
+        }),
+      ];
+    },
+  });
+}
+
+function buildStyleRuleDecorations(doc: ProseMirrorNode, rules: StyleRule[]): DecorationSet {
+  const { text, positions } = collectDocumentText(doc);
+  const decorations: Decoration[] = [];
+  for (const violation of findStyleRuleViolations(text, rules)) {
+    const range = resolveDocumentRange(positions, violation.start, violation.end);
+    if (!range) {
+      continue;
+    }
+    decorations.push(
+      Decoration.inline(
+        range.from,
+        range.to,
+        {
+          class: 'style-rule-violation',
+          title: violation.replacement ? `${violation.message} Clic para corregir.` : violation.message,
+        },
+        { violation },
+      ),
+    );
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+function createStyleRuleExtension(rules: StyleRule[]): Extension {
+  if (rules.length === 0) {
+    return Extension.create({ name: 'style-rules' });
+  }
+
+  return Extension.create({
+    name: 'style-rules',
+    addProseMirrorPlugins() {
+      return [
+        new Plugin({
+          key: STYLE_RULES_PLUGIN_KEY,
+          state: {
+            init: (_config, state) => buildStyleRuleDecorations(state.doc, rules),
+            apply: (transaction, previous, _oldState, newState) =>
+              transaction.docChanged ? buildStyleRuleDecorations(newState.doc, rules) : previous,
+          },
+          props: {
+            decorations(state) {
+              return STYLE_RULES_PLUGIN_KEY.getState(state) as DecorationSet | undefined;
+            },
+          },
+        }),
+      ];
+    },
+  });
+}
+
 const SemanticReferenceNode = Node.create({
   name: 'semanticReference',
   inline: true,
@@ -288,6 +544,544 @@ const SemanticReferenceNode = Node.create({
   },
 });
 
+interface TrackChangesSettings {
+  enabled: boolean;
+  author: string;
+}
+
+declare module '@tiptap/core' {
+  interface Storage {
+    trackChanges: TrackChangesSettings;
+  }
+}
+
+type TrackChangeTarget =
+  | { kind: 'insert'; from: number; to: number; id: string }
+  | { kind: 'delete'; at: number; slice: Slice; id: string; forward: boolean };
+
+function buildTrackMarkAttributes() {
+  return {
+    id: {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-track-id') || '',
+      renderHTML: () => ({}),
+    },
+    author: {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-track-author') || '',
+      renderHTML: () => ({}),
+    },
+    date: {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-track-date') || '',
+      renderHTML: () => ({}),
+    },
+  };
+}
+
+function renderTrackMark(kind: 'insert' | 'delete', mark: ProseMirrorMark, HTMLAttributes: Record<string, unknown>) {
+  const author = String(mark.attrs.author || '');
+  const date = String(mark.attrs.date || '');
+  const parsedDate = date ? new Date(date) : null;
+  const dateLabel = parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toLocaleString() : '';
+  return [
+    kind === 'insert' ? 'ins' : 'del',
+    mergeAttributes(HTMLAttributes, {
+      class: `track-change track-change--${kind}`,
+      'data-track-change': kind,
+      'data-track-id': String(mark.attrs.id || ''),
+      'data-track-author': author,
+      'data-track-date': date,
+      title: [kind === 'insert' ? 'Insertado' : 'Borrado', author, dateLabel].filter(Boolean).join(' | '),
+    }),
+    0,
+  ] as const;
+}
+
+// Prioridad mayor que Strike, que tambien reconoce <del>.
+const TrackInsertMark = Mark.create({
+  name: 'trackInsert',
+  inclusive: false,
+  addAttributes: buildTrackMarkAttributes,
+  parseHTML() {
+    return [{ tag: 'ins[data-track-change="insert"]', priority: 60 }];
+  },
+  renderHTML({ mark, HTMLAttributes }) {
+    return renderTrackMark('insert', mark, HTMLAttributes);
+  },
+});
+
+const TrackDeleteMark = Mark.create({
+  name: 'trackDelete',
+  inclusive: false,
+  addAttributes: buildTrackMarkAttributes,
+  parseHTML() {
+    return [{ tag: 'del[data-track-change="delete"]', priority: 60 }];
+  },
+  renderHTML({ mark, HTMLAttributes }) {
+    return renderTrackMark('delete', mark, HTMLAttributes);
+  },
+});
+
+// Ancla de notas al margen; excludes vacio permite comentarios solapados sobre el mismo texto.
+const ManuscriptCommentMark = Mark.create({
+  name: 'manuscriptComment',
+  inclusive: false,
+  excludes: '',
+  addAttributes() {
+    return {
+      commentId: {
+        default: '',
+        parseHTML: (element) => element.getAttribute(COMMENT_ANCHOR_ATTRIBUTE) || '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+  parseHTML() {
+    return [{ tag: `span[${COMMENT_ANCHOR_ATTRIBUTE}]` }];
+  },
+  renderHTML({ mark, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        class: 'manuscript-comment',
+        [COMMENT_ANCHOR_ATTRIBUTE]: String(mark.attrs.commentId || ''),
+      }),
+      0,
+    ];
+  },
+});
+
+const AiOriginMark = Mark.create({
+  name: 'aiOrigin',
+  inclusive: false,
+  addAttributes() {
+    return {
+      id: {
+        default: '',
+        parseHTML: (element) => element.getAttribute(AI_ORIGIN_ATTRIBUTE) || '',
+        renderHTML: () => ({}),
+      },
+      operation: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-ai-operation') || '',
+        renderHTML: () => ({}),
+      },
+      date: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-ai-date') || '',
+        renderHTML: () => ({}),
+      },
+      words: {
+        default: 0,
+        parseHTML: (element) => Number.parseInt(element.getAttribute('data-ai-words') || '0', 10) || 0,
+        renderHTML: () => ({}),
+      },
+    };
+  },
+  parseHTML() {
+    return [{ tag: `span[${AI_ORIGIN_ATTRIBUTE}]` }];
+  },
+  renderHTML({ mark, HTMLAttributes }) {
+    const date = String(mark.attrs.date || '');
+    const parsedDate = date ? new Date(date) : null;
+    const dateLabel = parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toLocaleString() : '';
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        class: 'ai-origin',
+        [AI_ORIGIN_ATTRIBUTE]: String(mark.attrs.id || ''),
+        'data-ai-operation': String(mark.attrs.operation || ''),
+        'data-ai-date': date,
+        'data-ai-words': String(mark.attrs.words || 0),
+        title: ['Texto IA', String(mark.attrs.operation || ''), dateLabel].filter(Boolean).join(' | '),
+      }),
+      0,
+    ];
+  },
+});
+
+// Lo que escribe una persona nunca hereda la marca IA, y un parrafo IA reescrito en su mayoria deja de
+// contarse como IA: si quedan menos palabras que AI_ORIGIN_REWRITE_KEEP_RATIO de las originales, se quita.
+function clearRewrittenAiOrigin(
+  transactions: readonly Transaction[],
+  newState: EditorState,
+): Transaction | null {
+  const markType = newState.schema.marks.aiOrigin;
+  const humanTransactions = transactions.filter(
+    (transaction) =>
+      transaction.docChanged &&
+      !transaction.getMeta(AI_ORIGIN_SKIP_META) &&
+      !transaction.getMeta(TRACK_CHANGES_SKIP_META) &&
+      !transaction.getMeta('history$') &&
+      !transaction.getMeta('preventUpdate'),
+  );
+  if (!markType || humanTransactions.length === 0) {
+    return null;
+  }
+
+  const tr = newState.tr;
+  transactions.forEach((transaction, transactionIndex) => {
+    if (!humanTransactions.includes(transaction)) {
+      return;
+    }
+    transaction.steps.forEach((step, stepIndex) => {
+      if (!(step instanceof ReplaceStep) || step.slice.size === 0) {
+        return;
+      }
+      // Cargar o reemplazar el documento completo (incluida la IA) conserva las marcas que trae.
+      if (step.from === 0 && step.to === transaction.docs[stepIndex].content.size) {
+        return;
+      }
+      const mapAfter = (pos: number, assoc: number) => {
+        let mapped = transaction.mapping.slice(stepIndex + 1).map(pos, assoc);
+        for (let index = transactionIndex + 1; index < transactions.length; index += 1) {
+          mapped = transactions[index].mapping.map(mapped, assoc);
+        }
+        return mapped;
+      };
+      const from = mapAfter(step.from, -1);
+      const to = mapAfter(step.from + step.slice.size, 1);
+      if (to > from) {
+        tr.removeMark(from, to, markType);
+      }
+    });
+  });
+
+  tr.doc.descendants((node, nodeStart) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+    const groups = new Map<string, { mark: ProseMirrorMark; text: string; ranges: Array<[number, number]> }>();
+    node.descendants((child, childPos) => {
+      const mark = child.isText ? markType.isInSet(child.marks) : undefined;
+      if (!mark) {
+        return false;
+      }
+      const from = nodeStart + 1 + childPos;
+      const group = groups.get(String(mark.attrs.id)) ?? { mark, text: '', ranges: [] };
+      group.text += ` ${child.text ?? ''}`;
+      group.ranges.push([from, from + child.nodeSize]);
+      groups.set(String(mark.attrs.id), group);
+      return false;
+    });
+    for (const group of groups.values()) {
+      const original = Number(group.mark.attrs.words) || 0;
+      if (original > 0 && countAiOriginWords(group.text) < original * AI_ORIGIN_REWRITE_KEEP_RATIO) {
+        for (const [from, to] of group.ranges) {
+          tr.removeMark(from, to, markType);
+        }
+      }
+    }
+    return false;
+  });
+
+  return tr.docChanged ? tr.setMeta(AI_ORIGIN_SKIP_META, true) : null;
+}
+
+const AiOriginExtension = Extension.create({
+  name: 'aiOriginTracking',
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: AI_ORIGIN_PLUGIN_KEY,
+        appendTransaction(transactions, _oldState, newState) {
+          return clearRewrittenAiOrigin(transactions, newState);
+        },
+      }),
+    ];
+  },
+});
+
+// Los saltos de escena guardan en data-scene-id la escena que abren (lib/scenes.ts); Enter no lo copia.
+const SceneIdAttributeExtension = Extension.create({
+  name: 'sceneIdAttribute',
+  addGlobalAttributes() {
+    return [
+      {
+        types: ['paragraph'],
+        attributes: {
+          sceneId: {
+            default: null,
+            keepOnSplit: false,
+            parseHTML: (element) => element.getAttribute('data-scene-id'),
+            renderHTML: (attributes) => (attributes.sceneId ? { 'data-scene-id': attributes.sceneId } : {}),
+          },
+        },
+      },
+    ];
+  },
+});
+
+function findCommentRanges(doc: ProseMirrorNode, commentId: string): Array<{ from: number; to: number }> {
+  const ranges: Array<{ from: number; to: number }> = [];
+  doc.descendants((node, pos) => {
+    if (!node.isInline) {
+      return true;
+    }
+    if (node.marks.some((mark) => mark.type.name === 'manuscriptComment' && mark.attrs.commentId === commentId)) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.to === pos) {
+        last.to = pos + node.nodeSize;
+      } else {
+        ranges.push({ from: pos, to: pos + node.nodeSize });
+      }
+    }
+    return false;
+  });
+  return ranges;
+}
+
+// Reutiliza el cambio vecino del mismo autor para que teclear seguido no genere un cambio por letra.
+function findNeighbourTrackAttributes(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number,
+  markType: MarkType,
+  author: string,
+): TrackedChangeAttributes | null {
+  const $from = doc.resolve(from);
+  const $to = doc.resolve(to);
+  for (const node of [$from.nodeBefore, $to.nodeAfter]) {
+    const mark = node ? markType.isInSet(node.marks) : undefined;
+    if (mark && mark.attrs.author === author && mark.attrs.id) {
+      return { id: String(mark.attrs.id), author, date: String(mark.attrs.date || '') };
+    }
+  }
+  return null;
+}
+
+function collectTrackChangeTargets(transactions: readonly Transaction[], oldState: EditorState): TrackChangeTarget[] {
+  const targets: TrackChangeTarget[] = [];
+
+  transactions.forEach((transaction, transactionIndex) => {
+    transaction.steps.forEach((step, stepIndex) => {
+      if (!(step instanceof ReplaceStep)) {
+        return;
+      }
+
+      const docBefore = transaction.docs[stepIndex];
+      // Reemplazos del documento completo (setContent, aplicar IA) no se registran como cambios.
+      if (step.from === 0 && step.to === docBefore.content.size) {
+        return;
+      }
+
+      const mapAfter = (pos: number, assoc: number) => {
+        let mapped = transaction.mapping.slice(stepIndex + 1).map(pos, assoc);
+        for (let index = transactionIndex + 1; index < transactions.length; index += 1) {
+          mapped = transactions[index].mapping.map(mapped, assoc);
+        }
+        return mapped;
+      };
+      const id = createTrackedChangeId();
+
+      if (step.slice.size > 0) {
+        targets.push({
+          kind: 'insert',
+          from: mapAfter(step.from, -1),
+          to: mapAfter(step.from + step.slice.size, 1),
+          id,
+        });
+      }
+      if (step.to > step.from) {
+        targets.push({
+          kind: 'delete',
+          at: mapAfter(step.from, -1),
+          slice: docBefore.slice(step.from, step.to),
+          id,
+          forward:
+            step.slice.size === 0 && oldState.selection.empty && oldState.selection.from === step.from,
+        });
+      }
+    });
+  });
+
+  return targets;
+}
+
+function sliceHasUntrackedContent(slice: Slice, insertType: MarkType): boolean {
+  let found = false;
+  slice.content.descendants((node) => {
+    if (found) {
+      return false;
+    }
+    if (node.isInline) {
+      found = !insertType.isInSet(node.marks);
+      return false;
+    }
+    return true;
+  });
+  return found;
+}
+
+function applyTrackChangeTargets(state: EditorState, targets: TrackChangeTarget[], author: string): Transaction | null {
+  const insertType = state.schema.marks.trackInsert;
+  const deleteType = state.schema.marks.trackDelete;
+  const tr = state.tr;
+  const date = new Date().toISOString();
+  let cursor: number | null = null;
+
+  // De atras hacia adelante: reinsertar un borrado solo desplaza posiciones ya procesadas.
+  const ordered = [...targets].sort((left, right) => {
+    const leftPos = left.kind === 'insert' ? left.from : left.at;
+    const rightPos = right.kind === 'insert' ? right.from : right.at;
+    if (leftPos !== rightPos) {
+      return rightPos - leftPos;
+    }
+    return left.kind === 'insert' ? -1 : 1;
+  });
+
+  for (const target of ordered) {
+    if (target.kind === 'insert') {
+      if (target.to <= target.from) {
+        continue;
+      }
+      const attrs = findNeighbourTrackAttributes(tr.doc, target.from, target.to, insertType, author) ?? {
+        id: target.id,
+        author,
+        date,
+      };
+      tr.removeMark(target.from, target.to, deleteType);
+      tr.addMark(target.from, target.to, insertType.create(attrs));
+      continue;
+    }
+
+    // Borrar texto que era una insercion pendiente simplemente lo descarta.
+    if (!sliceHasUntrackedContent(target.slice, insertType)) {
+      continue;
+    }
+
+    const sizeBefore = tr.doc.content.size;
+    tr.replace(target.at, target.at, target.slice);
+    const end = target.at + (tr.doc.content.size - sizeBefore);
+    const attrs = findNeighbourTrackAttributes(tr.doc, target.at, end, deleteType, author) ?? {
+      id: target.id,
+      author,
+      date,
+    };
+    const stepsAfterReplace = tr.steps.length;
+    const toMark: Array<[number, number]> = [];
+    const toRemove: Array<[number, number]> = [];
+    tr.doc.nodesBetween(target.at, end, (node, pos) => {
+      if (!node.isInline) {
+        return true;
+      }
+      const range: [number, number] = [Math.max(pos, target.at), Math.min(pos + node.nodeSize, end)];
+      if (insertType.isInSet(node.marks)) {
+        toRemove.push(range);
+      } else if (!deleteType.isInSet(node.marks)) {
+        toMark.push(range);
+      }
+      return false;
+    });
+    for (const [from, to] of toMark) {
+      tr.addMark(from, to, deleteType.create(attrs));
+    }
+    for (const [from, to] of toRemove.reverse()) {
+      tr.delete(from, to);
+    }
+    if (targets.length === 1) {
+      cursor = target.forward ? tr.mapping.slice(stepsAfterReplace).map(end) : target.at;
+    }
+  }
+
+  if (!tr.docChanged) {
+    return null;
+  }
+  if (cursor !== null) {
+    tr.setSelection(TextSelection.create(tr.doc, Math.min(cursor, tr.doc.content.size)));
+  }
+  return tr.setMeta(TRACK_CHANGES_SKIP_META, true);
+}
+
+const TrackChangesExtension = Extension.create<unknown, TrackChangesSettings>({
+  name: 'trackChanges',
+  addStorage() {
+    return { enabled: false, author: '' };
+  },
+  addProseMirrorPlugins() {
+    const settings = this.storage;
+    return [
+      new Plugin({
+        key: TRACK_CHANGES_PLUGIN_KEY,
+        appendTransaction(transactions, oldState, newState) {
+          if (!settings.enabled || !transactions.some((transaction) => transaction.docChanged)) {
+            return null;
+          }
+          // Deshacer/rehacer, cargas de contenido y las propias resoluciones no se vuelven a registrar.
+          const skip = transactions.some(
+            (transaction) =>
+              transaction.getMeta(TRACK_CHANGES_SKIP_META) ||
+              transaction.getMeta('history$') ||
+              transaction.getMeta('preventUpdate'),
+          );
+          if (skip) {
+            return null;
+          }
+
+          const targets = collectTrackChangeTargets(transactions, oldState);
+          return targets.length > 0 ? applyTrackChangeTargets(newState, targets, settings.author) : null;
+        },
+      }),
+    ];
+  },
+});
+
+function resolveTrackedChangesInEditor(
+  instance: NonNullable<ReturnType<typeof useEditor>>,
+  changeId: string | 'all',
+  decision: TrackedChangeDecision,
+): boolean {
+  const { state } = instance;
+  const insertType = state.schema.marks.trackInsert;
+  const deleteType = state.schema.marks.trackDelete;
+  const ranges: Array<{ from: number; to: number; mark: ProseMirrorMark }> = [];
+  const touchedBlocks = new Set<number>();
+
+  state.doc.descendants((node, pos) => {
+    if (!node.isInline) {
+      return true;
+    }
+    for (const mark of node.marks) {
+      if ((mark.type === insertType || mark.type === deleteType) && (changeId === 'all' || mark.attrs.id === changeId)) {
+        ranges.push({ from: pos, to: pos + node.nodeSize, mark });
+        const keep = (mark.type === insertType) === (decision === 'accept');
+        if (!keep) {
+          touchedBlocks.add(state.doc.resolve(pos).before());
+        }
+      }
+    }
+    return false;
+  });
+  if (ranges.length === 0) {
+    return false;
+  }
+
+  const tr = state.tr;
+  for (const range of ranges.reverse()) {
+    const keep = (range.mark.type === insertType) === (decision === 'accept');
+    if (keep) {
+      tr.removeMark(range.from, range.to, range.mark.type);
+    } else {
+      tr.delete(tr.mapping.map(range.from), tr.mapping.map(range.to));
+    }
+  }
+
+  // Un parrafo que quedo vacio porque todo su texto era un cambio descartado se elimina.
+  const emptiedBlocks = Array.from(touchedBlocks)
+    .map((pos) => tr.mapping.map(pos))
+    .sort((left, right) => right - left);
+  for (const pos of emptiedBlocks) {
+    const block = tr.doc.nodeAt(pos);
+    if (block?.isTextblock && block.content.size === 0 && tr.doc.childCount > 1) {
+      tr.delete(pos, pos + block.nodeSize);
+    }
+  }
+
+  instance.view.dispatch(tr.setMeta(TRACK_CHANGES_SKIP_META, true));
+  return true;
+}
+
 function syncSemanticReferencesInEditor(
   instance: NonNullable<ReturnType<typeof useEditor>>,
   catalog: SemanticReferenceCatalogEntry[],
@@ -391,7 +1185,13 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
       scrollPersistenceKey,
       continuityHighlightEnabled = false,
       continuityHighlights = [],
+      proseLintEnabled = false,
+      proseLintLanguage = 'es',
+      styleRules = EMPTY_STYLE_RULES,
       semanticReferencesCatalog = [],
+      trackChangesEnabled = false,
+      trackChangesAuthor = '',
+      aiOriginHighlightEnabled = false,
       onChange,
       onSemanticReferenceOpen,
       onBlur,
@@ -399,6 +1199,7 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
     ref,
   ) => {
     const [semanticSuggestion, setSemanticSuggestion] = useState<SemanticSuggestionState | null>(null);
+    const [styleRuleFix, setStyleRuleFix] = useState<StyleRuleFixState | null>(null);
     const semanticCatalogRef = useRef<SemanticReferenceCatalogEntry[]>(semanticReferencesCatalog);
     const onChangeRef = useRef(onChange);
     const onBlurRef = useRef(onBlur);
@@ -426,6 +1227,11 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
       () => createContinuityHighlightExtension(continuityHighlightEnabled, continuityHighlights),
       [continuityHighlightEnabled, continuityHighlights],
     );
+    const proseLintExtension = useMemo(
+      () => createProseLintExtension(proseLintEnabled, proseLintLanguage),
+      [proseLintEnabled, proseLintLanguage],
+    );
+    const styleRuleExtension = useMemo(() => createStyleRuleExtension(styleRules), [styleRules]);
     const initialNormalizedContent = useMemo(
       () => normalizeEditorSemanticHtml(content, semanticReferencesCatalog),
       [content, semanticReferencesCatalog],
@@ -438,7 +1244,16 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
           placeholder: 'Escribe tu capitulo aqui...',
         }),
         SemanticReferenceNode,
+        TrackInsertMark,
+        TrackDeleteMark,
+        ManuscriptCommentMark,
+        AiOriginMark,
+        TrackChangesExtension,
+        AiOriginExtension,
+        SceneIdAttributeExtension,
         continuityExtension,
+        proseLintExtension,
+        styleRuleExtension,
       ],
       content: initialNormalizedContent,
       autofocus: false,
@@ -457,10 +1272,31 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
           }
           return false;
         },
-        handleClick: (_view, _pos, event) => {
+        handleClick: (view, pos, event) => {
           const target = event.target as HTMLElement | null;
           const referenceElement = target?.closest<HTMLElement>('[data-semantic-ref-kind]');
           if (!referenceElement) {
+            const styleRuleDecorations = STYLE_RULES_PLUGIN_KEY.getState(view.state) as DecorationSet | undefined;
+            const hit = styleRuleDecorations?.find(pos, pos)[0];
+            const violation = (hit?.spec as { violation?: StyleRuleViolation } | undefined)?.violation;
+            if (!hit || !violation?.replacement) {
+              setStyleRuleFix(null);
+              return false;
+            }
+            try {
+              const coords = view.coordsAtPos(hit.from);
+              setStyleRuleFix({
+                from: hit.from,
+                to: hit.to,
+                violation,
+                position: {
+                  top: Math.max(12, Math.min(coords.bottom + 6, window.innerHeight - 140)),
+                  left: Math.max(14, Math.min(coords.left, window.innerWidth - 320)),
+                },
+              });
+            } catch {
+              setStyleRuleFix(null);
+            }
             return false;
           }
 
@@ -488,9 +1324,18 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
       },
       onBlur: () => {
         setSemanticSuggestion(null);
+        setStyleRuleFix(null);
         onBlurRef.current?.();
       },
-    }, [continuityExtension]);
+    }, [continuityExtension, proseLintExtension, styleRuleExtension]);
+
+    useEffect(() => {
+      if (!editor) {
+        return;
+      }
+
+      Object.assign(editor.storage.trackChanges, { enabled: trackChangesEnabled, author: trackChangesAuthor });
+    }, [editor, trackChangesAuthor, trackChangesEnabled]);
 
     const computeSemanticSuggestion = useCallback(
       (instance: NonNullable<ReturnType<typeof useEditor>>, previousIndex = 0): SemanticSuggestionState | null => {
@@ -610,6 +1455,43 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
       };
     }, [computeSemanticSuggestion, editor]);
 
+    const applyStyleRuleFix = useCallback(() => {
+      if (!editor || !styleRuleFix?.violation.replacement) {
+        return;
+      }
+
+      const { from, to, violation } = styleRuleFix;
+      setStyleRuleFix(null);
+      // Si el texto cambio desde el clic, no se corrige a ciegas.
+      if (to > editor.state.doc.content.size || editor.state.doc.textBetween(from, to) !== violation.text) {
+        return;
+      }
+      editor.view.dispatch(editor.state.tr.insertText(violation.replacement ?? '', from, to));
+      editor.commands.focus();
+    }, [editor, styleRuleFix]);
+
+    useEffect(() => {
+      if (!editor || !styleRuleFix) {
+        return;
+      }
+
+      const hideStyleRuleFix = () => {
+        setStyleRuleFix(null);
+      };
+      const handleEscape = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+          setStyleRuleFix(null);
+        }
+      };
+
+      editor.on('update', hideStyleRuleFix);
+      window.addEventListener('keydown', handleEscape, true);
+      return () => {
+        editor.off('update', hideStyleRuleFix);
+        window.removeEventListener('keydown', handleEscape, true);
+      };
+    }, [editor, styleRuleFix]);
+
     useEffect(() => {
       if (!editor || !semanticSuggestion) {
         return;
@@ -795,25 +1677,59 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
 
         return [before, replacement, after].filter((part) => part.length > 0).join('\n\n');
       },
-      replaceSelectionWithText: (value: string) => {
+      extractSelectionReplacement: (fullText: string) => {
+        if (!editor || editor.state.selection.empty) {
+          return null;
+        }
+
+        const { from, to } = editor.state.selection;
+        const before = editor.state.doc.textBetween(0, from, '\n\n').trim();
+        const after = editor.state.doc.textBetween(to, editor.state.doc.content.size, '\n\n').trim();
+        const text = fullText.trim();
+        if (!text.startsWith(before) || !text.endsWith(after) || before.length + after.length > text.length) {
+          return null;
+        }
+
+        return text.slice(before.length, text.length - after.length).trim();
+      },
+      replaceSelectionWithText: (value: string, aiOrigin?: AiOriginInput) => {
         if (!editor) {
           return;
         }
 
-        const html = plainTextToHtml(value);
-        if (editor.state.selection.empty) {
+        const { doc, selection } = editor.state;
+        const replacedText = selection.empty
+          ? doc.textBetween(0, doc.content.size, '\n\n')
+          : doc.textBetween(selection.from, selection.to, '\n\n');
+        const html = aiOrigin
+          ? buildAiMarkedHtml(replacedText, value, aiOrigin, { beforeHtml: selection.empty ? editor.getHTML() : '' })
+          : plainTextToHtml(value);
+        if (selection.empty) {
           editor.commands.setContent(html, { emitUpdate: true });
           return;
         }
 
-        editor.chain().focus().insertContent(html).run();
+        editor
+          .chain()
+          .focus()
+          .command(({ tr }) => {
+            tr.setMeta(AI_ORIGIN_SKIP_META, Boolean(aiOrigin));
+            return true;
+          })
+          .insertContent(html)
+          .run();
       },
-      replaceDocumentWithText: (value: string) => {
+      replaceDocumentWithText: (value: string, aiOrigin?: AiOriginInput) => {
         if (!editor) {
           return;
         }
 
-        editor.commands.setContent(plainTextToHtml(value), { emitUpdate: true });
+        const html = aiOrigin
+          ? buildAiMarkedHtml(editor.state.doc.textBetween(0, editor.state.doc.content.size, '\n\n'), value, aiOrigin, {
+              beforeHtml: editor.getHTML(),
+            })
+          : plainTextToHtml(value);
+        editor.commands.setContent(html, { emitUpdate: true });
       },
       getHTML: () => editor?.getHTML() ?? '',
       getJSON: () => editor?.getJSON() ?? null,
@@ -838,6 +1754,83 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
       focus: () => {
         editor?.chain().focus().run();
       },
+      revealText: (value: string) => {
+        if (!editor) {
+          return false;
+        }
+
+        const candidates = [value, ...value.split(/(?<=[.!?…])\s+/)]
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length >= 3)
+          .sort((left, right) => right.length - left.length);
+        for (const candidate of candidates) {
+          const range = findTextRangeInDoc(editor.state.doc, candidate);
+          if (range) {
+            editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+            return true;
+          }
+        }
+
+        return false;
+      },
+      revealSearchMatch: (pattern: RegExp, occurrenceIndex: number) => {
+        if (!editor || occurrenceIndex < 0) {
+          return false;
+        }
+
+        const range = findSearchMatchRangeInDoc(editor.state.doc, pattern, occurrenceIndex);
+        if (!range) {
+          return false;
+        }
+        editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+        return true;
+      },
+      resolveTrackedChange: (changeId: string | 'all', decision: TrackedChangeDecision) => {
+        if (!editor) {
+          return false;
+        }
+
+        return resolveTrackedChangesInEditor(editor, changeId, decision);
+      },
+      anchorCommentOnSelection: (commentId: string) => {
+        if (!editor || editor.state.selection.empty) {
+          return false;
+        }
+
+        const { from, to } = editor.state.selection;
+        const markType = editor.state.schema.marks.manuscriptComment;
+        editor.view.dispatch(
+          editor.state.tr.addMark(from, to, markType.create({ commentId })).setMeta(TRACK_CHANGES_SKIP_META, true),
+        );
+        return true;
+      },
+      removeCommentAnchor: (commentId: string) => {
+        if (!editor) {
+          return;
+        }
+
+        const tr = editor.state.tr;
+        const markType = editor.state.schema.marks.manuscriptComment;
+        for (const range of findCommentRanges(editor.state.doc, commentId)) {
+          tr.removeMark(range.from, range.to, markType.create({ commentId }));
+        }
+        if (tr.docChanged) {
+          editor.view.dispatch(tr.setMeta(TRACK_CHANGES_SKIP_META, true));
+        }
+      },
+      revealComment: (commentId: string) => {
+        if (!editor) {
+          return false;
+        }
+
+        const [range] = findCommentRanges(editor.state.doc, commentId);
+        if (!range) {
+          return false;
+        }
+
+        editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+        return true;
+      },
     }), [editor]);
 
     return (
@@ -845,7 +1838,7 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
         <EditorContent
           ref={editorWrapperRef}
           editor={editor}
-          className="tiptap-wrapper"
+          className={`tiptap-wrapper${aiOriginHighlightEnabled ? ' show-ai-origin' : ''}`}
           style={{
             ['--editor-line-height' as string]: `${interiorFormat.lineHeight}`,
             ['--editor-indent' as string]: `${interiorFormat.paragraphIndentEm}em`,
@@ -897,6 +1890,45 @@ const TiptapEditorBase = forwardRef<TiptapEditorHandle, TiptapEditorProps>(
             </ul>
           </div>
         ) : null}
+        {styleRuleFix ? (
+          <div
+            className="semantic-ref-suggest-menu style-rule-fix-menu"
+            style={{
+              top: `${styleRuleFix.position.top}px`,
+              left: `${styleRuleFix.position.left}px`,
+            }}
+            role="dialog"
+            aria-label="Correccion de glosario"
+          >
+            <p className="semantic-ref-suggest-title">{styleRuleFix.violation.message}</p>
+            <ul>
+              <li>
+                <button
+                  type="button"
+                  className="is-active"
+                  onMouseDown={(event) => {
+                    event.preventDefault();
+                    applyStyleRuleFix();
+                  }}
+                >
+                  <strong>Reemplazar por "{styleRuleFix.violation.replacement}"</strong>
+                  <small>"{styleRuleFix.violation.text}"</small>
+                </button>
+              </li>
+              <li>
+                <button
+                  type="button"
+                  onMouseDown={(event) => {
+                    event.preventDefault();
+                    setStyleRuleFix(null);
+                  }}
+                >
+                  <strong>Ignorar</strong>
+                </button>
+              </li>
+            </ul>
+          </div>
+        ) : null}
       </>
     );
   },
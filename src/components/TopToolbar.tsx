@@ -8,9 +8,12 @@ import {
   Compass,
   Database,
   FileText,
+  FileUp,
+  Flame,
   FolderOpen,
   GitBranch,
   GitCompare,
+  GitMerge,
   Grid3x3,
   LayoutDashboard,
   Languages,
@@ -21,8 +24,10 @@ import {
   NotebookPen,
   Search,
   Settings,
+  ShieldCheck,
   ShoppingCart,
   Users,
+  Volume2,
   type LucideIcon,
 } from 'lucide-react';
 import type { MainView } from '../types/book';
@@ -37,12 +42,14 @@ interface TopToolbarProps {
   focusMode: boolean;
   onCreateBook: () => void;
   onOpenBook: () => void;
+  onImportManuscript: () => void;
   onCloseBook: () => void;
   onToggleFocusMode: () => void;
   onShowEditor: () => void;
   onShowOutline: () => void;
   onShowPreview: () => void;
   onShowDiff: () => void;
+  onShowBranches: () => void;
   onShowStyle: () => void;
   onShowCover: () => void;
   onShowFoundation: () => void;
@@ -57,8 +64,11 @@ interface TopToolbarProps {
   onShowSearch: () => void;
   onShowSettings: () => void;
   onShowLanguage: () => void;
+  onShowPronunciation: () => void;
   onShowScratchpad: () => void;
   onShowLooseThreads: () => void;
+  onShowSessions: () => void;
+  onShowConsistency: () => void;
   onShowCharMatrix: () => void;
   onQuitApp: () => void;
 }
@@ -86,14 +96,18 @@ const VIEW_MODE_MAP: Partial<Record<MainView, ToolbarMode>> = {
   editor: 'escritura',
   outline: 'escritura',
   diff: 'escritura',
+  branches: 'escritura',
   style: 'escritura',
   search: 'escritura',
   scratchpad: 'escritura',
   'loose-threads': 'escritura',
+  sessions: 'escritura',
+  consistency: 'escritura',
   'char-matrix': 'escritura',
   foundation: 'mundo',
   bible: 'mundo',
   language: 'mundo',
+  pronunciation: 'mundo',
   saga: 'saga',
   timeline: 'saga',
   plot: 'saga',
@@ -142,6 +156,14 @@ function buildModes(props: TopToolbarProps): ModeConfig[] {
           disabled: !props.hasBook,
           onClick: props.onShowDiff,
         },
+        {
+          id: 'branches',
+          label: 'Ramas',
+          title: 'Ramas de borrador del libro y fusion a tres vias por capitulo.',
+          icon: GitMerge,
+          disabled: !props.hasBook,
+          onClick: props.onShowBranches,
+        },
         {
           id: 'style',
           label: 'Estilo',
@@ -174,6 +196,22 @@ function buildModes(props: TopToolbarProps): ModeConfig[] {
           disabled: !props.hasBook,
           onClick: props.onShowLooseThreads,
         },
+        {
+          id: 'sessions',
+          label: 'Sesiones',
+          title: 'Registro de sesiones, metas diarias, racha y proyeccion a fecha limite.',
+          icon: Flame,
+          disabled: !props.hasBook,
+          onClick: props.onShowSessions,
+        },
+        {
+          id: 'consistency',
+          label: 'Consistencia',
+          title: 'Verificador de consistencia de todo el manuscrito contra biblia y saga.',
+          icon: ShieldCheck,
+          disabled: !props.hasBook,
+          onClick: props.onShowConsistency,
+        },
         {
           id: 'char-matrix',
           label: 'Matriz',
@@ -216,6 +254,14 @@ function buildModes(props: TopToolbarProps): ModeConfig[] {
           disabled: !props.hasBook,
           onClick: props.onShowLanguage,
         },
+        {
+          id: 'pronunciation',
+          label: 'Pronunciacion',
+          title: 'Diccionario de pronunciacion para lectura en voz alta y audiolibro.',
+          icon: Volume2,
+          disabled: !props.hasBook,
+          onClick: props.onShowPronunciation,
+        },
       ],
     },
     {
@@ -336,6 +382,15 @@ function TopToolbar(props: TopToolbarProps) {
           <FolderOpen size={16} />
           <span>Abrir</span>
         </button>
+        <button
+          type="button"
+          className="icon-button"
+          onClick={props.onImportManuscript}
+          title="Importar manuscrito desde Word (.docx), EPUB, Markdown o texto plano como libro nuevo."
+        >
+          <FileUp size={16} />
+          <span>Importar</span>
+        </button>
         <button
           type="button"
           className="icon-button"
@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
-import { diffTextBlocks, summarizeDiffOperations } from '../lib/diff';
+import { diffParagraphs, summarizeParagraphDiff, type DiffGranularity } from '../lib/diff';
 import { listChapterSnapshots } from '../lib/storage';
 import { stripHtml } from '../lib/text';
 import type { ChapterDocument, ChapterSnapshot } from '../types/book';
+import ParagraphDiffList from './ParagraphDiffList';
 
 interface VersionDiffViewProps {
   bookPath: string | null;
@@ -49,6 +50,7 @@ function VersionDiffView(props: VersionDiffViewProps) {
   const [chapterSelection, setChapterSelection] = useState<string>('');
   const [leftSelection, setLeftSelection] = useState<string>(CURRENT_VERSION_KEY);
   const [rightSelection, setRightSelection] = useState<string>(CURRENT_VERSION_KEY);
+  const [granularity, setGranularity] = useState<DiffGranularity>('word');
   const [snapshots, setSnapshots] = useState<ChapterSnapshot[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -210,16 +212,17 @@ function VersionDiffView(props: VersionDiffViewProps) {
     return snapshot ? stripHtml(snapshot.chapter.content) : '';
   }, [activeChapter, rightVersionKey, snapshotByVersion]);
 
-  const operations = useMemo(() => diffTextBlocks(leftText, rightText), [leftText, rightText]);
-  const summary = useMemo(() => summarizeDiffOperations(operations), [operations]);
-  const hasChanges = summary.insertCount > 0 || summary.deleteCount > 0;
+  const entries = useMemo(() => diffParagraphs(leftText, rightText, granularity), [leftText, rightText, granularity]);
+  const summary = useMemo(() => summarizeParagraphDiff(entries), [entries]);
+  const hasChanges = summary.hunkCount > 0;
 
   return (
     <section className="diff-view">
       <header>
         <h2>Control de cambios</h2>
         <p>
-          Compara versiones historicas con el estado actual del capitulo. Verde = agregado, rojo = eliminado.
+          Compara versiones historicas con el estado actual del capitulo. Verde = agregado, rojo = eliminado; los
+          parrafos reescritos marcan los cambios dentro del texto y los movidos se senalan en origen y destino.
         </p>
       </header>
 
@@ -259,6 +262,13 @@ function VersionDiffView(props: VersionDiffViewProps) {
             ))}
           </select>
         </label>
+        <label>
+          Detalle
+          <select value={granularity} onChange={(event) => setGranularity(event.target.value as DiffGranularity)}>
+            <option value="word">Por palabra</option>
+            <option value="char">Por caracter</option>
+          </select>
+        </label>
         <button
           type="button"
           onClick={() => {
@@ -319,20 +329,14 @@ function VersionDiffView(props: VersionDiffViewProps) {
       ) : (
         <>
           <p className="muted">
-            Bloques sin cambios: {summary.equalCount} | agregados: {summary.insertCount} | eliminados: {summary.deleteCount}
+            Parrafos sin cambios: {summary.equalCount} | reescritos: {summary.modifyCount} | agregados:{' '}
+            {summary.insertCount} | eliminados: {summary.deleteCount} | movidos: {summary.moveCount}
           </p>
           {!hasChanges ? (
             <p className="muted">No hay diferencias entre las versiones seleccionadas.</p>
           ) : null}
           <div className="diff-output-list">
-            {operations.map((operation, index) => (
-              <article key={`${operation.type}-${index}`} className={`diff-block diff-${operation.type}`}>
-                <header>
-                  {operation.type === 'insert' ? '+' : operation.type === 'delete' ? '-' : '='}
-                </header>
-                <p>{operation.value || ' '}</p>
-              </article>
-            ))}
+            <ParagraphDiffList entries={entries} blockClassName="diff-block" />
           </div>
         </>
       )}
@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import { formatNumber } from '../lib/metrics';
+import { parseLocaleNumber } from '../lib/numberInput';
+import {
+  buildStreakCalendar,
+  buildWritingGoalProjection,
+  computeSprintWordsPerMinute,
+  computeWritingStreak,
+  summarizeWritingDay,
+  toLocalDateKey,
+  type WritingGoals,
+  type WritingSessionLog,
+} from '../lib/writingSessions';
+import type { ChapterDocument } from '../types/book';
+
+interface WritingSessionsViewProps {
+  log: WritingSessionLog | null;
+  chapters: ChapterDocument[];
+  currentWords: number;
+  onUpdateGoals: (goals: WritingGoals) => void;
+  onExportCsv: () => void;
+}
+
+const CALENDAR_WEEKS = 17;
+const RECENT_DAYS = 14;
+const RECENT_SPRINTS = 20;
+const WEEKDAY_LABELS = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+function formatMinutes(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+function formatDateLabel(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map((part) => Number.parseInt(part, 10));
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+function parseGoalInput(value: string): number | null {
+  const parsed = parseLocaleNumber(value);
+  return parsed !== null && parsed > 0 ? Math.round(parsed) : null;
+}
+
+function WritingSessionsView(props: WritingSessionsViewProps) {
+  const [today] = useState(() => toLocalDateKey(new Date()));
+  const goals = props.log?.goals ?? { dailyWords: null, targetWords: null, deadline: null };
+  const [dailyInput, setDailyInput] = useState(goals.dailyWords !== null ? String(goals.dailyWords) : '');
+  const [targetInput, setTargetInput] = useState(goals.targetWords !== null ? String(goals.targetWords) : '');
+  const [deadlineInput, setDeadlineInput] = useState(goals.deadline ?? '');
+
+  const titleById = useMemo(
+    () => new Map(props.chapters.map((chapter) => [chapter.id, chapter.title || chapter.id])),
+    [props.chapters],
+  );
+
+  if (!props.log) {
+    return (
+      <section className="writing-sessions-view">
+        <p className="muted">Cargando registro de sesiones...</p>
+      </section>
+    );
+  }
+
+  const log = props.log;
+  const todayDay = log.days.find((day) => day.date === today);
+  const todaySummary = todayDay ? summarizeWritingDay(todayDay) : { added: 0, removed: 0, net: 0, activeSeconds: 0 };
+  const streak = computeWritingStreak(log, today);
+  const projection = buildWritingGoalProjection(log, props.currentWords, today);
+  const calendar = buildStreakCalendar(log, today, CALENDAR_WEEKS);
+  const recentDays = log.days.slice(-RECENT_DAYS).reverse();
+  const recentSprints = log.sprints.slice(-RECENT_SPRINTS).reverse();
+  const dailyGoal = goals.dailyWords ?? 0;
+  const dailyPct = dailyGoal > 0 ? Math.min(100, Math.round((Math.max(0, todaySummary.net) / dailyGoal) * 100)) : 0;
+  const pendingGoals: WritingGoals = {
+    dailyWords: parseGoalInput(dailyInput),
+    targetWords: parseGoalInput(targetInput),
+    deadline: /^\d{4}-\d{2}-\d{2}$/.test(deadlineInput) ? deadlineInput : null,
+  };
+  const goalsDirty = JSON.stringify(pendingGoals) !== JSON.stringify(goals);
+
+  return (
+    <section className="writing-sessions-view">
+      <header>
+        <h2>Sesiones y metas</h2>
+        <p>
+          Palabras agregadas y borradas en el editor por dia y capitulo, tiempo de escritura activa, racha y proyeccion a la
+          fecha limite. Los cambios aplicados por IA no suman.
+        </p>
+      </header>
+
+      <div className="writing-sessions-summary">
+        <article>
+          <h3>Hoy</h3>
+          <strong>{formatNumber(todaySummary.net)} palabras netas</strong>
+          <small className="muted">
+            +{formatNumber(todaySummary.added)} / -{formatNumber(todaySummary.removed)} | {formatMinutes(todaySummary.activeSeconds)}
+          </small>
+          {dailyGoal > 0 && (
+            <div className="outline-word-bar" title={`${todaySummary.net} / ${dailyGoal} palabras`}>
+              <div className={`outline-word-bar-fill ${dailyPct >= 100 ? 'is-over' : ''}`} style={{ width: `${dailyPct}%` }} />
+              <span className="outline-word-bar-label">
+                {formatNumber(Math.max(0, todaySummary.net))} / {formatNumber(dailyGoal)} ({dailyPct}%)
+              </span>
+            </div>
+          )}
+        </article>
+        <article>
+          <h3>Racha</h3>
+          <strong>{streak.current} dia/s</strong>
+          <small className="muted">
+            Mejor racha: {streak.best} | {dailyGoal > 0 ? `cuenta con ${formatNumber(dailyGoal)}+ palabras` : 'cuenta si sumas palabras'}
+          </small>
+        </article>
+        <article>
+          <h3>Proyecto</h3>
+          {goals.targetWords ? (
+            <>
+              <strong>
+                {formatNumber(props.currentWords)} / {formatNumber(goals.targetWords)} palabras
+              </strong>
+              <small className="muted">
+                Faltan {formatNumber(projection.remainingWords)} | ritmo 7 dias: {formatNumber(projection.averagePerDay)}/dia
+              </small>
+              {projection.requiredPerDay !== null && (
+                <small className={projection.onTrack === false ? 'warning-text' : 'muted'}>
+                  {projection.daysLeft === 0
+                    ? 'La fecha limite ya paso.'
+                    : `Necesitas ${formatNumber(projection.requiredPerDay)} palabras/dia durante ${projection.daysLeft} dia/s.`}
+                </small>
+              )}
+              <small className="muted">
+                {projection.projectedFinishDate
+                  ? `A este ritmo terminas el ${formatDateLabel(projection.projectedFinishDate)}.`
+                  : 'Sin ritmo reciente para proyectar el final.'}
+              </small>
+            </>
+          ) : (
+            <small className="muted">Define una meta total para ver la proyeccion.</small>
+          )}
+        </article>
+      </div>
+
+      <div className="loose-threads-toolbar">
+        <label>
+          Meta diaria (palabras)
+          <input inputMode="numeric" value={dailyInput} onChange={(event) => setDailyInput(event.target.value)} placeholder="Ej: 1667" />
+        </label>
+        <label>
+          Meta del proyecto (palabras)
+          <input inputMode="numeric" value={targetInput} onChange={(event) => setTargetInput(event.target.value)} placeholder="Ej: 50000" />
+        </label>
+        <label>
+          Fecha limite
+          <input type="date" value={deadlineInput} onChange={(event) => setDeadlineInput(event.target.value)} />
+        </label>
+        <button type="button" disabled={!goalsDirty} onClick={() => props.onUpdateGoals(pendingGoals)}>
+          Guardar metas
+        </button>
+        <button type="button" disabled={log.days.length === 0} onClick={props.onExportCsv}>
+          Exportar CSV
+        </button>
+      </div>
+
+      <div className="writing-streak-calendar" aria-label="Calendario de racha">
+        <div className="writing-streak-weekdays">
+          {WEEKDAY_LABELS.map((label) => (
+            <span key={label}>{label}</span>
+          ))}
+        </div>
+        <div className="writing-streak-grid">
+          {calendar.flat().map((cell) => (
+            <span
+              key={cell.date}
+              className={`writing-streak-cell level-${cell.level}${cell.metGoal ? ' is-met' : ''}${cell.isFuture ? ' is-future' : ''}${cell.date === today ? ' is-today' : ''}`}
+              title={`${formatDateLabel(cell.date)}: ${formatNumber(cell.net)} palabras netas`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {recentDays.length === 0 ? (
+        <p className="muted">Todavia no hay sesiones registradas. Escribe en el editor y se iran sumando.</p>
+      ) : (
+        <table className="writing-sessions-table">
+          <thead>
+            <tr>
+              <th>Dia</th>
+              <th>Agregadas</th>
+              <th>Borradas</th>
+              <th>Neto</th>
+              <th>Tiempo</th>
+              <th>Capitulos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recentDays.map((day) => {
+              const summary = summarizeWritingDay(day);
+              return (
+                <tr key={day.date}>
+                  <td>{formatDateLabel(day.date)}</td>
+                  <td>+{formatNumber(summary.added)}</td>
+                  <td>-{formatNumber(summary.removed)}</td>
+                  <td>{formatNumber(summary.net)}</td>
+                  <td>{formatMinutes(summary.activeSeconds)}</td>
+                  <td>
+                    {Object.keys(day.chapters)
+                      .map((chapterId) => titleById.get(chapterId) ?? chapterId)
+                      .join(', ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <h3>Sprints recientes</h3>
+      {recentSprints.length === 0 ? (
+        <p className="muted">Sin sprints todavia. Inicia uno desde la mesa de escritura del editor.</p>
+      ) : (
+        <table className="writing-sessions-table">
+          <thead>
+            <tr>
+              <th>Inicio</th>
+              <th>Capitulo</th>
+              <th>Duracion</th>
+              <th>Palabras</th>
+              <th>Ritmo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recentSprints.map((sprint) => {
+              const delta = sprint.endWords - sprint.startWords;
+              return (
+                <tr key={sprint.id}>
+                  <td>{new Date(sprint.startedAt).toLocaleString()}</td>
+                  <td>{titleById.get(sprint.chapterId) ?? sprint.chapterId}</td>
+                  <td>
+                    {formatMinutes(sprint.durationSeconds)}
+                    {sprint.completed ? '' : ` de ${sprint.plannedMinutes} (cortado)`}
+                  </td>
+                  <td>
+                    {formatNumber(sprint.startWords)} → {formatNumber(sprint.endWords)} ({delta >= 0 ? '+' : ''}
+                    {formatNumber(delta)})
+                  </td>
+                  <td>{formatNumber(computeSprintWordsPerMinute(delta, sprint.durationSeconds))} ppm</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default WritingSessionsView;
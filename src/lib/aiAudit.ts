@@ -0,0 +1,256 @@
+import { diffParagraphs } from './diff';
+import type { ChapterDocument } from '../types/book';
+import { countWordsFromHtml } from './metrics';
+
+// Registros de ai-audit/. Desde la version 2 cada registro incluye el hash del anterior
+// (cadena tipo ledger): borrar o editar una entrada rompe la cadena y el verificador lo detecta.
+
+export interface AiAuditChapterSummary {
+  chapterId: string;
+  chapterTitle: string;
+  beforeText: string;
+  afterText: string;
+  beforeWords: number;
+  afterWords: number;
+  deltaWords: number;
+}
+
+export type AiAuditStatus = 'applied' | 'cancelled' | 'rolled_back' | 'blocked';
+
+export interface AiAuditRecord {
+  version: 1 | 2;
+  hash: string;
+  createdAt: string;
+  sessionId: string;
+  scope: 'chapter' | 'book';
+  operation: string;
+  status: AiAuditStatus;
+  reason: string;
+  chapterCount: number;
+  chapterSummaries: AiAuditChapterSummary[];
+  metadata: Record<string, unknown>;
+  // Solo version 2.
+  sequence?: number;
+  previousHash?: string | null;
+}
+
+export interface AiAuditChainHead {
+  sequence: number;
+  hash: string;
+  fileName: string;
+  updatedAt: string;
+}
+
+export type AiAuditIssueKind = 'unreadable' | 'hash-mismatch' | 'broken-link' | 'sequence-gap' | 'head-mismatch';
+
+export interface AiAuditIssue {
+  fileName: string;
+  kind: AiAuditIssueKind;
+  message: string;
+}
+
+export interface AiAuditVerificationEntry {
+  fileName: string;
+  record: AiAuditRecord | null;
+  computedHash: string | null;
+}
+
+export interface AiAuditVerificationReport {
+  checkedAt: string;
+  totalRecords: number;
+  chainedRecords: number;
+  legacyRecords: number;
+  issues: AiAuditIssue[];
+  isIntact: boolean;
+}
+
+export interface AiProvenanceChapterRow {
+  chapterId: string;
+  title: string;
+  sessions: number;
+  aiWordsInserted: number;
+  aiWordsRemoved: number;
+  currentWords: number;
+  operations: string[];
+}
+
+export const AI_AUDIT_CHAIN_HEAD_FILE = 'chain-head.json';
+
+// La semilla de la version 1 se conserva tal cual para poder verificar registros antiguos.
+export function buildAiAuditHashSeed(record: Omit<AiAuditRecord, 'hash'>): string {
+  const content = {
+    sessionId: record.sessionId,
+    scope: record.scope,
+    operation: record.operation,
+    status: record.status,
+    reason: record.reason ?? '',
+    chapterSummaries: record.chapterSummaries.map((entry) => ({
+      chapterId: entry.chapterId,
+      chapterTitle: entry.chapterTitle,
+      beforeText: entry.beforeText,
+      afterText: entry.afterText,
+      beforeWords: entry.beforeWords,
+      afterWords: entry.afterWords,
+      deltaWords: entry.deltaWords,
+    })),
+    metadata: record.metadata ?? {},
+  };
+  if (record.version !== 2) {
+    return JSON.stringify(content);
+  }
+  return JSON.stringify({
+    version: 2,
+    sequence: record.sequence ?? 0,
+    previousHash: record.previousHash ?? null,
+    createdAt: record.createdAt,
+    ...content,
+  });
+}
+
+export function analyzeAiAuditChain(
+  entries: AiAuditVerificationEntry[],
+  head: AiAuditChainHead | null,
+  checkedAt: string,
+): AiAuditVerificationReport {
+  const issues: AiAuditIssue[] = [];
+  const chained: Array<{ fileName: string; record: AiAuditRecord }> = [];
+  let legacyRecords = 0;
+
+  for (const entry of entries) {
+    if (!entry.record) {
+      issues.push({ fileName: entry.fileName, kind: 'unreadable', message: 'No se pudo leer el registro.' });
+      continue;
+    }
+    if (entry.computedHash !== entry.record.hash) {
+      issues.push({
+        fileName: entry.fileName,
+        kind: 'hash-mismatch',
+        message: 'El contenido no coincide con su hash: el registro fue editado.',
+      });
+    }
+    if (entry.record.version === 2 && typeof entry.record.sequence === 'number') {
+      chained.push({ fileName: entry.fileName, record: entry.record });
+    } else {
+      legacyRecords += 1;
+    }
+  }
+
+  chained.sort((left, right) => (left.record.sequence ?? 0) - (right.record.sequence ?? 0));
+  let expectedSequence = 1;
+  let previousHash: string | null = null;
+  for (const { fileName, record } of chained) {
+    const sequence = record.sequence ?? 0;
+    if (sequence < expectedSequence) {
+      issues.push({ fileName, kind: 'broken-link', message: `Secuencia ${sequence} duplicada.` });
+      continue;
+    }
+    if (sequence > expectedSequence) {
+      issues.push({
+        fileName,
+        kind: 'sequence-gap',
+        message:
+          sequence - expectedSequence === 1
+            ? `Falta el registro ${expectedSequence}.`
+            : `Faltan los registros ${expectedSequence} a ${sequence - 1}.`,
+      });
+    } else if ((record.previousHash ?? null) !== previousHash) {
+      issues.push({ fileName, kind: 'broken-link', message: `El registro ${sequence} no enlaza con el hash del anterior.` });
+    }
+    expectedSequence = sequence + 1;
+    previousHash = record.hash;
+  }
+
+  const last = chained[chained.length - 1]?.record ?? null;
+  if (head && (!last || last.sequence !== head.sequence || last.hash !== head.hash)) {
+    issues.push({
+      fileName: head.fileName || AI_AUDIT_CHAIN_HEAD_FILE,
+      kind: 'head-mismatch',
+      message: `La cabeza de la cadena apunta al registro ${head.sequence}, pero el ultimo encontrado es ${last?.sequence ?? 0}.`,
+    });
+  } else if (!head && last) {
+    issues.push({
+      fileName: AI_AUDIT_CHAIN_HEAD_FILE,
+      kind: 'head-mismatch',
+      message: 'Falta la cabeza de la cadena: no se puede comprobar si se borraron los ultimos registros.',
+    });
+  }
+
+  return {
+    checkedAt,
+    totalRecords: entries.length,
+    chainedRecords: chained.length,
+    legacyRecords,
+    issues,
+    isIntact: issues.length === 0,
+  };
+}
+
+function countWords(value: string): number {
+  return value.match(/[\p{L}\p{N}]+/gu)?.length ?? 0;
+}
+
+// Palabras que la IA agrego y quito en un cambio aplicado, comparando por parrafos.
+export function measureAiTouchedWords(beforeText: string, afterText: string): { inserted: number; removed: number } {
+  let inserted = 0;
+  let removed = 0;
+  for (const entry of diffParagraphs(beforeText, afterText)) {
+    if (entry.kind === 'insert') {
+      inserted += countWords(entry.after);
+    } else if (entry.kind === 'delete') {
+      removed += countWords(entry.before);
+    } else if (entry.kind === 'modify') {
+      for (const operation of entry.inline) {
+        if (operation.type === 'insert') {
+          inserted += countWords(operation.value);
+        } else if (operation.type === 'delete') {
+          removed += countWords(operation.value);
+        }
+      }
+    }
+  }
+  return { inserted, removed };
+}
+
+export function buildAiProvenanceRows(records: AiAuditRecord[], chapters: ChapterDocument[]): AiProvenanceChapterRow[] {
+  const rows = new Map<string, AiProvenanceChapterRow>(
+    chapters.map((chapter) => [
+      chapter.id,
+      {
+        chapterId: chapter.id,
+        title: chapter.title,
+        sessions: 0,
+        aiWordsInserted: 0,
+        aiWordsRemoved: 0,
+        currentWords: countWordsFromHtml(chapter.content),
+        operations: [],
+      },
+    ]),
+  );
+
+  const applied = records
+    .filter((record) => record.status === 'applied')
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  for (const record of applied) {
+    for (const summary of record.chapterSummaries) {
+      const row: AiProvenanceChapterRow = rows.get(summary.chapterId) ?? {
+        chapterId: summary.chapterId,
+        title: `${summary.chapterTitle} (eliminado)`,
+        sessions: 0,
+        aiWordsInserted: 0,
+        aiWordsRemoved: 0,
+        currentWords: 0,
+        operations: [],
+      };
+      const touched = measureAiTouchedWords(summary.beforeText, summary.afterText);
+      row.sessions += 1;
+      row.aiWordsInserted += touched.inserted;
+      row.aiWordsRemoved += touched.removed;
+      if (!row.operations.includes(record.operation)) {
+        row.operations.push(record.operation);
+      }
+      rows.set(summary.chapterId, row);
+    }
+  }
+
+  return Array.from(rows.values());
+}
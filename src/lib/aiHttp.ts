@@ -0,0 +1,103 @@
+import { Channel, invoke, isTauri } from '@tauri-apps/api/core';
+
+type AiHttpEvent = { kind: 'head'; status: number } | { kind: 'chunk'; text: string } | { kind: 'end' };
+
+export interface AiHttpRequestInit {
+  method: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+let nextAiHttpRequestId = 0;
+
+function buildAbortError(): DOMException {
+  return new DOMException('Peticion IA cancelada.', 'AbortError');
+}
+
+// En la app de escritorio la peticion sale por el comando Rust `ai_http_request`, asi la CSP
+// del webview no necesita abrir connect-src a cualquier host. Fuera de Tauri usa fetch.
+// Devuelve un Response para que los clientes traten igual ambos caminos: AbortError al
+// cancelar y TypeError cuando no se puede conectar, como fetch.
+export async function fetchAiEndpoint(url: string, init: AiHttpRequestInit): Promise<Response> {
+  if (!isTauri()) {
+    return fetch(url, init);
+  }
+  if (init.signal?.aborted) {
+    throw buildAbortError();
+  }
+
+  nextAiHttpRequestId += 1;
+  const requestId = `ai-${Date.now()}-${nextAiHttpRequestId}`;
+  const encoder = new TextEncoder();
+  const cancelRequest = () => {
+    void invoke('cancel_ai_http_request', { requestId }).catch(() => undefined);
+  };
+
+  return new Promise<Response>((resolve, reject) => {
+    let bodyController: ReadableStreamDefaultController<Uint8Array> | null = null;
+    let headReceived = false;
+    let finished = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        bodyController = controller;
+      },
+      cancel() {
+        finished = true;
+        cancelRequest();
+      },
+    });
+
+    const finish = (error?: Error) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      init.signal?.removeEventListener('abort', abortFromCaller);
+      if (!headReceived) {
+        reject(error ?? new TypeError('El servidor IA no devolvio respuesta.'));
+      } else if (error) {
+        bodyController?.error(error);
+      } else {
+        bodyController?.close();
+      }
+    };
+    const abortFromCaller = () => {
+      cancelRequest();
+      finish(buildAbortError());
+    };
+    init.signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    const channel = new Channel<AiHttpEvent>();
+    channel.onmessage = (event) => {
+      if (finished) {
+        return;
+      }
+      if (event.kind === 'head') {
+        headReceived = true;
+        resolve(new Response(NULL_BODY_STATUSES.has(event.status) ? null : body, { status: event.status }));
+        return;
+      }
+      if (event.kind === 'chunk') {
+        bodyController?.enqueue(encoder.encode(event.text));
+        return;
+      }
+      finish();
+    };
+
+    invoke('ai_http_request', {
+      input: {
+        requestId,
+        url,
+        method: init.method,
+        headers: init.headers ?? {},
+        body: init.body ?? null,
+      },
+      onEvent: channel,
+    }).catch((error: unknown) => {
+      finish(new TypeError(typeof error === 'string' ? error : 'No se pudo conectar con el servidor IA.'));
+    });
+  });
+}
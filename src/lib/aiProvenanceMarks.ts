@@ -0,0 +1,215 @@
+import { diffInlineText, diffParagraphs } from './diff';
+
+// Marcas de procedencia IA: el texto que la IA agrega al aceptar un cambio queda envuelto en
+// <span data-ai-origin> dentro del HTML del capitulo. Solo se marca lo insertado, no lo que ya estaba.
+
+export const AI_ORIGIN_ATTRIBUTE = 'data-ai-origin';
+
+export interface AiOriginInput {
+  operation: string;
+}
+
+export interface AiOriginAttributes {
+  id: string;
+  operation: string;
+  date: string;
+  // Palabras que la IA puso en el parrafo; sirve para saber cuanto reescribio despues una persona.
+  words: number;
+}
+
+export interface AiMarkedHtmlOptions {
+  now?: string;
+  // HTML actual del texto reemplazado: los parrafos que no cambian conservan sus marcas previas.
+  beforeHtml?: string;
+}
+
+export interface AiOriginShare {
+  aiWords: number;
+  totalWords: number;
+  percent: number;
+}
+
+// Si una persona deja menos de esta fraccion de las palabras de la IA en un parrafo, la marca se quita.
+export const AI_ORIGIN_REWRITE_KEEP_RATIO = 0.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'wbr']);
+
+export function createAiOriginId(): string {
+  return `ai-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function countAiOriginWords(value: string): number {
+  return value.match(WORD_PATTERN)?.length ?? 0;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderPlainText(value: string): string {
+  return escapeHtml(value).replace(/\n/g, '<br>');
+}
+
+export function renderAiOriginSpan(value: string, attributes: AiOriginAttributes): string {
+  return [
+    `<span ${AI_ORIGIN_ATTRIBUTE}="${escapeHtml(attributes.id)}"`,
+    ` data-ai-operation="${escapeHtml(attributes.operation)}"`,
+    ` data-ai-date="${escapeHtml(attributes.date)}"`,
+    ` data-ai-words="${attributes.words}">`,
+    renderPlainText(value),
+    '</span>',
+  ].join('');
+}
+
+function splitPlainBlocks(value: string): string[] {
+  const trimmed = value.trim();
+  return trimmed ? trimmed.split(/\n\s*\n/g) : [];
+}
+
+// Clave por palabras: iguala el texto plano con el de un parrafo HTML sin depender de entidades ni etiquetas.
+function buildBlockMatchKey(value: string): string {
+  return (decodeForCounting(value).match(WORD_PATTERN) ?? []).join(' ');
+}
+
+// Parrafos del HTML previo que ya llevaban marcas IA, agrupados por su texto.
+function collectMarkedParagraphs(html: string): Map<string, string[]> {
+  const byKey = new Map<string, string[]>();
+  for (const match of html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+    if (!match[1].includes(AI_ORIGIN_ATTRIBUTE)) {
+      continue;
+    }
+    const key = buildBlockMatchKey(match[1].replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''));
+    if (key) {
+      byKey.set(key, [...(byKey.get(key) ?? []), match[0]]);
+    }
+  }
+  return byKey;
+}
+
+// Igual que plainTextToHtml(afterText), pero con lo insertado por la IA marcado. Los parrafos se cortan
+// como en plainTextToHtml y se comparan contra el texto previo para no marcar lo que no cambio; si se
+// pasa el HTML previo, esos parrafos sin cambios conservan las marcas de sesiones anteriores.
+export function buildAiMarkedHtml(
+  beforeText: string,
+  afterText: string,
+  origin: AiOriginInput,
+  options: AiMarkedHtmlOptions = {},
+): string {
+  const afterBlocks = splitPlainBlocks(afterText);
+  if (afterBlocks.length === 0) {
+    return '<p></p>';
+  }
+
+  const now = options.now ?? new Date().toISOString();
+  const markedParagraphs = collectMarkedParagraphs(options.beforeHtml ?? '');
+  const renderUnchangedBlock = (block: string) =>
+    markedParagraphs.get(buildBlockMatchKey(block))?.shift() ?? `<p>${renderPlainText(block)}</p>`;
+
+  const entries = diffParagraphs(splitPlainBlocks(beforeText).join('\n\n'), afterBlocks.join('\n\n')).filter(
+    (entry) => entry.kind === 'equal' || entry.kind === 'insert' || entry.kind === 'modify' || entry.kind === 'move-to',
+  );
+  if (entries.length !== afterBlocks.length) {
+    return afterBlocks.map(renderUnchangedBlock).join('');
+  }
+
+  const id = createAiOriginId();
+  return afterBlocks
+    .map((block, index) => {
+      const entry = entries[index];
+      if (entry.kind === 'insert') {
+        const words = countAiOriginWords(block);
+        return `<p>${words > 0 ? renderAiOriginSpan(block, { id, operation: origin.operation, date: now, words }) : renderPlainText(block)}</p>`;
+      }
+      if (entry.kind !== 'modify') {
+        return renderUnchangedBlock(block);
+      }
+
+      // Se compara contra el bloque original (no el normalizado) para conservar los saltos de linea.
+      const operations = diffInlineText(entry.before, block).filter((operation) => operation.type !== 'delete');
+      const words = operations.reduce(
+        (sum, operation) => sum + (operation.type === 'insert' ? countAiOriginWords(operation.value) : 0),
+        0,
+      );
+      const inner = operations
+        .map((operation) =>
+          operation.type === 'insert' && countAiOriginWords(operation.value) > 0
+            ? renderAiOriginSpan(operation.value, { id, operation: origin.operation, date: now, words })
+            : renderPlainText(operation.value),
+        )
+        .join('');
+      return `<p>${inner}</p>`;
+    })
+    .join('');
+}
+
+export function hasAiOriginMarks(html: string): boolean {
+  return html.includes(AI_ORIGIN_ATTRIBUTE);
+}
+
+function decodeForCounting(value: string): string {
+  return value.replace(/&[#a-zA-Z0-9]+;/g, ' ');
+}
+
+// Recorre las etiquetas en orden: las marcas pueden anidar otros spans (comentarios, referencias).
+export function measureAiOriginShare(html: string): AiOriginShare {
+  let aiWords = 0;
+  let totalWords = 0;
+  const stack: boolean[] = [];
+  let aiDepth = 0;
+
+  for (const match of html.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g)) {
+    if (match[4] !== undefined) {
+      const words = countAiOriginWords(decodeForCounting(match[4]));
+      totalWords += words;
+      if (aiDepth > 0) {
+        aiWords += words;
+      }
+      continue;
+    }
+
+    const tag = match[2].toLowerCase();
+    if (VOID_TAGS.has(tag) || match[3].trim().endsWith('/')) {
+      continue;
+    }
+    if (match[1]) {
+      if (stack.pop()) {
+        aiDepth -= 1;
+      }
+      continue;
+    }
+    const isAi = match[3].includes(AI_ORIGIN_ATTRIBUTE);
+    stack.push(isAi);
+    if (isAi) {
+      aiDepth += 1;
+    }
+  }
+
+  return {
+    aiWords,
+    totalWords,
+    percent: totalWords > 0 ? Math.round((aiWords / totalWords) * 100) : 0,
+  };
+}
+
+// Quita las marcas dejando el texto intacto (exportaciones).
+export function removeAiOriginMarks(html: string): string {
+  if (!hasAiOriginMarks(html)) {
+    return html;
+  }
+
+  const stack: boolean[] = [];
+  return html.replace(/<(\/?)span\b[^>]*>/gi, (tag: string, closing: string) => {
+    if (closing) {
+      return stack.pop() ? '' : tag;
+    }
+    const isAi = tag.includes(AI_ORIGIN_ATTRIBUTE);
+    stack.push(isAi);
+    return isAi ? '' : tag;
+  });
+}
@@ -0,0 +1,150 @@
+import type { AiProviderId, AppConfig } from '../types/book';
+import {
+  OLLAMA_DEFAULT_BASE_URL,
+  buildOllamaServiceStatus,
+  generateWithOllama,
+  inspectOllamaService,
+  streamWithOllama,
+  type GenerateInput,
+  type StreamGenerateInput,
+} from './ollamaClient';
+import {
+  OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+  generateWithOpenAiCompatible,
+  inspectOpenAiCompatibleService,
+  streamWithOpenAiCompatible,
+} from './openAiCompatibleClient';
+
+export interface AiServiceStatus {
+  state: 'idle' | 'checking' | 'ready' | 'missing-model' | 'offline' | 'error';
+  configuredModel: string;
+  availableModels: string[];
+  message: string;
+}
+
+export type AiEndpointConfig = Pick<AppConfig, 'aiProvider' | 'aiBaseUrl' | 'aiApiKey' | 'model'>;
+
+export interface AiProvider {
+  id: AiProviderId | 'mock';
+  label: string;
+  generate: (input: GenerateInput) => Promise<string>;
+  stream: (input: StreamGenerateInput) => Promise<string>;
+  inspect: (config: AiEndpointConfig) => Promise<AiServiceStatus>;
+}
+
+export interface AiProviderOption {
+  id: AiProviderId;
+  label: string;
+  description: string;
+  defaultBaseUrl: string;
+}
+
+export const AI_PROVIDER_OPTIONS: AiProviderOption[] = [
+  {
+    id: 'ollama',
+    label: 'Ollama',
+    description: 'API nativa `/api/generate` de Ollama.',
+    defaultBaseUrl: OLLAMA_DEFAULT_BASE_URL,
+  },
+  {
+    id: 'openai-compatible',
+    label: 'Servidor compatible OpenAI',
+    description: 'llama.cpp server, LM Studio u otro servidor con `/v1/chat/completions`.',
+    defaultBaseUrl: OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+  },
+];
+
+export function getAiProviderOption(providerId: AiProviderId): AiProviderOption {
+  return AI_PROVIDER_OPTIONS.find((option) => option.id === providerId) ?? AI_PROVIDER_OPTIONS[0];
+}
+
+export function resolveAiBaseUrl(config: Pick<AppConfig, 'aiProvider' | 'aiBaseUrl'>): string {
+  const option = getAiProviderOption(config.aiProvider);
+  return config.aiBaseUrl.trim() || option.defaultBaseUrl;
+}
+
+function createOllamaProvider(): AiProvider {
+  return {
+    id: 'ollama',
+    label: 'Ollama',
+    generate: (input) => generateWithOllama({ ...input, baseUrl: input.baseUrl ?? resolveAiBaseUrl(input.config) }),
+    stream: (input) => streamWithOllama({ ...input, baseUrl: input.baseUrl ?? resolveAiBaseUrl(input.config) }),
+    inspect: (config) => inspectOllamaService(config.model, resolveAiBaseUrl(config)),
+  };
+}
+
+function createOpenAiCompatibleProvider(): AiProvider {
+  return {
+    id: 'openai-compatible',
+    label: 'Servidor compatible OpenAI',
+    generate: (input) =>
+      generateWithOpenAiCompatible({ ...input, baseUrl: input.baseUrl ?? resolveAiBaseUrl(input.config) }),
+    stream: (input) =>
+      streamWithOpenAiCompatible({ ...input, baseUrl: input.baseUrl ?? resolveAiBaseUrl(input.config) }),
+    inspect: (config) => inspectOpenAiCompatibleService(config.model, resolveAiBaseUrl(config), config.aiApiKey),
+  };
+}
+
+export function resolveAiProvider(config: Pick<AppConfig, 'aiProvider'>): AiProvider {
+  return config.aiProvider === 'openai-compatible' ? createOpenAiCompatibleProvider() : createOllamaProvider();
+}
+
+export interface MockAiProviderOptions {
+  // Respuestas en orden; la ultima se repite cuando se agotan.
+  responses?: string[];
+  respond?: (prompt: string, callIndex: number) => string;
+  availableModels?: string[];
+  chunkSize?: number;
+}
+
+export interface MockAiProvider extends AiProvider {
+  prompts: string[];
+}
+
+// Proveedor en memoria para tests y demos offline: no toca la red.
+export function createMockAiProvider(options: MockAiProviderOptions = {}): MockAiProvider {
+  const prompts: string[] = [];
+  const responses = options.responses ?? [];
+  const chunkSize = Math.max(1, Math.round(options.chunkSize ?? 12));
+  const resolveResponse = (prompt: string): string => {
+    const callIndex = prompts.length;
+    prompts.push(prompt);
+    if (options.respond) {
+      return options.respond(prompt, callIndex);
+    }
+    if (responses.length === 0) {
+      return '';
+    }
+    return responses[Math.min(callIndex, responses.length - 1)];
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock local',
+    prompts,
+    generate: async (input) => resolveResponse(input.prompt),
+    stream: async (input) => {
+      if (input.signal?.aborted) {
+        throw new Error('Generacion IA cancelada por el usuario.');
+      }
+      const response = resolveResponse(input.prompt);
+      let output = '';
+      for (let index = 0; index < response.length; index += chunkSize) {
+        if (input.signal?.aborted) {
+          throw new Error('Generacion IA cancelada por el usuario.');
+        }
+        const delta = response.slice(index, index + chunkSize);
+        output += delta;
+        input.onToken?.(output, delta);
+      }
+      return output;
+    },
+    inspect: async (config) => {
+      const status = buildOllamaServiceStatus(config.model, options.availableModels ?? [config.model]);
+      return {
+        ...status,
+        message: status.message.replace(/^Ollama/u, 'Mock local'),
+      };
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import type { AmazonKdpData, AmazonPresetType, BookMetadata, ChapterDocument } from '../types/book';
+import { listPreferredGlossaryTerms } from './styleRules';
 import { stripHtml } from './text';
 import { estimateEbookRoyalty, estimatePrintRoyalty } from './amazonValidation';
 
@@ -73,13 +74,6 @@ function ensureLength(values: string[], length: number): string[] {
   return next.slice(0, length);
 }
 
-function splitCommaValues(value: string): string[] {
-  return value
-    .split(/[\n,;]+/g)
-    .map((entry) => entry.trim())
-    .filter(Boolean);
-}
-
 export function applyAmazonPreset(
   amazon: AmazonKdpData,
   presetType: AmazonPresetType,
@@ -148,7 +142,7 @@ export function generateAmazonCopy(
       .filter(Boolean)
       .join('\n');
 
-  const glossaryPreferred = splitCommaValues(foundation.glossaryPreferred);
+  const glossaryPreferred = listPreferredGlossaryTerms(foundation);
   const seededKeywords = uniqueNonEmpty(
     [
       ...source.keywords,
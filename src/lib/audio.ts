@@ -1,6 +1,7 @@
 import { getLanguageDisplayName, normalizeLanguageCode } from './language';
 import { joinPath, safeFileName, stripHtml } from './text';
-import type { BookMetadata, ChapterDocument } from '../types/book';
+import { applyPronunciationLexicon, buildPronunciationSsml } from './pronunciation';
+import type { AudioEngineId, BookMetadata, ChapterDocument, PronunciationEntry } from '../types/book';
 
 export type AudioPlaybackState = 'idle' | 'playing' | 'paused';
 
@@ -55,18 +56,64 @@ function normalizeSpeechText(value: string): string {
     .trim();
 }
 
-export function buildChapterAudioText(chapter: ChapterDocument): string {
-  const chapterText = stripHtml(chapter.content);
-  return normalizeSpeechText(`Capitulo ${chapter.id}. ${chapter.title}.\n\n${chapterText}`);
+// textContent pega los parrafos entre si; se separan antes para que la voz haga la pausa de bloque.
+function chapterHtmlToSpeechText(html: string): string {
+  return stripHtml(html.replace(/<\/(p|h[1-6]|li|blockquote|div)\s*>/gi, '$&\n\n').replace(/<br\s*\/?>/gi, '\n'));
 }
 
-export function buildBookAudioText(metadata: BookMetadata, orderedChapters: ChapterDocument[]): string {
-  const intro = `${metadata.title}. Autor: ${metadata.author}. Idioma: ${getLanguageDisplayName(metadata.amazon.language)}.`;
+// Lee el titulo real del capitulo; solo si esta vacio se anuncia el numero de orden.
+export function buildChapterAudioHeading(chapter: ChapterDocument, chapterNumber?: number): string {
+  const title = chapter.title.trim().replace(/[.:;]+$/, '');
+  if (title) {
+    return title;
+  }
+
+  const parsedId = Number.parseInt(chapter.id, 10);
+  const number = chapterNumber ?? (Number.isFinite(parsedId) ? parsedId : null);
+  return number === null ? 'Capitulo' : `Capitulo ${number}`;
+}
+
+export function buildChapterAudioText(
+  chapter: ChapterDocument,
+  chapterNumber?: number,
+  lexicon: PronunciationEntry[] = [],
+): string {
+  const heading = buildChapterAudioHeading(chapter, chapterNumber);
+  const chapterText = chapterHtmlToSpeechText(chapter.content);
+  // Si el cuerpo ya empieza con el titulo (encabezado dentro del texto) no se lee dos veces.
+  const firstLine = chapterText.split('\n', 1)[0].trim().replace(/[.:;]+$/, '');
+  const body = firstLine.toLowerCase() === heading.toLowerCase() ? chapterText.slice(chapterText.indexOf('\n') + 1) : chapterText;
+  return applyPronunciationLexicon(normalizeSpeechText(`${heading}.\n\n${body}`), lexicon);
+}
+
+export function buildBookAudioIntroText(metadata: BookMetadata): string {
+  return `${metadata.title}. Autor: ${metadata.author}. Idioma: ${getLanguageDisplayName(metadata.amazon.language)}.`;
+}
+
+export function buildBookAudioText(
+  metadata: BookMetadata,
+  orderedChapters: ChapterDocument[],
+  lexicon: PronunciationEntry[] = [],
+): string {
   const chapterBlocks = orderedChapters
-    .map((chapter) => buildChapterAudioText(chapter))
+    .map((chapter, index) => buildChapterAudioText(chapter, index + 1, lexicon))
     .filter((block) => block.length > 0);
 
-  return normalizeSpeechText([intro, ...chapterBlocks].join('\n\n'));
+  return normalizeSpeechText(
+    [applyPronunciationLexicon(buildBookAudioIntroText(metadata), lexicon), ...chapterBlocks].join('\n\n'),
+  );
+}
+
+// Para exportar: texto con respelling para cualquier motor y SSML opcional que solo usa la voz del sistema.
+export function buildSpeechExportPayload(
+  text: string,
+  lexicon: PronunciationEntry[],
+  language: string,
+): { text: string; ssml: string | null } {
+  return {
+    text: applyPronunciationLexicon(text, lexicon),
+    ssml: buildPronunciationSsml(text, lexicon, resolveSpeechLanguageTag(language)),
+  };
 }
 
 export function buildChapterAudioExportPath(bookPath: string, metadata: BookMetadata, chapter: ChapterDocument): string {
@@ -74,8 +121,74 @@ export function buildChapterAudioExportPath(bookPath: string, metadata: BookMeta
   return joinPath(bookPath, 'exports', fileName);
 }
 
-export function buildBookAudioExportPath(bookPath: string, metadata: BookMetadata): string {
-  return joinPath(bookPath, 'exports', `${safeFileName(metadata.title)}-audiolibro.wav`);
+export function buildBookAudioExportFolderName(metadata: BookMetadata): string {
+  return `${safeFileName(metadata.title)}-audiolibro`;
+}
+
+export function buildBookAudioExportDir(bookPath: string, metadata: BookMetadata): string {
+  return joinPath(bookPath, 'exports', buildBookAudioExportFolderName(metadata));
+}
+
+export interface AudiobookTrack {
+  title: string;
+  text: string;
+  fileName: string;
+}
+
+// Una pista por capitulo (mas la presentacion) para que el reproductor navegue por capitulos.
+export function buildAudiobookTracks(metadata: BookMetadata, orderedChapters: ChapterDocument[]): AudiobookTrack[] {
+  const width = Math.max(2, String(orderedChapters.length).length);
+  const tracks: AudiobookTrack[] = [
+    {
+      title: metadata.title,
+      text: normalizeSpeechText(buildBookAudioIntroText(metadata)),
+      fileName: `${'0'.padStart(width, '0')}-presentacion.wav`,
+    },
+  ];
+
+  orderedChapters.forEach((chapter, index) => {
+    if (!stripHtml(chapter.content).trim()) {
+      return;
+    }
+
+    const title = buildChapterAudioHeading(chapter, index + 1);
+    tracks.push({
+      title,
+      text: buildChapterAudioText(chapter, index + 1),
+      fileName: `${String(index + 1).padStart(width, '0')}-${safeFileName(title).slice(0, 60) || chapter.id}.wav`,
+    });
+  });
+
+  return tracks;
+}
+
+export function buildAudiobookTrackPath(bookPath: string, metadata: BookMetadata, track: AudiobookTrack): string {
+  return joinPath(buildBookAudioExportDir(bookPath, metadata), track.fileName);
+}
+
+function sanitizeM3uField(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// Lista M3U extendida con rutas relativas: se guarda junto a la carpeta de pistas.
+export function buildAudiobookM3u(
+  metadata: BookMetadata,
+  folderName: string,
+  tracks: Array<Pick<AudiobookTrack, 'title' | 'fileName'> & { durationSeconds: number }>,
+): string {
+  const lines = [
+    '#EXTM3U',
+    `#PLAYLIST:${sanitizeM3uField(metadata.title)}`,
+    `#EXTART:${sanitizeM3uField(metadata.author)}`,
+    `#EXTALB:${sanitizeM3uField(metadata.title)}`,
+  ];
+  for (const track of tracks) {
+    const duration = track.durationSeconds > 0 ? Math.round(track.durationSeconds) : -1;
+    lines.push(`#EXTINF:${duration},${sanitizeM3uField(metadata.author)} - ${sanitizeM3uField(track.title)}`);
+    lines.push(`${folderName}/${track.fileName}`);
+  }
+
+  return `${lines.join('\n')}\n`;
 }
 
 interface ExportAudiobookInput {
@@ -85,13 +198,29 @@ interface ExportAudiobookInput {
   voiceName?: string;
   rate: number;
   volume: number;
+  engine?: AudioEngineId;
+  enginePath?: string;
+  voiceModel?: string;
+  ssml?: string | null;
+}
+
+export interface ExportAudiobookResult {
+  outputPath: string;
+  engine: Exclude<AudioEngineId, 'auto'>;
+  durationSeconds: number;
 }
 
-export async function exportAudiobookToWav(input: ExportAudiobookInput): Promise<string> {
+export async function exportAudiobookToWav(input: ExportAudiobookInput): Promise<ExportAudiobookResult> {
   const { invoke } = await import('@tauri-apps/api/core');
-  return invoke<string>('export_audiobook_wav', {
-    ...input,
-    language: resolveSpeechLanguageTag(input.language),
-    voiceName: input.voiceName?.trim() || null,
+  return invoke<ExportAudiobookResult>('export_audiobook_wav', {
+    input: {
+      ...input,
+      language: resolveSpeechLanguageTag(input.language),
+      voiceName: input.voiceName?.trim() || null,
+      engine: input.engine ?? 'auto',
+      enginePath: input.enginePath?.trim() || null,
+      voiceModel: input.voiceModel?.trim() || null,
+      ssml: input.ssml || null,
+    },
   });
 }
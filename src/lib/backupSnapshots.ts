@@ -0,0 +1,124 @@
+import { countWordsFromHtml } from './metrics';
+import type { ChapterDocument } from '../types/book';
+
+// Backups incrementales: cada archivo se guarda una sola vez en un almacen por hash de contenido
+// y cada snapshot solo registra que hash corresponde a cada ruta.
+
+export interface BackupRetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+export interface BackupSnapshotRef {
+  folderName: string;
+  createdAt: string;
+  version?: 1 | 2;
+}
+
+export type BackupChapterStatus = 'unchanged' | 'modified' | 'only-backup' | 'only-current';
+
+export interface BackupChapterComparison {
+  chapterId: string;
+  title: string;
+  status: BackupChapterStatus;
+  backupWords: number;
+  currentWords: number;
+}
+
+export const BACKUP_CHAPTER_STATUS_LABELS: Record<BackupChapterStatus, string> = {
+  unchanged: 'Sin cambios',
+  modified: 'Distinto al actual',
+  'only-backup': 'Solo en backup',
+  'only-current': 'Solo en el libro',
+};
+
+export function isBackupRetentionEnabled(policy: BackupRetentionPolicy): boolean {
+  return policy.hourly > 0 || policy.daily > 0 || policy.weekly > 0;
+}
+
+function resolveBucketKeys(createdAt: string): { hour: string; day: string; week: string } | null {
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  const iso = date.toISOString();
+  // La semana se identifica por su lunes (UTC).
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return { hour: iso.slice(0, 13), day: iso.slice(0, 10), week: monday.toISOString().slice(0, 10) };
+}
+
+// Politica abuelo-padre-hijo: el snapshot mas reciente de cada hora, dia y semana dentro del cupo.
+// El ultimo snapshot se conserva siempre y los que no tienen fecha valida no se tocan.
+// Las copias completas v1 (anteriores al almacen por hash) quedan fuera: solo se borran a mano.
+export function selectBackupSnapshotsToPrune<T extends BackupSnapshotRef>(
+  snapshots: T[],
+  policy: BackupRetentionPolicy,
+): T[] {
+  if (!isBackupRetentionEnabled(policy)) {
+    return [];
+  }
+
+  const sorted = snapshots
+    .filter((snapshot) => snapshot.version !== 1)
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+  const keep = new Set<string>();
+  const seen = { hour: new Set<string>(), day: new Set<string>(), week: new Set<string>() };
+
+  sorted.forEach((snapshot, index) => {
+    const keys = resolveBucketKeys(snapshot.createdAt);
+    if (!keys || index === 0) {
+      keep.add(snapshot.folderName);
+    }
+    if (!keys) {
+      return;
+    }
+    for (const tier of ['hour', 'day', 'week'] as const) {
+      const limit = tier === 'hour' ? policy.hourly : tier === 'day' ? policy.daily : policy.weekly;
+      if (seen[tier].has(keys[tier]) || seen[tier].size >= limit) {
+        continue;
+      }
+      seen[tier].add(keys[tier]);
+      keep.add(snapshot.folderName);
+    }
+  });
+
+  return sorted.filter((snapshot) => !keep.has(snapshot.folderName));
+}
+
+export function compareBackupChapters(
+  backupChapters: ChapterDocument[],
+  currentChapters: ChapterDocument[],
+): BackupChapterComparison[] {
+  const currentById = new Map(currentChapters.map((chapter) => [chapter.id, chapter]));
+  const backupIds = new Set(backupChapters.map((chapter) => chapter.id));
+
+  const fromBackup = backupChapters.map((chapter): BackupChapterComparison => {
+    const current = currentById.get(chapter.id);
+    const backupWords = countWordsFromHtml(chapter.content);
+    if (!current) {
+      return { chapterId: chapter.id, title: chapter.title, status: 'only-backup', backupWords, currentWords: 0 };
+    }
+    const isSame = current.content === chapter.content && current.title === chapter.title;
+    return {
+      chapterId: chapter.id,
+      title: chapter.title,
+      status: isSame ? 'unchanged' : 'modified',
+      backupWords,
+      currentWords: countWordsFromHtml(current.content),
+    };
+  });
+
+  const onlyCurrent = currentChapters
+    .filter((chapter) => !backupIds.has(chapter.id))
+    .map((chapter): BackupChapterComparison => ({
+      chapterId: chapter.id,
+      title: chapter.title,
+      status: 'only-current',
+      backupWords: 0,
+      currentWords: countWordsFromHtml(chapter.content),
+    }));
+
+  return [...fromBackup, ...onlyCurrent];
+}
@@ -1,6 +1,7 @@
+import { buildAiMarkedHtml } from './aiProvenanceMarks';
 import { buildAutoRewritePrompt, selectStoryBibleForPrompt } from './prompts';
 import { saveChapter, saveChapterSnapshot } from './storage';
-import { getNowIso, plainTextToHtml, stripHtml } from './text';
+import { getNowIso, stripHtml } from './text';
 import type { AppConfig, BookProject, SagaWorldBible } from '../types/book';
 
 interface ExpansionGuardLikeResult {
@@ -64,7 +65,7 @@ interface ApplyBookAutoRewriteInput {
     recentText: string;
   }) => Promise<ContinuityGuardLikeResult>;
   shouldRequireAiSafeReview: (beforeText: string, afterText: string) => boolean;
-  requestAiSafeReview: (input: AiSafeReviewInput) => Promise<boolean>;
+  requestAiSafeReview: (input: AiSafeReviewInput) => Promise<string | null>;
   onStatus: (status: string) => void;
 }
 
@@ -155,7 +156,7 @@ export async function applyBookAutoRewrite(
         chapterTitle: chapter.title,
         recentText: input.compactHistory,
       });
-      const nextChapterText = continuityResult.text;
+      let nextChapterText = continuityResult.text;
       if (guardedResult.summaryText) {
         extractedSummaries += 1;
       }
@@ -172,7 +173,7 @@ export async function applyBookAutoRewrite(
           .map((entry) => entry.trim())
           .filter(Boolean)
           .join(' | ');
-        const approved = await input.requestAiSafeReview({
+        const approvedText = await input.requestAiSafeReview({
           title: requiresHighRiskReview
             ? `Riesgo alto IA - Libro (${chapter.title})`
             : `Modo seguro IA - Libro (${chapter.title})`,
@@ -182,7 +183,7 @@ export async function applyBookAutoRewrite(
           beforeText: currentChapterText,
           afterText: nextChapterText,
         });
-        if (!approved) {
+        if (approvedText === null) {
           cancelledBySafeMode = true;
           cancelledByRiskReview = requiresHighRiskReview;
           input.onStatus(
@@ -192,11 +193,17 @@ export async function applyBookAutoRewrite(
           );
           break bookIterationsLoop;
         }
+        nextChapterText = approvedText;
       }
 
       const chapterDraft = {
         ...chapter,
-        content: plainTextToHtml(nextChapterText),
+        content: buildAiMarkedHtml(
+          currentChapterText,
+          nextChapterText,
+          { operation: 'chat-auto-apply-book' },
+          { beforeHtml: chapter.content },
+        ),
         contentJson: null,
         updatedAt: getNowIso(),
       };
@@ -2,6 +2,9 @@ import type { AppConfig } from '../types/book';
 import { DEFAULT_SYSTEM_PROMPT } from './prompts';
 
 export const DEFAULT_APP_CONFIG: AppConfig = {
+  aiProvider: 'ollama',
+  aiBaseUrl: '',
+  aiApiKey: '',
   model: 'llama3.2:3b',
   language: 'es',
   theme: 'system',
@@ -11,6 +14,9 @@ export const DEFAULT_APP_CONFIG: AppConfig = {
   audioVoiceName: '',
   audioRate: 1,
   audioVolume: 1,
+  audioEngine: 'auto',
+  audioEnginePath: '',
+  audioVoiceModel: '',
   aiResponseMode: 'equilibrado',
   autoVersioning: true,
   aiSafeMode: true,
@@ -24,9 +30,13 @@ export const DEFAULT_APP_CONFIG: AppConfig = {
   backupEnabled: true,
   backupDirectory: '',
   backupIntervalMs: 120000,
+  backupRetentionHourly: 24,
+  backupRetentionDaily: 14,
+  backupRetentionWeekly: 8,
   expertWriterMode: false,
   accessibilityHighContrast: false,
   accessibilityLargeText: false,
+  reviewerName: '',
   ollamaOptions: {
     top_p: 0.9,
   },
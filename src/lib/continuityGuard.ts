@@ -408,7 +408,7 @@ function canonicalizeMaterialToken(value: string): string {
   return MATERIAL_CANONICAL_TOKEN_MAP.get(normalized) ?? normalized;
 }
 
-function buildSemanticTokenSet(...values: string[]): string[] {
+export function buildSemanticTokenSet(...values: string[]): string[] {
   const seen = new Set<string>();
   const tokens: string[] = [];
 
@@ -523,7 +523,7 @@ function splitAliases(value: string): string[] {
     .filter(Boolean);
 }
 
-function buildEntityTerms(label: string, aliases: string): string[] {
+export function buildEntityTerms(label: string, aliases: string): string[] {
   const seen = new Set<string>();
   const terms: string[] = [];
   const push = (value: string) => {
@@ -560,7 +560,7 @@ function buildTermRegex(term: string): RegExp {
   return new RegExp(`(^|[^${ENTITY_WORD_CHARS}])(${escapeRegExp(term)})(?=$|[^${ENTITY_WORD_CHARS}])`, 'giu');
 }
 
-function countTermMatches(text: string, term: string): number {
+export function countTermMatches(text: string, term: string): number {
   const regex = buildTermRegex(term);
   let total = 0;
   let match = regex.exec(text);
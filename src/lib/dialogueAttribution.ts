@@ -0,0 +1,306 @@
+import type { ChapterDocument, StoryCharacter } from '../types/book';
+import { htmlToStyleText } from './styleMetrics';
+
+// Extrae dialogos con raya (—) o comillas y los atribuye a personajes de la biblia:
+// primero por la acotacion ("—dijo Lena"), luego por un unico personaje en la accion del parrafo
+// y por ultimo por alternancia de turnos entre dos hablantes.
+
+export type DialogueAttributionMethod = 'tag' | 'beat' | 'alternation' | 'none';
+
+export interface DialogueLine {
+  chapterId: string;
+  paragraphIndex: number;
+  text: string;
+  wordCount: number;
+  speakerId: string | null;
+  method: DialogueAttributionMethod;
+}
+
+export interface DialogueSpeakerCount {
+  lines: number;
+  words: number;
+}
+
+export interface DialogueChapterStats {
+  chapterId: string;
+  totalLines: number;
+  unattributedLines: number;
+  bySpeaker: Record<string, DialogueSpeakerCount>;
+}
+
+export interface DialogueCharacterStats {
+  characterId: string;
+  lines: number;
+  words: number;
+  avgWordsPerLine: number;
+  // Palabras que este personaje usa mucho mas que el resto del elenco.
+  distinctiveTerms: string[];
+}
+
+export interface BookDialogueReport {
+  chapters: DialogueChapterStats[];
+  characters: DialogueCharacterStats[];
+  totalLines: number;
+  unattributedLines: number;
+}
+
+const SPEECH_VERBS = [
+  'dijo', 'pregunto', 'respondio', 'contesto', 'susurro', 'grito', 'murmuro', 'exclamo', 'anadio', 'replico',
+  'insistio', 'explico', 'admitio', 'musito', 'ordeno', 'suplico', 'protesto', 'advirtio', 'repitio', 'interrumpio',
+  'said', 'asked', 'replied', 'answered', 'whispered', 'shouted', 'muttered', 'exclaimed', 'added', 'cried',
+  'insisted', 'explained', 'admitted', 'murmured', 'snapped', 'called', 'repeated',
+];
+const SPEECH_VERB_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}])(?:${SPEECH_VERBS.join('|')})(?![\\p{L}\\p{N}])`, 'u');
+// Distancia maxima entre el verbo y el nombre en la acotacion ("dijo en voz baja Lena").
+const TAG_WINDOW_CHARS = 24;
+const DISTINCTIVE_TERMS_LIMIT = 8;
+const DISTINCTIVE_MIN_COUNT = 2;
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+const QUOTED_PATTERN = /«([^»]*)»|“([^”]*)”|"([^"]*)"/g;
+
+const DIALOGUE_STOPWORDS = new Set<string>([
+  'ahora', 'algo', 'aqui', 'bien', 'como', 'con', 'cuando', 'del', 'donde', 'el', 'ella', 'eres', 'eso', 'esta',
+  'estas', 'este', 'esto', 'hay', 'las', 'los', 'mas', 'me', 'mi', 'muy', 'nada', 'nos', 'para', 'pero', 'por',
+  'porque', 'que', 'quien', 'sabes', 'solo', 'tambien', 'tengo', 'tiene', 'todo', 'una', 'uno', 'usted', 'vamos',
+  'about', 'again', 'been', 'could', 'does', 'dont', "don't", 'from', 'have', 'here', 'just', 'know', 'like', 'that',
+  'their', 'them', 'then', 'there', 'they', 'this', 'what', 'when', 'where', 'will', 'with', 'would', 'your', "you're",
+]);
+
+interface SpeakerMatcher {
+  characterId: string;
+  pattern: RegExp;
+}
+
+function foldText(value: string): string {
+  return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countWords(text: string): number {
+  return text.match(WORD_PATTERN)?.length ?? 0;
+}
+
+function buildSpeakerMatchers(characters: StoryCharacter[]): SpeakerMatcher[] {
+  return characters.flatMap((character) => {
+    const names = [character.name, ...character.aliases.split(/[,;\n]/)]
+      .map((name) => foldText(name.trim()))
+      .filter((name) => name.length >= 2)
+      .sort((left, right) => right.length - left.length);
+    if (names.length === 0) {
+      return [];
+    }
+    return [
+      {
+        characterId: character.id,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'gu'),
+      },
+    ];
+  });
+}
+
+function findSpeakerMentions(foldedNarration: string, matchers: SpeakerMatcher[]): Array<{ characterId: string; index: number }> {
+  const mentions: Array<{ characterId: string; index: number }> = [];
+  for (const matcher of matchers) {
+    for (const match of foldedNarration.matchAll(matcher.pattern)) {
+      mentions.push({ characterId: matcher.characterId, index: match.index ?? 0 });
+    }
+  }
+  return mentions.sort((left, right) => left.index - right.index);
+}
+
+// Separa un parrafo en lo hablado y la narracion que lo acompana.
+function splitDialogueParagraph(paragraph: string): { speech: string[]; narration: string } | null {
+  const trimmed = paragraph.trim();
+  if (/^[—–]/.test(trimmed)) {
+    // "—Habla —dijo Lena—. Sigue hablando." alterna habla / inciso / habla.
+    const parts = trimmed.slice(1).split(/\s*[—–]\s*/);
+    const speech: string[] = [];
+    const narration: string[] = [];
+    parts.forEach((part, index) => {
+      const clean = part.replace(/^[\s.,;:]+/, '').trim();
+      if (!clean) {
+        return;
+      }
+      (index % 2 === 0 ? speech : narration).push(clean);
+    });
+    return speech.length > 0 ? { speech, narration: narration.join(' ') } : null;
+  }
+
+  const speech: string[] = [];
+  for (const match of trimmed.matchAll(QUOTED_PATTERN)) {
+    const spoken = (match[1] ?? match[2] ?? match[3] ?? '').trim();
+    if (spoken) {
+      speech.push(spoken);
+    }
+  }
+  if (speech.length === 0) {
+    return null;
+  }
+  return { speech, narration: trimmed.replace(QUOTED_PATTERN, ' ').replace(/\s+/g, ' ').trim() };
+}
+
+function attributeFromNarration(
+  narration: string,
+  matchers: SpeakerMatcher[],
+): { speakerId: string; method: DialogueAttributionMethod } | null {
+  const folded = foldText(narration);
+  const mentions = findSpeakerMentions(folded, matchers);
+  if (mentions.length === 0) {
+    return null;
+  }
+
+  const verb = SPEECH_VERB_PATTERN.exec(folded);
+  if (verb) {
+    const verbEnd = verb.index + verb[0].length;
+    // "dijo Lena" (nombre justo despues) o "Lena dijo" (el nombre mas cercano antes del verbo).
+    const after = mentions.find((mention) => mention.index >= verbEnd && mention.index - verbEnd <= TAG_WINDOW_CHARS);
+    if (after) {
+      return { speakerId: after.characterId, method: 'tag' };
+    }
+    const before = mentions.filter((mention) => mention.index < verb.index).pop();
+    if (before) {
+      return { speakerId: before.characterId, method: 'tag' };
+    }
+  }
+
+  const distinct = new Set(mentions.map((mention) => mention.characterId));
+  return distinct.size === 1 ? { speakerId: mentions[0].characterId, method: 'beat' } : null;
+}
+
+export function extractChapterDialogue(chapter: ChapterDocument, characters: StoryCharacter[]): DialogueLine[] {
+  const matchers = buildSpeakerMatchers(characters);
+  // Las lineas en blanco entre bloques no cortan la alternancia de turnos.
+  const paragraphs = htmlToStyleText(chapter.content)
+    .split('\n')
+    .filter((paragraph) => paragraph.trim());
+  const lines: DialogueLine[] = [];
+  // Ultimos hablantes de parrafos de dialogo consecutivos, para la alternancia.
+  let previousSpeakers: Array<string | null> = [];
+  let previousDialogueIndex = -2;
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    const parsed = splitDialogueParagraph(paragraph);
+    if (!parsed) {
+      previousSpeakers = [];
+      return;
+    }
+
+    if (paragraphIndex !== previousDialogueIndex + 1) {
+      previousSpeakers = [];
+    }
+    let attribution = attributeFromNarration(parsed.narration, matchers);
+    if (!attribution && previousSpeakers.length >= 2) {
+      const [olderSpeaker, lastSpeaker] = previousSpeakers.slice(-2);
+      if (olderSpeaker && lastSpeaker && olderSpeaker !== lastSpeaker) {
+        attribution = { speakerId: olderSpeaker, method: 'alternation' };
+      }
+    }
+
+    const text = parsed.speech.join(' ');
+    lines.push({
+      chapterId: chapter.id,
+      paragraphIndex,
+      text,
+      wordCount: countWords(text),
+      speakerId: attribution?.speakerId ?? null,
+      method: attribution?.method ?? 'none',
+    });
+    previousSpeakers = [...previousSpeakers, attribution?.speakerId ?? null].slice(-2);
+    previousDialogueIndex = paragraphIndex;
+  });
+
+  return lines;
+}
+
+function buildDistinctiveTerms(lines: DialogueLine[]): Map<string, string[]> {
+  const bySpeaker = new Map<string, Map<string, number>>();
+  const overall = new Map<string, number>();
+  const totals = new Map<string, number>();
+  let overallTotal = 0;
+
+  for (const line of lines) {
+    if (!line.speakerId) {
+      continue;
+    }
+    const counts = bySpeaker.get(line.speakerId) ?? new Map<string, number>();
+    for (const raw of line.text.match(WORD_PATTERN) ?? []) {
+      const token = foldText(raw);
+      overallTotal += 1;
+      totals.set(line.speakerId, (totals.get(line.speakerId) ?? 0) + 1);
+      if (token.length < 4 || DIALOGUE_STOPWORDS.has(token)) {
+        continue;
+      }
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      overall.set(token, (overall.get(token) ?? 0) + 1);
+    }
+    bySpeaker.set(line.speakerId, counts);
+  }
+
+  const result = new Map<string, string[]>();
+  for (const [speakerId, counts] of bySpeaker) {
+    const ownTotal = totals.get(speakerId) ?? 1;
+    const othersTotal = Math.max(1, overallTotal - ownTotal);
+    const ranked = Array.from(counts.entries())
+      .filter(([, count]) => count >= DISTINCTIVE_MIN_COUNT)
+      .map(([term, count]) => {
+        const othersCount = (overall.get(term) ?? 0) - count;
+        // Frecuencia propia frente a la del resto (con suavizado para terminos exclusivos).
+        const score = count / ownTotal / ((othersCount + 1) / (othersTotal + 1));
+        return { term, count, score };
+      })
+      .sort((left, right) => right.score - left.score || right.count - left.count || left.term.localeCompare(right.term))
+      .slice(0, DISTINCTIVE_TERMS_LIMIT)
+      .map((entry) => entry.term);
+    result.set(speakerId, ranked);
+  }
+  return result;
+}
+
+export function analyzeBookDialogue(chapters: ChapterDocument[], characters: StoryCharacter[]): BookDialogueReport {
+  const allLines: DialogueLine[] = [];
+  const chapterStats = chapters.map((chapter): DialogueChapterStats => {
+    const lines = extractChapterDialogue(chapter, characters);
+    allLines.push(...lines);
+    const bySpeaker: Record<string, DialogueSpeakerCount> = {};
+    for (const line of lines) {
+      if (!line.speakerId) {
+        continue;
+      }
+      const previous = bySpeaker[line.speakerId] ?? { lines: 0, words: 0 };
+      bySpeaker[line.speakerId] = { lines: previous.lines + 1, words: previous.words + line.wordCount };
+    }
+    return {
+      chapterId: chapter.id,
+      totalLines: lines.length,
+      unattributedLines: lines.filter((line) => !line.speakerId).length,
+      bySpeaker,
+    };
+  });
+
+  const distinctive = buildDistinctiveTerms(allLines);
+  const characterStats = characters.map((character): DialogueCharacterStats => {
+    let lines = 0;
+    let words = 0;
+    for (const chapter of chapterStats) {
+      lines += chapter.bySpeaker[character.id]?.lines ?? 0;
+      words += chapter.bySpeaker[character.id]?.words ?? 0;
+    }
+    return {
+      characterId: character.id,
+      lines,
+      words,
+      avgWordsPerLine: lines > 0 ? Math.round((words / lines) * 10) / 10 : 0,
+      distinctiveTerms: distinctive.get(character.id) ?? [],
+    };
+  });
+
+  return {
+    chapters: chapterStats,
+    characters: characterStats,
+    totalLines: allLines.length,
+    unattributedLines: allLines.filter((line) => !line.speakerId).length,
+  };
+}
@@ -11,6 +11,29 @@ export interface DiffSummary {
   deleteCount: number;
 }
 
+export type DiffGranularity = 'word' | 'char';
+
+export type ParagraphDiffKind = 'equal' | 'insert' | 'delete' | 'modify' | 'move-from' | 'move-to';
+
+export interface ParagraphDiffEntry {
+  kind: ParagraphDiffKind;
+  before: string;
+  after: string;
+  // Cambios dentro del parrafo (solo en 'modify').
+  inline: DiffOperation[];
+  // Hunk aceptable/rechazable; los dos extremos de un movimiento comparten id. null en 'equal'.
+  hunkId: number | null;
+}
+
+export interface ParagraphDiffSummary {
+  equalCount: number;
+  insertCount: number;
+  deleteCount: number;
+  modifyCount: number;
+  moveCount: number;
+  hunkCount: number;
+}
+
 const MAX_DIFF_COMPLEXITY = 1_000_000;
 
 function normalizeBlock(value: string): string {
@@ -47,7 +70,9 @@ function buildLcsTable(left: string[], right: string[]): number[][] {
   return table;
 }
 
-function collapseOperations(operations: DiffOperation[]): DiffOperation[] {
+const MODIFY_SIMILARITY_THRESHOLD = 0.4;
+
+function collapseOperations(operations: DiffOperation[], separator = '\n\n'): DiffOperation[] {
   if (operations.length === 0) {
     return operations;
   }
@@ -56,7 +81,7 @@ function collapseOperations(operations: DiffOperation[]): DiffOperation[] {
   for (const operation of operations) {
     const previous = collapsed[collapsed.length - 1];
     if (previous && previous.type === operation.type) {
-      previous.value = `${previous.value}\n\n${operation.value}`;
+      previous.value = `${previous.value}${separator}${operation.value}`;
       continue;
     }
 
@@ -66,17 +91,10 @@ function collapseOperations(operations: DiffOperation[]): DiffOperation[] {
   return collapsed;
 }
 
-export function diffTextBlocks(before: string, after: string): DiffOperation[] {
-  const left = splitBlocks(before);
-  const right = splitBlocks(after);
-
-  if (left.length === 0 && right.length === 0) {
-    return [];
-  }
-
+function diffSequences(left: string[], right: string[]): DiffOperation[] {
   if (left.length * right.length > MAX_DIFF_COMPLEXITY) {
-    if (left.join('\n\n') === right.join('\n\n')) {
-      return [{ type: 'equal', value: left.join('\n\n') }];
+    if (left.length === right.length && left.every((value, index) => value === right[index])) {
+      return left.map((value): DiffOperation => ({ type: 'equal', value }));
     }
 
     return [
@@ -108,7 +126,273 @@ export function diffTextBlocks(before: string, after: string): DiffOperation[] {
     row -= 1;
   }
 
-  return collapseOperations(operations.reverse());
+  return operations.reverse();
+}
+
+export function diffTextBlocks(before: string, after: string): DiffOperation[] {
+  const left = splitBlocks(before);
+  const right = splitBlocks(after);
+
+  if (left.length === 0 && right.length === 0) {
+    return [];
+  }
+
+  return collapseOperations(diffSequences(left, right));
+}
+
+function tokenize(value: string, granularity: DiffGranularity): string[] {
+  if (granularity === 'char') {
+    return Array.from(value);
+  }
+  return value.match(/\s+|[\p{L}\p{N}\p{M}]+|[^\s\p{L}\p{N}\p{M}]/gu) ?? [];
+}
+
+// Agrupa cada tramo de cambios en un borrado seguido de una insercion; los espacios sueltos
+// entre dos cambios se absorben para no fragmentar frases reescritas.
+function groupInlineOperations(operations: DiffOperation[]): DiffOperation[] {
+  const grouped: DiffOperation[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    if (deleted) {
+      grouped.push({ type: 'delete', value: deleted });
+    }
+    if (inserted) {
+      grouped.push({ type: 'insert', value: inserted });
+    }
+    deleted = '';
+    inserted = '';
+  };
+
+  operations.forEach((operation, index) => {
+    if (operation.type === 'delete') {
+      deleted += operation.value;
+      return;
+    }
+    if (operation.type === 'insert') {
+      inserted += operation.value;
+      return;
+    }
+
+    const next = operations[index + 1];
+    const insideChange = (deleted || inserted) && next && next.type !== 'equal';
+    if (insideChange && /^\s+$/.test(operation.value)) {
+      deleted += operation.value;
+      inserted += operation.value;
+      return;
+    }
+
+    flush();
+    const previous = grouped[grouped.length - 1];
+    if (previous?.type === 'equal') {
+      previous.value += operation.value;
+    } else {
+      grouped.push({ ...operation });
+    }
+  });
+
+  flush();
+  return grouped;
+}
+
+export function diffInlineText(
+  before: string,
+  after: string,
+  granularity: DiffGranularity = 'word',
+): DiffOperation[] {
+  const left = tokenize(before, granularity);
+  const right = tokenize(after, granularity);
+  if (granularity === 'char' && left.length * right.length > MAX_DIFF_COMPLEXITY) {
+    return diffInlineText(before, after, 'word');
+  }
+
+  return groupInlineOperations(collapseOperations(diffSequences(left, right), ''));
+}
+
+function wordSimilarity(left: string, right: string): number {
+  const leftWords = left.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const rightWords = right.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (leftWords.length === 0 || rightWords.length === 0) {
+    return leftWords.length === rightWords.length ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const word of leftWords) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (const word of rightWords) {
+    const available = counts.get(word) ?? 0;
+    if (available > 0) {
+      shared += 1;
+      counts.set(word, available - 1);
+    }
+  }
+  return (2 * shared) / (leftWords.length + rightWords.length);
+}
+
+// Diff por parrafos que empareja parrafos reescritos (diff por palabra o caracter dentro)
+// y detecta parrafos movidos de sitio sin cambios.
+export function diffParagraphs(
+  before: string,
+  after: string,
+  granularity: DiffGranularity = 'word',
+): ParagraphDiffEntry[] {
+  const operations = diffSequences(splitBlocks(before), splitBlocks(after));
+  const entries: ParagraphDiffEntry[] = [];
+  let hunkCounter = 0;
+  const nextHunkId = () => {
+    hunkCounter += 1;
+    return hunkCounter;
+  };
+
+  const deletedByText = new Map<string, number[]>();
+  operations.forEach((operation, index) => {
+    if (operation.type === 'delete') {
+      deletedByText.set(operation.value, [...(deletedByText.get(operation.value) ?? []), index]);
+    }
+  });
+  const moveByOperation = new Map<number, number>();
+  operations.forEach((operation, index) => {
+    const candidates = operation.type === 'insert' ? deletedByText.get(operation.value) : undefined;
+    const deleteIndex = candidates?.shift();
+    if (deleteIndex !== undefined) {
+      moveByOperation.set(deleteIndex, index);
+      moveByOperation.set(index, deleteIndex);
+    }
+  });
+  const moveHunks = new Map<number, number>();
+
+  let index = 0;
+  while (index < operations.length) {
+    const operation = operations[index];
+    if (operation.type === 'equal') {
+      entries.push({ kind: 'equal', before: operation.value, after: operation.value, inline: [], hunkId: null });
+      index += 1;
+      continue;
+    }
+
+    // Tramo contiguo de cambios: se emparejan borrados e inserciones parecidos como reescritura.
+    const deletes: number[] = [];
+    const inserts: number[] = [];
+    while (index < operations.length && operations[index].type !== 'equal') {
+      (operations[index].type === 'delete' ? deletes : inserts).push(index);
+      index += 1;
+    }
+
+    // Emparejamiento monotono para respetar el orden de ambos textos.
+    const pairByInsert = new Map<number, number>();
+    let searchFrom = 0;
+    for (const deleteIndex of deletes) {
+      if (moveByOperation.has(deleteIndex)) {
+        continue;
+      }
+      const value = operations[deleteIndex].value;
+      const match = inserts.findIndex(
+        (insertIndex, position) =>
+          position >= searchFrom &&
+          !moveByOperation.has(insertIndex) &&
+          wordSimilarity(value, operations[insertIndex].value) >= MODIFY_SIMILARITY_THRESHOLD,
+      );
+      if (match >= 0) {
+        pairByInsert.set(inserts[match], deleteIndex);
+        searchFrom = match + 1;
+      }
+    }
+    const pairedDeletes = new Set(pairByInsert.values());
+
+    let deleteCursor = 0;
+    const emitDeletesBefore = (limit: number) => {
+      while (deleteCursor < deletes.length && deletes[deleteCursor] < limit) {
+        const deleteIndex = deletes[deleteCursor];
+        deleteCursor += 1;
+        if (pairedDeletes.has(deleteIndex)) {
+          continue;
+        }
+        const value = operations[deleteIndex].value;
+        const partner = moveByOperation.get(deleteIndex);
+        if (partner !== undefined) {
+          const hunkId = moveHunks.get(partner) ?? nextHunkId();
+          moveHunks.set(deleteIndex, hunkId);
+          entries.push({ kind: 'move-from', before: value, after: '', inline: [], hunkId });
+        } else {
+          entries.push({ kind: 'delete', before: value, after: '', inline: [], hunkId: nextHunkId() });
+        }
+      }
+    };
+
+    for (const insertIndex of inserts) {
+      const value = operations[insertIndex].value;
+      const pairedDelete = pairByInsert.get(insertIndex);
+      const partner = moveByOperation.get(insertIndex);
+      if (pairedDelete !== undefined) {
+        emitDeletesBefore(pairedDelete + 1);
+        const before = operations[pairedDelete].value;
+        entries.push({
+          kind: 'modify',
+          before,
+          after: value,
+          inline: diffInlineText(before, value, granularity),
+          hunkId: nextHunkId(),
+        });
+      } else if (partner !== undefined) {
+        const hunkId = moveHunks.get(partner) ?? nextHunkId();
+        moveHunks.set(insertIndex, hunkId);
+        entries.push({ kind: 'move-to', before: '', after: value, inline: [], hunkId });
+      } else {
+        entries.push({ kind: 'insert', before: '', after: value, inline: [], hunkId: nextHunkId() });
+      }
+    }
+    emitDeletesBefore(Number.POSITIVE_INFINITY);
+  }
+
+  return entries;
+}
+
+export function summarizeParagraphDiff(entries: ParagraphDiffEntry[]): ParagraphDiffSummary {
+  const hunks = new Set<number>();
+  const summary: ParagraphDiffSummary = {
+    equalCount: 0,
+    insertCount: 0,
+    deleteCount: 0,
+    modifyCount: 0,
+    moveCount: 0,
+    hunkCount: 0,
+  };
+
+  for (const entry of entries) {
+    if (entry.hunkId !== null) {
+      hunks.add(entry.hunkId);
+    }
+    if (entry.kind === 'equal') {
+      summary.equalCount += 1;
+    } else if (entry.kind === 'insert') {
+      summary.insertCount += 1;
+    } else if (entry.kind === 'delete') {
+      summary.deleteCount += 1;
+    } else if (entry.kind === 'modify') {
+      summary.modifyCount += 1;
+    } else if (entry.kind === 'move-to') {
+      summary.moveCount += 1;
+    }
+  }
+
+  summary.hunkCount = hunks.size;
+  return summary;
+}
+
+// Reconstruye el texto aplicando solo los hunks aceptados; el resto conserva la version anterior.
+export function applyParagraphDiffHunks(entries: ParagraphDiffEntry[], acceptedHunkIds: ReadonlySet<number>): string {
+  const paragraphs: string[] = [];
+  for (const entry of entries) {
+    const accepted = entry.hunkId !== null && acceptedHunkIds.has(entry.hunkId);
+    const value = entry.kind === 'equal' ? entry.before : accepted ? entry.after : entry.before;
+    if (value) {
+      paragraphs.push(value);
+    }
+  }
+  return paragraphs.join('\n\n');
 }
 
 export function summarizeDiffOperations(operations: DiffOperation[]): DiffSummary {
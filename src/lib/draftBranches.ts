@@ -0,0 +1,422 @@
+import { diffTextBlocks } from './diff';
+import type { ChapterDocument } from '../types/book';
+
+export const MAIN_DRAFT_BRANCH_ID = 'principal';
+
+export interface DraftBranch {
+  id: string;
+  name: string;
+  // Rama desde la que se bifurco; null para la linea principal.
+  forkedFrom: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Orden de capitulos guardado la ultima vez que la rama quedo inactiva.
+  chapterOrder: string[];
+  // Orden de capitulos en el punto de bifurcacion (base de la fusion a tres vias).
+  baseChapterOrder: string[];
+}
+
+export interface DraftMergeRecord {
+  branchId: string;
+  branchName: string;
+  targetBranchId: string;
+  chapterId: string;
+  status: DraftChapterMergeStatus;
+  conflictCount: number;
+  mergedAt: string;
+}
+
+export interface DraftBranchIndex {
+  activeBranchId: string;
+  branches: DraftBranch[];
+  merges: DraftMergeRecord[];
+}
+
+export type DraftChapterMergeStatus =
+  | 'unchanged'
+  | 'theirs-only'
+  | 'clean'
+  | 'conflict'
+  | 'added'
+  | 'removed';
+
+export type DraftConflictChoice = 'ours' | 'theirs' | 'both';
+
+export type DraftMergeSegment =
+  | { kind: 'stable'; blocks: string[] }
+  | { kind: 'merged'; source: 'ours' | 'theirs' | 'both'; blocks: string[] }
+  | { kind: 'conflict'; id: string; base: string[]; ours: string[]; theirs: string[] };
+
+export interface DraftChapterMerge {
+  // Id en la linea destino; difiere de theirs.id cuando la rama creo un capitulo con un id que aqui usa otro.
+  chapterId: string;
+  title: string;
+  status: DraftChapterMergeStatus;
+  segments: DraftMergeSegment[];
+  conflictCount: number;
+  base: ChapterDocument | null;
+  ours: ChapterDocument | null;
+  theirs: ChapterDocument | null;
+}
+
+export interface DraftMergeInput {
+  base: Record<string, ChapterDocument>;
+  baseOrder: string[];
+  ours: Record<string, ChapterDocument>;
+  oursOrder: string[];
+  theirs: Record<string, ChapterDocument>;
+  theirsOrder: string[];
+}
+
+interface BlockHunk {
+  start: number;
+  end: number;
+  blocks: string[];
+}
+
+const VOID_HTML_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'wbr', 'col', 'source']);
+
+export function buildDefaultDraftBranchIndex(chapterOrder: string[], now: string): DraftBranchIndex {
+  return {
+    activeBranchId: MAIN_DRAFT_BRANCH_ID,
+    branches: [
+      {
+        id: MAIN_DRAFT_BRANCH_ID,
+        name: 'Principal',
+        forkedFrom: null,
+        createdAt: now,
+        updatedAt: now,
+        chapterOrder: [...chapterOrder],
+        baseChapterOrder: [],
+      },
+    ],
+    merges: [],
+  };
+}
+
+function normalizeBlock(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+// Divide el HTML del capitulo en sus bloques de primer nivel (<p>, <h2>, <blockquote>, <hr>...).
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+  let depth = 0;
+  let blockStart = 0;
+  let cursor = 0;
+
+  const pushBlock = (value: string) => {
+    const normalized = normalizeBlock(value);
+    if (normalized) {
+      blocks.push(normalized);
+    }
+  };
+
+  for (const match of html.matchAll(tagPattern)) {
+    const index = match.index ?? 0;
+    const isClosing = match[1] === '/';
+    const tagName = match[2].toLowerCase();
+    const isVoid = match[3] === '/' || VOID_HTML_TAGS.has(tagName);
+
+    if (depth === 0) {
+      pushBlock(html.slice(cursor, index));
+      blockStart = index;
+    }
+
+    if (isClosing) {
+      depth = Math.max(0, depth - 1);
+    } else if (!isVoid) {
+      depth += 1;
+    }
+
+    cursor = index + match[0].length;
+    if (depth === 0) {
+      pushBlock(html.slice(blockStart, cursor));
+    }
+  }
+
+  pushBlock(html.slice(depth === 0 ? cursor : blockStart));
+  return blocks;
+}
+
+function collectHunks(base: string[], side: string[]): BlockHunk[] {
+  const hunks: BlockHunk[] = [];
+  let baseIndex = 0;
+  let current: BlockHunk | null = null;
+
+  for (const operation of diffTextBlocks(base.join('\n\n'), side.join('\n\n'))) {
+    const values = operation.value.split('\n\n');
+    if (operation.type === 'equal') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      baseIndex += values.length;
+      continue;
+    }
+
+    current ??= { start: baseIndex, end: baseIndex, blocks: [] };
+    if (operation.type === 'delete') {
+      baseIndex += values.length;
+      current.end = baseIndex;
+    } else {
+      current.blocks.push(...values);
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+function hunksOverlap(left: BlockHunk, right: { start: number; end: number }): boolean {
+  if (left.start < right.end && right.start < left.end) {
+    return true;
+  }
+  // Una insercion en el mismo punto donde la otra version empieza a cambiar tambien choca.
+  return left.start === right.start && (left.start === left.end || right.start === right.end);
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: BlockHunk[]): string[] {
+  const result: string[] = [];
+  let cursor = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(cursor, hunk.start), ...hunk.blocks);
+    cursor = hunk.end;
+  }
+  result.push(...base.slice(cursor, end));
+  return result;
+}
+
+function sameBlocks(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((value, index) => value === right[index]);
+}
+
+export function mergeTextBlocks3(base: string[], ours: string[], theirs: string[]): DraftMergeSegment[] {
+  const normalizedBase = base.map(normalizeBlock).filter(Boolean);
+  const oursHunks = collectHunks(normalizedBase, ours.map(normalizeBlock).filter(Boolean));
+  const theirsHunks = collectHunks(normalizedBase, theirs.map(normalizeBlock).filter(Boolean));
+  const segments: DraftMergeSegment[] = [];
+  let cursor = 0;
+  let oursIndex = 0;
+  let theirsIndex = 0;
+  let conflictIndex = 0;
+
+  const pushStable = (blocks: string[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const previous = segments[segments.length - 1];
+    if (previous?.kind === 'stable') {
+      previous.blocks.push(...blocks);
+    } else {
+      segments.push({ kind: 'stable', blocks: [...blocks] });
+    }
+  };
+
+  while (oursIndex < oursHunks.length || theirsIndex < theirsHunks.length) {
+    const nextOurs = oursHunks[oursIndex];
+    const nextTheirs = theirsHunks[theirsIndex];
+    const startsWithOurs = !nextTheirs || (nextOurs !== undefined && nextOurs.start <= nextTheirs.start);
+    const first = startsWithOurs ? nextOurs : nextTheirs;
+
+    // Agrupa todos los cambios de ambas versiones que se solapan en la misma region de la base.
+    const region = { start: first.start, end: first.end };
+    const regionOurs: BlockHunk[] = startsWithOurs ? [first] : [];
+    const regionTheirs: BlockHunk[] = startsWithOurs ? [] : [first];
+    if (startsWithOurs) {
+      oursIndex += 1;
+    } else {
+      theirsIndex += 1;
+    }
+    let grew = true;
+    while (grew) {
+      grew = false;
+      const candidateOurs = oursHunks[oursIndex];
+      if (candidateOurs && hunksOverlap(candidateOurs, region)) {
+        regionOurs.push(candidateOurs);
+        region.end = Math.max(region.end, candidateOurs.end);
+        oursIndex += 1;
+        grew = true;
+      }
+      const candidateTheirs = theirsHunks[theirsIndex];
+      if (candidateTheirs && hunksOverlap(candidateTheirs, region)) {
+        regionTheirs.push(candidateTheirs);
+        region.end = Math.max(region.end, candidateTheirs.end);
+        theirsIndex += 1;
+        grew = true;
+      }
+    }
+
+    pushStable(normalizedBase.slice(cursor, region.start));
+    const baseBlocks = normalizedBase.slice(region.start, region.end);
+    const oursBlocks = applyHunks(normalizedBase, region.start, region.end, regionOurs);
+    const theirsBlocks = applyHunks(normalizedBase, region.start, region.end, regionTheirs);
+
+    if (regionTheirs.length === 0) {
+      segments.push({ kind: 'merged', source: 'ours', blocks: oursBlocks });
+    } else if (regionOurs.length === 0) {
+      segments.push({ kind: 'merged', source: 'theirs', blocks: theirsBlocks });
+    } else if (sameBlocks(oursBlocks, theirsBlocks)) {
+      segments.push({ kind: 'merged', source: 'both', blocks: oursBlocks });
+    } else {
+      conflictIndex += 1;
+      segments.push({
+        kind: 'conflict',
+        id: `conflict-${conflictIndex}`,
+        base: baseBlocks,
+        ours: oursBlocks,
+        theirs: theirsBlocks,
+      });
+    }
+    cursor = region.end;
+  }
+
+  pushStable(normalizedBase.slice(cursor));
+  return segments;
+}
+
+function chapterBlocks(chapter: ChapterDocument | null | undefined): string[] {
+  return chapter ? splitHtmlBlocks(chapter.content) : [];
+}
+
+function sameChapterText(left: ChapterDocument | null | undefined, right: ChapterDocument | null | undefined): boolean {
+  return sameBlocks(chapterBlocks(left), chapterBlocks(right));
+}
+
+function mergeChapterTitle(
+  base: ChapterDocument | null,
+  ours: ChapterDocument | null,
+  theirs: ChapterDocument | null,
+): string {
+  if (ours && theirs && base && ours.title === base.title && theirs.title !== base.title) {
+    return theirs.title;
+  }
+  return ours?.title ?? theirs?.title ?? base?.title ?? '';
+}
+
+export function mergeDraftChapter(
+  chapterId: string,
+  base: ChapterDocument | null,
+  ours: ChapterDocument | null,
+  theirs: ChapterDocument | null,
+): DraftChapterMerge {
+  const result: DraftChapterMerge = {
+    chapterId,
+    title: mergeChapterTitle(base, ours, theirs),
+    status: 'unchanged',
+    segments: [],
+    conflictCount: 0,
+    base,
+    ours,
+    theirs,
+  };
+
+  if (!theirs) {
+    // La rama borro el capitulo: solo se propaga si aqui no se toco desde la bifurcacion.
+    if (base && ours && sameChapterText(base, ours) && base.title === ours.title) {
+      result.status = 'removed';
+    }
+    return result;
+  }
+
+  if (!ours) {
+    result.status = base && sameChapterText(base, theirs) ? 'unchanged' : 'added';
+    result.segments = [{ kind: 'merged', source: 'theirs', blocks: chapterBlocks(theirs) }];
+    return result;
+  }
+
+  const titleChanged = result.title !== ours.title;
+  if (sameChapterText(ours, theirs) || (base && sameChapterText(base, theirs))) {
+    result.status = titleChanged ? 'clean' : 'unchanged';
+    result.segments = [{ kind: 'stable', blocks: chapterBlocks(ours) }];
+    return result;
+  }
+
+  if (base && sameChapterText(base, ours)) {
+    result.status = 'theirs-only';
+    result.segments = [{ kind: 'merged', source: 'theirs', blocks: chapterBlocks(theirs) }];
+    return result;
+  }
+
+  result.segments = mergeTextBlocks3(chapterBlocks(base), chapterBlocks(ours), chapterBlocks(theirs));
+  result.conflictCount = result.segments.filter((segment) => segment.kind === 'conflict').length;
+  result.status = result.conflictCount > 0 ? 'conflict' : 'clean';
+  return result;
+}
+
+function getNextChapterIdFromIds(ids: string[]): string {
+  let max = 0;
+  for (const id of ids) {
+    const value = Number.parseInt(id, 10);
+    if (Number.isFinite(value)) {
+      max = Math.max(max, value);
+    }
+  }
+
+  return String(max + 1).padStart(2, '0');
+}
+
+// Sin base, el mismo id en ambos lados con distinto contenido son dos capitulos creados por separado
+// tras la bifurcacion (los ids salen del orden de cada linea), no uno editado dos veces.
+function isIndependentAddition(
+  base: ChapterDocument | null,
+  ours: ChapterDocument | null,
+  theirs: ChapterDocument | null,
+): boolean {
+  return !base && Boolean(ours && theirs) && (!sameChapterText(ours, theirs) || ours?.title !== theirs?.title);
+}
+
+export function buildDraftMergePlan(input: DraftMergeInput): DraftChapterMerge[] {
+  const chapterIds: string[] = [];
+  const seen = new Set<string>();
+  for (const chapterId of [...input.oursOrder, ...input.theirsOrder, ...input.baseOrder]) {
+    if (!seen.has(chapterId)) {
+      seen.add(chapterId);
+      chapterIds.push(chapterId);
+    }
+  }
+
+  const usedIds = [...chapterIds];
+  return chapterIds.flatMap((chapterId) => {
+    const base = input.base[chapterId] ?? null;
+    const ours = input.ours[chapterId] ?? null;
+    const theirs = input.theirs[chapterId] ?? null;
+    if (!isIndependentAddition(base, ours, theirs)) {
+      return [mergeDraftChapter(chapterId, base, ours, theirs)];
+    }
+
+    const freshId = getNextChapterIdFromIds(usedIds);
+    usedIds.push(freshId);
+    return [mergeDraftChapter(chapterId, null, ours, null), mergeDraftChapter(freshId, null, null, theirs)];
+  });
+}
+
+// Devuelve el HTML fusionado o null si queda algun conflicto sin decidir.
+export function resolveDraftChapterMerge(
+  merge: DraftChapterMerge,
+  choices: Record<string, DraftConflictChoice>,
+): string | null {
+  const blocks: string[] = [];
+  for (const segment of merge.segments) {
+    if (segment.kind !== 'conflict') {
+      blocks.push(...segment.blocks);
+      continue;
+    }
+
+    const choice = choices[segment.id];
+    if (!choice) {
+      return null;
+    }
+    if (choice === 'ours' || choice === 'both') {
+      blocks.push(...segment.ours);
+    }
+    if (choice === 'theirs' || choice === 'both') {
+      blocks.push(...segment.theirs);
+    }
+  }
+
+  return blocks.length > 0 ? blocks.join('') : '<p></p>';
+}
@@ -1,6 +1,7 @@
 import { validateAmazonMetadata } from './amazonValidation';
 import { normalizeLanguageCode } from './language';
-import type { AppConfig, BookMetadata, EditorialChecklistCustomItem } from '../types/book';
+import { buildChapterStyleRuleReports, parseStyleRules } from './styleRules';
+import type { AppConfig, BookMetadata, ChapterDocument, EditorialChecklistCustomItem } from '../types/book';
 
 export type EditorialIssueLevel = 'error' | 'warning';
 
@@ -68,7 +69,39 @@ function appendCustomChecklistIssues(issues: EditorialIssue[], customItems: Edit
   }
 }
 
-export function buildEditorialChecklist(metadata: BookMetadata, config: AppConfig): EditorialChecklistReport {
+function appendStyleRuleIssues(issues: EditorialIssue[], metadata: BookMetadata, chapters: ChapterDocument[]): void {
+  const ruleSet = parseStyleRules(metadata.foundation);
+  if (ruleSet.errors.length > 0) {
+    issues.push(
+      toIssue(
+        'style.rules.invalid',
+        'warning',
+        'Reglas de estilo invalidas',
+        `Revisa la base del libro: ${ruleSet.errors.join(' ')}`,
+      ),
+    );
+  }
+
+  for (const report of buildChapterStyleRuleReports(chapters, ruleSet.rules)) {
+    const examples = report.examples
+      .map((violation) => (violation.replacement ? `"${violation.text}" -> "${violation.replacement}"` : `"${violation.text}"`))
+      .join(', ');
+    issues.push(
+      toIssue(
+        `style.rules.${report.chapterId}`,
+        'warning',
+        'Glosario y reglas de estilo',
+        `${report.title || report.chapterId}: ${report.count} infraccion(es). Ej: ${examples}.`,
+      ),
+    );
+  }
+}
+
+export function buildEditorialChecklist(
+  metadata: BookMetadata,
+  config: AppConfig,
+  chapters: ChapterDocument[] = [],
+): EditorialChecklistReport {
   const issues: EditorialIssue[] = [];
   const amazon = metadata.amazon;
 
@@ -161,6 +194,7 @@ export function buildEditorialChecklist(metadata: BookMetadata, config: AppConfi
     );
   }
 
+  appendStyleRuleIssues(issues, metadata, chapters);
   appendCustomChecklistIssues(issues, metadata.editorialChecklistCustom ?? []);
 
   const errors = issues.filter((item) => item.level === 'error');
@@ -0,0 +1,362 @@
+import type { ChapterDocument, SagaWorldBible, StoryBible } from '../types/book';
+
+// Renombrado de personajes y lugares: busca nombre y alias (tambien en mayusculas y con posesivo 's),
+// referencias semanticas y shortcodes @[Personaje:...], y reemplaza solo las apariciones aceptadas.
+
+export type EntityRenameKind = 'character' | 'location';
+export type EntityRenameSource = 'book' | 'saga';
+export type EntityRenameOccurrenceKind = 'text' | 'reference' | 'shortcode';
+
+export interface EntityRenameTarget {
+  kind: EntityRenameKind;
+  source: EntityRenameSource;
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface EntityRenamePlan {
+  target: EntityRenameTarget;
+  newName: string;
+  // Alias -> texto nuevo; un alias ausente o igual a si mismo no se toca en el manuscrito.
+  aliasReplacements: Record<string, string>;
+  keepOldNameAsAlias: boolean;
+}
+
+export interface EntityRenameChapterOccurrence {
+  index: number;
+  kind: EntityRenameOccurrenceKind;
+  matchedText: string;
+  replacementText: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface EntityRenameOccurrence extends EntityRenameChapterOccurrence {
+  key: string;
+  bookPath: string;
+  bookTitle: string;
+  chapterId: string;
+  chapterTitle: string;
+}
+
+export interface EntityRenameBookInput {
+  path: string;
+  title: string;
+  chapters: ChapterDocument[];
+}
+
+interface ScannedOccurrence extends Omit<EntityRenameChapterOccurrence, 'contextBefore' | 'contextAfter'> {
+  start: number;
+  end: number;
+  replacementHtml: string;
+}
+
+const CONTEXT_LENGTH = 60;
+const TOKEN_PATTERN =
+  /<span\b[^>]*\bdata-semantic-ref-kind=["'](character|location)["'][^>]*>[^<]*<\/span>|<[^>]+>|[^<]+/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtmlAttribute(value: string): string {
+  return escapeHtmlText(value).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function decodeHtmlText(value: string): string {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function normalizeLookupValue(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return decodeHtmlText(match?.[1] ?? match?.[2] ?? '');
+}
+
+export function splitEntityAliases(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Propuesta inicial para un alias: si contiene el nombre viejo como palabra, se cambia esa parte.
+export function suggestAliasReplacement(alias: string, oldName: string, newName: string): string {
+  const name = oldName.trim();
+  if (!name || !newName.trim()) {
+    return alias;
+  }
+  return alias.replace(
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'gu'),
+    newName.trim(),
+  );
+}
+
+// Termino visible -> reemplazo. Solo entran los que cambian.
+export function buildEntityRenameReplacements(plan: EntityRenamePlan): Map<string, string> {
+  const replacements = new Map<string, string>();
+  const add = (term: string, replacement: string) => {
+    const cleanTerm = term.trim();
+    const cleanReplacement = replacement.trim();
+    if (!cleanTerm || !cleanReplacement || cleanTerm === cleanReplacement || replacements.has(cleanTerm)) {
+      return;
+    }
+    replacements.set(cleanTerm, cleanReplacement);
+    const upper = cleanTerm.toUpperCase();
+    if (upper !== cleanTerm && !replacements.has(upper)) {
+      replacements.set(upper, cleanReplacement.toUpperCase());
+    }
+  };
+
+  add(plan.target.name, plan.newName);
+  for (const alias of plan.target.aliases) {
+    add(alias, plan.aliasReplacements[alias] ?? alias);
+  }
+  return replacements;
+}
+
+function isEntityLabel(plan: EntityRenamePlan, label: string): boolean {
+  const normalized = normalizeLookupValue(label);
+  return (
+    normalized.length > 0 &&
+    [plan.target.name, ...plan.target.aliases].some((term) => normalizeLookupValue(term) === normalized)
+  );
+}
+
+function scanEntityOccurrences(html: string, plan: EntityRenamePlan): ScannedOccurrence[] {
+  const replacements = buildEntityRenameReplacements(plan);
+  const newName = plan.newName.trim();
+  if (!newName) {
+    return [];
+  }
+
+  const terms = Array.from(replacements.keys()).sort((left, right) => right.length - left.length);
+  const termSource = terms.map((term) => escapeRegExp(escapeHtmlText(term))).join('|');
+  const textPattern = new RegExp(
+    [
+      '([@#])\\[([Pp]ersonaje|[Ll]ugar)\\s*:\\s*([^\\]]+)\\]',
+      ...(termSource ? [`(?<![\\p{L}\\p{N}_])(${termSource})((?:'|’)s)?(?![\\p{L}\\p{N}_])`] : []),
+    ].join('|'),
+    'gu',
+  );
+  const shortcodeKind = plan.target.kind === 'character' ? 'personaje' : 'lugar';
+  const shortcodePrefix = plan.target.kind === 'character' ? '@' : '#';
+  const occurrences: ScannedOccurrence[] = [];
+
+  for (const token of html.matchAll(TOKEN_PATTERN)) {
+    const tokenStart = token.index ?? 0;
+    const value = token[0];
+
+    if (token[1]) {
+      const label = readAttribute(value, 'data-semantic-ref-label');
+      const refId = readAttribute(value, 'data-semantic-ref-id');
+      if (token[1].toLowerCase() !== plan.target.kind || !(refId === plan.target.id || isEntityLabel(plan, label))) {
+        continue;
+      }
+      const openTag = value.slice(0, value.indexOf('>') + 1).replace(
+        /\bdata-semantic-ref-label=(?:"[^"]*"|'[^']*')/i,
+        `data-semantic-ref-label="${escapeHtmlAttribute(newName)}"`,
+      );
+      const matchedText = decodeHtmlText(value.slice(value.indexOf('>') + 1, value.lastIndexOf('<')));
+      if (label === newName) {
+        continue;
+      }
+      occurrences.push({
+        index: occurrences.length,
+        kind: 'reference',
+        start: tokenStart,
+        end: tokenStart + value.length,
+        matchedText,
+        replacementText: `${shortcodePrefix}${newName}`,
+        replacementHtml: `${openTag}${escapeHtmlText(`${shortcodePrefix}${newName}`)}</span>`,
+      });
+      continue;
+    }
+    if (value.startsWith('<')) {
+      continue;
+    }
+
+    for (const match of value.matchAll(textPattern)) {
+      const start = tokenStart + (match.index ?? 0);
+      const end = start + match[0].length;
+      if (match[1]) {
+        const label = decodeHtmlText(match[3]).trim();
+        if (match[2].toLowerCase() !== shortcodeKind || match[1] !== shortcodePrefix || !isEntityLabel(plan, label) || label === newName) {
+          continue;
+        }
+        const replacementText = `${match[1]}[${match[2]}:${newName}]`;
+        occurrences.push({
+          index: occurrences.length,
+          kind: 'shortcode',
+          start,
+          end,
+          matchedText: decodeHtmlText(match[0]),
+          replacementText,
+          replacementHtml: escapeHtmlText(replacementText),
+        });
+        continue;
+      }
+
+      const term = decodeHtmlText(match[4]);
+      const replacement = replacements.get(term);
+      if (!replacement) {
+        continue;
+      }
+      const replacementText = `${replacement}${match[5] ?? ''}`;
+      occurrences.push({
+        index: occurrences.length,
+        kind: 'text',
+        start,
+        end,
+        matchedText: decodeHtmlText(match[0]),
+        replacementText,
+        replacementHtml: escapeHtmlText(replacementText),
+      });
+    }
+  }
+
+  return occurrences;
+}
+
+function htmlFragmentToContext(fragment: string, side: 'before' | 'after'): string {
+  let value = fragment;
+  if (side === 'before') {
+    const firstClose = value.indexOf('>');
+    const firstOpen = value.indexOf('<');
+    if (firstClose >= 0 && (firstOpen < 0 || firstClose < firstOpen)) {
+      value = value.slice(firstClose + 1);
+    }
+  } else {
+    const lastOpen = value.lastIndexOf('<');
+    if (lastOpen >= 0 && value.indexOf('>', lastOpen) < 0) {
+      value = value.slice(0, lastOpen);
+    }
+  }
+  const text = decodeHtmlText(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ');
+  return side === 'before' ? text.slice(-CONTEXT_LENGTH).trimStart() : text.slice(0, CONTEXT_LENGTH).trimEnd();
+}
+
+export function findEntityRenameOccurrencesInHtml(html: string, plan: EntityRenamePlan): EntityRenameChapterOccurrence[] {
+  const window = CONTEXT_LENGTH * 6;
+  return scanEntityOccurrences(html, plan).map((occurrence) => ({
+    index: occurrence.index,
+    kind: occurrence.kind,
+    matchedText: occurrence.matchedText,
+    replacementText: occurrence.replacementText,
+    contextBefore: htmlFragmentToContext(html.slice(Math.max(0, occurrence.start - window), occurrence.start), 'before'),
+    contextAfter: htmlFragmentToContext(html.slice(occurrence.end, occurrence.end + window), 'after'),
+  }));
+}
+
+// El indice de cada aparicion es estable mientras el HTML no cambie; la vista previa y la aplicacion
+// escanean el mismo contenido.
+export function applyEntityRenameToHtml(
+  html: string,
+  plan: EntityRenamePlan,
+  acceptedIndexes: ReadonlySet<number> | 'all',
+): { html: string; replacements: number } {
+  const accepted = scanEntityOccurrences(html, plan).filter(
+    (occurrence) => acceptedIndexes === 'all' || acceptedIndexes.has(occurrence.index),
+  );
+  let result = html;
+  for (const occurrence of [...accepted].reverse()) {
+    result = result.slice(0, occurrence.start) + occurrence.replacementHtml + result.slice(occurrence.end);
+  }
+  return { html: result, replacements: accepted.length };
+}
+
+export function buildEntityRenameOccurrenceKey(bookPath: string, chapterId: string, index: number): string {
+  return `${bookPath}::${chapterId}::${index}`;
+}
+
+export function buildEntityRenamePreview(books: EntityRenameBookInput[], plan: EntityRenamePlan): EntityRenameOccurrence[] {
+  return books.flatMap((book) =>
+    book.chapters.flatMap((chapter) =>
+      findEntityRenameOccurrencesInHtml(chapter.content, plan).map((occurrence) => ({
+        ...occurrence,
+        key: buildEntityRenameOccurrenceKey(book.path, chapter.id, occurrence.index),
+        bookPath: book.path,
+        bookTitle: book.title,
+        chapterId: chapter.id,
+        chapterTitle: chapter.title,
+      })),
+    ),
+  );
+}
+
+function renameAliasList(aliases: string[], plan: EntityRenamePlan): string[] {
+  const newName = plan.newName.trim();
+  const next = aliases.map((alias) => (plan.aliasReplacements[alias] ?? alias).trim());
+  if (plan.keepOldNameAsAlias && plan.target.name.trim()) {
+    next.push(plan.target.name.trim());
+  }
+  const seen = new Set<string>([normalizeLookupValue(newName)]);
+  return next.filter((alias) => {
+    const key = normalizeLookupValue(alias);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+export function renameStoryBibleEntity(bible: StoryBible, plan: EntityRenamePlan): StoryBible {
+  const rename = <T extends { id: string; name: string; aliases: string }>(entry: T): T =>
+    entry.id === plan.target.id
+      ? { ...entry, name: plan.newName.trim(), aliases: renameAliasList(splitEntityAliases(entry.aliases), plan).join(', ') }
+      : entry;
+
+  return plan.target.kind === 'character'
+    ? { ...bible, characters: bible.characters.map(rename) }
+    : { ...bible, locations: bible.locations.map(rename) };
+}
+
+export function renameSagaWorldEntity(world: SagaWorldBible, plan: EntityRenamePlan): SagaWorldBible {
+  if (plan.target.kind === 'location') {
+    return {
+      ...world,
+      locations: world.locations.map((entry) =>
+        entry.id === plan.target.id
+          ? { ...entry, name: plan.newName.trim(), aliases: renameAliasList(splitEntityAliases(entry.aliases), plan).join(', ') }
+          : entry,
+      ),
+    };
+  }
+
+  return {
+    ...world,
+    characters: world.characters.map((entry) =>
+      entry.id === plan.target.id
+        ? {
+            ...entry,
+            name: plan.newName.trim(),
+            aliases: renameAliasList(splitEntityAliases(entry.aliases), plan).join(', '),
+            aliasTimeline: entry.aliasTimeline.map((alias) => ({
+              ...alias,
+              value: (plan.aliasReplacements[alias.value] ?? alias.value).trim() || alias.value,
+            })),
+          }
+        : entry,
+    ),
+  };
+}
@@ -0,0 +1,243 @@
+import { readZipEntries } from './zipInspect';
+
+export interface EpubCoverImage {
+  data: Uint8Array;
+  extension: string;
+  mediaType: string;
+}
+
+export interface EpubSpineDocument {
+  href: string;
+  // Etiqueta del indice (nav EPUB 3 o NCX EPUB 2), vacia si no figura.
+  label: string;
+  xhtml: string;
+}
+
+export interface EpubPackage {
+  title: string;
+  author: string;
+  language: string;
+  isbn: string;
+  cover: EpubCoverImage | null;
+  documents: EpubSpineDocument[];
+}
+
+interface OpfManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+export interface OpfPackage {
+  title: string;
+  author: string;
+  language: string;
+  isbn: string;
+  manifest: OpfManifestItem[];
+  spine: Array<{ idref: string; linear: boolean }>;
+  tocId: string;
+  coverId: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x([0-9a-fA-F]+);/g, (_match, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#([0-9]+);/g, (_match, decimal: string) => String.fromCodePoint(Number.parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? decodeXmlText(match[1] ?? match[2] ?? '') : '';
+}
+
+function findElements(xml: string, localName: string): Array<{ tag: string; body: string }> {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${localName}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${localName}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => ({ tag: match[1] ?? '', body: match[2] ?? '' }));
+}
+
+export function resolveEpubPath(baseFile: string, href: string): string {
+  let cleanHref = href.split('#')[0];
+  try {
+    cleanHref = decodeURIComponent(cleanHref);
+  } catch {
+    // Href con escapes invalidos: se usa tal cual.
+  }
+  const segments = cleanHref.startsWith('/') ? [] : baseFile.split('/').slice(0, -1);
+  for (const segment of cleanHref.split('/')) {
+    if (!segment || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function extractIsbn(identifiers: Array<{ tag: string; body: string }>): string {
+  for (const identifier of identifiers) {
+    const value = decodeXmlText(identifier.body);
+    const scheme = readAttribute(identifier.tag, 'opf:scheme') || readAttribute(identifier.tag, 'scheme');
+    const candidate = value.replace(/^urn:isbn:/i, '');
+    const digits = candidate.replace(/[-\s]/g, '');
+    if (/^isbn$/i.test(scheme) || /^urn:isbn:/i.test(value) || /^(97[89]\d{10}|\d{9}[\dXx])$/.test(digits)) {
+      return candidate.trim();
+    }
+  }
+  return '';
+}
+
+export function parseOpfPackage(opfXml: string): OpfPackage {
+  const creators = findElements(opfXml, 'creator');
+  const author =
+    creators.find((creator) => /aut/.test(readAttribute(creator.tag, 'opf:role') || readAttribute(creator.tag, 'role'))) ??
+    creators[0];
+  const coverMeta = findElements(opfXml, 'meta').find((meta) => readAttribute(meta.tag, 'name') === 'cover');
+  const spineElement = findElements(opfXml, 'spine')[0];
+
+  return {
+    title: decodeXmlText(findElements(opfXml, 'title')[0]?.body ?? ''),
+    author: author ? decodeXmlText(author.body) : '',
+    language: decodeXmlText(findElements(opfXml, 'language')[0]?.body ?? ''),
+    isbn: extractIsbn(findElements(opfXml, 'identifier')),
+    manifest: findElements(opfXml, 'item').map((item) => ({
+      id: readAttribute(item.tag, 'id'),
+      href: readAttribute(item.tag, 'href'),
+      mediaType: readAttribute(item.tag, 'media-type'),
+      properties: readAttribute(item.tag, 'properties').split(/\s+/).filter(Boolean),
+    })),
+    spine: findElements(spineElement?.body ?? '', 'itemref').map((itemref) => ({
+      idref: readAttribute(itemref.tag, 'idref'),
+      linear: readAttribute(itemref.tag, 'linear') !== 'no',
+    })),
+    tocId: spineElement ? readAttribute(spineElement.tag, 'toc') : '',
+    coverId: coverMeta ? readAttribute(coverMeta.tag, 'content') : '',
+  };
+}
+
+function collectNavLabels(
+  opf: OpfPackage,
+  opfPath: string,
+  readText: (path: string) => string | null,
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  const navItem = opf.manifest.find((item) => item.properties.includes('nav'));
+  if (navItem) {
+    const navPath = resolveEpubPath(opfPath, navItem.href);
+    const navXml = readText(navPath) ?? '';
+    const tocNav =
+      findElements(navXml, 'nav').find((nav) => /toc/.test(readAttribute(nav.tag, 'epub:type'))) ??
+      findElements(navXml, 'nav')[0];
+    for (const link of findElements(tocNav?.body ?? '', 'a')) {
+      const target = resolveEpubPath(navPath, readAttribute(link.tag, 'href'));
+      if (target && !labels.has(target)) {
+        labels.set(target, decodeXmlText(link.body));
+      }
+    }
+  }
+
+  const ncxItem =
+    opf.manifest.find((item) => item.id === opf.tocId) ??
+    opf.manifest.find((item) => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncxItem) {
+    const ncxPath = resolveEpubPath(opfPath, ncxItem.href);
+    const navMap = findElements(readText(ncxPath) ?? '', 'navMap')[0]?.body ?? '';
+    // Los navPoint se anidan; cada uno abre con su etiqueta seguida de su content.
+    for (const match of navMap.matchAll(/<(?:[\w-]+:)?text>([\s\S]*?)<\/(?:[\w-]+:)?text>[\s\S]*?<(?:[\w-]+:)?content\b([^>]*?)\/?>/g)) {
+      const target = resolveEpubPath(ncxPath, readAttribute(match[2], 'src'));
+      if (target && !labels.has(target)) {
+        labels.set(target, decodeXmlText(match[1]));
+      }
+    }
+  }
+
+  return labels;
+}
+
+function resolveCoverItem(opf: OpfManifestItem[], coverId: string): OpfManifestItem | undefined {
+  const images = opf.filter((item) => item.mediaType.startsWith('image/'));
+  return (
+    images.find((item) => item.properties.includes('cover-image')) ??
+    images.find((item) => item.id === coverId) ??
+    images.find((item) => /cover/i.test(item.id) || /cover/i.test(item.href))
+  );
+}
+
+export async function readEpubPackage(archive: Uint8Array): Promise<EpubPackage> {
+  const entries = await readZipEntries(archive);
+  const entryByName = new Map(entries.map((entry) => [entry.name, entry.data]));
+  const decoder = new TextDecoder();
+  const readText = (path: string) => {
+    const data = entryByName.get(path);
+    return data ? decoder.decode(data) : null;
+  };
+
+  const containerXml = readText('META-INF/container.xml');
+  if (!containerXml) {
+    throw new Error('EPUB invalido: falta META-INF/container.xml.');
+  }
+  const rootfile = findElements(containerXml, 'rootfile')[0];
+  const opfPath = rootfile ? readAttribute(rootfile.tag, 'full-path') : '';
+  const opfXml = opfPath ? readText(opfPath) : null;
+  if (!opfXml) {
+    throw new Error('EPUB invalido: no se encontro el paquete OPF.');
+  }
+
+  const opf = parseOpfPackage(opfXml);
+  const manifestById = new Map(opf.manifest.map((item) => [item.id, item]));
+  const labels = collectNavLabels(opf, opfPath, readText);
+  const documents: EpubSpineDocument[] = [];
+  for (const itemref of opf.spine) {
+    const item = manifestById.get(itemref.idref);
+    if (!itemref.linear || !item || item.properties.includes('nav') || !/html/.test(item.mediaType)) {
+      continue;
+    }
+    const href = resolveEpubPath(opfPath, item.href);
+    const xhtml = readText(href);
+    if (xhtml) {
+      documents.push({ href, label: labels.get(href) ?? '', xhtml });
+    }
+  }
+  if (documents.length === 0) {
+    throw new Error('EPUB invalido: el spine no contiene documentos XHTML.');
+  }
+
+  const coverItem = resolveCoverItem(opf.manifest, opf.coverId);
+  const coverData = coverItem ? entryByName.get(resolveEpubPath(opfPath, coverItem.href)) : undefined;
+
+  return {
+    title: opf.title,
+    author: opf.author,
+    language: opf.language,
+    isbn: opf.isbn,
+    cover:
+      coverItem && coverData
+        ? {
+            data: coverData,
+            extension: IMAGE_EXTENSIONS[coverItem.mediaType] ?? (coverItem.href.split('.').pop() ?? 'png').toLowerCase(),
+            mediaType: coverItem.mediaType,
+          }
+        : null,
+    documents,
+  };
+}
@@ -3,10 +3,17 @@ import { buildAmazonCopyPack, buildAmazonMetadataCsv } from './amazon';
 import { validateAmazonMetadata } from './amazonValidation';
 import { normalizeLanguageCode } from './language';
 import { htmlToMarkdown, randomId, safeFileName, sanitizeHtmlForPreview, stripHtml } from './text';
-import { writeBinaryExport, writeMarkdownExport, writeTextExport } from './storage';
-import { analyzeBookStyleFromChapters, getStyleLevelLabel } from './styleMetrics';
+import { loadPdfInteriorFonts, writeBinaryExport, writeMarkdownExport, writeTextExport } from './storage';
+import type { PdfFontFaces } from './pdfFonts';
+import { buildTypesetPdf, type PdfBlock, type PdfChapterInput } from './pdfInterior';
+import { analyzeBookStyleFromChapters, getStyleLevelLabel, type StyleAnalysis } from './styleMetrics';
+import type { ProseLintLanguage } from './proseLint';
+import { removeAiOriginMarks } from './aiProvenanceMarks';
+import { listCommentAnchorIds, removeCommentAnchors } from './manuscriptComments';
+import { acceptAllTrackedChanges, readTrackedChangeAttributes, type TrackedChangeKind } from './trackChanges';
 import { createZipArchive } from './zip';
 import { countWordsFromHtml } from './metrics';
+import { buildAiProvenanceRows, type AiAuditRecord, type AiAuditVerificationReport } from './aiAudit';
 
 function resolveTrimSize(metadata: BookMetadata): { width: number; height: number } {
   const trim = metadata.interiorFormat.trimSize;
@@ -819,10 +826,27 @@ function extractChapterParagraphs(chapter: ChapterDocument): string[] {
     .filter((line) => line.length > 0);
 }
 
+interface DocxRevision {
+  kind: TrackedChangeKind;
+  author: string;
+  date: string;
+}
+
 interface DocxInlineRun {
   text: string;
   bold?: boolean;
   italic?: boolean;
+  revision?: DocxRevision;
+  commentIds?: string[];
+}
+
+interface DocxComment {
+  id: number;
+  author: string;
+  date: string;
+  text: string;
+  done: boolean;
+  parentId: number | null;
 }
 
 interface DocxBlock {
@@ -831,6 +855,9 @@ interface DocxBlock {
   runs: DocxInlineRun[];
 }
 
+const DOCX_REVISION_ID_PLACEHOLDER = '__DOCX_REVISION_ID__';
+const DOCX_COMMENT_MARKER_PATTERN = /<!--comment-(start|end):([^>]+?)-->/g;
+
 function decodeBasicHtmlEntities(value: string): string {
   return value
     .replace(/&amp;/gi, '&')
@@ -857,11 +884,22 @@ function buildDocxRunsFromInlineHtml(html: string): DocxInlineRun[] {
     .filter(Boolean);
   let boldDepth = 0;
   let italicDepth = 0;
+  let revision: DocxRevision | undefined;
+  const spanStack: Array<string | null> = [];
 
   for (const token of tokens) {
     if (token.startsWith('<')) {
       const normalized = token.toLowerCase().trim();
-      if (/^<\s*(strong|b)[\s>]/.test(normalized)) {
+      if (/^<\s*span\b/.test(normalized)) {
+        spanStack.push(token.match(/\bdata-comment-id=["']([^"']+)["']/i)?.[1] ?? null);
+      } else if (/^<\s*\/\s*span\s*>/.test(normalized)) {
+        spanStack.pop();
+      } else if (/^<\s*(ins|del)\s[^>]*data-track-change=/.test(normalized)) {
+        const attributes = readTrackedChangeAttributes(token);
+        revision = { kind: attributes.kind, author: attributes.author, date: attributes.date };
+      } else if (/^<\s*\/\s*(ins|del)\s*>/.test(normalized)) {
+        revision = undefined;
+      } else if (/^<\s*(strong|b)[\s>]/.test(normalized)) {
         boldDepth += 1;
       } else if (/^<\s*\/\s*(strong|b)\s*>/.test(normalized)) {
         boldDepth = Math.max(0, boldDepth - 1);
@@ -873,19 +911,32 @@ function buildDocxRunsFromInlineHtml(html: string): DocxInlineRun[] {
       continue;
     }
 
-    const normalizedText = decodeBasicHtmlEntities(token).replace(/\s+/g, ' ').trim();
-    if (!normalizedText) {
+    // Se conservan los espacios de borde: separan palabras entre runs con distinto formato.
+    const normalizedText = decodeBasicHtmlEntities(token).replace(/\s+/g, ' ');
+    if (!normalizedText.trim()) {
+      const previous = runs[runs.length - 1];
+      if (previous && !previous.text.endsWith(' ')) {
+        previous.text += ' ';
+      }
       continue;
     }
 
+    const commentIds = spanStack.filter((id): id is string => Boolean(id));
     runs.push({
       text: normalizedText,
       bold: boldDepth > 0,
       italic: italicDepth > 0,
+      ...(revision ? { revision } : {}),
+      ...(commentIds.length > 0 ? { commentIds } : {}),
     });
   }
 
-  return runs;
+  if (runs.length > 0) {
+    runs[0].text = runs[0].text.trimStart();
+    runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+  }
+
+  return runs.filter((run) => run.text.length > 0);
 }
 
 function extractDocxBlocksFromChapter(chapter: ChapterDocument): DocxBlock[] {
@@ -927,6 +978,10 @@ function extractDocxBlocksFromChapter(chapter: ChapterDocument): DocxBlock[] {
   }));
 }
 
+function formatDocxDate(value: string): string {
+  return value.replace(/\.\d{3}Z$/, 'Z');
+}
+
 function buildDocxParagraphFromRuns(
   runs: DocxInlineRun[],
   options?: {
@@ -950,27 +1005,66 @@ function buildDocxParagraphFromRuns(
     .join('');
   const paragraphProperties = paragraphProps ? `<w:pPr>${paragraphProps}</w:pPr>` : '';
 
+  // Los comentarios se marcan con comentarios XML provisionales; buildDocxDocumentXml los numera
+  // y deja un solo inicio/fin por nota aunque el ancla cruce parrafos.
+  const openComments: string[] = [];
+  const closeComments = (keep: string[]) => {
+    const closing = openComments.filter((id) => !keep.includes(id));
+    openComments.splice(0, openComments.length, ...openComments.filter((id) => keep.includes(id)));
+    return closing.map((id) => `<!--comment-end:${id}-->`).join('');
+  };
   const runXml =
     runs.length > 0
       ? runs
           .map((run) => {
-            const runProps = [
-              options?.bold || run.bold ? '<w:b />' : '',
-              options?.italic || run.italic ? '<w:i />' : '',
-              options?.fontHalfPoints ? `<w:sz w:val="${options.fontHalfPoints}" />` : '',
-              options?.fontHalfPoints ? `<w:szCs w:val="${options.fontHalfPoints}" />` : '',
-            ]
-              .filter(Boolean)
+            const commentIds = run.commentIds ?? [];
+            const closing = closeComments(commentIds);
+            const opening = commentIds
+              .filter((id) => !openComments.includes(id))
+              .map((id) => {
+                openComments.push(id);
+                return `<!--comment-start:${id}-->`;
+              })
               .join('');
-            const runProperties = runProps ? `<w:rPr>${runProps}</w:rPr>` : '';
-            return `<w:r>${runProperties}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+            return closing + opening + buildDocxRunXml(run, options);
           })
-          .join('')
+          .join('') + closeComments([])
       : '<w:r><w:t xml:space="preserve"></w:t></w:r>';
 
   return `<w:p>${paragraphProperties}${runXml}</w:p>`;
 }
 
+function buildDocxRunXml(
+  run: DocxInlineRun,
+  options?: {
+    bold?: boolean;
+    fontHalfPoints?: number;
+    italic?: boolean;
+  },
+): string {
+  const runProps = [
+    options?.bold || run.bold ? '<w:b />' : '',
+    options?.italic || run.italic ? '<w:i />' : '',
+    options?.fontHalfPoints ? `<w:sz w:val="${options.fontHalfPoints}" />` : '',
+    options?.fontHalfPoints ? `<w:szCs w:val="${options.fontHalfPoints}" />` : '',
+  ]
+    .filter(Boolean)
+    .join('');
+  const runProperties = runProps ? `<w:rPr>${runProps}</w:rPr>` : '';
+  if (!run.revision) {
+    return `<w:r>${runProperties}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+  }
+
+  // Revisiones de Word: el w:id numerico se asigna al cerrar el documento.
+  const tag = run.revision.kind === 'insert' ? 'w:ins' : 'w:del';
+  const textTag = run.revision.kind === 'insert' ? 'w:t' : 'w:delText';
+  const date = run.revision.date ? ` w:date="${escapeXml(formatDocxDate(run.revision.date))}"` : '';
+  return (
+    `<${tag} w:id="${DOCX_REVISION_ID_PLACEHOLDER}" w:author="${escapeXml(run.revision.author || 'WriteWMe')}"${date}>` +
+    `<w:r>${runProperties}<${textTag} xml:space="preserve">${escapeXml(run.text)}</${textTag}></w:r></${tag}>`
+  );
+}
+
 function buildDocxParagraph(
   text: string,
   options?: {
@@ -986,7 +1080,118 @@ function buildDocxParagraph(
   return buildDocxParagraphFromRuns([{ text }], options);
 }
 
-function buildDocxDocumentXml(metadata: BookMetadata, orderedChapters: ChapterDocument[]): string {
+// Numera notas y respuestas: cada respuesta es un comentario propio enlazado al padre en commentsExtended.
+function buildDocxComments(orderedChapters: ChapterDocument[]): Map<string, DocxComment[]> {
+  const groups = new Map<string, DocxComment[]>();
+  let nextId = 0;
+
+  for (const chapter of orderedChapters) {
+    for (const note of chapter.manuscriptNotes ?? []) {
+      const parentId = nextId;
+      const thread: DocxComment[] = [
+        {
+          id: nextId++,
+          author: note.author || 'WriteWMe',
+          date: note.createdAt,
+          text: note.note,
+          done: note.status === 'resolved',
+          parentId: null,
+        },
+      ];
+      for (const reply of note.replies ?? []) {
+        thread.push({
+          id: nextId++,
+          author: reply.author || 'WriteWMe',
+          date: reply.createdAt,
+          text: reply.note,
+          done: note.status === 'resolved',
+          parentId,
+        });
+      }
+      groups.set(note.id, thread);
+    }
+  }
+
+  return groups;
+}
+
+function resolveDocxCommentMarkers(xml: string, comments: Map<string, DocxComment[]>): string {
+  const firstStart = new Map<string, number>();
+  const lastEnd = new Map<string, number>();
+  let index = 0;
+  for (const match of xml.matchAll(DOCX_COMMENT_MARKER_PATTERN)) {
+    if (match[1] === 'start' && !firstStart.has(match[2])) {
+      firstStart.set(match[2], index);
+    } else if (match[1] === 'end') {
+      lastEnd.set(match[2], index);
+    }
+    index += 1;
+  }
+
+  index = 0;
+  return xml.replace(DOCX_COMMENT_MARKER_PATTERN, (_marker, kind: string, noteId: string) => {
+    const current = index++;
+    const thread = comments.get(noteId);
+    if (!thread) {
+      return '';
+    }
+    if (kind === 'start') {
+      return firstStart.get(noteId) === current
+        ? thread.map((comment) => `<w:commentRangeStart w:id="${comment.id}" />`).join('')
+        : '';
+    }
+    return lastEnd.get(noteId) === current
+      ? thread
+          .map(
+            (comment) =>
+              `<w:commentRangeEnd w:id="${comment.id}" /><w:r><w:commentReference w:id="${comment.id}" /></w:r>`,
+          )
+          .join('')
+      : '';
+  });
+}
+
+function formatDocxParaId(commentId: number): string {
+  return (commentId + 1).toString(16).toUpperCase().padStart(8, '0');
+}
+
+export function buildDocxCommentsXml(orderedChapters: ChapterDocument[]): { comments: string; extended: string } | null {
+  const threads = Array.from(buildDocxComments(orderedChapters).values());
+  if (threads.length === 0) {
+    return null;
+  }
+
+  const flat = threads.flat();
+  const comments = flat
+    .map(
+      (comment) =>
+        `<w:comment w:id="${comment.id}" w:author="${escapeXml(comment.author)}" w:date="${escapeXml(formatDocxDate(comment.date))}" w:initials="${escapeXml(comment.author.slice(0, 2).toUpperCase())}">` +
+        `<w:p w14:paraId="${formatDocxParaId(comment.id)}" w14:textId="77777777"><w:r><w:t xml:space="preserve">${escapeXml(comment.text)}</w:t></w:r></w:p>` +
+        '</w:comment>',
+    )
+    .join('\n  ');
+  const extended = flat
+    .map(
+      (comment) =>
+        `<w15:commentEx w15:paraId="${formatDocxParaId(comment.id)}"` +
+        (comment.parentId === null ? '' : ` w15:paraIdParent="${formatDocxParaId(comment.parentId)}"`) +
+        ` w15:done="${comment.done ? 1 : 0}" />`,
+    )
+    .join('\n  ');
+
+  return {
+    comments: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml" xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" mc:Ignorable="w14">
+  ${comments}
+</w:comments>`,
+    extended: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w15:commentsEx xmlns:w15="http://schemas.microsoft.com/office/word/2012/wordml" xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" mc:Ignorable="w15">
+  ${extended}
+</w15:commentsEx>`,
+  };
+}
+
+export function buildDocxDocumentXml(metadata: BookMetadata, orderedChapters: ChapterDocument[]): string {
   const trim = resolveTrimSize(metadata);
   const pageWidth = inchesToTwips(trim.width);
   const pageHeight = inchesToTwips(trim.height);
@@ -1013,8 +1218,11 @@ function buildDocxDocumentXml(metadata: BookMetadata, orderedChapters: ChapterDo
   );
 
   orderedChapters.forEach((chapter, index) => {
+    // Notas sin ancla en el texto (fragmento reescrito o nota general) se cuelgan del titulo del capitulo.
+    const anchoredIds = listCommentAnchorIds(chapter.content);
+    const unanchoredIds = (chapter.manuscriptNotes ?? []).map((note) => note.id).filter((id) => !anchoredIds.has(id));
     bodyParts.push(
-      buildDocxParagraph(`${index + 1}. ${chapter.title}`, {
+      buildDocxParagraphFromRuns([{ text: `${index + 1}. ${chapter.title}`, commentIds: unanchoredIds }], {
         bold: true,
         fontHalfPoints: 30,
         spacingBefore: 260,
@@ -1075,10 +1283,18 @@ function buildDocxDocumentXml(metadata: BookMetadata, orderedChapters: ChapterDo
     <w:pgMar w:top="${marginTop}" w:right="${marginOutside}" w:bottom="${marginBottom}" w:left="${marginInside}" w:header="708" w:footer="708" w:gutter="0" />
   </w:sectPr>`;
 
+  // Comentarios y revisiones comparten el espacio de w:id, asi que las revisiones siguen a los comentarios.
+  const comments = buildDocxComments(orderedChapters);
+  let revisionId = Array.from(comments.values()).reduce((total, thread) => total + thread.length, 0);
+  const bodyXml = resolveDocxCommentMarkers(bodyParts.join('\n'), comments).replace(
+    new RegExp(DOCX_REVISION_ID_PLACEHOLDER, 'g'),
+    () => String((revisionId += 1)),
+  );
+
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <w:document xmlns:wpc="http://schemas.microsoft.com/office/word/2010/wordprocessingCanvas" xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:wp14="http://schemas.microsoft.com/office/word/2010/wordprocessingDrawing" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:w10="urn:schemas-microsoft-com:office:word" xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml" xmlns:wpg="http://schemas.microsoft.com/office/word/2010/wordprocessingGroup" xmlns:wpi="http://schemas.microsoft.com/office/word/2010/wordprocessingInk" xmlns:wne="http://schemas.microsoft.com/office/word/2006/wordml" xmlns:wps="http://schemas.microsoft.com/office/word/2010/wordprocessingShape" mc:Ignorable="w14 wp14">
   <w:body>
-    ${bodyParts.join('\n')}
+    ${bodyXml}
     ${section}
   </w:body>
 </w:document>`;
@@ -1087,6 +1303,7 @@ function buildDocxDocumentXml(metadata: BookMetadata, orderedChapters: ChapterDo
 function buildDocxArchive(metadata: BookMetadata, orderedChapters: ChapterDocument[]): Uint8Array {
   const nowIso = new Date().toISOString();
   const documentXml = buildDocxDocumentXml(metadata, orderedChapters);
+  const commentParts = buildDocxCommentsXml(orderedChapters);
   const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
   <dc:title>${escapeXml(metadata.title)}</dc:title>
@@ -1112,7 +1329,13 @@ function buildDocxArchive(metadata: BookMetadata, orderedChapters: ChapterDocume
   <Default Extension="xml" ContentType="application/xml" />
   <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml" />
   <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml" />
-  <Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml" />
+  <Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml" />${
+    commentParts
+      ? `
+  <Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml" />
+  <Override PartName="/word/commentsExtended.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.commentsExtended+xml" />`
+      : ''
+  }
 </Types>`;
   const rootRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
@@ -1121,7 +1344,14 @@ function buildDocxArchive(metadata: BookMetadata, orderedChapters: ChapterDocume
   <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml" />
 </Relationships>`;
   const documentRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    commentParts
+      ? `
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="comments.xml" />
+  <Relationship Id="rId2" Type="http://schemas.microsoft.com/office/2011/relationships/commentsExtended" Target="commentsExtended.xml" />
+`
+      : ''
+  }</Relationships>`;
 
   return createZipArchive([
     { name: '[Content_Types].xml', data: contentTypesXml },
@@ -1130,6 +1360,12 @@ function buildDocxArchive(metadata: BookMetadata, orderedChapters: ChapterDocume
     { name: 'docProps/app.xml', data: appXml },
     { name: 'word/document.xml', data: documentXml },
     { name: 'word/_rels/document.xml.rels', data: documentRelsXml },
+    ...(commentParts
+      ? [
+          { name: 'word/comments.xml', data: commentParts.comments },
+          { name: 'word/commentsExtended.xml', data: commentParts.extended },
+        ]
+      : []),
   ]);
 }
 
@@ -1158,7 +1394,7 @@ function buildEpubChapterXhtml(
 </html>`;
 }
 
-function buildEpubArchive(metadata: BookMetadata, orderedChapters: ChapterDocument[]): Uint8Array {
+export function buildEpubArchive(metadata: BookMetadata, orderedChapters: ChapterDocument[]): Uint8Array {
   const language = normalizeBookLanguage(metadata);
   const nowIso = new Date().toISOString();
   const bookId = `urn:uuid:${randomId('writewme')}-${Date.now()}`;
@@ -1378,7 +1614,7 @@ ${openingSelector}
 }
 
 export function sanitizeChapterHtmlForExport(html: string): string {
-  const sanitized = sanitizeHtmlForPreview(html);
+  const sanitized = sanitizeHtmlForPreview(removeAiOriginMarks(removeCommentAnchors(acceptAllTrackedChanges(html))));
   if (!sanitized.trim()) {
     return '<p></p>';
   }
@@ -1415,198 +1651,50 @@ function buildBookInteriorHtml(metadata: BookMetadata, orderedChapters: ChapterD
 </html>`;
 }
 
-function mmToPoints(value: number): number {
-  return (value / 25.4) * 72;
-}
-
-function formatPdfNumber(value: number): string {
-  return Number.isFinite(value) ? value.toFixed(2) : '0';
-}
-
-function toPdfTextSafe(value: string): string {
-  const withoutControlChars = value
-    .split('')
-    .map((char) => {
-      const code = char.charCodeAt(0);
-      return code < 32 || code === 127 ? ' ' : char;
-    })
-    .join('');
-
-  return withoutControlChars
-    .normalize('NFD')
-    .replace(/\p{Diacritic}/gu, '')
-    .replace(/[^\x20-\x7E]/g, '?')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function escapePdfLiteral(value: string): string {
-  return value.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
-}
-
-function wrapPdfLine(line: string, maxChars: number): string[] {
-  const normalized = toPdfTextSafe(line);
-  if (!normalized) {
-    return [''];
-  }
-
-  if (normalized.length <= maxChars) {
-    return [normalized];
-  }
-
-  const words = normalized.split(/\s+/);
-  const wrapped: string[] = [];
-  let buffer = '';
-
-  for (const word of words) {
-    const candidate = buffer ? `${buffer} ${word}` : word;
-    if (candidate.length <= maxChars) {
-      buffer = candidate;
-      continue;
-    }
-
-    if (buffer) {
-      wrapped.push(buffer);
-      buffer = '';
-    }
-
-    if (word.length <= maxChars) {
-      buffer = word;
-      continue;
-    }
-
-    let offset = 0;
-    while (offset < word.length) {
-      wrapped.push(word.slice(offset, offset + maxChars));
-      offset += maxChars;
-    }
-  }
-
-  if (buffer) {
-    wrapped.push(buffer);
-  }
-
-  return wrapped.length > 0 ? wrapped : [''];
-}
-
-function buildPdfLineBuffer(metadata: BookMetadata, orderedChapters: ChapterDocument[], maxChars: number): string[] {
-  const lines: string[] = [];
-  lines.push(toPdfTextSafe(metadata.title));
-  lines.push(`Autor: ${toPdfTextSafe(metadata.author)}`);
-  lines.push('');
+const SCENE_BREAK_TEXT_PATTERN = /^(\* \* \*|\*\*\*|~\s*~\s*~|—\s*—\s*—)$/;
 
-  for (const [index, chapter] of orderedChapters.entries()) {
-    lines.push(`CAPITULO ${index + 1}: ${toPdfTextSafe(chapter.title)}`);
-    lines.push('');
-    const paragraphs = extractChapterParagraphs(chapter);
-    if (paragraphs.length === 0) {
-      lines.push('');
-      continue;
-    }
-    for (const paragraph of paragraphs) {
-      const wrapped = wrapPdfLine(paragraph, maxChars);
-      lines.push(...wrapped);
-      lines.push('');
-    }
-    lines.push('');
-  }
+function buildPdfChapterInputs(metadata: BookMetadata, orderedChapters: ChapterDocument[]): PdfChapterInput[] {
+  const chapterLabel = normalizeBookLanguage(metadata).startsWith('en') ? 'Chapter' : 'Capítulo';
 
-  return lines;
+  return orderedChapters.map((chapter, index) => ({
+    label: `${chapterLabel} ${index + 1}`,
+    title: chapter.title,
+    blocks: extractDocxBlocksFromChapter(chapter).flatMap((block): PdfBlock[] => {
+      // El PDF muestra el texto propuesto: los borrados pendientes no se imprimen.
+      const runs = block.runs.filter((run) => run.revision?.kind !== 'delete');
+      if (runs.length === 0) {
+        return [];
+      }
+      const plain = runs
+        .map((run) => run.text)
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (block.kind === 'paragraph' && SCENE_BREAK_TEXT_PATTERN.test(plain)) {
+        return [{ kind: 'scene-break', runs: [] }];
+      }
+      return [{ ...block, runs }];
+    }),
+  }));
 }
 
-function buildPdfDocument(metadata: BookMetadata, orderedChapters: ChapterDocument[]): Uint8Array {
+export function buildBookPdfBinary(
+  metadata: BookMetadata,
+  orderedChapters: ChapterDocument[],
+  fonts?: PdfFontFaces | null,
+): Uint8Array {
   const trim = resolveTrimSize(metadata);
-  const pageWidth = trim.width * 72;
-  const pageHeight = trim.height * 72;
-  const marginTop = mmToPoints(metadata.interiorFormat.marginTopMm);
-  const marginBottom = mmToPoints(metadata.interiorFormat.marginBottomMm);
-  const marginInside = mmToPoints(metadata.interiorFormat.marginInsideMm);
-  const marginOutside = mmToPoints(metadata.interiorFormat.marginOutsideMm);
-  const usableWidth = Math.max(120, pageWidth - marginInside - marginOutside);
-  const usableHeight = Math.max(180, pageHeight - marginTop - marginBottom);
-  const fontSize = 11.5;
-  const lineHeight = Math.max(12.5, fontSize * metadata.interiorFormat.lineHeight);
-  const maxCharsPerLine = Math.max(28, Math.floor(usableWidth / (fontSize * 0.53)));
-  const lines = buildPdfLineBuffer(metadata, orderedChapters, maxCharsPerLine);
-  const linesPerPage = Math.max(24, Math.floor(usableHeight / lineHeight));
-
-  const pageChunks: string[][] = [];
-  for (let index = 0; index < lines.length; index += linesPerPage) {
-    pageChunks.push(lines.slice(index, index + linesPerPage));
-  }
-  if (pageChunks.length === 0) {
-    pageChunks.push(['']);
-  }
-
-  const objects: Array<{ id: number; body: string }> = [];
-  const pageObjectIds: number[] = [];
-  const contentObjectIds: number[] = [];
-  const firstTextY = pageHeight - marginTop - fontSize;
-
-  objects.push({ id: 1, body: '<< /Type /Catalog /Pages 2 0 R >>' });
-  objects.push({ id: 3, body: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>' });
-
-  pageChunks.forEach((chunk, index) => {
-    const pageObjectId = 4 + index * 2;
-    const contentObjectId = pageObjectId + 1;
-    pageObjectIds.push(pageObjectId);
-    contentObjectIds.push(contentObjectId);
-
-    const commands: string[] = [
-      'BT',
-      `/F1 ${formatPdfNumber(fontSize)} Tf`,
-      `1 0 0 1 ${formatPdfNumber(marginInside)} ${formatPdfNumber(firstTextY)} Tm`,
-    ];
-    chunk.forEach((line, lineIndex) => {
-      if (lineIndex > 0) {
-        commands.push(`0 -${formatPdfNumber(lineHeight)} Td`);
-      }
-      commands.push(`(${escapePdfLiteral(toPdfTextSafe(line))}) Tj`);
-    });
-    commands.push('ET');
-
-    const stream = `${commands.join('\n')}\n`;
-    objects.push({
-      id: contentObjectId,
-      body: `<< /Length ${stream.length} >>\nstream\n${stream}endstream`,
-    });
-    objects.push({
-      id: pageObjectId,
-      body: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatPdfNumber(pageWidth)} ${formatPdfNumber(pageHeight)}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentObjectId} 0 R >>`,
-    });
-  });
-
-  objects.push({
-    id: 2,
-    body: `<< /Type /Pages /Count ${pageObjectIds.length} /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] >>`,
+  return buildTypesetPdf({
+    title: metadata.title,
+    subtitle: metadata.amazon.subtitle,
+    author: metadata.author,
+    language: normalizeBookLanguage(metadata),
+    pageWidthIn: trim.width,
+    pageHeightIn: trim.height,
+    interior: metadata.interiorFormat,
+    chapters: buildPdfChapterInputs(metadata, orderedChapters),
+    fonts,
   });
-
-  const maxObjectId = Math.max(...objects.map((entry) => entry.id));
-  const sortedObjects = objects.slice().sort((left, right) => left.id - right.id);
-  let pdf = '%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n';
-  const offsets = new Array<number>(maxObjectId + 1).fill(0);
-
-  for (const entry of sortedObjects) {
-    offsets[entry.id] = pdf.length;
-    pdf += `${entry.id} 0 obj\n${entry.body}\nendobj\n`;
-  }
-
-  const xrefOffset = pdf.length;
-  pdf += `xref\n0 ${maxObjectId + 1}\n`;
-  pdf += '0000000000 65535 f \n';
-  for (let objectId = 1; objectId <= maxObjectId; objectId += 1) {
-    if (offsets[objectId] > 0) {
-      pdf += `${offsets[objectId].toString().padStart(10, '0')} 00000 n \n`;
-    } else {
-      pdf += '0000000000 65535 f \n';
-    }
-  }
-  pdf += `trailer\n<< /Size ${maxObjectId + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
-  return new TextEncoder().encode(pdf);
-}
-
-export function buildBookPdfBinary(metadata: BookMetadata, orderedChapters: ChapterDocument[]): Uint8Array {
-  return buildPdfDocument(metadata, orderedChapters);
 }
 
 export async function exportChapterMarkdown(
@@ -1736,7 +1824,8 @@ export async function exportBookPdf(
   metadata: BookMetadata,
   orderedChapters: ChapterDocument[],
 ): Promise<string> {
-  const document = buildBookPdfBinary(metadata, orderedChapters);
+  const fonts = await loadPdfInteriorFonts(bookPath);
+  const document = buildBookPdfBinary(metadata, orderedChapters, fonts);
   return writeBinaryExport(
     bookPath,
     `${safeFileName(metadata.title)}-editorial.pdf`,
@@ -1749,8 +1838,16 @@ export async function exportBookStyleReport(
   bookPath: string,
   metadata: BookMetadata,
   orderedChapters: ChapterDocument[],
+  language: ProseLintLanguage = 'es',
 ): Promise<string> {
-  const style = analyzeBookStyleFromChapters(orderedChapters);
+  const style = analyzeBookStyleFromChapters(orderedChapters, language);
+  const formatProseLines = (analysis: StyleAnalysis, indent: string) => [
+    `${indent}Legibilidad: ${analysis.readability.index} (${analysis.readability.label}) | ${getStyleLevelLabel(analysis.readabilityLevel)}`,
+    `${indent}Dialogo: ${Math.round(analysis.dialogueRatio * 100)}% de las palabras`,
+    ...analysis.proseChecks.map(
+      (check) => `${indent}${check.label}: ${check.count} (${check.perThousand}/1000) | ${getStyleLevelLabel(check.level)}`,
+    ),
+  ];
   const now = new Date().toISOString();
   const bookTop = style.book.topRepetitions.slice(0, 10);
   const chapterLines = style.chapters.map((entry) => {
@@ -1763,6 +1860,7 @@ export async function exportBookStyleReport(
       `  Lectura estimada: ${entry.analysis.readingMinutes} min`,
       `  Ritmo: ${getStyleLevelLabel(entry.analysis.sentenceLengthLevel)}`,
       `  Repeticion: ${getStyleLevelLabel(entry.analysis.repetitionLevel)}`,
+      ...formatProseLines(entry.analysis, '  '),
       `  Global: ${getStyleLevelLabel(entry.analysis.overallLevel)}`,
       `  Top repeticion: ${topTerm ? `${topTerm.term} (${topTerm.count} veces)` : '(sin dato relevante)'}`,
     ].join('\n');
@@ -1781,6 +1879,8 @@ export async function exportBookStyleReport(
     `Lectura estimada: ${style.book.readingMinutes} min`,
     `Ritmo: ${getStyleLevelLabel(style.book.sentenceLengthLevel)}`,
     `Repeticion: ${getStyleLevelLabel(style.book.repetitionLevel)}`,
+    `Formula de legibilidad: ${style.book.readability.formula === 'flesch' ? 'Flesch (ingles)' : 'Fernandez-Huerta (espanol)'}`,
+    ...formatProseLines(style.book, ''),
     `Global: ${getStyleLevelLabel(style.book.overallLevel)}`,
     '',
     '[Top repeticiones libro]',
@@ -1800,6 +1900,61 @@ export async function exportBookStyleReport(
   );
 }
 
+export async function exportBookAiProvenanceReport(
+  bookPath: string,
+  metadata: BookMetadata,
+  orderedChapters: ChapterDocument[],
+  records: AiAuditRecord[],
+  verification: AiAuditVerificationReport,
+): Promise<string> {
+  const rows = buildAiProvenanceRows(records, orderedChapters);
+  const totalInserted = rows.reduce((sum, row) => sum + row.aiWordsInserted, 0);
+  const totalRemoved = rows.reduce((sum, row) => sum + row.aiWordsRemoved, 0);
+  const totalWords = rows.reduce((sum, row) => sum + row.currentWords, 0);
+  const appliedSessions = records.filter((record) => record.status === 'applied').length;
+  const formatShare = (inserted: number, current: number) =>
+    current > 0 ? `${Math.min(100, Math.round((inserted / current) * 100))}%` : '-';
+
+  const lines = [
+    'WRITEWME AI PROVENANCE REPORT',
+    `Fecha: ${new Date().toISOString()}`,
+    `Libro: ${metadata.title}`,
+    `Autor: ${metadata.author}`,
+    '',
+    '[Cadena de auditoria]',
+    `Estado: ${verification.isIntact ? 'integra' : `${verification.issues.length} problema/s`}`,
+    `Registros: ${verification.totalRecords} (${verification.chainedRecords} encadenados, ${verification.legacyRecords} previos a la cadena)`,
+    ...verification.issues.map((issue) => `- ${issue.fileName}: ${issue.message}`),
+    '',
+    '[Resumen libro]',
+    `Sesiones IA aplicadas: ${appliedSessions}`,
+    `Palabras agregadas por IA: ${totalInserted}`,
+    `Palabras quitadas por IA: ${totalRemoved}`,
+    `Palabras actuales: ${totalWords}`,
+    `Proporcion maxima tocada por IA: ${formatShare(totalInserted, totalWords)}`,
+    '',
+    '[Detalle por capitulo]',
+    ...rows.map((row) =>
+      [
+        `- ${row.chapterId} | ${row.title}`,
+        `  Sesiones IA: ${row.sessions}`,
+        `  Palabras agregadas: ${row.aiWordsInserted} | quitadas: ${row.aiWordsRemoved}`,
+        `  Palabras actuales: ${row.currentWords} (${formatShare(row.aiWordsInserted, row.currentWords)} tocado por IA)`,
+        `  Operaciones: ${row.operations.length > 0 ? row.operations.join(', ') : '(ninguna)'}`,
+      ].join('\n'),
+    ),
+    '',
+    'Nota: las palabras agregadas son un maximo; ediciones manuales posteriores pueden haber reescrito ese texto.',
+  ];
+
+  return writeTextExport(
+    bookPath,
+    `${safeFileName(metadata.title)}-procedencia-ia.txt`,
+    lines.join('\n'),
+    'txt',
+  );
+}
+
 export async function exportSagaCartographerPack(
   sagaPath: string,
   saga: SagaProject,
@@ -0,0 +1,440 @@
+import type {
+  ChapterDocument,
+  SagaCharacter,
+  SagaProject,
+  SagaTimelineEvent,
+  SagaWorldEntity,
+  StoryBible,
+} from '../types/book';
+import {
+  buildContinuityGuardReport,
+  buildEntityTerms,
+  buildSemanticTokenSet,
+  countTermMatches,
+  findContinuityEvidenceSnippet,
+} from './continuityGuard';
+import { resolveEventOrderRange } from './sagaConsistency';
+import { normalizePath, stripHtml } from './text';
+
+export type ManuscriptAuditSeverity = 'error' | 'warning';
+export type ManuscriptAuditCategory = 'continuity' | 'lifecycle' | 'location' | 'artifact' | 'secret';
+
+export interface ManuscriptAuditFinding {
+  id: string;
+  chapterId: string | null;
+  severity: ManuscriptAuditSeverity;
+  category: ManuscriptAuditCategory;
+  message: string;
+  evidence: string;
+  // Fragmento literal del capitulo para ubicar el hallazgo en el editor.
+  focusText: string;
+}
+
+export interface ManuscriptAuditChapterGroup {
+  chapterId: string | null;
+  chapterNumber: number | null;
+  chapterTitle: string;
+  findings: ManuscriptAuditFinding[];
+}
+
+export interface ManuscriptAuditReport {
+  groups: ManuscriptAuditChapterGroup[];
+  checkedChapters: number;
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface BuildManuscriptAuditInput {
+  // Capitulos en el orden de `chapterOrder`.
+  chapters: ChapterDocument[];
+  storyBible: StoryBible;
+  bookPath?: string | null;
+  saga?: SagaProject | null;
+  language?: string | null;
+}
+
+export const MANUSCRIPT_AUDIT_CATEGORY_LABELS: Record<ManuscriptAuditCategory, string> = {
+  continuity: 'Continuidad',
+  lifecycle: 'Vida del personaje',
+  location: 'Ubicacion',
+  artifact: 'Artefacto',
+  secret: 'Secreto',
+};
+
+const POSSESSION_PATTERN_ES =
+  /\b(tiene|tenia|lleva|llevaba|empuna|empunaba|sostiene|sostenia|guarda|guardaba|porta|portaba|blande|blandia|aferra|aferraba|saca|sacaba)\b/u;
+const POSSESSION_PATTERN_EN =
+  /\b(has|had|holds|held|carries|carried|wields|wielded|keeps|kept|grips|gripped|draws|drew)\b/u;
+const SECRET_LEAK_MIN_TOKENS = 3;
+const SECRET_LEAK_MIN_RATIO = 0.6;
+const MAX_PRIOR_CHAPTERS = 8;
+
+interface AuditEntity {
+  id: string;
+  label: string;
+  terms: string[];
+}
+
+interface ChapterTimelineContext {
+  order: number | null;
+  occursEvents: SagaTimelineEvent[];
+  locationRefs: Array<{ event: SagaTimelineEvent; locationId: string }>;
+}
+
+function normalizeAuditText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…])\s+|\n+/g)
+    .map((entry) => entry.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function toAuditEntity(entity: SagaWorldEntity | SagaCharacter): AuditEntity {
+  const timelineAliases =
+    'aliasTimeline' in entity ? entity.aliasTimeline.map((alias) => alias.value).join(', ') : '';
+  return {
+    id: entity.id,
+    label: entity.name || entity.id,
+    terms: buildEntityTerms(entity.name, [entity.aliases, timelineAliases].filter(Boolean).join(', ')),
+  };
+}
+
+function findMentionTerm(text: string, entity: AuditEntity): string | null {
+  return entity.terms.find((term) => countTermMatches(text, term) > 0) ?? null;
+}
+
+function sentenceMentions(sentence: string, entity: AuditEntity): boolean {
+  return findMentionTerm(sentence, entity) !== null;
+}
+
+export function resolveEvidenceFocusText(evidence: string): string {
+  return evidence
+    .replace(/^Actual:\s*/u, '')
+    .split(' | ')[0]
+    .trim();
+}
+
+function buildChapterTimelineContexts(
+  chapters: ChapterDocument[],
+  saga: SagaProject | null | undefined,
+  bookPath: string | null | undefined,
+): Map<string, ChapterTimelineContext> {
+  const contexts = new Map<string, ChapterTimelineContext>();
+  const normalizedBookPath = bookPath ? normalizePath(bookPath).replace(/\/$/, '') : '';
+  const timeline = saga?.metadata.worldBible.timeline ?? [];
+  let carriedOrder: number | null = null;
+
+  for (const chapter of chapters) {
+    const occursEvents: SagaTimelineEvent[] = [];
+    const locationRefs: ChapterTimelineContext['locationRefs'] = [];
+    for (const event of timeline) {
+      for (const reference of event.bookRefs) {
+        if (reference.chapterId !== chapter.id) {
+          continue;
+        }
+        if (normalizedBookPath && normalizePath(reference.bookPath).replace(/\/$/, '') !== normalizedBookPath) {
+          continue;
+        }
+        if (reference.mode !== 'occurs') {
+          continue;
+        }
+        if (!occursEvents.includes(event)) {
+          occursEvents.push(event);
+        }
+        if (reference.locationId?.trim()) {
+          locationRefs.push({ event, locationId: reference.locationId.trim() });
+        }
+      }
+    }
+
+    // Sin eventos propios el capitulo hereda el ultimo punto conocido del timeline.
+    const ownOrder =
+      occursEvents.length > 0 ? Math.max(...occursEvents.map((event) => resolveEventOrderRange(event).end)) : null;
+    carriedOrder = ownOrder ?? carriedOrder;
+    contexts.set(chapter.id, { order: carriedOrder, occursEvents, locationRefs });
+  }
+
+  return contexts;
+}
+
+function eventInvolvesCharacter(event: SagaTimelineEvent, characterId: string): boolean {
+  return (
+    event.entityIds.includes(characterId) ||
+    event.characterImpacts.some((impact) => impact.characterId === characterId) ||
+    (event.characterLocations ?? []).some((entry) => entry.characterId === characterId)
+  );
+}
+
+function resolveArtifactOwnerAt(timeline: SagaTimelineEvent[], artifactId: string, order: number): string | null {
+  let owner: string | null = null;
+  const sorted = [...timeline].sort((left, right) => left.startOrder - right.startOrder);
+  for (const event of sorted) {
+    if (event.startOrder > order) {
+      break;
+    }
+    for (const transfer of event.artifactTransfers ?? []) {
+      if (transfer.artifactId === artifactId) {
+        owner = transfer.toCharacterId.trim() || null;
+      }
+    }
+  }
+  return owner;
+}
+
+export function buildManuscriptAuditReport(input: BuildManuscriptAuditInput): ManuscriptAuditReport {
+  const chapters = input.chapters;
+  const chapterTexts = chapters.map((chapter) => stripHtml(chapter.content).replace(/\s+/g, ' ').trim());
+  const chapterIndexById = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+  const findingsByChapter = new Map<string | null, ManuscriptAuditFinding[]>();
+  const possessionPattern = normalizeAuditText(input.language ?? '').startsWith('en')
+    ? POSSESSION_PATTERN_EN
+    : POSSESSION_PATTERN_ES;
+
+  const addFinding = (finding: Omit<ManuscriptAuditFinding, 'id' | 'focusText'> & { focusText?: string }) => {
+    const bucket = findingsByChapter.get(finding.chapterId) ?? [];
+    bucket.push({
+      ...finding,
+      id: `${finding.chapterId ?? 'book'}:${finding.category}:${bucket.length + 1}`,
+      focusText: finding.focusText ?? resolveEvidenceFocusText(finding.evidence),
+    });
+    findingsByChapter.set(finding.chapterId, bucket);
+  };
+
+  chapters.forEach((chapter, index) => {
+    const report = buildContinuityGuardReport({
+      chapterText: chapterTexts[index],
+      storyBible: input.storyBible,
+      chapterNumber: index + 1,
+      priorChapterTexts: chapterTexts.slice(Math.max(0, index - MAX_PRIOR_CHAPTERS), index),
+      language: input.language,
+    });
+    for (const issue of report.issues) {
+      addFinding({
+        chapterId: chapter.id,
+        severity: 'warning',
+        category: 'continuity',
+        message: issue.message,
+        evidence: issue.evidence,
+      });
+    }
+  });
+
+  for (const secret of input.storyBible.secrets ?? []) {
+    const revealChapterId = secret.revealedInChapterId?.trim();
+    if (!revealChapterId || secret.canonStatus === 'apocryphal') {
+      continue;
+    }
+    const secretLabel = secret.title.trim() || secret.id;
+    const revealIndex = chapterIndexById.get(revealChapterId);
+    if (revealIndex === undefined) {
+      addFinding({
+        chapterId: null,
+        severity: 'error',
+        category: 'secret',
+        message: `El secreto "${secretLabel}" se revela en un capitulo que no esta en el indice del libro.`,
+        evidence: '',
+      });
+      continue;
+    }
+
+    const secretTokens = buildSemanticTokenSet(secret.objectiveTruth);
+    if (secretTokens.length < SECRET_LEAK_MIN_TOKENS) {
+      continue;
+    }
+    const requiredOverlap = Math.max(SECRET_LEAK_MIN_TOKENS, Math.ceil(secretTokens.length * SECRET_LEAK_MIN_RATIO));
+    for (let index = 0; index < revealIndex; index += 1) {
+      const leak = splitSentences(chapterTexts[index]).find((sentence) => {
+        const sentenceTokens = new Set(buildSemanticTokenSet(sentence));
+        return secretTokens.filter((token) => sentenceTokens.has(token)).length >= requiredOverlap;
+      });
+      if (!leak) {
+        continue;
+      }
+      addFinding({
+        chapterId: chapters[index].id,
+        severity: 'warning',
+        category: 'secret',
+        message: `Posible revelacion anticipada de "${secretLabel}": el secreto se revela en el capitulo ${revealIndex + 1}.`,
+        evidence: leak,
+      });
+    }
+  }
+
+  const saga = input.saga ?? null;
+  if (saga) {
+    const world = saga.metadata.worldBible;
+    const timelineById = new Map(world.timeline.map((event) => [event.id, event]));
+    const characters = world.characters.filter((entry) => entry.id.trim()).map((entry) => ({ source: entry, entity: toAuditEntity(entry) }));
+    const characterById = new Map(characters.map((entry) => [entry.source.id, entry]));
+    const locationById = new Map(world.locations.map((entry) => [entry.id, toAuditEntity(entry)]));
+    const artifacts = world.artifacts.filter((entry) => entry.id.trim()).map((entry) => toAuditEntity(entry));
+    const contexts = buildChapterTimelineContexts(chapters, saga, input.bookPath);
+
+    chapters.forEach((chapter, index) => {
+      const text = chapterTexts[index];
+      const context = contexts.get(chapter.id);
+      if (!text || !context) {
+        return;
+      }
+
+      if (context.order !== null) {
+        const order = context.order;
+        for (const { source, entity } of characters) {
+          const term = findMentionTerm(text, entity);
+          const involved = context.occursEvents.some((event) => eventInvolvesCharacter(event, source.id));
+          if (!term && !involved) {
+            continue;
+          }
+          const birthEvent = source.lifecycle.birthEventId ? timelineById.get(source.lifecycle.birthEventId) : undefined;
+          const deathEvent = source.lifecycle.deathEventId ? timelineById.get(source.lifecycle.deathEventId) : undefined;
+          const evidence = term ? findContinuityEvidenceSnippet(text, term) : '';
+          if (birthEvent && order < resolveEventOrderRange(birthEvent).start) {
+            addFinding({
+              chapterId: chapter.id,
+              severity: involved ? 'error' : 'warning',
+              category: 'lifecycle',
+              message: involved
+                ? `${entity.label} participa en un evento del capitulo antes de su nacimiento ("${birthEvent.title}").`
+                : `${entity.label} se menciona antes de su nacimiento ("${birthEvent.title}"); confirma que sea anticipacion.`,
+              evidence,
+              focusText: term ?? '',
+            });
+          }
+          if (deathEvent && order > resolveEventOrderRange(deathEvent).end) {
+            addFinding({
+              chapterId: chapter.id,
+              severity: involved ? 'error' : 'warning',
+              category: 'lifecycle',
+              message: involved
+                ? `${entity.label} participa en un evento del capitulo despues de su muerte ("${deathEvent.title}").`
+                : `${entity.label} se menciona despues de su muerte ("${deathEvent.title}"); confirma que sea recuerdo o flashback.`,
+              evidence,
+              focusText: term ?? '',
+            });
+          }
+        }
+
+        for (const artifact of artifacts) {
+          if (!findMentionTerm(text, artifact)) {
+            continue;
+          }
+          const ownerId = resolveArtifactOwnerAt(world.timeline, artifact.id, order);
+          const owner = ownerId ? characterById.get(ownerId) : undefined;
+          if (!owner) {
+            continue;
+          }
+          const transferParticipants = new Set(
+            context.occursEvents.flatMap((event) =>
+              (event.artifactTransfers ?? [])
+                .filter((transfer) => transfer.artifactId === artifact.id)
+                .flatMap((transfer) => [transfer.fromCharacterId, transfer.toCharacterId]),
+            ),
+          );
+          for (const sentence of splitSentences(text)) {
+            if (!sentenceMentions(sentence, artifact) || sentenceMentions(sentence, owner.entity)) {
+              continue;
+            }
+            if (!possessionPattern.test(normalizeAuditText(sentence))) {
+              continue;
+            }
+            const holder = characters.find(
+              (entry) =>
+                entry.source.id !== owner.source.id &&
+                !transferParticipants.has(entry.source.id) &&
+                sentenceMentions(sentence, entry.entity),
+            );
+            if (!holder) {
+              continue;
+            }
+            addFinding({
+              chapterId: chapter.id,
+              severity: 'warning',
+              category: 'artifact',
+              message: `${holder.entity.label} aparece con "${artifact.label}", pero segun el timeline lo tiene ${owner.entity.label}.`,
+              evidence: sentence,
+            });
+            break;
+          }
+        }
+      }
+
+      for (const { event, locationId } of context.locationRefs) {
+        const location = locationById.get(locationId);
+        if (!location || location.terms.length === 0 || findMentionTerm(text, location)) {
+          continue;
+        }
+        addFinding({
+          chapterId: chapter.id,
+          severity: 'warning',
+          category: 'location',
+          message: `El timeline ubica el capitulo en "${location.label}" (evento "${event.title}"), pero el texto no lo menciona.`,
+          evidence: '',
+        });
+      }
+
+      for (const event of context.occursEvents) {
+        for (const placement of event.characterLocations ?? []) {
+          const character = characterById.get(placement.characterId);
+          const assigned = locationById.get(placement.locationId);
+          if (!character || !assigned || findMentionTerm(text, assigned)) {
+            continue;
+          }
+          const conflicting = splitSentences(text)
+            .filter((sentence) => sentenceMentions(sentence, character.entity))
+            .map((sentence) => ({
+              sentence,
+              location: Array.from(locationById.values()).find(
+                (entry) => entry.id !== assigned.id && sentenceMentions(sentence, entry),
+              ),
+            }))
+            .find((entry) => entry.location);
+          if (!conflicting?.location) {
+            continue;
+          }
+          addFinding({
+            chapterId: chapter.id,
+            severity: 'warning',
+            category: 'location',
+            message: `El timeline ubica a ${character.entity.label} en "${assigned.label}", pero el capitulo lo situa en "${conflicting.location.label}".`,
+            evidence: conflicting.sentence,
+          });
+        }
+      }
+    });
+  }
+
+  const groups: ManuscriptAuditChapterGroup[] = [];
+  const bookLevel = findingsByChapter.get(null);
+  if (bookLevel && bookLevel.length > 0) {
+    groups.push({ chapterId: null, chapterNumber: null, chapterTitle: 'Libro completo', findings: bookLevel });
+  }
+  chapters.forEach((chapter, index) => {
+    const findings = findingsByChapter.get(chapter.id);
+    if (!findings || findings.length === 0) {
+      return;
+    }
+    findings.sort((left, right) => {
+      if (left.severity !== right.severity) {
+        return left.severity === 'error' ? -1 : 1;
+      }
+      return left.category.localeCompare(right.category);
+    });
+    groups.push({ chapterId: chapter.id, chapterNumber: index + 1, chapterTitle: chapter.title, findings });
+  });
+
+  const allFindings = groups.flatMap((group) => group.findings);
+  return {
+    groups,
+    checkedChapters: chapters.length,
+    errorCount: allFindings.filter((finding) => finding.severity === 'error').length,
+    warningCount: allFindings.filter((finding) => finding.severity === 'warning').length,
+  };
+}
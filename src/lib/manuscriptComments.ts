@@ -0,0 +1,174 @@
+import type { ChapterManuscriptNote } from '../types/book';
+
+// Las notas al margen se anclan al texto con <span data-comment-id>: el editor las mantiene como marca,
+// asi que siguen al fragmento aunque se escriba alrededor.
+
+export const COMMENT_ANCHOR_ATTRIBUTE = 'data-comment-id';
+
+const MIN_REANCHOR_EXCERPT_LENGTH = 3;
+
+interface CommentSpanRange {
+  id: string;
+  start: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function decodeBasicEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Los spans pueden anidarse (referencias semanticas dentro de un comentario), por eso se recorren con pila.
+function findCommentSpans(html: string): CommentSpanRange[] {
+  const ranges: CommentSpanRange[] = [];
+  const stack: Array<{ id: string | null; start: number; contentStart: number }> = [];
+  const pattern = /<(\/?)span\b[^>]*>/gi;
+
+  for (const match of html.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (match[1]) {
+      const open = stack.pop();
+      if (open?.id) {
+        ranges.push({
+          id: open.id,
+          start: open.start,
+          contentStart: open.contentStart,
+          contentEnd: index,
+          end: index + match[0].length,
+        });
+      }
+      continue;
+    }
+
+    const idMatch = match[0].match(/\bdata-comment-id=["']([^"']+)["']/i);
+    stack.push({ id: idMatch ? idMatch[1] : null, start: index, contentStart: index + match[0].length });
+  }
+
+  return ranges;
+}
+
+export function buildCommentAnchorOpenTag(commentId: string): string {
+  return `<span class="manuscript-comment" ${COMMENT_ANCHOR_ATTRIBUTE}="${escapeHtmlText(commentId).replace(/"/g, '&quot;')}">`;
+}
+
+export function listCommentAnchorIds(html: string): Set<string> {
+  if (!html.includes(COMMENT_ANCHOR_ATTRIBUTE)) {
+    return new Set();
+  }
+
+  return new Set(findCommentSpans(html).map((range) => range.id));
+}
+
+// Texto anclado por comentario; si el ancla quedo partida en varios spans se unen en orden.
+export function extractCommentAnchorTexts(html: string): Map<string, string> {
+  const texts = new Map<string, string>();
+  if (!html.includes(COMMENT_ANCHOR_ATTRIBUTE)) {
+    return texts;
+  }
+
+  const ranges = findCommentSpans(html).sort((left, right) => left.start - right.start);
+  for (const range of ranges) {
+    const text = decodeBasicEntities(html.slice(range.contentStart, range.contentEnd).replace(/<[^>]+>/g, ''));
+    const previous = texts.get(range.id);
+    texts.set(range.id, previous ? `${previous} ${text}` : text);
+  }
+
+  for (const [id, text] of texts) {
+    texts.set(id, text.replace(/\s+/g, ' ').trim());
+  }
+  return texts;
+}
+
+// Quita el ancla (o todas) dejando el texto intacto.
+export function removeCommentAnchors(html: string, commentId: string | 'all' = 'all'): string {
+  if (!html.includes(COMMENT_ANCHOR_ATTRIBUTE)) {
+    return html;
+  }
+
+  const cuts = findCommentSpans(html)
+    .filter((range) => commentId === 'all' || range.id === commentId)
+    .flatMap((range): Array<[number, number]> => [
+      [range.start, range.contentStart],
+      [range.contentEnd, range.end],
+    ])
+    .sort((left, right) => right[0] - left[0]);
+
+  let result = html;
+  for (const [start, end] of cuts) {
+    result = result.slice(0, start) + result.slice(end);
+  }
+  return result;
+}
+
+function wrapExcerptInHtml(html: string, commentId: string, excerpt: string): string | null {
+  const words = escapeHtmlText(excerpt.replace(/\s+/g, ' ').trim()).split(' ').map(escapeRegExp);
+  const needle = new RegExp(words.join('(?:\\s|&nbsp;)+'));
+  const textPattern = />([^<]+)</g;
+
+  for (const match of html.matchAll(textPattern)) {
+    const found = match[1].match(needle);
+    if (!found || found.index === undefined) {
+      continue;
+    }
+
+    const start = (match.index ?? 0) + 1 + found.index;
+    const end = start + found[0].length;
+    return `${html.slice(0, start)}${buildCommentAnchorOpenTag(commentId)}${html.slice(start, end)}</span>${html.slice(end)}`;
+  }
+
+  return null;
+}
+
+// Actualiza el fragmento de las notas ancladas para que refleje el texto actual; no toca el HTML.
+export function refreshManuscriptNoteExcerpts(html: string, notes: ChapterManuscriptNote[]): ChapterManuscriptNote[] {
+  if (notes.length === 0) {
+    return notes;
+  }
+
+  const texts = extractCommentAnchorTexts(html);
+  return notes.map((note) => {
+    const anchoredText = texts.get(note.id);
+    return anchoredText && anchoredText !== note.excerpt ? { ...note, excerpt: anchoredText } : note;
+  });
+}
+
+// Reancla notas cuyo span desaparecio (reescrituras de IA, pegado de texto plano) buscando su fragmento,
+// y actualiza el fragmento de las que siguen ancladas. Se usa al crear o reanclar una nota, nunca al guardar.
+export function anchorManuscriptNotes(
+  html: string,
+  notes: ChapterManuscriptNote[],
+): { content: string; notes: ChapterManuscriptNote[] } {
+  if (notes.length === 0) {
+    return { content: html, notes };
+  }
+
+  let content = html;
+  const anchoredIds = listCommentAnchorIds(content);
+  for (const note of notes) {
+    if (anchoredIds.has(note.id) || note.excerpt.trim().length < MIN_REANCHOR_EXCERPT_LENGTH) {
+      continue;
+    }
+
+    const wrapped = wrapExcerptInHtml(content, note.id, note.excerpt);
+    if (wrapped) {
+      content = wrapped;
+    }
+  }
+
+  return { content, notes: refreshManuscriptNoteExcerpts(content, notes) };
+}
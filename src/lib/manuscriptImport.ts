@@ -0,0 +1,750 @@
+import { readEpubPackage, type EpubCoverImage } from './epubImport';
+import { countWordsFromPlainText } from './metrics';
+import { stripUtf8Bom } from './text';
+import { readZipEntries } from './zipInspect';
+
+export type ManuscriptImportFormat = 'docx' | 'markdown' | 'text' | 'epub';
+export type ManuscriptSplitMode = 'headings' | 'separator';
+
+export interface ManuscriptImportBlock {
+  kind: 'heading' | 'paragraph' | 'blockquote';
+  // 1..6 para encabezados, 0 para el resto.
+  level: number;
+  // HTML inline ya escapado (strong/em/br).
+  html: string;
+  text: string;
+}
+
+export interface ManuscriptImportSource {
+  fileName: string;
+  format: ManuscriptImportFormat;
+  suggestedTitle: string;
+  blocks: ManuscriptImportBlock[];
+  author?: string;
+  language?: string;
+  isbn?: string;
+  cover?: EpubCoverImage | null;
+  // EPUB: cada documento del spine ya es un capitulo; no se vuelve a dividir.
+  spineChapters?: ManuscriptImportChapter[];
+}
+
+export interface ManuscriptImportOptions {
+  splitMode: ManuscriptSplitMode;
+  // null = deteccion automatica del nivel de capitulo.
+  headingLevel: number | null;
+  separator: string;
+}
+
+export interface ManuscriptImportChapter {
+  title: string;
+  content: string;
+  wordCount: number;
+  excerpt: string;
+}
+
+export interface ManuscriptImportPreview {
+  suggestedTitle: string;
+  headingLevels: number[];
+  resolvedHeadingLevel: number | null;
+  chapters: ManuscriptImportChapter[];
+  totalWords: number;
+  warnings: string[];
+}
+
+export const DEFAULT_MANUSCRIPT_IMPORT_OPTIONS: ManuscriptImportOptions = {
+  splitMode: 'headings',
+  headingLevel: null,
+  separator: '* * *',
+};
+
+export const MANUSCRIPT_IMPORT_EXTENSIONS = ['docx', 'epub', 'md', 'markdown', 'txt'];
+
+const PLAIN_TEXT_HEADING_PATTERN =
+  /^(cap[ií]tulo|chapter|pr[oó]logo|prologue|ep[ií]logo|epilogue|interludio|interlude|parte|part)\b[^\n]{0,80}$/iu;
+const MARKDOWN_THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const SCENE_BREAK_HTML = '* * *';
+const SCENE_BREAK_TEXT_PATTERN = /^(\* \* \*|\*\*\*|~\s*~\s*~|—\s*—\s*—)$/;
+const EXCERPT_LENGTH = 160;
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'main', 'nav', 'figure', 'figcaption',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'td', 'th', 'pre',
+]);
+const HTML_INLINE_TAGS: Record<string, 'strong' | 'em'> = { b: 'strong', strong: 'strong', i: 'em', em: 'em', cite: 'em' };
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+  nbsp: '\u00a0',
+  shy: '',
+  mdash: '\u2014',
+  ndash: '\u2013',
+  hellip: '\u2026',
+  laquo: '\u00ab',
+  raquo: '\u00bb',
+  lsquo: '\u2018',
+  rsquo: '\u2019',
+  ldquo: '\u201c',
+  rdquo: '\u201d',
+  iexcl: '\u00a1',
+  iquest: '\u00bf',
+  aacute: '\u00e1',
+  eacute: '\u00e9',
+  iacute: '\u00ed',
+  oacute: '\u00f3',
+  uacute: '\u00fa',
+  ntilde: '\u00f1',
+  uuml: '\u00fc',
+  Aacute: '\u00c1',
+  Eacute: '\u00c9',
+  Iacute: '\u00cd',
+  Oacute: '\u00d3',
+  Uacute: '\u00da',
+  Ntilde: '\u00d1',
+  Uuml: '\u00dc',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default: {
+        const codePoint = entity.startsWith('#x')
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+        return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : match;
+      }
+    }
+  });
+}
+
+function normalizeInlineText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function htmlToPlain(html: string): string {
+  return normalizeInlineText(
+    html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&'),
+  );
+}
+
+function buildBlock(kind: ManuscriptImportBlock['kind'], html: string, level = 0): ManuscriptImportBlock {
+  const trimmedHtml = html.replace(/^(\s|<br>)+|(\s|<br>)+$/g, '');
+  return { kind, level, html: trimmedHtml, text: htmlToPlain(trimmedHtml) };
+}
+
+function fileBaseName(fileName: string): string {
+  const base = fileName.replace(/\\/g, '/').split('/').pop() ?? fileName;
+  return base.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+}
+
+export function detectManuscriptImportFormat(fileName: string): ManuscriptImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'docx') {
+    return 'docx';
+  }
+  if (extension === 'md' || extension === 'markdown') {
+    return 'markdown';
+  }
+  if (extension === 'txt') {
+    return 'text';
+  }
+  if (extension === 'epub') {
+    return 'epub';
+  }
+  return null;
+}
+
+interface DocxParagraphStyle {
+  headingLevel: number;
+  isTitle: boolean;
+  isQuote: boolean;
+}
+
+function readXmlAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+function resolveDocxStyleByName(styleId: string, name: string, outlineLevel: number | null): DocxParagraphStyle {
+  const normalized = name.toLowerCase();
+  const headingMatch = normalized.match(/^heading\s*(\d)$/) ?? styleId.match(/^(?:heading|t[ií]?tulo|berschrift)(\d)$/i);
+  const headingLevel = headingMatch
+    ? Number.parseInt(headingMatch[1], 10)
+    : outlineLevel !== null && outlineLevel < 9
+      ? outlineLevel + 1
+      : 0;
+  return {
+    headingLevel,
+    isTitle: normalized === 'title' || /^(title|titulo|ttulo)$/i.test(styleId),
+    isQuote: /quote|cita/.test(normalized) || /quote|cita/i.test(styleId),
+  };
+}
+
+export function parseDocxStyles(stylesXml: string): Map<string, DocxParagraphStyle> {
+  const styles = new Map<string, DocxParagraphStyle>();
+  for (const match of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = readXmlAttribute(match[1], 'w:styleId');
+    if (!styleId) {
+      continue;
+    }
+    const nameTag = match[2].match(/<w:name\b[^>]*\/>/)?.[0] ?? '';
+    const outlineTag = match[2].match(/<w:outlineLvl\b[^>]*\/>/)?.[0] ?? '';
+    const outlineValue = outlineTag ? Number.parseInt(readXmlAttribute(outlineTag, 'w:val') ?? '', 10) : Number.NaN;
+    styles.set(
+      styleId,
+      resolveDocxStyleByName(styleId, readXmlAttribute(nameTag, 'w:val') ?? '', Number.isFinite(outlineValue) ? outlineValue : null),
+    );
+  }
+  return styles;
+}
+
+function isDocxToggleOn(runProperties: string, tagName: string): boolean {
+  const tag = runProperties.match(new RegExp(`<${tagName}\\b[^>]*\\/>`))?.[0];
+  if (!tag) {
+    return false;
+  }
+  const value = readXmlAttribute(tag, 'w:val');
+  return value === null || !/^(0|false|off)$/i.test(value);
+}
+
+function wrapInline(text: string, bold: boolean, italic: boolean): string {
+  let html = text;
+  if (italic) {
+    html = `<em>${html}</em>`;
+  }
+  if (bold) {
+    html = `<strong>${html}</strong>`;
+  }
+  return html;
+}
+
+function parseDocxParagraphRuns(paragraphXml: string): string {
+  const segments: Array<{ text: string; bold: boolean; italic: boolean }> = [];
+  for (const runMatch of paragraphXml.matchAll(/<w:r(?:\s[^>]*)?(?<!\/)>([\s\S]*?)<\/w:r>/g)) {
+    const runXml = runMatch[1];
+    const runProperties = runXml.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? '';
+    const bold = isDocxToggleOn(runProperties, 'w:b');
+    const italic = isDocxToggleOn(runProperties, 'w:i');
+    let text = '';
+    for (const piece of runXml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:noBreakHyphen\/>/g)) {
+      if (piece[1] !== undefined) {
+        text += escapeHtml(decodeXmlEntities(piece[1]));
+      } else if (piece[0].startsWith('<w:tab')) {
+        text += ' ';
+      } else if (piece[0].startsWith('<w:noBreakHyphen')) {
+        text += '-';
+      } else if (!/w:type="(page|column)"/.test(piece[2] ?? '')) {
+        text += '<br>';
+      }
+    }
+    if (!text) {
+      continue;
+    }
+    const previous = segments[segments.length - 1];
+    if (previous && previous.bold === bold && previous.italic === italic) {
+      previous.text += text;
+    } else {
+      segments.push({ text, bold, italic });
+    }
+  }
+
+  return segments.map((segment) => wrapInline(segment.text, segment.bold, segment.italic)).join('');
+}
+
+export function parseDocxDocumentBlocks(
+  documentXml: string,
+  stylesXml = '',
+): { blocks: ManuscriptImportBlock[]; title: string } {
+  const styles = parseDocxStyles(stylesXml);
+  const blocks: ManuscriptImportBlock[] = [];
+  let title = '';
+
+  for (const match of documentXml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+    const paragraphXml = match[1] ?? '';
+    const paragraphProperties = paragraphXml.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? '';
+    const styleTag = paragraphProperties.match(/<w:pStyle\b[^>]*\/>/)?.[0] ?? '';
+    const styleId = styleTag ? readXmlAttribute(styleTag, 'w:val') ?? '' : '';
+    const outlineTag = paragraphProperties.match(/<w:outlineLvl\b[^>]*\/>/)?.[0] ?? '';
+    const outlineValue = outlineTag ? Number.parseInt(readXmlAttribute(outlineTag, 'w:val') ?? '', 10) : Number.NaN;
+    const style =
+      styles.get(styleId) ??
+      resolveDocxStyleByName(styleId, '', Number.isFinite(outlineValue) ? outlineValue : null);
+    const html = parseDocxParagraphRuns(paragraphXml.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/, ''));
+    const block = buildBlock('paragraph', html);
+    if (!block.text) {
+      continue;
+    }
+
+    if (style.isTitle) {
+      title ||= block.text;
+      continue;
+    }
+    if (style.headingLevel > 0) {
+      blocks.push(buildBlock('heading', escapeHtml(block.text), Math.min(6, style.headingLevel)));
+    } else if (style.isQuote) {
+      blocks.push({ ...block, kind: 'blockquote' });
+    } else {
+      blocks.push(block);
+    }
+  }
+
+  return { blocks, title };
+}
+
+function renderMarkdownInline(value: string): string {
+  const escapes: string[] = [];
+  let html = value.replace(/\\([\\`*_{}[\]()#+\-.!>])/g, (_match, character: string) => {
+    escapes.push(character);
+    return `\uE000${escapes.length - 1}\uE001`;
+  });
+  html = escapeHtml(html)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, (_match, starred?: string, underscored?: string) =>
+      `<strong>${starred ?? underscored ?? ''}</strong>`,
+    )
+    .replace(/\*(?=\S)([^*]*?\S)\*|(?<![\p{L}\p{N}])_(?=\S)([^_]*?\S)_(?![\p{L}\p{N}])/gu, (_match, starred?: string, underscored?: string) =>
+      `<em>${starred ?? underscored ?? ''}</em>`,
+    )
+    .replace(/ {2,}\n/g, '<br>')
+    .replace(/\n/g, ' ');
+  return html.replace(/\uE000(\d+)\uE001/g, (_match, index: string) => escapeHtml(escapes[Number(index)] ?? ''));
+}
+
+export function parseMarkdownBlocks(markdown: string): { blocks: ManuscriptImportBlock[]; title: string } {
+  let source = stripUtf8Bom(markdown).replace(/\r\n?/g, '\n');
+  let title = '';
+  const frontMatter = source.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1] ?? '';
+    source = source.slice(frontMatter[0].length);
+  }
+
+  const blocks: ManuscriptImportBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const block = buildBlock('paragraph', renderMarkdownInline(paragraph.join('\n')));
+      if (block.text) {
+        blocks.push(block);
+      }
+      paragraph = [];
+    }
+  };
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      const block = buildBlock('blockquote', renderMarkdownInline(quote.join('\n')));
+      if (block.text) {
+        blocks.push(block);
+      }
+      quote = [];
+    }
+  };
+
+  for (const line of source.split('\n')) {
+    const heading = line.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    const quoteLine = line.match(/^ {0,3}>\s?(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushQuote();
+      blocks.push(buildBlock('heading', renderMarkdownInline(heading[2]), heading[1].length));
+    } else if (quoteLine) {
+      flushParagraph();
+      if (quoteLine[1].trim()) {
+        quote.push(quoteLine[1]);
+      } else {
+        flushQuote();
+      }
+    } else if (/^ {0,3}(=+|-+)\s*$/.test(line) && paragraph.length > 0) {
+      const text = paragraph.join(' ');
+      paragraph = [];
+      blocks.push(buildBlock('heading', renderMarkdownInline(text), line.trim().startsWith('=') ? 1 : 2));
+    } else if (MARKDOWN_THEMATIC_BREAK_PATTERN.test(line)) {
+      flushParagraph();
+      flushQuote();
+      blocks.push(buildBlock('paragraph', SCENE_BREAK_HTML));
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushQuote();
+    } else {
+      flushQuote();
+      paragraph.push(line.replace(/^\s+/, ''));
+    }
+  }
+  flushParagraph();
+  flushQuote();
+
+  return { blocks, title };
+}
+
+export function parsePlainTextBlocks(text: string): ManuscriptImportBlock[] {
+  const source = stripUtf8Bom(text).replace(/\r\n?/g, '\n').trim();
+  if (!source) {
+    return [];
+  }
+
+  // Sin lineas en blanco se asume un parrafo por linea (exportaciones de procesadores de texto).
+  const chunks = /\n\s*\n/.test(source) ? source.split(/\n\s*\n/) : source.split('\n');
+  return chunks
+    .map((chunk) => chunk.trim())
+    .filter(Boolean)
+    .map((chunk) => {
+      if (!chunk.includes('\n') && PLAIN_TEXT_HEADING_PATTERN.test(chunk)) {
+        return buildBlock('heading', escapeHtml(chunk), 1);
+      }
+      return buildBlock('paragraph', escapeHtml(chunk).replace(/\n/g, '<br>'));
+    });
+}
+
+function decodeHtmlEntities(value: string): string {
+  return decodeXmlEntities(value.replace(/&([a-zA-Z]+);/g, (match, name: string) => HTML_NAMED_ENTITIES[name] ?? match));
+}
+
+// Parser tolerante para XHTML de EPUB: solo conserva bloques, encabezados, citas y negrita/cursiva.
+export function parseHtmlBlocks(html: string): ManuscriptImportBlock[] {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const source = body.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '');
+  const blocks: ManuscriptImportBlock[] = [];
+  let buffer = '';
+  let headingLevel = 0;
+  let quoteDepth = 0;
+  let openInline: Array<'strong' | 'em'> = [];
+
+  const flush = () => {
+    const html = `${buffer}${openInline.map((tag) => `</${tag}>`).reverse().join('')}`
+      .replace(/<(strong|em)>\s*<\/\1>/g, '')
+      .replace(/ {2,}/g, ' ');
+    const block = buildBlock(quoteDepth > 0 ? 'blockquote' : 'paragraph', html);
+    if (block.text) {
+      blocks.push(headingLevel > 0 ? buildBlock('heading', escapeHtml(block.text), headingLevel) : block);
+    }
+    buffer = '';
+    headingLevel = 0;
+    openInline = [];
+  };
+
+  for (const token of source.matchAll(/<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>|([^<]+)/g)) {
+    if (token[4] !== undefined) {
+      buffer += escapeHtml(decodeHtmlEntities(token[4]).replace(/\s+/g, ' '));
+      continue;
+    }
+    const isClosing = token[1] === '/';
+    const name = token[2].toLowerCase().replace(/^.*:/, '');
+    if (/^h[1-6]$/.test(name)) {
+      flush();
+      headingLevel = isClosing ? 0 : Number(name.charAt(1));
+    } else if (name === 'blockquote') {
+      flush();
+      quoteDepth = Math.max(0, quoteDepth + (isClosing ? -1 : 1));
+    } else if (name === 'hr') {
+      flush();
+      blocks.push(buildBlock('paragraph', SCENE_BREAK_HTML));
+    } else if (HTML_BLOCK_TAGS.has(name)) {
+      flush();
+    } else if (name === 'br') {
+      buffer += '<br>';
+    } else if (HTML_INLINE_TAGS[name] && token[3] !== '/') {
+      const tag = HTML_INLINE_TAGS[name];
+      if (!isClosing) {
+        openInline.push(tag);
+        buffer += `<${tag}>`;
+      } else if (openInline.includes(tag)) {
+        const index = openInline.lastIndexOf(tag);
+        buffer += openInline.slice(index).map((entry) => `</${entry}>`).reverse().join('');
+        openInline = openInline.slice(0, index);
+      }
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+async function readEpubImportSource(fileName: string, bytes: Uint8Array): Promise<ManuscriptImportSource> {
+  const epub = await readEpubPackage(bytes);
+  const frontMatterTexts = new Set([epub.title, epub.author].map((value) => normalizeInlineText(value).toLowerCase()).filter(Boolean));
+  const chapters: ManuscriptImportChapter[] = [];
+  const allBlocks: ManuscriptImportBlock[] = [];
+
+  for (const document of epub.documents) {
+    let body = parseHtmlBlocks(document.xhtml);
+    let title = '';
+    if (body[0]?.kind === 'heading') {
+      title = body[0].text;
+      body = body.slice(1);
+    }
+    // Portadillas y paginas de titulo solo repiten titulo/autor: no son capitulos.
+    if (!body.some((block) => block.text && !frontMatterTexts.has(block.text.toLowerCase()))) {
+      continue;
+    }
+    // Los EPUB exportados por la app numeran los titulos ("3. La marea").
+    const resolvedTitle = (title || document.label).replace(/^\d+\.\s+/, '').trim();
+    chapters.push(buildChapter(resolvedTitle || `Capitulo ${chapters.length + 1}`, body));
+    allBlocks.push(...body);
+  }
+
+  return {
+    fileName,
+    format: 'epub',
+    suggestedTitle: epub.title || fileBaseName(fileName),
+    blocks: allBlocks,
+    author: epub.author,
+    language: epub.language,
+    isbn: epub.isbn,
+    cover: epub.cover,
+    spineChapters: chapters,
+  };
+}
+
+function decodeTextFile(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // Archivos guardados en ANSI por editores de Windows.
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+export async function readManuscriptImportSource(fileName: string, bytes: Uint8Array): Promise<ManuscriptImportSource> {
+  const format = detectManuscriptImportFormat(fileName);
+  if (!format) {
+    throw new Error('Formato no soportado: usa un archivo .docx, .epub, .md o .txt.');
+  }
+
+  if (format === 'epub') {
+    return readEpubImportSource(fileName, bytes);
+  }
+
+  if (format === 'docx') {
+    const entries = await readZipEntries(bytes);
+    const readEntry = (name: string) => {
+      const entry = entries.find((item) => item.name === name);
+      return entry ? new TextDecoder().decode(entry.data) : '';
+    };
+    const documentXml = readEntry('word/document.xml');
+    if (!documentXml) {
+      throw new Error('DOCX invalido: falta word/document.xml.');
+    }
+    const parsed = parseDocxDocumentBlocks(documentXml, readEntry('word/styles.xml'));
+    const coreTitle = readEntry('docProps/core.xml').match(/<dc:title>([^<]*)<\/dc:title>/)?.[1] ?? '';
+    return {
+      fileName,
+      format,
+      suggestedTitle: parsed.title || decodeXmlEntities(coreTitle).trim() || fileBaseName(fileName),
+      blocks: parsed.blocks,
+    };
+  }
+
+  const text = decodeTextFile(bytes);
+  if (format === 'markdown') {
+    const parsed = parseMarkdownBlocks(text);
+    return { fileName, format, suggestedTitle: parsed.title || fileBaseName(fileName), blocks: parsed.blocks };
+  }
+
+  return { fileName, format, suggestedTitle: fileBaseName(fileName), blocks: parsePlainTextBlocks(text) };
+}
+
+function renderChapterBlocks(blocks: ManuscriptImportBlock[]): string {
+  let html = '';
+  let quote: string[] = [];
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      html += `<blockquote>${quote.map((entry) => `<p>${entry}</p>`).join('')}</blockquote>`;
+      quote = [];
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'blockquote') {
+      quote.push(block.html);
+      continue;
+    }
+    flushQuote();
+    if (block.kind === 'heading') {
+      const level = Math.min(6, Math.max(2, block.level));
+      html += `<h${level}>${block.html}</h${level}>`;
+    } else {
+      html += `<p>${block.html}</p>`;
+    }
+  }
+  flushQuote();
+
+  return html || '<p></p>';
+}
+
+function buildChapter(title: string, blocks: ManuscriptImportBlock[]): ManuscriptImportChapter {
+  const text = blocks
+    .map((block) => block.text)
+    .filter((value) => !SCENE_BREAK_TEXT_PATTERN.test(value))
+    .join(' ');
+  return {
+    title,
+    content: renderChapterBlocks(blocks),
+    wordCount: countWordsFromPlainText(text),
+    excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}...` : text,
+  };
+}
+
+function resolveChapterHeadingLevel(
+  blocks: ManuscriptImportBlock[],
+  requestedLevel: number | null,
+): { level: number | null; bookTitleIndex: number } {
+  const headings = blocks.filter((block) => block.kind === 'heading');
+  if (headings.length === 0) {
+    return { level: null, bookTitleIndex: -1 };
+  }
+  if (requestedLevel !== null) {
+    return { level: requestedLevel, bookTitleIndex: -1 };
+  }
+
+  const topLevel = Math.min(...headings.map((block) => block.level));
+  const topHeadings = headings.filter((block) => block.level === topLevel);
+  const deeperLevels = headings.filter((block) => block.level > topLevel).map((block) => block.level);
+  // Un unico encabezado superior al inicio seguido de varios del nivel siguiente es el titulo del libro.
+  if (topHeadings.length === 1 && headings[0] === topHeadings[0] && deeperLevels.length >= 2) {
+    return { level: Math.min(...deeperLevels), bookTitleIndex: blocks.indexOf(topHeadings[0]) };
+  }
+  return { level: topLevel, bookTitleIndex: -1 };
+}
+
+function matchesSeparator(block: ManuscriptImportBlock, separator: string): boolean {
+  const needle = normalizeInlineText(separator).toLowerCase();
+  if (!needle) {
+    return false;
+  }
+  const text = block.text.toLowerCase();
+  if (text === needle) {
+    return true;
+  }
+  // Un separador-palabra ("Capitulo") tambien corta en "Capitulo 3: La huida".
+  return /[\p{L}\p{N}]$/u.test(needle) && text.startsWith(needle) && !/[\p{L}]/u.test(text.charAt(needle.length));
+}
+
+export function buildManuscriptImportPreview(
+  source: ManuscriptImportSource,
+  options: ManuscriptImportOptions = DEFAULT_MANUSCRIPT_IMPORT_OPTIONS,
+): ManuscriptImportPreview {
+  if (source.spineChapters) {
+    return {
+      suggestedTitle: source.suggestedTitle,
+      headingLevels: [],
+      resolvedHeadingLevel: null,
+      chapters: source.spineChapters,
+      totalWords: source.spineChapters.reduce((total, chapter) => total + chapter.wordCount, 0),
+      warnings: source.spineChapters.length === 0 ? ['El EPUB no contiene capitulos con texto.'] : [],
+    };
+  }
+
+  const blocks = source.blocks;
+  const headingLevels = Array.from(
+    new Set(blocks.filter((block) => block.kind === 'heading').map((block) => block.level)),
+  ).sort((left, right) => left - right);
+  const warnings: string[] = [];
+  const chapters: ManuscriptImportChapter[] = [];
+  let suggestedTitle = source.suggestedTitle;
+  let resolvedHeadingLevel: number | null = null;
+  let skippedEmpty = 0;
+
+  const pushChapter = (title: string, body: ManuscriptImportBlock[]) => {
+    if (body.every((block) => !block.text)) {
+      skippedEmpty += 1;
+      return;
+    }
+    chapters.push(buildChapter(title || `Capitulo ${chapters.length + 1}`, body));
+  };
+
+  if (options.splitMode === 'separator') {
+    let title = '';
+    let body: ManuscriptImportBlock[] = [];
+    let started = false;
+    for (const block of blocks) {
+      if (matchesSeparator(block, options.separator)) {
+        if (started || body.length > 0) {
+          pushChapter(title, body);
+        }
+        started = true;
+        const isBareSeparator = block.text.toLowerCase() === normalizeInlineText(options.separator).toLowerCase();
+        title = isBareSeparator ? '' : block.text;
+        body = [];
+        continue;
+      }
+      if (!title && body.length === 0 && block.kind === 'heading') {
+        title = block.text;
+        continue;
+      }
+      body.push(block);
+    }
+    pushChapter(title, body);
+    if (!blocks.some((block) => matchesSeparator(block, options.separator))) {
+      warnings.push(`No se encontro el separador "${options.separator.trim()}"; se importara como un unico capitulo.`);
+    }
+  } else {
+    const resolved = resolveChapterHeadingLevel(blocks, options.headingLevel);
+    resolvedHeadingLevel = resolved.level;
+    if (resolved.bookTitleIndex >= 0) {
+      suggestedTitle = blocks[resolved.bookTitleIndex].text;
+    }
+
+    let title = '';
+    let body: ManuscriptImportBlock[] = [];
+    let hasSplit = false;
+    blocks.forEach((block, index) => {
+      if (index === resolved.bookTitleIndex) {
+        return;
+      }
+      if (resolved.level !== null && block.kind === 'heading' && block.level <= resolved.level) {
+        if (hasSplit) {
+          pushChapter(title, body);
+        } else if (body.some((entry) => entry.text)) {
+          warnings.push('El texto anterior al primer encabezado se importa como capitulo "Inicio".');
+          pushChapter('Inicio', body);
+        }
+        hasSplit = true;
+        title = block.text;
+        body = [];
+        return;
+      }
+      body.push(block);
+    });
+    pushChapter(title, body);
+    if (!hasSplit) {
+      warnings.push('No se detectaron encabezados de capitulo; se importara como un unico capitulo.');
+    }
+  }
+
+  if (skippedEmpty > 0) {
+    warnings.push(`Se omitieron ${skippedEmpty} encabezado/s sin texto.`);
+  }
+  if (chapters.length === 0) {
+    warnings.push('El archivo no contiene texto importable.');
+  }
+
+  return {
+    suggestedTitle,
+    headingLevels,
+    resolvedHeadingLevel,
+    chapters,
+    totalWords: chapters.reduce((total, chapter) => total + chapter.wordCount, 0),
+    warnings,
+  };
+}
@@ -1,9 +1,9 @@
 import type { AppConfig } from '../types/book';
+import { fetchAiEndpoint } from './aiHttp';
+import type { AiServiceStatus } from './aiProviders';
 
-const OLLAMA_BASE_URL = 'http://localhost:11434';
-const OLLAMA_URL = `${OLLAMA_BASE_URL}/api/generate`;
-const OLLAMA_TAGS_URL = `${OLLAMA_BASE_URL}/api/tags`;
-const OLLAMA_STATUS_TIMEOUT_MS = 4000;
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const AI_STATUS_TIMEOUT_MS = 4000;
 const OLLAMA_TIMEOUT_MS_BY_MODE: Record<AppConfig['aiResponseMode'], number> = {
   rapido: 45_000,
   equilibrado: 90_000,
@@ -16,9 +16,26 @@ interface OllamaGenerateResult {
   model: string;
 }
 
-interface GenerateInput {
+export interface GenerateInput {
   config: AppConfig;
   prompt: string;
+  baseUrl?: string;
+}
+
+export interface StreamGenerateInput extends GenerateInput {
+  signal?: AbortSignal;
+  onToken?: (partialText: string, delta: string) => void;
+}
+
+export interface OllamaStreamChunk {
+  response: string;
+  done: boolean;
+  error: string;
+}
+
+export interface OllamaStreamBufferResult {
+  chunks: OllamaStreamChunk[];
+  rest: string;
 }
 
 interface OllamaTagEntry {
@@ -30,12 +47,7 @@ interface OllamaTagsPayload {
   models?: OllamaTagEntry[];
 }
 
-export interface OllamaServiceStatus {
-  state: 'idle' | 'checking' | 'ready' | 'missing-model' | 'offline' | 'error';
-  configuredModel: string;
-  availableModels: string[];
-  message: string;
-}
+export type OllamaServiceStatus = AiServiceStatus;
 
 function scorePromptSegment(segment: string): number {
   const normalized = segment.toLowerCase();
@@ -160,7 +172,7 @@ export function compressPromptForModel(prompt: string, mode: AppConfig['aiRespon
   return compressed.length <= maxChars ? compressed : compressed.slice(0, maxChars);
 }
 
-function resolveProfileOptions(mode: AppConfig['aiResponseMode']): Record<string, number> {
+export function resolveProfileOptions(mode: AppConfig['aiResponseMode']): Record<string, number> {
   if (mode === 'rapido') {
     return {
       num_predict: 280,
@@ -184,10 +196,54 @@ function resolveProfileOptions(mode: AppConfig['aiResponseMode']): Record<string
   };
 }
 
-function resolveRequestTimeoutMs(mode: AppConfig['aiResponseMode']): number {
+export function resolveRequestTimeoutMs(mode: AppConfig['aiResponseMode']): number {
   return OLLAMA_TIMEOUT_MS_BY_MODE[mode] ?? OLLAMA_TIMEOUT_MS_BY_MODE.equilibrado;
 }
 
+function parseOllamaStreamLine(line: string): OllamaStreamChunk | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(trimmed) as Partial<Record<'response' | 'done' | 'error', unknown>>;
+    return {
+      response: typeof payload.response === 'string' ? payload.response : '',
+      done: payload.done === true,
+      error: typeof payload.error === 'string' ? payload.error : '',
+    };
+  } catch {
+    // Linea NDJSON corrupta: se descarta sin cortar el stream.
+    return null;
+  }
+}
+
+export function parseOllamaStreamBuffer(buffer: string, flush = false): OllamaStreamBufferResult {
+  const lines = buffer.split('\n');
+  const rest = flush ? '' : lines.pop() ?? '';
+  const chunks = lines
+    .map((line) => parseOllamaStreamLine(line))
+    .filter((chunk): chunk is OllamaStreamChunk => chunk !== null);
+
+  return {
+    chunks,
+    rest,
+  };
+}
+
+export function normalizeAiBaseUrl(value: string | undefined, fallback: string): string {
+  const trimmed = (value ?? '').trim().replace(/\/+$/u, '');
+  if (!trimmed) {
+    return fallback;
+  }
+  return /^https?:\/\//iu.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+export function describeAiBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/^https?:\/\//iu, '');
+}
+
 export function extractOllamaModelNames(payload: unknown): string[] {
   if (!payload || typeof payload !== 'object') {
     return [];
@@ -247,14 +303,18 @@ export function buildOllamaServiceStatus(configuredModel: string, availableModel
   };
 }
 
-export async function inspectOllamaService(configuredModel: string): Promise<OllamaServiceStatus> {
+export async function inspectOllamaService(
+  configuredModel: string,
+  baseUrl = OLLAMA_DEFAULT_BASE_URL,
+): Promise<OllamaServiceStatus> {
+  const resolvedBaseUrl = normalizeAiBaseUrl(baseUrl, OLLAMA_DEFAULT_BASE_URL);
   const controller = new AbortController();
   const timeoutId = globalThis.setTimeout(() => {
     controller.abort();
-  }, OLLAMA_STATUS_TIMEOUT_MS);
+  }, AI_STATUS_TIMEOUT_MS);
 
   try {
-    const response = await fetch(OLLAMA_TAGS_URL, {
+    const response = await fetchAiEndpoint(`${resolvedBaseUrl}/api/tags`, {
       method: 'GET',
       signal: controller.signal,
     });
@@ -277,7 +337,7 @@ export async function inspectOllamaService(configuredModel: string): Promise<Oll
         state: 'offline',
         configuredModel: configuredModel.trim(),
         availableModels: [],
-        message: 'Ollama no respondio a tiempo en localhost:11434.',
+        message: `Ollama no respondio a tiempo en ${describeAiBaseUrl(resolvedBaseUrl)}.`,
       };
     }
 
@@ -286,7 +346,7 @@ export async function inspectOllamaService(configuredModel: string): Promise<Oll
         state: 'offline',
         configuredModel: configuredModel.trim(),
         availableModels: [],
-        message: 'No se pudo conectar con Ollama en localhost:11434.',
+        message: `No se pudo conectar con Ollama en ${describeAiBaseUrl(resolvedBaseUrl)}.`,
       };
     }
 
@@ -301,6 +361,21 @@ export async function inspectOllamaService(configuredModel: string): Promise<Oll
   }
 }
 
+function buildGenerateRequestBody(input: GenerateInput, stream: boolean): string {
+  const mode = input.config.aiResponseMode ?? 'equilibrado';
+  return JSON.stringify({
+    model: input.config.model,
+    system: input.config.systemPrompt,
+    prompt: compressPromptForModel(input.prompt, mode),
+    stream,
+    options: {
+      ...resolveProfileOptions(mode),
+      temperature: input.config.temperature,
+      ...input.config.ollamaOptions,
+    },
+  });
+}
+
 export async function generateWithOllama(input: GenerateInput): Promise<string> {
   const mode = input.config.aiResponseMode ?? 'equilibrado';
   const timeoutMs = resolveRequestTimeoutMs(mode);
@@ -309,25 +384,16 @@ export async function generateWithOllama(input: GenerateInput): Promise<string>
     controller.abort();
   }, timeoutMs);
 
+  const baseUrl = normalizeAiBaseUrl(input.baseUrl, OLLAMA_DEFAULT_BASE_URL);
+
   try {
-    const prompt = compressPromptForModel(input.prompt, mode);
-    const response = await fetch(OLLAMA_URL, {
+    const response = await fetchAiEndpoint(`${baseUrl}/api/generate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       signal: controller.signal,
-      body: JSON.stringify({
-        model: input.config.model,
-        system: input.config.systemPrompt,
-        prompt,
-        stream: false,
-        options: {
-          ...resolveProfileOptions(mode),
-          temperature: input.config.temperature,
-          ...input.config.ollamaOptions,
-        },
-      }),
+      body: buildGenerateRequestBody(input, false),
     });
 
     if (!response.ok) {
@@ -343,11 +409,122 @@ export async function generateWithOllama(input: GenerateInput): Promise<string>
     }
 
     if (error instanceof TypeError) {
-      throw new Error('No se pudo conectar con Ollama en localhost:11434. Inicia Ollama.');
+      throw new Error(`No se pudo conectar con Ollama en ${describeAiBaseUrl(baseUrl)}. Inicia Ollama.`);
+    }
+
+    throw error;
+  } finally {
+    globalThis.clearTimeout(timeoutId);
+  }
+}
+
+// Variante en streaming: el timeout se reinicia con cada chunk, asi una reescritura
+// larga que sigue produciendo texto no se corta por el limite total del modo.
+export async function streamWithOllama(input: StreamGenerateInput): Promise<string> {
+  const mode = input.config.aiResponseMode ?? 'equilibrado';
+  const idleTimeoutMs = resolveRequestTimeoutMs(mode);
+  const controller = new AbortController();
+  let timedOut = false;
+  let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
+  const armIdleTimeout = () => {
+    globalThis.clearTimeout(timeoutId);
+    timeoutId = globalThis.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, idleTimeoutMs);
+  };
+  const abortFromCaller = () => {
+    controller.abort();
+  };
+
+  if (input.signal?.aborted) {
+    throw new Error('Generacion IA cancelada por el usuario.');
+  }
+  input.signal?.addEventListener('abort', abortFromCaller, { once: true });
+  armIdleTimeout();
+
+  const baseUrl = normalizeAiBaseUrl(input.baseUrl, OLLAMA_DEFAULT_BASE_URL);
+  let output = '';
+  try {
+    const response = await fetchAiEndpoint(`${baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal: controller.signal,
+      body: buildGenerateRequestBody(input, true),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(details || `Error HTTP ${response.status}`);
+    }
+
+    if (!response.body) {
+      const payload = (await response.json()) as OllamaGenerateResult;
+      output = payload.response ?? '';
+      input.onToken?.(output, output);
+      return output;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+    let streamClosed = false;
+
+    while (!finished) {
+      const { value, done } = await reader.read();
+      streamClosed = done;
+      if (done) {
+        buffer += decoder.decode();
+      } else {
+        buffer += decoder.decode(value, { stream: true });
+        armIdleTimeout();
+      }
+
+      const parsed = parseOllamaStreamBuffer(buffer, done);
+      buffer = parsed.rest;
+      for (const chunk of parsed.chunks) {
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+        if (chunk.response) {
+          output += chunk.response;
+          input.onToken?.(output, chunk.response);
+        }
+        if (chunk.done) {
+          finished = true;
+        }
+      }
+
+      if (done) {
+        finished = true;
+      }
+    }
+
+    if (!streamClosed) {
+      void reader.cancel().catch(() => undefined);
+    }
+
+    return output;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      if (!timedOut) {
+        throw new Error('Generacion IA cancelada por el usuario.');
+      }
+      throw new Error(
+        `Ollama dejo de enviar texto durante ${Math.round(idleTimeoutMs / 1000)}s. Reintenta o reduce el alcance del pedido.`,
+      );
+    }
+
+    if (error instanceof TypeError) {
+      throw new Error(`No se pudo conectar con Ollama en ${describeAiBaseUrl(baseUrl)}. Inicia Ollama.`);
     }
 
     throw error;
   } finally {
     globalThis.clearTimeout(timeoutId);
+    input.signal?.removeEventListener('abort', abortFromCaller);
   }
 }
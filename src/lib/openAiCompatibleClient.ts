@@ -0,0 +1,388 @@
+import { fetchAiEndpoint } from './aiHttp';
+import type { AiServiceStatus } from './aiProviders';
+import {
+  AI_STATUS_TIMEOUT_MS,
+  compressPromptForModel,
+  describeAiBaseUrl,
+  normalizeAiBaseUrl,
+  resolveProfileOptions,
+  resolveRequestTimeoutMs,
+  type GenerateInput,
+  type StreamGenerateInput,
+} from './ollamaClient';
+
+// llama.cpp server y LM Studio exponen este puerto por defecto.
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = 'http://localhost:1234';
+
+interface OpenAiChatCompletionPayload {
+  choices?: Array<{
+    message?: { content?: unknown };
+  }>;
+}
+
+interface OpenAiModelsPayload {
+  data?: Array<{ id?: unknown }>;
+}
+
+export interface OpenAiStreamChunk {
+  content: string;
+  done: boolean;
+  error: string;
+}
+
+export interface OpenAiStreamBufferResult {
+  chunks: OpenAiStreamChunk[];
+  rest: string;
+}
+
+// Acepta tanto `http://host:1234` como `http://host:1234/v1` en Settings.
+export function resolveOpenAiCompatibleApiRoot(baseUrl: string | undefined): string {
+  const normalized = normalizeAiBaseUrl(baseUrl, OPENAI_COMPATIBLE_DEFAULT_BASE_URL);
+  return /\/v1$/iu.test(normalized) ? normalized : `${normalized}/v1`;
+}
+
+function buildHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  const trimmedKey = apiKey.trim();
+  if (trimmedKey) {
+    headers.Authorization = `Bearer ${trimmedKey}`;
+  }
+  return headers;
+}
+
+function buildChatCompletionBody(input: GenerateInput, stream: boolean): string {
+  const mode = input.config.aiResponseMode ?? 'equilibrado';
+  const profile = resolveProfileOptions(mode);
+  const topP = input.config.ollamaOptions.top_p;
+  const messages = [
+    ...(input.config.systemPrompt.trim() ? [{ role: 'system', content: input.config.systemPrompt }] : []),
+    { role: 'user', content: compressPromptForModel(input.prompt, mode) },
+  ];
+
+  return JSON.stringify({
+    model: input.config.model,
+    messages,
+    stream,
+    temperature: input.config.temperature,
+    max_tokens: profile.num_predict,
+    ...(typeof topP === 'number' ? { top_p: topP } : {}),
+  });
+}
+
+function parseOpenAiStreamLine(line: string): OpenAiStreamChunk | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) {
+    return null;
+  }
+
+  const data = trimmed.slice('data:'.length).trim();
+  if (data === '[DONE]') {
+    return { content: '', done: true, error: '' };
+  }
+
+  try {
+    const payload = JSON.parse(data) as {
+      choices?: Array<{ delta?: { content?: unknown }; finish_reason?: unknown }>;
+      error?: { message?: unknown } | string;
+    };
+    const choice = payload.choices?.[0];
+    const errorMessage =
+      typeof payload.error === 'string'
+        ? payload.error
+        : typeof payload.error?.message === 'string'
+          ? payload.error.message
+          : '';
+    return {
+      content: typeof choice?.delta?.content === 'string' ? choice.delta.content : '',
+      done: typeof choice?.finish_reason === 'string' && choice.finish_reason.length > 0,
+      error: errorMessage,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function parseOpenAiStreamBuffer(buffer: string, flush = false): OpenAiStreamBufferResult {
+  const lines = buffer.split('\n');
+  const rest = flush ? '' : lines.pop() ?? '';
+  const chunks = lines
+    .map((line) => parseOpenAiStreamLine(line))
+    .filter((chunk): chunk is OpenAiStreamChunk => chunk !== null);
+
+  return {
+    chunks,
+    rest,
+  };
+}
+
+export function extractOpenAiModelNames(payload: unknown): string[] {
+  if (!payload || typeof payload !== 'object') {
+    return [];
+  }
+
+  const source = Array.isArray((payload as OpenAiModelsPayload).data) ? (payload as OpenAiModelsPayload).data ?? [] : [];
+  const names = source
+    .map((entry) => (typeof entry?.id === 'string' ? entry.id.trim() : ''))
+    .filter(Boolean);
+
+  return Array.from(new Set(names)).sort((left, right) => left.localeCompare(right));
+}
+
+export function buildOpenAiCompatibleServiceStatus(
+  configuredModel: string,
+  availableModels: string[],
+  serverLabel: string,
+): AiServiceStatus {
+  const normalizedModel = configuredModel.trim();
+  const normalizedAvailableModels = Array.from(
+    new Set(availableModels.map((entry) => entry.trim()).filter(Boolean)),
+  ).sort((left, right) => left.localeCompare(right));
+
+  if (normalizedAvailableModels.length === 0) {
+    return {
+      state: 'missing-model',
+      configuredModel: normalizedModel,
+      availableModels: normalizedAvailableModels,
+      message: `El servidor ${serverLabel} responde, pero no tiene modelos cargados.`,
+    };
+  }
+
+  if (!normalizedModel) {
+    return {
+      state: 'missing-model',
+      configuredModel: normalizedModel,
+      availableModels: normalizedAvailableModels,
+      message: `El servidor ${serverLabel} responde, pero falta definir un modelo en Settings.`,
+    };
+  }
+
+  // llama.cpp server sirve un unico modelo y acepta cualquier nombre en la peticion.
+  if (!normalizedAvailableModels.includes(normalizedModel) && normalizedAvailableModels.length > 1) {
+    return {
+      state: 'missing-model',
+      configuredModel: normalizedModel,
+      availableModels: normalizedAvailableModels,
+      message: `El servidor ${serverLabel} esta activo, pero no expone el modelo "${normalizedModel}".`,
+    };
+  }
+
+  return {
+    state: 'ready',
+    configuredModel: normalizedModel,
+    availableModels: normalizedAvailableModels,
+    message: `Servidor ${serverLabel} listo. Modelo detectado: ${
+      normalizedAvailableModels.includes(normalizedModel) ? normalizedModel : normalizedAvailableModels[0]
+    }.`,
+  };
+}
+
+export async function inspectOpenAiCompatibleService(
+  configuredModel: string,
+  baseUrl: string | undefined,
+  apiKey = '',
+): Promise<AiServiceStatus> {
+  const apiRoot = resolveOpenAiCompatibleApiRoot(baseUrl);
+  const serverLabel = describeAiBaseUrl(apiRoot.replace(/\/v1$/iu, ''));
+  const controller = new AbortController();
+  const timeoutId = globalThis.setTimeout(() => {
+    controller.abort();
+  }, AI_STATUS_TIMEOUT_MS);
+
+  try {
+    const response = await fetchAiEndpoint(`${apiRoot}/models`, {
+      method: 'GET',
+      headers: buildHeaders(apiKey),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      return {
+        state: 'error',
+        configuredModel: configuredModel.trim(),
+        availableModels: [],
+        message: details || `El servidor ${serverLabel} respondio con HTTP ${response.status}.`,
+      };
+    }
+
+    const payload = (await response.json()) as OpenAiModelsPayload;
+    return buildOpenAiCompatibleServiceStatus(configuredModel, extractOpenAiModelNames(payload), serverLabel);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        state: 'offline',
+        configuredModel: configuredModel.trim(),
+        availableModels: [],
+        message: `El servidor ${serverLabel} no respondio a tiempo.`,
+      };
+    }
+
+    if (error instanceof TypeError) {
+      return {
+        state: 'offline',
+        configuredModel: configuredModel.trim(),
+        availableModels: [],
+        message: `No se pudo conectar con el servidor ${serverLabel}.`,
+      };
+    }
+
+    return {
+      state: 'error',
+      configuredModel: configuredModel.trim(),
+      availableModels: [],
+      message: error instanceof Error ? error.message : 'Error desconocido consultando el servidor IA.',
+    };
+  } finally {
+    globalThis.clearTimeout(timeoutId);
+  }
+}
+
+export async function generateWithOpenAiCompatible(input: GenerateInput): Promise<string> {
+  const mode = input.config.aiResponseMode ?? 'equilibrado';
+  const timeoutMs = resolveRequestTimeoutMs(mode);
+  const apiRoot = resolveOpenAiCompatibleApiRoot(input.baseUrl);
+  const controller = new AbortController();
+  const timeoutId = globalThis.setTimeout(() => {
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const response = await fetchAiEndpoint(`${apiRoot}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(input.config.aiApiKey),
+      signal: controller.signal,
+      body: buildChatCompletionBody(input, false),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(details || `Error HTTP ${response.status}`);
+    }
+
+    const payload = (await response.json()) as OpenAiChatCompletionPayload;
+    const content = payload.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`El servidor IA no respondio en ${Math.round(timeoutMs / 1000)}s. Reintenta o reduce el alcance del pedido.`);
+    }
+
+    if (error instanceof TypeError) {
+      throw new Error(`No se pudo conectar con el servidor IA en ${describeAiBaseUrl(apiRoot)}.`);
+    }
+
+    throw error;
+  } finally {
+    globalThis.clearTimeout(timeoutId);
+  }
+}
+
+export async function streamWithOpenAiCompatible(input: StreamGenerateInput): Promise<string> {
+  const mode = input.config.aiResponseMode ?? 'equilibrado';
+  const idleTimeoutMs = resolveRequestTimeoutMs(mode);
+  const apiRoot = resolveOpenAiCompatibleApiRoot(input.baseUrl);
+  const controller = new AbortController();
+  let timedOut = false;
+  let timeoutId: ReturnType<typeof globalThis.setTimeout> | undefined;
+  const armIdleTimeout = () => {
+    globalThis.clearTimeout(timeoutId);
+    timeoutId = globalThis.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, idleTimeoutMs);
+  };
+  const abortFromCaller = () => {
+    controller.abort();
+  };
+
+  if (input.signal?.aborted) {
+    throw new Error('Generacion IA cancelada por el usuario.');
+  }
+  input.signal?.addEventListener('abort', abortFromCaller, { once: true });
+  armIdleTimeout();
+
+  let output = '';
+  try {
+    const response = await fetchAiEndpoint(`${apiRoot}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(input.config.aiApiKey),
+      signal: controller.signal,
+      body: buildChatCompletionBody(input, true),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(details || `Error HTTP ${response.status}`);
+    }
+
+    if (!response.body) {
+      const payload = (await response.json()) as OpenAiChatCompletionPayload;
+      const content = payload.choices?.[0]?.message?.content;
+      output = typeof content === 'string' ? content : '';
+      input.onToken?.(output, output);
+      return output;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+    let streamClosed = false;
+
+    while (!finished) {
+      const { value, done } = await reader.read();
+      streamClosed = done;
+      if (done) {
+        buffer += decoder.decode();
+      } else {
+        buffer += decoder.decode(value, { stream: true });
+        armIdleTimeout();
+      }
+
+      const parsed = parseOpenAiStreamBuffer(buffer, done);
+      buffer = parsed.rest;
+      for (const chunk of parsed.chunks) {
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+        if (chunk.content) {
+          output += chunk.content;
+          input.onToken?.(output, chunk.content);
+        }
+        if (chunk.done) {
+          finished = true;
+        }
+      }
+
+      if (done) {
+        finished = true;
+      }
+    }
+
+    if (!streamClosed) {
+      void reader.cancel().catch(() => undefined);
+    }
+
+    return output;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      if (!timedOut) {
+        throw new Error('Generacion IA cancelada por el usuario.');
+      }
+      throw new Error(
+        `El servidor IA dejo de enviar texto durante ${Math.round(idleTimeoutMs / 1000)}s. Reintenta o reduce el alcance del pedido.`,
+      );
+    }
+
+    if (error instanceof TypeError) {
+      throw new Error(`No se pudo conectar con el servidor IA en ${describeAiBaseUrl(apiRoot)}.`);
+    }
+
+    throw error;
+  } finally {
+    globalThis.clearTimeout(timeoutId);
+    input.signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
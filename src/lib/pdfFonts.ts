@@ -0,0 +1,512 @@
+// Lectura y subset minimo de fuentes TrueType para incrustarlas en el PDF interior.
+// Solo se soportan contornos `glyf` (no CFF/OpenType-PS): es lo que traen las serif del sistema.
+
+export interface TrueTypeTableRecord {
+  offset: number;
+  length: number;
+}
+
+export interface TrueTypeFont {
+  data: Uint8Array;
+  tables: Map<string, TrueTypeTableRecord>;
+  postScriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  bbox: [number, number, number, number];
+  numGlyphs: number;
+  indexToLocFormat: number;
+  advanceWidths: number[];
+  cmap: Map<number, number>;
+  isBold: boolean;
+  isItalic: boolean;
+}
+
+export interface PdfFontFaces {
+  regular: Uint8Array;
+  bold?: Uint8Array | null;
+  italic?: Uint8Array | null;
+  boldItalic?: Uint8Array | null;
+}
+
+export type PdfFontFaceKey = keyof PdfFontFaces;
+
+export interface PdfFontFamilyCandidate {
+  label: string;
+  files: Record<PdfFontFaceKey, string[]>;
+}
+
+// Rutas probadas en orden; la primera familia con cara regular gana.
+export const PDF_FONT_FAMILY_CANDIDATES: PdfFontFamilyCandidate[] = [
+  {
+    label: 'Book Antiqua',
+    files: {
+      regular: ['C:/Windows/Fonts/BKANT.TTF'],
+      bold: ['C:/Windows/Fonts/ANTQUAB.TTF'],
+      italic: ['C:/Windows/Fonts/ANTQUAI.TTF'],
+      boldItalic: ['C:/Windows/Fonts/ANTQUABI.TTF'],
+    },
+  },
+  {
+    label: 'Georgia',
+    files: {
+      regular: ['C:/Windows/Fonts/georgia.ttf', '/System/Library/Fonts/Supplemental/Georgia.ttf', '/Library/Fonts/Georgia.ttf'],
+      bold: ['C:/Windows/Fonts/georgiab.ttf', '/System/Library/Fonts/Supplemental/Georgia Bold.ttf', '/Library/Fonts/Georgia Bold.ttf'],
+      italic: ['C:/Windows/Fonts/georgiai.ttf', '/System/Library/Fonts/Supplemental/Georgia Italic.ttf', '/Library/Fonts/Georgia Italic.ttf'],
+      boldItalic: [
+        'C:/Windows/Fonts/georgiaz.ttf',
+        '/System/Library/Fonts/Supplemental/Georgia Bold Italic.ttf',
+        '/Library/Fonts/Georgia Bold Italic.ttf',
+      ],
+    },
+  },
+  {
+    label: 'DejaVu Serif',
+    files: {
+      regular: ['/usr/share/fonts/truetype/dejavu/DejaVuSerif.ttf', '/usr/share/fonts/dejavu/DejaVuSerif.ttf'],
+      bold: ['/usr/share/fonts/truetype/dejavu/DejaVuSerif-Bold.ttf', '/usr/share/fonts/dejavu/DejaVuSerif-Bold.ttf'],
+      italic: ['/usr/share/fonts/truetype/dejavu/DejaVuSerif-Italic.ttf', '/usr/share/fonts/dejavu/DejaVuSerif-Italic.ttf'],
+      boldItalic: [
+        '/usr/share/fonts/truetype/dejavu/DejaVuSerif-BoldItalic.ttf',
+        '/usr/share/fonts/dejavu/DejaVuSerif-BoldItalic.ttf',
+      ],
+    },
+  },
+  {
+    label: 'Liberation Serif',
+    files: {
+      regular: ['/usr/share/fonts/truetype/liberation/LiberationSerif-Regular.ttf', '/usr/share/fonts/liberation/LiberationSerif-Regular.ttf'],
+      bold: ['/usr/share/fonts/truetype/liberation/LiberationSerif-Bold.ttf', '/usr/share/fonts/liberation/LiberationSerif-Bold.ttf'],
+      italic: ['/usr/share/fonts/truetype/liberation/LiberationSerif-Italic.ttf', '/usr/share/fonts/liberation/LiberationSerif-Italic.ttf'],
+      boldItalic: [
+        '/usr/share/fonts/truetype/liberation/LiberationSerif-BoldItalic.ttf',
+        '/usr/share/fonts/liberation/LiberationSerif-BoldItalic.ttf',
+      ],
+    },
+  },
+];
+
+// Nombres de archivo que el autor puede dejar en `assets/fonts/` para fijar la fuente del interior.
+export const BOOK_PDF_FONT_FILE_NAMES: Record<PdfFontFaceKey, string> = {
+  regular: 'interior-regular.ttf',
+  bold: 'interior-bold.ttf',
+  italic: 'interior-italic.ttf',
+  boldItalic: 'interior-bold-italic.ttf',
+};
+
+const REQUIRED_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf', 'cmap'];
+const SUBSET_TABLES = ['cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'prep'];
+
+function readUint16(view: DataView, offset: number): number {
+  return view.getUint16(offset, false);
+}
+
+function readInt16(view: DataView, offset: number): number {
+  return view.getInt16(offset, false);
+}
+
+function readUint32(view: DataView, offset: number): number {
+  return view.getUint32(offset, false);
+}
+
+function readTag(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+function parseCmapFormat4(view: DataView, offset: number, target: Map<number, number>): void {
+  const segCountX2 = readUint16(view, offset + 6);
+  const segCount = segCountX2 / 2;
+  const endCodesOffset = offset + 14;
+  const startCodesOffset = endCodesOffset + segCountX2 + 2;
+  const idDeltaOffset = startCodesOffset + segCountX2;
+  const idRangeOffsetOffset = idDeltaOffset + segCountX2;
+
+  for (let segment = 0; segment < segCount; segment += 1) {
+    const endCode = readUint16(view, endCodesOffset + segment * 2);
+    const startCode = readUint16(view, startCodesOffset + segment * 2);
+    const idDelta = readInt16(view, idDeltaOffset + segment * 2);
+    const rangeOffsetPosition = idRangeOffsetOffset + segment * 2;
+    const idRangeOffset = readUint16(view, rangeOffsetPosition);
+
+    for (let code = startCode; code <= endCode && code !== 0xffff; code += 1) {
+      let glyphId = 0;
+      if (idRangeOffset === 0) {
+        glyphId = (code + idDelta) & 0xffff;
+      } else {
+        const glyphPosition = rangeOffsetPosition + idRangeOffset + (code - startCode) * 2;
+        if (glyphPosition + 2 > view.byteLength) {
+          continue;
+        }
+        const rawGlyph = readUint16(view, glyphPosition);
+        glyphId = rawGlyph === 0 ? 0 : (rawGlyph + idDelta) & 0xffff;
+      }
+      if (glyphId > 0 && !target.has(code)) {
+        target.set(code, glyphId);
+      }
+    }
+  }
+}
+
+function parseCmapFormat12(view: DataView, offset: number, target: Map<number, number>): void {
+  const groupCount = readUint32(view, offset + 12);
+  for (let group = 0; group < groupCount; group += 1) {
+    const groupOffset = offset + 16 + group * 12;
+    const startCode = readUint32(view, groupOffset);
+    const endCode = readUint32(view, groupOffset + 4);
+    const startGlyph = readUint32(view, groupOffset + 8);
+    for (let code = startCode; code <= endCode; code += 1) {
+      if (!target.has(code)) {
+        target.set(code, startGlyph + (code - startCode));
+      }
+    }
+  }
+}
+
+function parseCmap(view: DataView, tableOffset: number): Map<number, number> {
+  const subtableCount = readUint16(view, tableOffset + 2);
+  const subtables: Array<{ platformId: number; encodingId: number; offset: number; format: number }> = [];
+  for (let index = 0; index < subtableCount; index += 1) {
+    const recordOffset = tableOffset + 4 + index * 8;
+    const subtableOffset = tableOffset + readUint32(view, recordOffset + 4);
+    subtables.push({
+      platformId: readUint16(view, recordOffset),
+      encodingId: readUint16(view, recordOffset + 2),
+      offset: subtableOffset,
+      format: readUint16(view, subtableOffset),
+    });
+  }
+
+  const rank = (entry: (typeof subtables)[number]): number => {
+    if (entry.format === 12 && (entry.platformId === 3 || entry.platformId === 0)) {
+      return 0;
+    }
+    if (entry.format === 4 && entry.platformId === 3 && entry.encodingId === 1) {
+      return 1;
+    }
+    if (entry.format === 4 && entry.platformId === 0) {
+      return 2;
+    }
+    return 9;
+  };
+
+  const cmap = new Map<number, number>();
+  const usable = subtables.filter((entry) => rank(entry) < 9).sort((left, right) => rank(left) - rank(right));
+  for (const subtable of usable) {
+    if (subtable.format === 12) {
+      parseCmapFormat12(view, subtable.offset, cmap);
+    } else {
+      parseCmapFormat4(view, subtable.offset, cmap);
+    }
+  }
+
+  return cmap;
+}
+
+function decodeNameRecord(data: Uint8Array, offset: number, length: number, platformId: number): string {
+  if (platformId === 3 || platformId === 0) {
+    let value = '';
+    for (let index = 0; index + 1 < length; index += 2) {
+      value += String.fromCharCode((data[offset + index] << 8) | data[offset + index + 1]);
+    }
+    return value;
+  }
+
+  let value = '';
+  for (let index = 0; index < length; index += 1) {
+    value += String.fromCharCode(data[offset + index]);
+  }
+  return value;
+}
+
+function parsePostScriptName(data: Uint8Array, view: DataView, table: TrueTypeTableRecord | undefined): string {
+  if (!table) {
+    return '';
+  }
+
+  const count = readUint16(view, table.offset + 2);
+  const storageOffset = table.offset + readUint16(view, table.offset + 4);
+  for (let index = 0; index < count; index += 1) {
+    const recordOffset = table.offset + 6 + index * 12;
+    const platformId = readUint16(view, recordOffset);
+    const nameId = readUint16(view, recordOffset + 6);
+    if (nameId !== 6) {
+      continue;
+    }
+    const length = readUint16(view, recordOffset + 8);
+    const offset = readUint16(view, recordOffset + 10);
+    const decoded = decodeNameRecord(data, storageOffset + offset, length, platformId).replace(/[^A-Za-z0-9-]/g, '');
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  return '';
+}
+
+export function parseTrueTypeFont(data: Uint8Array): TrueTypeFont {
+  if (data.length < 12) {
+    throw new Error('Archivo de fuente vacio o truncado.');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const sfntVersion = readUint32(view, 0);
+  if (sfntVersion !== 0x00010000 && readTag(data, 0) !== 'true') {
+    throw new Error('La fuente no es TrueType con contornos glyf (OpenType CFF no soportado).');
+  }
+
+  const tableCount = readUint16(view, 4);
+  const tables = new Map<string, TrueTypeTableRecord>();
+  for (let index = 0; index < tableCount; index += 1) {
+    const recordOffset = 12 + index * 16;
+    tables.set(readTag(data, recordOffset), {
+      offset: readUint32(view, recordOffset + 8),
+      length: readUint32(view, recordOffset + 12),
+    });
+  }
+
+  const missing = REQUIRED_TABLES.filter((tag) => !tables.has(tag));
+  if (missing.length > 0) {
+    throw new Error(`La fuente no tiene las tablas requeridas: ${missing.join(', ')}.`);
+  }
+
+  const head = tables.get('head') as TrueTypeTableRecord;
+  const hhea = tables.get('hhea') as TrueTypeTableRecord;
+  const maxp = tables.get('maxp') as TrueTypeTableRecord;
+  const hmtx = tables.get('hmtx') as TrueTypeTableRecord;
+  const unitsPerEm = readUint16(view, head.offset + 18) || 1000;
+  const macStyle = readUint16(view, head.offset + 44);
+  const numGlyphs = readUint16(view, maxp.offset + 4);
+  const numberOfHMetrics = Math.max(1, readUint16(view, hhea.offset + 34));
+  const advanceWidths: number[] = [];
+  let lastAdvance = 0;
+  for (let glyphId = 0; glyphId < numGlyphs; glyphId += 1) {
+    if (glyphId < numberOfHMetrics) {
+      lastAdvance = readUint16(view, hmtx.offset + glyphId * 4);
+    }
+    advanceWidths.push(lastAdvance);
+  }
+
+  const ascent = readInt16(view, hhea.offset + 4);
+  const descent = readInt16(view, hhea.offset + 6);
+  const os2 = tables.get('OS/2');
+  const os2Version = os2 ? readUint16(view, os2.offset) : 0;
+  const capHeight =
+    os2 && os2Version >= 2 && os2.length >= 90 ? readInt16(view, os2.offset + 88) : Math.round(ascent * 0.7);
+  const post = tables.get('post');
+  const italicAngle = post ? readInt16(view, post.offset + 4) + readUint16(view, post.offset + 6) / 65536 : 0;
+
+  return {
+    data,
+    tables,
+    postScriptName: parsePostScriptName(data, view, tables.get('name')) || 'WriteWMeSerif',
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight: capHeight > 0 ? capHeight : Math.round(ascent * 0.7),
+    italicAngle,
+    bbox: [
+      readInt16(view, head.offset + 36),
+      readInt16(view, head.offset + 38),
+      readInt16(view, head.offset + 40),
+      readInt16(view, head.offset + 42),
+    ],
+    numGlyphs,
+    indexToLocFormat: readInt16(view, head.offset + 50),
+    advanceWidths,
+    cmap: parseCmap(view, (tables.get('cmap') as TrueTypeTableRecord).offset),
+    isBold: (macStyle & 0x01) !== 0,
+    isItalic: (macStyle & 0x02) !== 0,
+  };
+}
+
+export function glyphIdForCodePoint(font: TrueTypeFont, codePoint: number): number {
+  return font.cmap.get(codePoint) ?? 0;
+}
+
+export function measureTrueTypeText(font: TrueTypeFont, text: string, fontSize: number): number {
+  let units = 0;
+  for (const char of text) {
+    const glyphId = glyphIdForCodePoint(font, char.codePointAt(0) ?? 0);
+    units += font.advanceWidths[glyphId] ?? 0;
+  }
+  return (units / font.unitsPerEm) * fontSize;
+}
+
+function readGlyphRange(font: TrueTypeFont, view: DataView, glyphId: number): { start: number; end: number } {
+  const loca = font.tables.get('loca') as TrueTypeTableRecord;
+  const glyf = font.tables.get('glyf') as TrueTypeTableRecord;
+  if (glyphId < 0 || glyphId >= font.numGlyphs) {
+    return { start: 0, end: 0 };
+  }
+
+  const start =
+    font.indexToLocFormat === 0
+      ? readUint16(view, loca.offset + glyphId * 2) * 2
+      : readUint32(view, loca.offset + glyphId * 4);
+  const end =
+    font.indexToLocFormat === 0
+      ? readUint16(view, loca.offset + (glyphId + 1) * 2) * 2
+      : readUint32(view, loca.offset + (glyphId + 1) * 4);
+
+  return {
+    start: glyf.offset + start,
+    end: glyf.offset + Math.max(start, end),
+  };
+}
+
+function collectCompositeComponents(view: DataView, start: number, end: number): number[] {
+  if (end - start < 10 || readInt16(view, start) >= 0) {
+    return [];
+  }
+
+  const components: number[] = [];
+  let cursor = start + 10;
+  let hasMore = true;
+  while (hasMore && cursor + 4 <= end) {
+    const flags = readUint16(view, cursor);
+    components.push(readUint16(view, cursor + 2));
+    cursor += 4;
+    cursor += (flags & 0x0001) !== 0 ? 4 : 2;
+    if ((flags & 0x0008) !== 0) {
+      cursor += 2;
+    } else if ((flags & 0x0040) !== 0) {
+      cursor += 4;
+    } else if ((flags & 0x0080) !== 0) {
+      cursor += 8;
+    }
+    hasMore = (flags & 0x0020) !== 0;
+  }
+
+  return components;
+}
+
+function computeTableChecksum(bytes: Uint8Array): number {
+  const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4);
+  padded.set(bytes);
+  const view = new DataView(padded.buffer);
+  let sum = 0;
+  for (let offset = 0; offset < padded.length; offset += 4) {
+    sum = (sum + view.getUint32(offset, false)) >>> 0;
+  }
+  return sum;
+}
+
+// Subset por vaciado: conserva los ids de glifo (CIDToGIDMap Identity) y solo copia
+// los contornos usados, asi el archivo incrustado pesa una fraccion del original.
+export function subsetTrueTypeFont(font: TrueTypeFont, glyphIds: Iterable<number>): Uint8Array {
+  const view = new DataView(font.data.buffer, font.data.byteOffset, font.data.byteLength);
+  const keep = new Set<number>([0]);
+  const pending = [...glyphIds].filter((glyphId) => glyphId >= 0 && glyphId < font.numGlyphs);
+  while (pending.length > 0) {
+    const glyphId = pending.pop() as number;
+    if (keep.has(glyphId) && glyphId !== 0) {
+      continue;
+    }
+    keep.add(glyphId);
+    const range = readGlyphRange(font, view, glyphId);
+    for (const component of collectCompositeComponents(view, range.start, range.end)) {
+      if (!keep.has(component) && component < font.numGlyphs) {
+        pending.push(component);
+      }
+    }
+  }
+
+  const glyphChunks: Uint8Array[] = [];
+  const locaView = new DataView(new ArrayBuffer((font.numGlyphs + 1) * 4));
+  let glyfLength = 0;
+  for (let glyphId = 0; glyphId < font.numGlyphs; glyphId += 1) {
+    locaView.setUint32(glyphId * 4, glyfLength, false);
+    if (!keep.has(glyphId)) {
+      continue;
+    }
+    const range = readGlyphRange(font, view, glyphId);
+    const length = range.end - range.start;
+    if (length <= 0) {
+      continue;
+    }
+    const paddedLength = Math.ceil(length / 4) * 4;
+    const chunk = new Uint8Array(paddedLength);
+    chunk.set(font.data.subarray(range.start, range.end));
+    glyphChunks.push(chunk);
+    glyfLength += paddedLength;
+  }
+  locaView.setUint32(font.numGlyphs * 4, glyfLength, false);
+
+  const glyf = new Uint8Array(glyfLength);
+  let glyfCursor = 0;
+  for (const chunk of glyphChunks) {
+    glyf.set(chunk, glyfCursor);
+    glyfCursor += chunk.length;
+  }
+
+  const tableData = new Map<string, Uint8Array>();
+  for (const tag of SUBSET_TABLES) {
+    if (tag === 'glyf') {
+      tableData.set(tag, glyf);
+      continue;
+    }
+    if (tag === 'loca') {
+      tableData.set(tag, new Uint8Array(locaView.buffer));
+      continue;
+    }
+    const record = font.tables.get(tag);
+    if (!record) {
+      continue;
+    }
+    const copy = font.data.slice(record.offset, record.offset + record.length);
+    if (tag === 'head') {
+      const headView = new DataView(copy.buffer);
+      headView.setUint32(8, 0, false);
+      // El loca reconstruido siempre usa offsets de 32 bits.
+      headView.setInt16(50, 1, false);
+    }
+    tableData.set(tag, copy);
+  }
+
+  const tags = Array.from(tableData.keys()).sort();
+  const headerLength = 12 + tags.length * 16;
+  let totalLength = headerLength;
+  for (const tag of tags) {
+    totalLength += Math.ceil((tableData.get(tag) as Uint8Array).length / 4) * 4;
+  }
+
+  const output = new Uint8Array(totalLength);
+  const outputView = new DataView(output.buffer);
+  let entrySelector = 0;
+  while (2 ** (entrySelector + 1) <= tags.length) {
+    entrySelector += 1;
+  }
+  const searchRange = 2 ** entrySelector * 16;
+  outputView.setUint32(0, 0x00010000, false);
+  outputView.setUint16(4, tags.length, false);
+  outputView.setUint16(6, searchRange, false);
+  outputView.setUint16(8, entrySelector, false);
+  outputView.setUint16(10, tags.length * 16 - searchRange, false);
+
+  let tableOffset = headerLength;
+  let headOffset = -1;
+  tags.forEach((tag, index) => {
+    const bytes = tableData.get(tag) as Uint8Array;
+    const recordOffset = 12 + index * 16;
+    for (let charIndex = 0; charIndex < 4; charIndex += 1) {
+      output[recordOffset + charIndex] = tag.charCodeAt(charIndex);
+    }
+    outputView.setUint32(recordOffset + 4, computeTableChecksum(bytes), false);
+    outputView.setUint32(recordOffset + 8, tableOffset, false);
+    outputView.setUint32(recordOffset + 12, bytes.length, false);
+    output.set(bytes, tableOffset);
+    if (tag === 'head') {
+      headOffset = tableOffset;
+    }
+    tableOffset += Math.ceil(bytes.length / 4) * 4;
+  });
+
+  if (headOffset >= 0) {
+    const adjustment = (0xb1b0afba - computeTableChecksum(output)) >>> 0;
+    outputView.setUint32(headOffset + 8, adjustment, false);
+  }
+
+  return output;
+}
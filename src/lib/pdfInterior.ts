@@ -0,0 +1,937 @@
+import type { InteriorFormat } from '../types/book';
+import {
+  glyphIdForCodePoint,
+  measureTrueTypeText,
+  parseTrueTypeFont,
+  subsetTrueTypeFont,
+  type PdfFontFaceKey,
+  type PdfFontFaces,
+  type TrueTypeFont,
+} from './pdfFonts';
+
+// Maquetador PDF del interior impreso: pagina espejo, parrafos justificados y fuentes
+// TrueType incrustadas (subset) para conservar acentos, enie y signos de apertura.
+
+export interface PdfInlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface PdfBlock {
+  kind: 'paragraph' | 'list-item' | 'blockquote' | 'heading' | 'scene-break';
+  headingLevel?: number;
+  runs: PdfInlineRun[];
+}
+
+export interface PdfChapterInput {
+  label: string;
+  title: string;
+  blocks: PdfBlock[];
+}
+
+export interface TypesetPdfInput {
+  title: string;
+  subtitle?: string;
+  author: string;
+  language?: string;
+  pageWidthIn: number;
+  pageHeightIn: number;
+  interior: InteriorFormat;
+  chapters: PdfChapterInput[];
+  fonts?: PdfFontFaces | null;
+}
+
+export const PDF_BODY_FONT_SIZE = 11;
+
+const RUNNING_HEAD_FONT_SIZE = 8.5;
+const FOLIO_FONT_SIZE = 9;
+const CHAPTER_LABEL_FONT_SIZE = 10;
+const CHAPTER_TITLE_FONT_SIZE = 18;
+const TITLE_PAGE_FONT_SIZE = 24;
+const SYNTHETIC_ITALIC_SKEW = 0.21;
+const FACE_KEYS: PdfFontFaceKey[] = ['regular', 'bold', 'italic', 'boldItalic'];
+
+// Anchos AFM de Times-Roman para WinAnsi 32..255 (respaldo sin fuente incrustada).
+const TIMES_ROMAN_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889,
+  722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500,
+  444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480,
+  200, 480, 541, 500, 500, 500, 333, 500, 444, 1000, 500, 500, 333, 1000, 556, 333, 889, 500, 611, 500, 500, 333, 333,
+  444, 444, 350, 500, 1000, 333, 980, 389, 333, 722, 500, 444, 722, 250, 333, 500, 500, 500, 500, 200, 500, 333, 760,
+  276, 500, 564, 333, 760, 333, 400, 564, 300, 300, 333, 500, 453, 250, 333, 300, 310, 500, 750, 750, 750, 444, 722,
+  722, 722, 722, 722, 722, 889, 667, 611, 611, 611, 611, 333, 333, 333, 333, 722, 722, 722, 722, 722, 722, 722, 564,
+  722, 722, 722, 722, 722, 722, 556, 500, 444, 444, 444, 444, 444, 444, 667, 444, 444, 444, 444, 444, 278, 278, 278,
+  278, 500, 500, 500, 500, 500, 500, 500, 564, 500, 500, 500, 500, 500, 500, 500, 500,
+];
+
+const STANDARD_FONT_NAMES: Record<PdfFontFaceKey, string> = {
+  regular: 'Times-Roman',
+  bold: 'Times-Bold',
+  italic: 'Times-Italic',
+  boldItalic: 'Times-BoldItalic',
+};
+
+const WIN_ANSI_EXTRA: Record<number, number> = {
+  0x20ac: 128,
+  0x201a: 130,
+  0x0192: 131,
+  0x201e: 132,
+  0x2026: 133,
+  0x2020: 134,
+  0x2021: 135,
+  0x02c6: 136,
+  0x2030: 137,
+  0x0160: 138,
+  0x2039: 139,
+  0x0152: 140,
+  0x017d: 142,
+  0x2018: 145,
+  0x2019: 146,
+  0x201c: 147,
+  0x201d: 148,
+  0x2022: 149,
+  0x2013: 150,
+  0x2014: 151,
+  0x02dc: 152,
+  0x2122: 153,
+  0x0161: 154,
+  0x203a: 155,
+  0x0153: 156,
+  0x017e: 158,
+  0x0178: 159,
+};
+
+export function encodeWinAnsiCodePoint(codePoint: number): number {
+  if ((codePoint >= 32 && codePoint <= 126) || (codePoint >= 160 && codePoint <= 255)) {
+    return codePoint;
+  }
+  return WIN_ANSI_EXTRA[codePoint] ?? 63;
+}
+
+interface PdfFontSource {
+  resourceName: string;
+  capHeight: number;
+  measure: (text: string, size: number) => number;
+  encode: (text: string) => string;
+  writeObjects: (writer: PdfObjectWriter) => number;
+}
+
+interface PdfFace {
+  source: PdfFontSource;
+  syntheticBold: boolean;
+  syntheticItalic: boolean;
+}
+
+type PdfFaceSet = Record<PdfFontFaceKey, PdfFace>;
+
+interface PdfObjectWriter {
+  allocate: () => number;
+  set: (id: number, body: string) => void;
+  setStream: (id: number, dictionary: string, data: Uint8Array) => void;
+  build: (rootId: number, infoId: number) => Uint8Array;
+}
+
+function formatPdfNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    return '0';
+  }
+  const fixed = value.toFixed(2);
+  return fixed.replace(/\.?0+$/, '') || '0';
+}
+
+function escapePdfLiteralBytes(bytes: number[]): string {
+  return bytes
+    .map((byte) => {
+      if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+        return `\\${String.fromCharCode(byte)}`;
+      }
+      if (byte < 32 || byte > 126) {
+        return `\\${byte.toString(8).padStart(3, '0')}`;
+      }
+      return String.fromCharCode(byte);
+    })
+    .join('');
+}
+
+function encodeUtf16Hex(value: string): string {
+  let hex = 'FEFF';
+  for (let index = 0; index < value.length; index += 1) {
+    hex += value.charCodeAt(index).toString(16).toUpperCase().padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+function createPdfObjectWriter(): PdfObjectWriter {
+  const encoder = new TextEncoder();
+  const objects = new Map<number, Uint8Array[]>();
+  let nextId = 1;
+
+  return {
+    allocate: () => {
+      const id = nextId;
+      nextId += 1;
+      return id;
+    },
+    set: (id, body) => {
+      objects.set(id, [encoder.encode(`${id} 0 obj\n${body}\nendobj\n`)]);
+    },
+    setStream: (id, dictionary, data) => {
+      objects.set(id, [
+        encoder.encode(`${id} 0 obj\n${dictionary.replace(/>>\s*$/, '')} /Length ${data.length} >>\nstream\n`),
+        data,
+        encoder.encode('\nendstream\nendobj\n'),
+      ]);
+    },
+    build: (rootId, infoId) => {
+      const header = new Uint8Array([
+        ...encoder.encode('%PDF-1.4\n%'),
+        0xe2,
+        0xe3,
+        0xcf,
+        0xd3,
+        0x0a,
+      ]);
+      const chunks: Uint8Array[] = [header];
+      const offsets = new Array<number>(nextId).fill(0);
+      let length = header.length;
+      for (let id = 1; id < nextId; id += 1) {
+        const parts = objects.get(id);
+        if (!parts) {
+          continue;
+        }
+        offsets[id] = length;
+        for (const part of parts) {
+          chunks.push(part);
+          length += part.length;
+        }
+      }
+
+      let xref = `xref\n0 ${nextId}\n0000000000 65535 f \n`;
+      for (let id = 1; id < nextId; id += 1) {
+        xref +=
+          offsets[id] > 0 ? `${offsets[id].toString().padStart(10, '0')} 00000 n \n` : '0000000000 65535 f \n';
+      }
+      xref += `trailer\n<< /Size ${nextId} /Root ${rootId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${length}\n%%EOF`;
+      chunks.push(encoder.encode(xref));
+
+      const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+      let cursor = 0;
+      for (const chunk of chunks) {
+        output.set(chunk, cursor);
+        cursor += chunk.length;
+      }
+      return output;
+    },
+  };
+}
+
+function buildSubsetTag(seed: string): string {
+  let hash = 2166136261;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  let tag = '';
+  for (let index = 0; index < 6; index += 1) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26) + index * 7919;
+  }
+  return tag;
+}
+
+function buildToUnicodeCMap(glyphToCodePoint: Map<number, number>): string {
+  const entries = Array.from(glyphToCodePoint.entries()).sort((left, right) => left[0] - right[0]);
+  const sections: string[] = [];
+  for (let index = 0; index < entries.length; index += 100) {
+    const group = entries.slice(index, index + 100);
+    sections.push(`${group.length} beginbfchar`);
+    for (const [glyphId, codePoint] of group) {
+      const unicode = String.fromCodePoint(codePoint);
+      let unicodeHex = '';
+      for (let unitIndex = 0; unitIndex < unicode.length; unitIndex += 1) {
+        unicodeHex += unicode.charCodeAt(unitIndex).toString(16).toUpperCase().padStart(4, '0');
+      }
+      sections.push(`<${glyphId.toString(16).toUpperCase().padStart(4, '0')}> <${unicodeHex}>`);
+    }
+    sections.push('endbfchar');
+  }
+
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...sections,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+function createEmbeddedFontSource(font: TrueTypeFont, resourceName: string, faceKey: PdfFontFaceKey): PdfFontSource {
+  const usedGlyphs = new Map<number, number>();
+  const scale = 1000 / font.unitsPerEm;
+
+  return {
+    resourceName,
+    capHeight: font.capHeight * scale,
+    measure: (text, size) => measureTrueTypeText(font, text, size),
+    encode: (text) => {
+      let hex = '';
+      for (const char of text) {
+        const codePoint = char.codePointAt(0) ?? 0;
+        const glyphId = glyphIdForCodePoint(font, codePoint);
+        if (glyphId > 0 && !usedGlyphs.has(glyphId)) {
+          usedGlyphs.set(glyphId, codePoint);
+        }
+        hex += glyphId.toString(16).toUpperCase().padStart(4, '0');
+      }
+      return `<${hex}>`;
+    },
+    writeObjects: (writer) => {
+      const glyphIds = Array.from(usedGlyphs.keys()).sort((left, right) => left - right);
+      const subset = subsetTrueTypeFont(font, glyphIds);
+      const baseFont = `${buildSubsetTag(`${font.postScriptName}:${faceKey}:${glyphIds.join(',')}`)}+${font.postScriptName}`;
+      const fontFileId = writer.allocate();
+      const descriptorId = writer.allocate();
+      const cidFontId = writer.allocate();
+      const toUnicodeId = writer.allocate();
+      const type0Id = writer.allocate();
+      const widths = glyphIds
+        .map((glyphId) => `${glyphId} [${Math.round((font.advanceWidths[glyphId] ?? 0) * scale)}]`)
+        .join(' ');
+      const flags = 32 | 2 | (font.isItalic || font.italicAngle !== 0 ? 64 : 0);
+      const bbox = font.bbox.map((value) => Math.round(value * scale)).join(' ');
+
+      writer.setStream(fontFileId, `<< /Length1 ${subset.length} >>`, subset);
+      writer.set(
+        descriptorId,
+        `<< /Type /FontDescriptor /FontName /${baseFont} /Flags ${flags} /FontBBox [${bbox}] /ItalicAngle ${formatPdfNumber(font.italicAngle)} /Ascent ${Math.round(font.ascent * scale)} /Descent ${Math.round(font.descent * scale)} /CapHeight ${Math.round(font.capHeight * scale)} /StemV ${font.isBold ? 140 : 80} /FontFile2 ${fontFileId} 0 R >>`,
+      );
+      writer.set(
+        cidFontId,
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptorId} 0 R /DW ${Math.round((font.advanceWidths[0] ?? 0) * scale)} /W [${widths}] /CIDToGIDMap /Identity >>`,
+      );
+      writer.setStream(toUnicodeId, '<< >>', new TextEncoder().encode(buildToUnicodeCMap(usedGlyphs)));
+      writer.set(
+        type0Id,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`,
+      );
+      return type0Id;
+    },
+  };
+}
+
+function createStandardFontSource(faceKey: PdfFontFaceKey, resourceName: string): PdfFontSource {
+  return {
+    resourceName,
+    capHeight: 662,
+    measure: (text, size) => {
+      let units = 0;
+      for (const char of text) {
+        const byte = encodeWinAnsiCodePoint(char.codePointAt(0) ?? 0);
+        units += TIMES_ROMAN_WIDTHS[byte - 32] ?? 500;
+      }
+      return (units / 1000) * size;
+    },
+    encode: (text) => {
+      const bytes = Array.from(text).map((char) => encodeWinAnsiCodePoint(char.codePointAt(0) ?? 0));
+      return `(${escapePdfLiteralBytes(bytes)})`;
+    },
+    writeObjects: (writer) => {
+      const id = writer.allocate();
+      // Se fijan los anchos para que el avance del visor coincida con la medicion del maquetador.
+      writer.set(
+        id,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${STANDARD_FONT_NAMES[faceKey]} /Encoding /WinAnsiEncoding /FirstChar 32 /LastChar 255 /Widths [${TIMES_ROMAN_WIDTHS.join(' ')}] >>`,
+      );
+      return id;
+    },
+  };
+}
+
+function tryParseFont(data: Uint8Array | null | undefined): TrueTypeFont | null {
+  if (!data || data.length === 0) {
+    return null;
+  }
+  try {
+    return parseTrueTypeFont(data);
+  } catch {
+    return null;
+  }
+}
+
+function resolveFaceSet(fonts: PdfFontFaces | null | undefined): { faces: PdfFaceSet; sources: PdfFontSource[] } {
+  const regular = tryParseFont(fonts?.regular);
+  if (!regular) {
+    const sources = FACE_KEYS.map((faceKey, index) => createStandardFontSource(faceKey, `F${index + 1}`));
+    const faces = {} as PdfFaceSet;
+    FACE_KEYS.forEach((faceKey, index) => {
+      faces[faceKey] = { source: sources[index], syntheticBold: false, syntheticItalic: false };
+    });
+    return { faces, sources };
+  }
+
+  const sources: PdfFontSource[] = [];
+  const bySource = new Map<PdfFontFaceKey, PdfFontSource>();
+  for (const faceKey of FACE_KEYS) {
+    const parsed = faceKey === 'regular' ? regular : tryParseFont(fonts?.[faceKey]);
+    if (!parsed) {
+      continue;
+    }
+    const source = createEmbeddedFontSource(parsed, `F${sources.length + 1}`, faceKey);
+    sources.push(source);
+    bySource.set(faceKey, source);
+  }
+
+  const regularSource = bySource.get('regular') as PdfFontSource;
+  const boldSource = bySource.get('bold');
+  const italicSource = bySource.get('italic');
+  const boldItalicSource = bySource.get('boldItalic');
+  const faces: PdfFaceSet = {
+    regular: { source: regularSource, syntheticBold: false, syntheticItalic: false },
+    bold: { source: boldSource ?? regularSource, syntheticBold: !boldSource, syntheticItalic: false },
+    italic: { source: italicSource ?? regularSource, syntheticBold: false, syntheticItalic: !italicSource },
+    boldItalic: boldItalicSource
+      ? { source: boldItalicSource, syntheticBold: false, syntheticItalic: false }
+      : italicSource
+        ? { source: italicSource, syntheticBold: true, syntheticItalic: false }
+        : { source: boldSource ?? regularSource, syntheticBold: !boldSource, syntheticItalic: true },
+  };
+
+  return { faces, sources };
+}
+
+function resolveFaceKey(bold: boolean | undefined, italic: boolean | undefined): PdfFontFaceKey {
+  if (bold && italic) {
+    return 'boldItalic';
+  }
+  if (bold) {
+    return 'bold';
+  }
+  return italic ? 'italic' : 'regular';
+}
+
+function normalizePdfText(value: string): string {
+  return Array.from(value)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      return code < 32 || code === 127 ? ' ' : char;
+    })
+    .join('');
+}
+
+interface PdfWordPiece {
+  text: string;
+  face: PdfFontFaceKey;
+}
+
+type PdfWord = PdfWordPiece[];
+
+function splitRunsIntoWords(runs: PdfInlineRun[], forcedFace?: PdfFontFaceKey): PdfWord[] {
+  const words: PdfWord[] = [];
+  let current: PdfWord = [];
+  const flush = () => {
+    if (current.length > 0) {
+      words.push(current);
+      current = [];
+    }
+  };
+
+  for (const run of runs) {
+    const face = forcedFace ?? resolveFaceKey(run.bold, run.italic);
+    for (const token of normalizePdfText(run.text).split(/([ \t\n]+)/)) {
+      if (!token) {
+        continue;
+      }
+      if (/^[ \t\n]+$/.test(token)) {
+        flush();
+        continue;
+      }
+      const last = current[current.length - 1];
+      if (last && last.face === face) {
+        last.text += token;
+      } else {
+        current.push({ text: token, face });
+      }
+    }
+  }
+  flush();
+
+  return words;
+}
+
+interface PdfTextLine {
+  words: PdfWord[];
+  naturalWidth: number;
+  available: number;
+  offset: number;
+}
+
+interface PdfPageDraft {
+  kind: 'title' | 'blank' | 'opening' | 'body';
+  runningHead: string;
+  ops: string[];
+}
+
+export function buildTypesetPdf(input: TypesetPdfInput): Uint8Array {
+  const { faces, sources } = resolveFaceSet(input.fonts);
+  const interior = input.interior;
+  const pageWidth = Math.max(144, input.pageWidthIn * 72);
+  const pageHeight = Math.max(216, input.pageHeightIn * 72);
+  const mmToPoints = (value: number) => (Math.max(0, value) / 25.4) * 72;
+  const marginTop = mmToPoints(interior.marginTopMm);
+  const marginBottom = mmToPoints(interior.marginBottomMm);
+  const marginInside = mmToPoints(interior.marginInsideMm);
+  const marginOutside = mmToPoints(interior.marginOutsideMm);
+  const textWidth = Math.max(120, pageWidth - marginInside - marginOutside);
+  const textTop = pageHeight - marginTop;
+  const fontSize = PDF_BODY_FONT_SIZE;
+  const leading = fontSize * Math.min(2.5, Math.max(1.1, interior.lineHeight || 1.5));
+  const paragraphIndent = Math.max(0, interior.paragraphIndentEm) * fontSize;
+  const useDropCap = interior.dropCapEnabled || interior.chapterOpeningStyle === 'dropcap';
+  const sceneBreakGlyph = interior.sceneBreakGlyph.trim() || '* * *';
+  const pages: PdfPageDraft[] = [];
+  let cursorTop = textTop;
+
+  const measureWord = (word: PdfWord, size: number) =>
+    word.reduce((total, piece) => total + faces[piece.face].source.measure(piece.text, size), 0);
+  const spaceWidthFor = (size: number) => faces.regular.source.measure(' ', size);
+  const leftMarginFor = (pageIndex: number) => (pageIndex % 2 === 0 ? marginInside : marginOutside);
+  const currentPage = () => pages[pages.length - 1];
+
+  const openPage = (kind: PdfPageDraft['kind'], runningHead = '') => {
+    pages.push({ kind, runningHead, ops: [] });
+    cursorTop = textTop;
+  };
+
+  const drawPieces = (
+    page: PdfPageDraft,
+    pieces: Array<{ text: string; face: PdfFontFaceKey; gapAfter?: number }>,
+    x: number,
+    baseline: number,
+    size: number,
+  ) => {
+    const ops: string[] = ['BT'];
+    let cursorX = x;
+    let activeFace: PdfFace | null = null;
+    let array: string[] = [];
+    let pendingText = '';
+    const flushText = () => {
+      if (pendingText && activeFace) {
+        array.push(activeFace.source.encode(pendingText));
+      }
+      pendingText = '';
+    };
+    const flushArray = () => {
+      flushText();
+      if (array.length > 0) {
+        ops.push(`[${array.join(' ')}] TJ`);
+        array = [];
+      }
+    };
+
+    for (const piece of pieces) {
+      const face = faces[piece.face];
+      if (face !== activeFace) {
+        flushArray();
+        ops.push(`/${face.source.resourceName} ${formatPdfNumber(size)} Tf`);
+        ops.push(face.syntheticBold ? `2 Tr ${formatPdfNumber(size * 0.03)} w` : '0 Tr');
+        ops.push(
+          `1 0 ${face.syntheticItalic ? SYNTHETIC_ITALIC_SKEW : 0} 1 ${formatPdfNumber(cursorX)} ${formatPdfNumber(baseline)} Tm`,
+        );
+        activeFace = face;
+      }
+      pendingText += piece.text;
+      cursorX += face.source.measure(piece.text, size);
+      if (piece.gapAfter && Math.abs(piece.gapAfter) > 0.001) {
+        flushText();
+        array.push(formatPdfNumber((-piece.gapAfter * 1000) / size));
+        cursorX += piece.gapAfter;
+      }
+    }
+    flushArray();
+    ops.push('ET');
+    page.ops.push(ops.join('\n'));
+  };
+
+  const drawCentered = (page: PdfPageDraft, pageIndex: number, text: string, face: PdfFontFaceKey, size: number, baseline: number) => {
+    const width = faces[face].source.measure(text, size);
+    const x = leftMarginFor(pageIndex) + Math.max(0, (textWidth - width) / 2);
+    drawPieces(page, [{ text, face }], x, baseline, size);
+  };
+
+  const drawLine = (line: PdfTextLine, baseline: number, size: number, justify: boolean, align: 'left' | 'center' = 'left') => {
+    const page = currentPage();
+    const pageIndex = pages.length - 1;
+    const spaceWidth = spaceWidthFor(size);
+    const gaps = line.words.length - 1;
+    const extra = justify && gaps > 0 ? Math.max(0, (line.available - line.naturalWidth) / gaps) : 0;
+    const offset = align === 'center' ? Math.max(0, (line.available - line.naturalWidth) / 2) : 0;
+    const pieces: Array<{ text: string; face: PdfFontFaceKey; gapAfter?: number }> = [];
+    line.words.forEach((word, wordIndex) => {
+      word.forEach((piece, pieceIndex) => {
+        if (pieceIndex < word.length - 1 || wordIndex === line.words.length - 1) {
+          pieces.push({ text: piece.text, face: piece.face });
+          return;
+        }
+        // El espacio se dibuja con la cara de la pieza; el hueco se iguala al espacio regular.
+        pieces.push({
+          text: `${piece.text} `,
+          face: piece.face,
+          gapAfter: extra + spaceWidth - faces[piece.face].source.measure(' ', size),
+        });
+      });
+    });
+    if (pieces.length === 0) {
+      return;
+    }
+    drawPieces(page, pieces, leftMarginFor(pageIndex) + line.offset + offset, baseline, size);
+  };
+
+  const breakLines = (words: PdfWord[], size: number, widthFor: (lineIndex: number) => { available: number; offset: number }) => {
+    const lines: PdfTextLine[] = [];
+    const spaceWidth = spaceWidthFor(size);
+    let current: PdfTextLine | null = null;
+    const startLine = () => {
+      const geometry = widthFor(lines.length);
+      current = { words: [], naturalWidth: 0, available: geometry.available, offset: geometry.offset };
+      return current;
+    };
+
+    for (const word of words) {
+      const width = measureWord(word, size);
+      let line: PdfTextLine = current ?? startLine();
+      const needed = line.words.length > 0 ? spaceWidth + width : width;
+      if (line.words.length > 0 && line.naturalWidth + needed > line.available) {
+        lines.push(line);
+        line = startLine();
+      }
+
+      if (line.words.length === 0 && width > line.available) {
+        // Palabra mas ancha que la caja: se corta por caracteres para no invadir el margen.
+        let buffer: PdfWord = [];
+        let bufferWidth = 0;
+        for (const piece of word) {
+          for (const char of piece.text) {
+            const charWidth = faces[piece.face].source.measure(char, size);
+            if (bufferWidth + charWidth > line.available && buffer.length > 0) {
+              line.words.push(buffer);
+              line.naturalWidth = bufferWidth;
+              lines.push(line);
+              line = startLine();
+              buffer = [];
+              bufferWidth = 0;
+            }
+            const last = buffer[buffer.length - 1];
+            if (last && last.face === piece.face) {
+              last.text += char;
+            } else {
+              buffer.push({ text: char, face: piece.face });
+            }
+            bufferWidth += charWidth;
+          }
+        }
+        line.words.push(buffer);
+        line.naturalWidth = bufferWidth;
+        continue;
+      }
+
+      line.naturalWidth += line.words.length > 0 ? spaceWidth + width : width;
+      line.words.push(word);
+    }
+
+    if (current && (current as PdfTextLine).words.length > 0) {
+      lines.push(current);
+    }
+    return lines;
+  };
+
+  const ensureRoom = (height: number, runningHead: string) => {
+    if (cursorTop - height < marginBottom - 0.01) {
+      openPage('body', runningHead);
+    }
+  };
+
+  // Coloca lineas respetando viudas/huerfanas: nunca deja 1 linea sola al pie ni al inicio de pagina.
+  const placeLines = (
+    lines: PdfTextLine[],
+    runningHead: string,
+    options: { size: number; justify: boolean; align?: 'left' | 'center'; minimumLines?: number },
+  ) => {
+    let index = 0;
+    const total = lines.length;
+    while (index < total) {
+      const remaining = total - index;
+      const capacity = Math.floor((cursorTop - marginBottom + 0.01) / leading);
+      let take = Math.min(remaining, Math.max(0, capacity));
+      if (interior.widowOrphanControl && take < remaining) {
+        if (remaining - take < 2) {
+          take = remaining - 2;
+        }
+        if (take < 2) {
+          take = 0;
+        }
+      }
+      if (index === 0 && options.minimumLines && take < Math.min(options.minimumLines, remaining)) {
+        take = 0;
+      }
+      if (take === 0) {
+        if (cursorTop >= textTop - 0.01) {
+          take = Math.max(1, Math.min(remaining, capacity));
+        } else {
+          openPage('body', runningHead);
+          continue;
+        }
+      }
+
+      for (let step = 0; step < take; step += 1) {
+        const line = lines[index + step];
+        const isParagraphEnd = index + step === total - 1;
+        drawLine(line, cursorTop - leading * 0.78, options.size, options.justify && !isParagraphEnd, options.align);
+        cursorTop -= leading;
+      }
+      index += take;
+      if (index < total) {
+        openPage('body', runningHead);
+      }
+    }
+  };
+
+  const placeTitlePage = () => {
+    openPage('title');
+    const page = currentPage();
+    const titleWords = splitRunsIntoWords([{ text: input.title.trim() || 'Sin titulo' }], 'bold');
+    const titleLines = breakLines(titleWords, TITLE_PAGE_FONT_SIZE, () => ({ available: textWidth, offset: 0 }));
+    let baseline = pageHeight * 0.66;
+    for (const line of titleLines) {
+      drawLine(line, baseline, TITLE_PAGE_FONT_SIZE, false, 'center');
+      baseline -= TITLE_PAGE_FONT_SIZE * 1.25;
+    }
+    const subtitle = input.subtitle?.trim();
+    if (subtitle) {
+      baseline -= 6;
+      for (const line of breakLines(splitRunsIntoWords([{ text: subtitle }], 'italic'), 13, () => ({ available: textWidth, offset: 0 }))) {
+        drawLine(line, baseline, 13, false, 'center');
+        baseline -= 13 * 1.3;
+      }
+    }
+    if (input.author.trim()) {
+      drawCentered(page, 0, input.author.trim(), 'regular', 14, pageHeight * 0.38);
+    }
+    openPage('blank');
+  };
+
+  const placeChapterOpening = (chapter: PdfChapterInput) => {
+    openPage('opening', chapter.title);
+    const pageIndex = pages.length - 1;
+    const page = currentPage();
+    cursorTop = textTop - (textTop - marginBottom) * 0.22;
+    if (chapter.label.trim()) {
+      drawCentered(page, pageIndex, chapter.label.trim(), 'regular', CHAPTER_LABEL_FONT_SIZE, cursorTop - CHAPTER_LABEL_FONT_SIZE);
+      cursorTop -= CHAPTER_LABEL_FONT_SIZE * 2.4;
+    }
+    const titleLines = breakLines(splitRunsIntoWords([{ text: chapter.title }]), CHAPTER_TITLE_FONT_SIZE, () => ({
+      available: textWidth * 0.86,
+      offset: textWidth * 0.07,
+    }));
+    for (const line of titleLines) {
+      drawLine(line, cursorTop - CHAPTER_TITLE_FONT_SIZE, CHAPTER_TITLE_FONT_SIZE, false, 'center');
+      cursorTop -= CHAPTER_TITLE_FONT_SIZE * 1.3;
+    }
+    if (interior.chapterOpeningStyle === 'ornamental') {
+      cursorTop -= leading * 0.5;
+      drawCentered(page, pageIndex, sceneBreakGlyph, 'regular', fontSize, cursorTop - fontSize);
+      cursorTop -= leading;
+    }
+    cursorTop -= leading * 1.5;
+  };
+
+  const placeParagraph = (
+    runs: PdfInlineRun[],
+    runningHead: string,
+    options: { indentFirst: boolean; dropCap: boolean; inset?: number; bullet?: boolean },
+  ) => {
+    const words = splitRunsIntoWords(runs);
+    if (words.length === 0) {
+      return;
+    }
+
+    const inset = options.inset ?? 0;
+    const bulletIndent = options.bullet ? fontSize * 1.2 : 0;
+    let dropCapText = '';
+    let dropCapWidth = 0;
+    let dropCapSize = 0;
+    const firstPiece = words[0][0];
+    if (options.dropCap && firstPiece && /^\p{L}/u.test(firstPiece.text)) {
+      dropCapText = Array.from(firstPiece.text)[0];
+      firstPiece.text = firstPiece.text.slice(dropCapText.length);
+      if (!firstPiece.text) {
+        words[0].shift();
+        if (words[0].length === 0) {
+          words.shift();
+        }
+      }
+      const capHeight = faces.regular.source.capHeight / 1000;
+      dropCapSize = (leading + capHeight * fontSize) / capHeight;
+      dropCapWidth = faces.regular.source.measure(dropCapText, dropCapSize) + fontSize * 0.3;
+    }
+
+    const lines = breakLines(words, fontSize, (lineIndex) => {
+      if (dropCapText && lineIndex < 2) {
+        return { available: textWidth - dropCapWidth, offset: dropCapWidth };
+      }
+      const firstIndent = lineIndex === 0 && options.indentFirst ? paragraphIndent : 0;
+      const left = inset + bulletIndent + firstIndent;
+      return { available: textWidth - left - inset, offset: left };
+    });
+
+    if (dropCapText) {
+      while (lines.length < 2) {
+        lines.push({ words: [], naturalWidth: 0, available: textWidth - dropCapWidth, offset: dropCapWidth });
+      }
+      ensureRoom(leading * 2, runningHead);
+      const pageIndex = pages.length - 1;
+      drawPieces(
+        currentPage(),
+        [{ text: dropCapText, face: 'regular' }],
+        leftMarginFor(pageIndex),
+        cursorTop - leading * 0.78 - leading,
+        dropCapSize,
+      );
+    }
+
+    if (options.bullet) {
+      ensureRoom(leading * (interior.widowOrphanControl ? Math.min(2, lines.length) : 1), runningHead);
+      const pageIndex = pages.length - 1;
+      drawPieces(currentPage(), [{ text: '•', face: 'regular' }], leftMarginFor(pageIndex) + inset + fontSize * 0.3, cursorTop - leading * 0.78, fontSize);
+    }
+
+    placeLines(lines, runningHead, { size: fontSize, justify: true, minimumLines: dropCapText ? 2 : undefined });
+  };
+
+  const placeHeading = (runs: PdfInlineRun[], level: number, runningHead: string) => {
+    const size = level <= 1 ? 15 : level === 2 ? 13.5 : 12;
+    const words = splitRunsIntoWords(runs, 'bold');
+    if (words.length === 0) {
+      return;
+    }
+    const lines = breakLines(words, size, () => ({ available: textWidth, offset: 0 }));
+    const headingLeading = size * 1.3;
+    // Mantiene el titulo junto con al menos dos lineas del texto que sigue.
+    ensureRoom(leading * 0.8 + headingLeading * lines.length + leading * 2, runningHead);
+    if (cursorTop < textTop - 0.01) {
+      cursorTop -= leading * 0.8;
+    }
+    for (const line of lines) {
+      drawLine(line, cursorTop - size, size, false);
+      cursorTop -= headingLeading;
+    }
+    cursorTop -= leading * 0.4;
+  };
+
+  placeTitlePage();
+
+  for (const chapter of input.chapters) {
+    placeChapterOpening(chapter);
+    let afterBreak = true;
+    let isFirstParagraph = true;
+    for (const block of chapter.blocks) {
+      if (block.kind === 'scene-break') {
+        ensureRoom(leading * 3, chapter.title);
+        const pageIndex = pages.length - 1;
+        drawCentered(currentPage(), pageIndex, sceneBreakGlyph, 'regular', fontSize, cursorTop - leading - leading * 0.78);
+        cursorTop -= leading * 3;
+        afterBreak = true;
+        continue;
+      }
+
+      if (block.kind === 'heading') {
+        placeHeading(block.runs, block.headingLevel ?? 2, chapter.title);
+        afterBreak = true;
+        continue;
+      }
+
+      if (block.kind === 'blockquote') {
+        cursorTop -= leading * 0.4;
+        placeParagraph(block.runs, chapter.title, { indentFirst: false, dropCap: false, inset: fontSize * 1.5 });
+        cursorTop -= leading * 0.4;
+        afterBreak = true;
+        continue;
+      }
+
+      placeParagraph(block.runs, chapter.title, {
+        indentFirst: !afterBreak && block.kind === 'paragraph',
+        dropCap: useDropCap && isFirstParagraph && block.kind === 'paragraph',
+        bullet: block.kind === 'list-item',
+      });
+      afterBreak = false;
+      isFirstParagraph = false;
+    }
+  }
+
+  const truncateToWidth = (text: string, size: number) => {
+    const source = faces.italic.source;
+    if (source.measure(text, size) <= textWidth) {
+      return text;
+    }
+    let chars = Array.from(text);
+    while (chars.length > 1 && source.measure(`${chars.join('')}…`, size) > textWidth) {
+      chars = chars.slice(0, -1);
+    }
+    return `${chars.join('').trimEnd()}…`;
+  };
+
+  pages.forEach((page, pageIndex) => {
+    if (page.kind === 'title' || page.kind === 'blank') {
+      return;
+    }
+    if (page.kind === 'body') {
+      // Verso: autor; recto: capitulo.
+      const head = pageIndex % 2 === 1 ? input.author.trim() || input.title.trim() : page.runningHead;
+      if (head) {
+        const headBaseline = textTop + Math.min(marginTop * 0.5, 18);
+        drawCentered(page, pageIndex, truncateToWidth(head, RUNNING_HEAD_FONT_SIZE), 'italic', RUNNING_HEAD_FONT_SIZE, headBaseline);
+      }
+    }
+    drawCentered(page, pageIndex, String(pageIndex + 1), 'regular', FOLIO_FONT_SIZE, Math.max(12, marginBottom * 0.45));
+  });
+
+  const writer = createPdfObjectWriter();
+  const catalogId = writer.allocate();
+  const pagesId = writer.allocate();
+  const infoId = writer.allocate();
+  const pageIds = pages.map(() => writer.allocate());
+  const contentIds = pages.map(() => writer.allocate());
+  const encoder = new TextEncoder();
+  const mediaBox = `[0 0 ${formatPdfNumber(pageWidth)} ${formatPdfNumber(pageHeight)}]`;
+
+  pages.forEach((page, index) => {
+    writer.setStream(contentIds[index], '<< >>', encoder.encode(page.ops.join('\n')));
+  });
+
+  const fontEntries = sources.map((source) => `/${source.resourceName} ${source.writeObjects(writer)} 0 R`).join(' ');
+  pages.forEach((_page, index) => {
+    writer.set(
+      pageIds[index],
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox ${mediaBox} /TrimBox ${mediaBox} /Resources << /Font << ${fontEntries} >> >> /Contents ${contentIds[index]} 0 R >>`,
+    );
+  });
+  writer.set(pagesId, `<< /Type /Pages /Count ${pages.length} /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] >>`);
+  const language = (input.language ?? '').replace(/[^A-Za-z-]/g, '');
+  writer.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R${language ? ` /Lang (${language})` : ''} >>`);
+  writer.set(
+    infoId,
+    `<< /Title ${encodeUtf16Hex(input.title)} /Author ${encodeUtf16Hex(input.author)} /Producer (WriteWMe) /Creator (WriteWMe) >>`,
+  );
+
+  return writer.build(catalogId, infoId);
+}
@@ -1,4 +1,11 @@
-import type { SagaProject, SagaTimelineEvent, SagaWorldRelationship } from '../types/book';
+import type {
+  ChapterDocument,
+  SagaProject,
+  SagaTimelineChapterRefMode,
+  SagaTimelineEvent,
+  SagaWorldRelationship,
+} from '../types/book';
+import { normalizePath } from './text';
 
 export interface PlotArcStep {
   eventId: string;
@@ -43,6 +50,23 @@ export interface PlotBoardModel {
   characterArc: PlotCharacterArcBeat[];
 }
 
+// Capitulo que realiza un paso del arco: por referencia del evento o por una escena enlazada.
+export interface PlotStepChapterLink {
+  bookPath: string;
+  chapterId: string;
+  title: string;
+  source: 'reference' | 'scene';
+  mode: SagaTimelineChapterRefMode | null;
+  inOpenBook: boolean;
+}
+
+export interface PlotChapterDraft {
+  title: string;
+  synopsis: string;
+  pointOfView: string;
+  seedText: string;
+}
+
 export function plotEventTouchesCharacter(event: SagaTimelineEvent, characterId: string): boolean {
   return (
     event.characterImpacts.some((impact) => impact.characterId === characterId) ||
@@ -206,3 +230,91 @@ export function buildPlotBoardModel(
     characterArc,
   };
 }
+
+function normalizeBookPath(path: string): string {
+  return normalizePath(path).replace(/\/$/, '');
+}
+
+export function buildPlotChapterCoverage(
+  events: SagaTimelineEvent[],
+  bookPath: string | null,
+  chapters: ChapterDocument[],
+): Record<string, PlotStepChapterLink[]> {
+  const currentBookPath = bookPath ? normalizeBookPath(bookPath) : '';
+  const chaptersById = new Map(chapters.map((chapter) => [chapter.id, chapter]));
+  const coverage: Record<string, PlotStepChapterLink[]> = {};
+  const push = (eventId: string, link: PlotStepChapterLink) => {
+    const links = (coverage[eventId] ??= []);
+    if (!links.some((entry) => entry.chapterId === link.chapterId && normalizeBookPath(entry.bookPath) === normalizeBookPath(link.bookPath))) {
+      links.push(link);
+    }
+  };
+
+  for (const event of events) {
+    for (const reference of event.bookRefs) {
+      if (!reference.chapterId.trim()) {
+        continue;
+      }
+      const isCurrentBook = Boolean(currentBookPath) && normalizeBookPath(reference.bookPath) === currentBookPath;
+      const chapter = isCurrentBook ? chaptersById.get(reference.chapterId) : undefined;
+      // Las referencias a capitulos borrados del libro abierto no cuentan como cobertura.
+      if (isCurrentBook && !chapter) {
+        continue;
+      }
+      push(event.id, {
+        bookPath: reference.bookPath,
+        chapterId: reference.chapterId,
+        title: chapter?.title ?? reference.chapterId,
+        source: 'reference',
+        mode: reference.mode,
+        inOpenBook: isCurrentBook,
+      });
+    }
+  }
+
+  if (bookPath) {
+    for (const chapter of chapters) {
+      for (const scene of chapter.scenes ?? []) {
+        if (scene.timelineEventId) {
+          push(scene.timelineEventId, { bookPath, chapterId: chapter.id, title: chapter.title, source: 'scene', mode: null, inOpenBook: true });
+        }
+      }
+    }
+  }
+
+  return coverage;
+}
+
+// POV sugerido: el personaje filtrado si el evento lo toca; si no, el primer personaje impactado.
+export function buildPlotChapterDraft(
+  event: SagaTimelineEvent,
+  characters: Array<{ id: string; name: string }>,
+  preferredCharacterId = '',
+): PlotChapterDraft {
+  const povId =
+    preferredCharacterId && plotEventTouchesCharacter(event, preferredCharacterId)
+      ? preferredCharacterId
+      : event.characterImpacts[0]?.characterId ?? '';
+  const seedTextParts = [
+    'Escena creada desde PlotBoard.',
+    event.summary.trim() ? `Resumen del paso:\n${event.summary.trim()}` : '',
+    event.notes.trim() ? `Notas de continuidad:\n${event.notes.trim()}` : '',
+  ].filter(Boolean);
+
+  return {
+    title: event.title.trim() || event.displayLabel.trim() || `Escena ${event.startOrder}`,
+    synopsis: event.summary.trim(),
+    pointOfView: characters.find((character) => character.id === povId)?.name.trim() ?? '',
+    seedText: seedTextParts.join('\n\n'),
+  };
+}
+
+export function linkPlotEventToChapter(event: SagaTimelineEvent, bookPath: string, chapterId: string): SagaTimelineEvent {
+  const alreadyLinked = event.bookRefs.some(
+    (reference) => reference.chapterId === chapterId && normalizeBookPath(reference.bookPath) === normalizeBookPath(bookPath),
+  );
+  if (alreadyLinked) {
+    return event;
+  }
+  return { ...event, bookRefs: [...event.bookRefs, { bookPath, chapterId, mode: 'occurs' }] };
+}
@@ -0,0 +1,151 @@
+import type { PronunciationEntry, SagaProject, StoryBible } from '../types/book';
+import { randomId } from './text';
+
+// Diccionario de pronunciacion: nombres inventados y terminos de conlang se reescriben foneticamente
+// (o como <phoneme> SSML si hay IPA) antes de pasar el texto al motor de voz.
+
+const WORD_CHAR_PATTERN = '[\\p{L}\\p{N}]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function normalizeTermKey(term: string): string {
+  return term.trim().toLocaleLowerCase();
+}
+
+function splitAliases(value: string): string[] {
+  return value
+    .split(/[,;\n]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+// Las notas de conlang suelen traer la pronunciacion entre barras: "/ˈkaɾ.ne/".
+function extractIpaFromNotes(notes: string): string {
+  const match = notes.match(/\/([^/\n]{1,60})\//);
+  return match ? match[1].trim() : '';
+}
+
+export function isPronunciationEntryActive(entry: PronunciationEntry): boolean {
+  return Boolean(entry.term.trim() && (entry.respelling.trim() || entry.ipa.trim()));
+}
+
+// Propone entradas (sin respelling) para nombres de personajes, alias y lexico de conlang que aun no estan.
+export function buildPronunciationSeedEntries(
+  storyBible: StoryBible,
+  saga: SagaProject | null,
+  existing: PronunciationEntry[],
+): PronunciationEntry[] {
+  const known = new Set(existing.map((entry) => normalizeTermKey(entry.term)));
+  const seeds: PronunciationEntry[] = [];
+  const push = (term: string, source: PronunciationEntry['source'], ipa = '') => {
+    const key = normalizeTermKey(term);
+    if (!key || known.has(key)) {
+      return;
+    }
+
+    known.add(key);
+    seeds.push({ id: randomId('pron'), term: term.trim(), respelling: '', ipa, source });
+  };
+
+  for (const character of storyBible.characters) {
+    push(character.name, 'character');
+    splitAliases(character.aliases).forEach((alias) => push(alias, 'character'));
+  }
+
+  for (const conlang of saga?.metadata.worldBible.conlangs ?? []) {
+    for (const entry of conlang.lexicon) {
+      push(entry.term, 'conlang', extractIpaFromNotes(entry.notes));
+    }
+  }
+
+  return seeds;
+}
+
+// El diccionario del libro pisa al de la saga cuando ambos definen el mismo termino.
+export function mergePronunciationLexicons(
+  bookEntries: PronunciationEntry[],
+  sagaEntries: PronunciationEntry[],
+): PronunciationEntry[] {
+  const byTerm = new Map<string, PronunciationEntry>();
+  for (const entry of [...sagaEntries, ...bookEntries]) {
+    if (isPronunciationEntryActive(entry)) {
+      byTerm.set(normalizeTermKey(entry.term), entry);
+    }
+  }
+
+  return Array.from(byTerm.values());
+}
+
+function buildLexiconMatcher(entries: PronunciationEntry[]): { pattern: RegExp; byTerm: Map<string, PronunciationEntry> } | null {
+  const byTerm = new Map<string, PronunciationEntry>();
+  for (const entry of entries) {
+    if (isPronunciationEntryActive(entry)) {
+      byTerm.set(normalizeTermKey(entry.term), entry);
+    }
+  }
+  if (byTerm.size === 0) {
+    return null;
+  }
+
+  // Terminos largos primero para que "Kael Tor" gane a "Kael".
+  const alternatives = Array.from(byTerm.values())
+    .map((entry) => entry.term.trim())
+    .sort((left, right) => right.length - left.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(?<!${WORD_CHAR_PATTERN})(${alternatives.join('|')})(?!${WORD_CHAR_PATTERN})`, 'giu');
+  return { pattern, byTerm };
+}
+
+// Texto plano para motores sin SSML (Piper, eSpeak, lectura del navegador): solo usa el respelling.
+export function applyPronunciationLexicon(text: string, entries: PronunciationEntry[]): string {
+  const matcher = buildLexiconMatcher(entries.filter((entry) => entry.respelling.trim()));
+  if (!matcher) {
+    return text;
+  }
+
+  return text.replace(matcher.pattern, (match: string) => matcher.byTerm.get(normalizeTermKey(match))?.respelling.trim() ?? match);
+}
+
+// SSML para la voz del sistema: <phoneme> con IPA cuando existe y <sub> con el respelling en otro caso.
+// Devuelve null si ningun termino aparece, para no forzar SSML sin necesidad.
+export function buildPronunciationSsml(text: string, entries: PronunciationEntry[], languageTag: string): string | null {
+  const matcher = buildLexiconMatcher(entries);
+  if (!matcher) {
+    return null;
+  }
+
+  let replaced = false;
+  let body = '';
+  let cursor = 0;
+  for (const match of text.matchAll(matcher.pattern)) {
+    const index = match.index ?? 0;
+    const entry = matcher.byTerm.get(normalizeTermKey(match[0]));
+    body += escapeXml(text.slice(cursor, index));
+    cursor = index + match[0].length;
+    if (!entry) {
+      body += escapeXml(match[0]);
+      continue;
+    }
+
+    replaced = true;
+    body += entry.ipa.trim()
+      ? `<phoneme alphabet="ipa" ph="${escapeXml(entry.ipa.trim())}">${escapeXml(match[0])}</phoneme>`
+      : `<sub alias="${escapeXml(entry.respelling.trim())}">${escapeXml(match[0])}</sub>`;
+  }
+  if (!replaced) {
+    return null;
+  }
+
+  body += escapeXml(text.slice(cursor));
+  return `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${escapeXml(languageTag)}">${body}</speak>`;
+}
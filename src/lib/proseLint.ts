@@ -0,0 +1,329 @@
+// Chequeos de prosa por idioma (espanol / ingles): legibilidad, adverbios en -mente/-ly, voz pasiva,
+// verbos filtro, comienzos de oracion repetidos, cliches y proporcion de dialogo.
+// Los hallazgos llevan offsets sobre el texto plano para poder resaltarlos en el editor.
+
+export type ProseLintLanguage = 'es' | 'en';
+
+export type ProseLintRuleId = 'adverb' | 'passive' | 'filter-word' | 'sentence-start' | 'cliche';
+
+export interface ProseLintFinding {
+  rule: ProseLintRuleId;
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+}
+
+export interface ProseReadability {
+  // Fernandez-Huerta en espanol, Flesch reading ease en ingles (0-100, mas alto = mas facil).
+  index: number;
+  formula: 'fernandez-huerta' | 'flesch';
+  label: string;
+  syllablesPerWord: number;
+}
+
+export interface ProseLintSummary {
+  language: ProseLintLanguage;
+  wordCount: number;
+  sentenceCount: number;
+  readability: ProseReadability;
+  counts: Record<ProseLintRuleId, number>;
+  // Proporcion de palabras dentro de dialogo (0-1).
+  dialogueRatio: number;
+  findings: ProseLintFinding[];
+}
+
+export const PROSE_LINT_RULE_LABELS: Record<ProseLintRuleId, string> = {
+  adverb: 'Adverbios',
+  passive: 'Voz pasiva',
+  'filter-word': 'Verbos filtro',
+  'sentence-start': 'Comienzos repetidos',
+  cliche: 'Cliches',
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+const SENTENCE_PATTERN = /[^.!?…\n]+[.!?…]*/g;
+const LEADING_NOISE_PATTERN = /^[\s—–\-«»"“”'‘’¿¡([]+/;
+
+const ES_ADVERB_EXCEPTIONS = new Set(['mente', 'demente', 'clemente', 'inclemente', 'vehemente', 'simiente', 'comente']);
+const EN_ADVERB_EXCEPTIONS = new Set([
+  'only', 'family', 'reply', 'apply', 'supply', 'early', 'holy', 'ugly', 'lovely', 'friendly', 'silly', 'belly',
+  'fly', 'july', 'italy', 'lily', 'rally', 'ally', 'bully', 'jelly', 'hilly', 'likely', 'lonely', 'daily', 'elderly',
+  'costly', 'deadly', 'curly', 'chilly', 'jolly', 'melancholy', 'monopoly', 'anomaly', 'assembly', 'butterfly',
+]);
+
+const ES_PASSIVE_AUXILIARIES = new Set([
+  'es', 'son', 'era', 'eran', 'fue', 'fueron', 'sera', 'seran', 'sido', 'ser', 'siendo', 'seria', 'serian', 'fuera', 'fueran',
+]);
+const ES_PARTICIPLE_EXCEPTIONS = new Set([
+  'nada', 'cada', 'vida', 'cierto', 'cierta', 'ciertos', 'ciertas', 'mirada', 'llegada', 'salida', 'entrada', 'partida',
+  'lista', 'listo', 'listos', 'listas',
+]);
+const EN_PASSIVE_AUXILIARIES = new Set(['is', 'are', 'was', 'were', 'be', 'been', 'being', "isn't", "wasn't", "weren't"]);
+const EN_IRREGULAR_PARTICIPLES = new Set([
+  'known', 'seen', 'taken', 'given', 'made', 'done', 'written', 'broken', 'told', 'found', 'held', 'built', 'caught',
+  'thrown', 'driven', 'eaten', 'chosen', 'forgotten', 'hidden', 'stolen', 'torn', 'worn', 'born', 'beaten', 'bitten',
+  'brought', 'bought', 'sent', 'kept', 'lost', 'paid', 'sold', 'shot', 'shown', 'drawn', 'frozen', 'woken', 'struck',
+]);
+
+const ES_FILTER_WORDS = [
+  'vio', 'veia', 'sintio', 'sentia', 'oyo', 'oia', 'escucho', 'escuchaba', 'noto', 'notaba', 'penso', 'pensaba',
+  'creyo', 'se dio cuenta', 'parecia', 'parecio', 'observo', 'decidio', 'supo', 'sabia', 'se pregunto',
+];
+const EN_FILTER_WORDS = [
+  'saw', 'felt', 'heard', 'noticed', 'realized', 'realised', 'thought', 'wondered', 'seemed', 'watched', 'decided',
+  'knew', 'looked', 'could see', 'could hear', 'could feel',
+];
+
+const ES_CLICHES = [
+  'en un abrir y cerrar de ojos',
+  'como si no hubiera un manana',
+  'silencio sepulcral',
+  'frio como el hielo',
+  'el corazon le dio un vuelco',
+  'a la velocidad del rayo',
+  'sin previo aviso',
+  'se le helo la sangre',
+  'solto el aire que no sabia que estaba conteniendo',
+  'contuvo el aliento',
+  'un escalofrio le recorrio la espalda',
+  'blanco como la nieve',
+  'el tiempo se detuvo',
+  'como alma que lleva el diablo',
+  'a altas horas de la noche',
+];
+const EN_CLICHES = [
+  'in the blink of an eye',
+  'at the end of the day',
+  'cold as ice',
+  "breath she didn't know she was holding",
+  "breath he didn't know he was holding",
+  'heart skipped a beat',
+  'time stood still',
+  'dead of night',
+  'all of a sudden',
+  'white as a sheet',
+  'only time will tell',
+  'shiver ran down',
+  'a chill ran down',
+  'like a deer in the headlights',
+  'calm before the storm',
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Minusculas sin tildes conservando la longitud: los offsets siguen valiendo sobre el texto original.
+function foldText(text: string): string {
+  let folded = '';
+  for (let index = 0; index < text.length; index += 1) {
+    folded += text[index].toLowerCase().normalize('NFD')[0] ?? text[index];
+  }
+  return folded;
+}
+
+export function resolveProseLintLanguage(languageCode: string | null | undefined): ProseLintLanguage {
+  return (languageCode ?? '').trim().toLowerCase().startsWith('en') ? 'en' : 'es';
+}
+
+function countSpanishSyllables(word: string): number {
+  // Vocal fuerte (a, e, o) o debil acentuada (i, u con tilde) abre silaba; dos debiles forman diptongo.
+  let syllables = 0;
+  let groupStrong = 0;
+  let inGroup = false;
+  for (const char of word.toLowerCase()) {
+    const isStrong = 'aeoáéóíú'.includes(char);
+    const isWeak = 'iuüy'.includes(char) && !(char === 'y' && !inGroup);
+    if (isStrong || isWeak) {
+      inGroup = true;
+      if (isStrong) {
+        groupStrong += 1;
+      }
+      continue;
+    }
+    if (inGroup) {
+      syllables += Math.max(1, groupStrong);
+    }
+    inGroup = false;
+    groupStrong = 0;
+  }
+  if (inGroup) {
+    syllables += Math.max(1, groupStrong);
+  }
+  return Math.max(1, syllables);
+}
+
+function countEnglishSyllables(word: string): number {
+  let normalized = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (normalized.length <= 3) {
+    return 1;
+  }
+  normalized = normalized.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  const groups = normalized.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+export function countSyllables(word: string, language: ProseLintLanguage): number {
+  return language === 'en' ? countEnglishSyllables(word) : countSpanishSyllables(word);
+}
+
+function resolveReadabilityLabel(index: number): string {
+  if (index >= 90) return 'Muy facil';
+  if (index >= 80) return 'Facil';
+  if (index >= 60) return 'Normal';
+  if (index >= 50) return 'Algo dificil';
+  if (index >= 30) return 'Dificil';
+  return 'Muy dificil';
+}
+
+function computeReadability(words: string[], sentenceCount: number, language: ProseLintLanguage): ProseReadability {
+  const formula = language === 'en' ? 'flesch' : 'fernandez-huerta';
+  if (words.length === 0 || sentenceCount === 0) {
+    return { index: 0, formula, label: 'Sin datos', syllablesPerWord: 0 };
+  }
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word, language), 0);
+  const syllablesPerWord = syllables / words.length;
+  const wordsPerSentence = words.length / sentenceCount;
+  // Fernandez-Huerta en su version corregida: el ultimo termino usa palabras por oracion, como Flesch.
+  const raw =
+    language === 'en'
+      ? 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+      : 206.84 - 0.6 * (syllablesPerWord * 100) - 1.02 * wordsPerSentence;
+  const index = Math.round(Math.min(100, Math.max(0, raw)) * 10) / 10;
+  return { index, formula, label: resolveReadabilityLabel(index), syllablesPerWord: Math.round(syllablesPerWord * 100) / 100 };
+}
+
+function buildPhrasePattern(phrases: string[]): RegExp {
+  const alternatives = [...phrases]
+    .sort((left, right) => right.length - left.length)
+    .map((phrase) => escapeRegExp(phrase).replace(/ /g, '\\s+'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+const PHRASE_PATTERNS: Record<ProseLintLanguage, { filter: RegExp; cliche: RegExp }> = {
+  es: { filter: buildPhrasePattern(ES_FILTER_WORDS), cliche: buildPhrasePattern(ES_CLICHES) },
+  en: { filter: buildPhrasePattern(EN_FILTER_WORDS), cliche: buildPhrasePattern(EN_CLICHES) },
+};
+
+function isAdverb(foldedWord: string, language: ProseLintLanguage): boolean {
+  if (language === 'en') {
+    return foldedWord.length > 4 && foldedWord.endsWith('ly') && !EN_ADVERB_EXCEPTIONS.has(foldedWord);
+  }
+  return foldedWord.length > 6 && foldedWord.endsWith('mente') && !ES_ADVERB_EXCEPTIONS.has(foldedWord);
+}
+
+function isParticiple(foldedWord: string, language: ProseLintLanguage): boolean {
+  if (language === 'en') {
+    return (foldedWord.length > 3 && foldedWord.endsWith('ed')) || EN_IRREGULAR_PARTICIPLES.has(foldedWord);
+  }
+  return foldedWord.length > 3 && /(?:ad|id|ch|ert|uest|ist)[oa]s?$/.test(foldedWord) && !ES_PARTICIPLE_EXCEPTIONS.has(foldedWord);
+}
+
+function collectWordMatches(folded: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(folded.matchAll(WORD_PATTERN), (match) => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+// Palabras dentro de dialogo: parrafos que abren con raya y fragmentos entre comillas.
+function countDialogueWords(text: string): number {
+  let dialogueWords = 0;
+  for (const paragraph of text.split('\n')) {
+    const trimmed = paragraph.trim();
+    if (/^[—–]/.test(trimmed)) {
+      dialogueWords += trimmed.match(WORD_PATTERN)?.length ?? 0;
+      continue;
+    }
+    for (const quoted of trimmed.matchAll(/«[^»]*»|“[^”]*”|"[^"]*"/g)) {
+      dialogueWords += quoted[0].match(WORD_PATTERN)?.length ?? 0;
+    }
+  }
+  return dialogueWords;
+}
+
+export function lintProse(text: string, language: ProseLintLanguage): ProseLintSummary {
+  const folded = foldText(text);
+  const words = collectWordMatches(folded);
+  const findings: ProseLintFinding[] = [];
+  const push = (rule: ProseLintRuleId, start: number, end: number, message: string) => {
+    findings.push({ rule, start, end, text: text.slice(start, end), message });
+  };
+
+  const passiveAuxiliaries = language === 'en' ? EN_PASSIVE_AUXILIARIES : ES_PASSIVE_AUXILIARIES;
+  words.forEach((entry, index) => {
+    if (isAdverb(entry.word, language)) {
+      push('adverb', entry.start, entry.end, language === 'en' ? 'Adverbio en -ly: prueba un verbo mas preciso.' : 'Adverbio en -mente: prueba un verbo mas preciso.');
+    }
+    if (!passiveAuxiliaries.has(entry.word)) {
+      return;
+    }
+    // Auxiliar + (adverbio opcional) + participio, sin cruzar signos de puntuacion.
+    for (const offset of [1, 2]) {
+      const candidate = words[index + offset];
+      if (!candidate || /[.!?;:,\n]/.test(folded.slice(entry.end, candidate.start))) {
+        break;
+      }
+      if (isParticiple(candidate.word, language)) {
+        push('passive', entry.start, candidate.end, 'Posible voz pasiva: considera la forma activa.');
+        break;
+      }
+      if (!isAdverb(candidate.word, language)) {
+        break;
+      }
+    }
+  });
+
+  const patterns = PHRASE_PATTERNS[language];
+  for (const match of folded.matchAll(patterns.filter)) {
+    const start = match.index ?? 0;
+    push('filter-word', start, start + match[0].length, 'Verbo filtro: muestra la percepcion directamente.');
+  }
+  for (const match of folded.matchAll(patterns.cliche)) {
+    const start = match.index ?? 0;
+    push('cliche', start, start + match[0].length, 'Cliche: busca una imagen propia.');
+  }
+
+  let sentenceCount = 0;
+  const recentStarts: string[] = [];
+  for (const match of folded.matchAll(SENTENCE_PATTERN)) {
+    const sentence = match[0];
+    if (!sentence.match(WORD_PATTERN)) {
+      continue;
+    }
+    sentenceCount += 1;
+    const leading = sentence.match(LEADING_NOISE_PATTERN)?.[0].length ?? 0;
+    const firstWord = sentence.slice(leading).match(/^[\p{L}\p{N}']+/u)?.[0] ?? '';
+    // Tercera oracion seguida que empieza igual.
+    if (firstWord && recentStarts.length >= 2 && recentStarts.every((start) => start === firstWord)) {
+      const start = (match.index ?? 0) + leading;
+      push('sentence-start', start, start + firstWord.length, `Varias oraciones seguidas empiezan con "${text.slice(start, start + firstWord.length)}".`);
+    }
+    recentStarts.push(firstWord);
+    if (recentStarts.length > 2) {
+      recentStarts.shift();
+    }
+  }
+
+  const counts: Record<ProseLintRuleId, number> = { adverb: 0, passive: 0, 'filter-word': 0, 'sentence-start': 0, cliche: 0 };
+  for (const finding of findings) {
+    counts[finding.rule] += 1;
+  }
+
+  return {
+    language,
+    wordCount: words.length,
+    sentenceCount,
+    readability: computeReadability(
+      words.map((entry) => text.slice(entry.start, entry.end)),
+      sentenceCount,
+      language,
+    ),
+    counts,
+    dialogueRatio: words.length > 0 ? Math.round((countDialogueWords(text) / words.length) * 100) / 100 : 0,
+    findings: findings.sort((left, right) => left.start - right.start),
+  };
+}
@@ -0,0 +1,292 @@
+import { countWordsFromHtml } from './metrics';
+import { getNowIso, stripHtml } from './text';
+import type { ChapterDocument, ChapterScene, ChapterStatus } from '../types/book';
+
+// Las escenas no tienen archivo propio: el texto sigue en chapter.content separado por parrafos
+// de salto de escena y chapter.scenes guarda los metadatos. Cada salto lleva data-scene-id con el id
+// de la escena que abre, asi agregar o borrar un salto no corre los metadatos a otra escena.
+
+export interface ChapterSceneSegment {
+  index: number;
+  scene: ChapterScene;
+  html: string;
+  wordCount: number;
+  // POV de la escena o, si no tiene, el del capitulo.
+  pointOfView: string;
+  status: ChapterStatus;
+}
+
+export type ChapterSceneMetaPatch = Partial<Omit<ChapterScene, 'id'>>;
+
+export interface SceneMetaUpdate {
+  chapterId: string;
+  sceneIndex: number;
+  patch: ChapterSceneMetaPatch;
+}
+
+const DEFAULT_SCENE_BREAK_GLYPH = '* * *';
+const SCENE_ID_ATTRIBUTE = 'data-scene-id';
+const SCENE_ID_PATTERN = /\bdata-scene-id="([^"]+)"/;
+const KNOWN_SCENE_BREAKS = ['\\*\\s*\\*\\s*\\*', '~\\s*~\\s*~', '—\\s*—\\s*—'];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeHtml(value).replace(/"/g, '&quot;');
+}
+
+function buildSceneBreakPattern(glyph: string): RegExp {
+  const custom = glyph.trim() ? escapeRegExp(escapeHtml(glyph.trim())).replace(/\s+/g, '\\s*') : '';
+  const options = custom ? [custom, ...KNOWN_SCENE_BREAKS] : KNOWN_SCENE_BREAKS;
+  return new RegExp(`<p\\b([^>]*)>\\s*(?:${options.join('|')})\\s*</p>`, 'gi');
+}
+
+function resolveGlyph(glyph: string | undefined): string {
+  return glyph?.trim() || DEFAULT_SCENE_BREAK_GLYPH;
+}
+
+interface ParsedChapterScenes {
+  segments: string[];
+  // Id de la escena que abre cada salto; null en saltos escritos a mano o anteriores a los ids.
+  breakSceneIds: Array<string | null>;
+}
+
+function parseChapterScenes(html: string, glyph: string): ParsedChapterScenes {
+  const segments: string[] = [];
+  const breakSceneIds: Array<string | null> = [];
+  let lastIndex = 0;
+  for (const match of html.matchAll(buildSceneBreakPattern(resolveGlyph(glyph)))) {
+    const index = match.index ?? 0;
+    segments.push(html.slice(lastIndex, index).trim());
+    breakSceneIds.push(match[1].match(SCENE_ID_PATTERN)?.[1] ?? null);
+    lastIndex = index + match[0].length;
+  }
+  segments.push(html.slice(lastIndex).trim());
+  return { segments, breakSceneIds };
+}
+
+export function splitChapterHtmlIntoScenes(html: string, glyph = DEFAULT_SCENE_BREAK_GLYPH): string[] {
+  return parseChapterScenes(html, glyph).segments;
+}
+
+// Con `scenes`, cada salto lleva el id de la escena siguiente.
+export function joinSceneSegments(segments: string[], glyph = DEFAULT_SCENE_BREAK_GLYPH, scenes?: ChapterScene[]): string {
+  const glyphHtml = escapeHtml(resolveGlyph(glyph));
+  return segments
+    .map((segment, index) => {
+      if (index === 0) {
+        return segment;
+      }
+      const sceneId = scenes?.[index]?.id;
+      const breakHtml = sceneId ? `<p ${SCENE_ID_ATTRIBUTE}="${escapeAttribute(sceneId)}">${glyphHtml}</p>` : `<p>${glyphHtml}</p>`;
+      return `${breakHtml}${segment}`;
+    })
+    .join('');
+}
+
+// Ajusta los metadatos guardados a las escenas reales del texto. Los saltos con id recuperan su escena;
+// la primera escena es la guardada que ningun salto reclama. Sin ningun id (texto anterior) se alinea por posicion.
+function alignSceneMeta(chapter: ChapterDocument, breakSceneIds: Array<string | null>): ChapterScene[] {
+  const stored = chapter.scenes ?? [];
+  const count = breakSceneIds.length + 1;
+  const usedIds = new Set(stored.map((scene) => scene.id));
+  const buildPlaceholderScene = (index: number): ChapterScene => {
+    let number = index + 1;
+    while (usedIds.has(`${chapter.id}-scene-${number}`)) {
+      number += 1;
+    }
+    const id = `${chapter.id}-scene-${number}`;
+    usedIds.add(id);
+    return { id };
+  };
+
+  if (breakSceneIds.every((id) => id === null)) {
+    return Array.from({ length: count }, (_, index) => stored[index] ?? buildPlaceholderScene(index));
+  }
+
+  const storedById = new Map(stored.map((scene) => [scene.id, scene]));
+  const claimed = new Set<string>();
+  const afterBreaks = breakSceneIds.map((id) => {
+    // Un id repetido (salto copiado y pegado) abre una escena nueva.
+    if (!id || claimed.has(id)) {
+      return null;
+    }
+    claimed.add(id);
+    usedIds.add(id);
+    return storedById.get(id) ?? { id };
+  });
+  const first = stored.find((scene) => !claimed.has(scene.id)) ?? buildPlaceholderScene(0);
+  return [first, ...afterBreaks.map((scene, index) => scene ?? buildPlaceholderScene(index + 1))];
+}
+
+function resolveSceneLayout(chapter: ChapterDocument, glyph: string): { segments: string[]; scenes: ChapterScene[] } {
+  const parsed = parseChapterScenes(chapter.content, glyph);
+  return { segments: parsed.segments, scenes: alignSceneMeta(chapter, parsed.breakSceneIds) };
+}
+
+export function resolveChapterScenes(chapter: ChapterDocument, glyph = DEFAULT_SCENE_BREAK_GLYPH): ChapterSceneSegment[] {
+  const { segments, scenes } = resolveSceneLayout(chapter, glyph);
+  return segments.map((html, index) => ({
+    index,
+    scene: scenes[index],
+    html,
+    wordCount: countWordsFromHtml(html),
+    pointOfView: scenes[index].pointOfView?.trim() || chapter.pointOfView?.trim() || '',
+    status: scenes[index].status ?? chapter.status ?? 'borrador',
+  }));
+}
+
+export function getScenePreview(segment: ChapterSceneSegment, maxLength = 140): string {
+  const text = stripHtml(segment.html).replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
+
+export function updateChapterSceneMeta(
+  chapter: ChapterDocument,
+  index: number,
+  patch: ChapterSceneMetaPatch,
+  glyph = DEFAULT_SCENE_BREAK_GLYPH,
+): ChapterDocument {
+  const { segments, scenes } = resolveSceneLayout(chapter, glyph);
+  if (index < 0 || index >= segments.length) {
+    throw new Error(`La escena ${index + 1} no existe en "${chapter.title}".`);
+  }
+  scenes[index] = { ...scenes[index], ...patch };
+  // Los ids se escriben en los saltos para que los metadatos sigan a su escena si cambia el texto.
+  const content = segments.length > 1 ? joinSceneSegments(segments, glyph, scenes) : chapter.content;
+  return content === chapter.content ? { ...chapter, scenes } : { ...chapter, content, contentJson: null, scenes };
+}
+
+export function moveSceneWithinChapter(
+  chapter: ChapterDocument,
+  fromIndex: number,
+  toIndex: number,
+  glyph = DEFAULT_SCENE_BREAK_GLYPH,
+): ChapterDocument {
+  const { segments, scenes } = resolveSceneLayout(chapter, glyph);
+  if (fromIndex < 0 || fromIndex >= segments.length || toIndex < 0 || toIndex >= segments.length) {
+    throw new Error('Posicion de escena fuera de rango.');
+  }
+  if (fromIndex === toIndex) {
+    return chapter;
+  }
+  const [segment] = segments.splice(fromIndex, 1);
+  const [scene] = scenes.splice(fromIndex, 1);
+  segments.splice(toIndex, 0, segment);
+  scenes.splice(toIndex, 0, scene);
+  return { ...chapter, content: joinSceneSegments(segments, glyph, scenes), contentJson: null, scenes };
+}
+
+export function moveSceneToChapter(
+  source: ChapterDocument,
+  sourceIndex: number,
+  target: ChapterDocument,
+  targetIndex: number,
+  glyph = DEFAULT_SCENE_BREAK_GLYPH,
+): { source: ChapterDocument; target: ChapterDocument } {
+  if (source.id === target.id) {
+    const moved = moveSceneWithinChapter(source, sourceIndex, targetIndex, glyph);
+    return { source: moved, target: moved };
+  }
+
+  const { segments: sourceSegments, scenes: sourceScenes } = resolveSceneLayout(source, glyph);
+  if (sourceIndex < 0 || sourceIndex >= sourceSegments.length) {
+    throw new Error('Posicion de escena fuera de rango.');
+  }
+  if (sourceSegments.length === 1) {
+    throw new Error(`"${source.title}" tiene una sola escena: mueve el capitulo completo.`);
+  }
+  const [segment] = sourceSegments.splice(sourceIndex, 1);
+  const [scene] = sourceScenes.splice(sourceIndex, 1);
+
+  // Un capitulo vacio se reemplaza en lugar de sumar una escena en blanco.
+  const targetIsEmpty = !stripHtml(target.content).trim();
+  const { segments: targetSegments, scenes: targetScenes } = targetIsEmpty
+    ? { segments: [], scenes: [] }
+    : resolveSceneLayout(target, glyph);
+  const insertAt = Math.max(0, Math.min(targetIndex, targetSegments.length));
+  targetSegments.splice(insertAt, 0, segment);
+  targetScenes.splice(insertAt, 0, scene);
+
+  return {
+    source: { ...source, content: joinSceneSegments(sourceSegments, glyph, sourceScenes), contentJson: null, scenes: sourceScenes },
+    target: { ...target, content: joinSceneSegments(targetSegments, glyph, targetScenes), contentJson: null, scenes: targetScenes },
+  };
+}
+
+// Filas "capitulo.escena" con el POV efectivo, para vistas que trabajan por escena.
+export function expandChaptersIntoScenes(chapters: ChapterDocument[], glyph = DEFAULT_SCENE_BREAK_GLYPH): ChapterDocument[] {
+  return chapters.flatMap((chapter) => {
+    const segments = resolveChapterScenes(chapter, glyph);
+    return segments.map((segment) => ({
+      ...chapter,
+      id: `${chapter.id}#${segment.index + 1}`,
+      title: `${chapter.title} - Escena ${segment.index + 1}`,
+      content: segment.html,
+      pointOfView: segment.pointOfView,
+      synopsis: segment.scene.synopsis ?? '',
+      status: segment.status,
+      scenes: undefined,
+    }));
+  });
+}
+
+// Corta el capitulo antes de la escena indicada: la cabeza conserva el capitulo y la cola es el texto del nuevo.
+export function splitChapterAtScene(
+  chapter: ChapterDocument,
+  sceneIndex: number,
+  glyph = DEFAULT_SCENE_BREAK_GLYPH,
+): { head: ChapterDocument; tail: Pick<ChapterDocument, 'content' | 'scenes'> } {
+  const { segments, scenes } = resolveSceneLayout(chapter, glyph);
+  if (sceneIndex <= 0 || sceneIndex >= segments.length) {
+    throw new Error('Elige una escena posterior a la primera para dividir el capitulo.');
+  }
+  const headScenes = scenes.slice(0, sceneIndex);
+  const tailScenes = scenes.slice(sceneIndex);
+  return {
+    head: {
+      ...chapter,
+      content: joinSceneSegments(segments.slice(0, sceneIndex), glyph, headScenes),
+      contentJson: null,
+      scenes: headScenes,
+    },
+    tail: {
+      content: joinSceneSegments(segments.slice(sceneIndex), glyph, tailScenes),
+      scenes: tailScenes,
+    },
+  };
+}
+
+// Suma el segundo capitulo al final del primero, separado por un salto de escena.
+export function mergeChapterContents(
+  first: ChapterDocument,
+  second: ChapterDocument,
+  glyph = DEFAULT_SCENE_BREAK_GLYPH,
+): ChapterDocument {
+  const emptyLayout = { segments: [] as string[], scenes: [] as ChapterScene[] };
+  const firstLayout = stripHtml(first.content).trim() ? resolveSceneLayout(first, glyph) : emptyLayout;
+  const secondLayout = stripHtml(second.content).trim() ? resolveSceneLayout(second, glyph) : emptyLayout;
+  const scenes = [
+    ...firstLayout.scenes,
+    ...secondLayout.scenes.map((scene) =>
+      scene.pointOfView || !second.pointOfView ? scene : { ...scene, pointOfView: second.pointOfView },
+    ),
+  ];
+  return {
+    ...first,
+    content: joinSceneSegments([...firstLayout.segments, ...secondLayout.segments], glyph, scenes) || '<p></p>',
+    contentJson: null,
+    scenes,
+    synopsis: [first.synopsis?.trim(), second.synopsis?.trim()].filter(Boolean).join('\n\n'),
+    wordTarget:
+      first.wordTarget != null || second.wordTarget != null ? (first.wordTarget ?? 0) + (second.wordTarget ?? 0) : first.wordTarget,
+    manuscriptNotes: [...(first.manuscriptNotes ?? []), ...(second.manuscriptNotes ?? [])],
+    updatedAt: getNowIso(),
+  };
+}
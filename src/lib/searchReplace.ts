@@ -1,4 +1,5 @@
-import type { BookProject, ChapterDocument } from '../types/book';
+import { normalizeChapterRange, sliceByChapterRange } from './chapterRange';
+import type { BookProject, ChapterDocument, ChapterRangeFilter, ChapterStatus } from '../types/book';
 
 export interface SearchReplaceOptions {
   caseSensitive: boolean;
@@ -6,10 +7,25 @@ export interface SearchReplaceOptions {
   useRegex?: boolean;
 }
 
+export interface SearchOccurrence {
+  // Posicion dentro del capitulo, en el mismo orden en que replaceMatchesInHtml recorre el texto.
+  index: number;
+  match: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
 export interface ChapterSearchMatch {
   chapterId: string;
   chapterTitle: string;
   matches: number;
+  occurrences: SearchOccurrence[];
+}
+
+export interface SearchChapterFilter {
+  status: ChapterStatus | '';
+  pointOfView: string;
+  range: ChapterRangeFilter;
 }
 
 export interface SagaBookSearchMatch {
@@ -35,6 +51,25 @@ export interface ReplacePreviewReport {
   items: ReplacePreviewItem[];
 }
 
+export const EMPTY_SEARCH_CHAPTER_FILTER: SearchChapterFilter = {
+  status: '',
+  pointOfView: '',
+  range: { fromChapter: null, toChapter: null },
+};
+
+const SEARCH_CONTEXT_LENGTH = 50;
+const SEARCH_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+// Las referencias semanticas son nodos atomicos sin texto en el editor: su "@Nombre" no cuenta como
+// coincidencia, asi la numeracion es la misma que en el documento del editor.
+const SEMANTIC_REFERENCE_SELECTOR = '[data-semantic-ref-kind]';
+
+function createSearchTextWalker(body: HTMLElement): TreeWalker {
+  return document.createTreeWalker(body, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(SEMANTIC_REFERENCE_SELECTOR) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+}
+
 function yieldToEventLoop(): Promise<void> {
   return new Promise((resolve) => {
     window.setTimeout(resolve, 0);
@@ -61,7 +96,7 @@ function buildFlags(options: SearchReplaceOptions): string {
   return options.caseSensitive ? 'g' : 'gi';
 }
 
-function buildSearchRegex(query: string, options: SearchReplaceOptions): RegExp | null {
+export function buildSearchRegex(query: string, options: SearchReplaceOptions): RegExp | null {
   const normalizedQuery = query.trim();
   if (!normalizedQuery) {
     return null;
@@ -140,6 +175,101 @@ export function replaceMatchesInTextLiteral(
   return { text: nextText, replacements };
 }
 
+export function isSearchChapterFilterActive(filter: SearchChapterFilter): boolean {
+  return (
+    filter.status !== '' ||
+    filter.pointOfView.trim().length > 0 ||
+    filter.range.fromChapter !== null ||
+    filter.range.toChapter !== null
+  );
+}
+
+// El rango se aplica sobre el orden completo del libro; estado y POV despues.
+export function filterChaptersForSearch(orderedChapters: ChapterDocument[], filter: SearchChapterFilter): ChapterDocument[] {
+  const pointOfView = filter.pointOfView.trim().toLowerCase();
+  return sliceByChapterRange(orderedChapters, normalizeChapterRange(orderedChapters.length, filter.range)).filter(
+    (chapter) =>
+      (!filter.status || (chapter.status ?? 'borrador') === filter.status) &&
+      (!pointOfView || (chapter.pointOfView ?? '').trim().toLowerCase().includes(pointOfView)),
+  );
+}
+
+export function findMatchesInHtml(html: string, query: string, options: SearchReplaceOptions): SearchOccurrence[] {
+  const regex = buildSearchRegex(query, options);
+  if (!regex) {
+    return [];
+  }
+
+  const body = parseHtmlToBody(html);
+  const walker = createSearchTextWalker(body);
+  const found: Array<{ start: number; end: number; match: string }> = [];
+  let text = '';
+  let previousBlock: Element | null = null;
+  let node = walker.nextNode();
+  while (node) {
+    // Entre parrafos se agrega un espacio para que el contexto no pegue palabras de bloques distintos.
+    const block = node.parentElement?.closest(SEARCH_BLOCK_SELECTOR) ?? null;
+    if (text && block !== previousBlock) {
+      text += ' ';
+    }
+    previousBlock = block;
+
+    const value = node.textContent ?? '';
+    for (const match of value.matchAll(new RegExp(regex.source, regex.flags))) {
+      const start = text.length + (match.index ?? 0);
+      found.push({ start, end: start + match[0].length, match: match[0] });
+    }
+    text += value;
+    node = walker.nextNode();
+  }
+
+  return found.map((entry, index) => ({
+    index,
+    match: entry.match,
+    contextBefore: text
+      .slice(Math.max(0, entry.start - SEARCH_CONTEXT_LENGTH), entry.start)
+      .replace(/\s+/g, ' ')
+      .trimStart(),
+    contextAfter: text
+      .slice(entry.end, entry.end + SEARCH_CONTEXT_LENGTH)
+      .replace(/\s+/g, ' ')
+      .trimEnd(),
+  }));
+}
+
+// Reemplaza solo la coincidencia numero occurrenceIndex (ver findMatchesInHtml).
+export function replaceMatchAtInHtml(
+  html: string,
+  query: string,
+  replacement: string,
+  options: SearchReplaceOptions,
+  occurrenceIndex: number,
+): { html: string; replaced: boolean } {
+  const regex = buildSearchRegex(query, options);
+  if (!regex || occurrenceIndex < 0) {
+    return { html, replaced: false };
+  }
+
+  const body = parseHtmlToBody(html);
+  const walker = createSearchTextWalker(body);
+  let remaining = occurrenceIndex;
+  let node = walker.nextNode();
+  while (node) {
+    const value = node.textContent ?? '';
+    const matches = Array.from(value.matchAll(new RegExp(regex.source, regex.flags)));
+    if (remaining < matches.length) {
+      const target = matches[remaining];
+      const start = target.index ?? 0;
+      node.textContent = value.slice(0, start) + replacement + value.slice(start + target[0].length);
+      return { html: body.innerHTML, replaced: true };
+    }
+    remaining -= matches.length;
+    node = walker.nextNode();
+  }
+
+  return { html, replaced: false };
+}
+
 export function countMatchesInHtml(html: string, query: string, options: SearchReplaceOptions): number {
   const normalizedQuery = query.trim();
   if (!normalizedQuery) {
@@ -151,7 +281,7 @@ export function countMatchesInHtml(html: string, query: string, options: SearchR
   if (!regex) {
     return 0;
   }
-  const walker = document.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+  const walker = createSearchTextWalker(body);
 
   let total = 0;
   let node = walker.nextNode();
@@ -181,7 +311,7 @@ export function replaceMatchesInHtml(
   }
   const pattern = regex.source;
   const flags = regex.flags;
-  const walker = document.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+  const walker = createSearchTextWalker(body);
 
   let replacements = 0;
   let node = walker.nextNode();
@@ -208,14 +338,15 @@ export function buildBookSearchMatches(
   let totalMatches = 0;
 
   for (const chapter of orderedChapters) {
-    const chapterMatches = countMatchesInHtml(chapter.content, query, options);
-    if (chapterMatches > 0) {
+    const occurrences = findMatchesInHtml(chapter.content, query, options);
+    if (occurrences.length > 0) {
       results.push({
         chapterId: chapter.id,
         chapterTitle: chapter.title,
-        matches: chapterMatches,
+        matches: occurrences.length,
+        occurrences,
       });
-      totalMatches += chapterMatches;
+      totalMatches += occurrences.length;
     }
   }
 
@@ -245,14 +376,15 @@ export async function buildBookSearchMatchesAsync(
 
   for (let index = 0; index < orderedChapters.length; index += 1) {
     const chapter = orderedChapters[index];
-    const chapterMatches = countMatchesInHtml(chapter.content, normalizedQuery, options);
-    if (chapterMatches > 0) {
+    const occurrences = findMatchesInHtml(chapter.content, normalizedQuery, options);
+    if (occurrences.length > 0) {
       results.push({
         chapterId: chapter.id,
         chapterTitle: chapter.title,
-        matches: chapterMatches,
+        matches: occurrences.length,
+        occurrences,
       });
-      totalMatches += chapterMatches;
+      totalMatches += occurrences.length;
     }
 
     if ((index + 1) % safeChunkSize === 0) {
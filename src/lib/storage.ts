@@ -3,9 +3,11 @@ import {
   exists,
   mkdir,
   readDir,
+  readFile,
   readTextFile,
   remove,
   rename,
+  stat,
   writeFile,
   writeTextFile,
 } from '@tauri-apps/plugin-fs';
@@ -14,7 +16,40 @@ import { appDataDir } from '@tauri-apps/api/path';
 import { resolveChapterLengthPreset } from './chapterLength';
 import { normalizeCanonStatus } from './canon';
 import { DEFAULT_APP_CONFIG } from './config';
+import {
+  MAIN_DRAFT_BRANCH_ID,
+  buildDefaultDraftBranchIndex,
+  type DraftBranch,
+  type DraftBranchIndex,
+  type DraftMergeRecord,
+} from './draftBranches';
+import {
+  buildEmptyWritingSessionLog,
+  type WritingGoals,
+  type WritingSessionChapterStats,
+  type WritingSessionDay,
+  type WritingSessionLog,
+  type WritingSprintResult,
+} from './writingSessions';
 import { normalizeLanguageCode } from './language';
+import { refreshManuscriptNoteExcerpts } from './manuscriptComments';
+import { mergeChapterContents, splitChapterAtScene } from './scenes';
+import { selectBackupSnapshotsToPrune, type BackupRetentionPolicy } from './backupSnapshots';
+import {
+  AI_AUDIT_CHAIN_HEAD_FILE,
+  analyzeAiAuditChain,
+  buildAiAuditHashSeed,
+  type AiAuditChainHead,
+  type AiAuditRecord,
+  type AiAuditVerificationEntry,
+  type AiAuditVerificationReport,
+} from './aiAudit';
+import {
+  BOOK_PDF_FONT_FILE_NAMES,
+  PDF_FONT_FAMILY_CANDIDATES,
+  type PdfFontFaceKey,
+  type PdfFontFaces,
+} from './pdfFonts';
 import {
   getNowIso,
   joinPath,
@@ -44,9 +79,12 @@ import type {
   BookProject,
   ChapterDocument,
   ChapterManuscriptNote,
+  ChapterManuscriptNoteReply,
+  ChapterScene,
   ChapterSnapshot,
   CollaborationPatch,
   EditorialChecklistCustomItem,
+  PronunciationEntry,
   PromptTemplate,
   SagaBookLink,
   SagaCharacter,
@@ -87,6 +125,8 @@ import type {
 const BOOK_FILE = 'book.json';
 const SAGA_FILE = 'saga.json';
 const CHAPTERS_DIR = 'chapters';
+const BACKUP_OBJECTS_DIR = '.backup-objects';
+const BACKUP_MANIFEST_FILE = 'backup-manifest.json';
 const ASSETS_DIR = 'assets';
 const VERSIONS_DIR = 'versions';
 const CHATS_DIR = 'chats';
@@ -99,8 +139,12 @@ const AI_TRANSACTIONS_RECOVERED_DIR = 'recovered';
 const CONFIG_FILE = 'config.json';
 const PROMPTS_FILE = 'prompts.json';
 const LIBRARY_FILE = 'library.json';
+const AI_CREDENTIALS_FILE = 'ai-credentials.json';
 const TRUST_METRICS_FILE = 'trust-metrics.json';
 const CHAPTER_SNAPSHOT_RETENTION = 5;
+const DRAFT_BRANCHES_DIR = 'branches';
+const DRAFT_BRANCHES_INDEX_FILE = 'index.json';
+const WRITING_SESSIONS_FILE = 'writing-sessions.json';
 type BookLanguageSource = Partial<BookMetadata> & {
   amazon?: Partial<AmazonKdpData>;
   language?: unknown;
@@ -165,6 +209,12 @@ export interface AiTransactionRecoveryReport {
   transactionIds: string[];
 }
 
+// Imagen ya en memoria (p. ej. la portada de un EPUB importado).
+export interface BookImageData {
+  data: Uint8Array;
+  extension: string;
+}
+
 export interface BackupSnapshotManifestItem {
   kind: 'book' | 'saga';
   sourcePath: string;
@@ -173,19 +223,51 @@ export interface BackupSnapshotManifestItem {
   note?: string;
 }
 
+// Archivo de un snapshot incremental: la ruta es relativa al snapshot y el contenido vive en el almacen por hash.
+export interface BackupSnapshotFileEntry {
+  path: string;
+  hash: string;
+  size: number;
+}
+
 export interface BackupSnapshotManifest {
-  version: 1;
+  // 1: copia completa de carpetas. 2: incremental, solo referencias a BACKUP_OBJECTS_DIR.
+  version: 1 | 2;
   createdAt: string;
   sourceBookPath: string;
   linkedSagaPath: string | null;
   snapshotFolderName: string;
   items: BackupSnapshotManifestItem[];
+  files?: BackupSnapshotFileEntry[];
 }
 
 export interface BackupSnapshotResult {
   targetPath: string;
   manifestPath: string;
   copiedSaga: boolean;
+  storedFiles: number;
+  reusedFiles: number;
+  prunedSnapshots: number;
+}
+
+export interface BackupSnapshotSummary {
+  folderName: string;
+  path: string;
+  createdAt: string;
+  version: 1 | 2;
+  fileCount: number;
+  copiedSaga: boolean;
+}
+
+export interface MaterializedBackupSnapshot {
+  targetPath: string;
+  bookPath: string;
+  fileCount: number;
+}
+
+export interface BackupSnapshotChapters {
+  chapterOrder: string[];
+  chapters: ChapterDocument[];
 }
 
 function buildDefaultChats(): BookChats {
@@ -695,6 +777,19 @@ async function computeSha256Hex(value: string): Promise<string> {
   return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
 }
 
+async function computeSha256HexFromBytes(data: Uint8Array): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    // Sin SHA-256 no hay backup: un hash debil puede colisionar y restaurar bytes de otro archivo.
+    throw new Error('No se pudo crear el backup: WebCrypto (SHA-256) no esta disponible.');
+  }
+
+  const digest = await subtle.digest('SHA-256', new Uint8Array(data));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 function normalizeFolderPath(path: string): string {
   const normalized = normalizePath(path).trim();
   if (!normalized) {
@@ -854,6 +949,31 @@ async function libraryFilePath(): Promise<string> {
   return joinPath(libraryRoot, LIBRARY_FILE);
 }
 
+// La clave del servidor IA vive en la carpeta de datos de la app: config.json viaja con el
+// libro (sincronizacion, backups) y no debe llevar credenciales.
+async function aiCredentialsFilePath(): Promise<string> {
+  const appRoot = normalizePath(await appDataDir());
+  await mkdir(appRoot, { recursive: true });
+  return joinPath(appRoot, AI_CREDENTIALS_FILE);
+}
+
+async function loadAiApiKey(): Promise<string> {
+  const credentialsPath = await aiCredentialsFilePath();
+  if (!(await exists(credentialsPath))) {
+    return '';
+  }
+  try {
+    const loaded = await readJson<{ aiApiKey?: unknown }>(credentialsPath);
+    return typeof loaded.aiApiKey === 'string' ? loaded.aiApiKey.trim() : '';
+  } catch {
+    return '';
+  }
+}
+
+async function saveAiApiKey(apiKey: string): Promise<void> {
+  await writeJson(await aiCredentialsFilePath(), { aiApiKey: apiKey.trim() });
+}
+
 function versionsDirPath(bookPath: string): string {
   return joinPath(bookPath, VERSIONS_DIR);
 }
@@ -1104,13 +1224,34 @@ function normalizeStoryText(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
 }
 
+function normalizeChapterScenes(value: unknown): ChapterScene[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+
+  return value.map((entry): ChapterScene => {
+    const payload = (entry && typeof entry === 'object' ? entry : {}) as Partial<ChapterScene>;
+    const status = payload.status === 'en_revision' || payload.status === 'final' || payload.status === 'borrador'
+      ? payload.status
+      : undefined;
+    return {
+      id: normalizeStoryText(payload.id) || randomId('scene'),
+      pointOfView: normalizeStoryText(payload.pointOfView),
+      location: normalizeStoryText(payload.location),
+      timelineEventId: normalizeStoryText(payload.timelineEventId) || null,
+      synopsis: typeof payload.synopsis === 'string' ? payload.synopsis.trim() : '',
+      status,
+    };
+  });
+}
+
 function normalizeChapterManuscriptNotes(value: unknown): ChapterManuscriptNote[] {
   if (!Array.isArray(value)) {
     return [];
   }
 
   return value
-    .map((entry) => {
+    .map((entry): ChapterManuscriptNote | null => {
       if (!entry || typeof entry !== 'object') {
         return null;
       }
@@ -1122,11 +1263,24 @@ function normalizeChapterManuscriptNotes(value: unknown): ChapterManuscriptNote[
       }
 
       const now = getNowIso();
+      const replies = Array.isArray(payload.replies)
+        ? payload.replies
+            .filter((reply): reply is ChapterManuscriptNoteReply => Boolean(reply) && typeof reply === 'object')
+            .map((reply) => ({
+              id: normalizeStoryText(reply.id) || randomId('reply'),
+              author: normalizeStoryText(reply.author),
+              note: normalizeStoryText(reply.note),
+              createdAt: normalizeStoryText(reply.createdAt) || now,
+            }))
+            .filter((reply) => reply.note.length > 0)
+        : [];
       return {
         id: normalizeStoryText(payload.id) || randomId('note'),
         excerpt: typeof payload.excerpt === 'string' ? payload.excerpt.trim() : '',
         note,
+        author: normalizeStoryText(payload.author),
         status: payload.status === 'resolved' ? 'resolved' : 'open',
+        replies,
         createdAt: normalizeStoryText(payload.createdAt) || now,
         updatedAt: normalizeStoryText(payload.updatedAt) || normalizeStoryText(payload.createdAt) || now,
       } satisfies ChapterManuscriptNote;
@@ -2306,6 +2460,7 @@ function ensureSagaMetadata(metadata: SagaMetadata): SagaMetadata {
     title: normalizeStoryText(metadata.title) || 'Mi saga',
     description: normalizeStoryText(metadata.description),
     strictValidationMode: metadata.strictValidationMode === true,
+    pronunciationLexicon: normalizePronunciationEntries(metadata.pronunciationLexicon),
     books: ensureSagaBookLinks(metadata.books),
     worldBible: ensureSagaWorldBible(metadata.worldBible),
     createdAt: normalizeStoryText(metadata.createdAt) || getNowIso(),
@@ -2422,6 +2577,7 @@ function ensureChapterDocument(chapter: Partial<ChapterDocument>): ChapterDocume
     // Persistimos HTML como fuente de verdad para reducir peso en disco.
     contentJson: null,
     manuscriptNotes: normalizeChapterManuscriptNotes(chapter.manuscriptNotes),
+    scenes: normalizeChapterScenes(chapter.scenes),
     lengthPreset: resolveChapterLengthPreset(chapter.lengthPreset),
     createdAt: normalizeStoryText(chapter.createdAt) || now,
     updatedAt: normalizeStoryText(chapter.updatedAt) || normalizeStoryText(chapter.createdAt) || now,
@@ -3031,11 +3187,57 @@ export async function recordAiTrustIncident(
   return next;
 }
 
-export async function writeAiSessionAudit(
+// Escrituras de auditoria en serie por libro: cada registro necesita el hash del anterior.
+const aiAuditWriteQueues = new Map<string, Promise<unknown>>();
+
+function aiAuditChainHeadPath(bookPath: string): string {
+  return joinPath(aiAuditDirPath(bookPath), AI_AUDIT_CHAIN_HEAD_FILE);
+}
+
+async function readAiAuditRecords(bookPath: string): Promise<Array<{ fileName: string; record: AiAuditRecord | null }>> {
+  const auditDir = aiAuditDirPath(bookPath);
+  if (!(await exists(auditDir))) {
+    return [];
+  }
+
+  const entries = (await readDir(auditDir))
+    .filter((entry) => !entry.isDirectory && entry.name.endsWith('.json') && entry.name !== AI_AUDIT_CHAIN_HEAD_FILE)
+    .sort((left, right) => left.name.localeCompare(right.name));
+  const records: Array<{ fileName: string; record: AiAuditRecord | null }> = [];
+  for (const entry of entries) {
+    try {
+      records.push({ fileName: entry.name, record: await readJson<AiAuditRecord>(joinPath(auditDir, entry.name)) });
+    } catch {
+      records.push({ fileName: entry.name, record: null });
+    }
+  }
+  return records;
+}
+
+// Sin chain-head.json (libros previos o archivo borrado) se retoma desde el ultimo registro encadenado.
+async function resolveAiAuditChainHead(bookPath: string): Promise<AiAuditChainHead | null> {
+  const headPath = aiAuditChainHeadPath(bookPath);
+  if (await exists(headPath)) {
+    try {
+      return await readJson<AiAuditChainHead>(headPath);
+    } catch {
+      // Se reconstruye abajo.
+    }
+  }
+
+  let head: AiAuditChainHead | null = null;
+  for (const { fileName, record } of await readAiAuditRecords(bookPath)) {
+    if (record?.version === 2 && typeof record.sequence === 'number' && record.sequence > (head?.sequence ?? 0)) {
+      head = { sequence: record.sequence, hash: record.hash, fileName, updatedAt: record.createdAt };
+    }
+  }
+  return head;
+}
+
+async function appendAiSessionAudit(
   bookPath: string,
   input: AiSessionAuditInput,
 ): Promise<{ auditPath: string; hash: string; chapterCount: number }> {
-  const normalizedBookPath = normalizeFolderPath(sanitizeIncomingPath(bookPath));
   const createdAt = getNowIso();
   const chapterSummaries = input.chapterChanges.map((chapter) => {
     const beforeWords = stripHtml(plainTextToHtml(chapter.beforeText)).split(/\s+/).filter(Boolean).length;
@@ -3051,29 +3253,12 @@ export async function writeAiSessionAudit(
     };
   });
 
-  const hashSeed = JSON.stringify({
-    sessionId: input.sessionId,
-    scope: input.scope,
-    operation: input.operation,
-    status: input.status,
-    reason: input.reason ?? '',
-    chapterSummaries: chapterSummaries.map((entry) => ({
-      chapterId: entry.chapterId,
-      chapterTitle: entry.chapterTitle,
-      beforeText: entry.beforeText,
-      afterText: entry.afterText,
-      beforeWords: entry.beforeWords,
-      afterWords: entry.afterWords,
-      deltaWords: entry.deltaWords,
-    })),
-    metadata: input.metadata ?? {},
-  });
-  const hash = await computeSha256Hex(hashSeed);
-
-  const payload = {
-    version: 1,
-    hash,
+  const previous = await resolveAiAuditChainHead(bookPath);
+  const unsigned: Omit<AiAuditRecord, 'hash'> = {
+    version: 2,
     createdAt,
+    sequence: (previous?.sequence ?? 0) + 1,
+    previousHash: previous?.hash ?? null,
     sessionId: input.sessionId,
     scope: input.scope,
     operation: input.operation,
@@ -3083,10 +3268,19 @@ export async function writeAiSessionAudit(
     chapterSummaries,
     metadata: input.metadata ?? {},
   };
+  const hash = await computeSha256Hex(buildAiAuditHashSeed(unsigned));
+  const payload: AiAuditRecord = { ...unsigned, hash };
 
   const safeSessionId = safeFileName(input.sessionId || randomId('session'));
   const fileName = `${toAuditTimestampSegment(createdAt)}-${safeSessionId}-${hash.slice(0, 12)}.json`;
-  const auditPath = await writeAuditRecordFile(normalizedBookPath, fileName, payload);
+  const auditPath = await writeAuditRecordFile(bookPath, fileName, payload);
+  const head: AiAuditChainHead = {
+    sequence: payload.sequence ?? 0,
+    hash,
+    fileName: auditPath.split('/').pop() ?? fileName,
+    updatedAt: createdAt,
+  };
+  await writeJson(aiAuditChainHeadPath(bookPath), head);
   return {
     auditPath,
     hash,
@@ -3094,6 +3288,51 @@ export async function writeAiSessionAudit(
   };
 }
 
+export async function writeAiSessionAudit(
+  bookPath: string,
+  input: AiSessionAuditInput,
+): Promise<{ auditPath: string; hash: string; chapterCount: number }> {
+  const normalizedBookPath = normalizeFolderPath(sanitizeIncomingPath(bookPath));
+  const previousWrite = aiAuditWriteQueues.get(normalizedBookPath) ?? Promise.resolve();
+  const write = previousWrite.catch(() => undefined).then(() => appendAiSessionAudit(normalizedBookPath, input));
+  aiAuditWriteQueues.set(normalizedBookPath, write);
+  try {
+    return await write;
+  } finally {
+    if (aiAuditWriteQueues.get(normalizedBookPath) === write) {
+      aiAuditWriteQueues.delete(normalizedBookPath);
+    }
+  }
+}
+
+export async function loadAiAuditRecords(bookPath: string): Promise<AiAuditRecord[]> {
+  const normalizedBookPath = normalizeFolderPath(sanitizeIncomingPath(bookPath));
+  return (await readAiAuditRecords(normalizedBookPath)).flatMap((entry) => (entry.record ? [entry.record] : []));
+}
+
+export async function verifyAiAuditChain(bookPath: string): Promise<AiAuditVerificationReport> {
+  const normalizedBookPath = normalizeFolderPath(sanitizeIncomingPath(bookPath));
+  const entries: AiAuditVerificationEntry[] = [];
+  for (const { fileName, record } of await readAiAuditRecords(normalizedBookPath)) {
+    entries.push({
+      fileName,
+      record,
+      computedHash: record ? await computeSha256Hex(buildAiAuditHashSeed(record)) : null,
+    });
+  }
+
+  const headPath = aiAuditChainHeadPath(normalizedBookPath);
+  let head: AiAuditChainHead | null = null;
+  if (await exists(headPath)) {
+    try {
+      head = await readJson<AiAuditChainHead>(headPath);
+    } catch {
+      head = null;
+    }
+  }
+  return analyzeAiAuditChain(entries, head, getNowIso());
+}
+
 export async function startAiTransaction(
   bookPath: string,
   input: {
@@ -3299,6 +3538,34 @@ function normalizeEditorialChecklistCustomItems(value: unknown): EditorialCheckl
   });
 }
 
+function normalizePronunciationEntries(value: unknown): PronunciationEntry[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+
+    const item = entry as Partial<PronunciationEntry>;
+    const term = typeof item.term === 'string' ? item.term.trim() : '';
+    if (!term) {
+      return [];
+    }
+
+    return [
+      {
+        id: typeof item.id === 'string' && item.id.trim() ? item.id.trim() : randomId('pron'),
+        term,
+        respelling: typeof item.respelling === 'string' ? item.respelling.trim() : '',
+        ipa: typeof item.ipa === 'string' ? item.ipa.trim() : '',
+        source: item.source === 'character' || item.source === 'conlang' ? item.source : 'manual',
+      },
+    ];
+  });
+}
+
 function ensureBookMetadata(metadata: BookMetadata): BookMetadata {
   return {
     ...metadata,
@@ -3316,6 +3583,7 @@ function ensureBookMetadata(metadata: BookMetadata): BookMetadata {
     isPublished: metadata.isPublished ?? false,
     publishedAt: metadata.publishedAt ?? null,
     editorialChecklistCustom: normalizeEditorialChecklistCustomItems(metadata.editorialChecklistCustom),
+    pronunciationLexicon: normalizePronunciationEntries(metadata.pronunciationLexicon),
   };
 }
 
@@ -3397,16 +3665,25 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
     }
   }
 
+  const storedApiKey = await loadAiApiKey();
   if (!(await exists(targetConfigPath))) {
     const createdConfig: AppConfig = {
       ...DEFAULT_APP_CONFIG,
       language: bookLanguageHint,
     };
     await writeJson(targetConfigPath, createdConfig);
-    return createdConfig;
+    return { ...createdConfig, aiApiKey: storedApiKey };
   }
 
   const loaded = await readJson<Partial<AppConfig>>(targetConfigPath);
+  // Configs antiguas guardaban la clave en el libro: se mueve a la app y se borra del libro.
+  const legacyApiKey = typeof loaded.aiApiKey === 'string' ? loaded.aiApiKey.trim() : '';
+  if (legacyApiKey) {
+    if (!storedApiKey) {
+      await saveAiApiKey(legacyApiKey);
+    }
+    await writeJson(targetConfigPath, { ...loaded, aiApiKey: '' });
+  }
   const hasExplicitLanguage = typeof loaded.language === 'string' && loaded.language.trim().length > 0;
   const fallbackTopP = normalizeFiniteNumber(DEFAULT_APP_CONFIG.ollamaOptions.top_p, 0.9, { min: 0, max: 1 });
   const loadedTopP =
@@ -3415,6 +3692,9 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
       : undefined;
 
   return {
+    aiProvider: loaded.aiProvider === 'openai-compatible' ? loaded.aiProvider : DEFAULT_APP_CONFIG.aiProvider,
+    aiBaseUrl: typeof loaded.aiBaseUrl === 'string' ? loaded.aiBaseUrl.trim() : DEFAULT_APP_CONFIG.aiBaseUrl,
+    aiApiKey: storedApiKey || legacyApiKey,
     model: typeof loaded.model === 'string' && loaded.model.trim() ? loaded.model.trim() : DEFAULT_APP_CONFIG.model,
     language: hasExplicitLanguage
       ? normalizeLanguageCode(loaded.language)
@@ -3441,6 +3721,14 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
         : DEFAULT_APP_CONFIG.audioVoiceName,
     audioRate: normalizeFiniteNumber(loaded.audioRate, DEFAULT_APP_CONFIG.audioRate, { min: 0.5, max: 2 }),
     audioVolume: normalizeFiniteNumber(loaded.audioVolume, DEFAULT_APP_CONFIG.audioVolume, { min: 0, max: 1 }),
+    audioEngine:
+      loaded.audioEngine === 'system' || loaded.audioEngine === 'piper' || loaded.audioEngine === 'espeak'
+        ? loaded.audioEngine
+        : DEFAULT_APP_CONFIG.audioEngine,
+    audioEnginePath:
+      typeof loaded.audioEnginePath === 'string' ? loaded.audioEnginePath.trim() : DEFAULT_APP_CONFIG.audioEnginePath,
+    audioVoiceModel:
+      typeof loaded.audioVoiceModel === 'string' ? loaded.audioVoiceModel.trim() : DEFAULT_APP_CONFIG.audioVoiceModel,
     aiResponseMode:
       loaded.aiResponseMode === 'rapido' || loaded.aiResponseMode === 'calidad'
         ? loaded.aiResponseMode
@@ -3484,6 +3772,15 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
     backupIntervalMs: Math.round(
       normalizeFiniteNumber(loaded.backupIntervalMs, DEFAULT_APP_CONFIG.backupIntervalMs, { min: 20000 }),
     ),
+    backupRetentionHourly: Math.round(
+      normalizeFiniteNumber(loaded.backupRetentionHourly, DEFAULT_APP_CONFIG.backupRetentionHourly, { min: 0, max: 500 }),
+    ),
+    backupRetentionDaily: Math.round(
+      normalizeFiniteNumber(loaded.backupRetentionDaily, DEFAULT_APP_CONFIG.backupRetentionDaily, { min: 0, max: 500 }),
+    ),
+    backupRetentionWeekly: Math.round(
+      normalizeFiniteNumber(loaded.backupRetentionWeekly, DEFAULT_APP_CONFIG.backupRetentionWeekly, { min: 0, max: 500 }),
+    ),
     expertWriterMode: normalizeBoolean(loaded.expertWriterMode, DEFAULT_APP_CONFIG.expertWriterMode),
     accessibilityHighContrast: normalizeBoolean(
       loaded.accessibilityHighContrast,
@@ -3493,6 +3790,7 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
       loaded.accessibilityLargeText,
       DEFAULT_APP_CONFIG.accessibilityLargeText,
     ),
+    reviewerName: typeof loaded.reviewerName === 'string' ? loaded.reviewerName.trim() : DEFAULT_APP_CONFIG.reviewerName,
     ollamaOptions: {
       ...DEFAULT_APP_CONFIG.ollamaOptions,
       ...(loaded.ollamaOptions ?? {}),
@@ -3508,7 +3806,8 @@ export async function loadAppConfig(bookPath: string): Promise<AppConfig> {
 export async function saveAppConfig(bookPath: string, config: AppConfig): Promise<void> {
   const normalizedBookPath = normalizePath(bookPath);
   await mkdir(normalizedBookPath, { recursive: true });
-  await writeJson(configFilePath(normalizedBookPath), config);
+  await saveAiApiKey(config.aiApiKey);
+  await writeJson(configFilePath(normalizedBookPath), { ...config, aiApiKey: '' });
 }
 
 export async function createBookProject(
@@ -3534,6 +3833,55 @@ export async function createBookProject(
   };
 }
 
+export async function importBookProject(
+  parentDirectory: string,
+  title: string,
+  author: string,
+  chapters: Array<Pick<ChapterDocument, 'title' | 'content'>>,
+  details: { language?: string; isbn?: string } = {},
+): Promise<BookProject> {
+  if (chapters.length === 0) {
+    throw new Error('No hay capitulos para importar.');
+  }
+
+  const created = await createBookProject(parentDirectory, title, author);
+  const now = getNowIso();
+  const chapterOrder: string[] = [];
+  const documents: Record<string, ChapterDocument> = {};
+
+  for (const [index, source] of chapters.entries()) {
+    const id = String(index + 1).padStart(2, '0');
+    const chapter = ensureChapterDocument({
+      id,
+      title: source.title.trim() || chapterDisplayTitle(id, index),
+      content: source.content,
+      pointOfView: '',
+      lengthPreset: 'media',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await writeJson(chapterFilePath(created.path, id), chapter);
+    chapterOrder.push(id);
+    documents[id] = chapter;
+  }
+
+  const language = details.language?.trim() ? normalizeLanguageCode(details.language) : '';
+  const metadata = await saveBookMetadata(created.path, {
+    ...created.metadata,
+    chapterOrder,
+    amazon: {
+      ...created.metadata.amazon,
+      language: language || created.metadata.amazon.language,
+      isbn: details.isbn?.trim() || created.metadata.amazon.isbn,
+    },
+  });
+  return {
+    path: created.path,
+    metadata,
+    chapters: documents,
+  };
+}
+
 export async function createSagaProject(
   parentDirectory: string,
   title: string,
@@ -3703,10 +4051,14 @@ export async function saveSagaMetadata(
 }
 
 export async function saveChapter(bookPath: string, chapter: ChapterDocument): Promise<ChapterDocument> {
-  const nextChapter: ChapterDocument = ensureChapterDocument({
+  const normalized = ensureChapterDocument({
     ...chapter,
     updatedAt: getNowIso(),
   });
+  const nextChapter: ChapterDocument = {
+    ...normalized,
+    manuscriptNotes: refreshManuscriptNoteExcerpts(normalized.content, normalized.manuscriptNotes ?? []),
+  };
 
   await writeJson(chapterFilePath(bookPath, chapter.id), nextChapter);
   return nextChapter;
@@ -3777,6 +4129,57 @@ export async function duplicateChapter(
   };
 }
 
+// Orden de escritura pensado para no perder texto si algo falla a mitad: primero el capitulo nuevo,
+// despues el orden del libro y al final se recorta el original.
+export async function splitChapter(
+  bookPath: string,
+  metadata: BookMetadata,
+  chapter: ChapterDocument,
+  sceneIndex: number,
+  sceneBreakGlyph?: string,
+): Promise<{ metadata: BookMetadata; chapter: ChapterDocument; created: ChapterDocument }> {
+  const { head, tail } = splitChapterAtScene(chapter, sceneIndex, sceneBreakGlyph);
+  const id = getNextChapterId(metadata.chapterOrder);
+  const now = getNowIso();
+  const created = ensureChapterDocument({
+    id,
+    title: `${chapter.title} (continuacion)`,
+    content: tail.content,
+    scenes: tail.scenes,
+    pointOfView: chapter.pointOfView,
+    status: chapter.status,
+    lengthPreset: chapter.lengthPreset,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await writeJson(chapterFilePath(bookPath, id), created);
+
+  const sourceIndex = metadata.chapterOrder.indexOf(chapter.id);
+  const nextOrder = [...metadata.chapterOrder];
+  nextOrder.splice(sourceIndex < 0 ? nextOrder.length : sourceIndex + 1, 0, id);
+  const nextMetadata: BookMetadata = { ...metadata, chapterOrder: nextOrder, updatedAt: now };
+  await saveBookMetadata(bookPath, nextMetadata);
+
+  const savedHead = await saveChapter(bookPath, { ...head, updatedAt: now });
+  return { metadata: nextMetadata, chapter: savedHead, created };
+}
+
+// El capitulo unido se guarda antes de borrar el segundo: ante un fallo queda texto duplicado, nunca perdido.
+export async function mergeChapters(
+  bookPath: string,
+  metadata: BookMetadata,
+  first: ChapterDocument,
+  second: ChapterDocument,
+  sceneBreakGlyph?: string,
+): Promise<{ metadata: BookMetadata; chapter: ChapterDocument }> {
+  if (first.id === second.id) {
+    throw new Error('No se puede unir un capitulo consigo mismo.');
+  }
+  const merged = await saveChapter(bookPath, mergeChapterContents(first, second, sceneBreakGlyph));
+  const nextMetadata = await deleteChapter(bookPath, metadata, second.id);
+  return { metadata: nextMetadata, chapter: merged };
+}
+
 export async function renameChapter(
   bookPath: string,
   chapter: ChapterDocument,
@@ -3943,31 +4346,348 @@ export async function restoreLastSnapshot(
   return restored;
 }
 
+export interface DraftBranchContents {
+  branch: DraftBranch;
+  chapters: Record<string, ChapterDocument>;
+  chapterOrder: string[];
+  base: Record<string, ChapterDocument>;
+}
+
+function draftBranchesDirPath(bookPath: string): string {
+  return joinPath(versionsDirPath(bookPath), DRAFT_BRANCHES_DIR);
+}
+
+function draftBranchChaptersDirPath(bookPath: string, branchId: string, kind: 'chapters' | 'base'): string {
+  return joinPath(draftBranchesDirPath(bookPath), branchId, kind);
+}
+
+async function writeDraftBranchChapters(
+  bookPath: string,
+  branchId: string,
+  kind: 'chapters' | 'base',
+  chapters: ChapterDocument[],
+): Promise<void> {
+  const directory = draftBranchChaptersDirPath(bookPath, branchId, kind);
+  if (await exists(directory)) {
+    await remove(directory, { recursive: true });
+  }
+  await mkdir(directory, { recursive: true });
+  for (const chapter of chapters) {
+    await writeJson(joinPath(directory, `${chapter.id}.json`), chapter);
+  }
+}
+
+async function readDraftBranchChapters(
+  bookPath: string,
+  branchId: string,
+  kind: 'chapters' | 'base',
+): Promise<Record<string, ChapterDocument>> {
+  const directory = draftBranchChaptersDirPath(bookPath, branchId, kind);
+  const chapters: Record<string, ChapterDocument> = {};
+  if (!(await exists(directory))) {
+    return chapters;
+  }
+
+  for (const entry of await readDir(directory)) {
+    if (!entry.isFile || !entry.name.toLowerCase().endsWith('.json')) {
+      continue;
+    }
+    try {
+      const chapter = ensureChapterDocument(await readJson<ChapterDocument>(joinPath(directory, entry.name)));
+      chapters[chapter.id] = chapter;
+    } catch {
+      // Ignora copias corruptas de la rama y sigue con las demas.
+    }
+  }
+  return chapters;
+}
+
+function projectChapterList(project: BookProject): ChapterDocument[] {
+  return project.metadata.chapterOrder
+    .map((chapterId) => project.chapters[chapterId])
+    .filter((chapter): chapter is ChapterDocument => Boolean(chapter))
+    .map((chapter) => ({ ...chapter, contentJson: null }));
+}
+
+async function saveDraftBranchIndex(bookPath: string, index: DraftBranchIndex): Promise<DraftBranchIndex> {
+  await mkdir(draftBranchesDirPath(bookPath), { recursive: true });
+  await writeJson(joinPath(draftBranchesDirPath(bookPath), DRAFT_BRANCHES_INDEX_FILE), index);
+  return index;
+}
+
+export async function loadDraftBranchIndex(bookPath: string, chapterOrder: string[]): Promise<DraftBranchIndex> {
+  const indexPath = joinPath(draftBranchesDirPath(bookPath), DRAFT_BRANCHES_INDEX_FILE);
+  const fallback = buildDefaultDraftBranchIndex(chapterOrder, getNowIso());
+  if (!(await exists(indexPath))) {
+    return fallback;
+  }
+
+  try {
+    const loaded = await readJson<Partial<DraftBranchIndex>>(indexPath);
+    const branches = Array.isArray(loaded.branches) ? loaded.branches : [];
+    return {
+      activeBranchId:
+        typeof loaded.activeBranchId === 'string' && branches.some((branch) => branch.id === loaded.activeBranchId)
+          ? loaded.activeBranchId
+          : MAIN_DRAFT_BRANCH_ID,
+      branches: branches.some((branch) => branch.id === MAIN_DRAFT_BRANCH_ID)
+        ? branches
+        : [...fallback.branches, ...branches],
+      merges: Array.isArray(loaded.merges) ? loaded.merges : [],
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+export async function createDraftBranch(project: BookProject, name: string): Promise<DraftBranchIndex> {
+  const cleanName = name.trim();
+  if (!cleanName) {
+    throw new Error('La rama necesita un nombre.');
+  }
+
+  const index = await loadDraftBranchIndex(project.path, project.metadata.chapterOrder);
+  const baseId = slugify(cleanName) || 'rama';
+  let branchId = baseId;
+  for (let suffix = 2; index.branches.some((branch) => branch.id === branchId); suffix += 1) {
+    branchId = `${baseId}-${suffix}`;
+  }
+
+  const now = getNowIso();
+  const chapters = projectChapterList(project);
+  await writeDraftBranchChapters(project.path, branchId, 'base', chapters);
+  await writeDraftBranchChapters(project.path, branchId, 'chapters', chapters);
+
+  return saveDraftBranchIndex(project.path, {
+    ...index,
+    branches: [
+      ...index.branches,
+      {
+        id: branchId,
+        name: cleanName,
+        forkedFrom: index.activeBranchId,
+        createdAt: now,
+        updatedAt: now,
+        chapterOrder: [...project.metadata.chapterOrder],
+        baseChapterOrder: [...project.metadata.chapterOrder],
+      },
+    ],
+  });
+}
+
+export async function loadDraftBranchContents(
+  bookPath: string,
+  index: DraftBranchIndex,
+  branchId: string,
+): Promise<DraftBranchContents> {
+  const branch = index.branches.find((entry) => entry.id === branchId);
+  if (!branch) {
+    throw new Error(`No existe la rama ${branchId}.`);
+  }
+  if (branch.id === index.activeBranchId) {
+    throw new Error('La rama activa se edita en chapters/; no hay copia aparte que cargar.');
+  }
+
+  return {
+    branch,
+    chapters: await readDraftBranchChapters(bookPath, branchId, 'chapters'),
+    chapterOrder: branch.chapterOrder,
+    base: await readDraftBranchChapters(bookPath, branchId, 'base'),
+  };
+}
+
+// Guarda la rama activa en versions/branches y vuelca la rama elegida en chapters/.
+export async function switchDraftBranch(
+  project: BookProject,
+  branchId: string,
+): Promise<{ index: DraftBranchIndex; project: BookProject }> {
+  const index = await loadDraftBranchIndex(project.path, project.metadata.chapterOrder);
+  if (branchId === index.activeBranchId) {
+    return { index, project };
+  }
+
+  const target = await loadDraftBranchContents(project.path, index, branchId);
+  const now = getNowIso();
+  await writeDraftBranchChapters(project.path, index.activeBranchId, 'chapters', projectChapterList(project));
+
+  for (const chapterId of project.metadata.chapterOrder) {
+    if (!target.chapters[chapterId]) {
+      const chapterPath = chapterFilePath(project.path, chapterId);
+      if (await exists(chapterPath)) {
+        await remove(chapterPath);
+      }
+    }
+  }
+
+  const chapterOrder = target.chapterOrder.filter((chapterId) => Boolean(target.chapters[chapterId]));
+  const chapters: Record<string, ChapterDocument> = {};
+  for (const chapterId of chapterOrder) {
+    chapters[chapterId] = await saveChapter(project.path, target.chapters[chapterId]);
+  }
+  const metadata = await saveBookMetadata(project.path, { ...project.metadata, chapterOrder });
+
+  const nextIndex = await saveDraftBranchIndex(project.path, {
+    ...index,
+    activeBranchId: branchId,
+    branches: index.branches.map((branch) =>
+      branch.id === index.activeBranchId
+        ? { ...branch, chapterOrder: [...project.metadata.chapterOrder], updatedAt: now }
+        : branch,
+    ),
+  });
+
+  return { index: nextIndex, project: { ...project, metadata, chapters } };
+}
+
+export async function deleteDraftBranch(
+  bookPath: string,
+  index: DraftBranchIndex,
+  branchId: string,
+): Promise<DraftBranchIndex> {
+  if (branchId === MAIN_DRAFT_BRANCH_ID || branchId === index.activeBranchId) {
+    throw new Error('No se puede borrar la rama principal ni la rama activa.');
+  }
+
+  const branchPath = joinPath(draftBranchesDirPath(bookPath), branchId);
+  if (await exists(branchPath)) {
+    await remove(branchPath, { recursive: true });
+  }
+  return saveDraftBranchIndex(bookPath, {
+    ...index,
+    branches: index.branches.filter((branch) => branch.id !== branchId),
+  });
+}
+
+// Tras fusionar un capitulo, su base pasa a ser la version de la rama para no repetir conflictos.
+export async function recordDraftChapterMerge(
+  bookPath: string,
+  index: DraftBranchIndex,
+  record: DraftMergeRecord,
+  mergedFromBranch: ChapterDocument | null,
+): Promise<DraftBranchIndex> {
+  const baseDirectory = draftBranchChaptersDirPath(bookPath, record.branchId, 'base');
+  await mkdir(baseDirectory, { recursive: true });
+  // La base se indexa con el id de la rama, que puede diferir del destino si el capitulo se renumero al fusionar.
+  const basePath = joinPath(baseDirectory, `${mergedFromBranch?.id ?? record.chapterId}.json`);
+  if (mergedFromBranch) {
+    await writeJson(basePath, { ...mergedFromBranch, contentJson: null });
+  } else if (await exists(basePath)) {
+    await remove(basePath);
+  }
+
+  return saveDraftBranchIndex(bookPath, {
+    ...index,
+    merges: [...index.merges, record],
+  });
+}
+
+function normalizeWritingGoalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+}
+
+function normalizeWritingSessionLog(value: unknown): WritingSessionLog {
+  const fallback = buildEmptyWritingSessionLog();
+  if (!value || typeof value !== 'object') {
+    return fallback;
+  }
+
+  const loaded = value as Partial<WritingSessionLog>;
+  const goals = (loaded.goals ?? {}) as Partial<WritingGoals>;
+  const days = (Array.isArray(loaded.days) ? loaded.days : []).flatMap((entry): WritingSessionDay[] => {
+    if (!entry || typeof entry !== 'object' || typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+      return [];
+    }
+
+    const chapters: Record<string, WritingSessionChapterStats> = {};
+    for (const [chapterId, stats] of Object.entries(entry.chapters ?? {})) {
+      const raw = (stats ?? {}) as Partial<WritingSessionChapterStats>;
+      chapters[chapterId] = {
+        added: normalizeWritingGoalNumber(raw.added) ?? 0,
+        removed: normalizeWritingGoalNumber(raw.removed) ?? 0,
+        activeSeconds: normalizeWritingGoalNumber(raw.activeSeconds) ?? 0,
+      };
+    }
+    return [{ date: entry.date, chapters }];
+  });
+  const sprints = (Array.isArray(loaded.sprints) ? loaded.sprints : []).flatMap((entry): WritingSprintResult[] => {
+    if (!entry || typeof entry !== 'object' || typeof entry.chapterId !== 'string' || typeof entry.startedAt !== 'string') {
+      return [];
+    }
+
+    return [
+      {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : randomId('sprint'),
+        chapterId: entry.chapterId,
+        startedAt: entry.startedAt,
+        plannedMinutes: normalizeWritingGoalNumber(entry.plannedMinutes) ?? 0,
+        durationSeconds: normalizeWritingGoalNumber(entry.durationSeconds) ?? 0,
+        startWords: normalizeWritingGoalNumber(entry.startWords) ?? 0,
+        endWords: normalizeWritingGoalNumber(entry.endWords) ?? 0,
+        completed: entry.completed !== false,
+      },
+    ];
+  });
+
+  return {
+    goals: {
+      dailyWords: normalizeWritingGoalNumber(goals.dailyWords),
+      targetWords: normalizeWritingGoalNumber(goals.targetWords),
+      deadline: typeof goals.deadline === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(goals.deadline) ? goals.deadline : null,
+    },
+    days: days.sort((left, right) => left.date.localeCompare(right.date)),
+    sprints,
+  };
+}
+
+export async function loadWritingSessionLog(bookPath: string): Promise<WritingSessionLog> {
+  const logPath = joinPath(bookPath, WRITING_SESSIONS_FILE);
+  if (!(await exists(logPath))) {
+    return buildEmptyWritingSessionLog();
+  }
+
+  try {
+    return normalizeWritingSessionLog(await readJson<unknown>(logPath));
+  } catch {
+    return buildEmptyWritingSessionLog();
+  }
+}
+
+export async function saveWritingSessionLog(bookPath: string, log: WritingSessionLog): Promise<WritingSessionLog> {
+  const normalized = normalizeWritingSessionLog(log);
+  await writeJson(joinPath(bookPath, WRITING_SESSIONS_FILE), normalized);
+  return normalized;
+}
+
 async function setBookImage(
   bookPath: string,
   metadata: BookMetadata,
-  sourceImagePath: string,
+  source: string | BookImageData,
   targetName: 'cover' | 'back-cover',
   field: 'coverImage' | 'backCoverImage',
 ): Promise<BookMetadata> {
-  const normalizedSourceImagePath = normalizePath(sanitizeIncomingPath(sourceImagePath));
-  if (!normalizedSourceImagePath) {
+  const normalizedSourceImagePath = typeof source === 'string' ? normalizePath(sanitizeIncomingPath(source)) : '';
+  if (typeof source === 'string' && !normalizedSourceImagePath) {
     throw new Error('Ruta de imagen invalida.');
   }
 
   const extensionMatch = normalizedSourceImagePath.match(/\.([a-zA-Z0-9]+)$/);
-  const extension = extensionMatch ? extensionMatch[1].toLowerCase() : 'png';
+  const extension =
+    typeof source === 'string' ? (extensionMatch ? extensionMatch[1].toLowerCase() : 'png') : source.extension.toLowerCase();
   const safeExtension = safeFileName(extension) || 'png';
 
   const relativeTarget = joinPath(ASSETS_DIR, `${targetName}.${safeExtension}`);
   const absoluteTarget = joinPath(bookPath, relativeTarget);
 
-  if (!(await exists(normalizedSourceImagePath))) {
+  if (typeof source === 'string' && !(await exists(normalizedSourceImagePath))) {
     throw new Error(`No se encontro la imagen seleccionada: ${normalizedSourceImagePath}`);
   }
 
   await mkdir(joinPath(bookPath, ASSETS_DIR), { recursive: true });
-  await copyFile(normalizedSourceImagePath, absoluteTarget);
+  if (typeof source === 'string') {
+    await copyFile(normalizedSourceImagePath, absoluteTarget);
+  } else {
+    await writeFile(absoluteTarget, source.data);
+  }
 
   const nextMetadata: BookMetadata = {
     ...metadata,
@@ -4005,9 +4725,9 @@ async function clearBookImage(
 export async function setCoverImage(
   bookPath: string,
   metadata: BookMetadata,
-  sourceImagePath: string,
+  source: string | BookImageData,
 ): Promise<BookMetadata> {
-  return setBookImage(bookPath, metadata, sourceImagePath, 'cover', 'coverImage');
+  return setBookImage(bookPath, metadata, source, 'cover', 'coverImage');
 }
 
 export async function setBackCoverImage(
@@ -4149,6 +4869,51 @@ function sanitizeExportFileName(fileName: string, fallbackExtension: string): st
   return `${safeBase}.${safeExtension}`;
 }
 
+async function readFirstExistingFile(paths: string[]): Promise<Uint8Array | null> {
+  for (const path of paths) {
+    try {
+      if (await exists(path)) {
+        return await readFile(path);
+      }
+    } catch {
+      // Ruta fuera de alcance o ilegible: se prueba la siguiente.
+    }
+  }
+
+  return null;
+}
+
+// Fuentes del PDF interior: primero `assets/fonts/interior-*.ttf` del libro, luego serif del sistema.
+// Devuelve null si no hay ninguna; el maquetador usa entonces Times con WinAnsi.
+export async function loadPdfInteriorFonts(bookPath: string): Promise<PdfFontFaces | null> {
+  const faceKeys = Object.keys(BOOK_PDF_FONT_FILE_NAMES) as PdfFontFaceKey[];
+  const bookFontsPath = joinPath(bookPath, ASSETS_DIR, 'fonts');
+  const families = [
+    {
+      files: Object.fromEntries(
+        faceKeys.map((faceKey) => [faceKey, [joinPath(bookFontsPath, BOOK_PDF_FONT_FILE_NAMES[faceKey])]]),
+      ) as Record<PdfFontFaceKey, string[]>,
+    },
+    ...PDF_FONT_FAMILY_CANDIDATES,
+  ];
+
+  for (const family of families) {
+    const regular = await readFirstExistingFile(family.files.regular);
+    if (!regular) {
+      continue;
+    }
+
+    return {
+      regular,
+      bold: await readFirstExistingFile(family.files.bold),
+      italic: await readFirstExistingFile(family.files.italic),
+      boldItalic: await readFirstExistingFile(family.files.boldItalic),
+    };
+  }
+
+  return null;
+}
+
 export async function writeTextExport(
   bookPath: string,
   fileName: string,
@@ -4320,20 +5085,6 @@ export async function readCollaborationPatchFile(filePath: string): Promise<Coll
   };
 }
 
-async function copyDirectoryRecursive(sourceDir: string, targetDir: string): Promise<void> {
-  await mkdir(targetDir, { recursive: true });
-  const entries = await readDir(sourceDir);
-  for (const entry of entries) {
-    const sourcePath = joinPath(sourceDir, entry.name);
-    const targetPath = joinPath(targetDir, entry.name);
-    if (entry.isDirectory) {
-      await copyDirectoryRecursive(sourcePath, targetPath);
-    } else {
-      await copyFile(sourcePath, targetPath);
-    }
-  }
-}
-
 function isNestedPath(parentPath: string, childPath: string): boolean {
   const normalizedParent = normalizeFolderPath(parentPath);
   const normalizedChild = normalizeFolderPath(childPath);
@@ -4372,9 +5123,11 @@ export function buildBackupSnapshotManifest(input: {
   linkedSagaPath: string | null;
   snapshotFolderName: string;
   items: BackupSnapshotManifestItem[];
+  files?: BackupSnapshotFileEntry[];
 }): BackupSnapshotManifest {
+  const files = input.files?.map((entry) => ({ ...entry, path: normalizePath(entry.path).replace(/^\/+/, '') }));
   return {
-    version: 1,
+    version: files ? 2 : 1,
     createdAt: input.createdAt,
     sourceBookPath: normalizeFolderPath(input.sourceBookPath),
     linkedSagaPath: input.linkedSagaPath ? normalizeFolderPath(input.linkedSagaPath) : null,
@@ -4384,6 +5137,7 @@ export function buildBackupSnapshotManifest(input: {
       sourcePath: normalizeFolderPath(item.sourcePath),
       targetRelativePath: normalizePath(item.targetRelativePath).replace(/^\/+/, ''),
     })),
+    ...(files ? { files } : {}),
   };
 }
 
@@ -4400,10 +5154,73 @@ async function resolveUniqueDirectoryPath(rootPath: string, preferredName: strin
   return candidate;
 }
 
+function backupObjectPath(backupRoot: string, hash: string): string {
+  return joinPath(backupRoot, BACKUP_OBJECTS_DIR, hash.slice(0, 2), hash);
+}
+
+async function collectDirectoryFiles(rootPath: string, relativePath = ''): Promise<string[]> {
+  const entries = await readDir(relativePath ? joinPath(rootPath, relativePath) : rootPath);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+    if (entry.isDirectory) {
+      files.push(...(await collectDirectoryFiles(rootPath, entryPath)));
+    } else {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// Un objeto cortado por una escritura interrumpida tiene otro tamano: no se reutiliza y se reescribe.
+async function isBackupObjectIntact(objectPath: string, size: number): Promise<boolean> {
+  if (!(await exists(objectPath))) {
+    return false;
+  }
+  try {
+    return (await stat(objectPath)).size === size;
+  } catch {
+    return false;
+  }
+}
+
+// Copia cada archivo al almacen por hash solo si no estaba; devuelve las entradas del manifest.
+async function storeDirectoryInBackupObjects(
+  backupRoot: string,
+  sourceRoot: string,
+  targetFolder: string,
+  stats: { stored: number; reused: number },
+): Promise<BackupSnapshotFileEntry[]> {
+  const entries: BackupSnapshotFileEntry[] = [];
+  for (const relativePath of await collectDirectoryFiles(sourceRoot)) {
+    const data = await readFile(joinPath(sourceRoot, relativePath));
+    const hash = await computeSha256HexFromBytes(data);
+    const objectPath = backupObjectPath(backupRoot, hash);
+    if (await isBackupObjectIntact(objectPath, data.length)) {
+      stats.reused += 1;
+    } else {
+      // Temporal + rename: el objeto final nunca queda a medio escribir.
+      await mkdir(joinPath(backupRoot, BACKUP_OBJECTS_DIR, hash.slice(0, 2)), { recursive: true });
+      const tempPath = `${objectPath}.tmp`;
+      try {
+        await writeFile(tempPath, data);
+        await rename(tempPath, objectPath);
+      } catch {
+        // Igual que writeJson: si rename falla se escribe directo; el tamano se revalida en el siguiente backup.
+        try { await remove(tempPath); } catch { /* ignorar limpieza */ }
+        await writeFile(objectPath, data);
+      }
+      stats.stored += 1;
+    }
+    entries.push({ path: `${targetFolder}/${relativePath}`, hash, size: data.length });
+  }
+  return entries;
+}
+
 export async function syncBookToBackupDirectory(
   bookPath: string,
   backupDirectory: string,
-  options?: { linkedSagaPath?: string | null; createdAt?: string },
+  options?: { linkedSagaPath?: string | null; createdAt?: string; retention?: BackupRetentionPolicy },
 ): Promise<BackupSnapshotResult> {
   const sourceRoot = normalizePath(bookPath);
   const backupRoot = normalizePath(backupDirectory);
@@ -4428,9 +5245,11 @@ export async function syncBookToBackupDirectory(
   const targetPath = await resolveUniqueDirectoryPath(backupRoot, snapshotFolderName);
   await mkdir(targetPath, { recursive: true });
 
+  const stats = { stored: 0, reused: 0 };
+  const files: BackupSnapshotFileEntry[] = [];
   const copiedItems: BackupSnapshotManifestItem[] = [];
   const bookFolderName = safeFileName(sourceRoot.split('/').filter(Boolean).pop() ?? 'book') || 'book';
-  await copyDirectoryRecursive(sourceRoot, joinPath(targetPath, bookFolderName));
+  files.push(...(await storeDirectoryInBackupObjects(backupRoot, sourceRoot, bookFolderName, stats)));
   copiedItems.push({
     kind: 'book',
     sourcePath: sourceRoot,
@@ -4445,7 +5264,7 @@ export async function syncBookToBackupDirectory(
       safeFileName(normalizedLinkedSagaPath.split('/').filter(Boolean).pop() ?? 'saga') || 'saga',
     );
     if (await exists(sagaFilePath(normalizedLinkedSagaPath))) {
-      await copyDirectoryRecursive(normalizedLinkedSagaPath, joinPath(targetPath, sagaTargetFolder));
+      files.push(...(await storeDirectoryInBackupObjects(backupRoot, normalizedLinkedSagaPath, sagaTargetFolder, stats)));
       copiedSaga = true;
       copiedItems.push({
         kind: 'saga',
@@ -4470,15 +5289,222 @@ export async function syncBookToBackupDirectory(
     linkedSagaPath: normalizedLinkedSagaPath,
     snapshotFolderName: targetPath.split('/').filter(Boolean).pop() ?? snapshotFolderName,
     items: copiedItems,
+    files,
   });
-  const manifestPath = joinPath(targetPath, 'backup-manifest.json');
+  const manifestPath = joinPath(targetPath, BACKUP_MANIFEST_FILE);
   await writeJson(manifestPath, manifest);
 
+  const pruned = options?.retention ? await pruneBackupSnapshots(backupRoot, sourceRoot, options.retention) : null;
+
   return {
     targetPath,
     manifestPath,
     copiedSaga,
+    storedFiles: stats.stored,
+    reusedFiles: stats.reused,
+    prunedSnapshots: pruned?.removedSnapshots ?? 0,
+  };
+}
+
+// Devuelve los manifests legibles y cuantos no se pudieron leer: listar los tolera, pero la
+// limpieza de objetos necesita el conjunto completo de referencias.
+async function readBackupSnapshotManifests(
+  backupRoot: string,
+): Promise<{ snapshots: Array<{ path: string; manifest: BackupSnapshotManifest }>; unreadable: number }> {
+  if (!(await exists(backupRoot))) {
+    return { snapshots: [], unreadable: 0 };
+  }
+
+  const snapshots: Array<{ path: string; manifest: BackupSnapshotManifest }> = [];
+  let unreadable = 0;
+  for (const entry of await readDir(backupRoot)) {
+    if (!entry.isDirectory || entry.name === BACKUP_OBJECTS_DIR) {
+      continue;
+    }
+    const snapshotPath = joinPath(backupRoot, entry.name);
+    const manifestPath = joinPath(snapshotPath, BACKUP_MANIFEST_FILE);
+    if (!(await exists(manifestPath))) {
+      continue;
+    }
+    try {
+      const manifest = await readJson<BackupSnapshotManifest>(manifestPath);
+      snapshots.push({ path: snapshotPath, manifest: { ...manifest, snapshotFolderName: entry.name } });
+    } catch {
+      // Un manifest ilegible no debe ocultar el resto de snapshots.
+      unreadable += 1;
+    }
+  }
+  return { snapshots, unreadable };
+}
+
+export async function listBackupSnapshots(backupDirectory: string, bookPath: string): Promise<BackupSnapshotSummary[]> {
+  const backupRoot = normalizeFolderPath(backupDirectory);
+  const sourceRoot = normalizeFolderPath(bookPath);
+  if (!backupRoot || !sourceRoot) {
+    return [];
+  }
+
+  return (await readBackupSnapshotManifests(backupRoot)).snapshots
+    .filter((entry) => normalizeFolderPath(entry.manifest.sourceBookPath ?? '') === sourceRoot)
+    .map((entry) => ({
+      folderName: entry.manifest.snapshotFolderName,
+      path: entry.path,
+      createdAt: entry.manifest.createdAt,
+      version: entry.manifest.version === 2 ? (2 as const) : (1 as const),
+      fileCount: entry.manifest.files?.length ?? 0,
+      copiedSaga: (entry.manifest.items ?? []).some((item) => item.kind === 'saga' && item.copied),
+    }))
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+}
+
+// Aplica la retencion a los snapshots del libro y borra del almacen los objetos que ya nadie referencia.
+export async function pruneBackupSnapshots(
+  backupDirectory: string,
+  bookPath: string,
+  policy: BackupRetentionPolicy,
+): Promise<{ removedSnapshots: number; removedObjects: number }> {
+  const backupRoot = normalizeFolderPath(backupDirectory);
+  const toPrune = selectBackupSnapshotsToPrune(await listBackupSnapshots(backupRoot, bookPath), policy);
+  for (const snapshot of toPrune) {
+    await remove(snapshot.path, { recursive: true });
+  }
+  if (toPrune.length === 0) {
+    return { removedSnapshots: 0, removedObjects: 0 };
+  }
+
+  const manifests = await readBackupSnapshotManifests(backupRoot);
+  if (manifests.unreadable > 0) {
+    // Un manifest ilegible (p. ej. un fallo de lectura en red o USB) puede referenciar objetos: no se borra ninguno.
+    return { removedSnapshots: toPrune.length, removedObjects: 0 };
+  }
+  const referenced = new Set(
+    manifests.snapshots.flatMap((entry) => (entry.manifest.files ?? []).map((file) => file.hash)),
+  );
+  const objectsRoot = joinPath(backupRoot, BACKUP_OBJECTS_DIR);
+  let removedObjects = 0;
+  if (await exists(objectsRoot)) {
+    for (const relativePath of await collectDirectoryFiles(objectsRoot)) {
+      const hash = relativePath.split('/').pop() ?? '';
+      if (!referenced.has(hash)) {
+        await remove(joinPath(objectsRoot, relativePath));
+        removedObjects += 1;
+      }
+    }
+  }
+
+  return { removedSnapshots: toPrune.length, removedObjects };
+}
+
+export async function loadBackupSnapshotChapters(
+  backupDirectory: string,
+  snapshotFolderName: string,
+): Promise<BackupSnapshotChapters> {
+  const backupRoot = normalizeFolderPath(backupDirectory);
+  const snapshotPath = joinPath(backupRoot, snapshotFolderName);
+  const manifest = await readJson<BackupSnapshotManifest>(joinPath(snapshotPath, BACKUP_MANIFEST_FILE));
+  const bookFolder = manifest.items.find((item) => item.kind === 'book')?.targetRelativePath;
+  if (!bookFolder) {
+    throw new Error('El snapshot no contiene el libro.');
+  }
+
+  const filesByPath = new Map((manifest.files ?? []).map((entry) => [entry.path, entry]));
+  const readSnapshotJson = async <T>(relativePath: string): Promise<T | null> => {
+    if (manifest.version === 2) {
+      const entry = filesByPath.get(`${bookFolder}/${relativePath}`);
+      return entry ? readJson<T>(backupObjectPath(backupRoot, entry.hash)) : null;
+    }
+    const path = joinPath(snapshotPath, bookFolder, relativePath);
+    return (await exists(path)) ? readJson<T>(path) : null;
   };
+
+  const bookJson = await readSnapshotJson<Partial<BookMetadata>>(BOOK_FILE);
+  const chapterOrder = Array.isArray(bookJson?.chapterOrder) ? bookJson.chapterOrder.filter((id) => typeof id === 'string') : [];
+  const chapters: ChapterDocument[] = [];
+  for (const chapterId of chapterOrder) {
+    const chapter = await readSnapshotJson<Partial<ChapterDocument>>(`${CHAPTERS_DIR}/${chapterId}.json`);
+    if (chapter) {
+      chapters.push(ensureChapterDocument({ ...chapter, id: chapterId }));
+    }
+  }
+
+  return { chapterOrder, chapters };
+}
+
+// Reconstruye el snapshot completo (libro, assets y saga) como carpetas normales en `targetDirectory`,
+// verificando el hash de cada objeto; el libro resultante se abre como cualquier otro.
+export async function materializeBackupSnapshot(
+  backupDirectory: string,
+  snapshotFolderName: string,
+  targetDirectory: string,
+): Promise<MaterializedBackupSnapshot> {
+  const backupRoot = normalizeFolderPath(backupDirectory);
+  const targetRoot = normalizeFolderPath(sanitizeIncomingPath(targetDirectory));
+  if (!backupRoot || !targetRoot) {
+    throw new Error('Ruta de restauracion invalida.');
+  }
+  if (isNestedPath(backupRoot, targetRoot)) {
+    throw new Error('La carpeta destino no puede estar dentro de la carpeta de backup.');
+  }
+
+  const snapshotPath = joinPath(backupRoot, snapshotFolderName);
+  const manifest = await readJson<BackupSnapshotManifest>(joinPath(snapshotPath, BACKUP_MANIFEST_FILE));
+  const bookFolder = manifest.items.find((item) => item.kind === 'book')?.targetRelativePath;
+  if (!bookFolder) {
+    throw new Error('El snapshot no contiene el libro.');
+  }
+
+  const targetPath = await resolveUniqueDirectoryPath(targetRoot, `restaurado-${snapshotFolderName}`);
+  await mkdir(targetPath, { recursive: true });
+  let fileCount = 0;
+  if (manifest.version === 2) {
+    for (const entry of manifest.files ?? []) {
+      const data = await readFile(backupObjectPath(backupRoot, entry.hash));
+      if (data.length !== entry.size || (await computeSha256HexFromBytes(data)) !== entry.hash) {
+        throw new Error(`Objeto dañado en el backup: ${entry.path}`);
+      }
+      const filePath = joinPath(targetPath, entry.path);
+      await mkdir(filePath.slice(0, filePath.lastIndexOf('/')), { recursive: true });
+      await writeFile(filePath, data);
+      fileCount += 1;
+    }
+  } else {
+    // v1 ya es una copia completa: basta con copiarla fuera de la carpeta de backup.
+    for (const relativePath of await collectDirectoryFiles(snapshotPath)) {
+      if (relativePath === BACKUP_MANIFEST_FILE) {
+        continue;
+      }
+      const filePath = joinPath(targetPath, relativePath);
+      await mkdir(filePath.slice(0, filePath.lastIndexOf('/')), { recursive: true });
+      await copyFile(joinPath(snapshotPath, relativePath), filePath);
+      fileCount += 1;
+    }
+  }
+
+  return { targetPath, bookPath: joinPath(targetPath, bookFolder), fileCount };
+}
+
+// Restaura capitulos del backup sobre el libro; los que ya no existen se agregan al final del orden.
+export async function restoreChaptersFromBackup(
+  bookPath: string,
+  metadata: BookMetadata,
+  chapters: ChapterDocument[],
+): Promise<{ metadata: BookMetadata; chapters: ChapterDocument[] }> {
+  const restored: ChapterDocument[] = [];
+  for (const chapter of chapters) {
+    restored.push(await saveChapter(bookPath, chapter));
+  }
+
+  const missingIds = restored.map((chapter) => chapter.id).filter((id) => !metadata.chapterOrder.includes(id));
+  if (missingIds.length === 0) {
+    return { metadata, chapters: restored };
+  }
+
+  const nextMetadata = await saveBookMetadata(bookPath, {
+    ...metadata,
+    chapterOrder: [...metadata.chapterOrder, ...missingIds],
+    updatedAt: getNowIso(),
+  });
+  return { metadata: nextMetadata, chapters: restored };
 }
 
 export async function loadLibraryIndex(): Promise<LibraryIndex> {
@@ -1,4 +1,11 @@
 import { countWordsFromPlainText } from './metrics';
+import {
+  lintProse,
+  PROSE_LINT_RULE_LABELS,
+  type ProseLintLanguage,
+  type ProseLintRuleId,
+  type ProseReadability,
+} from './proseLint';
 import { stripHtml } from './text';
 import type { ChapterDocument } from '../types/book';
 
@@ -10,6 +17,14 @@ export interface StyleRepetitionEntry {
   perThousand: number;
 }
 
+export interface StyleProseCheck {
+  rule: ProseLintRuleId;
+  label: string;
+  count: number;
+  perThousand: number;
+  level: StyleLevel;
+}
+
 export interface StyleAnalysis {
   wordCount: number;
   sentenceCount: number;
@@ -18,6 +33,11 @@ export interface StyleAnalysis {
   topRepetitions: StyleRepetitionEntry[];
   sentenceLengthLevel: StyleLevel;
   repetitionLevel: StyleLevel;
+  readability: ProseReadability;
+  readabilityLevel: StyleLevel;
+  proseChecks: StyleProseCheck[];
+  proseLevel: StyleLevel;
+  dialogueRatio: number;
   overallLevel: StyleLevel;
 }
 
@@ -46,6 +66,16 @@ const STOPWORDS = new Set<string>([
   'unos', 'unas', 'usted', 'ustedes', 'very', 'with', 'without', 'your',
 ]);
 
+// Umbrales [revision, alerta] por cada 1000 palabras.
+const PROSE_CHECK_THRESHOLDS: Record<ProseLintRuleId, [number, number]> = {
+  adverb: [10, 18],
+  passive: [3, 6],
+  'filter-word': [6, 12],
+  'sentence-start': [2, 5],
+  cliche: [0.5, 1.5],
+};
+const PROSE_CHECK_MIN_COUNT = 2;
+
 const LEVEL_WEIGHT: Record<StyleLevel, number> = {
   ok: 0,
   warn: 1,
@@ -120,6 +150,34 @@ function resolveRepetitionLevel(topRepetitions: StyleRepetitionEntry[]): StyleLe
   return 'ok';
 }
 
+function resolveReadabilityLevel(readability: ProseReadability, wordCount: number): StyleLevel {
+  if (wordCount === 0) {
+    return 'ok';
+  }
+
+  if (readability.index < 45) {
+    return 'alert';
+  }
+
+  if (readability.index < 60) {
+    return 'warn';
+  }
+
+  return 'ok';
+}
+
+function buildProseChecks(counts: Record<ProseLintRuleId, number>, wordCount: number): StyleProseCheck[] {
+  return (Object.keys(PROSE_LINT_RULE_LABELS) as ProseLintRuleId[]).map((rule) => {
+    const count = counts[rule];
+    const perThousand = wordCount > 0 ? Number(((count / wordCount) * 1000).toFixed(1)) : 0;
+    const [warnAt, alertAt] = PROSE_CHECK_THRESHOLDS[rule];
+    // Un solo caso no marca el texto: evita alertas en escenas cortas.
+    const level: StyleLevel =
+      count < PROSE_CHECK_MIN_COUNT ? 'ok' : perThousand >= alertAt ? 'alert' : perThousand >= warnAt ? 'warn' : 'ok';
+    return { rule, label: PROSE_LINT_RULE_LABELS[rule], count, perThousand, level };
+  });
+}
+
 function resolveOverallLevel(levels: StyleLevel[]): StyleLevel {
   let maxLevel: StyleLevel = 'ok';
   for (const level of levels) {
@@ -160,7 +218,7 @@ function buildTopRepetitions(tokens: string[], wordCount: number): StyleRepetiti
     }));
 }
 
-export function analyzePlainTextStyle(plainText: string): StyleAnalysis {
+export function analyzePlainTextStyle(plainText: string, language: ProseLintLanguage = 'es'): StyleAnalysis {
   const normalizedText = plainText.trim();
   const wordCount = countWordsFromPlainText(normalizedText);
   const sentenceCount = countSentences(normalizedText);
@@ -170,7 +228,11 @@ export function analyzePlainTextStyle(plainText: string): StyleAnalysis {
   const topRepetitions = buildTopRepetitions(tokens, wordCount);
   const sentenceLengthLevel = resolveSentenceLengthLevel(avgWordsPerSentence, sentenceCount, wordCount);
   const repetitionLevel = resolveRepetitionLevel(topRepetitions);
-  const overallLevel = resolveOverallLevel([sentenceLengthLevel, repetitionLevel]);
+  const prose = lintProse(normalizedText, language);
+  const readabilityLevel = resolveReadabilityLevel(prose.readability, wordCount);
+  const proseChecks = buildProseChecks(prose.counts, wordCount);
+  const proseLevel = resolveOverallLevel(proseChecks.map((check) => check.level));
+  const overallLevel = resolveOverallLevel([sentenceLengthLevel, repetitionLevel, readabilityLevel, proseLevel]);
 
   return {
     wordCount,
@@ -180,23 +242,36 @@ export function analyzePlainTextStyle(plainText: string): StyleAnalysis {
     topRepetitions,
     sentenceLengthLevel,
     repetitionLevel,
+    readability: prose.readability,
+    readabilityLevel,
+    proseChecks,
+    proseLevel,
+    dialogueRatio: prose.dialogueRatio,
     overallLevel,
   };
 }
 
-export function analyzeHtmlStyle(html: string): StyleAnalysis {
-  return analyzePlainTextStyle(stripHtml(html));
+// Un salto por bloque: el dialogo y los comienzos de oracion se miden por parrafo.
+export function htmlToStyleText(html: string): string {
+  return stripHtml(html.replace(/<\/(p|h[1-6]|li|blockquote|div)\s*>/gi, '$&\n').replace(/<br\s*\/?>/gi, '\n'));
+}
+
+export function analyzeHtmlStyle(html: string, language: ProseLintLanguage = 'es'): StyleAnalysis {
+  return analyzePlainTextStyle(htmlToStyleText(html), language);
 }
 
-export function analyzeBookStyleFromChapters(chapters: ChapterDocument[]): BookStyleAnalysis {
+export function analyzeBookStyleFromChapters(
+  chapters: ChapterDocument[],
+  language: ProseLintLanguage = 'es',
+): BookStyleAnalysis {
   const chapterReports: ChapterStyleAnalysis[] = chapters.map((chapter) => ({
     chapterId: chapter.id,
     title: chapter.title,
-    analysis: analyzeHtmlStyle(chapter.content),
+    analysis: analyzeHtmlStyle(chapter.content, language),
   }));
 
-  const bookText = chapters.map((chapter) => stripHtml(chapter.content)).join('\n\n');
-  const book = analyzePlainTextStyle(bookText);
+  const bookText = chapters.map((chapter) => htmlToStyleText(chapter.content)).join('\n\n');
+  const book = analyzePlainTextStyle(bookText, language);
 
   return {
     book,
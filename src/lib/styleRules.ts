@@ -0,0 +1,215 @@
+import type { BookFoundation, ChapterDocument } from '../types/book';
+import { htmlToStyleText } from './styleMetrics';
+
+// Motor determinista para el glosario y las reglas de estilo de la base del libro.
+// Sintaxis admitida (el resto del texto sigue siendo guia libre para la IA):
+// - Glosario a evitar: "termino" o "termino -> preferido" (separados por coma, punto y coma o linea).
+// - Glosario preferido: "preferido <- variante / otra variante".
+// - Reglas de estilo: lineas "/patron/flags -> reemplazo # mensaje" (reemplazo y mensaje opcionales).
+
+export type StyleRuleSource = 'glossary' | 'regex';
+
+export interface StyleRule {
+  id: string;
+  source: StyleRuleSource;
+  label: string;
+  pattern: RegExp;
+  replacement: string | null;
+  message: string;
+}
+
+export interface StyleRuleSet {
+  rules: StyleRule[];
+  errors: string[];
+}
+
+export interface StyleRuleViolation {
+  ruleId: string;
+  start: number;
+  end: number;
+  text: string;
+  replacement: string | null;
+  message: string;
+}
+
+export interface ChapterStyleRuleReport {
+  chapterId: string;
+  title: string;
+  count: number;
+  examples: StyleRuleViolation[];
+}
+
+const ENTRY_SEPARATOR = /[\n,;]+/;
+const REGEX_RULE_PATTERN = /^\/(.+)\/([a-z]*)\s*(?:(?:->|=>)\s*([^#]*?))?\s*(?:#\s*(.*))?$/;
+const ALLOWED_REGEX_FLAGS = new Set(['i', 'm', 's', 'u']);
+const CHAPTER_REPORT_EXAMPLES = 3;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildTermPattern(term: string): RegExp {
+  const source = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function splitEntries(value: string): string[] {
+  return value
+    .split(ENTRY_SEPARATOR)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Terminos del glosario preferido sin las variantes a reemplazar ("preferido <- variante").
+export function listPreferredGlossaryTerms(foundation: BookFoundation): string[] {
+  return splitEntries(foundation.glossaryPreferred)
+    .map((entry) => entry.split('<-')[0].trim())
+    .filter(Boolean);
+}
+
+function pushGlossaryRule(rules: StyleRule[], avoid: string, preferred: string | null): void {
+  const term = avoid.trim();
+  const key = term.toLowerCase();
+  if (!term || rules.some((rule) => rule.source === 'glossary' && rule.label.toLowerCase() === key)) {
+    return;
+  }
+  rules.push({
+    id: `glossary-${rules.length + 1}`,
+    source: 'glossary',
+    label: term,
+    pattern: buildTermPattern(term),
+    replacement: preferred,
+    message: preferred ? `Glosario: usar "${preferred}" en vez de "${term}".` : `Glosario: evitar "${term}".`,
+  });
+}
+
+export function parseStyleRules(foundation: BookFoundation): StyleRuleSet {
+  const rules: StyleRule[] = [];
+  const errors: string[] = [];
+
+  for (const entry of splitEntries(foundation.glossaryAvoid)) {
+    const [avoid, preferred] = entry.split(/\s*(?:->|=>)\s*/, 2);
+    pushGlossaryRule(rules, avoid, preferred?.trim() || null);
+  }
+
+  for (const entry of splitEntries(foundation.glossaryPreferred)) {
+    const [preferred, variants] = entry.split(/\s*<-\s*/, 2);
+    if (!variants || !preferred.trim()) {
+      continue;
+    }
+    for (const variant of variants.split(/[/|]/)) {
+      pushGlossaryRule(rules, variant, preferred.trim());
+    }
+  }
+
+  foundation.styleRules.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('/')) {
+      return;
+    }
+    const match = REGEX_RULE_PATTERN.exec(trimmed);
+    if (!match) {
+      errors.push(`Linea ${index + 1}: regla sin cierre "/patron/".`);
+      return;
+    }
+    const [, source, rawFlags, replacement, message] = match;
+    const flags = Array.from(new Set(rawFlags.split('')));
+    const invalidFlag = flags.find((flag) => !ALLOWED_REGEX_FLAGS.has(flag));
+    if (invalidFlag) {
+      errors.push(`Linea ${index + 1}: flag "${invalidFlag}" no admitido.`);
+      return;
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, `${flags.join('')}g`);
+    } catch (error) {
+      errors.push(`Linea ${index + 1}: ${error instanceof Error ? error.message : 'patron invalido'}.`);
+      return;
+    }
+    const label = `/${source}/${flags.join('')}`;
+    rules.push({
+      id: `regex-${index + 1}`,
+      source: 'regex',
+      label,
+      pattern,
+      replacement: replacement?.trim() ? replacement.trim() : null,
+      message: message?.trim() || `Regla de estilo ${label}.`,
+    });
+  });
+
+  return { rules, errors };
+}
+
+// Mantiene la mayuscula inicial (o todo en mayusculas) del texto reemplazado.
+function matchReplacementCase(original: string, replacement: string): string {
+  if (original.length > 1 && original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  const first = original.charAt(0);
+  if (first !== first.toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+function resolveReplacement(rule: StyleRule, matched: string): string | null {
+  if (rule.replacement === null) {
+    return null;
+  }
+  if (rule.source === 'glossary') {
+    return matchReplacementCase(matched, rule.replacement);
+  }
+  // Los grupos ($1, $2...) se resuelven con el mismo patron sobre el texto encontrado.
+  return matched.replace(new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '')), rule.replacement);
+}
+
+export function findStyleRuleViolations(text: string, rules: StyleRule[]): StyleRuleViolation[] {
+  const violations: StyleRuleViolation[] = [];
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      if (!match[0]) {
+        continue;
+      }
+      const start = match.index ?? 0;
+      violations.push({
+        ruleId: rule.id,
+        start,
+        end: start + match[0].length,
+        text: match[0],
+        replacement: resolveReplacement(rule, match[0]),
+        message: rule.message,
+      });
+    }
+  }
+
+  // Si dos reglas se pisan gana la que empieza antes (y la mas larga ante empate).
+  violations.sort((left, right) => left.start - right.start || right.end - left.end);
+  const result: StyleRuleViolation[] = [];
+  for (const violation of violations) {
+    const previous = result[result.length - 1];
+    if (!previous || violation.start >= previous.end) {
+      result.push(violation);
+    }
+  }
+  return result;
+}
+
+export function buildChapterStyleRuleReports(chapters: ChapterDocument[], rules: StyleRule[]): ChapterStyleRuleReport[] {
+  if (rules.length === 0) {
+    return [];
+  }
+  return chapters.flatMap((chapter) => {
+    const violations = findStyleRuleViolations(htmlToStyleText(chapter.content), rules);
+    if (violations.length === 0) {
+      return [];
+    }
+    return [
+      {
+        chapterId: chapter.id,
+        title: chapter.title,
+        count: violations.length,
+        examples: violations.slice(0, CHAPTER_REPORT_EXAMPLES),
+      },
+    ];
+  });
+}
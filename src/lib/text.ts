@@ -1,3 +1,5 @@
+import { acceptAllTrackedChanges } from './trackChanges';
+
 export function normalizePath(path: string): string {
   return path.replace(/\\/g, '/').replace(/\/+/g, '/');
 }
@@ -37,7 +39,7 @@ export function randomId(prefix = 'id'): string {
 }
 
 function parseHtmlToText(html: string): string {
-  const sanitized = html
+  const sanitized = acceptAllTrackedChanges(html)
     .replace(
       /<\s*(script|style|iframe|object|embed|link|meta|base|frame|frameset)\b[^>]*>[\s\S]*?<\s*\/\s*\1\s*>/gi,
       '',
@@ -107,7 +109,7 @@ function decodeEntities(value: string): string {
 }
 
 export function htmlToMarkdown(html: string): string {
-  let markdown = html;
+  let markdown = acceptAllTrackedChanges(html);
   markdown = markdown.replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n');
   markdown = markdown.replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n');
   markdown = markdown.replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n');
@@ -0,0 +1,121 @@
+// Control de cambios del editor: las inserciones y borrados pendientes viven en el HTML del capitulo como
+// <ins>/<del> con data-track-*, asi sobreviven al guardado, a las ramas y a la exportacion DOCX.
+
+export type TrackedChangeKind = 'insert' | 'delete';
+export type TrackedChangeDecision = 'accept' | 'reject';
+
+export interface TrackedChangeAttributes {
+  id: string;
+  author: string;
+  date: string;
+}
+
+export interface TrackedChange extends TrackedChangeAttributes {
+  insertedText: string;
+  deletedText: string;
+}
+
+export const TRACK_CHANGE_ATTRIBUTE = 'data-track-change';
+
+const REMOVED_MARKER = '\u0000';
+
+const TRACKED_CHANGE_PATTERN = /<(ins|del)\b([^>]*\bdata-track-change=["'](?:insert|delete)["'][^>]*)>([\s\S]*?)<\/\1\s*>/gi;
+
+function readAttribute(attributes: string, name: string): string {
+  const match = attributes.match(new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return decodeAttribute(match?.[1] ?? match?.[2] ?? '');
+}
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function inlineHtmlToText(html: string): string {
+  return decodeAttribute(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' '));
+}
+
+export function readTrackedChangeAttributes(attributes: string): TrackedChangeAttributes & { kind: TrackedChangeKind } {
+  return {
+    kind: readAttribute(attributes, TRACK_CHANGE_ATTRIBUTE) === 'delete' ? 'delete' : 'insert',
+    id: readAttribute(attributes, 'data-track-id'),
+    author: readAttribute(attributes, 'data-track-author'),
+    date: readAttribute(attributes, 'data-track-date'),
+  };
+}
+
+export function createTrackedChangeId(): string {
+  return `tc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function hasTrackedChanges(html: string): boolean {
+  return html.includes(TRACK_CHANGE_ATTRIBUTE);
+}
+
+// Agrupa por id: un reemplazo comparte id entre su borrado y su insercion.
+export function listTrackedChanges(html: string): TrackedChange[] {
+  if (!hasTrackedChanges(html)) {
+    return [];
+  }
+
+  const byId = new Map<string, TrackedChange>();
+  for (const match of html.matchAll(TRACKED_CHANGE_PATTERN)) {
+    const attributes = readTrackedChangeAttributes(match[2]);
+    const text = inlineHtmlToText(match[3]);
+    const key = attributes.id || `${attributes.kind}-${match.index}`;
+    const entry = byId.get(key) ?? {
+      id: key,
+      author: attributes.author,
+      date: attributes.date,
+      insertedText: '',
+      deletedText: '',
+    };
+    if (attributes.kind === 'insert') {
+      entry.insertedText += text;
+    } else {
+      entry.deletedText += text;
+    }
+    if (attributes.date && (!entry.date || attributes.date < entry.date)) {
+      entry.date = attributes.date;
+    }
+    byId.set(key, entry);
+  }
+
+  return Array.from(byId.values()).sort((left, right) => left.date.localeCompare(right.date));
+}
+
+// Aceptar deja la insercion como texto normal y elimina el borrado; rechazar hace lo contrario.
+export function resolveTrackedChangesInHtml(
+  html: string,
+  changeId: string | 'all',
+  decision: TrackedChangeDecision,
+): string {
+  if (!hasTrackedChanges(html)) {
+    return html;
+  }
+
+  const resolved = html.replace(TRACKED_CHANGE_PATTERN, (full, _tag: string, rawAttributes: string, inner: string) => {
+    const attributes = readTrackedChangeAttributes(rawAttributes);
+    if (changeId !== 'all' && attributes.id !== changeId) {
+      return full;
+    }
+
+    const keep = (attributes.kind === 'insert') === (decision === 'accept');
+    return keep ? inner : REMOVED_MARKER;
+  });
+
+  // Solo se quitan los parrafos que quedaron vacios por esta resolucion, no los vacios previos.
+  return resolved
+    .replace(new RegExp(`<p[^>]*>(?:\\s|${REMOVED_MARKER})*${REMOVED_MARKER}(?:\\s|${REMOVED_MARKER})*<\\/p>`, 'g'), '')
+    .split(REMOVED_MARKER)
+    .join('');
+}
+
+// Vista "texto propuesto": lo que queda si se aceptan todos los cambios pendientes.
+export function acceptAllTrackedChanges(html: string): string {
+  return resolveTrackedChangesInHtml(html, 'all', 'accept');
+}
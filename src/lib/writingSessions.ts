@@ -0,0 +1,364 @@
+import { stripHtml } from './text';
+
+// Registro de sesiones de escritura por libro: palabras agregadas/borradas y tiempo en el editor,
+// agrupados por dia local y capitulo. Alimenta metas diarias, rachas y la proyeccion a fecha limite.
+
+export interface WritingSessionChapterStats {
+  added: number;
+  removed: number;
+  activeSeconds: number;
+}
+
+export interface WritingSessionDay {
+  // Fecha local YYYY-MM-DD.
+  date: string;
+  chapters: Record<string, WritingSessionChapterStats>;
+}
+
+export interface WritingGoals {
+  dailyWords: number | null;
+  targetWords: number | null;
+  deadline: string | null;
+}
+
+// Resultado de una ronda de sprint: palabras del capitulo al empezar y al terminar la ronda.
+export interface WritingSprintResult {
+  id: string;
+  chapterId: string;
+  startedAt: string;
+  plannedMinutes: number;
+  durationSeconds: number;
+  startWords: number;
+  endWords: number;
+  // false si se detuvo antes de tiempo.
+  completed: boolean;
+}
+
+export interface WritingSessionLog {
+  goals: WritingGoals;
+  days: WritingSessionDay[];
+  sprints: WritingSprintResult[];
+}
+
+export interface WritingDaySummary {
+  date: string;
+  added: number;
+  removed: number;
+  net: number;
+  activeSeconds: number;
+}
+
+export interface WritingStreak {
+  current: number;
+  best: number;
+}
+
+export interface WritingGoalProjection {
+  remainingWords: number;
+  daysLeft: number | null;
+  requiredPerDay: number | null;
+  averagePerDay: number;
+  projectedFinishDate: string | null;
+  onTrack: boolean | null;
+}
+
+export interface WritingSprintPlan {
+  sprintMinutes: number;
+  // 0 = sin descanso entre rondas.
+  breakMinutes: number;
+  rounds: number;
+  blockAi: boolean;
+}
+
+export interface WritingSprintPhase {
+  kind: 'sprint' | 'break' | 'done';
+  // Ronda en curso (base 1); en 'done' es la ultima.
+  round: number;
+  remainingSeconds: number;
+}
+
+export interface WritingSprintChapterTotals {
+  sprints: number;
+  words: number;
+  seconds: number;
+}
+
+export interface StreakCalendarCell {
+  date: string;
+  net: number;
+  level: 0 | 1 | 2 | 3 | 4;
+  metGoal: boolean;
+  isFuture: boolean;
+}
+
+const PACE_WINDOW_DAYS = 7;
+const MAX_SPRINT_HISTORY = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function buildEmptyWritingSessionLog(): WritingSessionLog {
+  return { goals: { dailyWords: null, targetWords: null, deadline: null }, days: [], sprints: [] };
+}
+
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map((part) => Number.parseInt(part, 10));
+  return new Date(year, (month || 1) - 1, day || 1);
+}
+
+function shiftDateKey(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / DAY_MS);
+}
+
+function tokenizeWords(html: string): Map<string, number> {
+  // Separar bloques antes de quitar etiquetas para no pegar la ultima palabra de un parrafo con la siguiente.
+  const text = stripHtml(html.replace(/<\/(p|h[1-6]|li|blockquote|div)\s*>|<br\s*\/?>/gi, '$& '));
+  const counts = new Map<string, number>();
+  for (const word of text.split(/\s+/)) {
+    if (word) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Diferencia como bolsa de palabras: reescribir una frase cuenta sus palabras nuevas y las borradas,
+// sin el coste de un diff completo en cada autoguardado.
+export function countWordDelta(beforeHtml: string, afterHtml: string): { added: number; removed: number } {
+  const before = tokenizeWords(beforeHtml);
+  const after = tokenizeWords(afterHtml);
+  let added = 0;
+  let removed = 0;
+  for (const [word, count] of after) {
+    added += Math.max(0, count - (before.get(word) ?? 0));
+  }
+  for (const [word, count] of before) {
+    removed += Math.max(0, count - (after.get(word) ?? 0));
+  }
+  return { added, removed };
+}
+
+export function recordWritingActivity(
+  log: WritingSessionLog,
+  activity: { date: string; chapterId: string; added?: number; removed?: number; activeSeconds?: number },
+): WritingSessionLog {
+  const added = Math.max(0, Math.round(activity.added ?? 0));
+  const removed = Math.max(0, Math.round(activity.removed ?? 0));
+  const activeSeconds = Math.max(0, Math.round(activity.activeSeconds ?? 0));
+  if (added === 0 && removed === 0 && activeSeconds === 0) {
+    return log;
+  }
+
+  const existingDay = log.days.find((day) => day.date === activity.date);
+  const previous = existingDay?.chapters[activity.chapterId] ?? { added: 0, removed: 0, activeSeconds: 0 };
+  const nextDay: WritingSessionDay = {
+    date: activity.date,
+    chapters: {
+      ...(existingDay?.chapters ?? {}),
+      [activity.chapterId]: {
+        added: previous.added + added,
+        removed: previous.removed + removed,
+        activeSeconds: previous.activeSeconds + activeSeconds,
+      },
+    },
+  };
+  const days = existingDay
+    ? log.days.map((day) => (day.date === activity.date ? nextDay : day))
+    : [...log.days, nextDay].sort((left, right) => left.date.localeCompare(right.date));
+
+  return { ...log, days };
+}
+
+export function summarizeWritingDay(day: WritingSessionDay): WritingDaySummary {
+  let added = 0;
+  let removed = 0;
+  let activeSeconds = 0;
+  for (const stats of Object.values(day.chapters)) {
+    added += stats.added;
+    removed += stats.removed;
+    activeSeconds += stats.activeSeconds;
+  }
+  return { date: day.date, added, removed, net: added - removed, activeSeconds };
+}
+
+function buildNetByDate(log: WritingSessionLog): Map<string, number> {
+  return new Map(log.days.map((day) => [day.date, summarizeWritingDay(day).net]));
+}
+
+function isProductiveDay(net: number, dailyGoal: number | null): boolean {
+  return dailyGoal && dailyGoal > 0 ? net >= dailyGoal : net > 0;
+}
+
+// Un dia cuenta si alcanza la meta diaria (o si suma palabras cuando no hay meta).
+// Hoy sin completar no corta la racha: se sigue contando desde ayer.
+export function computeWritingStreak(log: WritingSessionLog, today: string): WritingStreak {
+  const netByDate = buildNetByDate(log);
+  const dailyGoal = log.goals.dailyWords;
+
+  let best = 0;
+  let run = 0;
+  let previousDate: string | null = null;
+  for (const day of log.days) {
+    const productive = isProductiveDay(netByDate.get(day.date) ?? 0, dailyGoal);
+    if (!productive) {
+      run = 0;
+    } else {
+      run = previousDate && daysBetween(previousDate, day.date) === 1 && run > 0 ? run + 1 : 1;
+      best = Math.max(best, run);
+    }
+    previousDate = day.date;
+  }
+
+  let current = 0;
+  let cursor = isProductiveDay(netByDate.get(today) ?? 0, dailyGoal) ? today : shiftDateKey(today, -1);
+  while (isProductiveDay(netByDate.get(cursor) ?? 0, dailyGoal)) {
+    current += 1;
+    cursor = shiftDateKey(cursor, -1);
+  }
+
+  return { current, best: Math.max(best, current) };
+}
+
+export function buildWritingGoalProjection(
+  log: WritingSessionLog,
+  currentWords: number,
+  today: string,
+): WritingGoalProjection {
+  const netByDate = buildNetByDate(log);
+  let paceTotal = 0;
+  for (let offset = 0; offset < PACE_WINDOW_DAYS; offset += 1) {
+    paceTotal += netByDate.get(shiftDateKey(today, -offset)) ?? 0;
+  }
+  const averagePerDay = Math.round(paceTotal / PACE_WINDOW_DAYS);
+
+  const targetWords = log.goals.targetWords ?? 0;
+  const remainingWords = Math.max(0, targetWords - currentWords);
+  // La fecha limite cuenta como dia de escritura.
+  const daysLeft = log.goals.deadline ? Math.max(0, daysBetween(today, log.goals.deadline) + 1) : null;
+  const requiredPerDay =
+    targetWords > 0 && daysLeft !== null ? (daysLeft > 0 ? Math.ceil(remainingWords / daysLeft) : remainingWords) : null;
+  const projectedFinishDate =
+    targetWords > 0 && remainingWords === 0
+      ? today
+      : targetWords > 0 && averagePerDay > 0
+        ? shiftDateKey(today, Math.ceil(remainingWords / averagePerDay))
+        : null;
+  const onTrack =
+    requiredPerDay === null ? null : remainingWords === 0 || (daysLeft !== null && daysLeft > 0 && averagePerDay >= requiredPerDay);
+
+  return { remainingWords, daysLeft, requiredPerDay, averagePerDay, projectedFinishDate, onTrack };
+}
+
+// Calendario tipo mapa de calor: semanas completas de lunes a domingo terminando en la semana actual.
+export function buildStreakCalendar(log: WritingSessionLog, today: string, weeks: number): StreakCalendarCell[][] {
+  const netByDate = buildNetByDate(log);
+  const dailyGoal = log.goals.dailyWords;
+  const reference = dailyGoal && dailyGoal > 0 ? dailyGoal : Math.max(1, ...Array.from(netByDate.values()));
+  const mondayOffset = (parseDateKey(today).getDay() + 6) % 7;
+  const firstMonday = shiftDateKey(today, -mondayOffset - (Math.max(1, weeks) - 1) * 7);
+
+  const rows: StreakCalendarCell[][] = [];
+  for (let week = 0; week < Math.max(1, weeks); week += 1) {
+    const row: StreakCalendarCell[] = [];
+    for (let weekday = 0; weekday < 7; weekday += 1) {
+      const date = shiftDateKey(firstMonday, week * 7 + weekday);
+      const net = netByDate.get(date) ?? 0;
+      const ratio = net / reference;
+      const level = net <= 0 ? 0 : ratio < 0.25 ? 1 : ratio < 0.6 ? 2 : ratio < 1 ? 3 : 4;
+      row.push({ date, net, level, metGoal: isProductiveDay(net, dailyGoal), isFuture: date > today });
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Ciclo sprint/descanso: las rondas se encadenan y el descanso no se aplica tras la ultima.
+export function resolveSprintPhase(plan: WritingSprintPlan, elapsedSeconds: number): WritingSprintPhase {
+  const sprintSeconds = Math.max(1, Math.round(plan.sprintMinutes * 60));
+  const breakSeconds = Math.max(0, Math.round(plan.breakMinutes * 60));
+  const rounds = Math.max(1, Math.round(plan.rounds));
+  let cursor = Math.max(0, elapsedSeconds);
+
+  for (let round = 1; round <= rounds; round += 1) {
+    if (cursor < sprintSeconds) {
+      return { kind: 'sprint', round, remainingSeconds: sprintSeconds - cursor };
+    }
+    cursor -= sprintSeconds;
+    if (round === rounds) {
+      break;
+    }
+    if (cursor < breakSeconds) {
+      return { kind: 'break', round, remainingSeconds: breakSeconds - cursor };
+    }
+    cursor -= breakSeconds;
+  }
+
+  return { kind: 'done', round: rounds, remainingSeconds: 0 };
+}
+
+// Segundos desde el inicio del plan hasta que empieza la ronda indicada.
+export function getSprintRoundOffsetSeconds(plan: WritingSprintPlan, round: number): number {
+  const sprintSeconds = Math.max(1, Math.round(plan.sprintMinutes * 60));
+  const breakSeconds = Math.max(0, Math.round(plan.breakMinutes * 60));
+  return Math.max(0, round - 1) * (sprintSeconds + breakSeconds);
+}
+
+export function computeSprintWordsPerMinute(words: number, seconds: number): number {
+  // Menos de 10 segundos da picos sin sentido al pegar texto.
+  if (seconds < 10) {
+    return 0;
+  }
+  return Math.round((words / (seconds / 60)) * 10) / 10;
+}
+
+export function recordWritingSprint(log: WritingSessionLog, result: WritingSprintResult): WritingSessionLog {
+  return { ...log, sprints: [...log.sprints, result].slice(-MAX_SPRINT_HISTORY) };
+}
+
+export function summarizeSprintsByChapter(log: WritingSessionLog): Record<string, WritingSprintChapterTotals> {
+  const totals: Record<string, WritingSprintChapterTotals> = {};
+  for (const sprint of log.sprints) {
+    const previous = totals[sprint.chapterId] ?? { sprints: 0, words: 0, seconds: 0 };
+    totals[sprint.chapterId] = {
+      sprints: previous.sprints + 1,
+      words: previous.words + (sprint.endWords - sprint.startWords),
+      seconds: previous.seconds + sprint.durationSeconds,
+    };
+  }
+  return totals;
+}
+
+function escapeCsvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildWritingSessionsCsv(log: WritingSessionLog, chapterTitles: Record<string, string>): string {
+  const rows: Array<Array<string | number>> = [
+    ['fecha', 'capitulo', 'titulo', 'palabras_agregadas', 'palabras_borradas', 'neto', 'minutos_editor'],
+  ];
+  for (const day of log.days) {
+    for (const [chapterId, stats] of Object.entries(day.chapters).sort(([left], [right]) => left.localeCompare(right))) {
+      rows.push([
+        day.date,
+        chapterId,
+        chapterTitles[chapterId] ?? '',
+        stats.added,
+        stats.removed,
+        stats.added - stats.removed,
+        Math.round((stats.activeSeconds / 60) * 10) / 10,
+      ]);
+    }
+  }
+  return `${rows.map((row) => row.map(escapeCsvValue).join(',')).join('\n')}\n`;
+}
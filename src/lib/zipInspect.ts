@@ -57,3 +57,76 @@ export function extractZipEntryText(archive: Uint8Array, entryName: string): str
 
   return decodeUtf8(entry.data);
 }
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(archive: Uint8Array): number {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const lowerBound = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowerBound; offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      return offset;
+    }
+  }
+
+  return -1;
+}
+
+// Lee ZIPs generados por otras herramientas (Word, LibreOffice, Calibre): usa el directorio
+// central para los tamanos, asi soporta data descriptors, y descomprime entradas deflate.
+export async function readZipEntries(archive: Uint8Array): Promise<ParsedZipEntry[]> {
+  const endOffset = findEndOfCentralDirectory(archive);
+  if (endOffset < 0) {
+    throw new Error('ZIP invalido: no se encontro el directorio central.');
+  }
+
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries: ParsedZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > archive.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error(`ZIP invalido: entrada central inesperada en offset ${offset}.`);
+    }
+
+    const compressionMethod = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const fileNameLength = view.getUint16(offset + 28, true);
+    const extraFieldLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decodeUtf8(archive.slice(offset + 46, offset + 46 + fileNameLength));
+    offset += 46 + fileNameLength + extraFieldLength + commentLength;
+
+    if (localHeaderOffset + 30 > archive.length || view.getUint32(localHeaderOffset, true) !== 0x04034b50) {
+      throw new Error(`ZIP invalido: cabecera local ausente para ${name}.`);
+    }
+
+    const dataOffset =
+      localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+    const dataEnd = dataOffset + compressedSize;
+    if (dataEnd > archive.length) {
+      throw new Error('ZIP invalido: una entrada excede el tamano del archivo.');
+    }
+
+    const raw = archive.slice(dataOffset, dataEnd);
+    if (compressionMethod === 0) {
+      entries.push({ name, data: raw });
+    } else if (compressionMethod === 8) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`ZIP no soportado: metodo de compresion ${compressionMethod} en ${name}.`);
+    }
+  }
+
+  return entries;
+}
+
+export async function readZipEntryText(archive: Uint8Array, entryName: string): Promise<string | null> {
+  const entry = (await readZipEntries(archive)).find((item) => item.name === entryName);
+  return entry ? decodeUtf8(entry.data) : null;
+}
@@ -3,6 +3,7 @@ export type MainView =
   | 'outline'
   | 'preview'
   | 'diff'
+  | 'branches'
   | 'style'
   | 'cover'
   | 'foundation'
@@ -16,8 +17,11 @@ export type MainView =
   | 'search'
   | 'settings'
   | 'language'
+  | 'pronunciation'
   | 'scratchpad'
   | 'loose-threads'
+  | 'sessions'
+  | 'consistency'
   | 'char-matrix'
   | 'saga-dashboard';
 
@@ -30,11 +34,21 @@ export type ChapterLengthPreset = 'corta' | 'media' | 'larga';
 export type ChapterStatus = 'borrador' | 'en_revision' | 'final';
 export type ChapterManuscriptNoteStatus = 'open' | 'resolved';
 
+export interface ChapterManuscriptNoteReply {
+  id: string;
+  author: string;
+  note: string;
+  createdAt: string;
+}
+
 export interface ChapterManuscriptNote {
   id: string;
+  // Texto anclado; el ancla real vive en el HTML como <span data-comment-id>.
   excerpt: string;
   note: string;
+  author?: string;
   status: ChapterManuscriptNoteStatus;
+  replies?: ChapterManuscriptNoteReply[];
   createdAt: string;
   updatedAt: string;
 }
@@ -47,6 +61,16 @@ export interface ChatMessage {
   scope: ChatScope;
 }
 
+// Metadatos de una escena; el texto vive en ChapterDocument.content entre saltos de escena.
+export interface ChapterScene {
+  id: string;
+  pointOfView?: string;
+  location?: string;
+  timelineEventId?: string | null;
+  synopsis?: string;
+  status?: ChapterStatus;
+}
+
 export interface ChapterDocument {
   id: string;
   title: string;
@@ -57,6 +81,7 @@ export interface ChapterDocument {
   status?: ChapterStatus;
   wordTarget?: number | null;
   manuscriptNotes?: ChapterManuscriptNote[];
+  scenes?: ChapterScene[];
   lengthPreset: ChapterLengthPreset;
   createdAt: string;
   updatedAt: string;
@@ -357,6 +382,16 @@ export interface SagaAtlasConfig {
   routeMeasurements: SagaAtlasRouteMeasurement[];
 }
 
+export type PronunciationEntrySource = 'manual' | 'character' | 'conlang';
+
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  respelling: string;
+  ipa: string;
+  source: PronunciationEntrySource;
+}
+
 export interface SagaConlangLexiconEntry {
   id: string;
   term: string;
@@ -412,6 +447,7 @@ export interface SagaMetadata {
   title: string;
   description: string;
   strictValidationMode?: boolean;
+  pronunciationLexicon?: PronunciationEntry[];
   books: SagaBookLink[];
   worldBible: SagaWorldBible;
   createdAt: string;
@@ -526,6 +562,7 @@ export interface BookMetadata {
   scratchpad?: string;
   looseThreads?: LooseThread[];
   editorialChecklistCustom?: EditorialChecklistCustomItem[];
+  pronunciationLexicon?: PronunciationEntry[];
 }
 
 export interface BookProject {
@@ -573,8 +610,13 @@ export interface LibraryIndex {
 }
 
 export type EditorBackgroundTone = 'default' | 'white' | 'mist' | 'sage' | 'sand';
+export type AiProviderId = 'ollama' | 'openai-compatible';
+export type AudioEngineId = 'auto' | 'system' | 'piper' | 'espeak';
 
 export interface AppConfig {
+  aiProvider: AiProviderId;
+  aiBaseUrl: string;
+  aiApiKey: string;
   model: string;
   language: string;
   theme: 'system' | 'light' | 'dark' | 'sepia';
@@ -584,6 +626,9 @@ export interface AppConfig {
   audioVoiceName: string;
   audioRate: number;
   audioVolume: number;
+  audioEngine: AudioEngineId;
+  audioEnginePath: string;
+  audioVoiceModel: string;
   aiResponseMode: 'rapido' | 'equilibrado' | 'calidad';
   autoVersioning: boolean;
   aiSafeMode: boolean;
@@ -598,9 +643,14 @@ export interface AppConfig {
   backupEnabled: boolean;
   backupDirectory: string;
   backupIntervalMs: number;
+  // Snapshots a conservar por hora, dia y semana; todo en 0 desactiva la limpieza.
+  backupRetentionHourly: number;
+  backupRetentionDaily: number;
+  backupRetentionWeekly: number;
   expertWriterMode: boolean;
   accessibilityHighContrast: boolean;
   accessibilityLargeText: boolean;
+  reviewerName: string;
 }
 
 export interface PromptTemplate {
@@ -53,17 +53,85 @@ import {
   splitAiOutputAndSummary,
 } from '../../src/lib/text';
 import { parseLocaleIntegerOr, parseLocaleNumber, parseLocaleNumberOr } from '../../src/lib/numberInput';
-import { buildBookReplacePreview, getSearchPatternError, replaceMatchesInTextLiteral } from '../../src/lib/searchReplace';
+import {
+  buildBookReplacePreview,
+  buildBookSearchMatches,
+  filterChaptersForSearch,
+  getSearchPatternError,
+  replaceMatchAtInHtml,
+  replaceMatchesInTextLiteral,
+} from '../../src/lib/searchReplace';
 import {
   countWordsFromHtml,
   countWordsFromPlainText,
   estimatePagesFromWords,
   formatNumber,
 } from '../../src/lib/metrics';
-import { diffTextBlocks, summarizeDiffOperations } from '../../src/lib/diff';
+import {
+  applyParagraphDiffHunks,
+  diffInlineText,
+  diffParagraphs,
+  diffTextBlocks,
+  summarizeDiffOperations,
+  summarizeParagraphDiff,
+} from '../../src/lib/diff';
+import {
+  buildDraftMergePlan,
+  mergeTextBlocks3,
+  resolveDraftChapterMerge,
+  splitHtmlBlocks,
+} from '../../src/lib/draftBranches';
+import {
+  anchorManuscriptNotes,
+  extractCommentAnchorTexts,
+  listCommentAnchorIds,
+  removeCommentAnchors,
+} from '../../src/lib/manuscriptComments';
+import { acceptAllTrackedChanges, listTrackedChanges, resolveTrackedChangesInHtml } from '../../src/lib/trackChanges';
+import {
+  applyPronunciationLexicon,
+  buildPronunciationSeedEntries,
+  buildPronunciationSsml,
+  mergePronunciationLexicons,
+} from '../../src/lib/pronunciation';
+import {
+  buildEmptyWritingSessionLog,
+  buildStreakCalendar,
+  buildWritingGoalProjection,
+  buildWritingSessionsCsv,
+  computeSprintWordsPerMinute,
+  computeWritingStreak,
+  countWordDelta,
+  recordWritingActivity,
+  recordWritingSprint,
+  resolveSprintPhase,
+  summarizeSprintsByChapter,
+} from '../../src/lib/writingSessions';
 import { createZipArchive } from '../../src/lib/zip';
 import { analyzePlainTextStyle, analyzeHtmlStyle, getStyleLevelLabel } from '../../src/lib/styleMetrics';
+import { countSyllables, lintProse } from '../../src/lib/proseLint';
+import { analyzeBookDialogue, extractChapterDialogue } from '../../src/lib/dialogueAttribution';
+import {
+  expandChaptersIntoScenes,
+  mergeChapterContents,
+  moveSceneToChapter,
+  moveSceneWithinChapter,
+  resolveChapterScenes,
+  splitChapterAtScene,
+  updateChapterSceneMeta,
+} from '../../src/lib/scenes';
 import { buildEditorialChecklist } from '../../src/lib/editorialChecklist';
+import { compareBackupChapters, selectBackupSnapshotsToPrune } from '../../src/lib/backupSnapshots';
+import { buildAiMarkedHtml, measureAiOriginShare, removeAiOriginMarks } from '../../src/lib/aiProvenanceMarks';
+import {
+  applyEntityRenameToHtml,
+  buildEntityRenamePreview,
+  renameSagaWorldEntity,
+  renameStoryBibleEntity,
+  type EntityRenamePlan,
+} from '../../src/lib/entityRename';
+import { analyzeAiAuditChain, buildAiAuditHashSeed, buildAiProvenanceRows, type AiAuditRecord } from '../../src/lib/aiAudit';
+import { findStyleRuleViolations, listPreferredGlossaryTerms, parseStyleRules } from '../../src/lib/styleRules';
 import {
   buildCollaborationPatchPreview,
   formatCollaborationPatchPreviewMessage,
@@ -78,6 +146,7 @@ import {
   formatStoryProgressFallback,
 } from '../../src/lib/storyProgressSummary';
 import { buildContinuityGuardReport, buildContinuityHighlights } from '../../src/lib/continuityGuard';
+import { buildManuscriptAuditReport, resolveEvidenceFocusText } from '../../src/lib/manuscriptAudit';
 import { buildChapterContinuityBriefing } from '../../src/lib/chapterContinuityBriefing';
 import {
   buildSemanticReferenceCatalog,
@@ -91,24 +160,54 @@ import {
   buildBookEditorPackArchive,
   buildBookLayoutPackArchive,
   buildBookPdfBinary,
+  buildDocxCommentsXml,
+  buildDocxDocumentXml,
+  buildEpubArchive,
   buildSagaBibleDossierHtml,
   buildSagaCartographerPackArchive,
   buildSagaHistorianPackArchive,
   buildSagaTimelineInteractiveHtml,
   sanitizeChapterHtmlForExport,
 } from '../../src/lib/export';
-import { buildPlotBoardModel, getPlotStageLabel } from '../../src/lib/plotBoard';
+import {
+  buildPlotBoardModel,
+  buildPlotChapterCoverage,
+  buildPlotChapterDraft,
+  getPlotStageLabel,
+  linkPlotEventToChapter,
+} from '../../src/lib/plotBoard';
 import { buildSagaConsistencyReport } from '../../src/lib/sagaConsistency';
 import { buildWorldMapModel } from '../../src/lib/worldMap';
 import { buildRelationshipGraphModel } from '../../src/lib/relationshipGraph';
-import { extractZipEntryText, parseStoredZipEntries } from '../../src/lib/zipInspect';
+import { extractZipEntryText, parseStoredZipEntries, readZipEntries, readZipEntryText } from '../../src/lib/zipInspect';
+import { parseOpfPackage, readEpubPackage } from '../../src/lib/epubImport';
+import {
+  buildManuscriptImportPreview,
+  parseHtmlBlocks,
+  parseMarkdownBlocks,
+  parsePlainTextBlocks,
+  readManuscriptImportSource,
+} from '../../src/lib/manuscriptImport';
+import { glyphIdForCodePoint, measureTrueTypeText, parseTrueTypeFont, subsetTrueTypeFont } from '../../src/lib/pdfFonts';
 import {
   buildBackupSnapshotFolderName,
   buildBackupSnapshotManifest,
   detectBookMetadataQuickFixIssues,
   formatBackupSnapshotStamp,
 } from '../../src/lib/storage';
-import { buildOllamaServiceStatus, compressPromptForModel, extractOllamaModelNames } from '../../src/lib/ollamaClient';
+import {
+  buildOllamaServiceStatus,
+  compressPromptForModel,
+  extractOllamaModelNames,
+  parseOllamaStreamBuffer,
+} from '../../src/lib/ollamaClient';
+import { createMockAiProvider, resolveAiBaseUrl, resolveAiProvider } from '../../src/lib/aiProviders';
+import {
+  buildOpenAiCompatibleServiceStatus,
+  extractOpenAiModelNames,
+  parseOpenAiStreamBuffer,
+  resolveOpenAiCompatibleApiRoot,
+} from '../../src/lib/openAiCompatibleClient';
 import { buildTimelineOverviewModel } from '../../src/lib/timelineOverview';
 import {
   applyImpactDrivenVersioning,
@@ -121,7 +220,9 @@ import {
   suggestRelationshipTypes,
 } from '../../src/lib/sagaAutomation';
 import {
-  buildBookAudioExportPath,
+  buildAudiobookM3u,
+  buildAudiobookTracks,
+  buildBookAudioExportDir,
   buildBookAudioText,
   buildChapterAudioExportPath,
   buildChapterAudioText,
@@ -387,6 +488,9 @@ function createMetadata(): BookMetadata {
 
 function createConfig(overrides?: Partial<AppConfig>): AppConfig {
   return {
+    aiProvider: 'ollama',
+    aiBaseUrl: '',
+    aiApiKey: '',
     model: 'llama3.2:3b',
     language: 'es',
     theme: 'system',
@@ -396,6 +500,9 @@ function createConfig(overrides?: Partial<AppConfig>): AppConfig {
     audioVoiceName: '',
     audioRate: 1,
     audioVolume: 1,
+    audioEngine: 'auto',
+    audioEnginePath: '',
+    audioVoiceModel: '',
     aiResponseMode: 'equilibrado',
     autoVersioning: true,
     aiSafeMode: true,
@@ -410,9 +517,13 @@ function createConfig(overrides?: Partial<AppConfig>): AppConfig {
     backupEnabled: false,
     backupDirectory: '',
     backupIntervalMs: 120000,
+    backupRetentionHourly: 24,
+    backupRetentionDaily: 14,
+    backupRetentionWeekly: 8,
     expertWriterMode: false,
     accessibilityHighContrast: false,
     accessibilityLargeText: false,
+    reviewerName: '',
     ...overrides,
   };
 }
@@ -430,6 +541,62 @@ function createChapters(): ChapterDocument[] {
   ];
 }
 
+// TrueType minimo: glifo 1 simple, glifo 2 compuesto sobre el 1, glifo 3 vacio (espacio).
+function createTestTrueTypeFont(): Uint8Array {
+  const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+  const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  const simpleGlyph = [...u16(1), ...u16(0), ...u16(0), ...u16(500), ...u16(500), ...u16(0), ...u16(0), 0x01, ...u16(0), ...u16(0), 0];
+  const compositeGlyph = [...u16(0xffff), ...u16(0), ...u16(0), ...u16(500), ...u16(500), ...u16(0x0001), ...u16(1), ...u16(0), ...u16(0)];
+  const glyf = [...simpleGlyph, ...compositeGlyph];
+  const loca = [...u32(0), ...u32(0), ...u32(simpleGlyph.length), ...u32(glyf.length), ...u32(glyf.length)];
+  const segments = [
+    { code: 0x20, glyphId: 3 },
+    { code: 0x61, glyphId: 1 },
+    { code: 0xed, glyphId: 2 },
+    { code: 0xffff, glyphId: 0 },
+  ];
+  const segCount = segments.length;
+  const cmapSubtable = [
+    ...u16(4),
+    ...u16(16 + segCount * 8),
+    ...u16(0),
+    ...u16(segCount * 2),
+    ...u16(8),
+    ...u16(2),
+    ...u16(0),
+    ...segments.flatMap((segment) => u16(segment.code)),
+    ...u16(0),
+    ...segments.flatMap((segment) => u16(segment.code)),
+    ...segments.flatMap((segment) => u16(segment.code === 0xffff ? 1 : (segment.glyphId - segment.code) & 0xffff)),
+    ...segments.flatMap(() => u16(0)),
+  ];
+  const tables: Record<string, number[]> = {
+    cmap: [...u16(0), ...u16(1), ...u16(3), ...u16(1), ...u32(12), ...cmapSubtable],
+    glyf,
+    head: [
+      ...u32(0x00010000), ...u32(0x00010000), ...u32(0), ...u32(0x5f0f3cf5), ...u16(0), ...u16(1000),
+      ...new Array<number>(16).fill(0), ...u16(0), ...u16(0), ...u16(500), ...u16(700), ...u16(0), ...u16(8), ...u16(2),
+      ...u16(1), ...u16(0),
+    ],
+    hhea: [...u32(0x00010000), ...u16(800), ...u16(0xff38), ...new Array<number>(26).fill(0), ...u16(4)],
+    hmtx: [...u16(500), ...u16(0), ...u16(520), ...u16(0), ...u16(540), ...u16(0), ...u16(250), ...u16(0)],
+    loca,
+    maxp: [...u32(0x00005000), ...u16(4)],
+  };
+  const tags = Object.keys(tables).sort();
+  const padded = (bytes: number[]) => [...bytes, ...new Array<number>((4 - (bytes.length % 4)) % 4).fill(0)];
+  let offset = 12 + tags.length * 16;
+  const directory: number[] = [];
+  const body: number[] = [];
+  for (const tag of tags) {
+    const bytes = tables[tag];
+    directory.push(...Array.from(tag).map((char) => char.charCodeAt(0)), ...u32(0), ...u32(offset), ...u32(bytes.length));
+    body.push(...padded(bytes));
+    offset += padded(bytes).length;
+  }
+  return new Uint8Array([...u32(0x00010000), ...u16(tags.length), ...u16(0), ...u16(0), ...u16(0), ...directory, ...body]);
+}
+
 function createSagaFixture(): SagaProject {
   return {
     path: 'C:/sagas/cronicas-del-faro',
@@ -612,7 +779,7 @@ function createSagaFixture(): SagaProject {
 
 interface TestCase {
   name: string;
-  run: () => void;
+  run: () => void | Promise<void>;
 }
 
 installDomStub();
@@ -664,6 +831,276 @@ const tests: TestCase[] = [
       assert.equal(manifest.items[1].copied, false);
     },
   },
+  {
+    name: 'backup: retencion por hora, dia y semana conserva el mas reciente de cada tramo',
+    run: () => {
+      const snapshots = [
+        { folderName: 'a', createdAt: '2026-03-10T12:40:00.000Z' },
+        { folderName: 'b', createdAt: '2026-03-10T12:10:00.000Z' },
+        { folderName: 'c', createdAt: '2026-03-10T11:05:00.000Z' },
+        { folderName: 'd', createdAt: '2026-03-09T18:00:00.000Z' },
+        { folderName: 'e', createdAt: '2026-03-09T08:00:00.000Z' },
+        { folderName: 'f', createdAt: '2026-03-01T08:00:00.000Z' },
+        { folderName: 'g', createdAt: '2026-02-20T08:00:00.000Z' },
+        { folderName: 'sin-fecha', createdAt: 'x' },
+      ];
+
+      const pruned = selectBackupSnapshotsToPrune(snapshots, { hourly: 2, daily: 2, weekly: 2 });
+      assert.deepEqual(pruned.map((entry) => entry.folderName).sort(), ['b', 'e', 'g']);
+      assert.deepEqual(selectBackupSnapshotsToPrune(snapshots, { hourly: 0, daily: 0, weekly: 0 }), []);
+      assert.deepEqual(
+        selectBackupSnapshotsToPrune(snapshots.slice(0, 3), { hourly: 0, daily: 0, weekly: 1 }).map((entry) => entry.folderName),
+        ['b', 'c'],
+      );
+      const withLegacy = [{ folderName: 'v1', createdAt: '2026-01-01T08:00:00.000Z', version: 1 as const }, ...snapshots];
+      assert.deepEqual(
+        selectBackupSnapshotsToPrune(withLegacy, { hourly: 2, daily: 2, weekly: 2 }).map((entry) => entry.folderName).sort(),
+        ['b', 'e', 'g'],
+      );
+    },
+  },
+  {
+    name: 'backup: compara capitulos del snapshot con el libro actual',
+    run: () => {
+      const [first, second] = createChapters();
+      const backup: ChapterDocument[] = [
+        { ...first, id: '01', content: '<p>Uno dos tres.</p>' },
+        { ...second, id: '02', content: '<p>Original.</p>' },
+        { ...second, id: '03', title: 'Borrado', content: '<p>Ya no existe.</p>' },
+      ];
+      const current: ChapterDocument[] = [
+        { ...first, id: '01', content: '<p>Uno dos tres.</p>' },
+        { ...second, id: '02', content: '<p>Reescrito con mas palabras.</p>' },
+        { ...second, id: '04', title: 'Nuevo', content: '<p>Reciente.</p>' },
+      ];
+
+      const rows = compareBackupChapters(backup, current);
+      assert.deepEqual(
+        rows.map((row) => [row.chapterId, row.status]),
+        [
+          ['01', 'unchanged'],
+          ['02', 'modified'],
+          ['03', 'only-backup'],
+          ['04', 'only-current'],
+        ],
+      );
+      assert.equal(rows[1].backupWords, 1);
+      assert.equal(rows[1].currentWords, 4);
+    },
+  },
+  {
+    name: 'auditoria IA: detecta registros editados, huecos y cabeza desfasada en la cadena',
+    run: () => {
+      const buildRecord = (sequence: number, previousHash: string | null): AiAuditRecord => ({
+        version: 2,
+        hash: `hash-${sequence}`,
+        createdAt: `2026-04-0${sequence}T10:00:00.000Z`,
+        sequence,
+        previousHash,
+        sessionId: `s${sequence}`,
+        scope: 'chapter',
+        operation: 'polish-style',
+        status: 'applied',
+        reason: '',
+        chapterCount: 0,
+        chapterSummaries: [],
+        metadata: {},
+      });
+      const records = [buildRecord(1, null), buildRecord(2, 'hash-1'), buildRecord(3, 'hash-2')];
+      const entries = records.map((record) => ({ fileName: `${record.sequence}.json`, record, computedHash: record.hash }));
+      const head = { sequence: 3, hash: 'hash-3', fileName: '3.json', updatedAt: records[2].createdAt };
+
+      const intact = analyzeAiAuditChain(entries, head, 'ahora');
+      assert.equal(intact.isIntact, true);
+      assert.equal(intact.chainedRecords, 3);
+
+      const withoutMiddle = analyzeAiAuditChain([entries[0], entries[2]], head, 'ahora');
+      assert.deepEqual(withoutMiddle.issues.map((issue) => issue.kind), ['sequence-gap']);
+
+      const tampered = analyzeAiAuditChain(
+        [entries[0], { ...entries[1], computedHash: 'otro' }, entries[2]],
+        head,
+        'ahora',
+      );
+      assert.deepEqual(tampered.issues.map((issue) => [issue.fileName, issue.kind]), [['2.json', 'hash-mismatch']]);
+
+      const truncated = analyzeAiAuditChain(entries.slice(0, 2), head, 'ahora');
+      assert.deepEqual(truncated.issues.map((issue) => issue.kind), ['head-mismatch']);
+
+      const legacy = { ...records[0], version: 1 as const, sequence: undefined, previousHash: undefined };
+      assert.equal(buildAiAuditHashSeed(legacy).includes('"sequence"'), false);
+      assert.notEqual(buildAiAuditHashSeed(records[0]), buildAiAuditHashSeed({ ...records[0], previousHash: 'x' }));
+    },
+  },
+  {
+    name: 'auditoria IA: resume palabras tocadas por IA por capitulo',
+    run: () => {
+      const [first, second] = createChapters();
+      const chapters: ChapterDocument[] = [
+        { ...first, id: '01', content: '<p>Hola mundo brillante.</p>' },
+        { ...second, id: '02', content: '<p>Intacto.</p>' },
+      ];
+      const summary = (chapterId: string, beforeText: string, afterText: string) => ({
+        chapterId,
+        chapterTitle: `Cap ${chapterId}`,
+        beforeText,
+        afterText,
+        beforeWords: 0,
+        afterWords: 0,
+        deltaWords: 0,
+      });
+      const baseRecord: AiAuditRecord = {
+        version: 2,
+        hash: 'h',
+        createdAt: '2026-04-01T10:00:00.000Z',
+        sessionId: 's',
+        scope: 'book',
+        operation: 'polish-style',
+        status: 'applied',
+        reason: '',
+        chapterCount: 2,
+        chapterSummaries: [summary('01', 'Hola mundo.', 'Hola mundo brillante.'), summary('09', 'Viejo texto.', '')],
+        metadata: {},
+      };
+      const rows = buildAiProvenanceRows(
+        [baseRecord, { ...baseRecord, status: 'rolled_back', chapterSummaries: [summary('02', 'a', 'b c d')] }],
+        chapters,
+      );
+
+      assert.deepEqual(
+        rows.map((row) => [row.chapterId, row.sessions, row.aiWordsInserted, row.aiWordsRemoved]),
+        [
+          ['01', 1, 1, 0],
+          ['02', 0, 0, 0],
+          ['09', 1, 0, 2],
+        ],
+      );
+      assert.equal(rows[0].currentWords, 3);
+      assert.equal(rows[2].title, 'Cap 09 (eliminado)');
+    },
+  },
+  {
+    name: 'procedencia IA: marca solo el texto que agrego la IA al aceptar',
+    run: () => {
+      const html = buildAiMarkedHtml(
+        'Primer parrafo intacto.\n\nLa noche era fria.',
+        'Primer parrafo intacto.\n\nLa noche era fria y silenciosa.\n\nUn parrafo nuevo <entero>.',
+        { operation: 'polish-style' },
+        { now: '2026-04-01T10:00:00.000Z' },
+      );
+
+      assert.ok(html.startsWith('<p>Primer parrafo intacto.</p>'));
+      assert.ok(html.includes('<p>La noche era fria<span data-ai-origin="'));
+      assert.ok(html.includes('data-ai-words="2"> y silenciosa</span>.</p>'));
+      assert.ok(html.includes('data-ai-words="4">Un parrafo nuevo &lt;entero&gt;.</span></p>'));
+      assert.equal((html.match(/data-ai-operation="polish-style"/g) ?? []).length, 2);
+      assert.equal(removeAiOriginMarks(html).includes('data-ai-origin'), false);
+      assert.ok(removeAiOriginMarks(html).includes('<p>La noche era fria y silenciosa.</p>'));
+    },
+  },
+  {
+    name: 'procedencia IA: una reescritura completa conserva las marcas previas de parrafos sin cambios',
+    run: () => {
+      const beforeHtml = [
+        '<p>Intro humana.</p>',
+        '<p>Ella dijo <span data-ai-origin="ai-old" data-ai-operation="expand" data-ai-date="2026-03-01" data-ai-words="3">que no volveria</span>.</p>',
+        '<p>Final viejo.</p>',
+      ].join('');
+      const html = buildAiMarkedHtml(
+        'Intro humana.\n\nElla dijo que no volveria.\n\nFinal viejo.',
+        'Intro humana.\n\nElla dijo que no volveria.\n\nFinal nuevo y distinto.',
+        { operation: 'rewrite-chapter' },
+        { now: '2026-04-01T10:00:00.000Z', beforeHtml },
+      );
+
+      assert.ok(html.startsWith('<p>Intro humana.</p>'));
+      assert.ok(html.includes('data-ai-origin="ai-old" data-ai-operation="expand"'));
+      assert.ok(html.includes('data-ai-operation="rewrite-chapter"'));
+      assert.equal(measureAiOriginShare(html).aiWords, 7);
+    },
+  },
+  {
+    name: 'procedencia IA: calcula el porcentaje de texto IA aunque haya spans anidados',
+    run: () => {
+      const html = [
+        '<p>Uno dos tres cuatro.</p>',
+        '<p><span data-ai-origin="ai-1" data-ai-words="4">Cinco <span class="manuscript-comment" data-comment-id="c1">seis</span> siete<br>ocho</span> nueve&nbsp;diez.</p>',
+      ].join('');
+
+      assert.deepEqual(measureAiOriginShare(html), { aiWords: 4, totalWords: 10, percent: 40 });
+      assert.deepEqual(measureAiOriginShare('<p>Sin marcas.</p>'), { aiWords: 0, totalWords: 2, percent: 0 });
+      assert.equal(
+        removeAiOriginMarks(html),
+        '<p>Uno dos tres cuatro.</p><p>Cinco <span class="manuscript-comment" data-comment-id="c1">seis</span> siete<br>ocho nueve&nbsp;diez.</p>',
+      );
+    },
+  },
+  {
+    name: 'renombrar entidad: encuentra nombre, alias, referencias y shortcodes y aplica solo lo aceptado',
+    run: () => {
+      const plan: EntityRenamePlan = {
+        target: { kind: 'character', source: 'book', id: 'char-lena', name: 'Lena', aliases: ['Helena', 'la chica del faro'] },
+        newName: 'Mara',
+        aliasReplacements: { Helena: 'Amara', 'la chica del faro': 'la chica del faro' },
+        keepOldNameAsAlias: true,
+      };
+      const html = [
+        '<p>Lena mira el mar. El abrigo de Lena\'s brother y LENA gritan.</p>',
+        '<p>Magdalena no cambia; Helena tampoco se queda. ',
+        '<span data-semantic-ref-kind="character" data-semantic-ref-id="char-lena" data-semantic-ref-label="Lena" title="Lena">@Lena</span> ',
+        'y @[Personaje:Helena] en #[Lugar:Lena].</p>',
+      ].join('');
+      const chapter = { ...createChapters()[0], content: html };
+
+      const occurrences = buildEntityRenamePreview([{ path: 'C:/books/faro', title: 'Faro', chapters: [chapter] }], plan);
+      assert.deepEqual(
+        occurrences.map((entry) => [entry.kind, entry.matchedText, entry.replacementText]),
+        [
+          ['text', 'Lena', 'Mara'],
+          ['text', "Lena's", "Mara's"],
+          ['text', 'LENA', 'MARA'],
+          ['text', 'Helena', 'Amara'],
+          ['reference', '@Lena', '@Mara'],
+          ['shortcode', '@[Personaje:Helena]', '@[Personaje:Mara]'],
+        ],
+      );
+      assert.equal(occurrences[0].key, 'C:/books/faro::01::0');
+      assert.equal(occurrences[3].contextBefore.endsWith('Magdalena no cambia; '), true);
+      assert.equal(occurrences[3].contextAfter.startsWith(' tampoco se queda.'), true);
+
+      const applied = applyEntityRenameToHtml(html, plan, new Set([0, 2, 4, 5]));
+      assert.equal(applied.replacements, 4);
+      assert.ok(applied.html.startsWith("<p>Mara mira el mar. El abrigo de Lena's brother y MARA gritan.</p>"));
+      assert.ok(applied.html.includes('Magdalena no cambia; Helena tampoco'));
+      assert.ok(applied.html.includes('data-semantic-ref-label="Mara" title="Lena">@Mara</span>'));
+      assert.ok(applied.html.endsWith('y @[Personaje:Mara] en #[Lugar:Lena].</p>'));
+    },
+  },
+  {
+    name: 'renombrar entidad: actualiza la entrada de la biblia del libro y de la saga con sus alias',
+    run: () => {
+      const bible = renameStoryBibleEntity(createStoryBible(), {
+        target: { kind: 'character', source: 'book', id: 'char-lena', name: 'Lena', aliases: ['Helena', 'la chica del faro'] },
+        newName: 'Mara',
+        aliasReplacements: { Helena: 'Amara' },
+        keepOldNameAsAlias: true,
+      });
+      assert.equal(bible.characters[0].name, 'Mara');
+      assert.equal(bible.characters[0].aliases, 'Amara, la chica del faro, Lena');
+      assert.equal(bible.locations[0].name, 'Bar El Muelle');
+
+      const world = renameSagaWorldEntity(createSagaFixture().metadata.worldBible, {
+        target: { kind: 'character', source: 'saga', id: 'char-elara', name: 'Elara', aliases: ['La Heredera'] },
+        newName: 'Elaria',
+        aliasReplacements: { 'La Heredera': 'La Reina' },
+        keepOldNameAsAlias: false,
+      });
+      assert.equal(world.characters[0].name, 'Elaria');
+      assert.equal(world.characters[0].aliases, 'La Reina');
+      assert.equal(world.characters[0].aliasTimeline[0].value, 'La Reina');
+      assert.equal(world.characters[0].aliasTimeline[0].notes, 'Tras la coronacion');
+    },
+  },
   {
     name: 'ollama: detecta modelos instalados y diferencia servicio listo vs modelo faltante',
     run: () => {
@@ -701,6 +1138,92 @@ const tests: TestCase[] = [
       assert.ok(compressed.includes('TRAICION-NUCLEAR'));
     },
   },
+  {
+    name: 'ollama: stream NDJSON conserva lineas parciales y detecta cierre',
+    run: () => {
+      const first = parseOllamaStreamBuffer('{"response":"Hola","done":false}\n{"response":" mun');
+      assert.deepEqual(
+        first.chunks.map((chunk) => chunk.response),
+        ['Hola'],
+      );
+      assert.equal(first.rest, '{"response":" mun');
+
+      const second = parseOllamaStreamBuffer(`${first.rest}do","done":false}\nbasura\n{"response":"","done":true}\n`);
+      assert.deepEqual(
+        second.chunks.map((chunk) => chunk.response),
+        [' mundo', ''],
+      );
+      assert.equal(second.chunks[1].done, true);
+      assert.equal(second.rest, '');
+
+      const flushed = parseOllamaStreamBuffer('{"error":"model not found"}', true);
+      assert.equal(flushed.chunks[0].error, 'model not found');
+      assert.equal(flushed.rest, '');
+    },
+  },
+  {
+    name: 'ai providers: resuelve proveedor y URL base por config',
+    run: () => {
+      const ollamaConfig = createConfig();
+      assert.equal(resolveAiProvider(ollamaConfig).id, 'ollama');
+      assert.equal(resolveAiBaseUrl(ollamaConfig), 'http://localhost:11434');
+
+      const lanConfig = createConfig({ aiProvider: 'openai-compatible', aiBaseUrl: '192.168.1.20:8080/v1/' });
+      assert.equal(resolveAiProvider(lanConfig).id, 'openai-compatible');
+      assert.equal(resolveOpenAiCompatibleApiRoot(resolveAiBaseUrl(lanConfig)), 'http://192.168.1.20:8080/v1');
+      assert.equal(resolveOpenAiCompatibleApiRoot(''), 'http://localhost:1234/v1');
+    },
+  },
+  {
+    name: 'ai providers: stream SSE compatible OpenAI y estado de modelos',
+    run: () => {
+      const parsed = parseOpenAiStreamBuffer(
+        'data: {"choices":[{"delta":{"content":"Luz"}}]}\n\ndata: {"choices":[{"delta":{},"finish_reason":"stop"}]}\ndata: [DONE]\n: ping',
+      );
+      assert.deepEqual(
+        parsed.chunks.map((chunk) => chunk.content),
+        ['Luz', '', ''],
+      );
+      assert.equal(parsed.chunks[1].done, true);
+      assert.equal(parsed.chunks[2].done, true);
+      assert.equal(parsed.rest, ': ping');
+
+      const models = extractOpenAiModelNames({ data: [{ id: 'qwen2.5-7b' }, { id: 'llama-3.1-8b' }] });
+      assert.deepEqual(models, ['llama-3.1-8b', 'qwen2.5-7b']);
+      assert.equal(buildOpenAiCompatibleServiceStatus('qwen2.5-7b', models, 'lan:1234').state, 'ready');
+      assert.equal(buildOpenAiCompatibleServiceStatus('mistral', models, 'lan:1234').state, 'missing-model');
+      // llama.cpp expone un unico modelo y acepta cualquier nombre.
+      assert.equal(buildOpenAiCompatibleServiceStatus('mistral', ['model.gguf'], 'lan:8080').state, 'ready');
+    },
+  },
+  {
+    name: 'ai providers: mock local transmite por tokens y respeta cancelacion',
+    run: async () => {
+      const provider = createMockAiProvider({ responses: ['Primera respuesta larga', 'Segunda'], chunkSize: 5 });
+      const partials: string[] = [];
+      const streamed = await provider.stream({
+        config: createConfig(),
+        prompt: 'Reescribe el cierre',
+        onToken: (partialText) => partials.push(partialText),
+      });
+      assert.equal(streamed, 'Primera respuesta larga');
+      assert.equal(partials.length, 5);
+      assert.equal(partials[0], 'Prime');
+      assert.equal(await provider.generate({ config: createConfig(), prompt: 'Otra' }), 'Segunda');
+      assert.deepEqual(provider.prompts, ['Reescribe el cierre', 'Otra']);
+
+      const controller = new AbortController();
+      controller.abort();
+      await assert.rejects(
+        provider.stream({ config: createConfig(), prompt: 'x', signal: controller.signal }),
+        /cancelada/,
+      );
+
+      const status = await provider.inspect(createConfig());
+      assert.equal(status.state, 'ready');
+      assert.ok(status.message.startsWith('Mock local'));
+    },
+  },
   {
     name: 'timeline overview: calcula escala y huecos mas grandes por orden o anos',
     run: () => {
@@ -911,6 +1434,57 @@ const tests: TestCase[] = [
       assert.ok(preview.items[0].afterSample.includes('Helena'));
     },
   },
+  {
+    name: 'searchReplace: lista cada coincidencia con contexto y reemplaza solo la elegida',
+    run: () => {
+      const chapter = {
+        ...createChapters()[0],
+        content: '<p>Lena entra al bar.</p><p>Luego Lena sale y LENA grita.</p>',
+      };
+      const report = buildBookSearchMatches([chapter], 'lena', { caseSensitive: false, wholeWord: true });
+
+      assert.equal(report.totalMatches, 3);
+      assert.deepEqual(
+        report.matches[0].occurrences.map((entry) => [entry.index, entry.match]),
+        [
+          [0, 'Lena'],
+          [1, 'Lena'],
+          [2, 'LENA'],
+        ],
+      );
+      assert.equal(report.matches[0].occurrences[1].contextBefore, 'Lena entra al bar. Luego ');
+      assert.equal(report.matches[0].occurrences[1].contextAfter, ' sale y LENA grita.');
+
+      const replaced = replaceMatchAtInHtml(chapter.content, 'lena', 'Helena', { caseSensitive: false, wholeWord: true }, 1);
+      assert.equal(replaced.replaced, true);
+      assert.ok(replaced.html.includes('Luego Helena sale y LENA grita.'));
+      assert.ok(replaced.html.startsWith('Lena entra al bar.'));
+      assert.equal(
+        replaceMatchAtInHtml(chapter.content, 'lena', 'Helena', { caseSensitive: false, wholeWord: true }, 3).replaced,
+        false,
+      );
+    },
+  },
+  {
+    name: 'searchReplace: restringe la busqueda por estado, POV y rango de capitulos',
+    run: () => {
+      const base = createChapters()[0];
+      const chapters = [
+        { ...base, id: '01', status: 'final' as const, pointOfView: 'Lena' },
+        { ...base, id: '02', pointOfView: 'Bruno' },
+        { ...base, id: '03', status: 'en_revision' as const, pointOfView: 'Lena Ortiz' },
+        { ...base, id: '04', status: 'final' as const, pointOfView: 'lena' },
+      ];
+      const ids = (filter: Parameters<typeof filterChaptersForSearch>[1]) =>
+        filterChaptersForSearch(chapters, filter).map((chapter) => chapter.id);
+
+      assert.deepEqual(ids({ status: '', pointOfView: '', range: { fromChapter: null, toChapter: null } }), ['01', '02', '03', '04']);
+      assert.deepEqual(ids({ status: 'borrador', pointOfView: '', range: { fromChapter: null, toChapter: null } }), ['02']);
+      assert.deepEqual(ids({ status: '', pointOfView: ' LENA ', range: { fromChapter: null, toChapter: null } }), ['01', '03', '04']);
+      assert.deepEqual(ids({ status: 'final', pointOfView: 'lena', range: { fromChapter: 2, toChapter: null } }), ['04']);
+      assert.deepEqual(ids({ status: '', pointOfView: '', range: { fromChapter: 3, toChapter: 2 } }), ['02', '03']);
+    },
+  },
   {
     name: 'searchReplace: soporta regex valido en busqueda global',
     run: () => {
@@ -1043,6 +1617,68 @@ const tests: TestCase[] = [
       assert.equal(report.errors.some((issue) => issue.id === 'editorial.custom.custom-2'), false);
     },
   },
+  {
+    name: 'styleRules: parsea pares del glosario y reglas regex con correccion rapida',
+    run: () => {
+      const foundation = {
+        ...createMetadata().foundation,
+        glossaryAvoid: 'ojos esmeralda -> ojos verdes, de repente',
+        glossaryPreferred: 'movil <- celular / telefono movil\nmar',
+        styleRules: 'Frases claras.\n/(\\d+) por ciento/ -> $1 % # Usar simbolo\n/([/',
+      };
+      const ruleSet = parseStyleRules(foundation);
+      assert.deepEqual(
+        ruleSet.rules.map((rule) => [rule.label, rule.replacement]),
+        [
+          ['ojos esmeralda', 'ojos verdes'],
+          ['de repente', null],
+          ['celular', 'movil'],
+          ['telefono movil', 'movil'],
+          ['/(\\d+) por ciento/', '$1 %'],
+        ],
+      );
+      assert.equal(ruleSet.errors.length, 1);
+      assert.ok(ruleSet.errors[0].startsWith('Linea 3:'));
+      assert.deepEqual(listPreferredGlossaryTerms(foundation), ['movil', 'mar']);
+
+      const violations = findStyleRuleViolations(
+        'Sus Ojos  esmeralda brillaron. De repente sono el celular: 50 por ciento de bateria.',
+        ruleSet.rules,
+      );
+      assert.deepEqual(
+        violations.map((violation) => [violation.text, violation.replacement]),
+        [
+          ['Ojos  esmeralda', 'Ojos verdes'],
+          ['De repente', null],
+          ['celular', 'movil'],
+          ['50 por ciento', '50 %'],
+        ],
+      );
+      assert.equal(violations[3].message, 'Usar simbolo');
+    },
+  },
+  {
+    name: 'editorialChecklist: reporta infracciones del glosario por capitulo',
+    run: () => {
+      const metadata = createMetadata();
+      metadata.foundation = {
+        ...metadata.foundation,
+        glossaryAvoid: 'ojos esmeralda -> ojos verdes',
+        styleRules: '/sin cierre',
+      };
+      const chapters: ChapterDocument[] = [
+        { ...createChapters()[0], content: '<p>Tenia ojos esmeralda.</p><p>Otra vez ojos esmeralda.</p>' },
+        { ...createChapters()[0], id: '02', title: 'Capitulo 2', content: '<p>Todo en orden.</p>' },
+      ];
+
+      const report = buildEditorialChecklist(metadata, createConfig({ language: 'es' }), chapters);
+      const chapterIssue = report.warnings.find((issue) => issue.id === 'style.rules.01');
+      assert.ok(chapterIssue?.message.includes('2 infraccion(es)'));
+      assert.ok(chapterIssue?.message.includes('"ojos esmeralda" -> "ojos verdes"'));
+      assert.equal(report.warnings.some((issue) => issue.id === 'style.rules.02'), false);
+      assert.ok(report.warnings.some((issue) => issue.id === 'style.rules.invalid'));
+    },
+  },
   {
     name: 'storyBibleSync: detecta personajes y lugares nuevos desde capitulo',
     run: () => {
@@ -1251,6 +1887,120 @@ const tests: TestCase[] = [
       assert.equal(report.issues.some((issue) => issue.message.includes('no revela')), false);
     },
   },
+  {
+    name: 'manuscriptAudit: detecta secreto revelado antes de tiempo y capitulo de revelacion inexistente',
+    run: () => {
+      const storyBible = createStoryBible();
+      storyBible.secrets = [
+        {
+          id: 'secret-hermano',
+          title: 'El hermano vive',
+          objectiveTruth: 'El hermano de Lena trabaja como guardian del faro abandonado.',
+          perceivedTruth: 'El hermano murio en el naufragio.',
+          notes: '',
+          relatedCharacterIds: ['char-lena'],
+          revealedInChapterId: '03',
+        },
+        {
+          id: 'secret-perdido',
+          title: 'Capitulo borrado',
+          objectiveTruth: 'La carta fue escrita por la capitana.',
+          perceivedTruth: '',
+          notes: '',
+          relatedCharacterIds: [],
+          revealedInChapterId: '99',
+        },
+      ];
+      const chapters = ['01', '02', '03'].map((id, index) => ({
+        ...createChapters()[0],
+        id,
+        title: `Capitulo ${index + 1}`,
+      }));
+      chapters[0].content = '<p>La niebla cubre el puerto.</p><p>Dicen que el hermano trabaja como guardian del faro abandonado.</p>';
+      chapters[2].content = '<p>Lena descubre que su hermano trabaja como guardian del faro abandonado.</p>';
+
+      const report = buildManuscriptAuditReport({ chapters, storyBible });
+      const secretFindings = report.groups.flatMap((group) => group.findings).filter((finding) => finding.category === 'secret');
+
+      assert.equal(report.checkedChapters, 3);
+      assert.equal(report.groups[0].chapterId, null);
+      assert.ok(report.groups[0].findings.some((finding) => finding.severity === 'error' && finding.message.includes('Capitulo borrado')));
+      const leak = secretFindings.find((finding) => finding.chapterId === '01');
+      assert.ok(leak);
+      assert.equal(leak.focusText, 'Dicen que el hermano trabaja como guardian del faro abandonado.');
+      assert.equal(secretFindings.some((finding) => finding.chapterId === '03'), false);
+    },
+  },
+  {
+    name: 'manuscriptAudit: cruza timeline de saga con vida de personajes y dueños de artefactos',
+    run: () => {
+      const saga = createSagaFixture();
+      const world = saga.metadata.worldBible;
+      world.characters.push({
+        id: 'char-tobias',
+        name: 'Tobias',
+        aliases: '',
+        summary: '',
+        notes: '',
+        aliasTimeline: [],
+        lifecycle: {
+          birthEventId: null,
+          deathEventId: null,
+          firstAppearanceEventId: null,
+          lastKnownEventId: null,
+          currentStatus: 'alive',
+        },
+      });
+      world.artifacts = [{ id: 'art-espada', name: 'Espada de Bruma', aliases: '', summary: '', notes: '' }];
+      world.timeline[1].artifactTransfers = [
+        { artifactId: 'art-espada', fromCharacterId: '', toCharacterId: 'char-elara', notes: '' },
+      ];
+      world.timeline.push({
+        ...world.timeline[3],
+        id: 'event-funeral',
+        title: 'Funeral',
+        category: 'political',
+        startOrder: 25,
+        displayLabel: 'A-25',
+        bookRefs: [{ bookPath: 'C:\\books\\vol-1\\', chapterId: '13', mode: 'occurs' }],
+        characterImpacts: [],
+      });
+      const chapters = ['01', '07', '12', '13', '14'].map((id) => ({
+        ...createChapters()[0],
+        id,
+        title: `Capitulo ${id}`,
+      }));
+      chapters[0].content = '<p>Elara llega al reino.</p>';
+      chapters[1].content = '<p>Tobias empuna la Espada de Bruma en el salon del trono.</p>';
+      chapters[2].content = '<p>Elara cae en la batalla final.</p>';
+      chapters[3].content = '<p>Elara recibe a los embajadores en el salon.</p>';
+      chapters[4].content = '<p>Tobias recuerda a Elara en silencio.</p>';
+
+      const report = buildManuscriptAuditReport({
+        chapters,
+        storyBible: { characters: [], locations: [], continuityRules: '' },
+        bookPath: 'C:/books/vol-1',
+        saga,
+      });
+      const findingsFor = (chapterId: string) =>
+        report.groups.find((group) => group.chapterId === chapterId)?.findings ?? [];
+
+      assert.ok(findingsFor('07').some((finding) => finding.category === 'artifact' && finding.message.includes('Tobias')));
+      assert.ok(findingsFor('13').some((finding) => finding.category === 'lifecycle' && finding.severity === 'error'));
+      assert.ok(findingsFor('14').some((finding) => finding.category === 'lifecycle' && finding.severity === 'warning'));
+      assert.equal(findingsFor('01').length, 0);
+      assert.equal(findingsFor('12').length, 0);
+      assert.deepEqual(report.groups.map((group) => group.chapterId), ['07', '13', '14']);
+      assert.equal(report.errorCount, 1);
+    },
+  },
+  {
+    name: 'manuscriptAudit: extrae el pasaje a seleccionar desde la evidencia',
+    run: () => {
+      assert.equal(resolveEvidenceFocusText('Actual: Lena corre con el brazo | Previo: Lena se rompe el brazo'), 'Lena corre con el brazo');
+      assert.equal(resolveEvidenceFocusText('  La niebla cubre el puerto.  '), 'La niebla cubre el puerto.');
+    },
+  },
   {
     name: 'continuityGuard: procesa texto largo repetitivo sin perder deteccion clave',
     run: () => {
@@ -1721,8 +2471,8 @@ const tests: TestCase[] = [
 
       const chapter = createChapters()[0];
       const chapterAudioText = buildChapterAudioText(chapter);
-      assert.ok(chapterAudioText.includes('Capitulo 01.'));
-      assert.ok(chapterAudioText.includes(chapter.title));
+      assert.ok(chapterAudioText.startsWith(`${chapter.title}.`));
+      assert.equal(chapterAudioText.includes('Capitulo 01'), false);
 
       const metadata = createMetadata();
       const bookAudioText = buildBookAudioText(metadata, createChapters());
@@ -1733,48 +2483,513 @@ const tests: TestCase[] = [
       assert.ok(chapterPath.endsWith('.wav'));
       assert.ok(chapterPath.includes('/exports/'));
 
-      const bookPath = buildBookAudioExportPath('C:/books/demo', metadata);
-      assert.ok(bookPath.endsWith('-audiolibro.wav'));
+      assert.ok(buildBookAudioExportDir('C:/books/demo', metadata).endsWith('-audiolibro'));
     },
   },
   {
-    name: 'metrics: cuenta palabras y estima paginas',
+    name: 'audio: audiolibro por pistas lee titulos y genera lista M3U',
     run: () => {
-      assert.equal(countWordsFromPlainText('uno dos tres'), 3);
-      assert.equal(countWordsFromHtml('<p>uno dos</p><p>tres</p>'), 3);
-      const pages = estimatePagesFromWords(1600, createInterior('6x9'));
-      assert.ok(pages >= 5);
-      assert.equal(formatNumber(12500), '12.500');
+      const metadata = createMetadata();
+      const chapters: ChapterDocument[] = [
+        { ...createChapters()[0], id: '01', title: 'El faro', content: '<h2>El faro</h2><p>Luz azul.</p>' },
+        { ...createChapters()[0], id: '02', title: '', content: '<p>Niebla.</p>' },
+        { ...createChapters()[0], id: '03', title: 'Vacio', content: '<p></p>' },
+      ];
+
+      const tracks = buildAudiobookTracks(metadata, chapters);
+      assert.deepEqual(
+        tracks.map((track) => track.fileName),
+        ['00-presentacion.wav', '01-El-faro.wav', '02-Capitulo-2.wav'],
+      );
+      assert.equal(tracks[1].text, 'El faro.\n\nLuz azul.');
+      assert.equal(tracks[2].text, 'Capitulo 2.\n\nNiebla.');
+
+      const playlist = buildAudiobookM3u(
+        metadata,
+        'demo-audiolibro',
+        tracks.map((track, index) => ({ ...track, durationSeconds: index === 0 ? 0 : 61.6 })),
+      );
+      const lines = playlist.trim().split('\n');
+      assert.equal(lines[0], '#EXTM3U');
+      assert.ok(lines.includes(`#EXTINF:-1,${metadata.author} - ${metadata.title}`));
+      assert.ok(lines.includes(`#EXTINF:62,${metadata.author} - El faro`));
+      assert.equal(lines[lines.length - 1], 'demo-audiolibro/02-Capitulo-2.wav');
     },
   },
   {
-    name: 'diff: detecta bloques iguales, insertados y eliminados',
+    name: 'pronunciation: aplica respelling por palabra completa y genera SSML con IPA',
     run: () => {
-      const operations = diffTextBlocks(
-        'Parrafo uno.\n\nParrafo dos.',
-        'Parrafo uno.\n\nParrafo nuevo.\n\nParrafo dos.',
+      const lexicon = mergePronunciationLexicons(
+        [
+          { id: 'b1', term: 'Kael', respelling: 'Kai-el', ipa: '', source: 'character' },
+          { id: 'b2', term: 'Kael Tor', respelling: 'Kai-el Tor', ipa: '', source: 'manual' },
+        ],
+        [
+          { id: 's1', term: 'kael', respelling: 'Kel', ipa: '', source: 'manual' },
+          { id: 's2', term: 'Ñor', respelling: '', ipa: 'ɲoɾ', source: 'conlang' },
+          { id: 's3', term: 'Vacío', respelling: '', ipa: '', source: 'conlang' },
+        ],
       );
-      const summary = summarizeDiffOperations(operations);
+      assert.equal(lexicon.length, 3);
 
-      assert.ok(operations.some((entry) => entry.type === 'insert'));
-      assert.equal(summary.insertCount, 1);
-      assert.ok(summary.equalCount >= 1);
-      assert.equal(summary.deleteCount, 0);
+      const text = 'Kael Tor miro a Kael y a Kaelion en el Ñor.';
+      assert.equal(applyPronunciationLexicon(text, lexicon), 'Kai-el Tor miro a Kai-el y a Kaelion en el Ñor.');
+      assert.equal(
+        buildPronunciationSsml('Kael & el Ñor', lexicon, 'es-ES'),
+        '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="es-ES">' +
+          '<sub alias="Kai-el">Kael</sub> &amp; el <phoneme alphabet="ipa" ph="ɲoɾ">Ñor</phoneme></speak>',
+      );
+      assert.equal(buildPronunciationSsml('Sin nombres propios.', lexicon, 'es'), null);
+
+      const chapter = { ...createChapters()[0], title: 'Kael', content: '<p>Kael avanza.</p>' };
+      assert.equal(buildChapterAudioText(chapter, 1, lexicon), 'Kai-el.\n\nKai-el avanza.');
     },
   },
   {
-    name: 'collaborationPatchPreview: resume altas y cambios antes de importar',
+    name: 'pronunciation: sugiere nombres, alias y lexico de conlang sin duplicar',
     run: () => {
-      const chapters = {
-        '01': {
-          id: '01',
-          title: 'Capitulo 1',
-          content: '<p>Lena llega al puerto.</p>',
-          lengthPreset: 'media' as const,
-          createdAt: '2026-01-01T00:00:00.000Z',
-          updatedAt: '2026-01-01T00:00:00.000Z',
-        },
-      };
+      const storyBible = createStoryBible();
+      storyBible.characters = [{ ...storyBible.characters[0], name: 'Aria', aliases: 'La Guardiana; Ari' }];
+      const fixture = createSagaFixture();
+      const saga: SagaProject = {
+        ...fixture,
+        metadata: {
+          ...fixture.metadata,
+          worldBible: {
+            ...fixture.metadata.worldBible,
+            conlangs: [
+              {
+                id: 'c1',
+                name: 'Alto vhar',
+                phonetics: '',
+                grammarNotes: '',
+                styleRules: '',
+                sampleText: '',
+                lexicon: [{ id: 'l1', term: 'vharesh', translation: 'luz', notes: 'Se pronuncia /ˈβa.ɾeʃ/' }],
+              },
+            ],
+          },
+        },
+      };
+
+      const seeds = buildPronunciationSeedEntries(storyBible, saga, [
+        { id: 'x', term: 'ari', respelling: 'A-ri', ipa: '', source: 'manual' },
+      ]);
+      assert.deepEqual(
+        seeds.map((entry) => [entry.term, entry.source, entry.ipa]),
+        [
+          ['Aria', 'character', ''],
+          ['La Guardiana', 'character', ''],
+          ['vharesh', 'conlang', 'ˈβa.ɾeʃ'],
+        ],
+      );
+    },
+  },
+  {
+    name: 'writingSessions: cuenta palabras agregadas/borradas y acumula por dia y capitulo',
+    run: () => {
+      assert.deepEqual(countWordDelta('<p>El faro azul</p><p>brilla</p>', '<p>El faro rojo</p><p>brilla fuerte hoy</p>'), {
+        added: 3,
+        removed: 1,
+      });
+
+      let log = buildEmptyWritingSessionLog();
+      log = recordWritingActivity(log, { date: '2026-03-02', chapterId: '02', added: 100, removed: 10 });
+      log = recordWritingActivity(log, { date: '2026-03-01', chapterId: '01', added: 50, activeSeconds: 90 });
+      log = recordWritingActivity(log, { date: '2026-03-02', chapterId: '02', added: 5, activeSeconds: 30 });
+      assert.equal(recordWritingActivity(log, { date: '2026-03-03', chapterId: '01' }), log);
+      assert.deepEqual(log.days.map((day) => day.date), ['2026-03-01', '2026-03-02']);
+      assert.deepEqual(log.days[1].chapters['02'], { added: 105, removed: 10, activeSeconds: 30 });
+
+      assert.equal(
+        buildWritingSessionsCsv(log, { '01': 'Inicio, parte 1' }),
+        'fecha,capitulo,titulo,palabras_agregadas,palabras_borradas,neto,minutos_editor\n' +
+          '2026-03-01,01,"Inicio, parte 1",50,0,50,1.5\n' +
+          '2026-03-02,02,,105,10,95,0.5\n',
+      );
+    },
+  },
+  {
+    name: 'writingSessions: racha con meta diaria, proyeccion a fecha limite y calendario semanal',
+    run: () => {
+      let log = buildEmptyWritingSessionLog();
+      for (const [date, added] of [
+        ['2026-03-01', 600],
+        ['2026-03-03', 500],
+        ['2026-03-04', 700],
+        ['2026-03-05', 200],
+        ['2026-03-06', 800],
+        ['2026-03-07', 900],
+      ] as const) {
+        log = recordWritingActivity(log, { date, chapterId: '01', added });
+      }
+
+      assert.deepEqual(computeWritingStreak(log, '2026-03-07'), { current: 5, best: 5 });
+      assert.deepEqual(computeWritingStreak(log, '2026-03-08'), { current: 5, best: 5 });
+      assert.deepEqual(computeWritingStreak(log, '2026-03-09'), { current: 0, best: 5 });
+
+      log = { ...log, goals: { dailyWords: 500, targetWords: 10000, deadline: '2026-03-16' } };
+      assert.deepEqual(computeWritingStreak(log, '2026-03-07'), { current: 2, best: 2 });
+
+      const projection = buildWritingGoalProjection(log, 6000, '2026-03-07');
+      assert.equal(projection.remainingWords, 4000);
+      assert.equal(projection.daysLeft, 10);
+      assert.equal(projection.requiredPerDay, 400);
+      assert.equal(projection.averagePerDay, 529);
+      assert.equal(projection.projectedFinishDate, '2026-03-15');
+      assert.equal(projection.onTrack, true);
+
+      const calendar = buildStreakCalendar(log, '2026-03-07', 2);
+      assert.equal(calendar.length, 2);
+      assert.equal(calendar[0][0].date, '2026-02-23');
+      assert.equal(calendar[1][5].date, '2026-03-07');
+      assert.equal(calendar[1][5].level, 4);
+      assert.equal(calendar[1][3].metGoal, false);
+      assert.equal(calendar[1][6].isFuture, true);
+    },
+  },
+  {
+    name: 'writingSessions: sprint con descansos y totales de sprints por capitulo',
+    run: () => {
+      const plan = { sprintMinutes: 10, breakMinutes: 2, rounds: 2, blockAi: true };
+      assert.deepEqual(resolveSprintPhase(plan, 30), { kind: 'sprint', round: 1, remainingSeconds: 570 });
+      assert.deepEqual(resolveSprintPhase(plan, 660), { kind: 'break', round: 1, remainingSeconds: 60 });
+      assert.deepEqual(resolveSprintPhase(plan, 720), { kind: 'sprint', round: 2, remainingSeconds: 600 });
+      assert.deepEqual(resolveSprintPhase(plan, 1320), { kind: 'done', round: 2, remainingSeconds: 0 });
+      assert.equal(resolveSprintPhase({ ...plan, rounds: 1 }, 600).kind, 'done');
+
+      assert.equal(computeSprintWordsPerMinute(450, 600), 45);
+      assert.equal(computeSprintWordsPerMinute(40, 5), 0);
+
+      let log = buildEmptyWritingSessionLog();
+      for (const [chapterId, startWords, endWords] of [
+        ['01', 1000, 1400],
+        ['02', 0, 250],
+        ['01', 1400, 1380],
+      ] as const) {
+        log = recordWritingSprint(log, {
+          id: `${chapterId}-${startWords}`,
+          chapterId,
+          startedAt: '2026-03-01T10:00:00.000Z',
+          plannedMinutes: 10,
+          durationSeconds: 600,
+          startWords,
+          endWords,
+          completed: true,
+        });
+      }
+      assert.equal(log.sprints.length, 3);
+      assert.deepEqual(summarizeSprintsByChapter(log), {
+        '01': { sprints: 2, words: 380, seconds: 1200 },
+        '02': { sprints: 1, words: 250, seconds: 600 },
+      });
+    },
+  },
+  {
+    name: 'metrics: cuenta palabras y estima paginas',
+    run: () => {
+      assert.equal(countWordsFromPlainText('uno dos tres'), 3);
+      assert.equal(countWordsFromHtml('<p>uno dos</p><p>tres</p>'), 3);
+      const pages = estimatePagesFromWords(1600, createInterior('6x9'));
+      assert.ok(pages >= 5);
+      assert.equal(formatNumber(12500), '12.500');
+    },
+  },
+  {
+    name: 'diff: detecta bloques iguales, insertados y eliminados',
+    run: () => {
+      const operations = diffTextBlocks(
+        'Parrafo uno.\n\nParrafo dos.',
+        'Parrafo uno.\n\nParrafo nuevo.\n\nParrafo dos.',
+      );
+      const summary = summarizeDiffOperations(operations);
+
+      assert.ok(operations.some((entry) => entry.type === 'insert'));
+      assert.equal(summary.insertCount, 1);
+      assert.ok(summary.equalCount >= 1);
+      assert.equal(summary.deleteCount, 0);
+    },
+  },
+  {
+    name: 'diff: una coma cambiada marca solo el cambio dentro del parrafo',
+    run: () => {
+      const entries = diffParagraphs(
+        'El faro brilla.\n\nAria camina hacia el puerto sin mirar atras.',
+        'El faro brilla.\n\nAria camina hacia el puerto, sin mirar atras.',
+      );
+      assert.deepEqual(entries.map((entry) => entry.kind), ['equal', 'modify']);
+      assert.deepEqual(entries[1].inline, [
+        { type: 'equal', value: 'Aria camina hacia el puerto' },
+        { type: 'insert', value: ',' },
+        { type: 'equal', value: ' sin mirar atras.' },
+      ]);
+
+      const rewrite = diffInlineText('la luz azul del faro', 'la luz roja del faro');
+      assert.deepEqual(rewrite, [
+        { type: 'equal', value: 'la luz ' },
+        { type: 'delete', value: 'azul' },
+        { type: 'insert', value: 'roja' },
+        { type: 'equal', value: ' del faro' },
+      ]);
+      assert.deepEqual(
+        diffInlineText('gato', 'gatos', 'char').filter((operation) => operation.type !== 'equal'),
+        [{ type: 'insert', value: 's' }],
+      );
+    },
+  },
+  {
+    name: 'diff: detecta parrafos movidos y aplica solo los hunks aceptados',
+    run: () => {
+      const before = 'Uno.\n\nDos dos dos.\n\nTres.\n\nCuatro.';
+      const after = 'Dos dos dos.\n\nUno.\n\nTres y algo mas.\n\nCuatro.\n\nCinco nuevo.';
+      const entries = diffParagraphs(before, after);
+      const summary = summarizeParagraphDiff(entries);
+      const moved = entries.filter((entry) => entry.kind === 'move-from' || entry.kind === 'move-to');
+
+      assert.equal(summary.moveCount, 1);
+      assert.equal(moved.length, 2);
+      assert.equal(moved[0].hunkId, moved[1].hunkId);
+      assert.equal(summary.modifyCount, 1);
+      assert.equal(summary.insertCount, 1);
+      assert.equal(summary.hunkCount, 3);
+
+      const allHunks = new Set(entries.flatMap((entry) => (entry.hunkId === null ? [] : [entry.hunkId])));
+      assert.equal(applyParagraphDiffHunks(entries, allHunks), after);
+      assert.equal(applyParagraphDiffHunks(entries, new Set()), before);
+
+      const insertHunk = entries.find((entry) => entry.kind === 'insert')?.hunkId as number;
+      assert.equal(applyParagraphDiffHunks(entries, new Set([insertHunk])), `${before}\n\nCinco nuevo.`);
+    },
+  },
+  {
+    name: 'trackChanges: lista cambios pendientes y los acepta o rechaza por id',
+    run: () => {
+      const html =
+        '<p>El faro <del data-track-change="delete" data-track-id="tc-1" data-track-author="Ana" data-track-date="2026-02-01T10:00:00.000Z">viejo</del>' +
+        '<ins data-track-change="insert" data-track-id="tc-1" data-track-author="Ana" data-track-date="2026-02-01T10:00:00.000Z">nuevo</ins> brilla.</p>' +
+        '<p><del data-track-change="delete" data-track-id="tc-2" data-track-author="Luis" data-track-date="2026-02-02T10:00:00.000Z">Sobra.</del></p><p></p>';
+
+      assert.deepEqual(listTrackedChanges(html), [
+        { id: 'tc-1', author: 'Ana', date: '2026-02-01T10:00:00.000Z', insertedText: 'nuevo', deletedText: 'viejo' },
+        { id: 'tc-2', author: 'Luis', date: '2026-02-02T10:00:00.000Z', insertedText: '', deletedText: 'Sobra.' },
+      ]);
+      assert.equal(acceptAllTrackedChanges(html), '<p>El faro nuevo brilla.</p><p></p>');
+      assert.equal(
+        resolveTrackedChangesInHtml(html, 'all', 'reject'),
+        '<p>El faro viejo brilla.</p><p>Sobra.</p><p></p>',
+      );
+      assert.equal(listTrackedChanges(resolveTrackedChangesInHtml(html, 'tc-1', 'accept')).map((change) => change.id).join(), 'tc-2');
+      assert.equal(htmlToMarkdown(html), 'El faro nuevo brilla.');
+    },
+  },
+  {
+    name: 'trackChanges: DOCX exporta revisiones w:ins/w:del y el PDF omite borrados',
+    run: () => {
+      const metadata = createMetadata();
+      const chapter: ChapterDocument = {
+        id: '01',
+        title: 'Capitulo 1',
+        content:
+          '<p>Hola <del data-track-change="delete" data-track-id="tc-1" data-track-author="Ana &amp; Co" data-track-date="2026-02-01T10:00:00.000Z">mundo</del>' +
+          '<ins data-track-change="insert" data-track-id="tc-1" data-track-author="Ana &amp; Co" data-track-date="2026-02-01T10:00:00.000Z"><strong>faro</strong></ins>.</p>',
+        lengthPreset: 'media',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      };
+      const xml = buildDocxDocumentXml(metadata, [chapter]);
+
+      assert.match(
+        xml,
+        /<w:del w:id="1" w:author="Ana &amp; Co" w:date="2026-02-01T10:00:00Z"><w:r><w:delText xml:space="preserve">mundo<\/w:delText><\/w:r><\/w:del>/,
+      );
+      assert.match(xml, /<w:ins w:id="2" w:author="Ana &amp; Co" [^>]*><w:r><w:rPr><w:b \/><\/w:rPr><w:t xml:space="preserve">faro<\/w:t>/);
+      assert.equal(xml.includes('__DOCX_REVISION_ID__'), false);
+      assert.equal(sanitizeChapterHtmlForExport(chapter.content).includes('mundo'), false);
+    },
+  },
+  {
+    name: 'manuscriptComments: lee anclas, las quita y reancla notas tras una reescritura plana',
+    run: () => {
+      const html =
+        '<p>El <span class="manuscript-comment" data-comment-id="n-1">faro <em>viejo</em></span> brilla.</p>' +
+        '<p><span class="manuscript-comment" data-comment-id="n-1">Sigue</span> la costa.</p>';
+      assert.deepEqual(Array.from(listCommentAnchorIds(html)), ['n-1']);
+      assert.equal(extractCommentAnchorTexts(html).get('n-1'), 'faro viejo Sigue');
+      assert.equal(removeCommentAnchors(html), '<p>El faro <em>viejo</em> brilla.</p><p>Sigue la costa.</p>');
+
+      const note = {
+        id: 'n-2',
+        excerpt: 'la marea sube',
+        note: 'Revisar ritmo',
+        status: 'open' as const,
+        createdAt: '2026-02-01T10:00:00.000Z',
+        updatedAt: '2026-02-01T10:00:00.000Z',
+      };
+      const rewritten = anchorManuscriptNotes('<p>Al alba la marea&nbsp;sube despacio.</p>', [note]);
+      assert.equal(
+        rewritten.content,
+        '<p>Al alba <span class="manuscript-comment" data-comment-id="n-2">la marea&nbsp;sube</span> despacio.</p>',
+      );
+      assert.equal(rewritten.notes[0].excerpt, 'la marea sube');
+
+      const edited = anchorManuscriptNotes(
+        '<p>Al alba <span class="manuscript-comment" data-comment-id="n-2">la marea baja</span>.</p>',
+        [note],
+      );
+      assert.equal(edited.notes[0].excerpt, 'la marea baja');
+      assert.equal(anchorManuscriptNotes('<p>Otro texto.</p>', [note]).content, '<p>Otro texto.</p>');
+    },
+  },
+  {
+    name: 'manuscriptComments: DOCX exporta comentarios con rango, respuestas y notas sin ancla',
+    run: () => {
+      const metadata = createMetadata();
+      const chapter: ChapterDocument = {
+        id: '01',
+        title: 'Capitulo 1',
+        content:
+          '<p>Uno <span class="manuscript-comment" data-comment-id="n-1">dos</span></p>' +
+          '<p><span class="manuscript-comment" data-comment-id="n-1">tres</span> cuatro</p>',
+        lengthPreset: 'media',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        manuscriptNotes: [
+          {
+            id: 'n-1',
+            excerpt: 'dos tres',
+            note: 'Unir frases',
+            author: 'Ana',
+            status: 'resolved',
+            createdAt: '2026-02-01T10:00:00.000Z',
+            updatedAt: '2026-02-01T10:00:00.000Z',
+            replies: [{ id: 'r-1', author: 'Luis', note: 'Hecho', createdAt: '2026-02-02T10:00:00.000Z' }],
+          },
+          {
+            id: 'n-2',
+            excerpt: 'texto reescrito',
+            note: 'General',
+            status: 'open',
+            createdAt: '2026-02-03T10:00:00.000Z',
+            updatedAt: '2026-02-03T10:00:00.000Z',
+          },
+        ],
+      };
+      const xml = buildDocxDocumentXml(metadata, [chapter]);
+
+      assert.equal(xml.match(/<w:commentRangeStart w:id="0" \/>/g)?.length, 1);
+      assert.equal(xml.match(/<w:commentReference w:id="1" \/>/g)?.length, 1);
+      assert.match(xml, /<w:commentRangeStart w:id="0" \/><w:commentRangeStart w:id="1" \/><w:r>[\s\S]*?dos/);
+      assert.match(xml, /tres<\/w:t><\/w:r><w:commentRangeEnd w:id="0" \/>/);
+      assert.match(xml, /<w:commentRangeStart w:id="2" \/><w:r>[\s\S]*?Capitulo 1/);
+      assert.equal(xml.includes('<!--comment-'), false);
+
+      const parts = buildDocxCommentsXml([chapter]);
+      assert.ok(parts);
+      assert.match(parts.comments, /<w:comment w:id="1" w:author="Luis" w:date="2026-02-02T10:00:00Z"/);
+      assert.match(parts.extended, /w15:paraId="00000002" w15:paraIdParent="00000001" w15:done="1"/);
+      assert.equal(buildDocxCommentsXml([{ ...chapter, manuscriptNotes: [] }]), null);
+      assert.equal(sanitizeChapterHtmlForExport(chapter.content).includes('data-comment-id'), false);
+    },
+  },
+  {
+    name: 'draftBranches: separa bloques HTML de primer nivel y fusiona cambios no solapados',
+    run: () => {
+      assert.deepEqual(splitHtmlBlocks('<p>Uno <em>dos</em></p>\n<blockquote><p>Cita</p></blockquote><hr><p></p>'), [
+        '<p>Uno <em>dos</em></p>',
+        '<blockquote><p>Cita</p></blockquote>',
+        '<hr>',
+        '<p></p>',
+      ]);
+
+      const segments = mergeTextBlocks3(['A', 'B', 'C', 'D'], ['A2', 'B', 'C', 'D'], ['A', 'B', 'C', 'D', 'E']);
+      assert.equal(segments.some((segment) => segment.kind === 'conflict'), false);
+      assert.deepEqual(
+        segments.flatMap((segment) => (segment.kind === 'conflict' ? [] : segment.blocks)),
+        ['A2', 'B', 'C', 'D', 'E'],
+      );
+      const identical = mergeTextBlocks3(['A', 'B'], ['A', 'X'], ['A', 'X']);
+      assert.deepEqual(identical[1], { kind: 'merged', source: 'both', blocks: ['X'] });
+    },
+  },
+  {
+    name: 'draftBranches: marca conflictos y los resuelve por eleccion del usuario',
+    run: () => {
+      const chapter = (content: string, title = 'Capitulo 1'): ChapterDocument => ({
+        id: '01',
+        title,
+        content,
+        lengthPreset: 'media',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      });
+      const base = chapter('<p>Inicio.</p><p>El faro se apaga.</p><p>Fin.</p>');
+      const ours = chapter('<p>Inicio.</p><p>El faro parpadea.</p><p>Fin.</p>');
+      const theirs = chapter('<p>Inicio.</p><p>El faro estalla.</p><p>Fin alternativo.</p>', 'Final alternativo');
+      const plan = buildDraftMergePlan({
+        base: { '01': base },
+        baseOrder: ['01'],
+        ours: { '01': ours },
+        oursOrder: ['01'],
+        theirs: { '01': theirs, '02': { ...chapter('<p>Epilogo.</p>'), id: '02' } },
+        theirsOrder: ['01', '02'],
+      });
+
+      assert.deepEqual(
+        plan.map((merge) => [merge.chapterId, merge.status, merge.conflictCount]),
+        [
+          ['01', 'conflict', 1],
+          ['02', 'added', 0],
+        ],
+      );
+      assert.equal(plan[0].title, 'Final alternativo');
+      assert.equal(resolveDraftChapterMerge(plan[0], {}), null);
+      assert.equal(
+        resolveDraftChapterMerge(plan[0], { 'conflict-1': 'theirs' }),
+        '<p>Inicio.</p><p>El faro estalla.</p><p>Fin alternativo.</p>',
+      );
+
+      const fastForward = buildDraftMergePlan({
+        base: { '01': base },
+        baseOrder: ['01'],
+        ours: { '01': base },
+        oursOrder: ['01'],
+        theirs: {},
+        theirsOrder: [],
+      });
+      assert.equal(fastForward[0].status, 'removed');
+
+      const independent = buildDraftMergePlan({
+        base: { '01': base },
+        baseOrder: ['01'],
+        ours: { '01': base, '02': { ...chapter('<p>Puerto.</p>', 'Capitulo main'), id: '02' } },
+        oursOrder: ['01', '02'],
+        theirs: { '01': base, '02': { ...chapter('<p>Tormenta.</p>', 'Capitulo rama'), id: '02' } },
+        theirsOrder: ['01', '02'],
+      });
+      assert.deepEqual(
+        independent.map((merge) => [merge.chapterId, merge.status, merge.title]),
+        [
+          ['01', 'unchanged', 'Capitulo 1'],
+          ['02', 'unchanged', 'Capitulo main'],
+          ['03', 'added', 'Capitulo rama'],
+        ],
+      );
+      assert.equal(independent[2].theirs?.id, '02');
+    },
+  },
+  {
+    name: 'collaborationPatchPreview: resume altas y cambios antes de importar',
+    run: () => {
+      const chapters = {
+        '01': {
+          id: '01',
+          title: 'Capitulo 1',
+          content: '<p>Lena llega al puerto.</p>',
+          lengthPreset: 'media' as const,
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      };
       const patch = {
         version: 1 as const,
         patchId: 'patch-01',
@@ -1875,6 +3090,260 @@ const tests: TestCase[] = [
       assert.equal(extractZipEntryText(archive, 'missing.txt'), null);
     },
   },
+  {
+    name: 'zipInspect: lee entradas deflate usando el directorio central',
+    run: async () => {
+      const compressed = new Uint8Array(
+        await new Response(
+          new Blob([new TextEncoder().encode('hola hola hola hola')]).stream().pipeThrough(new CompressionStream('deflate-raw')),
+        ).arrayBuffer(),
+      );
+      const archive = createZipArchive([
+        { name: 'plain.txt', data: 'uno' },
+        { name: 'packed.txt', data: compressed },
+      ]);
+      const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+      const centralOffset = view.getUint32(archive.length - 22 + 16, true);
+      const secondCentralOffset = centralOffset + 46 + 'plain.txt'.length;
+      view.setUint16(secondCentralOffset + 10, 8, true);
+      view.setUint16(view.getUint32(secondCentralOffset + 42, true) + 8, 8, true);
+
+      const entries = await readZipEntries(archive);
+      assert.deepEqual(
+        entries.map((entry) => entry.name),
+        ['plain.txt', 'packed.txt'],
+      );
+      assert.equal(await readZipEntryText(archive, 'packed.txt'), 'hola hola hola hola');
+      assert.equal(await readZipEntryText(archive, 'plain.txt'), 'uno');
+      await assert.rejects(() => readZipEntries(new Uint8Array([1, 2, 3])), /directorio central/);
+    },
+  },
+  {
+    name: 'manuscriptImport: markdown separa capitulos por H2 y conserva formato',
+    run: () => {
+      const parsed = parseMarkdownBlocks(
+        [
+          '# La casa del faro',
+          '',
+          'Nota previa sin encabezado de capitulo.',
+          '',
+          '## Uno',
+          '',
+          'Lena abre la **puerta** con *cuidado*',
+          'y entra.',
+          '',
+          '> Nadie vuelve del faro.',
+          '',
+          '***',
+          '',
+          'Escena dos con snake_case intacto.',
+          '',
+          '## Dos',
+          '',
+          'Cierre.',
+        ].join('\n'),
+      );
+      const preview = buildManuscriptImportPreview({
+        fileName: 'faro.md',
+        format: 'markdown',
+        suggestedTitle: 'faro',
+        blocks: parsed.blocks,
+      });
+
+      assert.equal(preview.suggestedTitle, 'La casa del faro');
+      assert.equal(preview.resolvedHeadingLevel, 2);
+      assert.deepEqual(
+        preview.chapters.map((chapter) => chapter.title),
+        ['Inicio', 'Uno', 'Dos'],
+      );
+      assert.equal(
+        preview.chapters[1].content,
+        '<p>Lena abre la <strong>puerta</strong> con <em>cuidado</em> y entra.</p>' +
+          '<blockquote><p>Nadie vuelve del faro.</p></blockquote><p>* * *</p><p>Escena dos con snake_case intacto.</p>',
+      );
+      assert.ok(preview.warnings.some((warning) => warning.includes('Inicio')));
+      assert.equal(parseMarkdownBlocks('---\ntitle: "Niebla"\n---\nTexto').title, 'Niebla');
+    },
+  },
+  {
+    name: 'manuscriptImport: texto plano detecta capitulos o corta por separador',
+    run: () => {
+      const text = 'Capítulo 1: Niebla\n\nLa luz gira.\n\nCapítulo 2: Marea\n\nEl agua sube.\n\n* * *\n\nAmanece.';
+      const blocks = parsePlainTextBlocks(text);
+      const byHeadings = buildManuscriptImportPreview({ fileName: 'n.txt', format: 'text', suggestedTitle: 'n', blocks });
+      assert.deepEqual(
+        byHeadings.chapters.map((chapter) => [chapter.title, chapter.wordCount]),
+        [
+          ['Capítulo 1: Niebla', 3],
+          ['Capítulo 2: Marea', 4],
+        ],
+      );
+
+      const bySeparator = buildManuscriptImportPreview(
+        { fileName: 'n.txt', format: 'text', suggestedTitle: 'n', blocks },
+        { splitMode: 'separator', headingLevel: null, separator: '* * *' },
+      );
+      assert.equal(bySeparator.chapters.length, 2);
+      assert.equal(bySeparator.chapters[0].title, 'Capítulo 1: Niebla');
+      assert.equal(bySeparator.chapters[1].title, 'Capitulo 2');
+      assert.equal(bySeparator.chapters[1].content, '<p>Amanece.</p>');
+
+      const byWordSeparator = buildManuscriptImportPreview(
+        { fileName: 'n.txt', format: 'text', suggestedTitle: 'n', blocks },
+        { splitMode: 'separator', headingLevel: null, separator: 'Capítulo' },
+      );
+      assert.deepEqual(
+        byWordSeparator.chapters.map((chapter) => chapter.title),
+        ['Capítulo 1: Niebla', 'Capítulo 2: Marea'],
+      );
+    },
+  },
+  {
+    name: 'manuscriptImport: docx usa estilos de titulo, negrita, cursiva y citas',
+    run: async () => {
+      const stylesXml =
+        '<w:styles><w:style w:type="paragraph" w:styleId="Ttulo1"><w:name w:val="heading 1"/></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="Ttulo"><w:name w:val="Title"/></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="Cita"><w:name w:val="Quote"/></w:style></w:styles>';
+      const paragraph = (style: string, runs: string) =>
+        `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs}</w:p>`;
+      const run = (text: string, props = '') => `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+      const documentXml =
+        '<w:document><w:body>' +
+        paragraph('Ttulo', run('El faro')) +
+        paragraph('Ttulo1', run('Primera noche')) +
+        paragraph('', run('Lena ') + run('no', '<w:b/>') + run(' duerme ', '<w:b w:val="0"/>') + run('nunca', '<w:i/>') + run(' &amp; calla.')) +
+        '<w:p/>' +
+        paragraph('Cita', run('El mar recuerda.')) +
+        paragraph('Ttulo1', run('Segunda noche')) +
+        paragraph('', run('Fin.')) +
+        '</w:body></w:document>';
+      const archive = createZipArchive([
+        { name: '[Content_Types].xml', data: '<Types/>' },
+        { name: 'word/document.xml', data: documentXml },
+        { name: 'word/styles.xml', data: stylesXml },
+      ]);
+
+      const source = await readManuscriptImportSource('C:/manuscritos/faro.docx', archive);
+      const preview = buildManuscriptImportPreview(source);
+
+      assert.equal(source.format, 'docx');
+      assert.equal(source.suggestedTitle, 'El faro');
+      assert.deepEqual(
+        preview.chapters.map((chapter) => chapter.title),
+        ['Primera noche', 'Segunda noche'],
+      );
+      assert.equal(
+        preview.chapters[0].content,
+        '<p>Lena <strong>no</strong> duerme <em>nunca</em> &amp; calla.</p><blockquote><p>El mar recuerda.</p></blockquote>',
+      );
+      await assert.rejects(() => readManuscriptImportSource('faro.odt', archive), /Formato no soportado/);
+    },
+  },
+  {
+    name: 'epubImport: lee spine EPUB 3, etiquetas nav, metadatos e imagen de portada',
+    run: async () => {
+      const opf =
+        '<package xmlns="http://www.idpf.org/2007/opf" version="3.0"><metadata xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+        '<dc:title>La Marea &amp; el Faro</dc:title><dc:creator id="c1">Ana Ruiz</dc:creator><dc:language>es-AR</dc:language>' +
+        '<dc:identifier id="uid">urn:uuid:1234</dc:identifier><dc:identifier>urn:isbn:978-84-376-0494-7</dc:identifier></metadata>' +
+        '<manifest><item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>' +
+        '<item id="img" href="../images/tapa.jpg" media-type="image/jpeg" properties="cover-image"/>' +
+        '<item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>' +
+        '<item id="c1" href="text/cap%201.xhtml" media-type="application/xhtml+xml"/>' +
+        '<item id="c2" href="text/cap2.xhtml" media-type="application/xhtml+xml"/></manifest>' +
+        '<spine><itemref idref="nav"/><itemref idref="c1"/><itemref idref="notes" linear="no"/><itemref idref="c2"/></spine></package>';
+      const nav =
+        '<html><body><nav epub:type="toc"><ol><li><a href="text/cap%201.xhtml">Uno</a></li>' +
+        '<li><a href="text/cap2.xhtml#top"><span>Dos: la marea</span></a></li></ol></nav></body></html>';
+      const archive = createZipArchive([
+        { name: 'mimetype', data: 'application/epub+zip' },
+        {
+          name: 'META-INF/container.xml',
+          data: '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+        },
+        { name: 'OEBPS/content.opf', data: opf },
+        { name: 'OEBPS/nav.xhtml', data: nav },
+        { name: 'images/tapa.jpg', data: new Uint8Array([0xff, 0xd8, 0xff]) },
+        { name: 'OEBPS/text/cap 1.xhtml', data: '<html><body><p>Primera.</p></body></html>' },
+        { name: 'OEBPS/text/cap2.xhtml', data: '<html><body><p>Segunda.</p></body></html>' },
+        { name: 'OEBPS/text/notes.xhtml', data: '<html><body><p>Notas.</p></body></html>' },
+      ]);
+
+      const epub = await readEpubPackage(archive);
+      assert.equal(epub.title, 'La Marea & el Faro');
+      assert.equal(epub.author, 'Ana Ruiz');
+      assert.equal(epub.language, 'es-AR');
+      assert.equal(epub.isbn, '978-84-376-0494-7');
+      assert.deepEqual(epub.cover && { extension: epub.cover.extension, size: epub.cover.data.length }, { extension: 'jpg', size: 3 });
+      assert.deepEqual(
+        epub.documents.map((document) => [document.href, document.label]),
+        [
+          ['OEBPS/text/cap 1.xhtml', 'Uno'],
+          ['OEBPS/text/cap2.xhtml', 'Dos: la marea'],
+        ],
+      );
+
+      const legacy = parseOpfPackage(
+        '<package version="2.0"><metadata><dc:title>Viejo</dc:title><dc:creator opf:role="edt">Editor</dc:creator>' +
+          '<dc:creator opf:role="aut">Autora</dc:creator><dc:identifier opf:scheme="ISBN">0-306-40615-2</dc:identifier>' +
+          '<meta name="cover" content="portada"/></metadata><manifest><item id="portada" href="p.png" media-type="image/png"/></manifest>' +
+          '<spine toc="ncx"><itemref idref="a"/></spine></package>',
+      );
+      assert.equal(legacy.author, 'Autora');
+      assert.equal(legacy.isbn, '0-306-40615-2');
+      assert.equal(legacy.coverId, 'portada');
+      assert.equal(legacy.tocId, 'ncx');
+    },
+  },
+  {
+    name: 'manuscriptImport: EPUB exportado por la app vuelve como capitulos sin portadilla',
+    run: async () => {
+      const metadata = createMetadata();
+      const chapters = [
+        { ...createChapters()[0], id: '01', title: 'Niebla', content: '<p>La luz gira.</p><p>Lena espera.</p>' },
+        { ...createChapters()[0], id: '02', title: 'Marea', content: '<p>El agua sube.</p>' },
+      ];
+      const source = await readManuscriptImportSource('C:/libros/faro.epub', buildEpubArchive(metadata, chapters));
+      const preview = buildManuscriptImportPreview(source, {
+        splitMode: 'separator',
+        headingLevel: null,
+        separator: 'ignorado',
+      });
+
+      assert.equal(source.format, 'epub');
+      assert.equal(source.suggestedTitle, metadata.title);
+      assert.equal(source.author, metadata.author);
+      assert.deepEqual(
+        preview.chapters.map((chapter) => [chapter.title, chapter.content]),
+        [
+          ['Niebla', '<p>La luz gira.</p><p>Lena espera.</p>'],
+          ['Marea', '<p>El agua sube.</p>'],
+        ],
+      );
+      assert.deepEqual(preview.warnings, []);
+    },
+  },
+  {
+    name: 'manuscriptImport: XHTML conserva citas, cursivas, saltos de escena y entidades',
+    run: () => {
+      const blocks = parseHtmlBlocks(
+        '<html><head><title>x</title><style>p{}</style></head><body><section><h1 class="t">Cap&iacute;tulo&nbsp;1</h1>' +
+          '<p>Ella dijo &laquo;<i>no</i>&raquo;&hellip;<br/>y <b>se fue <i>lejos</b></p><hr class="escena"/>' +
+          '<blockquote><p>Cita   larga</p></blockquote><div><img src="x.png"/></div></section></body></html>',
+      );
+
+      assert.deepEqual(
+        blocks.map((block) => [block.kind, block.level, block.html]),
+        [
+          ['heading', 1, 'Cap\u00edtulo 1'],
+          ['paragraph', 0, 'Ella dijo \u00ab<em>no</em>\u00bb\u2026<br>y <strong>se fue <em>lejos</em></strong>'],
+          ['paragraph', 0, '* * *'],
+          ['blockquote', 0, 'Cita larga'],
+        ],
+      );
+    },
+  },
   {
     name: 'export packs: cartografo, cronologia y editorial contienen artefactos requeridos',
     run: () => {
@@ -2009,6 +3478,90 @@ const tests: TestCase[] = [
       assert.ok(bytes.length > 800);
     },
   },
+  {
+    name: 'pdfFonts: lee cmap/hmtx y el subset conserva glifos compuestos',
+    run: () => {
+      const font = parseTrueTypeFont(createTestTrueTypeFont());
+      assert.equal(font.unitsPerEm, 1000);
+      assert.equal(font.numGlyphs, 4);
+      assert.equal(glyphIdForCodePoint(font, 'a'.codePointAt(0) ?? 0), 1);
+      assert.equal(glyphIdForCodePoint(font, 'í'.codePointAt(0) ?? 0), 2);
+      assert.equal(glyphIdForCodePoint(font, 'z'.codePointAt(0) ?? 0), 0);
+      assert.equal(Math.round(measureTrueTypeText(font, 'aí', 10) * 10) / 10, 10.6);
+
+      const subset = subsetTrueTypeFont(font, [2]);
+      const view = new DataView(subset.buffer);
+      const tableLengths = new Map<string, number>();
+      for (let index = 0; index < view.getUint16(4); index += 1) {
+        const tag = String.fromCharCode(...subset.slice(12 + index * 16, 16 + index * 16));
+        tableLengths.set(tag, view.getUint32(24 + index * 16));
+      }
+      assert.ok(!tableLengths.has('cmap'));
+      // Glifo 1 (componente) y 2 (compuesto): 20 + 20 bytes; el resto queda vacio.
+      assert.equal(tableLengths.get('glyf'), 40);
+      assert.equal(tableLengths.get('loca'), 20);
+    },
+  },
+  {
+    name: 'export: PDF interior conserva acentos y signos de apertura sin fuente incrustada',
+    run: () => {
+      const metadata = createMetadata();
+      const chapters: ChapterDocument[] = [
+        {
+          ...createChapters()[0],
+          title: 'El capítulo del faro',
+          content: '<p>¿Quién está ahí? ¡Ñandú!</p><p>* * *</p><p><em>Año</em> nuevo.</p>',
+        },
+      ];
+      const bytes = buildBookPdfBinary(metadata, chapters, null);
+      const text = new TextDecoder('latin1').decode(bytes);
+
+      assert.ok(text.includes('/BaseFont /Times-Roman /Encoding /WinAnsiEncoding'));
+      assert.ok(text.includes('\\277Qui\\351n est\\341 ah\\355?'));
+      assert.ok(text.includes('El cap\\355tulo del faro'));
+      assert.ok(text.includes('(* * *)'));
+      assert.ok(!text.includes('Capitulo 1: '));
+      assert.ok(text.includes('/Title <FEFF'));
+    },
+  },
+  {
+    name: 'export: PDF interior incrusta subset TrueType con ToUnicode',
+    run: () => {
+      const metadata = createMetadata();
+      const chapters: ChapterDocument[] = [{ ...createChapters()[0], title: 'a', content: '<p>a aí <strong>a</strong></p>' }];
+      const text = new TextDecoder('latin1').decode(
+        buildBookPdfBinary(metadata, chapters, { regular: createTestTrueTypeFont() }),
+      );
+
+      assert.ok(text.includes('/Subtype /Type0'));
+      assert.ok(text.includes('/Encoding /Identity-H'));
+      assert.ok(text.includes('/FontFile2'));
+      assert.ok(text.includes('<0002> <00ED>'));
+      assert.ok(!text.includes('/Times-Roman'));
+      // Sin cara negrita se simula con trazo + relleno.
+      assert.ok(text.includes('2 Tr'));
+    },
+  },
+  {
+    name: 'export: PDF interior pagina con cabeceras, folios y control de viudas',
+    run: () => {
+      const metadata = createMetadata();
+      metadata.interiorFormat = { ...metadata.interiorFormat, widowOrphanControl: true, dropCapEnabled: true };
+      const paragraph = '<p>' + 'La marea subia despacio sobre las rocas del puerto viejo. '.repeat(12) + '</p>';
+      const chapters: ChapterDocument[] = [
+        { ...createChapters()[0], id: '01', title: 'Marea', content: paragraph.repeat(14) },
+        { ...createChapters()[0], id: '02', title: 'Faro', content: '<p>Fin.</p>' },
+      ];
+      const text = new TextDecoder('latin1').decode(buildBookPdfBinary(metadata, chapters, null));
+      const pageCount = Number(/\/Type \/Pages \/Count (\d+)/.exec(text)?.[1] ?? 0);
+
+      assert.ok(pageCount > 6);
+      assert.ok(text.includes('[(Marea)] TJ'));
+      assert.ok(text.includes(`[(${metadata.author})] TJ`));
+      assert.ok(text.includes('[(5)] TJ'));
+      assert.ok(text.includes('/TrimBox [0 0 432 648]'));
+    },
+  },
   {
     name: 'styleMetrics: calcula ritmo, repeticion y semaforo',
     run: () => {
@@ -2027,6 +3580,226 @@ const tests: TestCase[] = [
       assert.equal(htmlReport.sentenceCount, 2);
     },
   },
+  {
+    name: 'proseLint: detecta adverbios, pasiva, verbos filtro, cliches y comienzos repetidos en espanol',
+    run: () => {
+      const text =
+        'Lena camino lentamente hacia el faro. La puerta fue abierta por el viento. Lena vio la sombra.\n' +
+        'Ella duda. Ella espera. Ella corre. En un abrir y cerrar de ojos todo cambio.\n' +
+        '—No te vayas —dijo Lena.';
+      const report = lintProse(text, 'es');
+      const byRule = (rule: string) => report.findings.filter((finding) => finding.rule === rule).map((finding) => finding.text);
+
+      assert.deepEqual(byRule('adverb'), ['lentamente']);
+      assert.deepEqual(byRule('passive'), ['fue abierta']);
+      assert.deepEqual(byRule('filter-word'), ['vio']);
+      assert.deepEqual(byRule('cliche'), ['En un abrir y cerrar de ojos']);
+      assert.deepEqual(byRule('sentence-start'), ['Ella']);
+      assert.equal(text.slice(report.findings[0].start, report.findings[0].end), 'lentamente');
+      assert.ok(report.dialogueRatio > 0.1 && report.dialogueRatio < 0.3);
+      assert.equal(report.readability.formula, 'fernandez-huerta');
+
+      assert.equal(countSyllables('camino', 'es'), 3);
+      assert.equal(countSyllables('puerta', 'es'), 2);
+      assert.equal(countSyllables('río', 'es'), 2);
+      assert.equal(countSyllables('faro', 'es'), 2);
+    },
+  },
+  {
+    name: 'proseLint: reglas en ingles y puntajes de prosa en styleMetrics',
+    run: () => {
+      const report = lintProse(
+        'She walked slowly to the door. The door was opened by the wind. She saw a shadow. In the blink of an eye it was gone.',
+        'en',
+      );
+      assert.deepEqual(
+        report.findings.map((finding) => [finding.rule, finding.text]),
+        [
+          ['adverb', 'slowly'],
+          ['passive', 'was opened'],
+          ['filter-word', 'saw'],
+          ['cliche', 'In the blink of an eye'],
+        ],
+      );
+      assert.equal(report.readability.formula, 'flesch');
+      assert.ok(report.readability.index > 80);
+      assert.equal(countSyllables('shadow', 'en'), 2);
+
+      const style = analyzeHtmlStyle(
+        '<p>Rapidamente subio. Lentamente bajo. Suavemente hablo. Claramente mintio.</p><p>—Basta —dijo.</p>',
+      );
+      const adverbs = style.proseChecks.find((check) => check.rule === 'adverb');
+      assert.equal(adverbs?.count, 4);
+      assert.equal(adverbs?.level, 'alert');
+      assert.equal(style.proseLevel, 'alert');
+      assert.equal(style.overallLevel, 'alert');
+      assert.ok(style.dialogueRatio > 0);
+    },
+  },
+  {
+    name: 'dialogueAttribution: atribuye rayas por acotacion, alias, accion y alternancia',
+    run: () => {
+      const characters = [
+        { ...createStoryBible().characters[0], aliases: 'Helena' },
+        { ...createStoryBible().characters[0], id: 'char-marco', name: 'Marco', aliases: '' },
+      ];
+      const chapter: ChapterDocument = {
+        ...createChapters()[0],
+        content:
+          '<p>—Nadie sale de aqui —dijo Helena—. Nadie.</p>' +
+          '<p>—¿Y si el faro cae? —Marco cruzo los brazos.</p>' +
+          '<p>—Entonces nadamos.</p>' +
+          '<p>—Muy gracioso.</p>' +
+          '<p>El viento golpeo la puerta.</p>' +
+          '<p>—¿Quien anda ahi?</p>',
+      };
+      const lines = extractChapterDialogue(chapter, characters);
+      assert.deepEqual(
+        lines.map((line) => [line.speakerId, line.method]),
+        [
+          ['char-lena', 'tag'],
+          ['char-marco', 'beat'],
+          ['char-lena', 'alternation'],
+          ['char-marco', 'alternation'],
+          [null, 'none'],
+        ],
+      );
+      assert.equal(lines[0].text, 'Nadie sale de aqui Nadie.');
+      assert.equal(lines[0].wordCount, 5);
+    },
+  },
+  {
+    name: 'dialogueAttribution: comillas en ingles, totales por capitulo y vocabulario distintivo',
+    run: () => {
+      const characters = [
+        { ...createStoryBible().characters[0], id: 'char-aria', name: 'Aria', aliases: '' },
+        { ...createStoryBible().characters[0], id: 'char-marco', name: 'Marco', aliases: '' },
+      ];
+      const [base] = createChapters();
+      const report = analyzeBookDialogue(
+        [
+          {
+            ...base,
+            content:
+              '<p>"The lighthouse keeps watch," said Aria. "The lighthouse never sleeps."</p>' +
+              '<p>"Storms arrive at night," Marco replied. "Storms always return."</p>',
+          },
+          { ...base, id: '02', content: '<p>"Hello?"</p><p>Nobody answered.</p>' },
+        ],
+        characters,
+      );
+      assert.equal(report.totalLines, 3);
+      assert.equal(report.unattributedLines, 1);
+      assert.deepEqual(report.chapters[0].bySpeaker['char-aria'], { lines: 1, words: 8 });
+      assert.equal(report.chapters[1].unattributedLines, 1);
+      const [aria, marco] = report.characters;
+      assert.equal(aria.avgWordsPerLine, 8);
+      assert.deepEqual(aria.distinctiveTerms, ['lighthouse']);
+      assert.deepEqual(marco.distinctiveTerms, ['storms']);
+      assert.equal(marco.words, 7);
+    },
+  },
+  {
+    name: 'scenes: separa por saltos de escena, alinea metadatos y reordena dentro del capitulo',
+    run: () => {
+      const chapter: ChapterDocument = {
+        ...createChapters()[0],
+        pointOfView: 'Lena',
+        content: '<p>Uno dos tres.</p><p>* * *</p><p>Cuatro cinco.</p><p>***</p><p>Seis.</p>',
+      };
+      const scenes = resolveChapterScenes(chapter);
+      assert.deepEqual(scenes.map((scene) => scene.wordCount), [3, 2, 1]);
+      assert.equal(scenes[1].pointOfView, 'Lena');
+
+      const withMeta = updateChapterSceneMeta(chapter, 1, { pointOfView: 'Marco', synopsis: 'La huida', timelineEventId: 'event-1' });
+      assert.equal(withMeta.scenes?.length, 3);
+      assert.equal(resolveChapterScenes(withMeta)[1].pointOfView, 'Marco');
+      assert.equal(
+        withMeta.content,
+        '<p>Uno dos tres.</p><p data-scene-id="01-scene-2">* * *</p><p>Cuatro cinco.</p><p data-scene-id="01-scene-3">* * *</p><p>Seis.</p>',
+      );
+
+      // Un salto nuevo antes de la escena con metadatos no le corre el POV a otra escena.
+      const withNewBreak = { ...withMeta, content: withMeta.content.replace('<p>Uno dos tres.</p>', '<p>Uno.</p><p>* * *</p><p>Dos tres.</p>') };
+      assert.deepEqual(
+        resolveChapterScenes(withNewBreak).map((scene) => scene.scene.timelineEventId ?? ''),
+        ['', '', 'event-1', ''],
+      );
+
+      const reordered = moveSceneWithinChapter(withMeta, 1, 0);
+      assert.equal(
+        reordered.content,
+        '<p>Cuatro cinco.</p><p data-scene-id="01-scene-1">* * *</p><p>Uno dos tres.</p><p data-scene-id="01-scene-3">* * *</p><p>Seis.</p>',
+      );
+      assert.equal(reordered.scenes?.[0].synopsis, 'La huida');
+      assert.equal(reordered.contentJson, null);
+      assert.throws(() => updateChapterSceneMeta(chapter, 5, { synopsis: 'x' }));
+    },
+  },
+  {
+    name: 'scenes: mueve escenas entre capitulos y expande filas por escena con glifo propio',
+    run: () => {
+      const [base] = createChapters();
+      const source: ChapterDocument = {
+        ...base,
+        id: '01',
+        content: '<p>Alfa.</p><p>❦</p><p>Beta.</p>',
+        scenes: [{ id: 'scene-a', pointOfView: 'Lena' }, { id: 'scene-b', pointOfView: 'Marco' }],
+      };
+      const target: ChapterDocument = { ...base, id: '02', title: 'Capitulo 2', content: '<p>Gamma.</p>' };
+
+      const moved = moveSceneToChapter(source, 1, target, 0, '❦');
+      assert.equal(moved.source.content, '<p>Alfa.</p>');
+      assert.equal(moved.target.content, '<p>Beta.</p><p data-scene-id="02-scene-1">❦</p><p>Gamma.</p>');
+      assert.deepEqual(moved.target.scenes?.map((scene) => scene.id), ['scene-b', '02-scene-1']);
+      assert.throws(() => moveSceneToChapter(moved.source, 0, moved.target, 0, '❦'));
+
+      const rows = expandChaptersIntoScenes([moved.source, moved.target], '❦');
+      assert.deepEqual(
+        rows.map((row) => [row.id, row.pointOfView]),
+        [
+          ['01#1', 'Lena'],
+          ['02#1', 'Marco'],
+          ['02#2', ''],
+        ],
+      );
+    },
+  },
+  {
+    name: 'scenes: divide un capitulo en una escena y lo vuelve a unir con el siguiente',
+    run: () => {
+      const [base] = createChapters();
+      const chapter: ChapterDocument = {
+        ...base,
+        id: '01',
+        content: '<p>Alfa.</p><p>* * *</p><p>Beta.</p><p>* * *</p><p>Gamma.</p>',
+        scenes: [{ id: 'a' }, { id: 'b', synopsis: 'Huida' }, { id: 'c' }],
+        wordTarget: 900,
+      };
+
+      const { head, tail } = splitChapterAtScene(chapter, 1);
+      assert.equal(head.content, '<p>Alfa.</p>');
+      assert.deepEqual(head.scenes?.map((scene) => scene.id), ['a']);
+      assert.equal(tail.content, '<p>Beta.</p><p data-scene-id="c">* * *</p><p>Gamma.</p>');
+      assert.equal(tail.scenes?.[0].synopsis, 'Huida');
+      assert.throws(() => splitChapterAtScene(chapter, 0));
+
+      const second: ChapterDocument = { ...base, id: '02', pointOfView: 'Marco', wordTarget: 300, ...tail };
+      const merged = mergeChapterContents(head, second);
+      assert.equal(
+        merged.content,
+        '<p>Alfa.</p><p data-scene-id="b">* * *</p><p>Beta.</p><p data-scene-id="c">* * *</p><p>Gamma.</p>',
+      );
+      assert.equal(merged.id, '01');
+      assert.deepEqual(merged.scenes?.map((scene) => [scene.id, scene.pointOfView ?? '']), [
+        ['a', ''],
+        ['b', 'Marco'],
+        ['c', 'Marco'],
+      ]);
+      assert.equal(merged.wordTarget, 1200);
+      assert.notEqual(merged.updatedAt, head.updatedAt);
+    },
+  },
   {
     name: 'amazon: aplica preset y completa campos vacios',
     run: () => {
@@ -2585,6 +4358,46 @@ const tests: TestCase[] = [
       assert.equal(getPlotStageLabel(0, 1), 'Nucleo');
     },
   },
+  {
+    name: 'plot board: cobertura de capitulos por referencias y escenas enlazadas',
+    run: () => {
+      const saga = createSagaFixture();
+      const timeline = saga.metadata.worldBible.timeline;
+      const [first, second] = createChapters();
+      const chapters: ChapterDocument[] = [
+        { ...first, id: '01', title: 'Llegada' },
+        { ...second, id: '02', title: 'Cuna', scenes: [{ id: 's1', timelineEventId: 'event-birth' }] },
+      ];
+
+      const coverage = buildPlotChapterCoverage(timeline, 'C:/books/vol-1/', chapters);
+      assert.deepEqual(
+        coverage['event-arrival']?.map((link) => [link.title, link.source, link.inOpenBook]),
+        [['Llegada', 'reference', true]],
+      );
+      assert.deepEqual(coverage['event-birth']?.map((link) => [link.chapterId, link.source]), [['02', 'scene']]);
+
+      const withoutChapters = buildPlotChapterCoverage(timeline, 'C:/books/vol-1', []);
+      assert.equal(withoutChapters['event-arrival'], undefined);
+    },
+  },
+  {
+    name: 'plot board: prepara capitulo desde un paso y enlaza el evento sin duplicar',
+    run: () => {
+      const saga = createSagaFixture();
+      const birth = saga.metadata.worldBible.timeline.find((event) => event.id === 'event-birth');
+      assert.ok(birth);
+
+      const draft = buildPlotChapterDraft(birth, saga.metadata.worldBible.characters);
+      assert.equal(draft.pointOfView, 'Elara');
+      assert.equal(draft.synopsis, birth.summary.trim());
+      assert.ok(draft.seedText.startsWith('Escena creada desde PlotBoard.'));
+      assert.equal(buildPlotChapterDraft(birth, saga.metadata.worldBible.characters, 'char-nadie').pointOfView, 'Elara');
+
+      const linked = linkPlotEventToChapter(birth, 'C:/books/vol-1', '07');
+      assert.deepEqual(linked.bookRefs, [{ bookPath: 'C:/books/vol-1', chapterId: '07', mode: 'occurs' }]);
+      assert.equal(linkPlotEventToChapter(linked, 'C:/books/vol-1/', '07'), linked);
+    },
+  },
   {
     name: 'world map: construye nodos y conexiones logicas entre lugares',
     run: () => {
@@ -3080,29 +4893,33 @@ const tests: TestCase[] = [
   },
 ];
 
-let failures = 0;
-for (const testCase of tests) {
-  try {
-    testCase.run();
-    console.log(`[PASS] ${testCase.name}`);
-  } catch (error) {
-    failures += 1;
-    const message =
-      error instanceof Error
-        ? error.message
-        : typeof error === 'string'
-          ? error
-          : 'Error desconocido';
-    console.error(`[FAIL] ${testCase.name}`);
-    console.error(`  ${message}`);
+async function runSuite(): Promise<void> {
+  let failures = 0;
+  for (const testCase of tests) {
+    try {
+      await testCase.run();
+      console.log(`[PASS] ${testCase.name}`);
+    } catch (error) {
+      failures += 1;
+      const message =
+        error instanceof Error
+          ? error.message
+          : typeof error === 'string'
+            ? error
+            : 'Error desconocido';
+      console.error(`[FAIL] ${testCase.name}`);
+      console.error(`  ${message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\nTests fallidos: ${failures}`);
+    process.exit(1);
   }
-}
 
-if (failures > 0) {
-  console.error(`\nTests fallidos: ${failures}`);
-  process.exit(1);
+  console.log(`\nSuite OK: ${tests.length} tests`);
 }
 
-console.log(`\nSuite OK: ${tests.length} tests`);
+void runSuite();
 
 